@@ -0,0 +1,28 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('idempotency_keys', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    user_id: { type: 'uuid', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    idempotency_key: { type: 'varchar(255)', notNull: true },
+    request_method: { type: 'varchar(10)', notNull: true },
+    request_path: { type: 'varchar(500)', notNull: true },
+    response_status: { type: 'integer' },
+    response_body: { type: 'jsonb' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.createIndex('idempotency_keys', ['user_id', 'idempotency_key'], {
+    name: 'idx_idempotency_keys_user_key',
+    unique: true,
+  });
+  pgm.createIndex('idempotency_keys', ['created_at'], {
+    name: 'idx_idempotency_keys_created',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('idempotency_keys', { ifExists: true });
+};
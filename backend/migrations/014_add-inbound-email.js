@@ -0,0 +1,49 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Per-task token used in reply addresses (reply+<token>@domain) and subject tags
+  pgm.addColumns('tasks', {
+    reply_token: {
+      type: 'varchar(32)',
+      notNull: true,
+      default: pgm.func("replace(gen_random_uuid()::text, '-', '')"),
+    },
+  });
+  pgm.createIndex('tasks', ['reply_token'], {
+    name: 'idx_tasks_reply_token',
+    unique: true,
+  });
+
+  // Replies from unexpected senders, held for project manager review
+  pgm.createTable('inbound_email_quarantine', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    organization_id: { type: 'uuid', notNull: true, references: 'organizations', onDelete: 'CASCADE' },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    task_id: { type: 'uuid', notNull: true, references: 'tasks', onDelete: 'CASCADE' },
+    from_email: { type: 'varchar(255)', notNull: true },
+    subject: { type: 'varchar(500)' },
+    body_text: { type: 'text', notNull: true },
+    command: { type: 'varchar(20)' },
+    attachments: { type: 'jsonb', notNull: true, default: pgm.func("'[]'::jsonb") },
+    status: { type: 'varchar(20)', notNull: true, default: 'pending' },
+    reviewed_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    reviewed_at: { type: 'timestamptz' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.addConstraint('inbound_email_quarantine', 'chk_inbound_email_quarantine_status', {
+    check: "status IN ('pending', 'approved', 'rejected')",
+  });
+
+  pgm.createIndex('inbound_email_quarantine', ['project_id', 'status'], {
+    name: 'idx_inbound_email_quarantine_project_status',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('inbound_email_quarantine', { ifExists: true });
+  pgm.dropIndex('tasks', ['reply_token'], { name: 'idx_tasks_reply_token', ifExists: true });
+  pgm.dropColumns('tasks', ['reply_token']);
+};
@@ -0,0 +1,26 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('contractor_portal_links', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    contractor_email: { type: 'varchar(255)', notNull: true },
+    token_hash: { type: 'varchar(128)', notNull: true, unique: true },
+    expires_at: { type: 'timestamptz', notNull: true },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    revoked_at: { type: 'timestamptz' },
+    revoked_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    last_used_at: { type: 'timestamptz' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.createIndex('contractor_portal_links', ['project_id'], {
+    name: 'idx_contractor_portal_links_project',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('contractor_portal_links', { ifExists: true });
+};
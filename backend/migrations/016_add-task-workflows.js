@@ -0,0 +1,66 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Statuses of an organisation's task workflow. Organisations without rows use the
+  // built-in open → in_progress → completed → verified workflow.
+  pgm.createTable('workflow_statuses', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    organization_id: { type: 'uuid', notNull: true, references: 'organizations', onDelete: 'CASCADE' },
+    status_key: { type: 'varchar(50)', notNull: true },
+    label: { type: 'varchar(100)', notNull: true },
+    color: { type: 'varchar(7)', notNull: true },
+    // Every status rolls up into one of the built-in categories for stats and reports
+    category: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "category IN ('open', 'in_progress', 'completed', 'verified')",
+    },
+    is_initial: { type: 'boolean', notNull: true, default: false },
+    display_order: { type: 'integer', notNull: true, default: 0 },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.addConstraint('workflow_statuses', 'uq_workflow_statuses_org_key', {
+    unique: ['organization_id', 'status_key'],
+  });
+
+  pgm.createTable('workflow_transitions', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    organization_id: { type: 'uuid', notNull: true, references: 'organizations', onDelete: 'CASCADE' },
+    from_status: { type: 'varchar(50)', notNull: true },
+    to_status: { type: 'varchar(50)', notNull: true },
+    // Empty means every role may perform the transition
+    allowed_roles: { type: 'text[]', notNull: true, default: pgm.func("'{}'") },
+    requires_comment: { type: 'boolean', notNull: true, default: false },
+    requires_photo: { type: 'boolean', notNull: true, default: false },
+    // Whether contractors may perform it from the portal or by email reply
+    allow_external: { type: 'boolean', notNull: true, default: false },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.addConstraint('workflow_transitions', 'uq_workflow_transitions_org_from_to', {
+    unique: ['organization_id', 'from_status', 'to_status'],
+  });
+
+  // Task statuses are now validated against the organisation's workflow
+  pgm.sql('ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check');
+  pgm.alterColumn('tasks', 'status', { type: 'varchar(50)' });
+};
+
+exports.down = (pgm) => {
+  // Fold custom statuses back into their built-in category before restoring the constraint
+  pgm.sql(`
+    UPDATE tasks t SET status = ws.category
+    FROM projects p, workflow_statuses ws
+    WHERE p.id = t.project_id AND ws.organization_id = p.organization_id AND ws.status_key = t.status
+  `);
+  pgm.alterColumn('tasks', 'status', { type: 'varchar(20)' });
+  pgm.addConstraint('tasks', 'tasks_status_check', {
+    check: "status IN ('open', 'in_progress', 'completed', 'verified')",
+  });
+
+  pgm.dropTable('workflow_transitions', { ifExists: true });
+  pgm.dropTable('workflow_statuses', { ifExists: true });
+};
@@ -0,0 +1,25 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('task_history', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    task_id: { type: 'uuid', notNull: true, references: 'tasks', onDelete: 'CASCADE' },
+    field: { type: 'varchar(150)', notNull: true },
+    old_value: { type: 'jsonb' },
+    new_value: { type: 'jsonb' },
+    changed_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    external_email: { type: 'varchar(255)' },
+    via: { type: 'varchar(20)' },
+    created_at: { type: 'timestamptz', notNull: true, default: pgm.func('NOW()') },
+  });
+
+  pgm.createIndex('task_history', ['task_id', 'created_at'], {
+    name: 'idx_task_history_task',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('task_history', { ifExists: true });
+};
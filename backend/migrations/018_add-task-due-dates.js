@@ -0,0 +1,43 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumns('tasks', {
+    due_date: { type: 'date' },
+    due_reminder_sent_at: { type: 'timestamptz' },
+    overdue_escalated_at: { type: 'timestamptz' },
+  });
+
+  pgm.createIndex('tasks', ['due_date'], {
+    name: 'idx_tasks_due_date',
+    where: 'due_date IS NOT NULL',
+  });
+
+  // Default due dates by priority and/or trade. project_id NULL = organisation-wide rule.
+  pgm.createTable('sla_rules', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    organization_id: { type: 'uuid', notNull: true, references: 'organizations', onDelete: 'CASCADE' },
+    project_id: { type: 'uuid', references: 'projects', onDelete: 'CASCADE' },
+    priority: { type: 'varchar(20)' },
+    trade: { type: 'varchar(50)' },
+    due_in_days: { type: 'integer', notNull: true },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    updated_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.createIndex('sla_rules', ['organization_id', 'project_id'], {
+    name: 'idx_sla_rules_org_project',
+  });
+
+  pgm.sql(
+    'CREATE TRIGGER update_sla_rules_updated_at BEFORE UPDATE ON sla_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+  );
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('sla_rules', { ifExists: true });
+  pgm.dropIndex('tasks', ['due_date'], { name: 'idx_tasks_due_date', ifExists: true });
+  pgm.dropColumns('tasks', ['due_date', 'due_reminder_sent_at', 'overdue_escalated_at']);
+};
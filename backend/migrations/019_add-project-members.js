@@ -0,0 +1,51 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('project_members', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    user_id: { type: 'uuid', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    role: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'member',
+      check: "role IN ('manager', 'member', 'viewer')",
+    },
+    added_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    updated_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.addConstraint('project_members', 'uq_project_members_project_user', {
+    unique: ['project_id', 'user_id'],
+  });
+  pgm.createIndex('project_members', ['user_id'], { name: 'idx_project_members_user' });
+
+  pgm.sql(
+    'CREATE TRIGGER update_project_members_updated_at BEFORE UPDATE ON project_members FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+  );
+
+  // Existing projects: creators and responsible users manage them, anyone who
+  // created or was assigned a task keeps working on them. Everyone else has to
+  // be added explicitly; org admins see every project regardless.
+  pgm.sql(`
+    INSERT INTO project_members (project_id, user_id, role)
+    SELECT id, created_by, 'manager' FROM projects WHERE created_by IS NOT NULL
+    UNION
+    SELECT id, responsible_user_id, 'manager' FROM projects WHERE responsible_user_id IS NOT NULL
+    ON CONFLICT (project_id, user_id) DO NOTHING
+  `);
+  pgm.sql(`
+    INSERT INTO project_members (project_id, user_id, role)
+    SELECT project_id, created_by, 'member' FROM tasks WHERE created_by IS NOT NULL
+    UNION
+    SELECT project_id, assigned_to_user, 'member' FROM tasks WHERE assigned_to_user IS NOT NULL
+    ON CONFLICT (project_id, user_id) DO NOTHING
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('project_members', { ifExists: true });
+};
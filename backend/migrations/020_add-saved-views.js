@@ -0,0 +1,37 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('saved_views', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    user_id: { type: 'uuid', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    name: { type: 'varchar(100)', notNull: true },
+    filters: { type: 'jsonb', notNull: true, default: pgm.func("'{}'::jsonb") },
+    is_shared: { type: 'boolean', notNull: true, default: false },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    updated_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.createIndex('saved_views', ['project_id'], { name: 'idx_saved_views_project' });
+  pgm.createIndex('saved_views', ['user_id'], { name: 'idx_saved_views_user' });
+
+  pgm.sql(
+    'CREATE TRIGGER update_saved_views_updated_at BEFORE UPDATE ON saved_views FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+  );
+
+  // Pins are per user so anyone can pin a view shared with the project
+  pgm.createTable('saved_view_pins', {
+    view_id: { type: 'uuid', notNull: true, references: 'saved_views', onDelete: 'CASCADE' },
+    user_id: { type: 'uuid', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.addConstraint('saved_view_pins', 'pk_saved_view_pins', { primaryKey: ['view_id', 'user_id'] });
+  pgm.createIndex('saved_view_pins', ['user_id'], { name: 'idx_saved_view_pins_user' });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('saved_view_pins', { ifExists: true });
+  pgm.dropTable('saved_views', { ifExists: true });
+};
@@ -0,0 +1,43 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+// Text is indexed with both the English and the Swedish configuration so
+// either language's stemming matches. The expressions must stay identical to
+// the documents in src/models/search.model.ts or the indexes go unused.
+function bilingual(columns) {
+  const text = columns.map((c) => `COALESCE(${c}, '')`).join(` || ' ' || `);
+  return `(to_tsvector('english', ${text}) || to_tsvector('swedish', ${text}))`;
+}
+
+const SEARCH_INDEXES = [
+  { name: 'idx_tasks_fts', table: 'tasks', columns: ['title', 'trade', 'description'] },
+  { name: 'idx_project_notes_fts', table: 'project_notes', columns: ['content'] },
+  { name: 'idx_task_comments_fts', table: 'task_comments', columns: ['comment_text'] },
+  { name: 'idx_products_fts', table: 'products', columns: ['name', 'product_id', 'description', 'comment'] },
+  { name: 'idx_blueprints_fts', table: 'blueprints', columns: ['name'] },
+];
+
+exports.up = (pgm) => {
+  // English-only and superseded by idx_tasks_fts
+  pgm.sql('DROP INDEX IF EXISTS idx_tasks_search');
+
+  for (const index of SEARCH_INDEXES) {
+    pgm.sql(`CREATE INDEX ${index.name} ON ${index.table} USING gin(${bilingual(index.columns)})`);
+  }
+
+  // Trigram indexes for typo-tolerant matching on titles and names
+  pgm.sql('CREATE INDEX idx_tasks_title_trgm ON tasks USING gin(title gin_trgm_ops)');
+  pgm.sql('CREATE INDEX idx_products_name_trgm ON products USING gin(name gin_trgm_ops)');
+  pgm.sql('CREATE INDEX idx_blueprints_name_trgm ON blueprints USING gin(name gin_trgm_ops)');
+};
+
+exports.down = (pgm) => {
+  pgm.sql('DROP INDEX IF EXISTS idx_blueprints_name_trgm');
+  pgm.sql('DROP INDEX IF EXISTS idx_products_name_trgm');
+  pgm.sql('DROP INDEX IF EXISTS idx_tasks_title_trgm');
+  for (const index of SEARCH_INDEXES) {
+    pgm.sql(`DROP INDEX IF EXISTS ${index.name}`);
+  }
+  pgm.sql(`CREATE INDEX idx_tasks_search ON tasks USING gin(to_tsvector('english', title || ' ' || COALESCE(description, '')))`);
+};
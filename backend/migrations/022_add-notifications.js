@@ -0,0 +1,56 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.createTable('notifications', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    organization_id: { type: 'uuid', notNull: true, references: 'organizations', onDelete: 'CASCADE' },
+    user_id: { type: 'uuid', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    type: { type: 'varchar(50)', notNull: true },
+    title: { type: 'varchar(255)', notNull: true },
+    body: { type: 'text' },
+    // Path in the web app, e.g. /projects/:projectId/tasks/:taskId
+    link: { type: 'varchar(500)' },
+    actor_id: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    project_id: { type: 'uuid', references: 'projects', onDelete: 'CASCADE' },
+    task_id: { type: 'uuid', references: 'tasks', onDelete: 'CASCADE' },
+    // Channel chosen by the user when the notification was created
+    channel: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'in_app',
+      check: "channel IN ('in_app', 'email', 'digest')",
+    },
+    read_at: { type: 'timestamptz' },
+    emailed_at: { type: 'timestamptz' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.createIndex('notifications', ['user_id', { name: 'created_at', sort: 'DESC' }], { name: 'idx_notifications_user' });
+  pgm.sql('CREATE INDEX idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL');
+
+  // One row per event type the user changed; missing rows use the defaults in notification.service.ts
+  pgm.createTable('notification_preferences', {
+    user_id: { type: 'uuid', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    event_type: { type: 'varchar(50)', notNull: true },
+    channel: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "channel IN ('in_app', 'email', 'digest')",
+    },
+    updated_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.addConstraint('notification_preferences', 'pk_notification_preferences', {
+    primaryKey: ['user_id', 'event_type'],
+  });
+
+  pgm.sql(
+    'CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON notification_preferences FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+  );
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('notification_preferences', { ifExists: true });
+  pgm.dropTable('notifications', { ifExists: true });
+};
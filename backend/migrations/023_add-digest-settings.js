@@ -0,0 +1,33 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Users without a row get no digest
+  pgm.createTable('digest_settings', {
+    user_id: { type: 'uuid', primaryKey: true, references: 'users', onDelete: 'CASCADE' },
+    frequency: {
+      type: 'varchar(10)',
+      notNull: true,
+      default: 'off',
+      check: "frequency IN ('off', 'daily', 'weekly')",
+    },
+    // Local hour in the user's timezone
+    send_hour: { type: 'smallint', notNull: true, default: 7, check: 'send_hour BETWEEN 0 AND 23' },
+    // ISO day of week for weekly digests, 1 = Monday
+    weekday: { type: 'smallint', notNull: true, default: 1, check: 'weekday BETWEEN 1 AND 7' },
+    // IANA name, e.g. Europe/Stockholm
+    timezone: { type: 'varchar(64)', notNull: true },
+    last_sent_at: { type: 'timestamptz' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    updated_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.sql(
+    'CREATE TRIGGER update_digest_settings_updated_at BEFORE UPDATE ON digest_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+  );
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('digest_settings', { ifExists: true });
+};
@@ -0,0 +1,30 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // One row per user mentioned in a task comment or project note
+  pgm.createTable('mentions', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    organization_id: { type: 'uuid', notNull: true, references: 'organizations', onDelete: 'CASCADE' },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    mentioned_user_id: { type: 'uuid', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    mentioned_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    task_id: { type: 'uuid', references: 'tasks', onDelete: 'CASCADE' },
+    comment_id: { type: 'uuid', references: 'task_comments', onDelete: 'CASCADE' },
+    note_id: { type: 'uuid', references: 'project_notes', onDelete: 'CASCADE' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.addConstraint('mentions', 'chk_mentions_source', {
+    check: '(comment_id IS NOT NULL AND note_id IS NULL) OR (comment_id IS NULL AND note_id IS NOT NULL)',
+  });
+
+  pgm.createIndex('mentions', ['mentioned_user_id', { name: 'created_at', sort: 'DESC' }], { name: 'idx_mentions_user' });
+  pgm.sql('CREATE UNIQUE INDEX idx_mentions_comment_user ON mentions(comment_id, mentioned_user_id) WHERE comment_id IS NOT NULL');
+  pgm.sql('CREATE UNIQUE INDEX idx_mentions_note_user ON mentions(note_id, mentioned_user_id) WHERE note_id IS NOT NULL');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('mentions', { ifExists: true });
+};
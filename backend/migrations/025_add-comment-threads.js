@@ -0,0 +1,48 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumns('task_comments', {
+    // Replies point at a top-level comment; threads are one level deep
+    parent_id: { type: 'uuid', references: 'task_comments', onDelete: 'CASCADE' },
+    edited_at: { type: 'timestamptz' },
+    // Soft delete keeps the thread intact; the text is hidden from every reader
+    deleted_at: { type: 'timestamptz' },
+    deleted_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+  });
+  pgm.createIndex('task_comments', 'parent_id', { name: 'idx_task_comments_parent', where: 'parent_id IS NOT NULL' });
+
+  // Previous versions of edited comments, newest last
+  pgm.createTable('task_comment_edits', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    comment_id: { type: 'uuid', notNull: true, references: 'task_comments', onDelete: 'CASCADE' },
+    previous_text: { type: 'text', notNull: true },
+    edited_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    edited_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.createIndex('task_comment_edits', ['comment_id', 'edited_at'], { name: 'idx_task_comment_edits_comment' });
+
+  // Files are uploaded before the comment is posted, so comment_id stays empty until then
+  pgm.createTable('task_comment_attachments', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    task_id: { type: 'uuid', notNull: true, references: 'tasks', onDelete: 'CASCADE' },
+    comment_id: { type: 'uuid', references: 'task_comments', onDelete: 'CASCADE' },
+    file_url: { type: 'varchar(500)', notNull: true },
+    file_name: { type: 'varchar(255)', notNull: true },
+    mime_type: { type: 'varchar(100)', notNull: true },
+    file_size_bytes: { type: 'bigint', notNull: true },
+    thumbnail_url: { type: 'varchar(500)' },
+    uploaded_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    confirmed_at: { type: 'timestamptz' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.createIndex('task_comment_attachments', 'comment_id', { name: 'idx_task_comment_attachments_comment' });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('task_comment_attachments', { ifExists: true });
+  pgm.dropTable('task_comment_edits', { ifExists: true });
+  pgm.dropIndex('task_comments', 'parent_id', { name: 'idx_task_comments_parent', ifExists: true });
+  pgm.dropColumns('task_comments', ['parent_id', 'edited_at', 'deleted_at', 'deleted_by']);
+};
@@ -0,0 +1,33 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Typed links between tasks of a project. "blocked by" is stored as the inverse
+  // "blocks" row; relates_to is symmetric and stored once.
+  pgm.createTable('task_relations', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    source_task_id: { type: 'uuid', notNull: true, references: 'tasks', onDelete: 'CASCADE' },
+    target_task_id: { type: 'uuid', notNull: true, references: 'tasks', onDelete: 'CASCADE' },
+    relation_type: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "relation_type IN ('blocks', 'duplicates', 'relates_to')",
+    },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.addConstraint('task_relations', 'chk_task_relations_not_self', {
+    check: 'source_task_id <> target_task_id',
+  });
+  pgm.addConstraint('task_relations', 'uq_task_relations_source_target_type', {
+    unique: ['source_task_id', 'target_task_id', 'relation_type'],
+  });
+  pgm.createIndex('task_relations', ['target_task_id', 'relation_type'], { name: 'idx_task_relations_target' });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('task_relations', { ifExists: true });
+};
@@ -0,0 +1,58 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Organisation-wide starting points for recurring deficiencies. checklist_items is
+  // an ordered array of { text, isRequired } copied onto tasks created from the template.
+  pgm.createTable('task_templates', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    organization_id: { type: 'uuid', notNull: true, references: 'organizations', onDelete: 'CASCADE' },
+    name: { type: 'varchar(255)', notNull: true },
+    title: { type: 'varchar(255)', notNull: true },
+    description: { type: 'text' },
+    trade: { type: 'varchar(50)' },
+    priority: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'normal',
+      check: "priority IN ('low', 'normal', 'high', 'critical')",
+    },
+    custom_fields: { type: 'jsonb', notNull: true, default: '{}' },
+    checklist_items: { type: 'jsonb', notNull: true, default: '[]' },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    updated_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.createIndex('task_templates', ['organization_id', 'trade'], { name: 'idx_task_templates_org_trade' });
+  pgm.sql(
+    'CREATE TRIGGER update_task_templates_updated_at BEFORE UPDATE ON task_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+  );
+
+  // Products linked to tasks created from the template
+  pgm.createTable('task_template_products', {
+    template_id: { type: 'uuid', notNull: true, references: 'task_templates', onDelete: 'CASCADE', primaryKey: true },
+    product_id: { type: 'uuid', notNull: true, references: 'products', onDelete: 'CASCADE', primaryKey: true },
+  });
+
+  // A task's checklist; template_id records which template an item came from
+  pgm.createTable('task_checklist_items', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    task_id: { type: 'uuid', notNull: true, references: 'tasks', onDelete: 'CASCADE' },
+    template_id: { type: 'uuid', references: 'task_templates', onDelete: 'SET NULL' },
+    text: { type: 'varchar(500)', notNull: true },
+    is_required: { type: 'boolean', notNull: true, default: false },
+    position: { type: 'integer', notNull: true, default: 0 },
+    checked_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    checked_at: { type: 'timestamptz' },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.createIndex('task_checklist_items', ['task_id', 'position'], { name: 'idx_task_checklist_items_task' });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('task_checklist_items', { ifExists: true });
+  pgm.dropTable('task_template_products', { ifExists: true });
+  pgm.dropTable('task_templates', { ifExists: true });
+};
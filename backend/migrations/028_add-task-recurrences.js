@@ -0,0 +1,37 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Tasks recreated from a template on an RRULE-style schedule. next_occurrence_on is
+  // the next date the scheduler materialises a task for; NULL once the rule has ended.
+  pgm.createTable('task_recurrences', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    template_id: { type: 'uuid', notNull: true, references: 'task_templates', onDelete: 'CASCADE' },
+    rule: { type: 'varchar(500)', notNull: true },
+    starts_on: { type: 'date', notNull: true },
+    next_occurrence_on: { type: 'date' },
+    assigned_to_user: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    skip_if_open: { type: 'boolean', notNull: true, default: true },
+    is_active: { type: 'boolean', notNull: true, default: true },
+    occurrence_count: { type: 'integer', notNull: true, default: 0 },
+    last_task_id: { type: 'uuid', references: 'tasks', onDelete: 'SET NULL' },
+    last_skipped_on: { type: 'date' },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    updated_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.createIndex('task_recurrences', 'project_id', { name: 'idx_task_recurrences_project' });
+  pgm.createIndex('task_recurrences', 'next_occurrence_on', {
+    name: 'idx_task_recurrences_due',
+    where: 'is_active AND next_occurrence_on IS NOT NULL',
+  });
+  pgm.sql(
+    'CREATE TRIGGER update_task_recurrences_updated_at BEFORE UPDATE ON task_recurrences FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+  );
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('task_recurrences', { ifExists: true });
+};
@@ -0,0 +1,23 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Where a task moved to another project came from, so links to its old
+  // project and number still find it
+  pgm.createTable('task_moves', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    task_id: { type: 'uuid', notNull: true, references: 'tasks', onDelete: 'CASCADE' },
+    from_project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    from_task_number: { type: 'integer', notNull: true },
+    to_project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    to_task_number: { type: 'integer', notNull: true },
+    moved_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    moved_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.createIndex('task_moves', ['from_project_id', 'task_id'], { name: 'idx_task_moves_from_project' });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('task_moves', { ifExists: true });
+};
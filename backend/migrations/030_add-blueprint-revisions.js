@@ -0,0 +1,66 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Every file issued for a blueprint. The blueprint row keeps mirroring the file of
+  // its current revision so everything that reads blueprints.file_url keeps working.
+  // page_sizes is an array of { width, height } in PDF points, read on confirm.
+  pgm.createTable('blueprint_revisions', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    blueprint_id: { type: 'uuid', notNull: true, references: 'blueprints', onDelete: 'CASCADE' },
+    revision_number: { type: 'integer', notNull: true },
+    label: { type: 'varchar(20)', notNull: true },
+    file_url: { type: 'varchar(500)', notNull: true },
+    file_size_bytes: { type: 'bigint', notNull: true },
+    mime_type: { type: 'varchar(50)', notNull: true },
+    thumbnail_url: { type: 'varchar(500)' },
+    page_count: { type: 'integer' },
+    page_sizes: { type: 'jsonb' },
+    uploaded_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    uploaded_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    confirmed_at: { type: 'timestamptz' },
+  });
+  pgm.addConstraint('blueprint_revisions', 'blueprint_revisions_number_unique', {
+    unique: ['blueprint_id', 'revision_number'],
+  });
+
+  pgm.addColumns('blueprints', {
+    current_revision_id: { type: 'uuid', references: 'blueprint_revisions', onDelete: 'SET NULL' },
+  });
+
+  // annotation_revision_id is only set while a task's annotation is still drawn on an
+  // older revision and waits for review; otherwise the annotation is on the current one.
+  pgm.addColumns('tasks', {
+    annotation_revision_id: { type: 'uuid', references: 'blueprint_revisions', onDelete: 'SET NULL' },
+    annotation_recorded_revision_id: { type: 'uuid', references: 'blueprint_revisions', onDelete: 'SET NULL' },
+  });
+  pgm.createIndex('tasks', 'annotation_revision_id', {
+    name: 'idx_tasks_annotation_revision',
+    where: 'annotation_revision_id IS NOT NULL',
+  });
+
+  // Existing blueprints become revision A of themselves
+  pgm.sql(`
+    INSERT INTO blueprint_revisions
+      (blueprint_id, revision_number, label, file_url, file_size_bytes, mime_type, thumbnail_url, uploaded_by, uploaded_at, confirmed_at)
+    SELECT id, 1, 'A', file_url, file_size_bytes, mime_type, thumbnail_url, uploaded_by, uploaded_at, uploaded_at
+    FROM blueprints
+  `);
+  pgm.sql(`
+    UPDATE blueprints b SET current_revision_id = r.id
+    FROM blueprint_revisions r
+    WHERE r.blueprint_id = b.id
+  `);
+  pgm.sql(`
+    UPDATE tasks t SET annotation_recorded_revision_id = b.current_revision_id
+    FROM blueprints b
+    WHERE b.id = t.blueprint_id AND (t.annotation_x IS NOT NULL OR t.annotation_markers IS NOT NULL)
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('tasks', ['annotation_revision_id', 'annotation_recorded_revision_id']);
+  pgm.dropColumns('blueprints', ['current_revision_id']);
+  pgm.dropTable('blueprint_revisions', { ifExists: true });
+};
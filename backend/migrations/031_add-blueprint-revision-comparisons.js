@@ -0,0 +1,28 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // Diff images generated between two revisions of an image blueprint, kept so
+  // they can be shared and embedded without being generated again
+  pgm.createTable('blueprint_revision_comparisons', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    blueprint_id: { type: 'uuid', notNull: true, references: 'blueprints', onDelete: 'CASCADE' },
+    from_revision_id: { type: 'uuid', notNull: true, references: 'blueprint_revisions', onDelete: 'CASCADE' },
+    to_revision_id: { type: 'uuid', notNull: true, references: 'blueprint_revisions', onDelete: 'CASCADE' },
+    file_url: { type: 'varchar(500)', notNull: true },
+    width: { type: 'integer', notNull: true },
+    height: { type: 'integer', notNull: true },
+    // Share of the drawn pixels that differ between the two revisions, 0-1
+    changed_ratio: { type: 'real', notNull: true },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.addConstraint('blueprint_revision_comparisons', 'blueprint_revision_comparisons_pair_unique', {
+    unique: ['from_revision_id', 'to_revision_id'],
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('blueprint_revision_comparisons', { ifExists: true });
+};
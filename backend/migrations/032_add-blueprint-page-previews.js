@@ -0,0 +1,46 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // PDF revisions are rasterised on the server after upload. preview_status is
+  // pending while that runs, then ready or failed; null for images, which need none.
+  // width_pixels/height_pixels are the first page's size in its large preview,
+  // or the image size for image revisions.
+  pgm.addColumns('blueprint_revisions', {
+    preview_status: { type: 'varchar(20)' },
+    width_pixels: { type: 'integer' },
+    height_pixels: { type: 'integer' },
+  });
+  pgm.addColumns('blueprints', {
+    page_count: { type: 'integer' },
+  });
+
+  // One JPEG per page and size, so a sheet can be shown before the PDF has loaded
+  pgm.createTable('blueprint_page_previews', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    revision_id: { type: 'uuid', notNull: true, references: 'blueprint_revisions', onDelete: 'CASCADE' },
+    page: { type: 'integer', notNull: true },
+    size: { type: 'varchar(10)', notNull: true },
+    file_url: { type: 'varchar(500)', notNull: true },
+    width: { type: 'integer', notNull: true },
+    height: { type: 'integer', notNull: true },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+  pgm.addConstraint('blueprint_page_previews', 'blueprint_page_previews_page_unique', {
+    unique: ['revision_id', 'page', 'size'],
+  });
+
+  // Mirror what is already known about current revisions
+  pgm.sql(`
+    UPDATE blueprints b SET page_count = r.page_count
+    FROM blueprint_revisions r
+    WHERE r.id = b.current_revision_id
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('blueprint_page_previews', { ifExists: true });
+  pgm.dropColumns('blueprints', ['page_count']);
+  pgm.dropColumns('blueprint_revisions', ['preview_status', 'width_pixels', 'height_pixels']);
+};
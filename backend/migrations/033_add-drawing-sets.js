@@ -0,0 +1,39 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // A multi-page PDF uploaded to be split into one blueprint per sheet. It is
+  // uploaded, then analysed into proposed sheets for review, then split; the
+  // uploaded file is removed once its sheets exist.
+  pgm.createTable('drawing_sets', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    project_id: { type: 'uuid', notNull: true, references: 'projects', onDelete: 'CASCADE' },
+    name: { type: 'varchar(255)', notNull: true },
+    status: { type: 'varchar(20)', notNull: true, default: 'uploading' },
+    file_url: { type: 'varchar(500)' },
+    file_size_bytes: { type: 'bigint' },
+    page_count: { type: 'integer' },
+    // [{ page, sheetNumber, title, discipline }] read from the title blocks
+    proposed_sheets: { type: 'jsonb' },
+    created_by: { type: 'uuid', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+    split_at: { type: 'timestamptz' },
+  });
+  pgm.createIndex('drawing_sets', 'project_id');
+
+  pgm.addColumns('blueprints', {
+    drawing_set_id: { type: 'uuid', references: 'drawing_sets', onDelete: 'SET NULL' },
+    sheet_number: { type: 'varchar(50)' },
+    // Folder within the drawing set: architectural, electrical, hvac, ...
+    discipline: { type: 'varchar(30)' },
+    // Page of the sheet in the original drawing set
+    set_page: { type: 'integer' },
+  });
+  pgm.createIndex('blueprints', 'drawing_set_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('blueprints', ['drawing_set_id', 'sheet_number', 'discipline', 'set_page']);
+  pgm.dropTable('drawing_sets', { ifExists: true });
+};
@@ -0,0 +1,19 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  pgm.addColumns('blueprints', {
+    // Drawing scale of each calibrated page, as metres per page unit
+    scale_calibrations: { type: 'jsonb' },
+  });
+  pgm.addColumns('tasks', {
+    // Distances, polylines and areas measured on the task's blueprint, with their geometry
+    measurements: { type: 'jsonb' },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('tasks', ['measurements']);
+  pgm.dropColumns('blueprints', ['scale_calibrations']);
+};
@@ -0,0 +1,29 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+  // One row per accepted inbound email webhook, so a captured request cannot be
+  // replayed within the signature's clock skew window and a message the relay
+  // delivers twice is only posted once
+  pgm.createTable('inbound_email_deliveries', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    signature: { type: 'varchar(64)', notNull: true },
+    message_id: { type: 'varchar(998)' },
+    received_at: { type: 'timestamptz', default: pgm.func('NOW()') },
+  });
+
+  pgm.createIndex('inbound_email_deliveries', ['signature'], {
+    name: 'idx_inbound_email_deliveries_signature',
+    unique: true,
+  });
+  pgm.createIndex('inbound_email_deliveries', ['message_id'], {
+    name: 'idx_inbound_email_deliveries_message_id',
+    unique: true,
+    where: 'message_id IS NOT NULL',
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('inbound_email_deliveries', { ifExists: true });
+};
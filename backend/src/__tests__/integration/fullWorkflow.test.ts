@@ -18,9 +18,13 @@ jest.mock('../../config/database', () => {
 jest.mock('../../models/user.model');
 jest.mock('../../models/organization.model');
 jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
 jest.mock('../../models/task.model');
 jest.mock('../../models/comment.model');
 jest.mock('../../models/passwordResetToken.model');
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/taskRelation.model');
+jest.mock('../../models/slaRule.model');
 jest.mock('../../services/audit.service');
 jest.mock('../../services/stats.service');
 
@@ -29,8 +33,12 @@ import pool from '../../config/database';
 import * as userModel from '../../models/user.model';
 import * as orgModel from '../../models/organization.model';
 import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
 import * as taskModel from '../../models/task.model';
 import * as commentModel from '../../models/comment.model';
+import * as workflowModel from '../../models/workflow.model';
+import * as taskRelationModel from '../../models/taskRelation.model';
+import * as slaRuleModel from '../../models/slaRule.model';
 import * as statsService from '../../services/stats.service';
 import { hashPassword } from '../../utils/password';
 
@@ -56,6 +64,10 @@ describe('Full Workflow Integration', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (taskRelationModel.findTasksUnblockedBy as jest.Mock).mockResolvedValue([]);
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+    (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue([]);
     // Re-mock findUserById for authenticate middleware (called on every request)
     (userModel.findUserById as jest.Mock).mockResolvedValue({
       id: userId,
@@ -324,7 +336,6 @@ describe('Full Workflow Integration', () => {
       status: 'open',
       created_by: userId,
     });
-    (taskModel.isValidStatusTransition as jest.Mock).mockReturnValue(true);
     (taskModel.updateTask as jest.Mock).mockResolvedValue({
       id: taskId,
       project_id: projectId,
@@ -348,7 +359,6 @@ describe('Full Workflow Integration', () => {
       status: 'in_progress',
       created_by: userId,
     });
-    (taskModel.isValidStatusTransition as jest.Mock).mockReturnValue(true);
     (taskModel.updateTask as jest.Mock).mockResolvedValue({
       id: taskId,
       project_id: projectId,
@@ -373,7 +383,6 @@ describe('Full Workflow Integration', () => {
       status: 'completed',
       created_by: userId,
     });
-    (taskModel.isValidStatusTransition as jest.Mock).mockReturnValue(true);
     (taskModel.updateTask as jest.Mock).mockResolvedValue({
       id: taskId,
       project_id: projectId,
@@ -399,7 +408,6 @@ describe('Full Workflow Integration', () => {
       status: 'open',
       created_by: userId,
     });
-    (taskModel.isValidStatusTransition as jest.Mock).mockReturnValue(false);
 
     const res = await agent
       .patch(`/api/v1/projects/${projectId}/tasks/${taskId2}`)
@@ -517,7 +525,7 @@ describe('Full Workflow Integration', () => {
     expect(taskModel.findTasksByProject).toHaveBeenCalledWith(
       projectId,
       expect.any(String),
-      expect.objectContaining({ status: 'open' }),
+      expect.objectContaining({ status: ['open'] }),
       expect.any(Object),
     );
   });
@@ -545,7 +553,7 @@ describe('Full Workflow Integration', () => {
     expect(taskModel.findTasksByProject).toHaveBeenCalledWith(
       projectId,
       expect.any(String),
-      expect.objectContaining({ trade: 'Electrical' }),
+      expect.objectContaining({ trade: ['Electrical'] }),
       expect.any(Object),
     );
   });
@@ -570,7 +578,7 @@ describe('Full Workflow Integration', () => {
     expect(taskModel.findTasksByProject).toHaveBeenCalledWith(
       projectId,
       expect.any(String),
-      expect.objectContaining({ status: 'open', trade: 'Electrical' }),
+      expect.objectContaining({ status: ['open'], trade: ['Electrical'] }),
       expect.any(Object),
     );
   });
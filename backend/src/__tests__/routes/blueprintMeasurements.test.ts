@@ -0,0 +1,222 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/blueprint.model');
+jest.mock('../../models/blueprintRevision.model');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as blueprintModel from '../../models/blueprint.model';
+import * as blueprintRevisionModel from '../../models/blueprintRevision.model';
+import { publishEvent } from '../../services/realtime.service';
+import {
+  calibrateFromLine,
+  calibrateFromScale,
+  measure,
+  formatMeasurement,
+  resolveMeasurements,
+} from '../../services/measurement.service';
+
+const BLUEPRINT_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+
+// An A1 sheet in PDF points, landscape
+const A1 = { width: 2383.94, height: 1683.78 };
+const PAGE = { width: 1000, height: 500 };
+
+function calibration(overrides: Record<string, unknown> = {}) {
+  return {
+    page: 1, method: 'line' as const, pageWidth: PAGE.width, pageHeight: PAGE.height, metresPerUnit: 0.01,
+    ...overrides,
+  };
+}
+
+describe('Blueprint measurements', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue({
+      id: BLUEPRINT_ID, project_id: 'p-1', name: 'Ground Floor', current_revision_id: 'rev-a',
+      scale_calibrations: null,
+    });
+    (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue({
+      id: 'rev-a', blueprint_id: BLUEPRINT_ID, confirmed_at: new Date(), page_sizes: [PAGE, A1],
+    });
+  });
+
+  describe('helpers', () => {
+    it('calibrates from a line over a known dimension', () => {
+      // 500 page units across half the page's width
+      const result = calibrateFromLine(1, PAGE, { x1: 0.25, y1: 0.5, x2: 0.75, y2: 0.5 }, 5);
+
+      expect(result).toMatchObject({ page: 1, method: 'line', pageWidth: 1000, pageHeight: 500 });
+      expect(result!.metresPerUnit).toBeCloseTo(0.01);
+      expect(result!.line!.length).toBe(5);
+    });
+
+    it('rejects a calibration line too short to measure with', () => {
+      expect(calibrateFromLine(1, PAGE, { x1: 0.5, y1: 0.5, x2: 0.502, y2: 0.5 }, 1)).toBeNull();
+    });
+
+    it('calibrates from a drawing scale and paper size', () => {
+      const result = calibrateFromScale(2, A1, 100, 'A1');
+
+      // The 841 mm long side of A1 at 1:100 is 84.1 m
+      expect(result.metresPerUnit * A1.width).toBeCloseTo(84.1);
+      expect(result).toMatchObject({ method: 'scale', ratio: 100, paperSize: 'A1' });
+    });
+
+    it('measures distances, polylines and areas', () => {
+      const c = calibration();
+
+      expect(measure(c, 'distance', [{ x: 0, y: 0 }, { x: 0.3, y: 0.8 }])).toBeCloseTo(5);
+      expect(measure(c, 'polyline', [{ x: 0, y: 0 }, { x: 0.1, y: 0 }, { x: 0.1, y: 0.2 }])).toBeCloseTo(2);
+      // 200 x 100 page units
+      expect(measure(c, 'area', [{ x: 0, y: 0 }, { x: 0.2, y: 0 }, { x: 0.2, y: 0.2 }, { x: 0, y: 0.2 }]))
+        .toBeCloseTo(2);
+    });
+
+    it('formats lengths and areas', () => {
+      expect(formatMeasurement({ type: 'distance', value: 2.4 })).toBe('2.40 m');
+      expect(formatMeasurement({ type: 'area', value: 6 })).toBe('6.00 m²');
+    });
+
+    it('keeps recorded values while the geometry is unchanged', () => {
+      const points = [{ x: 0, y: 0 }, { x: 0.5, y: 0 }];
+      const existing = [{ id: 'm-1', type: 'distance' as const, page: 1, points, value: 7 }];
+
+      expect(resolveMeasurements([calibration()], [{ id: 'm-1', type: 'distance', page: 1, points }], existing))
+        .toEqual({ measurements: [{ id: 'm-1', type: 'distance', page: 1, points, value: 7 }] });
+
+      const moved = [{ x: 0, y: 0 }, { x: 0.4, y: 0 }];
+      const result = resolveMeasurements(
+        [calibration()], [{ id: 'm-1', type: 'distance', page: 1, points: moved }], existing,
+      );
+      expect('measurements' in result && result.measurements[0].value).toBeCloseTo(4);
+    });
+
+    it('reports measurements on pages that are not calibrated', () => {
+      const result = resolveMeasurements(
+        [calibration()],
+        [{ id: 'm-1', type: 'distance', page: 2, points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }] }],
+        null,
+      );
+
+      expect(result).toEqual({ errors: { 'measurements.0.page': 'Page 2 of the blueprint has not been calibrated' } });
+    });
+  });
+
+  describe('PUT /api/v1/projects/:projectId/blueprints/:blueprintId/calibrations/:page', () => {
+    it('calibrates a page from a line of known length', async () => {
+      const res = await request(app)
+        .put(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/1`)
+        .send({ method: 'line', line: { x1: 0.25, y1: 0.5, x2: 0.75, y2: 0.5 }, length: 5 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.calibration.metresPerUnit).toBeCloseTo(0.01);
+      expect(blueprintModel.setScaleCalibrations).toHaveBeenCalledWith(BLUEPRINT_ID, [
+        expect.objectContaining({ page: 1, method: 'line' }),
+      ]);
+      expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'blueprint.calibration_changed', data: { blueprintId: BLUEPRINT_ID },
+      }));
+    });
+
+    it('replaces the calibration of the page and keeps the others', async () => {
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue({
+        id: BLUEPRINT_ID, project_id: 'p-1', current_revision_id: 'rev-a',
+        scale_calibrations: [calibration({ page: 1 }), calibration({ page: 2, metresPerUnit: 1 })],
+      });
+
+      const res = await request(app)
+        .put(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/2`)
+        .send({ method: 'scale', ratio: 50, paperSize: 'A1' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.calibrations.map((c: { page: number; method: string }) => [c.page, c.method]))
+        .toEqual([[1, 'line'], [2, 'scale']]);
+    });
+
+    it('rejects a line too short to calibrate with', async () => {
+      const res = await request(app)
+        .put(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/1`)
+        .send({ method: 'line', line: { x1: 0.5, y1: 0.5, x2: 0.5, y2: 0.5 }, length: 5 });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.line).toBe('The line is too short to calibrate with');
+      expect(blueprintModel.setScaleCalibrations).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown paper size', async () => {
+      const res = await request(app)
+        .put(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/1`)
+        .send({ method: 'scale', ratio: 100, paperSize: 'B7' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('returns 404 for a page the blueprint does not have', async () => {
+      const res = await request(app)
+        .put(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/3`)
+        .send({ method: 'scale', ratio: 100, paperSize: 'A1' });
+
+      expect(res.status).toBe(404);
+    });
+
+    it('requires the manager role in the project', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app)
+        .put(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/1`)
+        .send({ method: 'scale', ratio: 100, paperSize: 'A1' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('DELETE /api/v1/projects/:projectId/blueprints/:blueprintId/calibrations/:page', () => {
+    it('removes the calibration of the page', async () => {
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue({
+        id: BLUEPRINT_ID, project_id: 'p-1', current_revision_id: 'rev-a',
+        scale_calibrations: [calibration({ page: 1 }), calibration({ page: 2 })],
+      });
+
+      const res = await request(app).delete(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/1`);
+
+      expect(res.status).toBe(200);
+      expect(blueprintModel.setScaleCalibrations).toHaveBeenCalledWith(BLUEPRINT_ID, [
+        expect.objectContaining({ page: 2 }),
+      ]);
+    });
+
+    it('returns 404 for a page that is not calibrated', async () => {
+      const res = await request(app).delete(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/calibrations/1`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import request from 'supertest';
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/blueprint.model');
+jest.mock('../../models/blueprintRevision.model');
+jest.mock('../../models/blueprintPreview.model');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/storageTracking.service');
+jest.mock('../../services/thumbnail.service');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+
+import { spawn } from 'child_process';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as blueprintModel from '../../models/blueprint.model';
+import * as blueprintRevisionModel from '../../models/blueprintRevision.model';
+import * as blueprintPreviewModel from '../../models/blueprintPreview.model';
+import * as storageService from '../../services/storage.service';
+import * as thumbnailService from '../../services/thumbnail.service';
+import { publishEvent } from '../../services/realtime.service';
+import { rasterisePdf, renderPreviews, resumePendingPreviews } from '../../services/blueprintPreview.service';
+
+const BLUEPRINT_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const REVISION_ID = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc';
+
+function blueprint(overrides: Record<string, unknown> = {}) {
+  return {
+    id: BLUEPRINT_ID, project_id: 'p-1', name: 'Ground Floor', current_revision_id: 'rev-a',
+    file_url: 'blueprints/org-1/p-1/rev-a/plan.pdf', mime_type: 'application/pdf',
+    ...overrides,
+  };
+}
+
+function revision(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id, blueprint_id: BLUEPRINT_ID, revision_number: 1, label: 'A',
+    file_url: `blueprints/org-1/p-1/${id}/plan.pdf`, file_size_bytes: 1000,
+    mime_type: 'application/pdf', thumbnail_url: null, page_count: 2, page_sizes: null,
+    preview_status: 'ready', confirmed_at: new Date(),
+    ...overrides,
+  };
+}
+
+function page(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#ffffff' } }).jpeg().toBuffer();
+}
+
+/** Make pdftoppm write the given pages next to its output prefix, zero-padded as it does from 10 pages on. */
+function fakePdftoppm(pages: Buffer[], exitCode = 0) {
+  (spawn as jest.Mock).mockImplementation((_command: string, args: string[]) => {
+    const proc = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), stderr: new EventEmitter() });
+    const prefix = args[args.length - 1];
+    Promise.all(pages.map((data, i) => fs.writeFile(`${prefix}-${String(i + 1).padStart(2, '0')}.jpg`, data)))
+      .then(() => {
+        if (exitCode !== 0) proc.stderr.emit('data', Buffer.from('Syntax Error: Couldn\'t find trailer dictionary'));
+        proc.emit('close', exitCode);
+      });
+    return proc;
+  });
+}
+
+/** Wait for the background render to report back. */
+async function renderFinished(): Promise<Record<string, unknown> | undefined> {
+  const event = () => (publishEvent as jest.Mock).mock.calls
+    .map(([e]) => e)
+    .find((e) => e.type === 'blueprint.previews_changed');
+  for (let i = 0; i < 100 && !event(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return event();
+}
+
+describe('Blueprint page previews', () => {
+  let landscape: Buffer;
+  let portrait: Buffer;
+
+  beforeAll(async () => {
+    landscape = await page(1600, 1131);
+    portrait = await page(1131, 1600);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue(blueprint());
+    (storageService.readFile as jest.Mock).mockResolvedValue(Buffer.from('%PDF-1.7'));
+    (storageService.generatePresignedDownloadUrl as jest.Mock).mockImplementation(
+      async (key: string) => `https://s3.example.com/${key}`,
+    );
+    (blueprintPreviewModel.upsertPreview as jest.Mock).mockImplementation(async (data) => ({
+      id: `pp-${data.page}-${data.size}`, revision_id: data.revisionId, page: data.page, size: data.size,
+      file_url: data.fileUrl, width: data.width, height: data.height,
+    }));
+    (blueprintPreviewModel.deletePreviewsAfterPage as jest.Mock).mockResolvedValue([]);
+    (thumbnailService.generateThumbnail as jest.Mock).mockResolvedValue(
+      'blueprints/org-1/p-1/rev-a/thumb_preview_large_p1.jpg',
+    );
+    (blueprintRevisionModel.setPreviewsReady as jest.Mock).mockImplementation(
+      async (id: string, data) => revision(id, { thumbnail_url: data.thumbnailUrl }),
+    );
+  });
+
+  describe('rendering', () => {
+    it('stores a large and a small preview of every page in page order', async () => {
+      fakePdftoppm([landscape, portrait]);
+
+      await renderPreviews(revision('rev-a') as blueprintRevisionModel.BlueprintRevisionRow);
+
+      expect(spawn).toHaveBeenCalledWith(
+        'pdftoppm',
+        expect.arrayContaining(['-jpeg', '-scale-to', '1600']),
+        expect.anything(),
+      );
+      expect((storageService.writeFile as jest.Mock).mock.calls.map(([key]) => key)).toEqual([
+        'blueprints/org-1/p-1/rev-a/preview_large_p1.jpg',
+        'blueprints/org-1/p-1/rev-a/preview_small_p1.jpg',
+        'blueprints/org-1/p-1/rev-a/preview_large_p2.jpg',
+        'blueprints/org-1/p-1/rev-a/preview_small_p2.jpg',
+      ]);
+      expect(blueprintPreviewModel.upsertPreview).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 1, size: 'small', width: 480, height: 339 }),
+      );
+      expect(blueprintPreviewModel.upsertPreview).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 2, size: 'large', width: 1131, height: 1600 }),
+      );
+    });
+
+    it('makes the first page the thumbnail and pixel size of the revision', async () => {
+      fakePdftoppm([landscape, portrait]);
+
+      await renderPreviews(revision('rev-a') as blueprintRevisionModel.BlueprintRevisionRow);
+
+      expect(thumbnailService.generateThumbnail).toHaveBeenCalledWith(
+        'blueprints/org-1/p-1/rev-a/preview_large_p1.jpg', 'blueprint',
+      );
+      expect(blueprintRevisionModel.setPreviewsReady).toHaveBeenCalledWith('rev-a', {
+        thumbnailUrl: 'blueprints/org-1/p-1/rev-a/thumb_preview_large_p1.jpg',
+        widthPixels: 1600,
+        heightPixels: 1131,
+      });
+      expect(blueprintModel.syncCurrentRevision).toHaveBeenCalledWith(expect.objectContaining({ id: 'rev-a' }));
+    });
+
+    it('removes previews of pages the PDF no longer has', async () => {
+      fakePdftoppm([landscape]);
+      (blueprintPreviewModel.deletePreviewsAfterPage as jest.Mock).mockResolvedValue([
+        { id: 'pp-2', file_url: 'blueprints/org-1/p-1/rev-a/preview_large_p2.jpg' },
+      ]);
+
+      await renderPreviews(revision('rev-a') as blueprintRevisionModel.BlueprintRevisionRow);
+
+      expect(blueprintPreviewModel.deletePreviewsAfterPage).toHaveBeenCalledWith('rev-a', 1);
+      expect(storageService.deleteObject).toHaveBeenCalledWith('blueprints/org-1/p-1/rev-a/preview_large_p2.jpg');
+    });
+
+    it('fails when pdftoppm cannot read the PDF', async () => {
+      fakePdftoppm([], 1);
+
+      await expect(rasterisePdf(Buffer.from('not a pdf'))).rejects.toThrow('pdftoppm failed (code 1)');
+    });
+  });
+
+  describe('resuming after a restart', () => {
+    it('renders the previews of revisions left pending', async () => {
+      fakePdftoppm([landscape]);
+      (blueprintRevisionModel.findRevisionsWithPendingPreviews as jest.Mock).mockResolvedValue([
+        { ...revision('rev-a', { preview_status: 'pending' }), organization_id: 'org-1', project_id: 'p-1' },
+      ]);
+
+      await resumePendingPreviews();
+
+      expect(await renderFinished()).toEqual(expect.objectContaining({
+        organizationId: 'org-1',
+        projectId: 'p-1',
+        data: expect.objectContaining({ revisionId: 'rev-a', status: 'ready' }),
+      }));
+      expect(blueprintRevisionModel.setPreviewsReady).toHaveBeenCalledWith('rev-a', expect.anything());
+    });
+  });
+
+  describe('GET /api/v1/projects/:projectId/blueprints/:blueprintId/previews', () => {
+    it('lists both sizes of every page of the current revision', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(revision('rev-a'));
+      (blueprintPreviewModel.findPreviewsByRevision as jest.Mock).mockResolvedValue([
+        { page: 1, size: 'large', file_url: 'rev-a/preview_large_p1.jpg', width: 1600, height: 1131 },
+        { page: 1, size: 'small', file_url: 'rev-a/preview_small_p1.jpg', width: 480, height: 339 },
+        { page: 2, size: 'large', file_url: 'rev-a/preview_large_p2.jpg', width: 1131, height: 1600 },
+        { page: 2, size: 'small', file_url: 'rev-a/preview_small_p2.jpg', width: 339, height: 480 },
+      ]);
+
+      const res = await request(app).get(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/previews`);
+
+      expect(res.status).toBe(200);
+      expect(blueprintRevisionModel.findRevisionById).toHaveBeenCalledWith('rev-a', BLUEPRINT_ID);
+      expect(res.body.data).toEqual({
+        revisionId: 'rev-a',
+        status: 'ready',
+        pageCount: 2,
+        pages: [
+          {
+            page: 1,
+            large: { url: 'https://s3.example.com/rev-a/preview_large_p1.jpg', width: 1600, height: 1131 },
+            small: { url: 'https://s3.example.com/rev-a/preview_small_p1.jpg', width: 480, height: 339 },
+          },
+          {
+            page: 2,
+            large: { url: 'https://s3.example.com/rev-a/preview_large_p2.jpg', width: 1131, height: 1600 },
+            small: { url: 'https://s3.example.com/rev-a/preview_small_p2.jpg', width: 339, height: 480 },
+          },
+        ],
+      });
+    });
+
+    it('returns 404 for a revision that was never uploaded', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(
+        revision(REVISION_ID, { confirmed_at: null }),
+      );
+
+      const res = await request(app)
+        .get(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/previews?revisionId=${REVISION_ID}`);
+
+      expect(res.status).toBe(404);
+    });
+
+    it('rejects a malformed revision id', async () => {
+      const res = await request(app)
+        .get(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/previews?revisionId=nope`);
+
+      expect(res.status).toBe(400);
+      expect(blueprintRevisionModel.findRevisionById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/blueprints/:blueprintId/previews', () => {
+    it('renders the previews again in the background', async () => {
+      fakePdftoppm([landscape]);
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(
+        revision('rev-a', { preview_status: null }),
+      );
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/previews`);
+
+      expect(res.status).toBe(202);
+      expect(res.body.data).toEqual({ revisionId: 'rev-a', status: 'pending' });
+      expect(blueprintRevisionModel.setPreviewStatus).toHaveBeenCalledWith('rev-a', 'pending');
+      expect(await renderFinished()).toEqual(expect.objectContaining({
+        projectId: 'p-1',
+        data: { blueprintId: BLUEPRINT_ID, revisionId: 'rev-a', status: 'ready' },
+      }));
+      expect(blueprintRevisionModel.setPreviewsReady).toHaveBeenCalled();
+    });
+
+    it('rejects image blueprints', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(
+        revision('rev-a', { file_url: 'blueprints/org-1/p-1/rev-a/plan.png', mime_type: 'image/png' }),
+      );
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/previews`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('UNSUPPORTED_PREVIEW');
+      expect(spawn).not.toHaveBeenCalled();
+    });
+
+    it('requires the project manager role', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/previews`);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/blueprints/:blueprintId/confirm', () => {
+    beforeEach(() => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(
+        revision('rev-a', { page_count: null, preview_status: null, confirmed_at: null }),
+      );
+      (storageService.checkFileExists as jest.Mock).mockResolvedValue(1000);
+      (blueprintRevisionModel.confirmRevision as jest.Mock).mockImplementation(
+        async (id: string, data) => revision(id, { preview_status: data.previewStatus ?? null }),
+      );
+      (blueprintModel.updateBlueprintAfterConfirm as jest.Mock).mockResolvedValue(blueprint());
+    });
+
+    it('marks an uploaded PDF as pending and renders its previews', async () => {
+      fakePdftoppm([landscape]);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/confirm`);
+
+      expect(res.status).toBe(200);
+      expect(blueprintRevisionModel.confirmRevision).toHaveBeenCalledWith(
+        'rev-a', expect.objectContaining({ previewStatus: 'pending' }),
+      );
+      expect(res.body.data.revision.preview_status).toBe('pending');
+      expect(await renderFinished()).toEqual(expect.objectContaining({
+        data: expect.objectContaining({ status: 'ready' }),
+      }));
+    });
+
+    it('marks the previews failed when the PDF cannot be rendered', async () => {
+      fakePdftoppm([], 1);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/confirm`);
+
+      expect(res.status).toBe(200);
+      expect(await renderFinished()).toEqual(expect.objectContaining({
+        data: expect.objectContaining({ status: 'failed' }),
+      }));
+      expect(blueprintRevisionModel.setPreviewStatus).toHaveBeenCalledWith('rev-a', 'failed');
+      expect(blueprintRevisionModel.setPreviewsReady).not.toHaveBeenCalled();
+    });
+
+    it('records the pixel size of an image blueprint without rendering previews', async () => {
+      const png = await sharp({ create: { width: 800, height: 600, channels: 3, background: '#ffffff' } })
+        .png().toBuffer();
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(revision('rev-a', {
+        file_url: 'blueprints/org-1/p-1/rev-a/plan.png', mime_type: 'image/png', confirmed_at: null,
+      }));
+      (storageService.readFile as jest.Mock).mockResolvedValue(png);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/confirm`);
+
+      expect(res.status).toBe(200);
+      expect(blueprintRevisionModel.confirmRevision).toHaveBeenCalledWith(
+        'rev-a', expect.objectContaining({ widthPixels: 800, heightPixels: 600 }),
+      );
+      expect(blueprintRevisionModel.confirmRevision).not.toHaveBeenCalledWith(
+        'rev-a', expect.objectContaining({ previewStatus: 'pending' }),
+      );
+      expect(spawn).not.toHaveBeenCalled();
+    });
+  });
+});
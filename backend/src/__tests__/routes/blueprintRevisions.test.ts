@@ -0,0 +1,461 @@
+import request from 'supertest';
+import { PDFDocument } from 'pdf-lib';
+import sharp from 'sharp';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/blueprint.model');
+jest.mock('../../models/blueprintRevision.model');
+jest.mock('../../models/blueprintComparison.model');
+jest.mock('../../models/blueprintPreview.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/taskHistory.model');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/storageTracking.service');
+jest.mock('../../services/thumbnail.service');
+jest.mock('../../services/blueprintPreview.service');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as blueprintModel from '../../models/blueprint.model';
+import * as blueprintRevisionModel from '../../models/blueprintRevision.model';
+import * as blueprintComparisonModel from '../../models/blueprintComparison.model';
+import * as taskModel from '../../models/task.model';
+import * as taskHistoryModel from '../../models/taskHistory.model';
+import * as storageService from '../../services/storage.service';
+import * as storageTracking from '../../services/storageTracking.service';
+import { publishEvent } from '../../services/realtime.service';
+import {
+  revisionLabel,
+  readPageSizes,
+  pagesMatch,
+  annotationRevisionUpdates,
+} from '../../services/blueprintRevision.service';
+import { diffRaster, renderComparison } from '../../services/blueprintCompare.service';
+
+const BLUEPRINT_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const TASK_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+
+const A4 = { width: 595.28, height: 841.89 };
+const A3 = { width: 841.89, height: 1190.55 };
+
+function blueprint(overrides: Record<string, unknown> = {}) {
+  return {
+    id: BLUEPRINT_ID, project_id: 'p-1', name: 'Ground Floor', current_revision_id: 'rev-a',
+    file_url: 'blueprints/org-1/p-1/rev-a/plan.pdf', mime_type: 'application/pdf',
+    ...overrides,
+  };
+}
+
+function revision(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id, blueprint_id: BLUEPRINT_ID, revision_number: 1, label: 'A',
+    file_url: `blueprints/org-1/p-1/${id}/plan.pdf`, file_size_bytes: 1000,
+    mime_type: 'application/pdf', thumbnail_url: null, page_sizes: [A4], confirmed_at: new Date(),
+    ...overrides,
+  };
+}
+
+function annotatedTask(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id, task_number: 1, annotation_page: 1, annotation_markers: null,
+    annotation_revision_id: null, annotation_recorded_revision_id: null,
+    ...overrides,
+  };
+}
+
+describe('Blueprint revisions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue(blueprint());
+  });
+
+  describe('helpers', () => {
+    it('labels revisions A to Z, then AA', () => {
+      expect(revisionLabel(1)).toBe('A');
+      expect(revisionLabel(26)).toBe('Z');
+      expect(revisionLabel(27)).toBe('AA');
+      expect(revisionLabel(28)).toBe('AB');
+    });
+
+    it('reads page sizes with rotation applied', async () => {
+      const doc = await PDFDocument.create();
+      doc.addPage([595.28, 841.89]);
+      doc.addPage([595.28, 841.89]).setRotation({ type: 'degrees', angle: 90 } as never);
+      const sizes = await readPageSizes(Buffer.from(await doc.save()));
+
+      expect(sizes).toEqual([A4, { width: 841.89, height: 595.28 }]);
+    });
+
+    it('matches pages of the same size and rejects changed or missing pages', () => {
+      expect(pagesMatch([A4, A3], [{ width: 595, height: 842 }, A4], [1])).toBe(true);
+      expect(pagesMatch([A4, A3], [A4, A4], [1, 2])).toBe(false);
+      expect(pagesMatch([A4, A3], [A4], [2])).toBe(false);
+      expect(pagesMatch(null, [A4], [1])).toBe(false);
+    });
+
+    it('unpins an annotation that is redrawn or moved to another blueprint', () => {
+      const pinned = { blueprint_id: BLUEPRINT_ID, annotation_revision_id: 'rev-a' };
+
+      expect(annotationRevisionUpdates(pinned, { title: 'x' })).toEqual({});
+      expect(annotationRevisionUpdates(pinned, { annotationX: 0.1 })).toEqual({ annotationRevisionId: null });
+      expect(annotationRevisionUpdates(pinned, { blueprintId: 'other' })).toEqual({
+        annotationRecordedRevisionId: null, annotationRevisionId: null,
+      });
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/blueprints/upload-url', () => {
+    it('creates the next revision of an existing blueprint', async () => {
+      (storageTracking.checkStorageLimit as jest.Mock).mockResolvedValue({ allowed: true });
+      (blueprintRevisionModel.nextRevisionNumber as jest.Mock).mockResolvedValue(2);
+      (blueprintRevisionModel.createRevision as jest.Mock).mockImplementation(async (data) => ({
+        id: data.id, label: data.label,
+      }));
+      (storageService.buildS3Key as jest.Mock).mockImplementation(
+        (type, org, parent, resource, name) => `${type}/${org}/${parent}/${resource}/${name}`,
+      );
+      (storageService.generatePresignedUploadUrl as jest.Mock).mockImplementation(async (key) => ({
+        uploadUrl: 'https://s3.example.com/upload', key, expiresAt: '2026-01-01T00:00:00.000Z',
+      }));
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/blueprints/upload-url')
+        .send({ fileName: 'plan.pdf', fileSize: 2000, mimeType: 'application/pdf', blueprintId: BLUEPRINT_ID });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.blueprintId).toBe(BLUEPRINT_ID);
+      expect(res.body.data.key).toBe(`blueprints/org-1/p-1/${res.body.data.revisionId}/plan.pdf`);
+      expect(blueprintModel.createBlueprint).not.toHaveBeenCalled();
+      expect(blueprintModel.setCurrentRevision).not.toHaveBeenCalled();
+      expect(blueprintRevisionModel.createRevision).toHaveBeenCalledWith(
+        expect.objectContaining({ blueprintId: BLUEPRINT_ID, revisionNumber: 2, label: 'B' }),
+      );
+    });
+
+    it('requires a name for a new blueprint', async () => {
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/blueprints/upload-url')
+        .send({ fileName: 'plan.pdf', fileSize: 2000, mimeType: 'application/pdf' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details).toHaveProperty('name');
+    });
+
+    it('returns 404 for a blueprint of another project', async () => {
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue(blueprint({ project_id: 'p-2' }));
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/blueprints/upload-url')
+        .send({ fileName: 'plan.pdf', fileSize: 2000, mimeType: 'application/pdf', blueprintId: BLUEPRINT_ID });
+
+      expect(res.status).toBe(404);
+      expect(blueprintRevisionModel.createRevision).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/blueprints/:blueprintId/confirm', () => {
+    beforeEach(() => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(
+        revision('rev-b', { revision_number: 2, label: 'B', page_sizes: null, confirmed_at: null }),
+      );
+      (storageService.checkFileExists as jest.Mock).mockResolvedValue(2000);
+      (storageService.readFile as jest.Mock).mockRejectedValue(new Error('not a pdf'));
+      (blueprintRevisionModel.confirmRevision as jest.Mock).mockResolvedValue(
+        revision('rev-b', { revision_number: 2, label: 'B', page_sizes: null }),
+      );
+      (blueprintRevisionModel.findRevisionsByBlueprint as jest.Mock).mockResolvedValue([revision('rev-a')]);
+    });
+
+    it('makes a new revision current and flags annotations it cannot carry over', async () => {
+      (blueprintRevisionModel.findAnnotatedTasks as jest.Mock).mockResolvedValue([annotatedTask(TASK_ID)]);
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/confirm`)
+        .send({ revisionId: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc' });
+
+      expect(res.status).toBe(200);
+      expect(storageTracking.incrementStorageUsed).toHaveBeenCalledWith('org-1', 2000);
+      expect(blueprintModel.updateBlueprintAfterConfirm).not.toHaveBeenCalled();
+      expect(blueprintRevisionModel.fillRecordedRevision).toHaveBeenCalledWith(BLUEPRINT_ID, 'rev-a');
+      expect(blueprintRevisionModel.setAnnotationRevision).toHaveBeenCalledWith([TASK_ID], 'rev-a');
+      expect(blueprintModel.setCurrentRevision).toHaveBeenCalledWith(
+        BLUEPRINT_ID, expect.objectContaining({ id: 'rev-b' }),
+      );
+      expect(res.body.data.carryOver).toEqual({ carriedOver: 0, needsReview: [TASK_ID] });
+      expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'tasks.bulk_changed' }));
+    });
+
+    it('keeps the current revision when asked to', async () => {
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/confirm`)
+        .send({ revisionId: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc', makeCurrent: false });
+
+      expect(res.status).toBe(200);
+      expect(blueprintModel.setCurrentRevision).not.toHaveBeenCalled();
+      expect(res.body.data.carryOver).toBeUndefined();
+    });
+
+    it('does nothing for a revision that is already confirmed', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(revision('rev-b'));
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/confirm`)
+        .send({ revisionId: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc' });
+
+      expect(res.status).toBe(200);
+      expect(storageTracking.incrementStorageUsed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/blueprints/:blueprintId/revisions/:revisionId/make-current', () => {
+    beforeEach(() => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(
+        revision('rev-b', { revision_number: 2, label: 'B' }),
+      );
+      (blueprintRevisionModel.findRevisionsByBlueprint as jest.Mock).mockResolvedValue([
+        revision('rev-b', { revision_number: 2, label: 'B' }),
+        revision('rev-a', { page_sizes: [A4, A3] }),
+      ]);
+    });
+
+    it('carries annotations on unchanged pages over to the revision', async () => {
+      (blueprintRevisionModel.findAnnotatedTasks as jest.Mock).mockResolvedValue([
+        annotatedTask('t-1'),
+        annotatedTask('t-2', { annotation_page: null, annotation_markers: [{ id: 'm', x: 0, y: 0, page: 2 }] }),
+      ]);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/revisions/rev-b/make-current`);
+
+      expect(res.status).toBe(200);
+      expect(blueprintRevisionModel.setAnnotationRevision).toHaveBeenCalledWith(['t-1'], null);
+      expect(blueprintRevisionModel.setAnnotationRevision).toHaveBeenCalledWith(['t-2'], 'rev-a');
+      expect(res.body.data.carryOver).toEqual({ carriedOver: 1, needsReview: ['t-2'] });
+    });
+
+    it('drops calibrations of pages whose size changed', async () => {
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue(blueprint({
+        scale_calibrations: [
+          { page: 1, method: 'scale', pageWidth: A4.width, pageHeight: A4.height, metresPerUnit: 0.01 },
+          { page: 2, method: 'scale', pageWidth: A3.width, pageHeight: A3.height, metresPerUnit: 0.01 },
+        ],
+      }));
+      (blueprintRevisionModel.findAnnotatedTasks as jest.Mock).mockResolvedValue([]);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/revisions/rev-b/make-current`);
+
+      expect(res.status).toBe(200);
+      expect(blueprintModel.setScaleCalibrations).toHaveBeenCalledWith(BLUEPRINT_ID, [
+        expect.objectContaining({ page: 1 }),
+      ]);
+    });
+
+    it('returns an annotation to the revision it was drawn on', async () => {
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue(blueprint({ current_revision_id: 'rev-a' }));
+      (blueprintRevisionModel.findAnnotatedTasks as jest.Mock).mockResolvedValue([
+        annotatedTask('t-1', { annotation_page: 2, annotation_revision_id: 'rev-b' }),
+      ]);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/revisions/rev-b/make-current`);
+
+      expect(res.status).toBe(200);
+      expect(blueprintRevisionModel.setAnnotationRevision).toHaveBeenCalledWith(['t-1'], null);
+      expect(res.body.data.carryOver.needsReview).toEqual([]);
+    });
+
+    it('rejects a revision whose upload is not confirmed', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue(revision('rev-b', { confirmed_at: null }));
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/revisions/rev-b/make-current`);
+
+      expect(res.status).toBe(404);
+      expect(blueprintModel.setCurrentRevision).not.toHaveBeenCalled();
+    });
+
+    it('requires the manager role in the project', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app).post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/revisions/rev-b/make-current`);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/blueprints/:blueprintId/review', () => {
+    const pinnedTask = {
+      id: TASK_ID, project_id: 'p-1', blueprint_id: BLUEPRINT_ID, annotation_revision_id: 'rev-a',
+      annotation_x: 0.1, annotation_y: 0.1, annotation_width: 0.2, annotation_height: 0.2, annotation_page: 1,
+    };
+
+    beforeEach(() => {
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue(blueprint({ current_revision_id: 'rev-b' }));
+      (blueprintRevisionModel.findRevisionsByBlueprint as jest.Mock).mockResolvedValue([
+        revision('rev-b', { revision_number: 2, label: 'B' }),
+        revision('rev-a'),
+      ]);
+    });
+
+    it('keeps annotations on the current revision', async () => {
+      (taskModel.findTasksByIds as jest.Mock).mockResolvedValue([pinnedTask]);
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ ...pinnedTask, annotation_revision_id: null });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/review`)
+        .send({ taskIds: [TASK_ID], action: 'keep' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.reviewed).toBe(1);
+      expect(taskModel.updateTask).toHaveBeenCalledWith(TASK_ID, { annotationRevisionId: null });
+      expect(taskHistoryModel.recordChanges).toHaveBeenCalledWith(
+        TASK_ID,
+        [{ field: 'annotation_revision', oldValue: { revisionId: 'rev-a', label: 'A' }, newValue: { revisionId: 'rev-b', label: 'B' } }],
+        { userId: 'user-1' },
+      );
+    });
+
+    it('removes annotations and skips tasks that are not waiting for review', async () => {
+      (taskModel.findTasksByIds as jest.Mock).mockResolvedValue([
+        pinnedTask,
+        { ...pinnedTask, id: 'other', annotation_revision_id: null },
+      ]);
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ ...pinnedTask, annotation_x: null });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/review`)
+        .send({ taskIds: [TASK_ID, 'dddddddd-dddd-4ddd-8ddd-dddddddddddd'], action: 'clear' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.reviewed).toBe(1);
+      expect(taskModel.updateTask).toHaveBeenCalledTimes(1);
+      expect(taskModel.updateTask).toHaveBeenCalledWith(TASK_ID, expect.objectContaining({
+        annotationX: null, annotationMarkers: null, annotationRevisionId: null,
+      }));
+    });
+
+    it('rejects an unknown action', async () => {
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/review`)
+        .send({ taskIds: [TASK_ID], action: 'move' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('revision comparison', () => {
+    // A white square image with a black bar at the given row range
+    function drawing(size: number, barFrom: number, barTo: number) {
+      const pixels = Buffer.alloc(size * size * 3, 255);
+      for (let y = barFrom; y < barTo; y++) {
+        pixels.fill(0, y * size * 3, (y + 1) * size * 3);
+      }
+      return sharp(pixels, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+    }
+
+    it('colours removed, added and unchanged pixels', () => {
+      const diff = diffRaster(Uint8Array.from([0, 0, 255, 255]), Uint8Array.from([0, 255, 0, 255]));
+
+      expect([...diff.pixels]).toEqual([
+        156, 163, 175, // on both: grey
+        220, 38, 38, // removed: red
+        37, 99, 235, // added: blue
+        255, 255, 255,
+      ]);
+      expect(diff).toMatchObject({ changed: 2, inked: 3 });
+    });
+
+    it('renders the diff at the size of the new image', async () => {
+      const result = await renderComparison(await drawing(20, 0, 10), await drawing(20, 5, 15));
+
+      expect(result).toMatchObject({ width: 20, height: 20 });
+      expect(result.changedRatio).toBeCloseTo(10 / 15);
+      const meta = await sharp(result.png).metadata();
+      expect(meta.format).toBe('png');
+    });
+
+    it('generates and stores the diff of two image revisions', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockImplementation(async (id: string) => (
+        revision(id, { mime_type: 'image/png', file_url: `blueprints/org-1/p-1/${id}/plan.png` })
+      ));
+      (blueprintComparisonModel.findComparison as jest.Mock).mockResolvedValue(null);
+      const images: Record<string, Buffer> = {
+        'blueprints/org-1/p-1/cccccccc-cccc-4ccc-8ccc-cccccccccccc/plan.png': await drawing(20, 0, 10),
+        'blueprints/org-1/p-1/dddddddd-dddd-4ddd-8ddd-dddddddddddd/plan.png': await drawing(20, 5, 15),
+      };
+      (storageService.readFile as jest.Mock).mockImplementation(async (key: string) => images[key]);
+      (storageService.buildS3Key as jest.Mock).mockReturnValue('blueprints/org-1/p-1/to/diff.png');
+      (blueprintComparisonModel.createComparison as jest.Mock).mockImplementation(async (data) => ({
+        id: 'cmp-1', file_url: data.fileUrl, changed_ratio: data.changedRatio,
+      }));
+      (storageService.generatePresignedDownloadUrl as jest.Mock).mockResolvedValue('https://s3.example.com/diff');
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/compare`)
+        .send({
+          fromRevisionId: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+          toRevisionId: 'dddddddd-dddd-4ddd-8ddd-dddddddddddd',
+        });
+
+      expect(res.status).toBe(200);
+      expect(storageService.writeFile).toHaveBeenCalledWith(
+        'blueprints/org-1/p-1/to/diff.png', expect.any(Buffer), 'image/png',
+      );
+      expect(res.body.data.comparison.download_url).toBe('https://s3.example.com/diff');
+    });
+
+    it('reuses a comparison generated before', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockImplementation(async (id: string) => (
+        revision(id, { mime_type: 'image/png' })
+      ));
+      (blueprintComparisonModel.findComparison as jest.Mock).mockResolvedValue({ id: 'cmp-1', file_url: 'diff.png' });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/compare`)
+        .send({
+          fromRevisionId: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+          toRevisionId: 'dddddddd-dddd-4ddd-8ddd-dddddddddddd',
+        });
+
+      expect(res.status).toBe(200);
+      expect(storageService.readFile).not.toHaveBeenCalled();
+      expect(storageService.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('leaves PDF revisions to the browser', async () => {
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockImplementation(async (id: string) => revision(id));
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/blueprints/${BLUEPRINT_ID}/compare`)
+        .send({
+          fromRevisionId: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+          toRevisionId: 'dddddddd-dddd-4ddd-8ddd-dddddddddddd',
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('UNSUPPORTED_COMPARISON');
+    });
+  });
+});
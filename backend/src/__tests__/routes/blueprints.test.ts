@@ -23,14 +23,23 @@ jest.mock('../../middleware/authenticate', () => ({
 }));
 
 jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
 jest.mock('../../models/blueprint.model');
+jest.mock('../../models/blueprintRevision.model');
+jest.mock('../../models/blueprintComparison.model');
+jest.mock('../../models/blueprintPreview.model');
 jest.mock('../../services/storage.service');
 jest.mock('../../services/storageTracking.service');
 jest.mock('../../services/thumbnail.service');
+jest.mock('../../services/blueprintPreview.service');
 jest.mock('../../services/audit.service');
 
 import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
 import * as blueprintModel from '../../models/blueprint.model';
+import * as blueprintRevisionModel from '../../models/blueprintRevision.model';
+import * as blueprintComparisonModel from '../../models/blueprintComparison.model';
+import * as blueprintPreviewModel from '../../models/blueprintPreview.model';
 import * as storageService from '../../services/storage.service';
 import * as storageTracking from '../../services/storageTracking.service';
 import * as thumbnailService from '../../services/thumbnail.service';
@@ -38,6 +47,7 @@ import * as thumbnailService from '../../services/thumbnail.service';
 describe('Blueprint Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
     (projectModel.findProjectById as jest.Mock).mockResolvedValue({
       id: 'p-1', organization_id: 'org-1', name: 'Test Project',
     });
@@ -65,7 +75,7 @@ describe('Blueprint Routes', () => {
     });
 
     it('should return 404 if project not found', async () => {
-      (projectModel.findProjectById as jest.Mock).mockResolvedValue(null);
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue(null);
 
       const res = await request(app).get('/api/v1/projects/bad-id/blueprints');
 
@@ -83,6 +93,9 @@ describe('Blueprint Routes', () => {
         file_url: 'blueprints/org-1/p-1/bp-new/plan.pdf',
         file_size_bytes: 1000000, mime_type: 'application/pdf',
       });
+      (blueprintRevisionModel.createRevision as jest.Mock).mockResolvedValue({
+        id: 'rev-1', blueprint_id: 'bp-new', revision_number: 1, label: 'A',
+      });
       (storageService.generatePresignedUploadUrl as jest.Mock).mockResolvedValue({
         uploadUrl: 'https://s3.example.com/upload-url',
         key: 'blueprints/org-1/p-1/bp-new/plan.pdf',
@@ -101,6 +114,11 @@ describe('Blueprint Routes', () => {
       expect(res.status).toBe(201);
       expect(res.body.data.uploadUrl).toBe('https://s3.example.com/upload-url');
       expect(res.body.data.blueprintId).toBe('bp-new');
+      expect(res.body.data.revisionId).toBe('rev-1');
+      expect(blueprintRevisionModel.createRevision).toHaveBeenCalledWith(
+        expect.objectContaining({ blueprintId: 'bp-new', revisionNumber: 1, label: 'A' }),
+      );
+      expect(blueprintModel.setCurrentRevision).toHaveBeenCalledWith('bp-new', expect.objectContaining({ id: 'rev-1' }));
     });
 
     it('should reject if storage limit exceeded', async () => {
@@ -151,14 +169,22 @@ describe('Blueprint Routes', () => {
   describe('POST /api/v1/projects/:projectId/blueprints/:blueprintId/confirm', () => {
     it('should confirm upload and generate thumbnail', async () => {
       (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue({
-        id: 'bp-1', project_id: 'p-1',
-        file_url: 'blueprints/org-1/p-1/bp-1/plan.jpg',
+        id: 'bp-1', project_id: 'p-1', current_revision_id: 'rev-1',
+        file_url: 'blueprints/org-1/p-1/rev-1/plan.jpg',
         file_size_bytes: 5000000, mime_type: 'image/jpeg',
       });
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue({
+        id: 'rev-1', blueprint_id: 'bp-1', revision_number: 1, label: 'A',
+        file_url: 'blueprints/org-1/p-1/rev-1/plan.jpg',
+        file_size_bytes: 5000000, mime_type: 'image/jpeg', confirmed_at: null,
+      });
       (storageService.checkFileExists as jest.Mock).mockResolvedValue(5000000);
       (thumbnailService.generateThumbnail as jest.Mock).mockResolvedValue(
-        'blueprints/org-1/p-1/bp-1/thumb_plan.jpg',
+        'blueprints/org-1/p-1/rev-1/thumb_plan.jpg',
       );
+      (blueprintRevisionModel.confirmRevision as jest.Mock).mockResolvedValue({
+        id: 'rev-1', blueprint_id: 'bp-1', confirmed_at: new Date(),
+      });
       (blueprintModel.updateBlueprintAfterConfirm as jest.Mock).mockResolvedValue({
         id: 'bp-1', project_id: 'p-1',
         file_url: 'blueprints/org-1/p-1/bp-1/plan.jpg',
@@ -170,18 +196,24 @@ describe('Blueprint Routes', () => {
 
       expect(res.status).toBe(200);
       expect(thumbnailService.generateThumbnail).toHaveBeenCalledWith(
-        'blueprints/org-1/p-1/bp-1/plan.jpg',
+        'blueprints/org-1/p-1/rev-1/plan.jpg',
         'blueprint',
       );
       expect(storageTracking.incrementStorageUsed).toHaveBeenCalledWith('org-1', 5000000);
+      expect(blueprintModel.updateBlueprintAfterConfirm).toHaveBeenCalled();
     });
 
     it('should return 400 if file not uploaded', async () => {
       (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue({
-        id: 'bp-1', project_id: 'p-1',
-        file_url: 'blueprints/org-1/p-1/bp-1/plan.jpg',
+        id: 'bp-1', project_id: 'p-1', current_revision_id: 'rev-1',
+        file_url: 'blueprints/org-1/p-1/rev-1/plan.jpg',
         file_size_bytes: 5000000, mime_type: 'image/jpeg',
       });
+      (blueprintRevisionModel.findRevisionById as jest.Mock).mockResolvedValue({
+        id: 'rev-1', blueprint_id: 'bp-1', revision_number: 1, label: 'A',
+        file_url: 'blueprints/org-1/p-1/rev-1/plan.jpg',
+        file_size_bytes: 5000000, mime_type: 'image/jpeg', confirmed_at: null,
+      });
       (storageService.checkFileExists as jest.Mock).mockResolvedValue(null);
 
       const res = await request(app)
@@ -200,6 +232,23 @@ describe('Blueprint Routes', () => {
         thumbnail_url: 'blueprints/org-1/p-1/bp-1/thumb_plan.jpg',
         file_size_bytes: 5000000,
       });
+      (blueprintRevisionModel.findRevisionsByBlueprint as jest.Mock).mockResolvedValue([
+        {
+          id: 'rev-2', file_url: 'blueprints/org-1/p-1/rev-2/plan.pdf', thumbnail_url: null,
+        },
+        {
+          id: 'rev-1', file_url: 'blueprints/org-1/p-1/bp-1/plan.jpg',
+          thumbnail_url: 'blueprints/org-1/p-1/bp-1/thumb_plan.jpg',
+        },
+      ]);
+      (blueprintPreviewModel.findPreviewsByBlueprint as jest.Mock).mockResolvedValue([
+        { id: 'pp-1', file_url: 'blueprints/org-1/p-1/rev-2/preview_large_p1.jpg' },
+        { id: 'pp-2', file_url: 'blueprints/org-1/p-1/rev-2/preview_small_p1.jpg' },
+      ]);
+      (blueprintComparisonModel.findComparisonsByBlueprint as jest.Mock).mockResolvedValue([
+        { id: 'cmp-1', file_url: 'blueprints/org-1/p-1/rev-2/diff_rev-1.png' },
+      ]);
+      (blueprintRevisionModel.sumConfirmedRevisionSizes as jest.Mock).mockResolvedValue(7000000);
       (blueprintModel.deleteBlueprint as jest.Mock).mockResolvedValue({
         id: 'bp-1',
       });
@@ -207,8 +256,8 @@ describe('Blueprint Routes', () => {
       const res = await request(app).delete('/api/v1/projects/p-1/blueprints/bp-1');
 
       expect(res.status).toBe(200);
-      expect(storageService.deleteObject).toHaveBeenCalledTimes(2);
-      expect(storageTracking.decrementStorageUsed).toHaveBeenCalledWith('org-1', 5000000);
+      expect(storageService.deleteObject).toHaveBeenCalledTimes(6);
+      expect(storageTracking.decrementStorageUsed).toHaveBeenCalledWith('org-1', 7000000);
     });
 
     it('should return 404 for non-existent blueprint', async () => {
@@ -0,0 +1,235 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'field_user',
+      email: 'field@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/comment.model');
+jest.mock('../../models/commentAttachment.model');
+jest.mock('../../models/user.model');
+jest.mock('../../services/mention.service');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/storageTracking.service');
+jest.mock('../../services/thumbnail.service');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+jest.mock('../../services/notification.service');
+
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as taskModel from '../../models/task.model';
+import * as commentModel from '../../models/comment.model';
+import * as commentAttachmentModel from '../../models/commentAttachment.model';
+import * as storageService from '../../services/storage.service';
+import * as storageTracking from '../../services/storageTracking.service';
+import * as thumbnailService from '../../services/thumbnail.service';
+import { recordCommentMentions } from '../../services/mention.service';
+import { logAuditAction } from '../../services/audit.service';
+
+const COMMENT_ID = '33333333-3333-4333-8333-333333333333';
+const ATTACHMENT_ID = '44444444-4444-4444-8444-444444444444';
+
+const ownComment = {
+  id: COMMENT_ID, task_id: 't-1', user_id: 'user-1', parent_id: null, deleted_at: null, comment_text: 'Fix teh leak',
+};
+const otherComment = { ...ownComment, user_id: 'user-2' };
+
+describe('Task Comment Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+    (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+      id: 't-1', project_id: 'p-1', task_number: 3, title: 'Fix leak', assigned_to_user: null, created_by: 'user-1',
+    });
+    (recordCommentMentions as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('GET /api/v1/projects/:projectId/tasks/:taskId/comments', () => {
+    it('should return comments with their attachments', async () => {
+      (commentModel.findCommentsByTask as jest.Mock).mockResolvedValue({
+        comments: [ownComment, { ...otherComment, id: 'c-2', parent_id: COMMENT_ID }],
+        total: 2,
+      });
+      (commentAttachmentModel.findAttachmentsByComments as jest.Mock).mockResolvedValue([
+        { id: ATTACHMENT_ID, comment_id: COMMENT_ID, file_url: 'a/photo.jpg', thumbnail_url: 'a/thumb_photo.jpg' },
+      ]);
+      (storageService.generatePresignedDownloadUrl as jest.Mock).mockResolvedValue('https://storage.example.com/signed');
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks/t-1/comments');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.comments[0].attachments).toHaveLength(1);
+      expect(res.body.data.comments[0].attachments[0].thumbnail_download_url).toBe('https://storage.example.com/signed');
+      expect(res.body.data.comments[1].attachments).toEqual([]);
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/tasks/:taskId/comments', () => {
+    it('should post a reply with attachments', async () => {
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue(otherComment);
+      (commentModel.createComment as jest.Mock).mockResolvedValue({ id: 'c-3', comment_text: 'Done, see photo' });
+      (commentAttachmentModel.attachToComment as jest.Mock).mockResolvedValue([{ id: ATTACHMENT_ID }]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/t-1/comments')
+        .send({ commentText: 'Done, see photo', parentId: COMMENT_ID, attachmentIds: [ATTACHMENT_ID] });
+
+      expect(res.status).toBe(201);
+      expect(commentModel.createComment).toHaveBeenCalledWith(expect.objectContaining({ parentId: COMMENT_ID }));
+      expect(commentAttachmentModel.attachToComment).toHaveBeenCalledWith([ATTACHMENT_ID], {
+        commentId: 'c-3', taskId: 't-1', uploadedBy: 'user-1',
+      });
+      expect(res.body.data.comment.attachments).toHaveLength(1);
+    });
+
+    it('should reject replies to replies', async () => {
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue({ ...otherComment, parent_id: 'c-0' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/t-1/comments')
+        .send({ commentText: 'Nested', parentId: COMMENT_ID });
+
+      expect(res.status).toBe(400);
+      expect(commentModel.createComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/v1/projects/:projectId/tasks/:taskId/comments/:commentId', () => {
+    it('should let the author edit and re-sync mentions', async () => {
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue(ownComment);
+      (commentModel.updateCommentText as jest.Mock).mockResolvedValue({ ...ownComment, comment_text: 'Fix the leak' });
+
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/tasks/t-1/comments/${COMMENT_ID}`)
+        .send({ commentText: 'Fix the leak' });
+
+      expect(res.status).toBe(200);
+      expect(commentModel.updateCommentText).toHaveBeenCalledWith(COMMENT_ID, 'Fix the leak', 'user-1');
+      expect(recordCommentMentions).toHaveBeenCalled();
+    });
+
+    it('should not let others edit the comment', async () => {
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue(otherComment);
+
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/tasks/t-1/comments/${COMMENT_ID}`)
+        .send({ commentText: 'Changed' });
+
+      expect(res.status).toBe(403);
+      expect(commentModel.updateCommentText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/v1/projects/:projectId/tasks/:taskId/comments/:commentId', () => {
+    it('should soft-delete the author\'s own comment', async () => {
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue(ownComment);
+
+      const res = await request(app).delete(`/api/v1/projects/p-1/tasks/t-1/comments/${COMMENT_ID}`);
+
+      expect(res.status).toBe(200);
+      expect(commentModel.softDeleteComment).toHaveBeenCalledWith(COMMENT_ID, 'user-1');
+      expect(logAuditAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'comment.deleted' }));
+    });
+
+    it('should not let members delete other people\'s comments', async () => {
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue(otherComment);
+
+      const res = await request(app).delete(`/api/v1/projects/p-1/tasks/t-1/comments/${COMMENT_ID}`);
+
+      expect(res.status).toBe(403);
+      expect(commentModel.softDeleteComment).not.toHaveBeenCalled();
+    });
+
+    it('should let project managers moderate any comment', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue(otherComment);
+
+      const res = await request(app).delete(`/api/v1/projects/p-1/tasks/t-1/comments/${COMMENT_ID}`);
+
+      expect(res.status).toBe(200);
+      expect(logAuditAction).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'comment.moderated',
+        metadata: { taskId: 't-1', authorId: 'user-2' },
+      }));
+    });
+  });
+
+  describe('GET /api/v1/projects/:projectId/tasks/:taskId/comments/:commentId/edits', () => {
+    it('should return the edit history', async () => {
+      (commentModel.findCommentById as jest.Mock).mockResolvedValue(ownComment);
+      (commentModel.findCommentEdits as jest.Mock).mockResolvedValue([
+        { id: 'e-1', comment_id: COMMENT_ID, previous_text: 'Fix teh leak' },
+      ]);
+
+      const res = await request(app).get(`/api/v1/projects/p-1/tasks/t-1/comments/${COMMENT_ID}/edits`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.edits[0].previous_text).toBe('Fix teh leak');
+    });
+  });
+
+  describe('comment attachments', () => {
+    it('should return a presigned upload URL for a PDF', async () => {
+      (storageTracking.checkStorageLimit as jest.Mock).mockResolvedValue({ allowed: true });
+      (storageService.buildS3Key as jest.Mock).mockReturnValue('comment-attachments/org-1/t-1/a-1/spec.pdf');
+      (storageService.generatePresignedUploadUrl as jest.Mock).mockResolvedValue({
+        uploadUrl: 'https://storage.example.com/upload', key: 'comment-attachments/org-1/t-1/a-1/spec.pdf',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/t-1/comments/attachments/upload-url')
+        .send({ fileName: 'spec.pdf', fileSize: 300000, mimeType: 'application/pdf' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.uploadUrl).toBe('https://storage.example.com/upload');
+      expect(commentAttachmentModel.createAttachment).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: 't-1', fileName: 'spec.pdf', mimeType: 'application/pdf', uploadedBy: 'user-1',
+      }));
+    });
+
+    it('should reject unsupported file types', async () => {
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/t-1/comments/attachments/upload-url')
+        .send({ fileName: 'run.exe', fileSize: 1000, mimeType: 'application/octet-stream' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should generate a thumbnail when an image upload is confirmed', async () => {
+      (commentAttachmentModel.findAttachmentById as jest.Mock).mockResolvedValue({
+        id: ATTACHMENT_ID, file_url: 'a/photo.jpg', mime_type: 'image/jpeg', uploaded_by: 'user-1', confirmed_at: null,
+      });
+      (storageService.checkFileExists as jest.Mock).mockResolvedValue(120000);
+      (thumbnailService.generateThumbnail as jest.Mock).mockResolvedValue('a/thumb_photo.jpg');
+      (commentAttachmentModel.confirmAttachment as jest.Mock).mockResolvedValue({ id: ATTACHMENT_ID });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/tasks/t-1/comments/attachments/${ATTACHMENT_ID}/confirm`);
+
+      expect(res.status).toBe(200);
+      expect(commentAttachmentModel.confirmAttachment).toHaveBeenCalledWith(ATTACHMENT_ID, {
+        fileSizeBytes: 120000, thumbnailUrl: 'a/thumb_photo.jpg',
+      });
+      expect(storageTracking.incrementStorageUsed).toHaveBeenCalledWith('org-1', 120000);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: any, _res: any, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/user.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/comment.model');
+jest.mock('../../models/contractorPortalLink.model');
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/taskRelation.model');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/email.service');
+jest.mock('../../services/notification.service');
+
+import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as userModel from '../../models/user.model';
+import * as taskModel from '../../models/task.model';
+import * as commentModel from '../../models/comment.model';
+import * as contractorPortalLinkModel from '../../models/contractorPortalLink.model';
+import * as workflowModel from '../../models/workflow.model';
+import * as taskRelationModel from '../../models/taskRelation.model';
+import { logAuditAction } from '../../services/audit.service';
+import { sendEmail } from '../../services/email.service';
+import { notifyTaskComment, notifyTaskStatusChanged } from '../../services/notification.service';
+
+const activeLink = {
+  id: 'link-1',
+  project_id: 'p-1',
+  contractor_email: 'sub@contractor.se',
+  organization_id: 'org-1',
+  project_name: 'Test Project',
+  project_created_by: 'user-1',
+  expires_at: new Date('2030-01-01'),
+};
+
+const assignedTask = {
+  id: 'task-1',
+  project_id: 'p-1',
+  title: 'Fix leaking pipe',
+  status: 'in_progress',
+  blueprint_id: null,
+  assigned_to_contractor_email: 'Sub@Contractor.se',
+  reply_token: 'secret',
+  custom_fields: {},
+};
+
+describe('Contractor Portal Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (taskRelationModel.findTasksUnblockedBy as jest.Mock).mockResolvedValue([]);
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (projectModel.findProjectById as jest.Mock).mockResolvedValue({
+      id: 'p-1', organization_id: 'org-1', name: 'Test Project',
+    });
+    (userModel.findUserById as jest.Mock).mockResolvedValue({
+      id: 'user-1', email: 'pm@test.com', first_name: 'Pat', last_name: 'Manager',
+    });
+    (contractorPortalLinkModel.findActiveLinkByTokenHash as jest.Mock).mockResolvedValue(activeLink);
+    (taskModel.findTaskById as jest.Mock).mockResolvedValue(assignedTask);
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('POST /api/v1/projects/:projectId/portal-links', () => {
+    it('should create a hashed link and email it to the contractor', async () => {
+      (contractorPortalLinkModel.createPortalLink as jest.Mock).mockResolvedValue({
+        id: 'link-1', project_id: 'p-1', contractor_email: 'sub@contractor.se', token_hash: 'hash',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/portal-links')
+        .send({ email: 'sub@contractor.se' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.portalUrl).toMatch(/\/portal\/[a-f0-9]{64}$/);
+      expect(res.body.data.link.token_hash).toBeUndefined();
+
+      const token = res.body.data.portalUrl.split('/portal/')[1];
+      const { tokenHash } = (contractorPortalLinkModel.createPortalLink as jest.Mock).mock.calls[0][0];
+      expect(tokenHash).not.toBe(token);
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'sub@contractor.se' }));
+    });
+
+    it('should reject an invalid email', async () => {
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/portal-links')
+        .send({ email: 'not-an-email' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/portal-links/:linkId/revoke', () => {
+    it('should revoke an active link', async () => {
+      (contractorPortalLinkModel.revokeLink as jest.Mock).mockResolvedValue({
+        id: 'link-1', contractor_email: 'sub@contractor.se', token_hash: 'hash', revoked_at: new Date(),
+      });
+
+      const res = await request(app).post('/api/v1/projects/p-1/portal-links/link-1/revoke');
+
+      expect(res.status).toBe(200);
+      expect(contractorPortalLinkModel.revokeLink).toHaveBeenCalledWith('link-1', 'p-1', 'user-1');
+      expect(logAuditAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'portal_link.revoked' }));
+    });
+
+    it('should return 404 for an already revoked link', async () => {
+      (contractorPortalLinkModel.revokeLink as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).post('/api/v1/projects/p-1/portal-links/link-1/revoke');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/public/portal/:token', () => {
+    it('should list open tasks for the contractor without internal fields', async () => {
+      (taskModel.findOpenTasksByContractor as jest.Mock).mockResolvedValue([assignedTask]);
+
+      const res = await request(app).get('/api/v1/public/portal/abc123');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.project.name).toBe('Test Project');
+      expect(res.body.data.tasks).toHaveLength(1);
+      expect(res.body.data.tasks[0].reply_token).toBeUndefined();
+      expect(taskModel.findOpenTasksByContractor).toHaveBeenCalledWith('p-1', 'sub@contractor.se');
+    });
+
+    it('should return 404 for an unknown, expired or revoked token', async () => {
+      (contractorPortalLinkModel.findActiveLinkByTokenHash as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).get('/api/v1/public/portal/abc123');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/public/portal/:token/tasks/:taskId/comments', () => {
+    it('should post a comment as the contractor and audit it as a portal action', async () => {
+      (commentModel.createComment as jest.Mock).mockResolvedValue({ id: 'c-1' });
+
+      const res = await request(app)
+        .post('/api/v1/public/portal/abc123/tasks/task-1/comments')
+        .send({ commentText: 'On site tomorrow' });
+
+      expect(res.status).toBe(201);
+      expect(commentModel.createComment).toHaveBeenCalledWith({
+        taskId: 'task-1', externalEmail: 'sub@contractor.se', commentText: 'On site tomorrow',
+      });
+      expect(logAuditAction).toHaveBeenCalledWith(expect.objectContaining({
+        userId: null,
+        metadata: expect.objectContaining({ via: 'portal', portalLinkId: 'link-1' }),
+      }));
+      expect(notifyTaskComment).toHaveBeenCalledWith(expect.objectContaining({ id: 'task-1' }), expect.objectContaining({
+        actorId: null, actorName: 'sub@contractor.se', commentText: 'On site tomorrow',
+      }));
+    });
+
+    it('should not expose tasks assigned to someone else', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        ...assignedTask, assigned_to_contractor_email: 'other@contractor.se',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/public/portal/abc123/tasks/task-1/comments')
+        .send({ commentText: 'Hello' });
+
+      expect(res.status).toBe(404);
+      expect(commentModel.createComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/v1/public/portal/:token/tasks/:taskId/status', () => {
+    it('should complete a task in progress and notify the PM', async () => {
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ ...assignedTask, status: 'completed' });
+
+      const res = await request(app)
+        .patch('/api/v1/public/portal/abc123/tasks/task-1/status')
+        .send({ status: 'completed' });
+
+      expect(res.status).toBe(200);
+      expect(taskModel.updateTask).toHaveBeenCalledWith('task-1', expect.objectContaining({ status: 'completed' }));
+      expect(notifyTaskStatusChanged).toHaveBeenCalledWith(expect.objectContaining({ id: 'task-1' }), expect.objectContaining({
+        actorId: null,
+        actorName: 'sub@contractor.se',
+        completion: { projectCreatorId: 'user-1', projectName: 'Test Project' },
+      }));
+    });
+
+    it('should reject an invalid transition', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({ ...assignedTask, status: 'open' });
+
+      const res = await request(app)
+        .patch('/api/v1/public/portal/abc123/tasks/task-1/status')
+        .send({ status: 'completed' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('INVALID_TRANSITION');
+    });
+  });
+});
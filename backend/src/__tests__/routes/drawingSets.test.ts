@@ -0,0 +1,471 @@
+import request from 'supertest';
+import { EventEmitter } from 'events';
+import { PDFDocument } from 'pdf-lib';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/blueprint.model');
+jest.mock('../../models/blueprintRevision.model');
+jest.mock('../../models/drawingSet.model');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/storageTracking.service');
+jest.mock('../../services/blueprintPreview.service');
+jest.mock('../../services/audit.service');
+
+import { spawn } from 'child_process';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as blueprintModel from '../../models/blueprint.model';
+import * as blueprintRevisionModel from '../../models/blueprintRevision.model';
+import * as drawingSetModel from '../../models/drawingSet.model';
+import * as storageService from '../../services/storage.service';
+import * as storageTracking from '../../services/storageTracking.service';
+import * as blueprintPreviewService from '../../services/blueprintPreview.service';
+import {
+  disciplineOfSheetNumber,
+  parseBboxHtml,
+  proposeSheet,
+  PageText,
+} from '../../services/drawingSet.service';
+
+const SET_ID = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd';
+const SHEET_ID = 'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee';
+
+// An ARCH D sheet in landscape, in points
+const WIDTH = 2592;
+const HEIGHT = 1728;
+
+function drawingSet(overrides: Record<string, unknown> = {}) {
+  return {
+    id: SET_ID, project_id: 'p-1', name: 'Permit set', status: 'review',
+    file_url: `blueprints/org-1/p-1/${SET_ID}/permit-set.pdf`, file_size_bytes: 3000, page_count: 3,
+    proposed_sheets: null,
+    ...overrides,
+  };
+}
+
+/** A word of the given font size whose top left corner is at x, y. */
+function word(text: string, x: number, y: number, size = 12) {
+  return { text, xMin: x, yMin: y, xMax: x + text.length * size * 0.6, yMax: y + size };
+}
+
+/** Words of a line, laid out left to right with a space between them. */
+function line(text: string, x: number, y: number, size = 12) {
+  let left = x;
+  return text.split(' ').map((t) => {
+    const w = word(t, left, y, size);
+    left = w.xMax + size * 0.3;
+    return w;
+  });
+}
+
+function pageText(words: PageText['words']): PageText {
+  return { width: WIDTH, height: HEIGHT, words };
+}
+
+async function pdfWithPages(count: number): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < count; i++) doc.addPage([WIDTH, HEIGHT]);
+  return Buffer.from(await doc.save());
+}
+
+/** Make pdftotext print the given word boxes. */
+function fakePdftotext(html: string, exitCode = 0) {
+  (spawn as jest.Mock).mockImplementation(() => {
+    const proc = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), stderr: new EventEmitter() });
+    setImmediate(() => {
+      proc.stdout.emit('data', Buffer.from(html));
+      proc.emit('close', exitCode);
+    });
+    return proc;
+  });
+}
+
+describe('Drawing sets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (drawingSetModel.findDrawingSetById as jest.Mock).mockResolvedValue(drawingSet());
+    (storageTracking.checkStorageLimit as jest.Mock).mockResolvedValue({
+      allowed: true, usedBytes: 0, limitBytes: 10737418240,
+    });
+  });
+
+  describe('sheet proposals', () => {
+    it('derives the discipline folder from the sheet number prefix', () => {
+      expect(disciplineOfSheetNumber('A-101')).toBe('architectural');
+      expect(disciplineOfSheetNumber('E1.01')).toBe('electrical');
+      expect(disciplineOfSheetNumber('M-201A')).toBe('hvac');
+      expect(disciplineOfSheetNumber('FP-2')).toBe('fire_protection');
+      expect(disciplineOfSheetNumber('X-1')).toBe('general');
+      expect(disciplineOfSheetNumber(null)).toBe('general');
+    });
+
+    it('parses the word boxes of every page', () => {
+      const pages = parseBboxHtml(`<!DOCTYPE html><html><body><doc>
+<page width="2592.000000" height="1728.000000">
+    <word xMin="2400.000000" yMin="1650.000000" xMax="2460.000000" yMax="1680.000000">A-101</word>
+    <word xMin="2300.000000" yMin="1600.000000" xMax="2350.000000" yMax="1612.000000">R&amp;D</word>
+</page>
+<page width="612.000000" height="792.000000">
+</page>
+</doc></body></html>`);
+
+      expect(pages).toEqual([
+        {
+          width: 2592,
+          height: 1728,
+          words: [
+            { text: 'A-101', xMin: 2400, yMin: 1650, xMax: 2460, yMax: 1680 },
+            { text: 'R&D', xMin: 2300, yMin: 1600, xMax: 2350, yMax: 1612 },
+          ],
+        },
+        { width: 612, height: 792, words: [] },
+      ]);
+    });
+
+    it('takes the title under the sheet title caption and the number from the title block', () => {
+      const sheet = proposeSheet(pageText([
+        // A detail reference in the drawing area is not the sheet number
+        ...line('SEE A-501', 800, 600, 18),
+        ...line('PROJECT', 2250, 1300, 8),
+        ...line('RIVERSIDE MEDICAL CENTER', 2250, 1312, 20),
+        ...line('SHEET TITLE', 2250, 1450, 8),
+        ...line('FIRST FLOOR', 2250, 1462, 16),
+        ...line('ELECTRICAL PLAN', 2250, 1480, 16),
+        ...line('SCALE: 1/8" = 1\'-0"', 2250, 1560, 8),
+        word('E-201', 2450, 1640, 36),
+      ]), 4);
+
+      expect(sheet).toEqual({
+        page: 4, sheetNumber: 'E-201', title: 'FIRST FLOOR ELECTRICAL PLAN', discipline: 'electrical',
+      });
+    });
+
+    it('falls back to the largest text that is not a field of the title block', () => {
+      const sheet = proposeSheet(pageText([
+        ...line('PROJECT NAME', 2250, 1300, 8),
+        ...line('RIVERSIDE MEDICAL CENTER', 2250, 1312, 24),
+        ...line('ROOF PLAN', 2250, 1450, 18),
+        ...line('DRAWN BY: JD', 2250, 1560, 8),
+        word('A-104', 2450, 1640, 36),
+      ]), 1);
+
+      expect(sheet.title).toBe('ROOF PLAN');
+      expect(sheet.sheetNumber).toBe('A-104');
+    });
+
+    it('proposes pages without text by page number', () => {
+      expect(proposeSheet(pageText([]), 7)).toEqual({
+        page: 7, sheetNumber: null, title: 'Sheet 7', discipline: 'general',
+      });
+      expect(proposeSheet(undefined, 2)).toEqual({
+        page: 2, sheetNumber: null, title: 'Sheet 2', discipline: 'general',
+      });
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/drawing-sets/upload-url', () => {
+    it('creates the drawing set and returns an upload URL', async () => {
+      (drawingSetModel.createDrawingSet as jest.Mock).mockImplementation(async (data) => drawingSet({
+        id: data.id, status: 'uploading', file_url: data.fileUrl,
+      }));
+      (storageService.generatePresignedUploadUrl as jest.Mock).mockResolvedValue({
+        uploadUrl: 'https://s3.example.com/upload-url', key: 'key', expiresAt: '2025-01-01T00:15:00.000Z',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/drawing-sets/upload-url')
+        .send({ fileName: 'permit-set.pdf', fileSize: 80 * 1024 * 1024, mimeType: 'application/pdf', name: ' Permit set ' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.uploadUrl).toBe('https://s3.example.com/upload-url');
+      expect(drawingSetModel.createDrawingSet).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'p-1', name: 'Permit set', fileSizeBytes: 80 * 1024 * 1024,
+      }));
+    });
+
+    it('only accepts PDFs', async () => {
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/drawing-sets/upload-url')
+        .send({ fileName: 'plan.png', fileSize: 1000, mimeType: 'image/png', name: 'Permit set' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details).toHaveProperty('mimeType');
+    });
+
+    it('requires the project manager role', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/drawing-sets/upload-url')
+        .send({ fileName: 'permit-set.pdf', fileSize: 1000, mimeType: 'application/pdf', name: 'Permit set' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/drawing-sets/:setId/analyse', () => {
+    beforeEach(() => {
+      (drawingSetModel.findDrawingSetById as jest.Mock).mockResolvedValue(drawingSet({ status: 'uploading' }));
+      (storageService.checkFileExists as jest.Mock).mockResolvedValue(3000);
+      (drawingSetModel.setProposedSheets as jest.Mock).mockImplementation(async (_id, data) => drawingSet({
+        proposed_sheets: data.proposedSheets,
+      }));
+    });
+
+    it('proposes a sheet for every page and counts the upload against storage', async () => {
+      (storageService.readFile as jest.Mock).mockResolvedValue(await pdfWithPages(2));
+      fakePdftotext(`<page width="${WIDTH}" height="${HEIGHT}">
+<word xMin="2250" yMin="1450" xMax="2400" yMax="1468">SITE</word>
+<word xMin="2405" yMin="1450" xMax="2500" yMax="1468">PLAN</word>
+<word xMin="2450" yMin="1640" xMax="2560" yMax="1676">C-001</word>
+</page>
+<page width="${WIDTH}" height="${HEIGHT}">
+</page>`);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/analyse`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.drawingSet.proposed_sheets).toEqual([
+        { page: 1, sheetNumber: 'C-001', title: 'SITE PLAN', discipline: 'civil' },
+        { page: 2, sheetNumber: null, title: 'Sheet 2', discipline: 'general' },
+      ]);
+      expect(storageTracking.incrementStorageUsed).toHaveBeenCalledWith('org-1', 3000);
+    });
+
+    it('still proposes sheets by page number when the text cannot be read', async () => {
+      (storageService.readFile as jest.Mock).mockResolvedValue(await pdfWithPages(2));
+      fakePdftotext('', 1);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/analyse`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.drawingSet.proposed_sheets.map((s: { title: string }) => s.title))
+        .toEqual(['Sheet 1', 'Sheet 2']);
+    });
+
+    it('rejects a file that is not a PDF', async () => {
+      (storageService.readFile as jest.Mock).mockResolvedValue(Buffer.from('not a pdf'));
+
+      const res = await request(app).post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/analyse`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('INVALID_PDF');
+      expect(storageTracking.incrementStorageUsed).not.toHaveBeenCalled();
+    });
+
+    it('does not count the upload again when analysing again', async () => {
+      (drawingSetModel.findDrawingSetById as jest.Mock).mockResolvedValue(drawingSet());
+      (storageService.readFile as jest.Mock).mockResolvedValue(await pdfWithPages(1));
+      fakePdftotext('', 1);
+
+      const res = await request(app).post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/analyse`);
+
+      expect(res.status).toBe(200);
+      expect(storageTracking.incrementStorageUsed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/drawing-sets/:setId/split', () => {
+    const sheets = [
+      { page: 3, sheetNumber: ' E-201 ', title: 'First floor electrical plan', discipline: 'electrical' },
+      { page: 1, sheetNumber: '', title: 'Cover', discipline: 'general' },
+    ];
+
+    beforeEach(async () => {
+      (storageService.readFile as jest.Mock).mockResolvedValue(await pdfWithPages(3));
+      (storageService.buildS3Key as jest.Mock).mockImplementation((...parts: string[]) => parts.join('/'));
+      (blueprintModel.createBlueprint as jest.Mock).mockImplementation(async (data) => ({
+        id: `bp-${data.setPage}`, project_id: data.projectId, name: data.name,
+      }));
+      (blueprintRevisionModel.createRevision as jest.Mock).mockImplementation(async (data) => ({
+        id: data.id, blueprint_id: data.blueprintId,
+      }));
+      (blueprintRevisionModel.confirmRevision as jest.Mock).mockImplementation(async (id, data) => ({
+        id, preview_status: data.previewStatus,
+      }));
+      (blueprintModel.setCurrentRevision as jest.Mock).mockImplementation(async (id) => ({ id }));
+      (drawingSetModel.markSplit as jest.Mock).mockResolvedValue(drawingSet({ status: 'split', file_url: null }));
+    });
+
+    it('creates a single-page blueprint for each reviewed sheet in page order', async () => {
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/split`)
+        .send({ sheets });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.sheets.map((s: { id: string }) => s.id)).toEqual(['bp-1', 'bp-3']);
+      expect(blueprintModel.createBlueprint).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'First floor electrical plan',
+        sheetNumber: 'E-201',
+        discipline: 'electrical',
+        drawingSetId: SET_ID,
+        setPage: 3,
+        mimeType: 'application/pdf',
+      }));
+      expect(blueprintModel.createBlueprint).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Cover', sheetNumber: null, setPage: 1,
+      }));
+
+      const [, file] = (storageService.writeFile as jest.Mock).mock.calls[1];
+      expect((await PDFDocument.load(file)).getPageCount()).toBe(1);
+      expect((storageService.writeFile as jest.Mock).mock.calls[1][0]).toMatch(/\/E-201\.pdf$/);
+      expect((storageService.writeFile as jest.Mock).mock.calls[0][0]).toMatch(/\/page-1\.pdf$/);
+
+      expect(blueprintRevisionModel.createRevision).toHaveBeenCalledWith(
+        expect.objectContaining({ blueprintId: 'bp-3', revisionNumber: 1, label: 'A' }),
+      );
+      expect(blueprintRevisionModel.confirmRevision).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+        previewStatus: 'pending', pageSizes: [{ width: WIDTH, height: HEIGHT }],
+      }));
+      expect(blueprintPreviewService.queuePreviews).toHaveBeenCalledTimes(2);
+    });
+
+    it('replaces the uploaded set with its sheets in storage', async () => {
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/split`)
+        .send({ sheets });
+
+      expect(res.status).toBe(201);
+      const written = (storageService.writeFile as jest.Mock).mock.calls
+        .reduce((sum, [, file]) => sum + file.length, 0);
+      expect(storageTracking.incrementStorageUsed).toHaveBeenCalledWith('org-1', written);
+      expect(storageService.deleteObject).toHaveBeenCalledWith(`blueprints/org-1/p-1/${SET_ID}/permit-set.pdf`);
+      expect(storageTracking.decrementStorageUsed).toHaveBeenCalledWith('org-1', 3000);
+      expect(drawingSetModel.markSplit).toHaveBeenCalledWith(SET_ID);
+    });
+
+    it('rejects pages the drawing set does not have', async () => {
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/split`)
+        .send({ sheets: [{ page: 4, sheetNumber: null, title: 'Extra', discipline: 'general' }] });
+
+      expect(res.status).toBe(400);
+      expect(blueprintModel.createBlueprint).not.toHaveBeenCalled();
+    });
+
+    it('rejects the same page twice and unknown disciplines', async () => {
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/split`)
+        .send({ sheets: [
+          { page: 1, sheetNumber: null, title: 'Cover', discipline: 'general' },
+          { page: 1, sheetNumber: null, title: 'Cover again', discipline: 'landscaping' },
+        ] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details).toHaveProperty(['sheets.1.discipline']);
+    });
+
+    it('refuses to split a set twice', async () => {
+      (drawingSetModel.findDrawingSetById as jest.Mock).mockResolvedValue(
+        drawingSet({ status: 'split', file_url: null }),
+      );
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/split`)
+        .send({ sheets });
+
+      expect(res.status).toBe(409);
+    });
+
+    it('checks the storage limit for what splitting adds', async () => {
+      (drawingSetModel.findDrawingSetById as jest.Mock).mockResolvedValue(drawingSet({ file_size_bytes: 100 }));
+      (storageTracking.checkStorageLimit as jest.Mock).mockResolvedValue({
+        allowed: false, usedBytes: 10737418240, limitBytes: 10737418240,
+      });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/drawing-sets/${SET_ID}/split`)
+        .send({ sheets });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('STORAGE_LIMIT_EXCEEDED');
+      expect(storageTracking.checkStorageLimit).toHaveBeenCalledWith('org-1', expect.any(Number));
+      expect(blueprintModel.createBlueprint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/v1/projects/:projectId/drawing-sets/:setId', () => {
+    beforeEach(() => {
+      (drawingSetModel.findDrawingSetById as jest.Mock).mockResolvedValue(drawingSet({ status: 'split', file_url: null }));
+      (blueprintModel.findBlueprintsByDrawingSet as jest.Mock).mockResolvedValue([
+        { id: SHEET_ID, name: 'Sheet 2', sheet_number: null, discipline: 'general' },
+      ]);
+    });
+
+    it('renames sheets and moves them to another discipline in one go', async () => {
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/drawing-sets/${SET_ID}`)
+        .send({ sheets: [{ blueprintId: SHEET_ID, sheetNumber: 'M-101', title: ' Ground floor HVAC ', discipline: 'hvac' }] });
+
+      expect(res.status).toBe(200);
+      expect(blueprintModel.updateSheets).toHaveBeenCalledWith(SET_ID, [
+        { id: SHEET_ID, sheetNumber: 'M-101', name: 'Ground floor HVAC', discipline: 'hvac' },
+      ]);
+      expect(drawingSetModel.renameDrawingSet).not.toHaveBeenCalled();
+    });
+
+    it('renames the set', async () => {
+      (drawingSetModel.renameDrawingSet as jest.Mock).mockResolvedValue(drawingSet({ name: 'Tender set' }));
+
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/drawing-sets/${SET_ID}`)
+        .send({ name: 'Tender set' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.drawingSet.name).toBe('Tender set');
+      expect(blueprintModel.updateSheets).not.toHaveBeenCalled();
+    });
+
+    it('rejects blueprints that are not sheets of the set', async () => {
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/drawing-sets/${SET_ID}`)
+        .send({ sheets: [{ blueprintId: 'ffffffff-ffff-4fff-8fff-ffffffffffff', title: 'Other' }] });
+
+      expect(res.status).toBe(400);
+      expect(blueprintModel.updateSheets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/v1/projects/:projectId/drawing-sets/:setId', () => {
+    it('removes an unsplit upload and its storage', async () => {
+      const res = await request(app).delete(`/api/v1/projects/p-1/drawing-sets/${SET_ID}`);
+
+      expect(res.status).toBe(200);
+      expect(storageService.deleteObject).toHaveBeenCalledWith(`blueprints/org-1/p-1/${SET_ID}/permit-set.pdf`);
+      expect(storageTracking.decrementStorageUsed).toHaveBeenCalledWith('org-1', 3000);
+      expect(drawingSetModel.deleteDrawingSet).toHaveBeenCalledWith(SET_ID);
+    });
+
+    it('returns 404 for a set of another project', async () => {
+      (drawingSetModel.findDrawingSetById as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).delete(`/api/v1/projects/p-1/drawing-sets/${SET_ID}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import request from 'supertest';
+import crypto from 'crypto';
+import app from '../../app';
+import config from '../../config';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: any, _res: any, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/task.model');
+jest.mock('../../models/comment.model');
+jest.mock('../../models/taskPhoto.model');
+jest.mock('../../models/user.model');
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/inboundEmail.model');
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/taskRelation.model');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/storageTracking.service');
+jest.mock('../../services/thumbnail.service');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/email.service');
+jest.mock('../../services/notification.service');
+
+import * as taskModel from '../../models/task.model';
+import * as commentModel from '../../models/comment.model';
+import * as taskPhotoModel from '../../models/taskPhoto.model';
+import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as inboundEmailModel from '../../models/inboundEmail.model';
+import * as workflowModel from '../../models/workflow.model';
+import * as taskRelationModel from '../../models/taskRelation.model';
+import * as storageService from '../../services/storage.service';
+import * as storageTracking from '../../services/storageTracking.service';
+import { notifyTaskComment, notifyTaskStatusChanged } from '../../services/notification.service';
+
+const TOKEN = '0123456789abcdef0123456789abcdef';
+
+function sign(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = crypto
+    .createHmac('sha256', config.email.webhookSecret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return { 'X-Webhook-Timestamp': String(timestamp), 'X-Webhook-Signature': `sha256=${signature}` };
+}
+
+function postJson(payload: Record<string, unknown>) {
+  const body = JSON.stringify(payload);
+  return request(app)
+    .post('/api/v1/webhooks/email')
+    .set('Content-Type', 'application/json')
+    .set(sign(body))
+    .send(body);
+}
+
+describe('Inbound Email Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (taskRelationModel.findTasksUnblockedBy as jest.Mock).mockResolvedValue([]);
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+    (taskModel.findTaskByReplyToken as jest.Mock).mockResolvedValue({
+      id: 't-1',
+      project_id: 'p-1',
+      organization_id: 'org-1',
+      project_name: 'Test Project',
+      project_created_by: 'user-1',
+      title: 'Fix leak',
+      status: 'in_progress',
+      assigned_to_contractor_email: 'anna@contractor.se',
+    });
+    (commentModel.createComment as jest.Mock).mockResolvedValue({ id: 'c-1' });
+    (storageTracking.checkStorageLimit as jest.Mock).mockResolvedValue({ allowed: true });
+    (storageService.buildS3Key as jest.Mock).mockImplementation((...parts: string[]) => parts.join('/'));
+    (taskPhotoModel.createTaskPhoto as jest.Mock).mockResolvedValue({ id: 'ph-1' });
+    (inboundEmailModel.recordDelivery as jest.Mock).mockResolvedValue('d-1');
+  });
+
+  describe('POST /api/v1/webhooks/email', () => {
+    it('should reject requests with an invalid signature', async () => {
+      const res = await request(app)
+        .post('/api/v1/webhooks/email')
+        .set('Content-Type', 'application/json')
+        .set('X-Webhook-Timestamp', String(Math.floor(Date.now() / 1000)))
+        .set('X-Webhook-Signature', 'sha256=deadbeef')
+        .send(JSON.stringify({ from: 'anna@contractor.se' }));
+
+      expect(res.status).toBe(401);
+      expect(res.body.error.code).toBe('INVALID_SIGNATURE');
+    });
+
+    it('should reject stale timestamps', async () => {
+      const body = JSON.stringify({ from: 'anna@contractor.se' });
+      const res = await request(app)
+        .post('/api/v1/webhooks/email')
+        .set('Content-Type', 'application/json')
+        .set(sign(body, Math.floor(Date.now() / 1000) - 3600))
+        .send(body);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject a delivery whose signature or Message-ID was already received', async () => {
+      (inboundEmailModel.recordDelivery as jest.Mock).mockResolvedValue(null);
+
+      const res = await postJson({
+        messageId: '<abc123@contractor.se>',
+        from: 'anna@contractor.se',
+        to: `reply+${TOKEN}@reply.taskproof.se`,
+        text: 'DONE',
+      });
+
+      expect(res.status).toBe(409);
+      expect(res.body.error.code).toBe('DUPLICATE_DELIVERY');
+      expect(inboundEmailModel.recordDelivery).toHaveBeenCalledWith({
+        signature: expect.stringMatching(/^[a-f0-9]{64}$/),
+        messageId: 'abc123@contractor.se',
+      });
+      expect(commentModel.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should forget the delivery when processing fails so the relay can retry', async () => {
+      (commentModel.createComment as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      const res = await postJson({
+        from: 'anna@contractor.se',
+        to: `reply+${TOKEN}@reply.taskproof.se`,
+        text: 'On my way',
+      });
+
+      expect(res.status).toBe(500);
+      expect(inboundEmailModel.deleteDelivery).toHaveBeenCalledWith('d-1');
+    });
+
+    it('should post a reply from the assigned contractor as a comment and complete on DONE', async () => {
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ id: 't-1', status: 'completed' });
+
+      const res = await postJson({
+        from: 'Anna <Anna@Contractor.se>',
+        to: `reply+${TOKEN}@reply.taskproof.se`,
+        subject: 'Re: Task assigned: Fix leak',
+        text: 'DONE - replaced the gasket\n\nOn Mon, PM wrote:\n> Please fix',
+        attachments: [{ filename: 'after.jpg', contentType: 'image/jpeg', content: Buffer.from('img').toString('base64') }],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.outcome).toBe('posted');
+      expect(res.body.data.statusChanged).toBe(true);
+      expect(taskModel.findTaskByReplyToken).toHaveBeenCalledWith(TOKEN);
+      expect(commentModel.createComment).toHaveBeenCalledWith({
+        taskId: 't-1',
+        externalEmail: 'anna@contractor.se',
+        commentText: 'DONE - replaced the gasket',
+      });
+      expect(storageService.writeFile).toHaveBeenCalled();
+      expect(taskPhotoModel.createTaskPhoto).toHaveBeenCalledWith(expect.objectContaining({ taskId: 't-1', uploadedBy: null }));
+      expect(taskModel.updateTask).toHaveBeenCalledWith('t-1', expect.objectContaining({ status: 'completed' }));
+      expect(notifyTaskComment).toHaveBeenCalledWith(expect.objectContaining({ id: 't-1' }), expect.objectContaining({
+        actorName: 'anna@contractor.se', commentText: 'DONE - replaced the gasket',
+      }));
+      expect(notifyTaskStatusChanged).toHaveBeenCalledWith(expect.objectContaining({ id: 't-1' }), expect.objectContaining({
+        actorName: 'anna@contractor.se', completion: expect.objectContaining({ projectCreatorId: 'user-1' }),
+      }));
+    });
+
+    it('should not change status when the transition is not allowed', async () => {
+      (taskModel.findTaskByReplyToken as jest.Mock).mockResolvedValue({
+        id: 't-1',
+        project_id: 'p-1',
+        organization_id: 'org-1',
+        status: 'open',
+        assigned_to_contractor_email: 'anna@contractor.se',
+      });
+
+      const res = await postJson({
+        from: 'anna@contractor.se',
+        to: 'pm@taskproof.se',
+        subject: `Re: Task assigned: Fix leak [ref:${TOKEN}]`,
+        text: 'Done',
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.statusChanged).toBe(false);
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should quarantine replies from other senders', async () => {
+      (inboundEmailModel.createQuarantinedEmail as jest.Mock).mockResolvedValue({ id: 'q-1' });
+
+      const res = await postJson({
+        from: 'someone@elsewhere.se',
+        to: `reply+${TOKEN}@reply.taskproof.se`,
+        subject: 'Re: Task',
+        text: 'Done',
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.outcome).toBe('quarantined');
+      expect(commentModel.createComment).not.toHaveBeenCalled();
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+      expect(inboundEmailModel.createQuarantinedEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ fromEmail: 'someone@elsewhere.se', command: 'complete' }),
+      );
+    });
+
+    it('should accept raw MIME messages', async () => {
+      const raw = [
+        'From: anna@contractor.se',
+        `To: reply+${TOKEN}@reply.taskproof.se`,
+        'Subject: Re: Fix leak',
+        'Content-Type: text/plain',
+        '',
+        'Parts arrive tomorrow.',
+      ].join('\r\n');
+
+      const res = await request(app)
+        .post('/api/v1/webhooks/email')
+        .set('Content-Type', 'message/rfc822')
+        .set(sign(raw))
+        .send(raw);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.outcome).toBe('posted');
+      expect(commentModel.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({ commentText: 'Parts arrive tomorrow.' }),
+      );
+    });
+
+    it('should acknowledge mail that matches no task', async () => {
+      const res = await postJson({ from: 'anna@contractor.se', to: 'pm@taskproof.se', subject: 'Hello', text: 'Hi' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.outcome).toBe('unmatched');
+    });
+  });
+
+  describe('Quarantine review', () => {
+    beforeEach(() => {
+      (projectModel.findProjectById as jest.Mock).mockResolvedValue({ id: 'p-1', organization_id: 'org-1' });
+      (inboundEmailModel.findQuarantinedById as jest.Mock).mockResolvedValue({
+        id: 'q-1',
+        organization_id: 'org-1',
+        project_id: 'p-1',
+        task_id: 't-1',
+        from_email: 'someone@elsewhere.se',
+        body_text: 'Looks fine',
+        attachments: [],
+        status: 'pending',
+      });
+    });
+
+    it('should post an approved reply as a comment', async () => {
+      (inboundEmailModel.markReviewed as jest.Mock).mockResolvedValue({ id: 'q-1', status: 'approved' });
+
+      const res = await request(app).post('/api/v1/projects/p-1/email-quarantine/q-1/approve');
+
+      expect(res.status).toBe(200);
+      expect(commentModel.createComment).toHaveBeenCalledWith({
+        taskId: 't-1', externalEmail: 'someone@elsewhere.se', commentText: 'Looks fine',
+      });
+    });
+
+    it('should not review an entry twice', async () => {
+      (inboundEmailModel.findQuarantinedById as jest.Mock).mockResolvedValue({
+        id: 'q-1', project_id: 'p-1', status: 'rejected', attachments: [],
+      });
+
+      const res = await request(app).post('/api/v1/projects/p-1/email-quarantine/q-1/reject');
+
+      expect(res.status).toBe(409);
+    });
+  });
+});
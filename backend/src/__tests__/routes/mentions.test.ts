@@ -0,0 +1,175 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'field_user',
+      email: 'field@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/project.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/comment.model');
+jest.mock('../../models/projectNote.model');
+jest.mock('../../models/user.model');
+jest.mock('../../models/mention.model');
+jest.mock('../../services/realtime.service');
+jest.mock('../../services/notification.service');
+
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as projectModel from '../../models/project.model';
+import * as taskModel from '../../models/task.model';
+import * as commentModel from '../../models/comment.model';
+import * as noteModel from '../../models/projectNote.model';
+import * as userModel from '../../models/user.model';
+import * as mentionModel from '../../models/mention.model';
+import { notify, notifyTaskComment } from '../../services/notification.service';
+
+const ANNA = '11111111-1111-4111-8111-111111111111';
+const BO = '22222222-2222-4222-8222-222222222222';
+
+const task = {
+  id: 'task-1',
+  project_id: 'p-1',
+  task_number: 7,
+  title: 'Fix leak',
+  assigned_to_user: ANNA,
+  created_by: 'user-1',
+};
+
+describe('Mentions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+    (userModel.findUserById as jest.Mock).mockResolvedValue({ id: 'user-1', first_name: 'Field', last_name: 'User' });
+  });
+
+  describe('POST /api/v1/projects/:projectId/tasks/:taskId/comments', () => {
+    it('should record mentions of project members and notify them', async () => {
+      const commentText = `@[Anna Svensson](${ANNA}) @[Bo Ek](${BO}) can you check the valve?`;
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue(task);
+      (commentModel.createComment as jest.Mock).mockResolvedValue({ id: 'c-1', task_id: 'task-1', comment_text: commentText });
+      // Bo is not on the project
+      (mentionModel.filterMentionableUserIds as jest.Mock).mockResolvedValue([ANNA]);
+      (mentionModel.createMentions as jest.Mock).mockResolvedValue([{ id: 'm-1', mentioned_user_id: ANNA }]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/task-1/comments')
+        .send({ commentText });
+
+      expect(res.status).toBe(201);
+      expect(mentionModel.filterMentionableUserIds).toHaveBeenCalledWith('p-1', 'org-1', [ANNA, BO]);
+      expect(mentionModel.createMentions).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'p-1', mentionedBy: 'user-1', userIds: [ANNA], taskId: 'task-1', commentId: 'c-1',
+      }));
+      expect(notify).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'mention',
+        recipientIds: [ANNA],
+        title: 'Field User mentioned you on task #7: Fix leak',
+        body: '@Anna Svensson @Bo Ek can you check the valve?',
+        link: '/projects/p-1/tasks/task-1',
+      }));
+      // The assignee hears about the mention, not the comment as well
+      expect(notifyTaskComment).toHaveBeenCalledWith(task, expect.objectContaining({ mentionedUserIds: [ANNA] }));
+    });
+
+    it('should not notify anyone for a comment without mentions', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue(task);
+      (commentModel.createComment as jest.Mock).mockResolvedValue({ id: 'c-2', task_id: 'task-1', comment_text: 'Done' });
+      (mentionModel.filterMentionableUserIds as jest.Mock).mockResolvedValue([]);
+      (mentionModel.createMentions as jest.Mock).mockResolvedValue([]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/task-1/comments')
+        .send({ commentText: 'Done' });
+
+      expect(res.status).toBe(201);
+      expect(notify).not.toHaveBeenCalled();
+      expect(notifyTaskComment).toHaveBeenCalledWith(task, expect.objectContaining({ mentionedUserIds: [] }));
+    });
+  });
+
+  describe('PUT /api/v1/projects/:projectId/notes/:noteId', () => {
+    it('should drop removed mentions and notify only newly mentioned users', async () => {
+      const content = `Meeting moved, @[Bo Ek](${BO}) please confirm`;
+      (noteModel.findNoteById as jest.Mock).mockResolvedValue({ id: 'note-1', project_id: 'p-1' });
+      (noteModel.updateNote as jest.Mock).mockResolvedValue({ id: 'note-1', project_id: 'p-1', content });
+      (mentionModel.filterMentionableUserIds as jest.Mock).mockResolvedValue([BO]);
+      (mentionModel.createMentions as jest.Mock).mockResolvedValue([{ id: 'm-2', mentioned_user_id: BO }]);
+      (projectModel.findProjectById as jest.Mock).mockResolvedValue({ id: 'p-1', name: 'Villa Ek' });
+
+      const res = await request(app).put('/api/v1/projects/p-1/notes/note-1').send({ content });
+
+      expect(res.status).toBe(200);
+      expect(mentionModel.deleteMentionsExcept).toHaveBeenCalledWith({ noteId: 'note-1' }, [BO]);
+      expect(notify).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'mention',
+        recipientIds: [BO],
+        title: 'Field User mentioned you in a note on Villa Ek',
+        body: 'Meeting moved, @Bo Ek please confirm',
+        link: '/projects/p-1?tab=notes',
+      }));
+    });
+
+    it('should not notify again when the user was already mentioned', async () => {
+      const content = `@[Bo Ek](${BO}) please confirm, updated`;
+      (noteModel.findNoteById as jest.Mock).mockResolvedValue({ id: 'note-1', project_id: 'p-1' });
+      (noteModel.updateNote as jest.Mock).mockResolvedValue({ id: 'note-1', project_id: 'p-1', content });
+      (mentionModel.filterMentionableUserIds as jest.Mock).mockResolvedValue([BO]);
+      (mentionModel.createMentions as jest.Mock).mockResolvedValue([]);
+
+      const res = await request(app).put('/api/v1/projects/p-1/notes/note-1').send({ content });
+
+      expect(res.status).toBe(200);
+      expect(notify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/projects/:projectId/members/mentionable', () => {
+    it('should list the users who can be mentioned', async () => {
+      (mentionModel.findMentionableUsers as jest.Mock).mockResolvedValue([
+        { id: ANNA, first_name: 'Anna', last_name: 'Svensson', email: 'anna@test.com' },
+      ]);
+
+      const res = await request(app).get('/api/v1/projects/p-1/members/mentionable');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.users).toHaveLength(1);
+      expect(mentionModel.findMentionableUsers).toHaveBeenCalledWith('p-1', 'org-1');
+    });
+  });
+
+  describe('GET /api/v1/users/me/mentions', () => {
+    it('should return the user\'s mentions in their projects', async () => {
+      (mentionModel.findMentionsByUser as jest.Mock).mockResolvedValue({
+        mentions: [{ id: 'm-1', project_id: 'p-1', task_id: 'task-1', comment_id: 'c-1', note_id: null }],
+        total: 1,
+      });
+
+      const res = await request(app).get('/api/v1/users/me/mentions?limit=10');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.mentions).toHaveLength(1);
+      expect(res.body.meta.pagination.total).toBe(1);
+      expect(mentionModel.findMentionsByUser).toHaveBeenCalledWith('user-1', 'org-1', {
+        memberProjectsOnly: true, limit: 10, offset: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import request from 'supertest';
+import app from '../../app';
+import config from '../../config';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'field_user',
+      email: 'field@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/notification.model');
+jest.mock('../../models/digest.model');
+jest.mock('../../services/email.service');
+
+import * as notificationModel from '../../models/notification.model';
+import * as digestModel from '../../models/digest.model';
+import { sendEmail } from '../../services/email.service';
+import { runDigests } from '../../services/digest.service';
+
+describe('Notification Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/v1/notifications', () => {
+    it('should return the user\'s notifications with the unread count', async () => {
+      (notificationModel.findNotificationsByUser as jest.Mock).mockResolvedValue({
+        notifications: [{ id: 'n-1', type: 'task_assigned', title: 'Task #4 assigned to you: Fix leak' }],
+        total: 1,
+      });
+      (notificationModel.countUnread as jest.Mock).mockResolvedValue(3);
+
+      const res = await request(app).get('/api/v1/notifications?unreadOnly=true&limit=10');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.notifications).toHaveLength(1);
+      expect(res.body.data.unreadCount).toBe(3);
+      expect(res.body.meta.pagination.total).toBe(1);
+      expect(notificationModel.findNotificationsByUser).toHaveBeenCalledWith('user-1', {
+        unreadOnly: true, limit: 10, offset: 0,
+      });
+    });
+  });
+
+  describe('POST /api/v1/notifications/:notificationId/read', () => {
+    it('should mark the user\'s notification as read', async () => {
+      (notificationModel.markRead as jest.Mock).mockResolvedValue({ id: 'n-1', read_at: new Date() });
+
+      const res = await request(app).post('/api/v1/notifications/n-1/read');
+
+      expect(res.status).toBe(200);
+      expect(notificationModel.markRead).toHaveBeenCalledWith('n-1', 'user-1');
+    });
+
+    it('should return 404 for a notification of another user', async () => {
+      (notificationModel.markRead as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).post('/api/v1/notifications/n-2/read');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/notifications/read-all', () => {
+    it('should mark every notification as read', async () => {
+      (notificationModel.markAllRead as jest.Mock).mockResolvedValue(5);
+
+      const res = await request(app).post('/api/v1/notifications/read-all');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.updated).toBe(5);
+      expect(notificationModel.markAllRead).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  describe('notification preferences', () => {
+    it('should fill in defaults for event types the user has not changed', async () => {
+      (notificationModel.findPreferences as jest.Mock).mockResolvedValue([
+        { event_type: 'task_comment', channel: 'digest' },
+      ]);
+
+      const res = await request(app).get('/api/v1/notifications/preferences');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.preferences.task_comment).toBe('digest');
+      expect(res.body.data.preferences.task_assigned).toBe('email');
+      expect(res.body.data.preferences.task_status_changed).toBe('in_app');
+    });
+
+    it('should save the changed event types', async () => {
+      (notificationModel.findPreferences as jest.Mock).mockResolvedValue([]);
+
+      const res = await request(app)
+        .put('/api/v1/notifications/preferences')
+        .send({ preferences: { task_assigned: 'in_app', mention: 'digest' } });
+
+      expect(res.status).toBe(200);
+      expect(notificationModel.upsertPreferences).toHaveBeenCalledWith('user-1', {
+        task_assigned: 'in_app', mention: 'digest',
+      });
+    });
+
+    it('should reject unknown event types and channels', async () => {
+      const unknownType = await request(app)
+        .put('/api/v1/notifications/preferences')
+        .send({ preferences: { project_deleted: 'email' } });
+      const unknownChannel = await request(app)
+        .put('/api/v1/notifications/preferences')
+        .send({ preferences: { task_assigned: 'sms' } });
+      const empty = await request(app)
+        .put('/api/v1/notifications/preferences')
+        .send({ preferences: {} });
+
+      expect(unknownType.status).toBe(400);
+      expect(unknownChannel.status).toBe(400);
+      expect(empty.status).toBe(400);
+      expect(notificationModel.upsertPreferences).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('digest settings', () => {
+    it('should return the default schedule for users who never set one', async () => {
+      (digestModel.findDigestSettings as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).get('/api/v1/notifications/digest');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.digest).toEqual({ frequency: 'off', sendHour: 7, weekday: 1, timezone: 'Europe/Stockholm' });
+    });
+
+    it('should save a weekly schedule', async () => {
+      (digestModel.findDigestSettings as jest.Mock).mockResolvedValue({
+        frequency: 'weekly', send_hour: 6, weekday: 5, timezone: 'Europe/Helsinki',
+      });
+
+      const res = await request(app)
+        .put('/api/v1/notifications/digest')
+        .send({ frequency: 'weekly', sendHour: 6, weekday: 5, timezone: 'Europe/Helsinki' });
+
+      expect(res.status).toBe(200);
+      expect(digestModel.upsertDigestSettings).toHaveBeenCalledWith('user-1', {
+        frequency: 'weekly', sendHour: 6, weekday: 5, timezone: 'Europe/Helsinki',
+      });
+      expect(res.body.data.digest.frequency).toBe('weekly');
+    });
+
+    it('should reject unknown timezones and hours outside the day', async () => {
+      const badZone = await request(app)
+        .put('/api/v1/notifications/digest')
+        .send({ frequency: 'daily', sendHour: 7, weekday: 1, timezone: 'Mars/Olympus' });
+      const badHour = await request(app)
+        .put('/api/v1/notifications/digest')
+        .send({ frequency: 'daily', sendHour: 24, weekday: 1, timezone: 'Europe/Stockholm' });
+
+      expect(badZone.status).toBe(400);
+      expect(badHour.status).toBe(400);
+      expect(digestModel.upsertDigestSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runDigests', () => {
+    const recipient = {
+      id: 'user-2', organization_id: 'org-1', email: 'ann@test.com', first_name: 'Ann',
+      frequency: 'daily', timezone: 'Europe/Stockholm', last_sent_at: new Date('2025-03-01T06:00:00Z'),
+    };
+
+    beforeEach(() => {
+      (digestModel.findDueDigestRecipients as jest.Mock).mockResolvedValue([recipient]);
+      (digestModel.claimDigest as jest.Mock).mockResolvedValue(true);
+      (digestModel.findNotificationsSince as jest.Mock).mockResolvedValue([]);
+      (digestModel.findDueTasksForUser as jest.Mock).mockResolvedValue([]);
+      (digestModel.findTasksAwaitingVerification as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should email a summary with deep links and mark digest notifications as emailed', async () => {
+      (digestModel.findNotificationsSince as jest.Mock).mockResolvedValue([
+        {
+          id: 'n-1', type: 'task_assigned', title: 'Task #4 assigned to you: Fix leak', body: 'Assigned by Pat Smith',
+          link: '/projects/p-1/tasks/t-4', channel: 'digest', emailed_at: null, project_name: 'Tower',
+        },
+        {
+          id: 'n-2', type: 'task_comment', title: 'New comment on task #4: Fix leak', body: 'Lee: On it',
+          link: '/projects/p-1/tasks/t-4', channel: 'in_app', emailed_at: null, project_name: 'Tower',
+        },
+      ]);
+      (digestModel.findDueTasksForUser as jest.Mock).mockResolvedValue([
+        { id: 't-7', project_id: 'p-1', project_name: 'Tower', task_number: 7, title: 'Seal window', due_date_text: '2025-02-27', days_overdue: 3 },
+      ]);
+
+      const sent = await runDigests();
+
+      expect(sent).toBe(1);
+      expect(digestModel.findNotificationsSince).toHaveBeenCalledWith('user-2', recipient.last_sent_at);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      const email = (sendEmail as jest.Mock).mock.calls[0][0];
+      expect(email.to).toBe('ann@test.com');
+      expect(email.subject).toBe('Your daily TaskProof summary');
+      expect(email.text).toContain('New assignments');
+      expect(email.text).toContain('Tower #7: Seal window (3 days overdue)');
+      expect(email.text).toContain(`${config.frontendUrl}/projects/p-1/tasks/t-4`);
+      expect(email.text).not.toContain('Signed protocols');
+      expect(notificationModel.markEmailed).toHaveBeenCalledWith(['n-1']);
+      expect(digestModel.claimDigest).toHaveBeenCalledWith('user-2', expect.any(Date));
+    });
+
+    it('should skip the email when there is nothing to report', async () => {
+      const sent = await runDigests();
+
+      expect(sent).toBe(0);
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(digestModel.claimDigest).toHaveBeenCalledWith('user-2', expect.any(Date));
+    });
+
+    it('should not send a digest another instance already claimed', async () => {
+      (digestModel.claimDigest as jest.Mock).mockResolvedValue(false);
+
+      const sent = await runDigests();
+
+      expect(sent).toBe(0);
+      expect(digestModel.findNotificationsSince).not.toHaveBeenCalled();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should release the claim when the digest cannot be built', async () => {
+      (digestModel.findNotificationsSince as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      const sent = await runDigests();
+
+      expect(sent).toBe(0);
+      expect(digestModel.releaseDigestClaim).toHaveBeenCalledWith('user-2', expect.any(Date), recipient.last_sent_at);
+    });
+  });
+});
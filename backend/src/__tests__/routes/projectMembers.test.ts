@@ -0,0 +1,142 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/user.model');
+jest.mock('../../models/projectNote.model');
+jest.mock('../../services/audit.service');
+
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as userModel from '../../models/user.model';
+import * as noteModel from '../../models/projectNote.model';
+import { logAuditAction } from '../../services/audit.service';
+
+const newUserId = '11111111-1111-4111-8111-111111111111';
+
+describe('Project Member Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+  });
+
+  describe('project access', () => {
+    it('should hide projects the user is not a member of', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: null });
+
+      const res = await request(app).get('/api/v1/projects/p-1/notes');
+
+      expect(res.status).toBe(404);
+      expect(noteModel.findNotesByProject).not.toHaveBeenCalled();
+    });
+
+    it('should let viewers read but not change anything', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'viewer' });
+      (noteModel.findNotesByProject as jest.Mock).mockResolvedValue([]);
+
+      const readRes = await request(app).get('/api/v1/projects/p-1/notes');
+      const writeRes = await request(app).post('/api/v1/projects/p-1/notes').send({ content: 'Hello' });
+
+      expect(readRes.status).toBe(200);
+      expect(writeRes.status).toBe(403);
+      expect(noteModel.createNote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/projects/:projectId/members', () => {
+    it('should list project members', async () => {
+      (projectMemberModel.findMembersByProject as jest.Mock).mockResolvedValue([
+        { user_id: 'user-1', role: 'manager', first_name: 'Pat', last_name: 'Manager' },
+      ]);
+
+      const res = await request(app).get('/api/v1/projects/p-1/members');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.members).toHaveLength(1);
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/members', () => {
+    it('should add a user from the organisation', async () => {
+      (userModel.findUserById as jest.Mock).mockResolvedValue({ id: newUserId, organization_id: 'org-1', is_active: true });
+      (projectMemberModel.findMember as jest.Mock).mockResolvedValue(null);
+      (projectMemberModel.addMember as jest.Mock).mockResolvedValue({ user_id: newUserId, role: 'member' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/members')
+        .send({ userId: newUserId, role: 'member' });
+
+      expect(res.status).toBe(201);
+      expect(projectMemberModel.addMember).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 'p-1', userId: newUserId, role: 'member', addedBy: 'user-1' }),
+      );
+      expect(logAuditAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'project_member.added' }));
+    });
+
+    it('should reject users from another organisation', async () => {
+      (userModel.findUserById as jest.Mock).mockResolvedValue({ id: newUserId, organization_id: 'org-2', is_active: true });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/members')
+        .send({ userId: newUserId, role: 'member' });
+
+      expect(res.status).toBe(404);
+      expect(projectMemberModel.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should only let project managers add members', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/members')
+        .send({ userId: newUserId, role: 'member' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('PATCH/DELETE /api/v1/projects/:projectId/members/:userId', () => {
+    it('should change a member role', async () => {
+      (projectMemberModel.findMember as jest.Mock).mockResolvedValue({ user_id: newUserId, role: 'member' });
+      (projectMemberModel.updateMemberRole as jest.Mock).mockResolvedValue({ user_id: newUserId, role: 'viewer' });
+
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/members/${newUserId}`)
+        .send({ role: 'viewer' });
+
+      expect(res.status).toBe(200);
+      expect(projectMemberModel.updateMemberRole).toHaveBeenCalledWith('p-1', newUserId, 'viewer');
+    });
+
+    it('should not remove the last manager', async () => {
+      (projectMemberModel.findMember as jest.Mock).mockResolvedValue({ user_id: 'user-1', role: 'manager' });
+      (projectMemberModel.countManagers as jest.Mock).mockResolvedValue(1);
+
+      const res = await request(app).delete('/api/v1/projects/p-1/members/user-1');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('LAST_MANAGER');
+      expect(projectMemberModel.removeMember).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -23,12 +23,17 @@ jest.mock('../../middleware/authenticate', () => ({
 }));
 
 jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
 jest.mock('../../services/audit.service');
 
 import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
 
 describe('Project Routes', () => {
-  beforeEach(() => jest.clearAllMocks());
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+  });
 
   describe('GET /api/v1/projects', () => {
     it('should return paginated projects', async () => {
@@ -58,6 +63,19 @@ describe('Project Routes', () => {
         expect.objectContaining({ status: 'completed' }),
       );
     });
+
+    it('should only list projects the user is a member of', async () => {
+      (projectModel.findProjectsByOrganization as jest.Mock).mockResolvedValue({
+        projects: [], total: 0,
+      });
+
+      await request(app).get('/api/v1/projects');
+
+      expect(projectModel.findProjectsByOrganization).toHaveBeenCalledWith(
+        'org-1',
+        expect.objectContaining({ memberUserId: 'user-1' }),
+      );
+    });
   });
 
   describe('POST /api/v1/projects', () => {
@@ -72,6 +90,9 @@ describe('Project Routes', () => {
 
       expect(res.status).toBe(201);
       expect(res.body.data.project.name).toBe('New Project');
+      expect(projectMemberModel.addMember).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 'p-new', userId: 'user-1', role: 'manager' }),
+      );
     });
 
     it('should reject empty name', async () => {
@@ -93,6 +114,7 @@ describe('Project Routes', () => {
 
       expect(res.status).toBe(200);
       expect(res.body.data.project.id).toBe('p-1');
+      expect(res.body.data.project.member_role).toBe('manager');
     });
 
     it('should return 404 for non-existent project', async () => {
@@ -23,19 +23,24 @@ jest.mock('../../middleware/authenticate', () => ({
 }));
 
 jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
 jest.mock('../../models/protocol.model');
+jest.mock('../../models/savedView.model');
 jest.mock('../../services/storage.service');
 jest.mock('../../services/protocol.service');
 jest.mock('../../services/audit.service');
 
 import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
 import * as protocolModel from '../../models/protocol.model';
+import * as savedViewModel from '../../models/savedView.model';
 import * as storageService from '../../services/storage.service';
 import * as protocolService from '../../services/protocol.service';
 
 describe('Protocol Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
     (projectModel.findProjectById as jest.Mock).mockResolvedValue({
       id: 'p-1', organization_id: 'org-1', name: 'Test Project',
     });
@@ -66,7 +71,7 @@ describe('Protocol Routes', () => {
     });
 
     it('should return 404 if project not found', async () => {
-      (projectModel.findProjectById as jest.Mock).mockResolvedValue(null);
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue(null);
 
       const res = await request(app).get('/api/v1/projects/bad-id/protocols');
 
@@ -104,6 +109,47 @@ describe('Protocol Routes', () => {
 
       expect(res.status).toBe(202);
     });
+
+    it('should take the filters from a saved view, refined by explicit filters', async () => {
+      const viewId = '22222222-2222-4222-8222-222222222222';
+      (savedViewModel.findVisibleView as jest.Mock).mockResolvedValue({
+        id: viewId, filters: { status: ['completed'], trade: 'Electrical' },
+      });
+      (protocolService.startProtocolGeneration as jest.Mock).mockResolvedValue('proto-new');
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/protocols/generate')
+        .send({ name: 'Electrical handover', viewId, filters: { hasPhotos: true } });
+
+      expect(res.status).toBe(202);
+      expect(protocolService.startProtocolGeneration).toHaveBeenCalledWith(expect.objectContaining({
+        filters: { status: ['completed'], trade: 'Electrical', hasPhotos: true },
+      }));
+    });
+
+    it('should pass on the request to include comments', async () => {
+      (protocolService.startProtocolGeneration as jest.Mock).mockResolvedValue('proto-new');
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/protocols/generate')
+        .send({ name: 'Handover with comments', includeComments: true });
+
+      expect(res.status).toBe(202);
+      expect(protocolService.startProtocolGeneration).toHaveBeenCalledWith(expect.objectContaining({
+        includeComments: true,
+      }));
+    });
+
+    it('should return 404 for an unknown saved view', async () => {
+      (savedViewModel.findVisibleView as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/protocols/generate')
+        .send({ name: 'Report', viewId: '22222222-2222-4222-8222-222222222222' });
+
+      expect(res.status).toBe(404);
+      expect(protocolService.startProtocolGeneration).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /api/v1/projects/:projectId/protocols/:protocolId', () => {
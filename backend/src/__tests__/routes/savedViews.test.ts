@@ -0,0 +1,130 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/savedView.model');
+
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as savedViewModel from '../../models/savedView.model';
+
+const viewId = '22222222-2222-4222-8222-222222222222';
+
+describe('Saved View Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+  });
+
+  describe('POST /api/v1/projects/:projectId/views', () => {
+    it('should save a view for the current user', async () => {
+      (savedViewModel.createView as jest.Mock).mockResolvedValue({ id: viewId, name: 'Open electrical' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/views')
+        .send({ name: ' Open electrical ', filters: { status: ['open'], trade: 'Electrical' } });
+
+      expect(res.status).toBe(201);
+      expect(savedViewModel.createView).toHaveBeenCalledWith({
+        projectId: 'p-1',
+        userId: 'user-1',
+        name: 'Open electrical',
+        filters: { status: ['open'], trade: 'Electrical' },
+        isShared: false,
+      });
+    });
+
+    it('should reject invalid filters', async () => {
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/views')
+        .send({ name: 'Broken', filters: { customFields: [{ key: 'floor', op: 'gte' }] } });
+
+      expect(res.status).toBe(400);
+      expect(savedViewModel.createView).not.toHaveBeenCalled();
+    });
+
+    it('should only let project managers share views', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/views')
+        .send({ name: 'Team view', filters: {}, isShared: true });
+
+      expect(res.status).toBe(403);
+      expect(savedViewModel.createView).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/v1/projects/:projectId/views/:viewId', () => {
+    it("should not let members edit someone else's shared view", async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+      (savedViewModel.findVisibleView as jest.Mock).mockResolvedValue({
+        id: viewId, user_id: 'user-2', is_shared: true,
+      });
+
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/views/${viewId}`)
+        .send({ name: 'Mine now' });
+
+      expect(res.status).toBe(403);
+      expect(savedViewModel.updateView).not.toHaveBeenCalled();
+    });
+
+    it('should let project managers look after shared views', async () => {
+      (savedViewModel.findVisibleView as jest.Mock).mockResolvedValue({
+        id: viewId, user_id: 'user-2', is_shared: true,
+      });
+      (savedViewModel.updateView as jest.Mock).mockResolvedValue({ id: viewId, name: 'Renamed' });
+
+      const res = await request(app)
+        .patch(`/api/v1/projects/p-1/views/${viewId}`)
+        .send({ name: 'Renamed' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.view.name).toBe('Renamed');
+    });
+  });
+
+  describe('pinning', () => {
+    it('should pin a visible view for the current user', async () => {
+      (savedViewModel.findVisibleView as jest.Mock).mockResolvedValue({ id: viewId, user_id: 'user-2', is_shared: true });
+
+      const res = await request(app).put(`/api/v1/projects/p-1/views/${viewId}/pin`);
+
+      expect(res.status).toBe(200);
+      expect(savedViewModel.pinView).toHaveBeenCalledWith(viewId, 'user-1');
+    });
+
+    it('should list pinned views across projects', async () => {
+      (savedViewModel.findPinnedViews as jest.Mock).mockResolvedValue([
+        { id: viewId, name: 'Open electrical', project_id: 'p-1', project_name: 'Tower A' },
+      ]);
+
+      const res = await request(app).get('/api/v1/users/me/views/pinned');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.views).toHaveLength(1);
+      expect(savedViewModel.findPinnedViews).toHaveBeenCalledWith('user-1', 'org-1', { memberProjectsOnly: true });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import app from '../../app';
+import pool from '../../config/database';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+let mockRole = 'project_manager';
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: mockRole,
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('Search Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRole = 'project_manager';
+    mockQuery.mockResolvedValue({ rows: [] });
+  });
+
+  describe('GET /api/v1/search', () => {
+    it('should search every type with a prefix query scoped to the user\'s projects', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [{ type: 'task', id: 't-1', title: 'Loose cable', snippet: 'Loose [[cable]] in kitchen', rank: 0.8 }],
+      });
+
+      const res = await request(app).get('/api/v1/search?q=Kitchen cab');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.results).toHaveLength(1);
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(values).toEqual(['org-1', 'kitchen:* & cab:*', 'Kitchen cab', 20, 'user-1']);
+      for (const table of ['tasks', 'project_notes', 'task_comments', 'products', 'blueprints']) {
+        expect(sql).toContain(`FROM ${table}`);
+      }
+      expect(sql).toContain("to_tsquery('swedish', $2)");
+      expect(sql).toContain('pm.user_id = $5');
+    });
+
+    it('should search all projects in the organisation for org admins', async () => {
+      mockRole = 'org_admin';
+
+      const res = await request(app).get('/api/v1/search?q=cable');
+
+      expect(res.status).toBe(200);
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(values).toHaveLength(4);
+      expect(sql).not.toContain('project_members');
+    });
+
+    it('should only search the requested types', async () => {
+      const res = await request(app).get('/api/v1/search?q=cable&types=product,blueprint&limit=5');
+
+      expect(res.status).toBe(200);
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('FROM products');
+      expect(sql).toContain('FROM blueprints');
+      expect(sql).not.toContain('FROM tasks');
+      expect(values[3]).toBe(5);
+    });
+
+    it('should pass injection attempts as parameters', async () => {
+      const res = await request(app).get(`/api/v1/search?q=${encodeURIComponent("x'); DROP TABLE tasks; --")}`);
+
+      expect(res.status).toBe(200);
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).not.toContain('DROP TABLE');
+      expect(values[1]).toBe('x:* & drop:* & table:* & tasks:*');
+    });
+
+    it('should not query when nothing searchable is left', async () => {
+      const res = await request(app).get('/api/v1/search?q=%26%26');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.results).toEqual([]);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject short terms and unknown types', async () => {
+      const short = await request(app).get('/api/v1/search?q=a');
+      const unknownType = await request(app).get('/api/v1/search?q=cable&types=task,users');
+
+      expect(short.status).toBe(400);
+      expect(unknownType.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: any, _res: any, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'org_admin',
+      email: 'admin@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/slaRule.model');
+jest.mock('../../models/project.model');
+jest.mock('../../models/task.model');
+jest.mock('../../services/email.service');
+jest.mock('../../services/audit.service');
+
+import * as slaRuleModel from '../../models/slaRule.model';
+import * as projectModel from '../../models/project.model';
+import * as taskModel from '../../models/task.model';
+import { sendEmail } from '../../services/email.service';
+import { findMatchingRule, resolveDueDate, runDueDateChecks } from '../../services/sla.service';
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+
+function rule(overrides: Partial<slaRuleModel.SlaRuleRow>): slaRuleModel.SlaRuleRow {
+  return {
+    id: 'r', organization_id: 'org-1', project_id: null, priority: null, trade: null, due_in_days: 14,
+    created_by: 'user-1', created_at: new Date(), updated_at: new Date(), ...overrides,
+  };
+}
+
+describe('SLA Rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/v1/admin/sla-rules', () => {
+    it('should create an organisation-wide rule', async () => {
+      (slaRuleModel.createRule as jest.Mock).mockResolvedValue(rule({ id: 'r-1', priority: 'critical', due_in_days: 1 }));
+
+      const res = await request(app)
+        .post('/api/v1/admin/sla-rules')
+        .send({ priority: 'critical', dueInDays: 1 });
+
+      expect(res.status).toBe(201);
+      expect(slaRuleModel.createRule).toHaveBeenCalledWith(expect.objectContaining({
+        organizationId: 'org-1', priority: 'critical', dueInDays: 1,
+      }));
+    });
+
+    it('should reject a rule for a project in another organisation', async () => {
+      (projectModel.findProjectById as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app)
+        .post('/api/v1/admin/sla-rules')
+        .send({ projectId: PROJECT_ID, dueInDays: 5 });
+
+      expect(res.status).toBe(404);
+      expect(slaRuleModel.createRule).not.toHaveBeenCalled();
+    });
+
+    it('should reject a negative number of days', async () => {
+      const res = await request(app)
+        .post('/api/v1/admin/sla-rules')
+        .send({ dueInDays: -1 });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/v1/admin/sla-rules/:ruleId', () => {
+    it('should return 404 for an unknown rule', async () => {
+      (slaRuleModel.deleteRule as jest.Mock).mockResolvedValue(false);
+
+      const res = await request(app).delete('/api/v1/admin/sla-rules/r-x');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('rule matching', () => {
+    const rules = [
+      rule({ id: 'org-default', due_in_days: 14 }),
+      rule({ id: 'org-critical', priority: 'critical', due_in_days: 1 }),
+      rule({ id: 'org-electrical', trade: 'Electrical', due_in_days: 7 }),
+      rule({ id: 'project-default', project_id: 'p-2', due_in_days: 30 }),
+    ];
+
+    it('should prefer trade over priority and both over the catch-all', () => {
+      expect(findMatchingRule(rules, { projectId: 'p-1', priority: 'normal', trade: 'Plumbing' })?.id).toBe('org-default');
+      expect(findMatchingRule(rules, { projectId: 'p-1', priority: 'critical', trade: null })?.id).toBe('org-critical');
+      expect(findMatchingRule(rules, { projectId: 'p-1', priority: 'critical', trade: 'electrical' })?.id).toBe('org-electrical');
+    });
+
+    it('should let project rules override organisation rules', () => {
+      expect(findMatchingRule(rules, { projectId: 'p-2', priority: 'critical', trade: 'Electrical' })?.id).toBe('project-default');
+    });
+
+    it('should derive the due date from the matching rule', async () => {
+      (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue(rules);
+
+      const due = await resolveDueDate('org-1', { projectId: 'p-1', priority: 'critical' }, new Date('2025-03-31T13:00:00Z'));
+
+      expect(due).toBe('2025-04-01');
+    });
+
+    it('should count days from today in the configured timezone', async () => {
+      (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue(rules);
+
+      // Already April 1st in Stockholm
+      const due = await resolveDueDate('org-1', { projectId: 'p-1', priority: 'critical' }, new Date('2025-03-31T22:30:00Z'));
+
+      expect(due).toBe('2025-04-02');
+    });
+  });
+
+  describe('runDueDateChecks', () => {
+    const notice = {
+      project_id: 'p-1', project_name: 'Tower', title: 'Fix pipe', due_date_text: '2025-03-01',
+      assigned_to_contractor_email: null, assignee_first_name: 'Ann',
+      escalation_email: 'lead@test.com', escalation_first_name: 'Lee',
+    };
+
+    it('should send one reminder per assignee and one escalation per project', async () => {
+      (taskModel.claimTasksDueForReminder as jest.Mock).mockResolvedValue([
+        { ...notice, id: 't-1', task_number: 1, assignee_email: 'ann@test.com', days_overdue: 0 },
+        { ...notice, id: 't-2', task_number: 2, assignee_email: 'ann@test.com', days_overdue: 0 },
+      ]);
+      (taskModel.claimOverdueTasksForEscalation as jest.Mock).mockResolvedValue([
+        { ...notice, id: 't-3', task_number: 3, assignee_email: null, assigned_to_contractor_email: 'sub@test.com', days_overdue: 4 },
+      ]);
+
+      const result = await runDueDateChecks();
+
+      expect(result).toEqual({ reminders: 1, escalations: 1 });
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'ann@test.com', subject: '2 tasks due soon' }));
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'lead@test.com' }));
+      expect(taskModel.claimTasksDueForReminder).toHaveBeenCalledWith(2);
+    });
+
+    it('should send nothing when another instance already claimed the tasks', async () => {
+      (taskModel.claimTasksDueForReminder as jest.Mock).mockResolvedValue([]);
+      (taskModel.claimOverdueTasksForEscalation as jest.Mock).mockResolvedValue([]);
+
+      const result = await runDueDateChecks();
+
+      expect(result).toEqual({ reminders: 0, escalations: 0 });
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+});
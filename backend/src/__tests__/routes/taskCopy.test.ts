@@ -0,0 +1,280 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/taskPhoto.model');
+jest.mock('../../models/comment.model');
+jest.mock('../../models/commentAttachment.model');
+jest.mock('../../models/product.model');
+jest.mock('../../models/taskChecklist.model');
+jest.mock('../../models/taskRelation.model');
+jest.mock('../../models/taskMove.model');
+jest.mock('../../models/mention.model');
+jest.mock('../../models/taskHistory.model');
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/slaRule.model');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/storageTracking.service');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+
+import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as taskModel from '../../models/task.model';
+import * as taskPhotoModel from '../../models/taskPhoto.model';
+import * as commentModel from '../../models/comment.model';
+import * as commentAttachmentModel from '../../models/commentAttachment.model';
+import * as productModel from '../../models/product.model';
+import * as taskChecklistModel from '../../models/taskChecklist.model';
+import * as taskRelationModel from '../../models/taskRelation.model';
+import * as taskMoveModel from '../../models/taskMove.model';
+import * as taskHistoryModel from '../../models/taskHistory.model';
+import * as workflowModel from '../../models/workflow.model';
+import * as slaRuleModel from '../../models/slaRule.model';
+import * as storageService from '../../services/storage.service';
+import * as storageTracking from '../../services/storageTracking.service';
+import { publishEvent } from '../../services/realtime.service';
+
+const OTHER_PROJECT = '33333333-3333-4333-8333-333333333333';
+
+const task = {
+  id: 't-1',
+  project_id: 'p-1',
+  task_number: 7,
+  title: 'Fix outlet',
+  description: 'Kitchen, left of the sink',
+  status: 'completed',
+  priority: 'high',
+  trade: 'electrical',
+  blueprint_id: 'bp-1',
+  location_x: 0.4,
+  location_y: 0.6,
+  annotation_x: 0.1,
+  annotation_y: 0.2,
+  annotation_width: 0.3,
+  annotation_height: 0.1,
+  annotation_page: 2,
+  annotation_markers: null,
+  assigned_to_user: 'user-2',
+  assigned_to_contractor_email: 'sparky@example.com',
+  custom_fields: { room: 'Kitchen' },
+};
+
+const photo = {
+  id: 'ph-1',
+  task_id: 't-1',
+  file_url: 'photos/org-1/t-1/ph-1/outlet.jpg',
+  thumbnail_url: 'photos/org-1/t-1/ph-1/thumb_outlet.jpg',
+  file_size_bytes: 1000,
+  caption: 'Before',
+  uploaded_by: 'user-2',
+};
+
+describe('Task Copy Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (projectMemberModel.findMember as jest.Mock).mockResolvedValue({ role: 'member' });
+    (projectModel.findProjectById as jest.Mock).mockImplementation(async (id: string) => ({ id, name: `Project ${id}` }));
+    (taskModel.findTaskById as jest.Mock).mockResolvedValue(task);
+    (taskModel.createTask as jest.Mock).mockImplementation(async (data: { projectId: string }) => ({
+      id: 't-2', project_id: data.projectId, task_number: 12, status: 'open',
+    }));
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+    (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue([]);
+    (taskPhotoModel.findPhotosByTask as jest.Mock).mockResolvedValue([photo]);
+    (commentModel.findVisibleCommentsByTasks as jest.Mock).mockResolvedValue([{ id: 'c-1' }]);
+    (commentModel.copyComments as jest.Mock).mockResolvedValue(new Map([['c-1', 'c-9']]));
+    (commentAttachmentModel.findAttachmentsByComments as jest.Mock).mockResolvedValue([
+      {
+        id: 'a-1', comment_id: 'c-1', file_url: 'comment-attachments/org-1/t-1/a-1/spec.pdf',
+        thumbnail_url: null, file_size_bytes: 500,
+      },
+    ]);
+    (productModel.findProductsByTask as jest.Mock).mockResolvedValue([{ product_id: 'prod-1' }]);
+    (taskChecklistModel.findItemsByTask as jest.Mock).mockResolvedValue([
+      { text: 'Test circuit', is_required: true, checked_at: new Date() },
+    ]);
+    (storageTracking.checkStorageLimit as jest.Mock).mockResolvedValue({ allowed: true, usedBytes: 0, limitBytes: 10000 });
+    (storageService.buildS3Key as jest.Mock).mockImplementation(
+      (type: string, org: string, parent: string, resource: string, name: string) => `${type}/${org}/${parent}/${resource}/${name}`,
+    );
+    (storageService.readFile as jest.Mock).mockResolvedValue(Buffer.from('file'));
+  });
+
+  describe('POST /api/v1/projects/:projectId/tasks/:taskId/duplicate', () => {
+    it('should copy the task with its products, checklist, comments and files', async () => {
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/duplicate').send({});
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.task.id).toBe('t-2');
+      expect(taskModel.createTask).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'p-1',
+        title: 'Fix outlet',
+        status: 'open',
+        blueprintId: 'bp-1',
+        annotationPage: 2,
+        assignedToUser: 'user-2',
+        customFields: { room: 'Kitchen' },
+      }));
+      expect(productModel.addProductToTask).toHaveBeenCalledWith('t-2', 'prod-1', 'user-1');
+      expect(taskChecklistModel.addItems).toHaveBeenCalledWith(
+        't-2',
+        [{ text: 'Test circuit', isRequired: true }],
+        { templateId: null, createdBy: 'user-1' },
+      );
+      expect(commentModel.copyComments).toHaveBeenCalledWith('t-1', 't-2');
+
+      const photoKey = (taskPhotoModel.createTaskPhoto as jest.Mock).mock.calls[0][0];
+      expect(photoKey.fileUrl).toMatch(/^photos\/org-1\/t-2\/[^/]+\/outlet\.jpg$/);
+      expect(photoKey.thumbnailUrl).toBe(photoKey.fileUrl.replace('outlet.jpg', 'thumb_outlet.jpg'));
+      expect(storageService.writeFile).toHaveBeenCalledWith(photoKey.fileUrl, expect.any(Buffer), 'image/jpeg');
+      expect(commentAttachmentModel.createCopiedAttachment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'a-1' }),
+        expect.objectContaining({ taskId: 't-2', commentId: 'c-9' }),
+      );
+      expect(storageTracking.checkStorageLimit).toHaveBeenCalledWith('org-1', 1500);
+      expect(storageTracking.incrementStorageUsed).toHaveBeenCalledWith('org-1', 1500);
+    });
+
+    it('should drop the blueprint and a non-member assignee when copying into another project', async () => {
+      (projectMemberModel.findMember as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/duplicate').send({ projectId: OTHER_PROJECT });
+
+      expect(res.status).toBe(201);
+      const data = (taskModel.createTask as jest.Mock).mock.calls[0][0];
+      expect(data.projectId).toBe(OTHER_PROJECT);
+      expect(data.blueprintId).toBeUndefined();
+      expect(data.annotationX).toBeUndefined();
+      expect(data.locationX).toBeUndefined();
+      expect(data.assignedToUser).toBeUndefined();
+      expect(data.assignedToContractorEmail).toBe('sparky@example.com');
+      expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'task.created', projectId: OTHER_PROJECT }));
+    });
+
+    it('should only count files that could be copied', async () => {
+      (storageService.readFile as jest.Mock).mockImplementation(async (key: string) => {
+        if (key === photo.file_url) throw new Error('not found');
+        return Buffer.from('file');
+      });
+
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/duplicate').send({});
+
+      expect(res.status).toBe(201);
+      expect(taskPhotoModel.createTaskPhoto).not.toHaveBeenCalled();
+      expect(storageTracking.incrementStorageUsed).toHaveBeenCalledWith('org-1', 500);
+    });
+
+    it('should refuse when the copied files exceed the storage limit', async () => {
+      (storageTracking.checkStorageLimit as jest.Mock).mockResolvedValue({ allowed: false, usedBytes: 9900, limitBytes: 10000 });
+
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/duplicate').send({});
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('STORAGE_LIMIT_EXCEEDED');
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a target project the caller can only view', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockImplementation(async (projectId: string) => (
+        { role: projectId === OTHER_PROJECT ? 'viewer' : 'manager' }
+      ));
+
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/duplicate').send({ projectId: OTHER_PROJECT });
+
+      expect(res.status).toBe(403);
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/tasks/:taskId/move', () => {
+    it('should move the task under a new number and record where it came from', async () => {
+      (taskModel.moveTaskToProject as jest.Mock).mockResolvedValue({
+        ...task, project_id: OTHER_PROJECT, task_number: 3, blueprint_id: null, annotation_x: null,
+      });
+
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/move').send({ projectId: OTHER_PROJECT });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.task.task_number).toBe(3);
+      expect(taskModel.moveTaskToProject).toHaveBeenCalledWith('t-1', OTHER_PROJECT, 'user-2');
+      expect(taskRelationModel.deleteRelationsOfTask).toHaveBeenCalledWith('t-1');
+      expect(taskMoveModel.recordMove).toHaveBeenCalledWith({
+        taskId: 't-1',
+        fromProjectId: 'p-1',
+        fromTaskNumber: 7,
+        toProjectId: OTHER_PROJECT,
+        toTaskNumber: 3,
+        movedBy: 'user-1',
+      });
+      const changes = (taskHistoryModel.recordChanges as jest.Mock).mock.calls[0][1];
+      expect(changes[0]).toEqual({
+        field: 'project',
+        oldValue: { projectId: 'p-1', projectName: 'Project p-1', taskNumber: 7 },
+        newValue: { projectId: OTHER_PROJECT, projectName: `Project ${OTHER_PROJECT}`, taskNumber: 3 },
+      });
+      expect(changes.map((c: { field: string }) => c.field)).toEqual(
+        expect.arrayContaining(['blueprint_id', 'annotation']),
+      );
+      expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'task.deleted', projectId: 'p-1' }));
+      expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'task.created', projectId: OTHER_PROJECT }));
+    });
+
+    it('should require the manager role in the source project', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/move').send({ projectId: OTHER_PROJECT });
+
+      expect(res.status).toBe(403);
+      expect(taskModel.moveTaskToProject).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown target project', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockImplementation(async (projectId: string) => (
+        projectId === OTHER_PROJECT ? null : { role: 'manager' }
+      ));
+
+      const res = await request(app).post('/api/v1/projects/p-1/tasks/t-1/move').send({ projectId: OTHER_PROJECT });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.projectId).toBe('Project not found');
+    });
+  });
+
+  describe('GET /api/v1/projects/:projectId/tasks/:taskId', () => {
+    it('should point the old project\'s link at the moved task', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({ ...task, project_id: OTHER_PROJECT, task_number: 3 });
+      (taskMoveModel.findMoveFromProject as jest.Mock).mockResolvedValue({ id: 'm-1', from_task_number: 7 });
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks/t-1');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe('TASK_MOVED');
+      expect(res.body.error.details).toEqual({ projectId: OTHER_PROJECT, taskId: 't-1', taskNumber: 3 });
+    });
+  });
+});
@@ -23,6 +23,7 @@ jest.mock('../../middleware/authenticate', () => ({
 }));
 
 jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
 jest.mock('../../models/task.model');
 jest.mock('../../models/taskPhoto.model');
 jest.mock('../../services/storage.service');
@@ -31,6 +32,7 @@ jest.mock('../../services/thumbnail.service');
 jest.mock('../../services/audit.service');
 
 import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
 import * as taskModel from '../../models/task.model';
 import * as taskPhotoModel from '../../models/taskPhoto.model';
 import * as storageService from '../../services/storage.service';
@@ -40,6 +42,7 @@ import * as thumbnailService from '../../services/thumbnail.service';
 describe('Task Photo Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
     (projectModel.findProjectById as jest.Mock).mockResolvedValue({
       id: 'p-1', organization_id: 'org-1', name: 'Test Project',
     });
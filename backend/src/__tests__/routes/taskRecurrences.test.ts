@@ -0,0 +1,213 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/taskRecurrence.model');
+jest.mock('../../models/taskTemplate.model');
+jest.mock('../../models/taskChecklist.model');
+jest.mock('../../models/product.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/slaRule.model');
+jest.mock('../../models/taskHistory.model');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+jest.mock('../../services/notification.service');
+
+import * as taskRecurrenceModel from '../../models/taskRecurrence.model';
+import * as taskTemplateModel from '../../models/taskTemplate.model';
+import * as taskChecklistModel from '../../models/taskChecklist.model';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as taskModel from '../../models/task.model';
+import * as workflowModel from '../../models/workflow.model';
+import * as slaRuleModel from '../../models/slaRule.model';
+import * as notificationService from '../../services/notification.service';
+import {
+  parseRule, nextOccurrence, upcomingOccurrences, runRecurrences, RecurrenceRule,
+} from '../../services/taskRecurrence.service';
+
+const TEMPLATE_ID = '11111111-1111-4111-8111-111111111111';
+const USER_ID = '22222222-2222-4222-8222-222222222222';
+
+function rule(text: string): RecurrenceRule {
+  const parsed = parseRule(text);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.rule;
+}
+
+describe('Task Recurrences', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (projectMemberModel.findMember as jest.Mock).mockResolvedValue({ role: 'member' });
+    (taskTemplateModel.findTemplateById as jest.Mock).mockResolvedValue({
+      id: TEMPLATE_ID, title: 'Fire door inspection', description: null, trade: 'Fire protection', priority: 'high',
+      custom_fields: {}, checklist_items: [{ text: 'Door closes fully', isRequired: true }], products: [],
+    });
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+    (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('recurrence rules', () => {
+    it('should find the next weekly occurrence on the listed weekdays', () => {
+      const weekly = rule('FREQ=WEEKLY;BYDAY=MO,TH');
+
+      expect(nextOccurrence(weekly, '2025-03-03', '2025-03-03')).toBe('2025-03-03');
+      expect(nextOccurrence(weekly, '2025-03-03', '2025-03-04')).toBe('2025-03-06');
+      expect(nextOccurrence(weekly, '2025-03-03', '2025-03-07')).toBe('2025-03-10');
+    });
+
+    it('should count intervals from the start date', () => {
+      expect(nextOccurrence(rule('FREQ=WEEKLY;INTERVAL=2'), '2025-03-03', '2025-03-04')).toBe('2025-03-17');
+      expect(nextOccurrence(rule('FREQ=MONTHLY;INTERVAL=2'), '2025-01-31', '2025-02-01')).toBe('2025-03-31');
+      expect(nextOccurrence(rule('FREQ=MONTHLY;INTERVAL=2'), '2025-01-31', '2025-04-01')).toBe('2025-05-31');
+    });
+
+    it('should support numbered weekdays and days from the end of the month', () => {
+      expect(nextOccurrence(rule('FREQ=MONTHLY;BYDAY=1MO'), '2025-03-01', '2025-03-04')).toBe('2025-04-07');
+      expect(nextOccurrence(rule('FREQ=MONTHLY;BYDAY=-1FR'), '2025-03-01', '2025-03-01')).toBe('2025-03-28');
+      expect(nextOccurrence(rule('FREQ=MONTHLY;BYMONTHDAY=-1'), '2025-02-01', '2025-02-01')).toBe('2025-02-28');
+      expect(nextOccurrence(rule('FREQ=YEARLY'), '2024-02-29', '2024-03-01')).toBe('2028-02-29');
+    });
+
+    it('should end at UNTIL and COUNT', () => {
+      expect(nextOccurrence(rule('FREQ=WEEKLY;UNTIL=20250310'), '2025-03-03', '2025-03-11')).toBeNull();
+      expect(upcomingOccurrences(rule('FREQ=DAILY;COUNT=2'), '2025-03-03', '2025-03-03', 5)).toEqual(['2025-03-03', '2025-03-04']);
+    });
+
+    it('should explain rules it cannot use', () => {
+      expect(parseRule('FREQ=HOURLY')).toEqual({ error: 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY' });
+      expect(parseRule('FREQ=WEEKLY;BYDAY=1MO')).toHaveProperty('error');
+      expect(parseRule('FREQ=DAILY;BYSETPOS=1')).toEqual({ error: 'BYSETPOS is not supported' });
+      expect(parseRule('RRULE:FREQ=MONTHLY;INTERVAL=2')).toHaveProperty('rule');
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/recurrences', () => {
+    it('should create a recurrence with its first occurrence', async () => {
+      (taskRecurrenceModel.createRecurrence as jest.Mock).mockResolvedValue({
+        id: 'rec-1', project_id: 'p-1', template_id: TEMPLATE_ID, rule: 'FREQ=WEEKLY;BYDAY=MO',
+        starts_on: '2030-01-07', next_occurrence_on: '2030-01-07', is_active: true, occurrence_count: 0,
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/recurrences')
+        .send({ templateId: TEMPLATE_ID, rule: 'FREQ=WEEKLY;BYDAY=MO', startsOn: '2030-01-01', assignedToUser: USER_ID });
+
+      expect(res.status).toBe(201);
+      expect(taskRecurrenceModel.createRecurrence).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'p-1',
+        nextOccurrenceOn: '2030-01-07',
+        assignedToUser: USER_ID,
+        createdBy: 'user-1',
+      }));
+      expect(res.body.data.recurrence.upcoming_occurrences).toEqual(['2030-01-07', '2030-01-14', '2030-01-21']);
+    });
+
+    it('should reject rules it cannot use', async () => {
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/recurrences')
+        .send({ templateId: TEMPLATE_ID, rule: 'FREQ=SECONDLY', startsOn: '2030-01-01' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.rule).toBeDefined();
+      expect(taskRecurrenceModel.createRecurrence).not.toHaveBeenCalled();
+    });
+
+    it('should leave recurrences to project managers', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/recurrences')
+        .send({ templateId: TEMPLATE_ID, rule: 'FREQ=DAILY', startsOn: '2030-01-01' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('runRecurrences', () => {
+    const now = new Date('2025-03-03T05:00:00Z');
+    const due = {
+      id: 'rec-1', project_id: 'p-1', organization_id: 'org-1', template_id: TEMPLATE_ID,
+      rule: 'FREQ=WEEKLY;BYDAY=MO', starts_on: '2025-01-06', next_occurrence_on: '2025-03-03',
+      assigned_to_user: USER_ID, skip_if_open: true, is_active: true, occurrence_count: 8,
+      last_task_id: 't-8', last_task_category: 'verified', created_by: 'user-1',
+    };
+
+    beforeEach(() => {
+      (taskRecurrenceModel.findDueRecurrences as jest.Mock).mockResolvedValue([due]);
+      (taskRecurrenceModel.claimOccurrence as jest.Mock).mockResolvedValue(true);
+      (taskModel.createTask as jest.Mock).mockResolvedValue({
+        id: 't-9', project_id: 'p-1', task_number: 9, title: 'Fire door inspection', assigned_to_user: USER_ID,
+      });
+    });
+
+    it('should create the task from the template and schedule the next occurrence', async () => {
+      const created = await runRecurrences(now);
+
+      expect(created).toBe(1);
+      expect(taskRecurrenceModel.claimOccurrence).toHaveBeenCalledWith('rec-1', '2025-03-03', '2025-03-10');
+      expect(taskModel.createTask).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'p-1',
+        title: 'Fire door inspection',
+        priority: 'high',
+        assignedToUser: USER_ID,
+        createdBy: 'user-1',
+      }));
+      expect(taskChecklistModel.addItems).toHaveBeenCalledWith(
+        't-9', [{ text: 'Door closes fully', isRequired: true }], { templateId: TEMPLATE_ID, createdBy: 'user-1' },
+      );
+      expect(taskRecurrenceModel.setLastTask).toHaveBeenCalledWith('rec-1', 't-9');
+      expect(notificationService.notifyTaskAssigned).toHaveBeenCalled();
+    });
+
+    it('should skip the occurrence while the previous task is still open', async () => {
+      (taskRecurrenceModel.findDueRecurrences as jest.Mock).mockResolvedValue([{ ...due, last_task_category: 'in_progress' }]);
+
+      const created = await runRecurrences(now);
+
+      expect(created).toBe(0);
+      expect(taskRecurrenceModel.claimOccurrence).toHaveBeenCalledWith('rec-1', '2025-03-03', '2025-03-10');
+      expect(taskRecurrenceModel.markSkipped).toHaveBeenCalledWith('rec-1', '2025-03-03');
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should leave the assignment out when the assignee has left the project', async () => {
+      (projectMemberModel.findMember as jest.Mock).mockResolvedValue(null);
+
+      await runRecurrences(now);
+
+      expect(taskModel.createTask).toHaveBeenCalledWith(expect.objectContaining({ assignedToUser: undefined }));
+    });
+
+    it('should not create the task twice when another run claimed the occurrence', async () => {
+      (taskRecurrenceModel.claimOccurrence as jest.Mock).mockResolvedValue(false);
+
+      const created = await runRecurrences(now);
+
+      expect(created).toBe(0);
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+    });
+  });
+});
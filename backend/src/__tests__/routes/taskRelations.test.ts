@@ -0,0 +1,159 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'project_manager',
+      email: 'pm@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/taskRelation.model');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as taskModel from '../../models/task.model';
+import * as taskRelationModel from '../../models/taskRelation.model';
+import { publishEvent } from '../../services/realtime.service';
+
+const ELECTRICAL = '11111111-1111-4111-8111-111111111111';
+const DRYWALL = '22222222-2222-4222-8222-222222222222';
+
+const tasks: Record<string, { id: string; project_id: string; task_number: number }> = {
+  [ELECTRICAL]: { id: ELECTRICAL, project_id: 'p-1', task_number: 1 },
+  [DRYWALL]: { id: DRYWALL, project_id: 'p-1', task_number: 2 },
+};
+
+describe('Task Relation Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+    (taskModel.findTaskById as jest.Mock).mockImplementation(async (id: string) => tasks[id] || null);
+    (taskRelationModel.findExistingRelation as jest.Mock).mockResolvedValue(null);
+    (taskRelationModel.wouldCreateBlockCycle as jest.Mock).mockResolvedValue(false);
+  });
+
+  describe('GET /api/v1/projects/:projectId/tasks/:taskId/relations', () => {
+    it('should name each relation from the task\'s point of view', async () => {
+      (taskRelationModel.findRelationsByTask as jest.Mock).mockResolvedValue([
+        { id: 'r-1', relation_type: 'blocks', direction: 'incoming', related_task_id: ELECTRICAL },
+        { id: 'r-2', relation_type: 'duplicates', direction: 'outgoing', related_task_id: 't-9' },
+        { id: 'r-3', relation_type: 'relates_to', direction: 'incoming', related_task_id: 't-8' },
+      ]);
+
+      const res = await request(app).get(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.relations.map((r: { type: string }) => r.type)).toEqual([
+        'blocked_by', 'duplicates', 'relates_to',
+      ]);
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/tasks/:taskId/relations', () => {
+    it('should store "blocked by" as the other task blocking this one', async () => {
+      (taskRelationModel.createRelation as jest.Mock).mockResolvedValue({
+        id: 'r-1', project_id: 'p-1', source_task_id: ELECTRICAL, target_task_id: DRYWALL, relation_type: 'blocks',
+      });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations`)
+        .send({ type: 'blocked_by', taskId: ELECTRICAL });
+
+      expect(res.status).toBe(201);
+      expect(taskRelationModel.wouldCreateBlockCycle).toHaveBeenCalledWith(ELECTRICAL, DRYWALL);
+      expect(taskRelationModel.createRelation).toHaveBeenCalledWith({
+        projectId: 'p-1',
+        sourceTaskId: ELECTRICAL,
+        targetTaskId: DRYWALL,
+        relationType: 'blocks',
+        createdBy: 'user-1',
+      });
+      // Both tasks show the relation
+      expect(publishEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject links that would make tasks block each other', async () => {
+      (taskRelationModel.wouldCreateBlockCycle as jest.Mock).mockResolvedValue(true);
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations`)
+        .send({ type: 'blocks', taskId: ELECTRICAL });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('RELATION_CYCLE');
+      expect(taskRelationModel.createRelation).not.toHaveBeenCalled();
+    });
+
+    it('should reject a relation that already exists', async () => {
+      (taskRelationModel.findExistingRelation as jest.Mock).mockResolvedValue({ id: 'r-1' });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations`)
+        .send({ type: 'relates_to', taskId: ELECTRICAL });
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should reject tasks from other projects and the task itself', async () => {
+      const self = await request(app)
+        .post(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations`)
+        .send({ type: 'relates_to', taskId: DRYWALL });
+      const unknown = await request(app)
+        .post(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations`)
+        .send({ type: 'relates_to', taskId: '33333333-3333-4333-8333-333333333333' });
+
+      expect(self.status).toBe(400);
+      expect(unknown.status).toBe(400);
+      expect(taskRelationModel.createRelation).not.toHaveBeenCalled();
+    });
+
+    it('should not let viewers add relations', async () => {
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'viewer' });
+
+      const res = await request(app)
+        .post(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations`)
+        .send({ type: 'relates_to', taskId: ELECTRICAL });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('DELETE /api/v1/projects/:projectId/tasks/:taskId/relations/:relationId', () => {
+    it('should remove a relation from either end', async () => {
+      (taskRelationModel.deleteRelation as jest.Mock).mockResolvedValue({
+        id: 'r-1', project_id: 'p-1', source_task_id: ELECTRICAL, target_task_id: DRYWALL, relation_type: 'blocks',
+      });
+
+      const res = await request(app).delete(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations/r-1`);
+
+      expect(res.status).toBe(200);
+      expect(taskRelationModel.deleteRelation).toHaveBeenCalledWith('r-1', DRYWALL);
+    });
+
+    it('should return 404 for an unknown relation', async () => {
+      (taskRelationModel.deleteRelation as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).delete(`/api/v1/projects/p-1/tasks/${DRYWALL}/relations/r-9`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
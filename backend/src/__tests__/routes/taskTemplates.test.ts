@@ -0,0 +1,206 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+let mockRole = 'org_admin';
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: mockRole,
+      email: 'admin@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/taskTemplate.model');
+jest.mock('../../models/taskChecklist.model');
+jest.mock('../../models/customField.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/task.model');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/realtime.service');
+
+import * as taskTemplateModel from '../../models/taskTemplate.model';
+import * as taskChecklistModel from '../../models/taskChecklist.model';
+import * as customFieldModel from '../../models/customField.model';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as taskModel from '../../models/task.model';
+import { publishEvent } from '../../services/realtime.service';
+
+const TEMPLATE_ID = '11111111-1111-4111-8111-111111111111';
+
+describe('Task Templates and Checklists', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRole = 'org_admin';
+    (customFieldModel.findByOrganizationAndEntity as jest.Mock).mockResolvedValue([]);
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'member' });
+    (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+      id: 't-1', project_id: 'p-1', assigned_to_user: 'user-2', created_by: 'user-3',
+    });
+  });
+
+  describe('POST /api/v1/admin/task-templates', () => {
+    it('should create a template with trimmed checklist items', async () => {
+      (taskTemplateModel.createTemplate as jest.Mock).mockResolvedValue({ id: 'tpl-1', name: 'Fire sealing' });
+
+      const res = await request(app)
+        .post('/api/v1/admin/task-templates')
+        .send({
+          name: 'Fire sealing',
+          title: 'Missing fire sealing',
+          trade: 'Fire protection',
+          checklistItems: [{ text: ' Photo of penetration ', isRequired: true }, { text: 'Label applied' }],
+        });
+
+      expect(res.status).toBe(201);
+      expect(taskTemplateModel.createTemplate).toHaveBeenCalledWith(expect.objectContaining({
+        organizationId: 'org-1',
+        trade: 'Fire protection',
+        checklistItems: [
+          { text: 'Photo of penetration', isRequired: true },
+          { text: 'Label applied', isRequired: false },
+        ],
+      }));
+    });
+
+    it('should reject blank checklist items', async () => {
+      const res = await request(app)
+        .post('/api/v1/admin/task-templates')
+        .send({ name: 'Fire sealing', title: 'Missing fire sealing', checklistItems: [{ text: '  ' }] });
+
+      expect(res.status).toBe(400);
+      expect(taskTemplateModel.createTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should leave required custom fields to the task', async () => {
+      (customFieldModel.findByOrganizationAndEntity as jest.Mock).mockResolvedValue([
+        { field_key: 'floor', label: 'Floor', field_type: 'number', is_required: true },
+        { field_key: 'room', label: 'Room', field_type: 'text', is_required: true },
+      ]);
+      (taskTemplateModel.createTemplate as jest.Mock).mockResolvedValue({ id: 'tpl-1', name: 'Fire sealing' });
+
+      const ok = await request(app)
+        .post('/api/v1/admin/task-templates')
+        .send({ name: 'Fire sealing', title: 'Missing fire sealing', customFields: { floor: '3' } });
+      const invalid = await request(app)
+        .post('/api/v1/admin/task-templates')
+        .send({ name: 'Fire sealing', title: 'Missing fire sealing', customFields: { floor: 'third' } });
+
+      expect(ok.status).toBe(201);
+      expect(taskTemplateModel.createTemplate).toHaveBeenCalledWith(expect.objectContaining({
+        customFields: { floor: 3 },
+      }));
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should be restricted to admins', async () => {
+      mockRole = 'project_manager';
+
+      const res = await request(app)
+        .post('/api/v1/admin/task-templates')
+        .send({ name: 'Fire sealing', title: 'Missing fire sealing' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/v1/task-templates', () => {
+    it('should list templates for any user, optionally by trade', async () => {
+      mockRole = 'field_user';
+      (taskTemplateModel.findTemplatesByOrganization as jest.Mock).mockResolvedValue([{ id: 'tpl-1' }]);
+
+      const res = await request(app).get('/api/v1/task-templates?trade=Electrical');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.templates).toHaveLength(1);
+      expect(taskTemplateModel.findTemplatesByOrganization).toHaveBeenCalledWith('org-1', 'Electrical');
+    });
+  });
+
+  describe('POST /api/v1/projects/:projectId/tasks/:taskId/checklist', () => {
+    it('should attach a template\'s checklist', async () => {
+      const items = [{ text: 'Photo of penetration', isRequired: true }];
+      (taskTemplateModel.findTemplateById as jest.Mock).mockResolvedValue({ id: TEMPLATE_ID, checklist_items: items });
+      (taskChecklistModel.addItems as jest.Mock).mockResolvedValue([{ id: 'ci-1' }]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/t-1/checklist')
+        .send({ templateId: TEMPLATE_ID });
+
+      expect(res.status).toBe(201);
+      expect(taskChecklistModel.addItems).toHaveBeenCalledWith('t-1', items, { templateId: TEMPLATE_ID, createdBy: 'user-1' });
+      expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'task.updated', projectId: 'p-1' }));
+    });
+
+    it('should add a single item', async () => {
+      (taskChecklistModel.addItems as jest.Mock).mockResolvedValue([{ id: 'ci-1' }]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/t-1/checklist')
+        .send({ text: 'Check drywall seams' });
+
+      expect(res.status).toBe(201);
+      expect(taskChecklistModel.addItems).toHaveBeenCalledWith(
+        't-1', [{ text: 'Check drywall seams', isRequired: false }], { templateId: null, createdBy: 'user-1' },
+      );
+    });
+  });
+
+  describe('PATCH /api/v1/projects/:projectId/tasks/:taskId/checklist/:itemId', () => {
+    it('should record who ticked an item', async () => {
+      (taskChecklistModel.setItemChecked as jest.Mock).mockResolvedValue({ id: 'ci-1', text: 'Photo' });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1/checklist/ci-1')
+        .send({ checked: true });
+
+      expect(res.status).toBe(200);
+      expect(taskChecklistModel.setItemChecked).toHaveBeenCalledWith('ci-1', 't-1', 'user-1');
+    });
+
+    it('should not let field users tick items on other people\'s tasks', async () => {
+      mockRole = 'field_user';
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1/checklist/ci-1')
+        .send({ checked: true });
+
+      expect(res.status).toBe(403);
+      expect(taskChecklistModel.setItemChecked).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/v1/projects/:projectId/tasks/:taskId/checklist/:itemId', () => {
+    it('should leave required items to project managers', async () => {
+      mockRole = 'project_manager';
+      (taskChecklistModel.findItemById as jest.Mock).mockResolvedValue({ id: 'ci-1', is_required: true });
+
+      const res = await request(app).delete('/api/v1/projects/p-1/tasks/t-1/checklist/ci-1');
+
+      expect(res.status).toBe(403);
+      expect(taskChecklistModel.deleteItem).not.toHaveBeenCalled();
+    });
+
+    it('should let members remove optional items', async () => {
+      mockRole = 'project_manager';
+      (taskChecklistModel.findItemById as jest.Mock).mockResolvedValue({ id: 'ci-1', is_required: false });
+
+      const res = await request(app).delete('/api/v1/projects/p-1/tasks/t-1/checklist/ci-1');
+
+      expect(res.status).toBe(200);
+      expect(taskChecklistModel.deleteItem).toHaveBeenCalledWith('ci-1', 't-1');
+    });
+  });
+});
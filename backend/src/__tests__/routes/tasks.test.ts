@@ -1,5 +1,7 @@
 import request from 'supertest';
+import ExcelJS from 'exceljs';
 import app from '../../app';
+import pool from '../../config/database';
 
 jest.mock('express-rate-limit', () => {
   return () => (_req: unknown, _res: unknown, next: () => void) => next();
@@ -23,15 +25,52 @@ jest.mock('../../middleware/authenticate', () => ({
 }));
 
 jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
 jest.mock('../../models/task.model');
+jest.mock('../../models/idempotencyKey.model');
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/taskRelation.model');
+jest.mock('../../models/taskTemplate.model');
+jest.mock('../../models/taskChecklist.model');
+jest.mock('../../models/product.model');
+jest.mock('../../models/slaRule.model');
+jest.mock('../../models/taskHistory.model');
+jest.mock('../../models/user.model');
+jest.mock('../../models/blueprint.model');
+jest.mock('../../models/customField.model');
+jest.mock('../../models/savedView.model');
 jest.mock('../../services/audit.service');
+jest.mock('../../services/email.service');
+jest.mock('../../services/realtime.service');
+jest.mock('../../services/notification.service');
 
 import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
 import * as taskModel from '../../models/task.model';
+import * as idempotencyKeyModel from '../../models/idempotencyKey.model';
+import * as workflowModel from '../../models/workflow.model';
+import * as taskRelationModel from '../../models/taskRelation.model';
+import * as taskTemplateModel from '../../models/taskTemplate.model';
+import * as taskChecklistModel from '../../models/taskChecklist.model';
+import * as productModel from '../../models/product.model';
+import * as slaRuleModel from '../../models/slaRule.model';
+import * as taskHistoryModel from '../../models/taskHistory.model';
+import * as userModel from '../../models/user.model';
+import * as blueprintModel from '../../models/blueprint.model';
+import * as customFieldModel from '../../models/customField.model';
+import * as savedViewModel from '../../models/savedView.model';
+import { publishEvent } from '../../services/realtime.service';
+import * as notificationService from '../../services/notification.service';
 
 describe('Task Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (taskRelationModel.findTasksUnblockedBy as jest.Mock).mockResolvedValue([]);
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (projectMemberModel.findMember as jest.Mock).mockResolvedValue({ role: 'member' });
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+    (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue([]);
+    (customFieldModel.findByOrganizationAndEntity as jest.Mock).mockResolvedValue([]);
     (projectModel.findProjectById as jest.Mock).mockResolvedValue({
       id: 'p-1', organization_id: 'org-1', name: 'Test Project',
     });
@@ -50,8 +89,82 @@ describe('Task Routes', () => {
       expect(res.body.data.tasks).toHaveLength(1);
     });
 
+    it('should pass the overdue filter to the model', async () => {
+      (taskModel.findTasksByProject as jest.Mock).mockResolvedValue({ tasks: [], total: 0 });
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks?overdue=true&sortBy=due');
+
+      expect(res.status).toBe(200);
+      expect(taskModel.findTasksByProject).toHaveBeenCalledWith(
+        'p-1', 'org-1', expect.objectContaining({ overdue: true, sortBy: 'due' }), expect.anything(),
+      );
+    });
+
+    it('should pass the blocked filter to the model', async () => {
+      (taskModel.findTasksByProject as jest.Mock).mockResolvedValue({ tasks: [], total: 0 });
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks?blocked=true');
+
+      expect(res.status).toBe(200);
+      expect(taskModel.findTasksByProject).toHaveBeenCalledWith(
+        'p-1', 'org-1', expect.objectContaining({ blocked: true }), expect.anything(),
+      );
+    });
+
+    it('should parse multi-value, date range and custom field filters', async () => {
+      (taskModel.findTasksByProject as jest.Mock).mockResolvedValue({ tasks: [], total: 0 });
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks')
+        .query('status=open,in_progress&trade=Electrical&trade=Plumbing&assignee=me&hasPhotos=false'
+          + '&createdFrom=2025-01-01&createdTo=2025-01-31&cf.floor=gte:3&cf.room=Kitchen');
+
+      expect(res.status).toBe(200);
+      expect(taskModel.findTasksByProject).toHaveBeenCalledWith('p-1', 'org-1', expect.objectContaining({
+        status: ['open', 'in_progress'],
+        trade: ['Electrical', 'Plumbing'],
+        assignedToUser: ['user-1'],
+        hasPhotos: false,
+        createdFrom: '2025-01-01',
+        createdTo: '2025-01-31',
+        customFields: [{ key: 'floor', op: 'gte', value: '3' }, { key: 'room', op: 'eq', value: 'Kitchen' }],
+      }), expect.anything());
+    });
+
+    it('should reject malformed filters', async () => {
+      const res = await request(app).get('/api/v1/projects/p-1/tasks?createdFrom=last-week&priority=urgent');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details).toHaveProperty('createdFrom');
+      expect(taskModel.findTasksByProject).not.toHaveBeenCalled();
+    });
+
+    it('should apply a saved view, refined by the query string', async () => {
+      const viewId = '22222222-2222-4222-8222-222222222222';
+      (savedViewModel.findVisibleView as jest.Mock).mockResolvedValue({
+        id: viewId, filters: { status: ['open'], trade: 'Electrical' },
+      });
+      (taskModel.findTasksByProject as jest.Mock).mockResolvedValue({ tasks: [], total: 0 });
+
+      const res = await request(app).get(`/api/v1/projects/p-1/tasks?viewId=${viewId}&status=verified`);
+
+      expect(res.status).toBe(200);
+      expect(savedViewModel.findVisibleView).toHaveBeenCalledWith(viewId, 'p-1', 'user-1');
+      expect(taskModel.findTasksByProject).toHaveBeenCalledWith('p-1', 'org-1', expect.objectContaining({
+        status: ['verified'],
+        trade: ['Electrical'],
+      }), expect.anything());
+    });
+
+    it('should return 404 for a view the user cannot see', async () => {
+      (savedViewModel.findVisibleView as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks?viewId=22222222-2222-4222-8222-222222222222');
+
+      expect(res.status).toBe(404);
+    });
+
     it('should return 404 if project not found', async () => {
-      (projectModel.findProjectById as jest.Mock).mockResolvedValue(null);
+      (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue(null);
 
       const res = await request(app).get('/api/v1/projects/bad-id/tasks');
 
@@ -73,6 +186,95 @@ describe('Task Routes', () => {
       expect(res.body.data.task.title).toBe('New Task');
     });
 
+    it('should fill in and attach a task template', async () => {
+      (taskTemplateModel.findTemplateById as jest.Mock).mockResolvedValue({
+        id: 'tpl-1',
+        title: 'Missing fire sealing',
+        description: 'Missing fire sealing at penetration',
+        trade: 'Fire protection',
+        priority: 'high',
+        custom_fields: {},
+        checklist_items: [{ text: 'Photo of sealed penetration', isRequired: true }],
+        products: [{ id: 'prod-1', name: 'Fire sealant' }],
+      });
+      (taskModel.createTask as jest.Mock).mockResolvedValue({
+        id: 't-new', title: 'Missing fire sealing', status: 'open', project_id: 'p-1',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .send({ title: 'Missing fire sealing', templateId: '11111111-1111-4111-8111-111111111111' });
+
+      expect(res.status).toBe(201);
+      expect(taskModel.createTask).toHaveBeenCalledWith(expect.objectContaining({
+        description: 'Missing fire sealing at penetration',
+        trade: 'Fire protection',
+        priority: 'high',
+      }));
+      expect(taskChecklistModel.addItems).toHaveBeenCalledWith(
+        't-new',
+        [{ text: 'Photo of sealed penetration', isRequired: true }],
+        { templateId: 'tpl-1', createdBy: 'user-1' },
+      );
+      expect(productModel.addProductToTask).toHaveBeenCalledWith('t-new', 'prod-1', 'user-1');
+    });
+
+    it('should reject an unknown task template', async () => {
+      (taskTemplateModel.findTemplateById as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .send({ title: 'New Task', templateId: '11111111-1111-4111-8111-111111111111' });
+
+      expect(res.status).toBe(400);
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should publish a realtime event scoped to the project', async () => {
+      (taskModel.createTask as jest.Mock).mockResolvedValue({
+        id: 't-new', title: 'New Task', status: 'open', project_id: 'p-1',
+      });
+
+      await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .send({ title: 'New Task' });
+
+      expect(publishEvent).toHaveBeenCalledWith({
+        type: 'task.created',
+        organizationId: 'org-1',
+        projectId: 'p-1',
+        data: { taskId: 't-new' },
+      });
+    });
+
+    it('should default the due date from the SLA rules', async () => {
+      (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue([
+        { id: 'r-1', project_id: null, priority: 'high', trade: null, due_in_days: 3 },
+      ]);
+      (taskModel.createTask as jest.Mock).mockResolvedValue({ id: 't-new', title: 'New Task', status: 'open' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .send({ title: 'New Task', priority: 'high' });
+
+      expect(res.status).toBe(201);
+      expect((taskModel.createTask as jest.Mock).mock.calls[0][0].dueDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it('should keep an explicit due date', async () => {
+      (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue([
+        { id: 'r-1', project_id: null, priority: null, trade: null, due_in_days: 3 },
+      ]);
+      (taskModel.createTask as jest.Mock).mockResolvedValue({ id: 't-new', title: 'New Task', status: 'open' });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .send({ title: 'New Task', dueDate: '2025-06-30' });
+
+      expect(res.status).toBe(201);
+      expect(taskModel.createTask).toHaveBeenCalledWith(expect.objectContaining({ dueDate: '2025-06-30' }));
+    });
+
     it('should reject task without title', async () => {
       const res = await request(app)
         .post('/api/v1/projects/p-1/tasks')
@@ -80,6 +282,79 @@ describe('Task Routes', () => {
 
       expect(res.status).toBe(400);
     });
+
+    it('should store the response when an Idempotency-Key is sent', async () => {
+      (idempotencyKeyModel.reserveKey as jest.Mock).mockResolvedValue({ id: 'ik-1' });
+      (idempotencyKeyModel.saveResponse as jest.Mock).mockResolvedValue(undefined);
+      (taskModel.createTask as jest.Mock).mockResolvedValue({
+        id: 't-new', title: 'New Task', status: 'open', project_id: 'p-1',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .set('Idempotency-Key', 'offline-123')
+        .send({ title: 'New Task' });
+
+      expect(res.status).toBe(201);
+      expect(idempotencyKeyModel.saveResponse).toHaveBeenCalledWith(
+        'ik-1', 201, expect.objectContaining({ success: true }),
+      );
+    });
+
+    it('should release the Idempotency-Key when the request fails', async () => {
+      (idempotencyKeyModel.reserveKey as jest.Mock).mockResolvedValue({ id: 'ik-1' });
+      (idempotencyKeyModel.releaseKey as jest.Mock).mockResolvedValue(undefined);
+      (taskModel.createTask as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .set('Idempotency-Key', 'offline-123')
+        .send({ title: 'New Task' });
+
+      expect(res.status).toBe(500);
+      expect(idempotencyKeyModel.releaseKey).toHaveBeenCalledWith('ik-1');
+      expect(idempotencyKeyModel.saveResponse).not.toHaveBeenCalled();
+    });
+
+    it('should replay the stored response for a repeated Idempotency-Key', async () => {
+      (idempotencyKeyModel.reserveKey as jest.Mock).mockResolvedValue(null);
+      (idempotencyKeyModel.findKey as jest.Mock).mockResolvedValue({
+        id: 'ik-1',
+        request_method: 'POST',
+        request_path: '/api/v1/projects/p-1/tasks',
+        response_status: 201,
+        response_body: { success: true, data: { task: { id: 't-new' } } },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .set('Idempotency-Key', 'offline-123')
+        .send({ title: 'New Task' });
+
+      expect(res.status).toBe(201);
+      expect(res.headers['idempotent-replayed']).toBe('true');
+      expect(res.body.data.task.id).toBe('t-new');
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key reused for a different request', async () => {
+      (idempotencyKeyModel.reserveKey as jest.Mock).mockResolvedValue(null);
+      (idempotencyKeyModel.findKey as jest.Mock).mockResolvedValue({
+        id: 'ik-1',
+        request_method: 'POST',
+        request_path: '/api/v1/projects/p-2/tasks',
+        response_status: 201,
+        response_body: {},
+      });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks')
+        .set('Idempotency-Key', 'offline-123')
+        .send({ title: 'New Task' });
+
+      expect(res.status).toBe(422);
+      expect(res.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    });
   });
 
   describe('PATCH /api/v1/projects/:projectId/tasks/:taskId', () => {
@@ -87,7 +362,6 @@ describe('Task Routes', () => {
       (taskModel.findTaskById as jest.Mock).mockResolvedValue({
         id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1',
       });
-      (taskModel.isValidStatusTransition as jest.Mock).mockReturnValue(true);
       (taskModel.updateTask as jest.Mock).mockResolvedValue({
         id: 't-1', status: 'in_progress',
       });
@@ -103,7 +377,6 @@ describe('Task Routes', () => {
       (taskModel.findTaskById as jest.Mock).mockResolvedValue({
         id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1',
       });
-      (taskModel.isValidStatusTransition as jest.Mock).mockReturnValue(false);
 
       const res = await request(app)
         .patch('/api/v1/projects/p-1/tasks/t-1')
@@ -113,6 +386,253 @@ describe('Task Routes', () => {
       expect(res.body.error.code).toBe('INVALID_TRANSITION');
     });
 
+    it('should return 409 when the task changed since expectedUpdatedAt', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'in_progress', created_by: 'user-1',
+        updated_at: new Date('2025-03-02T10:00:00.000Z'),
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'completed', expectedUpdatedAt: '2025-03-01T08:00:00.000Z' });
+
+      expect(res.status).toBe(409);
+      expect(res.body.error.code).toBe('CONFLICT');
+      expect(res.body.error.details.task.status).toBe('in_progress');
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should apply the update when expectedUpdatedAt matches', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1',
+        updated_at: new Date('2025-03-01T08:00:00.000Z'),
+      });
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ id: 't-1', status: 'in_progress' });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'in_progress', expectedUpdatedAt: '2025-03-01T08:00:00.000Z' });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should record each changed field in the task history', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', title: 'Fix pipe', created_by: 'user-1',
+        assigned_to_user: null, custom_fields: { floor: '1' },
+      });
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', title: 'Fix leaking pipe', created_by: 'user-1',
+        assigned_to_user: '11111111-1111-4111-8111-111111111111', custom_fields: { floor: '2' },
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ title: 'Fix leaking pipe', assignedToUser: '11111111-1111-4111-8111-111111111111' });
+
+      expect(res.status).toBe(200);
+      expect(taskHistoryModel.recordChanges).toHaveBeenCalledWith(
+        't-1',
+        [
+          { field: 'title', oldValue: 'Fix pipe', newValue: 'Fix leaking pipe' },
+          { field: 'assigned_to_user', oldValue: null, newValue: '11111111-1111-4111-8111-111111111111' },
+          { field: 'custom_fields.floor', oldValue: '1', newValue: '2' },
+        ],
+        { userId: 'user-1' },
+        undefined,
+      );
+    });
+
+    it('should notify the assignee and tell the project creator about a completed task', async () => {
+      (projectModel.findProjectById as jest.Mock).mockResolvedValue({
+        id: 'p-1', organization_id: 'org-1', name: 'Test Project', created_by: 'pm-1',
+      });
+      (userModel.findUserById as jest.Mock).mockResolvedValue({ id: 'user-1', first_name: 'Pat', last_name: 'Smith' });
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'in_progress', created_by: 'user-1', assigned_to_user: 'user-1',
+      });
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'completed', created_by: 'user-1', assigned_to_user: 'user-2',
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'completed', assignedToUser: '22222222-2222-4222-8222-222222222222' });
+
+      expect(res.status).toBe(200);
+      expect(notificationService.notifyTaskAssigned).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 't-1' }),
+        expect.objectContaining({ actorId: 'user-1', actorName: 'Pat Smith' }),
+      );
+      expect(notificationService.notifyTaskStatusChanged).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 't-1' }),
+        expect.objectContaining({
+          statusLabel: 'Completed',
+          completion: { projectCreatorId: 'pm-1', projectName: 'Test Project' },
+        }),
+      );
+    });
+
+    it('should not complete a task with unticked required checklist items', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'in_progress', created_by: 'user-1', checklist_open_required_count: 2,
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'completed' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('CHECKLIST_INCOMPLETE');
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should not start a task while its blockers are unfinished', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1', open_blocker_count: 2,
+      });
+      (taskRelationModel.findOpenBlockers as jest.Mock).mockResolvedValue([
+        { id: 't-3', task_number: 3, title: 'Fix wiring' },
+        { id: 't-4', task_number: 4, title: 'Move outlet' },
+      ]);
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'in_progress' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('TASK_BLOCKED');
+      expect(res.body.error.message).toContain('#3, #4');
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should tell assignees when their last blocker is completed', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-3', project_id: 'p-1', status: 'in_progress', created_by: 'user-1', open_blocker_count: 0,
+      });
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({
+        id: 't-3', project_id: 'p-1', task_number: 3, title: 'Fix wiring', status: 'completed', created_by: 'user-1',
+      });
+      (taskRelationModel.findTasksUnblockedBy as jest.Mock).mockResolvedValue([
+        { id: 't-1', project_id: 'p-1', task_number: 1, title: 'Close drywall', assigned_to_user: 'user-2', created_by: 'user-1' },
+      ]);
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-3')
+        .send({ status: 'completed' });
+
+      expect(res.status).toBe(200);
+      expect(taskRelationModel.findTasksUnblockedBy).toHaveBeenCalledWith('t-3');
+      expect(notificationService.notifyTaskUnblocked).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 't-1', assigned_to_user: 'user-2' }),
+        expect.objectContaining({ actorId: 'user-1', blocker: expect.objectContaining({ task_number: 3 }) }),
+      );
+    });
+
+    it('should reject assignees who are not members of the project', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1', assigned_to_user: null,
+      });
+      (projectMemberModel.findMember as jest.Mock).mockResolvedValue(null);
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ assignedToUser: '11111111-1111-4111-8111-111111111111' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.assignedToUser).toBe('User is not a member of this project');
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should work out measurement values from the calibration of their page', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1', blueprint_id: 'bp-1',
+        measurements: [{
+          id: '22222222-2222-4222-8222-222222222222', type: 'distance', page: 1,
+          points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }], value: 7,
+        }],
+      });
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue({
+        id: 'bp-1',
+        scale_calibrations: [{ page: 1, method: 'line', pageWidth: 1000, pageHeight: 500, metresPerUnit: 0.01 }],
+      });
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ id: 't-1', status: 'open' });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({
+          measurements: [
+            {
+              id: '22222222-2222-4222-8222-222222222222', type: 'distance', page: 1,
+              points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }],
+            },
+            {
+              id: '33333333-3333-4333-8333-333333333333', type: 'area', page: 1, label: '  Floor  ',
+              points: [{ x: 0, y: 0 }, { x: 0.2, y: 0 }, { x: 0.2, y: 0.4 }, { x: 0, y: 0.4 }],
+            },
+          ],
+        });
+
+      expect(res.status).toBe(200);
+      const { measurements } = (taskModel.updateTask as jest.Mock).mock.calls[0][1];
+      // The unchanged measurement keeps the value it was recorded with
+      expect(measurements[0].value).toBe(7);
+      // 200 x 200 page units at 0.01 m each
+      expect(measurements[1].value).toBeCloseTo(4);
+      expect(measurements[1].label).toBe('Floor');
+    });
+
+    it('should reject measurements on pages that are not calibrated', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1', blueprint_id: 'bp-1', measurements: null,
+      });
+      (blueprintModel.findBlueprintById as jest.Mock).mockResolvedValue({ id: 'bp-1', scale_calibrations: null });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({
+          measurements: [{
+            id: '22222222-2222-4222-8222-222222222222', type: 'distance', page: 2,
+            points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }],
+          }],
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details['measurements.0.page']).toBe('Page 2 of the blueprint has not been calibrated');
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject measurements on tasks without a blueprint', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'open', created_by: 'user-1', blueprint_id: null,
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({
+          measurements: [{
+            id: '22222222-2222-4222-8222-222222222222', type: 'area', page: 1,
+            points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }],
+          }],
+        });
+
+      // An area needs at least three points
+      expect(res.status).toBe(400);
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+
+      const valid = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({
+          measurements: [{
+            id: '22222222-2222-4222-8222-222222222222', type: 'distance', page: 1,
+            points: [{ x: 0, y: 0 }, { x: 0.5, y: 0 }],
+          }],
+        });
+
+      expect(valid.status).toBe(400);
+      expect(valid.body.error.details.measurements).toBe('Measurements are taken on the blueprint of the task');
+    });
+
     it('should return 404 for non-existent task', async () => {
       (taskModel.findTaskById as jest.Mock).mockResolvedValue(null);
 
@@ -124,6 +644,323 @@ describe('Task Routes', () => {
     });
   });
 
+  describe('POST /api/v1/projects/:projectId/tasks/bulk', () => {
+    const T1 = '11111111-1111-4111-8111-000000000001';
+    const T2 = '11111111-1111-4111-8111-000000000002';
+    const T3 = '11111111-1111-4111-8111-000000000003';
+    const ASSIGNEE = '22222222-2222-4222-8222-222222222222';
+
+    it('should report a result per task, including rejected transitions and unknown ids', async () => {
+      (taskModel.findTasksByIds as jest.Mock).mockResolvedValue([
+        { id: T1, task_number: 1, project_id: 'p-1', status: 'open', created_by: 'user-1', photo_count: 0 },
+        { id: T2, task_number: 2, project_id: 'p-1', status: 'in_progress', created_by: 'user-1', photo_count: 1 },
+      ]);
+      (taskModel.updateTask as jest.Mock).mockImplementation(async (id: string, updates: { status?: string }) => ({
+        id, task_number: 2, project_id: 'p-1', status: updates.status,
+      }));
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/bulk')
+        .send({ taskIds: [T1, T2, T3], action: 'update', changes: { status: 'completed' } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.summary).toEqual({ total: 3, succeeded: 1, failed: 2 });
+      const byId = Object.fromEntries(res.body.data.results.map((r: { taskId: string }) => [r.taskId, r]));
+      expect(byId[T1].error.code).toBe('INVALID_TRANSITION');
+      expect(byId[T2].success).toBe(true);
+      expect(byId[T3].error.code).toBe('NOT_FOUND');
+      expect(taskModel.updateTask).toHaveBeenCalledTimes(1);
+      expect(taskModel.updateTask).toHaveBeenCalledWith(T2, expect.objectContaining({ completedAt: expect.any(String) }));
+    });
+
+    it('should send one assignment notification per recipient', async () => {
+      (userModel.findUserById as jest.Mock).mockImplementation(async (id: string) => ({
+        id, organization_id: 'org-1', is_active: true, email: `${id}@test.com`, first_name: 'Sam', last_name: 'Smith',
+      }));
+      (taskModel.findTasksByIds as jest.Mock).mockResolvedValue([
+        { id: T1, task_number: 1, project_id: 'p-1', status: 'open', created_by: 'user-1', assigned_to_user: null },
+        { id: T2, task_number: 2, project_id: 'p-1', status: 'open', created_by: 'user-1', assigned_to_user: null },
+      ]);
+      (taskModel.updateTask as jest.Mock).mockImplementation(async (id: string) => ({
+        id, task_number: id === T1 ? 1 : 2, title: `Task ${id}`, priority: 'normal', assigned_to_user: ASSIGNEE,
+      }));
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/bulk')
+        .send({ taskIds: [T1, T2], action: 'update', changes: { assignedToUser: ASSIGNEE } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.summary.succeeded).toBe(2);
+      expect(notificationService.notify).toHaveBeenCalledTimes(1);
+      const event = (notificationService.notify as jest.Mock).mock.calls[0][0];
+      expect(event).toEqual(expect.objectContaining({ type: 'task_assigned', recipientIds: [ASSIGNEE], link: '/my-tasks' }));
+      expect(event.email({ firstName: 'Sam', email: `${ASSIGNEE}@test.com` }).subject)
+        .toBe('2 tasks assigned to you in Test Project');
+    });
+
+    it('should select tasks by filter', async () => {
+      (taskModel.findTasksByProject as jest.Mock).mockResolvedValue({
+        tasks: [{ id: T1, task_number: 1, project_id: 'p-1' }],
+        total: 1,
+      });
+      (taskModel.deleteTask as jest.Mock).mockResolvedValue(true);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/bulk')
+        .send({ filter: { status: 'open', assignedToMe: true }, action: 'delete' });
+
+      expect(res.status).toBe(200);
+      expect(taskModel.findTasksByProject).toHaveBeenCalledWith(
+        'p-1', 'org-1', expect.objectContaining({ status: ['open'], assignedToUser: ['user-1'] }), expect.anything(),
+      );
+      expect(taskModel.deleteTask).toHaveBeenCalledWith(T1);
+    });
+
+    it('should refuse a filter matching too many tasks', async () => {
+      (taskModel.findTasksByProject as jest.Mock).mockResolvedValue({ tasks: [], total: 501 });
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/bulk')
+        .send({ filter: {}, action: 'update', changes: { priority: 'high' } });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('TOO_MANY_TASKS');
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should require either task ids or a filter', async () => {
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/bulk')
+        .send({ taskIds: [T1], filter: {}, action: 'delete' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('Excel import and export', () => {
+    const mockClient = { query: jest.fn(), release: jest.fn() };
+
+    async function workbookBuffer(rows: unknown[][]): Promise<Buffer> {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Tasks');
+      sheet.addRow(['Task Number', 'Title', 'Status', 'Priority', 'Trade', 'Assignee Email', 'Blueprint', 'Due Date']);
+      rows.forEach((row) => sheet.addRow(row));
+      return Buffer.from(await workbook.xlsx.writeBuffer());
+    }
+
+    beforeEach(() => {
+      (userModel.findUsersByOrganization as jest.Mock).mockResolvedValue({
+        users: [{ id: 'u-2', email: 'Sam@Test.com' }],
+        total: 1,
+      });
+      (projectMemberModel.findMembersByProject as jest.Mock).mockResolvedValue([
+        { user_id: 'u-2', email: 'Sam@Test.com', is_active: true },
+      ]);
+      (blueprintModel.findBlueprintsByProject as jest.Mock).mockResolvedValue([{ id: 'bp-1', name: 'Ground Floor' }]);
+      (taskModel.findTradesByOrganization as jest.Mock).mockResolvedValue(['Electrical']);
+      (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+    });
+
+    it('should export the filtered tasks as a spreadsheet', async () => {
+      (taskModel.findTasksByProject as jest.Mock).mockResolvedValue({
+        tasks: [{ id: 't-1', task_number: 1, title: 'Fix pipe', status: 'open', priority: 'normal', assigned_to_user: 'u-2' }],
+        total: 1,
+      });
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks/export?status=open');
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('spreadsheetml');
+      expect(taskModel.findTasksByProject).toHaveBeenCalledWith(
+        'p-1', 'org-1', expect.objectContaining({ status: ['open'] }), expect.anything(),
+      );
+    });
+
+    it('should create tasks, matching assignees by email, blueprints by name and known trades', async () => {
+      (taskModel.createTask as jest.Mock).mockImplementation(async (data: { title: string }) => ({ id: 't-new', ...data }));
+      const file = await workbookBuffer([
+        [null, 'Fix socket', 'Open', 'High', 'electrical', 'sam@test.com', 'ground floor', '2025-06-30'],
+      ]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/import')
+        .attach('file', file, 'tasks.xlsx');
+
+      expect(res.status).toBe(201);
+      expect(res.body.data).toEqual({ created: 1, updated: 0 });
+      expect(taskModel.createTask).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Fix socket',
+        status: 'open',
+        priority: 'high',
+        trade: 'Electrical',
+        assignedToUser: 'u-2',
+        blueprintId: 'bp-1',
+        dueDate: '2025-06-30',
+        completedAt: undefined,
+      }), mockClient);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should stamp completion on new rows imported in a done status', async () => {
+      (taskModel.createTask as jest.Mock).mockImplementation(async (data: { title: string }) => ({ id: 't-new', ...data }));
+      const file = await workbookBuffer([
+        [null, 'Hang doors', 'Completed', null, null, null, null, '2025-06-30'],
+        [null, 'Paint walls', 'Verified', null, null, null, null, '2025-06-30'],
+      ]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/import')
+        .attach('file', file, 'tasks.xlsx');
+
+      expect(res.status).toBe(201);
+      const [[completed], [verified]] = (taskModel.createTask as jest.Mock).mock.calls;
+      expect(completed).toEqual(expect.objectContaining({ status: 'completed', completedAt: expect.any(String), verifiedAt: undefined }));
+      expect(verified).toEqual(expect.objectContaining({
+        status: 'verified', completedAt: expect.any(String), verifiedAt: expect.any(String),
+      }));
+    });
+
+    it('should roll back every row when a write fails part-way', async () => {
+      (taskModel.createTask as jest.Mock)
+        .mockResolvedValueOnce({ id: 't-new', title: 'Fix socket', status: 'open' })
+        .mockRejectedValueOnce(new Error('db down'));
+      const file = await workbookBuffer([
+        [null, 'Fix socket', null, null, null, null, null, '2025-06-30'],
+        [null, 'Fix light', null, null, null, null, null, '2025-06-30'],
+      ]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/import')
+        .attach('file', file, 'tasks.xlsx');
+
+      expect(res.status).toBe(500);
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should report row-level errors without importing anything', async () => {
+      const file = await workbookBuffer([
+        [null, 'Fix socket', null, null, null, 'sam@test.com', null, null],
+        [null, null, 'Nonsense', null, null, 'nobody@test.com', 'Roof', null],
+      ]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/import')
+        .attach('file', file, 'tasks.xlsx');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.errors).toEqual([{
+        row: 3,
+        messages: [
+          'Title is required',
+          expect.stringContaining('Status must be one of'),
+          'No active project member with email "nobody@test.com"',
+          'No blueprint named "Roof" in this project',
+        ],
+      }]);
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should update existing tasks by task number in update mode', async () => {
+      const existing = {
+        id: 't-1', task_number: 7, project_id: 'p-1', title: 'Fix pipe', status: 'open', priority: 'normal',
+        trade: null, assigned_to_user: null, blueprint_id: null, due_date: null, photo_count: 0, custom_fields: {},
+      };
+      (taskModel.findTasksByNumbers as jest.Mock).mockResolvedValue([existing]);
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ ...existing, title: 'Fix leaking pipe', status: 'in_progress' });
+      const file = await workbookBuffer([
+        [7, 'Fix leaking pipe', 'In Progress', 'Normal', null, null, null, null],
+      ]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/import')
+        .field('mode', 'update')
+        .attach('file', file, 'tasks.xlsx');
+
+      expect(res.status).toBe(201);
+      expect(res.body.data).toEqual({ created: 0, updated: 1 });
+      expect(taskModel.createTask).not.toHaveBeenCalled();
+      expect(taskModel.updateTask).toHaveBeenCalledWith('t-1', expect.objectContaining({
+        title: 'Fix leaking pipe',
+        status: 'in_progress',
+        trade: null,
+        assignedToUser: null,
+      }), mockClient);
+    });
+
+    it('should drop the annotation revision when an import moves a task to another blueprint', async () => {
+      const existing = {
+        id: 't-1', task_number: 7, project_id: 'p-1', title: 'Fix pipe', status: 'open', priority: 'normal',
+        trade: null, assigned_to_user: null, blueprint_id: 'bp-old', due_date: null, photo_count: 0, custom_fields: {},
+        annotation_revision_id: 'rev-1',
+      };
+      (taskModel.findTasksByNumbers as jest.Mock).mockResolvedValue([existing]);
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ ...existing, blueprint_id: 'bp-1', annotation_revision_id: null });
+      const file = await workbookBuffer([[7, 'Fix pipe', 'Open', 'Normal', null, null, 'Ground Floor', null]]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/import')
+        .field('mode', 'update')
+        .attach('file', file, 'tasks.xlsx');
+
+      expect(res.status).toBe(201);
+      expect(taskModel.updateTask).toHaveBeenCalledWith('t-1', expect.objectContaining({
+        blueprintId: 'bp-1',
+        annotationRevisionId: null,
+        annotationRecordedRevisionId: null,
+      }), mockClient);
+    });
+
+    it('should reject an update for a task number that does not exist', async () => {
+      (taskModel.findTasksByNumbers as jest.Mock).mockResolvedValue([]);
+      const file = await workbookBuffer([[99, 'Ghost task', null, null, null, null, null, null]]);
+
+      const res = await request(app)
+        .post('/api/v1/projects/p-1/tasks/import')
+        .field('mode', 'update')
+        .attach('file', file, 'tasks.xlsx');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.errors[0].messages).toEqual(['Task #99 does not exist in this project']);
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/projects/:projectId/tasks/:taskId/history', () => {
+    it('should return history with time in status and cycle time', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'completed',
+        created_at: new Date('2025-03-01T08:00:00.000Z'),
+      });
+      (taskHistoryModel.findHistoryByTask as jest.Mock).mockResolvedValue([
+        { field: 'created', old_value: null, new_value: { status: 'open' }, created_at: new Date('2025-03-01T08:00:00.000Z') },
+        { field: 'status', old_value: 'open', new_value: 'in_progress', created_at: new Date('2025-03-01T10:00:00.000Z') },
+        { field: 'status', old_value: 'in_progress', new_value: 'completed', created_at: new Date('2025-03-02T10:00:00.000Z') },
+      ]);
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks/t-1/history');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.history).toHaveLength(3);
+      expect(res.body.data.metrics.timeInStatus.open).toBe(2 * 3600);
+      expect(res.body.data.metrics.timeInStatus.in_progress).toBe(24 * 3600);
+      expect(res.body.data.metrics.cycleTimeSeconds).toBe(24 * 3600);
+      expect(res.body.data.metrics.leadTimeSeconds).toBe(26 * 3600);
+    });
+
+    it('should return 404 for a task in another project', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({ id: 't-1', project_id: 'p-2' });
+
+      const res = await request(app).get('/api/v1/projects/p-1/tasks/t-1/history');
+
+      expect(res.status).toBe(404);
+      expect(taskHistoryModel.findHistoryByTask).not.toHaveBeenCalled();
+    });
+  });
+
   describe('DELETE /api/v1/projects/:projectId/tasks/:taskId', () => {
     it('should delete a task', async () => {
       (taskModel.findTaskById as jest.Mock).mockResolvedValue({
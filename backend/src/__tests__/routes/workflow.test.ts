@@ -0,0 +1,178 @@
+import request from 'supertest';
+import app from '../../app';
+
+jest.mock('express-rate-limit', () => {
+  return () => (_req: unknown, _res: unknown, next: () => void) => next();
+});
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../middleware/authenticate', () => ({
+  authenticate: (req: any, _res: any, next: () => void) => {
+    req.user = {
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: 'org_admin',
+      email: 'admin@test.com',
+    };
+    next();
+  },
+}));
+
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/task.model');
+jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
+jest.mock('../../models/comment.model');
+jest.mock('../../models/user.model');
+jest.mock('../../services/audit.service');
+jest.mock('../../services/notification.service');
+
+import * as workflowModel from '../../models/workflow.model';
+import * as taskModel from '../../models/task.model';
+import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
+import * as commentModel from '../../models/comment.model';
+import { logAuditAction } from '../../services/audit.service';
+
+const statuses = [
+  { key: 'open', label: 'Open', color: '#ef4444', category: 'open', isInitial: true },
+  { key: 'in_progress', label: 'In Progress', color: '#eab308', category: 'in_progress' },
+  { key: 'ready_for_inspection', label: 'Ready for Inspection', color: '#a855f7', category: 'completed' },
+  { key: 'approved', label: 'Approved', color: '#3b82f6', category: 'verified' },
+];
+
+const transitions = [
+  { from: 'open', to: 'in_progress', allowExternal: true },
+  { from: 'in_progress', to: 'ready_for_inspection', requiresPhoto: true },
+  { from: 'ready_for_inspection', to: 'approved', allowedRoles: ['project_manager'] },
+  { from: 'ready_for_inspection', to: 'in_progress', requiresComment: true },
+];
+
+// Rows as stored, for routes that read the workflow back
+const statusRows = statuses.map((s, i) => ({
+  status_key: s.key, label: s.label, color: s.color, category: s.category, is_initial: !!s.isInitial, display_order: i,
+}));
+const transitionRows = transitions.map((t) => ({
+  from_status: t.from,
+  to_status: t.to,
+  allowed_roles: t.allowedRoles || [],
+  requires_comment: !!t.requiresComment,
+  requires_photo: !!t.requiresPhoto,
+  allow_external: !!t.allowExternal,
+}));
+
+describe('Workflow Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+    (workflowModel.findTransitions as jest.Mock).mockResolvedValue([]);
+    (workflowModel.countTasksByStatus as jest.Mock).mockResolvedValue({});
+  });
+
+  describe('GET /api/v1/workflow', () => {
+    it('should return the built-in workflow when none is configured', async () => {
+      const res = await request(app).get('/api/v1/workflow');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.workflow.isDefault).toBe(true);
+      expect(res.body.data.workflow.statuses.map((s: any) => s.key))
+        .toEqual(['open', 'in_progress', 'completed', 'verified']);
+    });
+  });
+
+  describe('PUT /api/v1/admin/workflow', () => {
+    it('should replace the workflow and audit the change', async () => {
+      const res = await request(app)
+        .put('/api/v1/admin/workflow')
+        .send({ statuses, transitions });
+
+      expect(res.status).toBe(200);
+      expect(workflowModel.replaceWorkflow).toHaveBeenCalledWith(
+        'org-1',
+        expect.arrayContaining([expect.objectContaining({ key: 'ready_for_inspection', isInitial: false })]),
+        expect.arrayContaining([expect.objectContaining({ from: 'open', to: 'in_progress', allowedRoles: [] })]),
+      );
+      expect(logAuditAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'workflow.updated' }));
+    });
+
+    it('should reject transitions that reference unknown statuses', async () => {
+      const res = await request(app)
+        .put('/api/v1/admin/workflow')
+        .send({ statuses, transitions: [...transitions, { from: 'approved', to: 'archived' }] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.details.workflowErrors).toContain("Transition to unknown status 'archived'");
+      expect(workflowModel.replaceWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to remove a status that tasks still use', async () => {
+      (workflowModel.countTasksByStatus as jest.Mock).mockResolvedValue({ open: 3, completed: 2 });
+
+      const res = await request(app)
+        .put('/api/v1/admin/workflow')
+        .send({ statuses, transitions });
+
+      expect(res.status).toBe(409);
+      expect(res.body.error.code).toBe('STATUS_IN_USE');
+      expect(res.body.error.details.statusesInUse).toEqual([{ status: 'completed', taskCount: 2 }]);
+      expect(workflowModel.replaceWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/v1/projects/:projectId/tasks/:taskId with a custom workflow', () => {
+    beforeEach(() => {
+      (workflowModel.findStatuses as jest.Mock).mockResolvedValue(statusRows);
+      (workflowModel.findTransitions as jest.Mock).mockResolvedValue(transitionRows);
+      (projectModel.findProjectById as jest.Mock).mockResolvedValue({ id: 'p-1', organization_id: 'org-1' });
+    });
+
+    it('should require a photo before moving to a completed status', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'in_progress', created_by: 'user-1', photo_count: 0,
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'ready_for_inspection' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('PHOTO_REQUIRED');
+      expect(taskModel.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should only let the listed roles perform a transition', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'ready_for_inspection', created_by: 'user-1', photo_count: 1,
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'approved' });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error.code).toBe('FORBIDDEN');
+    });
+
+    it('should post the status comment and set timestamps by category', async () => {
+      (taskModel.findTaskById as jest.Mock).mockResolvedValue({
+        id: 't-1', project_id: 'p-1', status: 'ready_for_inspection', created_by: 'user-1', photo_count: 1,
+      });
+      (taskModel.updateTask as jest.Mock).mockResolvedValue({ id: 't-1', status: 'in_progress' });
+
+      const res = await request(app)
+        .patch('/api/v1/projects/p-1/tasks/t-1')
+        .send({ status: 'in_progress', statusComment: 'Sealant missing around the drain' });
+
+      expect(res.status).toBe(200);
+      expect(commentModel.createComment).toHaveBeenCalledWith({
+        taskId: 't-1', userId: 'user-1', commentText: 'Sealant missing around the drain',
+      });
+      expect(taskModel.updateTask).toHaveBeenCalledWith('t-1', expect.not.objectContaining({ completedAt: expect.anything() }));
+    });
+  });
+});
@@ -18,9 +18,12 @@ jest.mock('../../config/database', () => {
 jest.mock('../../models/user.model');
 jest.mock('../../models/organization.model');
 jest.mock('../../models/project.model');
+jest.mock('../../models/projectMember.model');
 jest.mock('../../models/task.model');
 jest.mock('../../models/comment.model');
 jest.mock('../../models/passwordResetToken.model');
+jest.mock('../../models/workflow.model');
+jest.mock('../../models/slaRule.model');
 jest.mock('../../services/audit.service');
 jest.mock('../../services/stats.service');
 
@@ -29,8 +32,11 @@ import pool from '../../config/database';
 import * as userModel from '../../models/user.model';
 import * as orgModel from '../../models/organization.model';
 import * as projectModel from '../../models/project.model';
+import * as projectMemberModel from '../../models/projectMember.model';
 import * as taskModel from '../../models/task.model';
 import * as commentModel from '../../models/comment.model';
+import * as workflowModel from '../../models/workflow.model';
+import * as slaRuleModel from '../../models/slaRule.model';
 import { hashPassword } from '../../utils/password';
 
 const _mockPool = pool as jest.Mocked<typeof pool>;
@@ -45,6 +51,9 @@ describe('SQL Injection Prevention', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (projectMemberModel.findProjectAccess as jest.Mock).mockResolvedValue({ role: 'manager' });
+    (workflowModel.findStatuses as jest.Mock).mockResolvedValue([]);
+    (slaRuleModel.findRulesForProject as jest.Mock).mockResolvedValue([]);
     // Re-mock findUserById for authenticate middleware (called on every request)
     (userModel.findUserById as jest.Mock).mockResolvedValue({
       id: userId,
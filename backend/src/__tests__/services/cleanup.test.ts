@@ -0,0 +1,77 @@
+import { cleanupUnattachedAttachments, runCleanup } from '../../services/cleanup.service';
+import * as idempotencyKeyModel from '../../models/idempotencyKey.model';
+import * as inboundEmailModel from '../../models/inboundEmail.model';
+import * as commentAttachmentModel from '../../models/commentAttachment.model';
+import { deleteObject } from '../../services/storage.service';
+import { decrementStorageUsed } from '../../services/storageTracking.service';
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../models/idempotencyKey.model');
+jest.mock('../../models/inboundEmail.model');
+jest.mock('../../models/commentAttachment.model');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/storageTracking.service');
+
+describe('Cleanup service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (idempotencyKeyModel.deleteExpiredKeys as jest.Mock).mockResolvedValue(3);
+    (inboundEmailModel.deleteOldDeliveries as jest.Mock).mockResolvedValue(2);
+    (commentAttachmentModel.findUnattachedAttachments as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should purge expired idempotency keys', async () => {
+    await runCleanup();
+
+    expect(idempotencyKeyModel.deleteExpiredKeys).toHaveBeenCalled();
+  });
+
+  it('should purge old inbound email deliveries', async () => {
+    await runCleanup();
+
+    expect(inboundEmailModel.deleteOldDeliveries).toHaveBeenCalled();
+  });
+
+  describe('cleanupUnattachedAttachments', () => {
+    const confirmed = {
+      id: 'a-1', organization_id: 'org-1', comment_id: null, file_url: 'org-1/a-1.png',
+      thumbnail_url: 'org-1/a-1-thumb.png', file_size_bytes: 2048, confirmed_at: new Date(),
+    };
+
+    it('should delete the files and give back the storage of confirmed uploads never posted', async () => {
+      (commentAttachmentModel.findUnattachedAttachments as jest.Mock).mockResolvedValue([confirmed]);
+      (commentAttachmentModel.deleteUnattachedAttachment as jest.Mock).mockResolvedValue(confirmed);
+
+      expect(await cleanupUnattachedAttachments()).toBe(1);
+
+      expect(deleteObject).toHaveBeenCalledWith('org-1/a-1.png');
+      expect(deleteObject).toHaveBeenCalledWith('org-1/a-1-thumb.png');
+      expect(decrementStorageUsed).toHaveBeenCalledWith('org-1', 2048);
+    });
+
+    it('should not count storage for uploads that were never confirmed', async () => {
+      const unconfirmed = { ...confirmed, thumbnail_url: null, confirmed_at: null };
+      (commentAttachmentModel.findUnattachedAttachments as jest.Mock).mockResolvedValue([unconfirmed]);
+      (commentAttachmentModel.deleteUnattachedAttachment as jest.Mock).mockResolvedValue(unconfirmed);
+
+      await cleanupUnattachedAttachments();
+
+      expect(deleteObject).toHaveBeenCalledTimes(1);
+      expect(decrementStorageUsed).not.toHaveBeenCalled();
+    });
+
+    it('should leave an attachment alone when a comment claimed it in the meantime', async () => {
+      (commentAttachmentModel.findUnattachedAttachments as jest.Mock).mockResolvedValue([confirmed]);
+      (commentAttachmentModel.deleteUnattachedAttachment as jest.Mock).mockResolvedValue(null);
+
+      expect(await cleanupUnattachedAttachments()).toBe(0);
+
+      expect(deleteObject).not.toHaveBeenCalled();
+      expect(decrementStorageUsed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { canReceive, initRealtimeListener, stopRealtime, subscribe, RealtimeEvent } from '../../services/realtime.service';
+import * as projectMemberModel from '../../models/projectMember.model';
+import { UserRole } from '../../types';
+
+const mockListener = {
+  handlers: {} as Record<string, (arg: unknown) => void>,
+  on: jest.fn((event: string, handler: (arg: unknown) => void) => {
+    mockListener.handlers[event] = handler;
+  }),
+  connect: jest.fn().mockResolvedValue(undefined),
+  query: jest.fn().mockResolvedValue(undefined),
+  end: jest.fn().mockResolvedValue(undefined),
+};
+
+jest.mock('pg', () => ({
+  Client: jest.fn(() => mockListener),
+}));
+
+jest.mock('../../config/database', () => {
+  const mockPool = { query: jest.fn(), connect: jest.fn() };
+  return { __esModule: true, default: mockPool };
+});
+
+jest.mock('../../models/projectMember.model');
+
+function event(overrides: Partial<RealtimeEvent> = {}): RealtimeEvent {
+  return { type: 'task.updated', organizationId: 'org-1', projectId: 'p-1', data: { taskId: 't-1' }, ...overrides };
+}
+
+// Deliver an event the way the LISTEN connection would and let dispatch finish
+async function notify(payload: RealtimeEvent): Promise<void> {
+  mockListener.handlers.notification({ channel: 'realtime_events', payload: JSON.stringify(payload) });
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('Realtime service', () => {
+  const member = { userId: 'u-1', organizationId: 'org-1', role: UserRole.FIELD_USER, projectIds: new Set(['p-1']) };
+  const admin = { userId: 'u-2', organizationId: 'org-1', role: UserRole.ORG_ADMIN, projectIds: null };
+
+  describe('canReceive', () => {
+    it('should deliver project events to members of the project', () => {
+      expect(canReceive(member, event())).toBe(true);
+    });
+
+    it('should not deliver events from another organisation', () => {
+      expect(canReceive(member, event({ organizationId: 'org-2' }))).toBe(false);
+      expect(canReceive(admin, event({ organizationId: 'org-2' }))).toBe(false);
+    });
+
+    it('should not deliver project events to users outside the project', () => {
+      expect(canReceive({ ...member, projectIds: new Set(['p-2']) }, event())).toBe(false);
+    });
+
+    it('should deliver project events to viewers, who may read but not change the project', () => {
+      // Project roles are not part of the subscription; membership alone grants read access
+      const viewer = { ...member, userId: 'u-3' };
+      expect(canReceive(viewer, event())).toBe(true);
+      expect(canReceive(viewer, event({ adminOnly: true }))).toBe(false);
+    });
+
+    it('should deliver admin-only events to org admins alone', () => {
+      expect(canReceive(admin, event({ projectId: undefined, adminOnly: true }))).toBe(true);
+      expect(canReceive({ ...member, role: UserRole.PROJECT_MANAGER }, event({ projectId: undefined, adminOnly: true })))
+        .toBe(false);
+    });
+
+    it('should deliver addressed events only to the listed users', () => {
+      const addressed = event({ projectId: undefined, type: 'notification.created', userIds: ['u-1'] });
+      expect(canReceive(member, addressed)).toBe(true);
+      expect(canReceive(admin, addressed)).toBe(false);
+    });
+
+    it('should deliver every project in the organisation to org admins', () => {
+      expect(canReceive(admin, event({ projectId: 'p-9' }))).toBe(true);
+    });
+  });
+
+  describe('dispatch', () => {
+    const send = jest.fn();
+    let unsubscribe: () => void;
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      (projectMemberModel.findProjectIdsByUser as jest.Mock).mockResolvedValue(['p-1']);
+      await initRealtimeListener();
+      unsubscribe = await subscribe({
+        userId: 'u-1', organizationId: 'org-1', role: UserRole.FIELD_USER, send, close: jest.fn(),
+      });
+    });
+
+    afterEach(async () => {
+      unsubscribe();
+      await stopRealtime();
+    });
+
+    it('should send subscribers the events they may see', async () => {
+      await notify(event());
+      await notify(event({ projectId: 'p-2' }));
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledWith(event());
+    });
+
+    it('should tell a removed member about the removal, then stop sending that project', async () => {
+      (projectMemberModel.findProjectIdsByUser as jest.Mock).mockResolvedValue([]);
+      const removal = event({ type: 'project_member.changed', data: { userId: 'u-1' } });
+
+      await notify(removal);
+      await notify(event());
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledWith(removal);
+      expect(projectMemberModel.findProjectIdsByUser).toHaveBeenLastCalledWith('u-1');
+    });
+
+    it('should not reload memberships for changes about other users', async () => {
+      await notify(event({ type: 'project_member.changed', data: { userId: 'u-9' } }));
+
+      // Once when subscribing, not again for someone else's change
+      expect(projectMemberModel.findProjectIdsByUser).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
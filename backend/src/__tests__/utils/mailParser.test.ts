@@ -0,0 +1,132 @@
+import {
+  parseMail,
+  extractAddresses,
+  stripQuotedText,
+  detectCommand,
+  htmlToText,
+} from '../../utils/mailParser';
+
+describe('Mail parser utilities', () => {
+  describe('parseMail', () => {
+    it('should parse a simple plain-text message', async () => {
+      const raw = [
+        'Message-ID: <CAB12345@mail.contractor.se>',
+        'From: "Anna Svensson" <Anna@Contractor.se>',
+        'To: reply+0123456789abcdef0123456789abcdef@reply.taskproof.se',
+        'Subject: Re: Task assigned: Fix leak',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        'Klart, bytt packningen.',
+      ].join('\r\n');
+
+      const mail = await parseMail(raw);
+      expect(mail.messageId).toBe('CAB12345@mail.contractor.se');
+      expect(mail.from).toBe('anna@contractor.se');
+      expect(mail.to).toEqual(['reply+0123456789abcdef0123456789abcdef@reply.taskproof.se']);
+      expect(mail.subject).toBe('Re: Task assigned: Fix leak');
+      expect(mail.text).toBe('Klart, bytt packningen.');
+    });
+
+    it('should decode multipart messages with quoted-printable text and base64 attachments', async () => {
+      const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+      const raw = [
+        'From: anna@contractor.se',
+        'To: pm@taskproof.se',
+        'Subject: =?UTF-8?B?w4V0Z8OkcmRhdA==?=',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        '--outer',
+        'Content-Type: multipart/alternative; boundary="inner"',
+        '',
+        '--inner',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Nu =C3=A4r det fixat=',
+        '.',
+        '--inner',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<p>Nu &auml;r det fixat.</p>',
+        '--inner--',
+        '--outer',
+        'Content-Type: image/jpeg; name="after.jpg"',
+        'Content-Disposition: attachment; filename="after.jpg"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        image.toString('base64'),
+        '--outer--',
+        '',
+      ].join('\r\n');
+
+      const mail = await parseMail(raw);
+      expect(mail.subject).toBe('Åtgärdat');
+      expect(mail.text).toBe('Nu är det fixat.');
+      expect(mail.html).toContain('<p>');
+      expect(mail.attachments).toHaveLength(1);
+      expect(mail.attachments[0].filename).toBe('after.jpg');
+      expect(mail.attachments[0].contentType).toBe('image/jpeg');
+      expect(mail.attachments[0].content.equals(image)).toBe(true);
+    });
+
+    it('should decode Q-encoded headers and collect Cc and Delivered-To recipients', async () => {
+      const raw = [
+        'From: anna@contractor.se',
+        'To: pm@taskproof.se',
+        'Cc: "Bo, Site" <Bo@Contractor.se>',
+        'Delivered-To: reply+0123456789abcdef0123456789abcdef@reply.taskproof.se',
+        'Subject: =?ISO-8859-1?Q?R=E4ttat_f=F6nster?=',
+        '',
+        'Klart',
+      ].join('\r\n');
+
+      const mail = await parseMail(raw);
+      expect(mail.subject).toBe('Rättat fönster');
+      expect(mail.to).toEqual([
+        'pm@taskproof.se',
+        'bo@contractor.se',
+        'reply+0123456789abcdef0123456789abcdef@reply.taskproof.se',
+      ]);
+    });
+  });
+
+
+  describe('extractAddresses', () => {
+    it('should extract lowercased addresses from a list', () => {
+      expect(extractAddresses('A <a@B.se>, "C, D" <c@d.se>')).toEqual(['a@b.se', 'c@d.se']);
+    });
+  });
+
+  describe('stripQuotedText', () => {
+    it('should drop the quoted original after an English attribution line', () => {
+      const text = 'Done, see photo.\n\nOn Mon, 3 Mar 2025 at 10:00, PM <pm@taskproof.se> wrote:\n> Please fix the leak';
+      expect(stripQuotedText(text)).toBe('Done, see photo.');
+    });
+
+    it('should handle Swedish attribution lines and Outlook headers', () => {
+      expect(stripQuotedText('Klart!\n\nDen 3 mars 2025 skrev PM <pm@taskproof.se>:\n> Fixa')).toBe('Klart!');
+      expect(stripQuotedText('Ok\n\nFrån: PM\nSkickat: idag')).toBe('Ok');
+    });
+
+    it('should remove stray quoted lines and signatures', () => {
+      expect(stripQuotedText('> old\nNew text\n-- \nAnna')).toBe('New text');
+    });
+  });
+
+  describe('detectCommand', () => {
+    it('should recognise completion words at the start of the reply', () => {
+      expect(detectCommand('DONE')).toBe('complete');
+      expect(detectCommand('\nKlart, bytt packningen')).toBe('complete');
+    });
+
+    it('should ignore completion words later in the text', () => {
+      expect(detectCommand('Not done yet, waiting for parts')).toBeNull();
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should convert basic markup and drop blockquotes', () => {
+      expect(htmlToText('<p>Fixed&nbsp;it</p><br><blockquote>old</blockquote>')).toBe('Fixed it');
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { parseMentionIds, mentionsToPlainText } from '../../utils/mentions';
+
+const ANNA = '11111111-1111-4111-8111-111111111111';
+const BO = '22222222-2222-4222-8222-222222222222';
+
+describe('Mention utilities', () => {
+  describe('parseMentionIds', () => {
+    it('should return distinct mentioned user ids in order', () => {
+      const text = `@[Anna Svensson](${ANNA}) and @[Bo Ek](${BO.toUpperCase()}), see above @[Anna Svensson](${ANNA})`;
+      expect(parseMentionIds(text)).toEqual([ANNA, BO]);
+    });
+
+    it('should ignore plain @names, emails and malformed tokens', () => {
+      const text = 'Ask @anna or mail anna@example.com — @[Anna](not-a-uuid) @[](' + ANNA + ')';
+      expect(parseMentionIds(text)).toEqual([]);
+    });
+  });
+
+  describe('mentionsToPlainText', () => {
+    it('should replace tokens with @Display Name', () => {
+      expect(mentionsToPlainText(`Thanks @[Anna Svensson](${ANNA})!`)).toBe('Thanks @Anna Svensson!');
+    });
+
+    it('should leave text without mentions unchanged', () => {
+      expect(mentionsToPlainText('No mentions here @all')).toBe('No mentions here @all');
+    });
+  });
+});
@@ -9,16 +9,23 @@ import { apiLimiter } from './middleware/rateLimiter';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFound';
 import { authenticate } from './middleware/authenticate';
+import { hasGlobalProjectAccess } from './middleware/projectAccess';
+import { parsePagination } from './middleware/pagination';
 import { sendSuccess } from './utils/response';
 import * as taskModel from './models/task.model';
+import * as savedViewModel from './models/savedView.model';
+import * as mentionModel from './models/mention.model';
 import healthRoutes from './routes/health';
 import authRoutes from './routes/auth.routes';
 import projectRoutes from './routes/project.routes';
 import taskRoutes from './routes/task.routes';
 import taskCommentRoutes from './routes/taskComment.routes';
+import taskRelationRoutes from './routes/taskRelation.routes';
+import taskChecklistRoutes from './routes/taskChecklist.routes';
 import userRoutes from './routes/user.routes';
 import adminRoutes from './routes/admin.routes';
 import blueprintRoutes from './routes/blueprint.routes';
+import drawingSetRoutes from './routes/drawingSet.routes';
 import taskPhotoRoutes from './routes/taskPhoto.routes';
 import protocolRoutes from './routes/protocol.routes';
 import organizationRoutes from './routes/organization.routes';
@@ -26,11 +33,24 @@ import storageRoutes from './routes/storage.routes';
 import productRoutes from './routes/product.routes';
 import taskProductRoutes from './routes/taskProduct.routes';
 import { adminRouter as adminCustomFieldRoutes, publicRouter as publicCustomFieldRoutes } from './routes/customField.routes';
+import { adminRouter as adminTaskTemplateRoutes, publicRouter as publicTaskTemplateRoutes } from './routes/taskTemplate.routes';
+import { adminRouter as adminWorkflowRoutes, publicRouter as publicWorkflowRoutes } from './routes/workflow.routes';
+import slaRoutes from './routes/sla.routes';
 import reportRoutes from './routes/report.routes';
 import publicSigningRoutes from './routes/publicSigning.routes';
+import publicPortalRoutes from './routes/publicPortal.routes';
 import projectNoteRoutes from './routes/projectNote.routes';
+import projectMemberRoutes from './routes/projectMember.routes';
+import savedViewRoutes from './routes/savedView.routes';
 import backupRoutes from './routes/backup.routes';
 import bugReportRoutes from './routes/bugReport.routes';
+import inboundEmailRoutes from './routes/inboundEmail.routes';
+import emailQuarantineRoutes from './routes/emailQuarantine.routes';
+import contractorPortalRoutes from './routes/contractorPortal.routes';
+import taskRecurrenceRoutes from './routes/taskRecurrence.routes';
+import eventRoutes from './routes/events.routes';
+import searchRoutes from './routes/search.routes';
+import notificationRoutes from './routes/notification.routes';
 import config from './config';
 
 const app = express();
@@ -48,9 +68,14 @@ app.use(cors({
     : ['http://localhost:5173', 'http://localhost:3001'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-ms-blob-type'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-ms-blob-type', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed'],
 }));
 
+// Inbound email webhook — mounted before the body parsers because it verifies
+// an HMAC over the raw request body
+app.use('/api/v1/webhooks/email', requestIdMiddleware, inboundEmailRoutes);
+
 // Parsing
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
@@ -75,36 +100,86 @@ if (config.env !== 'test') {
   app.use('/api/v1', apiLimiter);
 }
 app.use('/api/v1/auth', authRoutes);
+app.use('/api/v1/events', eventRoutes);
 app.use('/api/v1/public/sign', publicSigningRoutes);
+app.use('/api/v1/public/portal', publicPortalRoutes);
 app.use('/api/v1/projects', projectRoutes);
 app.use('/api/v1/projects/:projectId/tasks', taskRoutes);
 app.use('/api/v1/projects/:projectId/tasks/:taskId/comments', taskCommentRoutes);
+app.use('/api/v1/projects/:projectId/tasks/:taskId/relations', taskRelationRoutes);
+app.use('/api/v1/projects/:projectId/tasks/:taskId/checklist', taskChecklistRoutes);
 app.use('/api/v1/projects/:projectId/tasks/:taskId/photos', taskPhotoRoutes);
 app.use('/api/v1/projects/:projectId/blueprints', blueprintRoutes);
+app.use('/api/v1/projects/:projectId/drawing-sets', drawingSetRoutes);
 app.use('/api/v1/projects/:projectId/protocols', protocolRoutes);
 app.use('/api/v1/projects/:projectId/notes', projectNoteRoutes);
+app.use('/api/v1/projects/:projectId/members', projectMemberRoutes);
+app.use('/api/v1/projects/:projectId/views', savedViewRoutes);
+app.use('/api/v1/projects/:projectId/email-quarantine', emailQuarantineRoutes);
+app.use('/api/v1/projects/:projectId/portal-links', contractorPortalRoutes);
+app.use('/api/v1/projects/:projectId/recurrences', taskRecurrenceRoutes);
 
 // Standalone route — Express 5 doesn't match multi-segment paths on mounted routers
 app.get('/api/v1/users/me/tasks', authenticate, async (req, res, next) => {
   try {
-    const tasks = await taskModel.findTasksByUser(req.user!.userId, req.user!.organizationId);
+    const tasks = await taskModel.findTasksByUser(req.user!.userId, req.user!.organizationId, {
+      overdue: req.query.overdue === 'true',
+      // Tasks in projects the user has been removed from stay hidden
+      memberProjectsOnly: !hasGlobalProjectAccess(req.user!.role),
+    });
     sendSuccess(res, { tasks });
   } catch (err) {
     next(err);
   }
 });
 
+app.get('/api/v1/users/me/views/pinned', authenticate, async (req, res, next) => {
+  try {
+    const views = await savedViewModel.findPinnedViews(req.user!.userId, req.user!.organizationId, {
+      memberProjectsOnly: !hasGlobalProjectAccess(req.user!.role),
+    });
+    sendSuccess(res, { views });
+  } catch (err) {
+    next(err);
+  }
+});
+
+app.get('/api/v1/users/me/mentions', authenticate, parsePagination, async (req, res, next) => {
+  try {
+    const { mentions, total } = await mentionModel.findMentionsByUser(req.user!.userId, req.user!.organizationId, {
+      memberProjectsOnly: !hasGlobalProjectAccess(req.user!.role),
+      limit: req.pagination!.limit,
+      offset: req.pagination!.offset,
+    });
+    sendSuccess(res, { mentions }, 200, {
+      page: req.pagination!.page,
+      limit: req.pagination!.limit,
+      total,
+      totalPages: Math.ceil(total / req.pagination!.limit),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
 app.use('/api/v1/users', userRoutes);
 app.use('/api/v1/organizations', organizationRoutes);
 app.use('/api/v1/storage', storageRoutes);
 app.use('/api/v1/products', productRoutes);
 app.use('/api/v1/projects/:projectId/tasks/:taskId/products', taskProductRoutes);
 app.use('/api/v1/admin/custom-fields', adminCustomFieldRoutes);
+app.use('/api/v1/admin/task-templates', adminTaskTemplateRoutes);
 app.use('/api/v1/admin/reports', reportRoutes);
 app.use('/api/v1/admin/backups', backupRoutes);
+app.use('/api/v1/admin/workflow', adminWorkflowRoutes);
+app.use('/api/v1/admin/sla-rules', slaRoutes);
 app.use('/api/v1/admin', adminRoutes);
 app.use('/api/v1/custom-fields', publicCustomFieldRoutes);
+app.use('/api/v1/task-templates', publicTaskTemplateRoutes);
+app.use('/api/v1/workflow', publicWorkflowRoutes);
 app.use('/api/v1/bug-reports', bugReportRoutes);
+app.use('/api/v1/search', searchRoutes);
+app.use('/api/v1/notifications', notificationRoutes);
 
 // Error handling
 app.use(notFoundHandler);
@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import config from './index';
 import { logger } from '../utils/logger';
 
@@ -18,4 +18,7 @@ pool.on('connect', () => {
   logger.debug('New database connection established');
 });
 
+/** The pool itself, or a client checked out of it for a transaction. */
+export type Queryable = Pick<PoolClient, 'query'>;
+
 export default pool;
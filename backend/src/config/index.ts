@@ -38,10 +38,35 @@ const config = {
   email: {
     sender: process.env.EMAIL_SENDER || 'dev@constructionapp.com',
     webhookSecret: process.env.EMAIL_WEBHOOK_SECRET || 'dev-webhook-secret',
+    replyDomain: process.env.EMAIL_REPLY_DOMAIN || '',
     smtpHost: process.env.SMTP_HOST || 'localhost',
     smtpPort: parseInt(process.env.SMTP_PORT || '1025', 10),
   },
 
+  dueDates: {
+    reminderDays: parseInt(process.env.DUE_REMINDER_DAYS || '2', 10),
+    checkCron: process.env.DUE_CHECK_CRON || '0 7 * * *', // daily at 07:00
+    // Default due dates count calendar days from today in this timezone
+    timezone: process.env.DUE_DATE_TIMEZONE || 'Europe/Stockholm',
+  },
+
+  digests: {
+    // Each run sends the digests that have come due since the last one
+    checkCron: process.env.DIGEST_CHECK_CRON || '*/15 * * * *',
+    defaultTimezone: process.env.DIGEST_DEFAULT_TIMEZONE || 'Europe/Stockholm',
+  },
+
+  recurrences: {
+    checkCron: process.env.RECURRENCE_CHECK_CRON || '0 5 * * *', // daily at 05:00
+    // Occurrence dates are calendar days in this timezone
+    timezone: process.env.RECURRENCE_TIMEZONE || 'Europe/Stockholm',
+  },
+
+  cleanup: {
+    // Expired idempotency keys, webhook delivery records and other short-lived rows are purged on this schedule
+    cron: process.env.CLEANUP_CRON || '30 3 * * *', // daily at 03:30
+  },
+
   rateLimit: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
@@ -2,16 +2,30 @@ import app from './app';
 import config from './config';
 import { logger } from './utils/logger';
 import { initBackupScheduler } from './services/backup.service';
+import { initDueDateScheduler } from './services/sla.service';
+import { initDigestScheduler } from './services/digest.service';
+import { initRecurrenceScheduler } from './services/taskRecurrence.service';
+import { initCleanupScheduler } from './services/cleanup.service';
+import { resumePendingPreviews } from './services/blueprintPreview.service';
+import { initRealtimeListener, stopRealtime } from './services/realtime.service';
 import pool from './config/database';
 
 const server = app.listen(config.port, () => {
   logger.info({ port: config.port, env: config.env }, 'Server started');
   initBackupScheduler();
+  initDueDateScheduler();
+  initDigestScheduler();
+  initRecurrenceScheduler();
+  initCleanupScheduler();
+  initRealtimeListener();
+  resumePendingPreviews();
 });
 
 // Graceful shutdown
 const shutdown = (signal: string) => {
   logger.info({ signal }, 'Shutdown signal received');
+  // Open event streams would otherwise keep server.close() waiting
+  stopRealtime();
   server.close(async () => {
     logger.info('Server closed');
     await pool.end();
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import * as idempotencyKeyModel from '../models/idempotencyKey.model';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Makes a POST safe to retry. When the client sends an `Idempotency-Key`
+ * header, the first response for that key is stored and replayed verbatim for
+ * any later request with the same key, so queued offline requests never create
+ * duplicates. Requests without the header pass through untouched.
+ *
+ * Must run after `authenticate`; keys are scoped per user.
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const key = req.get('Idempotency-Key');
+  if (!key || !req.user) {
+    next();
+    return;
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    sendError(res, 400, 'VALIDATION_ERROR', `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    return;
+  }
+
+  try {
+    const path = req.originalUrl.split('?')[0];
+    const reserved = await idempotencyKeyModel.reserveKey({
+      userId: req.user.userId,
+      key,
+      method: req.method,
+      path,
+    });
+
+    if (!reserved) {
+      const existing = await idempotencyKeyModel.findKey(req.user.userId, key);
+      if (existing && (existing.request_method !== req.method || existing.request_path !== path)) {
+        sendError(res, 422, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used for a different request');
+        return;
+      }
+      if (!existing || existing.response_status === null) {
+        sendError(res, 409, 'IDEMPOTENCY_IN_PROGRESS', 'A request with this Idempotency-Key is still being processed');
+        return;
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      res.status(existing.response_status).json(existing.response_body);
+      return;
+    }
+
+    // Capture the JSON body so the response can be replayed later
+    let captured: { body: unknown } | null = null;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      captured = { body };
+      return originalJson(body);
+    };
+
+    // Settle the key once the response is over. A response that was not sent
+    // as JSON, failed, or never finished (the client went away) releases it so
+    // the request can be retried.
+    let settled = false;
+    const settle = (finished: boolean) => {
+      if (settled) return;
+      settled = true;
+      const status = res.statusCode;
+      const persist = finished && captured && status < 500
+        ? idempotencyKeyModel.saveResponse(reserved.id, status, captured.body)
+        : idempotencyKeyModel.releaseKey(reserved.id);
+      persist.catch((err) => logger.error({ err, key }, 'Failed to persist idempotency key'));
+    };
+    res.on('finish', () => settle(true));
+    res.on('close', () => settle(false));
+
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
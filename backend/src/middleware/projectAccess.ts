@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { ProjectRole, UserRole } from '../types';
+import { sendError } from '../utils/response';
+import { param } from '../utils/params';
+import * as projectMemberModel from '../models/projectMember.model';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Org admins see every project in their organisation and manage it as if they were a project manager. */
+export function hasGlobalProjectAccess(role: UserRole): boolean {
+  return role === UserRole.SUPER_ADMIN || role === UserRole.ORG_ADMIN;
+}
+
+/**
+ * Resolves the caller's role on :projectId. Projects outside the organisation
+ * and projects the caller is not a member of are reported as not found;
+ * viewers may only read.
+ */
+export async function requireProjectAccess(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.user) {
+    sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
+    return;
+  }
+
+  try {
+    const access = await projectMemberModel.findProjectAccess(
+      param(req.params.projectId),
+      req.user.organizationId,
+      req.user.userId,
+    );
+    const role = hasGlobalProjectAccess(req.user.role) ? ProjectRole.MANAGER : access?.role;
+    if (!access || !role) {
+      sendError(res, 404, 'NOT_FOUND', 'Project not found');
+      return;
+    }
+
+    if (role === ProjectRole.VIEWER && !READ_METHODS.includes(req.method)) {
+      sendError(res, 403, 'FORBIDDEN', 'Viewers cannot make changes to this project');
+      return;
+    }
+
+    req.projectRole = role;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** Must run after requireProjectAccess. */
+export function requireProjectRole(...allowedRoles: ProjectRole[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.projectRole || !allowedRoles.includes(req.projectRole)) {
+      sendError(res, 403, 'FORBIDDEN', 'Insufficient project permissions');
+      return;
+    }
+
+    next();
+  };
+}
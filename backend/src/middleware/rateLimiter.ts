@@ -51,3 +51,14 @@ export const backupLimiter = rateLimit({
     sendError(res, 429, 'RATE_LIMITED', 'Too many backup requests. Please try again later.');
   },
 });
+
+// The inbound email webhook is mounted ahead of apiLimiter
+export const inboundEmailLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    sendError(res, 429, 'RATE_LIMITED', 'Too many inbound emails. Please try again later.');
+  },
+});
@@ -2,6 +2,16 @@ import { Request, Response, NextFunction } from 'express';
 import { ZodSchema, ZodError } from 'zod';
 import { sendError } from '../utils/response';
 
+/** Error details keyed by the dotted path of each invalid field. */
+export function zodErrorDetails(err: ZodError): Record<string, string> {
+  const details: Record<string, string> = {};
+  err.issues.forEach((e) => {
+    const path = e.path.map(String).join('.');
+    details[path] = e.message;
+  });
+  return details;
+}
+
 export function validate(schema: ZodSchema) {
   return (req: Request, res: Response, next: NextFunction): void => {
     try {
@@ -9,12 +19,7 @@ export function validate(schema: ZodSchema) {
       next();
     } catch (err) {
       if (err instanceof ZodError) {
-        const details: Record<string, string> = {};
-        err.issues.forEach((e) => {
-          const path = e.path.map(String).join('.');
-          details[path] = e.message;
-        });
-        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', details);
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', zodErrorDetails(err));
         return;
       }
       next(err);
@@ -30,12 +35,7 @@ export function validateQuery(schema: ZodSchema) {
       next();
     } catch (err) {
       if (err instanceof ZodError) {
-        const details: Record<string, string> = {};
-        err.issues.forEach((e) => {
-          const path = e.path.map(String).join('.');
-          details[path] = e.message;
-        });
-        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid query parameters', details);
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid query parameters', zodErrorDetails(err));
         return;
       }
       next(err);
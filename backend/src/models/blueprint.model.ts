@@ -1,4 +1,23 @@
 import pool from '../config/database';
+import { BlueprintRevisionRow } from './blueprintRevision.model';
+
+/**
+ * Drawing scale of a page, from a line drawn over a known dimension or the
+ * scale the drawing is printed at. Points relative to the page are turned into
+ * page units with the page size it was calibrated on.
+ */
+export interface ScaleCalibration {
+  page: number;
+  method: 'line' | 'scale';
+  pageWidth: number;
+  pageHeight: number;
+  metresPerUnit: number;
+  /** The line drawn, relative to the page, and its length in metres */
+  line?: { x1: number; y1: number; x2: number; y2: number; length: number };
+  /** e.g. 100 for 1:100, printed on paperSize */
+  ratio?: number;
+  paperSize?: string;
+}
 
 export interface BlueprintRow {
   id: string;
@@ -10,18 +29,44 @@ export interface BlueprintRow {
   thumbnail_url: string | null;
   width_pixels: number | null;
   height_pixels: number | null;
+  page_count: number | null;
   uploaded_by: string | null;
   uploaded_at: Date;
+  current_revision_id: string | null;
+  /** Set when the blueprint is a sheet split from a drawing set */
+  drawing_set_id: string | null;
+  sheet_number: string | null;
+  discipline: string | null;
+  set_page: number | null;
+  scale_calibrations: ScaleCalibration[] | null;
+}
+
+export interface BlueprintWithRevision extends BlueprintRow {
+  current_revision_number: number | null;
+  current_revision_label: string | null;
+  revision_count: number;
+  drawing_set_name: string | null;
+  /** Annotated tasks still waiting to be reviewed after a revision change */
+  review_task_count: number;
 }
 
 export async function findBlueprintsByProject(
   projectId: string,
   organizationId: string,
-): Promise<BlueprintRow[]> {
+): Promise<BlueprintWithRevision[]> {
   const result = await pool.query(
-    `SELECT b.*
+    `SELECT b.*,
+       cr.revision_number as current_revision_number,
+       cr.label as current_revision_label,
+       (SELECT COUNT(*) FROM blueprint_revisions r WHERE r.blueprint_id = b.id AND r.confirmed_at IS NOT NULL)::int
+         as revision_count,
+       (SELECT COUNT(*) FROM tasks t WHERE t.blueprint_id = b.id AND t.annotation_revision_id IS NOT NULL)::int
+         as review_task_count,
+       ds.name as drawing_set_name
      FROM blueprints b
      JOIN projects p ON p.id = b.project_id
+     LEFT JOIN blueprint_revisions cr ON cr.id = b.current_revision_id
+     LEFT JOIN drawing_sets ds ON ds.id = b.drawing_set_id
      WHERE b.project_id = $1 AND p.organization_id = $2
      ORDER BY b.uploaded_at DESC`,
     [projectId, organizationId],
@@ -61,15 +106,21 @@ export async function createBlueprint(data: {
   widthPixels?: number;
   heightPixels?: number;
   uploadedBy: string;
+  drawingSetId?: string;
+  sheetNumber?: string | null;
+  discipline?: string;
+  setPage?: number;
 }): Promise<BlueprintRow> {
   const result = await pool.query(
-    `INSERT INTO blueprints (project_id, name, file_url, file_size_bytes, mime_type, thumbnail_url, width_pixels, height_pixels, uploaded_by)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+    `INSERT INTO blueprints (project_id, name, file_url, file_size_bytes, mime_type, thumbnail_url, width_pixels, height_pixels, uploaded_by,
+       drawing_set_id, sheet_number, discipline, set_page)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
     [
       data.projectId, data.name, data.fileUrl, data.fileSizeBytes,
       data.mimeType, data.thumbnailUrl || null,
       data.widthPixels ?? null, data.heightPixels ?? null,
       data.uploadedBy,
+      data.drawingSetId ?? null, data.sheetNumber ?? null, data.discipline ?? null, data.setPage ?? null,
     ],
   );
   return result.rows[0];
@@ -81,16 +132,104 @@ export async function updateBlueprintAfterConfirm(
     fileUrl: string;
     fileSizeBytes: number;
     thumbnailUrl?: string;
+    pageCount?: number | null;
+    widthPixels?: number | null;
+    heightPixels?: number | null;
   },
 ): Promise<BlueprintRow | null> {
   const result = await pool.query(
-    `UPDATE blueprints SET file_url = $1, file_size_bytes = $2, thumbnail_url = $3
-     WHERE id = $4 RETURNING *`,
-    [data.fileUrl, data.fileSizeBytes, data.thumbnailUrl || null, id],
+    `UPDATE blueprints SET file_url = $1, file_size_bytes = $2, thumbnail_url = $3,
+       page_count = $4, width_pixels = $5, height_pixels = $6
+     WHERE id = $7 RETURNING *`,
+    [
+      data.fileUrl, data.fileSizeBytes, data.thumbnailUrl || null,
+      data.pageCount ?? null, data.widthPixels ?? null, data.heightPixels ?? null, id,
+    ],
   );
   return result.rows[0] || null;
 }
 
+/** Make the revision current; the blueprint row mirrors its file. */
+export async function setCurrentRevision(
+  blueprintId: string,
+  revision: BlueprintRevisionRow,
+): Promise<BlueprintRow | null> {
+  const result = await pool.query(
+    `UPDATE blueprints
+     SET current_revision_id = $1, file_url = $2, file_size_bytes = $3, mime_type = $4, thumbnail_url = $5,
+       page_count = $6, width_pixels = $7, height_pixels = $8
+     WHERE id = $9 RETURNING *`,
+    [
+      revision.id, revision.file_url, revision.file_size_bytes, revision.mime_type, revision.thumbnail_url,
+      revision.page_count, revision.width_pixels, revision.height_pixels, blueprintId,
+    ],
+  );
+  return result.rows[0] || null;
+}
+
+/** Mirror the revision's thumbnail and page details again if it is still current, e.g. once previews are rendered. */
+export async function syncCurrentRevision(revision: BlueprintRevisionRow): Promise<void> {
+  await pool.query(
+    `UPDATE blueprints
+     SET thumbnail_url = $1, page_count = $2, width_pixels = $3, height_pixels = $4
+     WHERE id = $5 AND current_revision_id = $6`,
+    [
+      revision.thumbnail_url, revision.page_count, revision.width_pixels, revision.height_pixels,
+      revision.blueprint_id, revision.id,
+    ],
+  );
+}
+
+export async function setScaleCalibrations(
+  id: string,
+  calibrations: ScaleCalibration[],
+): Promise<BlueprintRow | null> {
+  const result = await pool.query(
+    'UPDATE blueprints SET scale_calibrations = $1 WHERE id = $2 RETURNING *',
+    [calibrations.length > 0 ? JSON.stringify(calibrations) : null, id],
+  );
+  return result.rows[0] || null;
+}
+
+/** Sheets of a drawing set in the order of its pages. */
+export async function findBlueprintsByDrawingSet(drawingSetId: string): Promise<BlueprintRow[]> {
+  const result = await pool.query(
+    'SELECT * FROM blueprints WHERE drawing_set_id = $1 ORDER BY set_page, name',
+    [drawingSetId],
+  );
+  return result.rows;
+}
+
+/** Rename sheets of a drawing set and move them between discipline folders, all or none. */
+export async function updateSheets(
+  drawingSetId: string,
+  sheets: Array<{ id: string; sheetNumber?: string | null; name?: string; discipline?: string }>,
+): Promise<BlueprintRow[]> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const updated: BlueprintRow[] = [];
+    for (const sheet of sheets) {
+      const result = await client.query(
+        `UPDATE blueprints SET
+           sheet_number = CASE WHEN $1 THEN $2 ELSE sheet_number END,
+           name = COALESCE($3, name),
+           discipline = COALESCE($4, discipline)
+         WHERE id = $5 AND drawing_set_id = $6 RETURNING *`,
+        [sheet.sheetNumber !== undefined, sheet.sheetNumber ?? null, sheet.name ?? null, sheet.discipline ?? null, sheet.id, drawingSetId],
+      );
+      if (result.rows[0]) updated.push(result.rows[0]);
+    }
+    await client.query('COMMIT');
+    return updated;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 export async function deleteBlueprint(id: string): Promise<BlueprintRow | null> {
   const result = await pool.query(
     'DELETE FROM blueprints WHERE id = $1 RETURNING *',
@@ -0,0 +1,62 @@
+import pool from '../config/database';
+
+export interface BlueprintComparisonRow {
+  id: string;
+  blueprint_id: string;
+  from_revision_id: string;
+  to_revision_id: string;
+  file_url: string;
+  width: number;
+  height: number;
+  changed_ratio: number;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export async function findComparison(
+  blueprintId: string,
+  fromRevisionId: string,
+  toRevisionId: string,
+): Promise<BlueprintComparisonRow | null> {
+  const result = await pool.query(
+    `SELECT * FROM blueprint_revision_comparisons
+     WHERE blueprint_id = $1 AND from_revision_id = $2 AND to_revision_id = $3`,
+    [blueprintId, fromRevisionId, toRevisionId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function findComparisonsByBlueprint(blueprintId: string): Promise<BlueprintComparisonRow[]> {
+  const result = await pool.query(
+    'SELECT * FROM blueprint_revision_comparisons WHERE blueprint_id = $1 ORDER BY created_at',
+    [blueprintId],
+  );
+  return result.rows;
+}
+
+/** Record a generated comparison, replacing an earlier one of the same pair. */
+export async function createComparison(data: {
+  blueprintId: string;
+  fromRevisionId: string;
+  toRevisionId: string;
+  fileUrl: string;
+  width: number;
+  height: number;
+  changedRatio: number;
+  createdBy: string;
+}): Promise<BlueprintComparisonRow> {
+  const result = await pool.query(
+    `INSERT INTO blueprint_revision_comparisons
+       (blueprint_id, from_revision_id, to_revision_id, file_url, width, height, changed_ratio, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (from_revision_id, to_revision_id) DO UPDATE SET
+       file_url = EXCLUDED.file_url, width = EXCLUDED.width, height = EXCLUDED.height,
+       changed_ratio = EXCLUDED.changed_ratio, created_by = EXCLUDED.created_by, created_at = NOW()
+     RETURNING *`,
+    [
+      data.blueprintId, data.fromRevisionId, data.toRevisionId, data.fileUrl,
+      data.width, data.height, data.changedRatio, data.createdBy,
+    ],
+  );
+  return result.rows[0];
+}
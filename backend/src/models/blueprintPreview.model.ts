@@ -0,0 +1,61 @@
+import pool from '../config/database';
+
+export type PreviewSize = 'small' | 'large';
+
+export interface BlueprintPagePreviewRow {
+  id: string;
+  revision_id: string;
+  page: number;
+  size: PreviewSize;
+  file_url: string;
+  width: number;
+  height: number;
+  created_at: Date;
+}
+
+export async function findPreviewsByRevision(revisionId: string): Promise<BlueprintPagePreviewRow[]> {
+  const result = await pool.query(
+    'SELECT * FROM blueprint_page_previews WHERE revision_id = $1 ORDER BY page, size',
+    [revisionId],
+  );
+  return result.rows;
+}
+
+/** Previews of all revisions of the blueprint, for cleaning up its files. */
+export async function findPreviewsByBlueprint(blueprintId: string): Promise<BlueprintPagePreviewRow[]> {
+  const result = await pool.query(
+    `SELECT pp.* FROM blueprint_page_previews pp
+     JOIN blueprint_revisions r ON r.id = pp.revision_id
+     WHERE r.blueprint_id = $1`,
+    [blueprintId],
+  );
+  return result.rows;
+}
+
+export async function upsertPreview(data: {
+  revisionId: string;
+  page: number;
+  size: PreviewSize;
+  fileUrl: string;
+  width: number;
+  height: number;
+}): Promise<BlueprintPagePreviewRow> {
+  const result = await pool.query(
+    `INSERT INTO blueprint_page_previews (revision_id, page, size, file_url, width, height)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (revision_id, page, size) DO UPDATE SET
+       file_url = EXCLUDED.file_url, width = EXCLUDED.width, height = EXCLUDED.height, created_at = NOW()
+     RETURNING *`,
+    [data.revisionId, data.page, data.size, data.fileUrl, data.width, data.height],
+  );
+  return result.rows[0];
+}
+
+/** Drop previews of pages beyond the given count, left over from an earlier rendering. */
+export async function deletePreviewsAfterPage(revisionId: string, pageCount: number): Promise<BlueprintPagePreviewRow[]> {
+  const result = await pool.query(
+    'DELETE FROM blueprint_page_previews WHERE revision_id = $1 AND page > $2 RETURNING *',
+    [revisionId, pageCount],
+  );
+  return result.rows;
+}
@@ -0,0 +1,210 @@
+import pool from '../config/database';
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** Server-side rendering of PDF page previews; null for image revisions. */
+export type PreviewStatus = 'pending' | 'ready' | 'failed';
+
+export interface BlueprintRevisionRow {
+  id: string;
+  blueprint_id: string;
+  revision_number: number;
+  label: string;
+  file_url: string;
+  file_size_bytes: number;
+  mime_type: string;
+  thumbnail_url: string | null;
+  page_count: number | null;
+  page_sizes: PageSize[] | null;
+  preview_status: PreviewStatus | null;
+  /** First page as rendered for previews, or the image size */
+  width_pixels: number | null;
+  height_pixels: number | null;
+  uploaded_by: string | null;
+  uploaded_at: Date;
+  confirmed_at: Date | null;
+}
+
+export interface BlueprintRevisionWithDetails extends BlueprintRevisionRow {
+  uploaded_by_first_name: string | null;
+  uploaded_by_last_name: string | null;
+  /** Tasks whose annotation is still drawn on this revision, waiting for review */
+  review_task_count: number;
+}
+
+/** What revision carry-over needs to know about an annotated task. */
+export interface AnnotatedTask {
+  id: string;
+  task_number: number;
+  annotation_page: number | null;
+  annotation_markers: Array<{ id: string; x: number; y: number; page: number }> | null;
+  measurements: Array<{ page: number }> | null;
+  annotation_revision_id: string | null;
+  annotation_recorded_revision_id: string | null;
+}
+
+const ANNOTATED = '(t.annotation_x IS NOT NULL OR t.annotation_markers IS NOT NULL OR t.measurements IS NOT NULL)';
+
+export async function findRevisionsByBlueprint(blueprintId: string): Promise<BlueprintRevisionWithDetails[]> {
+  const result = await pool.query(
+    `SELECT r.*, u.first_name as uploaded_by_first_name, u.last_name as uploaded_by_last_name,
+       (SELECT COUNT(*) FROM tasks t WHERE t.annotation_revision_id = r.id)::int as review_task_count
+     FROM blueprint_revisions r
+     LEFT JOIN users u ON u.id = r.uploaded_by
+     WHERE r.blueprint_id = $1
+     ORDER BY r.revision_number DESC`,
+    [blueprintId],
+  );
+  return result.rows;
+}
+
+export async function findRevisionById(id: string, blueprintId: string): Promise<BlueprintRevisionRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM blueprint_revisions WHERE id = $1 AND blueprint_id = $2',
+    [id, blueprintId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function nextRevisionNumber(blueprintId: string): Promise<number> {
+  const result = await pool.query(
+    'SELECT COALESCE(MAX(revision_number), 0) + 1 AS next FROM blueprint_revisions WHERE blueprint_id = $1',
+    [blueprintId],
+  );
+  return parseInt(result.rows[0].next, 10);
+}
+
+export async function createRevision(data: {
+  id: string;
+  blueprintId: string;
+  revisionNumber: number;
+  label: string;
+  fileUrl: string;
+  fileSizeBytes: number;
+  mimeType: string;
+  uploadedBy: string;
+}): Promise<BlueprintRevisionRow> {
+  const result = await pool.query(
+    `INSERT INTO blueprint_revisions (id, blueprint_id, revision_number, label, file_url, file_size_bytes, mime_type, uploaded_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+    [
+      data.id, data.blueprintId, data.revisionNumber, data.label,
+      data.fileUrl, data.fileSizeBytes, data.mimeType, data.uploadedBy,
+    ],
+  );
+  return result.rows[0];
+}
+
+export async function confirmRevision(
+  id: string,
+  data: {
+    fileSizeBytes: number;
+    thumbnailUrl?: string;
+    pageSizes: PageSize[] | null;
+    previewStatus?: PreviewStatus;
+    widthPixels?: number;
+    heightPixels?: number;
+  },
+): Promise<BlueprintRevisionRow | null> {
+  const result = await pool.query(
+    `UPDATE blueprint_revisions
+     SET file_size_bytes = $1, thumbnail_url = $2, page_count = $3, page_sizes = $4,
+       preview_status = $5, width_pixels = $6, height_pixels = $7, confirmed_at = NOW()
+     WHERE id = $8 RETURNING *`,
+    [
+      data.fileSizeBytes, data.thumbnailUrl || null,
+      data.pageSizes ? data.pageSizes.length : null,
+      data.pageSizes ? JSON.stringify(data.pageSizes) : null,
+      data.previewStatus ?? null, data.widthPixels ?? null, data.heightPixels ?? null,
+      id,
+    ],
+  );
+  return result.rows[0] || null;
+}
+
+export async function setPageSizes(id: string, pageSizes: PageSize[]): Promise<void> {
+  await pool.query(
+    'UPDATE blueprint_revisions SET page_count = $1, page_sizes = $2 WHERE id = $3',
+    [pageSizes.length, JSON.stringify(pageSizes), id],
+  );
+}
+
+export async function setPreviewStatus(id: string, status: PreviewStatus): Promise<void> {
+  await pool.query('UPDATE blueprint_revisions SET preview_status = $1 WHERE id = $2', [status, id]);
+}
+
+/** Revisions whose previews were still being rendered, with the project they belong to. */
+export async function findRevisionsWithPendingPreviews(): Promise<
+  Array<BlueprintRevisionRow & { organization_id: string; project_id: string }>
+> {
+  const result = await pool.query(
+    `SELECT r.*, p.organization_id, b.project_id
+     FROM blueprint_revisions r
+     JOIN blueprints b ON b.id = r.blueprint_id
+     JOIN projects p ON p.id = b.project_id
+     WHERE r.preview_status = 'pending'
+     ORDER BY r.confirmed_at`,
+  );
+  return result.rows;
+}
+
+/** Store the outcome of rendering previews: the first page doubles as thumbnail and pixel size. */
+export async function setPreviewsReady(
+  id: string,
+  data: { thumbnailUrl: string | null; widthPixels: number; heightPixels: number },
+): Promise<BlueprintRevisionRow | null> {
+  const result = await pool.query(
+    `UPDATE blueprint_revisions
+     SET preview_status = 'ready', thumbnail_url = COALESCE($1, thumbnail_url), width_pixels = $2, height_pixels = $3
+     WHERE id = $4 RETURNING *`,
+    [data.thumbnailUrl, data.widthPixels, data.heightPixels, id],
+  );
+  return result.rows[0] || null;
+}
+
+/** Total size of the blueprint's uploaded revisions, for storage accounting. */
+export async function sumConfirmedRevisionSizes(blueprintId: string): Promise<number> {
+  const result = await pool.query(
+    `SELECT COALESCE(SUM(file_size_bytes), 0) AS total
+     FROM blueprint_revisions WHERE blueprint_id = $1 AND confirmed_at IS NOT NULL`,
+    [blueprintId],
+  );
+  return parseInt(result.rows[0].total, 10) || 0;
+}
+
+/** Annotated tasks on the blueprint, wherever their annotation currently is. */
+export async function findAnnotatedTasks(blueprintId: string): Promise<AnnotatedTask[]> {
+  const result = await pool.query(
+    `SELECT t.id, t.task_number, t.annotation_page, t.annotation_markers, t.measurements,
+       t.annotation_revision_id, t.annotation_recorded_revision_id
+     FROM tasks t
+     WHERE t.blueprint_id = $1 AND ${ANNOTATED}
+     ORDER BY t.task_number`,
+    [blueprintId],
+  );
+  return result.rows;
+}
+
+/**
+ * Remember the revision annotations were drawn on for tasks that do not know it
+ * yet: until the current revision changes, that is simply the current one.
+ */
+export async function fillRecordedRevision(blueprintId: string, revisionId: string): Promise<void> {
+  await pool.query(
+    `UPDATE tasks t SET annotation_recorded_revision_id = $2
+     WHERE t.blueprint_id = $1 AND t.annotation_recorded_revision_id IS NULL AND ${ANNOTATED}`,
+    [blueprintId, revisionId],
+  );
+}
+
+/** Keep annotations on the given revision for review, or with null, on the current one. */
+export async function setAnnotationRevision(taskIds: string[], revisionId: string | null): Promise<void> {
+  if (taskIds.length === 0) return;
+  await pool.query(
+    'UPDATE tasks SET annotation_revision_id = $2 WHERE id = ANY($1::uuid[])',
+    [taskIds, revisionId],
+  );
+}
@@ -6,11 +6,30 @@ export interface CommentRow {
   user_id: string | null;
   external_email: string | null;
   comment_text: string;
+  parent_id: string | null;
+  edited_at: Date | null;
+  deleted_at: Date | null;
+  deleted_by: string | null;
   created_at: Date;
   user_first_name?: string;
   user_last_name?: string;
 }
 
+export interface CommentEditRow {
+  id: string;
+  comment_id: string;
+  previous_text: string;
+  edited_by: string | null;
+  edited_at: Date;
+  editor_first_name: string | null;
+  editor_last_name: string | null;
+}
+
+// Deleted comments keep their place in the thread but never expose their text
+const COMMENT_COLUMNS = `tc.id, tc.task_id, tc.user_id, tc.external_email, tc.parent_id, tc.edited_at,
+  tc.deleted_at, tc.deleted_by, tc.created_at,
+  CASE WHEN tc.deleted_at IS NULL THEN tc.comment_text ELSE '' END AS comment_text`;
+
 export async function findCommentsByTask(
   taskId: string,
   pagination: { limit: number; offset: number } = { limit: 50, offset: 0 },
@@ -22,7 +41,7 @@ export async function findCommentsByTask(
   const total = parseInt(countResult.rows[0].count, 10);
 
   const result = await pool.query(
-    `SELECT tc.*, u.first_name as user_first_name, u.last_name as user_last_name
+    `SELECT ${COMMENT_COLUMNS}, u.first_name as user_first_name, u.last_name as user_last_name
      FROM task_comments tc
      LEFT JOIN users u ON u.id = tc.user_id
      WHERE tc.task_id = $1
@@ -34,16 +53,105 @@ export async function findCommentsByTask(
   return { comments: result.rows, total };
 }
 
+/** Every visible comment on the given tasks, oldest first. */
+export async function findVisibleCommentsByTasks(taskIds: string[]): Promise<CommentRow[]> {
+  if (taskIds.length === 0) return [];
+  const result = await pool.query(
+    `SELECT ${COMMENT_COLUMNS}, u.first_name as user_first_name, u.last_name as user_last_name
+     FROM task_comments tc
+     LEFT JOIN users u ON u.id = tc.user_id
+     WHERE tc.task_id = ANY($1) AND tc.deleted_at IS NULL
+     ORDER BY tc.created_at ASC`,
+    [taskIds],
+  );
+  return result.rows;
+}
+
+export async function findCommentById(id: string, taskId: string): Promise<CommentRow | null> {
+  const result = await pool.query(
+    `SELECT ${COMMENT_COLUMNS}, u.first_name as user_first_name, u.last_name as user_last_name
+     FROM task_comments tc
+     LEFT JOIN users u ON u.id = tc.user_id
+     WHERE tc.id = $1 AND tc.task_id = $2`,
+    [id, taskId],
+  );
+  return result.rows[0] || null;
+}
+
 export async function createComment(data: {
   taskId: string;
   userId?: string;
   externalEmail?: string;
   commentText: string;
+  parentId?: string;
 }): Promise<CommentRow> {
   const result = await pool.query(
-    `INSERT INTO task_comments (task_id, user_id, external_email, comment_text)
-     VALUES ($1, $2, $3, $4) RETURNING *`,
-    [data.taskId, data.userId || null, data.externalEmail || null, data.commentText],
+    `INSERT INTO task_comments (task_id, user_id, external_email, comment_text, parent_id)
+     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+    [data.taskId, data.userId || null, data.externalEmail || null, data.commentText, data.parentId || null],
   );
   return result.rows[0];
 }
+
+/** Replace the comment text, keeping the previous version in the edit history. */
+export async function updateCommentText(id: string, commentText: string, editedBy: string): Promise<CommentRow | null> {
+  const result = await pool.query(
+    `WITH previous AS (
+       SELECT id, comment_text FROM task_comments WHERE id = $1 AND deleted_at IS NULL FOR UPDATE
+     ), history AS (
+       INSERT INTO task_comment_edits (comment_id, previous_text, edited_by)
+       SELECT id, comment_text, $3 FROM previous
+     )
+     UPDATE task_comments tc SET comment_text = $2, edited_at = NOW()
+     FROM previous
+     WHERE tc.id = previous.id
+     RETURNING tc.*`,
+    [id, commentText, editedBy],
+  );
+  return result.rows[0] || null;
+}
+
+export async function softDeleteComment(id: string, deletedBy: string): Promise<CommentRow | null> {
+  const result = await pool.query(
+    `UPDATE task_comments SET deleted_at = NOW(), deleted_by = $2
+     WHERE id = $1 AND deleted_at IS NULL
+     RETURNING *`,
+    [id, deletedBy],
+  );
+  return result.rows[0] || null;
+}
+
+export async function findCommentEdits(commentId: string): Promise<CommentEditRow[]> {
+  const result = await pool.query(
+    `SELECT e.*, u.first_name AS editor_first_name, u.last_name AS editor_last_name
+     FROM task_comment_edits e
+     LEFT JOIN users u ON u.id = e.edited_by
+     WHERE e.comment_id = $1
+     ORDER BY e.edited_at ASC`,
+    [commentId],
+  );
+  return result.rows;
+}
+
+/**
+ * Copy the task's visible comments onto another task, keeping authors, times and
+ * threading; replies to deleted comments become top-level. Returns the id of
+ * each copy by the id of its original.
+ */
+export async function copyComments(fromTaskId: string, toTaskId: string): Promise<Map<string, string>> {
+  const result = await pool.query(
+    `WITH source AS (
+       SELECT tc.*, gen_random_uuid() AS new_id
+       FROM task_comments tc
+       WHERE tc.task_id = $1 AND tc.deleted_at IS NULL
+     ), copied AS (
+       INSERT INTO task_comments (id, task_id, user_id, external_email, comment_text, parent_id, edited_at, created_at)
+       SELECT s.new_id, $2, s.user_id, s.external_email, s.comment_text, parent.new_id, s.edited_at, s.created_at
+       FROM source s
+       LEFT JOIN source parent ON parent.id = s.parent_id
+     )
+     SELECT id, new_id FROM source`,
+    [fromTaskId, toTaskId],
+  );
+  return new Map(result.rows.map((row: { id: string; new_id: string }) => [row.id, row.new_id]));
+}
@@ -0,0 +1,123 @@
+import pool from '../config/database';
+
+export interface CommentAttachmentRow {
+  id: string;
+  task_id: string;
+  comment_id: string | null;
+  file_url: string;
+  file_name: string;
+  mime_type: string;
+  file_size_bytes: number;
+  thumbnail_url: string | null;
+  uploaded_by: string | null;
+  confirmed_at: Date | null;
+  created_at: Date;
+}
+
+export async function createAttachment(data: {
+  id: string;
+  taskId: string;
+  fileUrl: string;
+  fileName: string;
+  mimeType: string;
+  fileSizeBytes: number;
+  uploadedBy: string;
+}): Promise<CommentAttachmentRow> {
+  const result = await pool.query(
+    `INSERT INTO task_comment_attachments (id, task_id, file_url, file_name, mime_type, file_size_bytes, uploaded_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+    [data.id, data.taskId, data.fileUrl, data.fileName, data.mimeType, data.fileSizeBytes, data.uploadedBy],
+  );
+  return result.rows[0];
+}
+
+export async function findAttachmentById(id: string, taskId: string): Promise<CommentAttachmentRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM task_comment_attachments WHERE id = $1 AND task_id = $2',
+    [id, taskId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function confirmAttachment(
+  id: string,
+  data: { fileSizeBytes: number; thumbnailUrl?: string },
+): Promise<CommentAttachmentRow | null> {
+  const result = await pool.query(
+    `UPDATE task_comment_attachments SET file_size_bytes = $1, thumbnail_url = $2, confirmed_at = NOW()
+     WHERE id = $3 RETURNING *`,
+    [data.fileSizeBytes, data.thumbnailUrl || null, id],
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Link the uploader's confirmed, not yet used attachments to a comment.
+ * Returns the attachments that were linked.
+ */
+export async function attachToComment(
+  attachmentIds: string[],
+  data: { commentId: string; taskId: string; uploadedBy: string },
+): Promise<CommentAttachmentRow[]> {
+  if (attachmentIds.length === 0) return [];
+  const result = await pool.query(
+    `UPDATE task_comment_attachments SET comment_id = $1
+     WHERE id = ANY($2) AND task_id = $3 AND uploaded_by = $4
+       AND comment_id IS NULL AND confirmed_at IS NOT NULL
+     RETURNING *`,
+    [data.commentId, attachmentIds, data.taskId, data.uploadedBy],
+  );
+  return result.rows;
+}
+
+/** Attachments uploaded longer ago than the cutoff that never made it onto a comment. */
+export async function findUnattachedAttachments(
+  olderThanHours: number,
+): Promise<Array<CommentAttachmentRow & { organization_id: string }>> {
+  const result = await pool.query(
+    `SELECT a.*, p.organization_id
+     FROM task_comment_attachments a
+     JOIN tasks t ON t.id = a.task_id
+     JOIN projects p ON p.id = t.project_id
+     WHERE a.comment_id IS NULL AND a.created_at < NOW() - make_interval(hours => $1)`,
+    [olderThanHours],
+  );
+  return result.rows;
+}
+
+/** Delete an attachment unless it was linked to a comment in the meantime. */
+export async function deleteUnattachedAttachment(id: string): Promise<CommentAttachmentRow | null> {
+  const result = await pool.query(
+    'DELETE FROM task_comment_attachments WHERE id = $1 AND comment_id IS NULL RETURNING *',
+    [id],
+  );
+  return result.rows[0] || null;
+}
+
+export async function findAttachmentsByComments(commentIds: string[]): Promise<CommentAttachmentRow[]> {
+  if (commentIds.length === 0) return [];
+  const result = await pool.query(
+    `SELECT * FROM task_comment_attachments
+     WHERE comment_id = ANY($1)
+     ORDER BY created_at ASC`,
+    [commentIds],
+  );
+  return result.rows;
+}
+
+/** Record an attachment copied along with its comment; the file is already in place. */
+export async function createCopiedAttachment(
+  source: CommentAttachmentRow,
+  data: { id: string; taskId: string; commentId: string; fileUrl: string; thumbnailUrl: string | null },
+): Promise<CommentAttachmentRow> {
+  const result = await pool.query(
+    `INSERT INTO task_comment_attachments
+       (id, task_id, comment_id, file_url, file_name, mime_type, file_size_bytes, thumbnail_url, uploaded_by, confirmed_at, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), $10) RETURNING *`,
+    [
+      data.id, data.taskId, data.commentId, data.fileUrl, source.file_name, source.mime_type,
+      source.file_size_bytes, data.thumbnailUrl, source.uploaded_by, source.created_at,
+    ],
+  );
+  return result.rows[0];
+}
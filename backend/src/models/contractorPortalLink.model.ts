@@ -0,0 +1,81 @@
+import pool from '../config/database';
+
+export interface ContractorPortalLinkRow {
+  id: string;
+  project_id: string;
+  contractor_email: string;
+  token_hash: string;
+  expires_at: Date;
+  created_by: string | null;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+  last_used_at: Date | null;
+  created_at: Date;
+}
+
+export interface ActivePortalLink extends ContractorPortalLinkRow {
+  organization_id: string;
+  project_name: string;
+  project_created_by: string;
+}
+
+export async function createPortalLink(data: {
+  projectId: string;
+  contractorEmail: string;
+  tokenHash: string;
+  createdBy: string;
+  expiresInDays: number;
+}): Promise<ContractorPortalLinkRow> {
+  const result = await pool.query(
+    `INSERT INTO contractor_portal_links (project_id, contractor_email, token_hash, created_by, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5)) RETURNING *`,
+    [data.projectId, data.contractorEmail.toLowerCase(), data.tokenHash, data.createdBy, data.expiresInDays],
+  );
+  return result.rows[0];
+}
+
+export async function findActiveLinkByTokenHash(tokenHash: string): Promise<ActivePortalLink | null> {
+  const result = await pool.query(
+    `SELECT l.*, p.organization_id, p.name as project_name, p.created_by as project_created_by
+     FROM contractor_portal_links l
+     JOIN projects p ON p.id = l.project_id
+     WHERE l.token_hash = $1 AND l.revoked_at IS NULL AND l.expires_at > NOW()`,
+    [tokenHash],
+  );
+  return result.rows[0] || null;
+}
+
+export async function findLinksByProject(
+  projectId: string,
+  organizationId: string,
+): Promise<ContractorPortalLinkRow[]> {
+  const result = await pool.query(
+    `SELECT l.id, l.project_id, l.contractor_email, l.expires_at, l.created_by, l.revoked_at,
+       l.revoked_by, l.last_used_at, l.created_at
+     FROM contractor_portal_links l
+     JOIN projects p ON p.id = l.project_id
+     WHERE l.project_id = $1 AND p.organization_id = $2
+     ORDER BY l.created_at DESC`,
+    [projectId, organizationId],
+  );
+  return result.rows;
+}
+
+export async function revokeLink(
+  id: string,
+  projectId: string,
+  revokedBy: string,
+): Promise<ContractorPortalLinkRow | null> {
+  const result = await pool.query(
+    `UPDATE contractor_portal_links
+     SET revoked_at = NOW(), revoked_by = $3
+     WHERE id = $1 AND project_id = $2 AND revoked_at IS NULL
+     RETURNING *`,
+    [id, projectId, revokedBy],
+  );
+  return result.rows[0] || null;
+}
+
+export async function touchLink(id: string): Promise<void> {
+  await pool.query('UPDATE contractor_portal_links SET last_used_at = NOW() WHERE id = $1', [id]);
+}
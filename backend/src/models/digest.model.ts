@@ -0,0 +1,170 @@
+import pool from '../config/database';
+import { LOCAL_TODAY_SQL, STATUS_CATEGORY_JOIN } from './task.model';
+
+export interface DigestSettingsRow {
+  user_id: string;
+  frequency: string;
+  send_hour: number;
+  weekday: number;
+  timezone: string;
+  last_sent_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DigestRecipient {
+  id: string;
+  organization_id: string;
+  email: string;
+  first_name: string;
+  frequency: string;
+  timezone: string;
+  last_sent_at: Date | null;
+}
+
+export interface DigestTask {
+  id: string;
+  project_id: string;
+  project_name: string;
+  task_number: number;
+  title: string;
+  due_date_text: string | null;
+  days_overdue: number;
+  completed_at: Date | null;
+}
+
+export interface DigestNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  channel: string;
+  emailed_at: Date | null;
+  project_name: string | null;
+  created_at: Date;
+}
+
+/** Most entries listed per digest section */
+const SECTION_LIMIT = 50;
+
+export async function findDigestSettings(userId: string): Promise<DigestSettingsRow | null> {
+  const result = await pool.query('SELECT * FROM digest_settings WHERE user_id = $1', [userId]);
+  return result.rows[0] || null;
+}
+
+export async function upsertDigestSettings(
+  userId: string,
+  data: { frequency: string; sendHour: number; weekday: number; timezone: string },
+): Promise<DigestSettingsRow> {
+  const result = await pool.query(
+    `INSERT INTO digest_settings (user_id, frequency, send_hour, weekday, timezone)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id) DO UPDATE
+       SET frequency = EXCLUDED.frequency, send_hour = EXCLUDED.send_hour,
+           weekday = EXCLUDED.weekday, timezone = EXCLUDED.timezone
+     RETURNING *`,
+    [userId, data.frequency, data.sendHour, data.weekday, data.timezone],
+  );
+  return result.rows[0];
+}
+
+/**
+ * Active users whose digest is due: their local send hour has passed today,
+ * today is their weekday for weekly digests, and none was sent earlier today
+ * in their timezone.
+ */
+export async function findDueDigestRecipients(): Promise<DigestRecipient[]> {
+  const result = await pool.query(
+    `SELECT u.id, u.organization_id, u.email, u.first_name, ds.frequency, ds.timezone, ds.last_sent_at
+     FROM digest_settings ds
+     JOIN users u ON u.id = ds.user_id AND u.is_active = true
+     WHERE ds.frequency <> 'off'
+       AND EXTRACT(HOUR FROM NOW() AT TIME ZONE ds.timezone) >= ds.send_hour
+       AND (ds.frequency = 'daily' OR EXTRACT(ISODOW FROM NOW() AT TIME ZONE ds.timezone) = ds.weekday)
+       AND (ds.last_sent_at IS NULL
+         OR (ds.last_sent_at AT TIME ZONE ds.timezone)::date < (NOW() AT TIME ZONE ds.timezone)::date)`,
+  );
+  return result.rows;
+}
+
+/**
+ * Mark the user's digest as sent at `sentAt` unless it already went out that day in
+ * their timezone. Returns false when another run claimed it first.
+ */
+export async function claimDigest(userId: string, sentAt: Date): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE digest_settings SET last_sent_at = $2
+     WHERE user_id = $1
+       AND (last_sent_at IS NULL
+         OR (last_sent_at AT TIME ZONE timezone)::date < ($2::timestamptz AT TIME ZONE timezone)::date)
+     RETURNING user_id`,
+    [userId, sentAt],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** Undo a claim whose digest could not be built, so the next run tries again. */
+export async function releaseDigestClaim(userId: string, sentAt: Date, previousSentAt: Date | null): Promise<void> {
+  await pool.query(
+    'UPDATE digest_settings SET last_sent_at = $3 WHERE user_id = $1 AND last_sent_at = $2',
+    [userId, sentAt, previousSentAt],
+  );
+}
+
+/** The user's notifications created after `since`, oldest first. */
+export async function findNotificationsSince(userId: string, since: Date): Promise<DigestNotification[]> {
+  const result = await pool.query(
+    `SELECT n.id, n.type, n.title, n.body, n.link, n.channel, n.emailed_at, p.name AS project_name, n.created_at
+     FROM notifications n
+     LEFT JOIN projects p ON p.id = n.project_id
+     WHERE n.user_id = $1 AND n.created_at > $2
+     ORDER BY n.created_at
+     LIMIT 500`,
+    [userId, since],
+  );
+  return result.rows;
+}
+
+const DIGEST_TASK_SELECT = `SELECT t.id, t.project_id, p.name AS project_name, t.task_number, t.title,
+       to_char(t.due_date, 'YYYY-MM-DD') AS due_date_text,
+       GREATEST(${LOCAL_TODAY_SQL} - t.due_date, 0)::int AS days_overdue,
+       t.completed_at
+     FROM tasks t
+     JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}`;
+
+/** Open tasks assigned to the user that are overdue or due within `withinDays` days. */
+export async function findDueTasksForUser(userId: string, withinDays: number): Promise<DigestTask[]> {
+  const result = await pool.query(
+    `${DIGEST_TASK_SELECT}
+     WHERE t.assigned_to_user = $1
+       AND p.status <> 'archived'
+       AND t.due_date IS NOT NULL
+       AND t.due_date <= ${LOCAL_TODAY_SQL} + $2::int
+       AND COALESCE(ws.category, t.status) IN ('open', 'in_progress')
+     ORDER BY t.due_date, p.name, t.task_number
+     LIMIT ${SECTION_LIMIT}`,
+    [userId, withinDays],
+  );
+  return result.rows;
+}
+
+/**
+ * Completed tasks waiting for verification in projects the user runs: as a
+ * project manager member, as the responsible user or as the project's creator.
+ */
+export async function findTasksAwaitingVerification(userId: string): Promise<DigestTask[]> {
+  const result = await pool.query(
+    `${DIGEST_TASK_SELECT}
+     WHERE COALESCE(ws.category, t.status) = 'completed'
+       AND p.status <> 'archived'
+       AND (p.responsible_user_id = $1 OR p.created_by = $1
+         OR EXISTS (SELECT 1 FROM project_members pm
+                    WHERE pm.project_id = p.id AND pm.user_id = $1 AND pm.role = 'manager'))
+     ORDER BY t.completed_at NULLS LAST, p.name, t.task_number
+     LIMIT ${SECTION_LIMIT}`,
+    [userId],
+  );
+  return result.rows;
+}
@@ -0,0 +1,103 @@
+import pool from '../config/database';
+
+/** uploading → review once analysed → split once its sheets are created */
+export type DrawingSetStatus = 'uploading' | 'review' | 'split';
+
+/** A sheet proposed from a page's title block, for the PM to review before splitting */
+export interface ProposedSheet {
+  page: number;
+  sheetNumber: string | null;
+  title: string;
+  discipline: string;
+}
+
+export interface DrawingSetRow {
+  id: string;
+  project_id: string;
+  name: string;
+  status: DrawingSetStatus;
+  /** The uploaded PDF; null once it has been split */
+  file_url: string | null;
+  file_size_bytes: number | null;
+  page_count: number | null;
+  proposed_sheets: ProposedSheet[] | null;
+  created_by: string | null;
+  created_at: Date;
+  split_at: Date | null;
+}
+
+export interface DrawingSetWithCounts extends DrawingSetRow {
+  sheet_count: number;
+}
+
+export async function findDrawingSetsByProject(projectId: string): Promise<DrawingSetWithCounts[]> {
+  const result = await pool.query(
+    `SELECT ds.*, (SELECT COUNT(*) FROM blueprints b WHERE b.drawing_set_id = ds.id)::int as sheet_count
+     FROM drawing_sets ds
+     WHERE ds.project_id = $1
+     ORDER BY ds.created_at DESC`,
+    [projectId],
+  );
+  return result.rows;
+}
+
+export async function findDrawingSetById(id: string, projectId: string): Promise<DrawingSetRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM drawing_sets WHERE id = $1 AND project_id = $2',
+    [id, projectId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function createDrawingSet(data: {
+  id: string;
+  projectId: string;
+  name: string;
+  fileUrl: string;
+  fileSizeBytes: number;
+  createdBy: string;
+}): Promise<DrawingSetRow> {
+  const result = await pool.query(
+    `INSERT INTO drawing_sets (id, project_id, name, file_url, file_size_bytes, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+    [data.id, data.projectId, data.name, data.fileUrl, data.fileSizeBytes, data.createdBy],
+  );
+  return result.rows[0];
+}
+
+export async function setProposedSheets(
+  id: string,
+  data: { fileSizeBytes: number; proposedSheets: ProposedSheet[] },
+): Promise<DrawingSetRow | null> {
+  const result = await pool.query(
+    `UPDATE drawing_sets
+     SET status = 'review', file_size_bytes = $1, page_count = $2, proposed_sheets = $3
+     WHERE id = $4 RETURNING *`,
+    [data.fileSizeBytes, data.proposedSheets.length, JSON.stringify(data.proposedSheets), id],
+  );
+  return result.rows[0] || null;
+}
+
+/** The set's sheets exist now; its uploaded PDF is no longer kept. */
+export async function markSplit(id: string): Promise<DrawingSetRow | null> {
+  const result = await pool.query(
+    `UPDATE drawing_sets SET status = 'split', file_url = NULL, file_size_bytes = NULL, split_at = NOW()
+     WHERE id = $1 RETURNING *`,
+    [id],
+  );
+  return result.rows[0] || null;
+}
+
+export async function renameDrawingSet(id: string, name: string): Promise<DrawingSetRow | null> {
+  const result = await pool.query(
+    'UPDATE drawing_sets SET name = $1 WHERE id = $2 RETURNING *',
+    [name, id],
+  );
+  return result.rows[0] || null;
+}
+
+/** Delete the set; blueprints split from it stay, outside any set. */
+export async function deleteDrawingSet(id: string): Promise<DrawingSetRow | null> {
+  const result = await pool.query('DELETE FROM drawing_sets WHERE id = $1 RETURNING *', [id]);
+  return result.rows[0] || null;
+}
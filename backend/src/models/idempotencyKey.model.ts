@@ -0,0 +1,69 @@
+import pool from '../config/database';
+
+export interface IdempotencyKeyRow {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  request_method: string;
+  request_path: string;
+  response_status: number | null;
+  response_body: unknown;
+  created_at: Date;
+}
+
+// Keys older than this are treated as unused and may be reclaimed
+const KEY_TTL_HOURS = 24;
+
+/**
+ * Reserve a key for the current request. Returns the new row, or null if the
+ * key is already held by an earlier (possibly still running) request.
+ */
+export async function reserveKey(data: {
+  userId: string;
+  key: string;
+  method: string;
+  path: string;
+}): Promise<IdempotencyKeyRow | null> {
+  const result = await pool.query(
+    `INSERT INTO idempotency_keys (user_id, idempotency_key, request_method, request_path)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, idempotency_key) DO UPDATE
+       SET request_method = EXCLUDED.request_method,
+           request_path = EXCLUDED.request_path,
+           response_status = NULL,
+           response_body = NULL,
+           created_at = NOW()
+       WHERE idempotency_keys.created_at < NOW() - make_interval(hours => $5)
+     RETURNING *`,
+    [data.userId, data.key, data.method, data.path, KEY_TTL_HOURS],
+  );
+  return result.rows[0] || null;
+}
+
+export async function findKey(userId: string, key: string): Promise<IdempotencyKeyRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM idempotency_keys WHERE user_id = $1 AND idempotency_key = $2',
+    [userId, key],
+  );
+  return result.rows[0] || null;
+}
+
+export async function saveResponse(id: string, status: number, body: unknown): Promise<void> {
+  await pool.query(
+    'UPDATE idempotency_keys SET response_status = $1, response_body = $2 WHERE id = $3',
+    [status, JSON.stringify(body), id],
+  );
+}
+
+export async function releaseKey(id: string): Promise<void> {
+  await pool.query('DELETE FROM idempotency_keys WHERE id = $1', [id]);
+}
+
+/** Delete keys past their lifetime; they can no longer replay a response. Returns how many were removed. */
+export async function deleteExpiredKeys(): Promise<number> {
+  const result = await pool.query(
+    'DELETE FROM idempotency_keys WHERE created_at < NOW() - make_interval(hours => $1)',
+    [KEY_TTL_HOURS],
+  );
+  return result.rowCount ?? 0;
+}
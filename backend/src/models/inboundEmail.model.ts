@@ -0,0 +1,133 @@
+import pool from '../config/database';
+
+export interface QuarantinedAttachment {
+  key: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface QuarantinedEmailRow {
+  id: string;
+  organization_id: string;
+  project_id: string;
+  task_id: string;
+  from_email: string;
+  subject: string | null;
+  body_text: string;
+  command: string | null;
+  attachments: QuarantinedAttachment[];
+  status: 'pending' | 'approved' | 'rejected';
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+  task_number?: number;
+  task_title?: string;
+  assigned_to_contractor_email?: string | null;
+}
+
+export async function createQuarantinedEmail(data: {
+  organizationId: string;
+  projectId: string;
+  taskId: string;
+  fromEmail: string;
+  subject?: string;
+  bodyText: string;
+  command?: string | null;
+  attachments: QuarantinedAttachment[];
+}): Promise<QuarantinedEmailRow> {
+  const result = await pool.query(
+    `INSERT INTO inbound_email_quarantine
+       (organization_id, project_id, task_id, from_email, subject, body_text, command, attachments)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+    [
+      data.organizationId,
+      data.projectId,
+      data.taskId,
+      data.fromEmail,
+      data.subject || null,
+      data.bodyText,
+      data.command || null,
+      JSON.stringify(data.attachments),
+    ],
+  );
+  return result.rows[0];
+}
+
+export async function findQuarantinedByProject(
+  projectId: string,
+  organizationId: string,
+  status: string = 'pending',
+): Promise<QuarantinedEmailRow[]> {
+  const result = await pool.query(
+    `SELECT q.*, t.task_number, t.title as task_title, t.assigned_to_contractor_email
+     FROM inbound_email_quarantine q
+     JOIN tasks t ON t.id = q.task_id
+     WHERE q.project_id = $1 AND q.organization_id = $2 AND q.status = $3
+     ORDER BY q.created_at DESC`,
+    [projectId, organizationId, status],
+  );
+  return result.rows;
+}
+
+export async function findQuarantinedById(
+  id: string,
+  organizationId: string,
+): Promise<QuarantinedEmailRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM inbound_email_quarantine WHERE id = $1 AND organization_id = $2',
+    [id, organizationId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function markReviewed(
+  id: string,
+  status: 'approved' | 'rejected',
+  reviewedBy: string,
+): Promise<QuarantinedEmailRow | null> {
+  const result = await pool.query(
+    `UPDATE inbound_email_quarantine
+     SET status = $1, reviewed_by = $2, reviewed_at = NOW()
+     WHERE id = $3 AND status = 'pending' RETURNING *`,
+    [status, reviewedBy, id],
+  );
+  return result.rows[0] || null;
+}
+
+// Relays stop retrying a delivery long before this
+const MESSAGE_ID_RETENTION_DAYS = 30;
+
+/**
+ * Record an inbound email webhook delivery. Returns null when a delivery with the
+ * same signature or Message-ID was already accepted.
+ */
+export async function recordDelivery(data: { signature: string; messageId: string | null }): Promise<string | null> {
+  const result = await pool.query(
+    `INSERT INTO inbound_email_deliveries (signature, message_id)
+     VALUES ($1, $2)
+     ON CONFLICT DO NOTHING
+     RETURNING id`,
+    [data.signature, data.messageId],
+  );
+  return result.rows[0]?.id ?? null;
+}
+
+/** Forget a delivery that failed to process, so the relay can retry it. */
+export async function deleteDelivery(id: string): Promise<void> {
+  await pool.query('DELETE FROM inbound_email_deliveries WHERE id = $1', [id]);
+}
+
+/**
+ * Delete old delivery records. A signature is only checked within the webhook's
+ * timestamp tolerance, so rows without a Message-ID go after a day; Message-IDs
+ * are kept longer to catch a relay re-sending the same email. Returns how many were removed.
+ */
+export async function deleteOldDeliveries(): Promise<number> {
+  const result = await pool.query(
+    `DELETE FROM inbound_email_deliveries
+     WHERE received_at < NOW() - make_interval(days => CASE WHEN message_id IS NULL THEN 1 ELSE $1 END)`,
+    [MESSAGE_ID_RETENTION_DAYS],
+  );
+  return result.rowCount ?? 0;
+}
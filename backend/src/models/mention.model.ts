@@ -0,0 +1,158 @@
+import pool from '../config/database';
+
+export interface MentionRow {
+  id: string;
+  organization_id: string;
+  project_id: string;
+  mentioned_user_id: string;
+  mentioned_by: string | null;
+  task_id: string | null;
+  comment_id: string | null;
+  note_id: string | null;
+  created_at: Date;
+}
+
+export interface MentionWithSource extends MentionRow {
+  project_name: string;
+  task_number: number | null;
+  task_title: string | null;
+  /** The comment or note text, mention tokens included */
+  text: string;
+  author_first_name: string | null;
+  author_last_name: string | null;
+}
+
+export interface MentionableUser {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+/** SQL expression turning the mention tokens in `column` into plain "@Name" text. */
+export function plainMentionsSql(column: string): string {
+  return `regexp_replace(${column}, '@\\[([^\\]]+)\\]\\([0-9a-fA-F-]{36}\\)', '@\\1', 'g')`;
+}
+
+// Active users who can see the project: its members plus org admins, who see every project
+const MENTIONABLE_WHERE = `u.organization_id = $2 AND u.is_active = true
+  AND (u.role IN ('super_admin', 'org_admin')
+    OR EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = $1 AND pm.user_id = u.id))`;
+
+export async function findMentionableUsers(projectId: string, organizationId: string): Promise<MentionableUser[]> {
+  const result = await pool.query(
+    `SELECT u.id, u.first_name, u.last_name, u.email
+     FROM users u
+     WHERE ${MENTIONABLE_WHERE}
+     ORDER BY u.first_name, u.last_name`,
+    [projectId, organizationId],
+  );
+  return result.rows;
+}
+
+/** The subset of userIds that can be mentioned in the project. */
+export async function filterMentionableUserIds(
+  projectId: string,
+  organizationId: string,
+  userIds: string[],
+): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const result = await pool.query(
+    `SELECT u.id FROM users u WHERE u.id = ANY($3) AND ${MENTIONABLE_WHERE}`,
+    [projectId, organizationId, userIds],
+  );
+  return result.rows.map((row: { id: string }) => row.id);
+}
+
+/**
+ * Record mentions of the given users in a comment or note, skipping users
+ * already mentioned there. Returns only the newly recorded mentions.
+ */
+export async function createMentions(data: {
+  organizationId: string;
+  projectId: string;
+  mentionedBy: string;
+  userIds: string[];
+  taskId?: string | null;
+  commentId?: string | null;
+  noteId?: string | null;
+}): Promise<MentionRow[]> {
+  if (data.userIds.length === 0) return [];
+  const result = await pool.query(
+    `INSERT INTO mentions (organization_id, project_id, mentioned_by, task_id, comment_id, note_id, mentioned_user_id)
+     SELECT $1, $2, $3, $4, $5, $6, u.user_id
+     FROM UNNEST($7::uuid[]) AS u(user_id)
+     ON CONFLICT DO NOTHING
+     RETURNING *`,
+    [
+      data.organizationId,
+      data.projectId,
+      data.mentionedBy,
+      data.taskId ?? null,
+      data.commentId ?? null,
+      data.noteId ?? null,
+      data.userIds,
+    ],
+  );
+  return result.rows;
+}
+
+/** Forget mentions of users no longer named in an edited comment or note. */
+export async function deleteMentionsExcept(
+  source: { commentId: string } | { noteId: string },
+  keepUserIds: string[],
+): Promise<void> {
+  const [column, id] = 'commentId' in source ? ['comment_id', source.commentId] : ['note_id', source.noteId];
+  await pool.query(
+    `DELETE FROM mentions WHERE ${column} = $1 AND NOT (mentioned_user_id = ANY($2::uuid[]))`,
+    [id, keepUserIds],
+  );
+}
+
+/** Keep the mentions of a task that moved to another project in that project's inboxes. */
+export async function moveTaskMentions(taskId: string, projectId: string): Promise<void> {
+  await pool.query('UPDATE mentions SET project_id = $2 WHERE task_id = $1', [taskId, projectId]);
+}
+
+/**
+ * Where the user has been mentioned, newest first. Mentions in projects the
+ * user has since left are hidden when memberProjectsOnly is set.
+ */
+export async function findMentionsByUser(
+  userId: string,
+  organizationId: string,
+  options: { memberProjectsOnly?: boolean; limit?: number; offset?: number } = {},
+): Promise<{ mentions: MentionWithSource[]; total: number }> {
+  const { memberProjectsOnly, limit = 20, offset = 0 } = options;
+  const conditions = ['m.mentioned_user_id = $1', 'm.organization_id = $2'];
+  if (memberProjectsOnly) {
+    conditions.push('EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = m.project_id AND pm.user_id = $1)');
+  }
+  const where = conditions.join(' AND ');
+
+  const countResult = await pool.query(
+    `SELECT COUNT(*) FROM mentions m
+     LEFT JOIN task_comments c ON c.id = m.comment_id
+     WHERE ${where} AND c.deleted_at IS NULL`,
+    [userId, organizationId],
+  );
+  const total = parseInt(countResult.rows[0].count, 10);
+
+  const result = await pool.query(
+    `SELECT m.*, p.name AS project_name, t.task_number, t.title AS task_title,
+       COALESCE(c.comment_text, n.content) AS text,
+       a.first_name AS author_first_name, a.last_name AS author_last_name
+     FROM mentions m
+     JOIN projects p ON p.id = m.project_id
+     LEFT JOIN tasks t ON t.id = m.task_id
+     LEFT JOIN task_comments c ON c.id = m.comment_id
+     LEFT JOIN project_notes n ON n.id = m.note_id
+     LEFT JOIN users a ON a.id = m.mentioned_by
+     WHERE ${where} AND c.deleted_at IS NULL
+     ORDER BY m.created_at DESC
+     LIMIT $3 OFFSET $4`,
+    [userId, organizationId, limit, offset],
+  );
+
+  return { mentions: result.rows, total };
+}
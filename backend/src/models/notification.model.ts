@@ -0,0 +1,172 @@
+import pool from '../config/database';
+
+export interface NotificationRow {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  actor_id: string | null;
+  project_id: string | null;
+  task_id: string | null;
+  channel: string;
+  read_at: Date | null;
+  emailed_at: Date | null;
+  created_at: Date;
+}
+
+export interface NotificationWithActor extends NotificationRow {
+  actor_first_name: string | null;
+  actor_last_name: string | null;
+  project_name: string | null;
+}
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  first_name: string;
+  /** null when the user kept the default for this event type */
+  channel: string | null;
+}
+
+export interface NotificationPreferenceRow {
+  event_type: string;
+  channel: string;
+}
+
+/** Active users of the organisation among userIds, with their chosen channel for the event type. */
+export async function findRecipients(
+  userIds: string[],
+  organizationId: string,
+  eventType: string,
+): Promise<NotificationRecipient[]> {
+  const result = await pool.query(
+    `SELECT u.id, u.email, u.first_name, np.channel
+     FROM users u
+     LEFT JOIN notification_preferences np ON np.user_id = u.id AND np.event_type = $3
+     WHERE u.id = ANY($1) AND u.organization_id = $2 AND u.is_active = true`,
+    [userIds, organizationId, eventType],
+  );
+  return result.rows;
+}
+
+export async function createNotifications(
+  rows: Array<{
+    organizationId: string;
+    userId: string;
+    type: string;
+    title: string;
+    body?: string | null;
+    link?: string | null;
+    actorId?: string | null;
+    projectId?: string | null;
+    taskId?: string | null;
+    channel: string;
+  }>,
+): Promise<NotificationRow[]> {
+  if (rows.length === 0) return [];
+
+  const values: unknown[] = [];
+  const tuples = rows.map((row) => {
+    const start = values.length;
+    values.push(
+      row.organizationId,
+      row.userId,
+      row.type,
+      row.title,
+      row.body ?? null,
+      row.link ?? null,
+      row.actorId ?? null,
+      row.projectId ?? null,
+      row.taskId ?? null,
+      row.channel,
+    );
+    return `(${Array.from({ length: 10 }, (_, i) => `$${start + i + 1}`).join(', ')})`;
+  });
+
+  const result = await pool.query(
+    `INSERT INTO notifications (organization_id, user_id, type, title, body, link, actor_id, project_id, task_id, channel)
+     VALUES ${tuples.join(', ')}
+     RETURNING *`,
+    values,
+  );
+  return result.rows;
+}
+
+export async function findNotificationsByUser(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number; offset?: number } = {},
+): Promise<{ notifications: NotificationWithActor[]; total: number }> {
+  const { unreadOnly, limit = 20, offset = 0 } = options;
+  const where = `n.user_id = $1${unreadOnly ? ' AND n.read_at IS NULL' : ''}`;
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM notifications n WHERE ${where}`, [userId]);
+  const total = parseInt(countResult.rows[0].count, 10);
+
+  const result = await pool.query(
+    `SELECT n.*, a.first_name AS actor_first_name, a.last_name AS actor_last_name, p.name AS project_name
+     FROM notifications n
+     LEFT JOIN users a ON a.id = n.actor_id
+     LEFT JOIN projects p ON p.id = n.project_id
+     WHERE ${where}
+     ORDER BY n.created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [userId, limit, offset],
+  );
+
+  return { notifications: result.rows, total };
+}
+
+export async function countUnread(userId: string): Promise<number> {
+  const result = await pool.query(
+    'SELECT COUNT(*) FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+    [userId],
+  );
+  return parseInt(result.rows[0].count, 10);
+}
+
+export async function markRead(id: string, userId: string): Promise<NotificationRow | null> {
+  const result = await pool.query(
+    `UPDATE notifications SET read_at = COALESCE(read_at, NOW())
+     WHERE id = $1 AND user_id = $2
+     RETURNING *`,
+    [id, userId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function markAllRead(userId: string): Promise<number> {
+  const result = await pool.query(
+    'UPDATE notifications SET read_at = NOW() WHERE user_id = $1 AND read_at IS NULL',
+    [userId],
+  );
+  return result.rowCount ?? 0;
+}
+
+export async function markEmailed(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await pool.query('UPDATE notifications SET emailed_at = NOW() WHERE id = ANY($1)', [ids]);
+}
+
+export async function findPreferences(userId: string): Promise<NotificationPreferenceRow[]> {
+  const result = await pool.query(
+    'SELECT event_type, channel FROM notification_preferences WHERE user_id = $1',
+    [userId],
+  );
+  return result.rows;
+}
+
+export async function upsertPreferences(userId: string, preferences: Record<string, string>): Promise<void> {
+  const entries = Object.entries(preferences);
+  if (entries.length === 0) return;
+
+  await pool.query(
+    `INSERT INTO notification_preferences (user_id, event_type, channel)
+     SELECT $1, e.event_type, e.channel
+     FROM UNNEST($2::varchar[], $3::varchar[]) AS e(event_type, channel)
+     ON CONFLICT (user_id, event_type) DO UPDATE SET channel = EXCLUDED.channel`,
+    [userId, entries.map(([type]) => type), entries.map(([, channel]) => channel)],
+  );
+}
@@ -29,9 +29,9 @@ export interface ProjectWithStats extends ProjectRow {
 
 export async function findProjectsByOrganization(
   organizationId: string,
-  options: { status?: string; page?: number; limit?: number; offset?: number } = {},
+  options: { status?: string; memberUserId?: string; page?: number; limit?: number; offset?: number } = {},
 ): Promise<{ projects: ProjectWithStats[]; total: number }> {
-  const { status, page = 1, limit = 50, offset = (page - 1) * limit } = options;
+  const { status, memberUserId, page = 1, limit = 50, offset = (page - 1) * limit } = options;
   const conditions = ['p.organization_id = $1'];
   const values: unknown[] = [organizationId];
   let paramIndex = 2;
@@ -42,6 +42,13 @@ export async function findProjectsByOrganization(
     paramIndex++;
   }
 
+  // Only the projects the user was added to; omitted for org admins
+  if (memberUserId) {
+    conditions.push(`EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = $${paramIndex})`);
+    values.push(memberUserId);
+    paramIndex++;
+  }
+
   const where = conditions.join(' AND ');
 
   const countResult = await pool.query(
@@ -64,11 +71,13 @@ export async function findProjectsByOrganization(
      LEFT JOIN LATERAL (
        SELECT
          COUNT(*) as total,
-         COUNT(*) FILTER (WHERE status = 'open') as open,
-         COUNT(*) FILTER (WHERE status = 'in_progress') as in_progress,
-         COUNT(*) FILTER (WHERE status = 'completed') as completed,
-         COUNT(*) FILTER (WHERE status = 'verified') as verified
-       FROM tasks WHERE project_id = p.id
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'open') as open,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'in_progress') as in_progress,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'completed') as completed,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'verified') as verified
+       FROM tasks t
+       LEFT JOIN workflow_statuses ws ON ws.organization_id = p.organization_id AND ws.status_key = t.status
+       WHERE t.project_id = p.id
      ) ts ON true
      WHERE ${where}
      ORDER BY p.created_at DESC
@@ -104,11 +113,13 @@ export async function findProjectById(
      LEFT JOIN LATERAL (
        SELECT
          COUNT(*) as total,
-         COUNT(*) FILTER (WHERE status = 'open') as open,
-         COUNT(*) FILTER (WHERE status = 'in_progress') as in_progress,
-         COUNT(*) FILTER (WHERE status = 'completed') as completed,
-         COUNT(*) FILTER (WHERE status = 'verified') as verified
-       FROM tasks WHERE project_id = p.id
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'open') as open,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'in_progress') as in_progress,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'completed') as completed,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'verified') as verified
+       FROM tasks t
+       LEFT JOIN workflow_statuses ws ON ws.organization_id = p.organization_id AND ws.status_key = t.status
+       WHERE t.project_id = p.id
      ) ts ON true
      WHERE ${conditions.join(' AND ')}`,
     values,
@@ -0,0 +1,128 @@
+import pool from '../config/database';
+import { ProjectRole } from '../types';
+
+export interface ProjectMemberRow {
+  id: string;
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  added_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ProjectMemberWithUser extends ProjectMemberRow {
+  email: string;
+  first_name: string;
+  last_name: string;
+  user_role: string;
+  is_active: boolean;
+}
+
+/**
+ * Whether the project exists in the organisation and, if so, the user's role
+ * on it (null when they are not a member).
+ */
+export async function findProjectAccess(
+  projectId: string,
+  organizationId: string,
+  userId: string,
+): Promise<{ role: ProjectRole | null } | null> {
+  const result = await pool.query(
+    `SELECT pm.role
+     FROM projects p
+     LEFT JOIN project_members pm ON pm.project_id = p.id AND pm.user_id = $3
+     WHERE p.id = $1 AND p.organization_id = $2`,
+    [projectId, organizationId, userId],
+  );
+  if (result.rows.length === 0) return null;
+  return { role: result.rows[0].role || null };
+}
+
+export async function findMembersByProject(projectId: string): Promise<ProjectMemberWithUser[]> {
+  const result = await pool.query(
+    `SELECT pm.*, u.email, u.first_name, u.last_name, u.role as user_role, u.is_active
+     FROM project_members pm
+     JOIN users u ON u.id = pm.user_id
+     WHERE pm.project_id = $1
+     ORDER BY u.first_name, u.last_name`,
+    [projectId],
+  );
+  return result.rows;
+}
+
+/** Active users of the organisation who could be added to the project. */
+export async function findNonMembers(
+  projectId: string,
+  organizationId: string,
+): Promise<Array<{ id: string; email: string; first_name: string; last_name: string; role: string }>> {
+  const result = await pool.query(
+    `SELECT u.id, u.email, u.first_name, u.last_name, u.role
+     FROM users u
+     WHERE u.organization_id = $2 AND u.is_active = true
+       AND NOT EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = $1 AND pm.user_id = u.id)
+     ORDER BY u.first_name, u.last_name`,
+    [projectId, organizationId],
+  );
+  return result.rows;
+}
+
+export async function findMember(projectId: string, userId: string): Promise<ProjectMemberRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM project_members WHERE project_id = $1 AND user_id = $2',
+    [projectId, userId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function findProjectIdsByUser(userId: string): Promise<string[]> {
+  const result = await pool.query(
+    'SELECT project_id FROM project_members WHERE user_id = $1',
+    [userId],
+  );
+  return result.rows.map((r: { project_id: string }) => r.project_id);
+}
+
+export async function addMember(data: {
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  addedBy?: string;
+}): Promise<ProjectMemberRow> {
+  const result = await pool.query(
+    `INSERT INTO project_members (project_id, user_id, role, added_by)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role
+     RETURNING *`,
+    [data.projectId, data.userId, data.role, data.addedBy || null],
+  );
+  return result.rows[0];
+}
+
+export async function updateMemberRole(
+  projectId: string,
+  userId: string,
+  role: ProjectRole,
+): Promise<ProjectMemberRow | null> {
+  const result = await pool.query(
+    'UPDATE project_members SET role = $3 WHERE project_id = $1 AND user_id = $2 RETURNING *',
+    [projectId, userId, role],
+  );
+  return result.rows[0] || null;
+}
+
+export async function removeMember(projectId: string, userId: string): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM project_members WHERE project_id = $1 AND user_id = $2',
+    [projectId, userId],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function countManagers(projectId: string): Promise<number> {
+  const result = await pool.query(
+    `SELECT COUNT(*) FROM project_members WHERE project_id = $1 AND role = 'manager'`,
+    [projectId],
+  );
+  return parseInt(result.rows[0].count, 10);
+}
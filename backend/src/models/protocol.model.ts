@@ -49,6 +49,20 @@ export async function findProtocolById(
   return result.rows[0] || null;
 }
 
+/** A protocol with the project details needed to notify its owners. */
+export async function findProtocolContext(
+  id: string,
+): Promise<(ProtocolRow & { organization_id: string; project_name: string; responsible_user_id: string | null }) | null> {
+  const result = await pool.query(
+    `SELECT pr.*, p.organization_id, p.name AS project_name, p.responsible_user_id
+     FROM protocols pr
+     JOIN projects p ON p.id = pr.project_id
+     WHERE pr.id = $1`,
+    [id],
+  );
+  return result.rows[0] || null;
+}
+
 export async function createProtocol(data: {
   projectId: string;
   name: string;
@@ -1,4 +1,5 @@
 import pool from '../config/database';
+import { DAYS_OVERDUE_SQL, STATUS_CATEGORY_JOIN } from './task.model';
 
 export interface ReportTaskRow {
   id: string;
@@ -8,6 +9,8 @@ export interface ReportTaskRow {
   priority: string;
   trade: string | null;
   created_at: Date;
+  due_date: Date | null;
+  days_overdue: number | null;
   project_id: string;
   project_name: string;
   assignee_first_name: string | null;
@@ -60,12 +63,15 @@ export async function findTasksForReport(
        t.priority,
        t.trade,
        t.created_at,
+       t.due_date,
+       (${DAYS_OVERDUE_SQL})::int AS days_overdue,
        t.project_id,
        p.name AS project_name,
        au.first_name AS assignee_first_name,
        au.last_name AS assignee_last_name
      FROM tasks t
      JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}
      LEFT JOIN users au ON au.id = t.assigned_to_user
      WHERE ${where}
      ORDER BY t.created_at DESC`,
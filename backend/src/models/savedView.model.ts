@@ -0,0 +1,144 @@
+import pool from '../config/database';
+
+export interface SavedViewRow {
+  id: string;
+  project_id: string;
+  user_id: string;
+  name: string;
+  filters: Record<string, unknown>;
+  is_shared: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SavedViewWithOwner extends SavedViewRow {
+  owner_first_name: string;
+  owner_last_name: string;
+  is_pinned: boolean;
+}
+
+export interface PinnedView {
+  id: string;
+  name: string;
+  project_id: string;
+  project_name: string;
+}
+
+/** The user's own views on the project plus those shared with it. */
+export async function findViewsForUser(projectId: string, userId: string): Promise<SavedViewWithOwner[]> {
+  const result = await pool.query(
+    `SELECT v.*, u.first_name as owner_first_name, u.last_name as owner_last_name,
+       EXISTS (SELECT 1 FROM saved_view_pins sp WHERE sp.view_id = v.id AND sp.user_id = $2) as is_pinned
+     FROM saved_views v
+     JOIN users u ON u.id = v.user_id
+     WHERE v.project_id = $1 AND (v.user_id = $2 OR v.is_shared = true)
+     ORDER BY v.name`,
+    [projectId, userId],
+  );
+  return result.rows;
+}
+
+/** A view on the project the user may use: their own or a shared one. */
+export async function findVisibleView(id: string, projectId: string, userId: string): Promise<SavedViewRow | null> {
+  const result = await pool.query(
+    `SELECT * FROM saved_views
+     WHERE id = $1 AND project_id = $2 AND (user_id = $3 OR is_shared = true)`,
+    [id, projectId, userId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function createView(data: {
+  projectId: string;
+  userId: string;
+  name: string;
+  filters: Record<string, unknown>;
+  isShared: boolean;
+}): Promise<SavedViewRow> {
+  const result = await pool.query(
+    `INSERT INTO saved_views (project_id, user_id, name, filters, is_shared)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [data.projectId, data.userId, data.name, JSON.stringify(data.filters), data.isShared],
+  );
+  return result.rows[0];
+}
+
+export async function updateView(
+  id: string,
+  data: { name?: string; filters?: Record<string, unknown>; isShared?: boolean },
+): Promise<SavedViewRow | null> {
+  const fieldMap: Record<string, string> = {
+    name: 'name',
+    filters: 'filters',
+    isShared: 'is_shared',
+  };
+
+  const setClauses: string[] = [];
+  const values: unknown[] = [];
+  let paramIndex = 1;
+
+  for (const [key, dbField] of Object.entries(fieldMap)) {
+    const value = (data as Record<string, unknown>)[key];
+    if (value !== undefined) {
+      setClauses.push(`${dbField} = $${paramIndex}`);
+      values.push(dbField === 'filters' ? JSON.stringify(value) : value);
+      paramIndex++;
+    }
+  }
+
+  if (setClauses.length === 0) return null;
+
+  values.push(id);
+  const result = await pool.query(
+    `UPDATE saved_views SET ${setClauses.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+    values,
+  );
+  return result.rows[0] || null;
+}
+
+export async function deleteView(id: string): Promise<boolean> {
+  const result = await pool.query('DELETE FROM saved_views WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function pinView(viewId: string, userId: string): Promise<void> {
+  await pool.query(
+    'INSERT INTO saved_view_pins (view_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+    [viewId, userId],
+  );
+}
+
+export async function unpinView(viewId: string, userId: string): Promise<void> {
+  await pool.query('DELETE FROM saved_view_pins WHERE view_id = $1 AND user_id = $2', [viewId, userId]);
+}
+
+/**
+ * Views the user pinned, across projects. Views that stopped being visible to
+ * them (unshared, or they lost project membership) are left out.
+ */
+export async function findPinnedViews(
+  userId: string,
+  organizationId: string,
+  options: { memberProjectsOnly?: boolean } = {},
+): Promise<PinnedView[]> {
+  const conditions = [
+    'sp.user_id = $1',
+    'p.organization_id = $2',
+    '(v.user_id = $1 OR v.is_shared = true)',
+  ];
+  if (options.memberProjectsOnly) {
+    conditions.push('EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = $1)');
+  }
+
+  const result = await pool.query(
+    `SELECT v.id, v.name, v.project_id, p.name as project_name
+     FROM saved_view_pins sp
+     JOIN saved_views v ON v.id = sp.view_id
+     JOIN projects p ON p.id = v.project_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY p.name, v.name`,
+    [userId, organizationId],
+  );
+  return result.rows;
+}
@@ -0,0 +1,135 @@
+import pool from '../config/database';
+import { plainMentionsSql } from './mention.model';
+
+export const SEARCH_TYPES = ['task', 'note', 'comment', 'product', 'blueprint'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+/** Matched words in snippets are wrapped in these markers rather than HTML. */
+export const HIGHLIGHT_START = '[[';
+export const HIGHLIGHT_END = ']]';
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  project_id: string | null;
+  project_name: string | null;
+  /** The task a comment belongs to, or the task itself */
+  task_id: string | null;
+  task_number: number | null;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
+/** Document expression for full-text matching; must match the expression indexes in migration 021. */
+export function searchDocument(columns: string[]): string {
+  const text = columns.map((c) => `COALESCE(${c}, '')`).join(` || ' ' || `);
+  return `(to_tsvector('english', ${text}) || to_tsvector('swedish', ${text}))`;
+}
+
+function highlight(text: string): string {
+  return `ts_headline('simple', ${text}, q.highlight,
+    'StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "')`;
+}
+
+/**
+ * Turn what the user typed into a prefix query ("elec pan" → "elec:* & pan:*")
+ * so results show up while typing. Null when nothing searchable is left.
+ */
+export function toPrefixQuery(term: string): string | null {
+  const words = term.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.length > 0 ? words.map((w) => `${w}:*`).join(' & ') : null;
+}
+
+/**
+ * Full-text search across an organisation, ranked across all types. Titles and
+ * names also match by trigram word similarity so small typos still find them.
+ * Project-bound results are limited to the user's projects when
+ * memberProjectsOnly is set.
+ */
+export async function searchOrganization(params: {
+  organizationId: string;
+  userId: string;
+  term: string;
+  types?: SearchType[];
+  memberProjectsOnly?: boolean;
+  limit?: number;
+}): Promise<SearchResult[]> {
+  const query = toPrefixQuery(params.term);
+  if (!query) return [];
+
+  const types = params.types?.length ? params.types : SEARCH_TYPES;
+  const values: unknown[] = [params.organizationId, query, params.term.trim(), params.limit ?? 20];
+  let projectAccess = '';
+  if (params.memberProjectsOnly) {
+    values.push(params.userId);
+    projectAccess = 'AND EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = $5)';
+  }
+
+  const taskDocument = searchDocument(['t.title', 't.trade', 't.description']);
+  const noteDocument = searchDocument(['n.content']);
+  const commentDocument = searchDocument(['c.comment_text']);
+  const productDocument = searchDocument(['pr.name', 'pr.product_id', 'pr.description', 'pr.comment']);
+  const blueprintDocument = searchDocument(['b.name']);
+
+  const parts: Record<SearchType, string> = {
+    task: `
+      SELECT 'task' AS type, t.id, t.project_id, p.name AS project_name, t.id AS task_id, t.task_number,
+        t.title, ${highlight(`concat_ws(' ', t.title, t.trade, t.description)`)} AS snippet,
+        ts_rank(${taskDocument}, q.query) + word_similarity($3, t.title) AS rank
+      FROM tasks t
+      JOIN projects p ON p.id = t.project_id
+      CROSS JOIN q
+      WHERE p.organization_id = $1 ${projectAccess}
+        AND (${taskDocument} @@ q.query OR $3 <% t.title)`,
+    note: `
+      SELECT 'note' AS type, n.id, n.project_id, p.name AS project_name, NULL::uuid AS task_id, NULL::int AS task_number,
+        p.name AS title, ${highlight(plainMentionsSql('n.content'))} AS snippet,
+        ts_rank(${noteDocument}, q.query) AS rank
+      FROM project_notes n
+      JOIN projects p ON p.id = n.project_id
+      CROSS JOIN q
+      WHERE p.organization_id = $1 ${projectAccess}
+        AND ${noteDocument} @@ q.query`,
+    comment: `
+      SELECT 'comment' AS type, c.id, t.project_id, p.name AS project_name, t.id AS task_id, t.task_number,
+        t.title, ${highlight(plainMentionsSql('c.comment_text'))} AS snippet,
+        ts_rank(${commentDocument}, q.query) AS rank
+      FROM task_comments c
+      JOIN tasks t ON t.id = c.task_id
+      JOIN projects p ON p.id = t.project_id
+      CROSS JOIN q
+      WHERE p.organization_id = $1 ${projectAccess}
+        AND c.deleted_at IS NULL
+        AND ${commentDocument} @@ q.query`,
+    product: `
+      SELECT 'product' AS type, pr.id, NULL::uuid AS project_id, NULL AS project_name, NULL::uuid AS task_id, NULL::int AS task_number,
+        pr.name AS title, ${highlight(`concat_ws(' ', pr.name, pr.product_id, pr.description, pr.comment)`)} AS snippet,
+        ts_rank(${productDocument}, q.query) + word_similarity($3, pr.name) AS rank
+      FROM products pr
+      CROSS JOIN q
+      WHERE pr.organization_id = $1
+        AND (${productDocument} @@ q.query OR $3 <% pr.name)`,
+    blueprint: `
+      SELECT 'blueprint' AS type, b.id, b.project_id, p.name AS project_name, NULL::uuid AS task_id, NULL::int AS task_number,
+        b.name AS title, ${highlight('b.name')} AS snippet,
+        ts_rank(${blueprintDocument}, q.query) + word_similarity($3, b.name) AS rank
+      FROM blueprints b
+      JOIN projects p ON p.id = b.project_id
+      CROSS JOIN q
+      WHERE p.organization_id = $1 ${projectAccess}
+        AND (${blueprintDocument} @@ q.query OR $3 <% b.name)`,
+  };
+
+  const result = await pool.query(
+    `WITH q AS (
+       SELECT to_tsquery('english', $2) || to_tsquery('swedish', $2) AS query,
+              to_tsquery('simple', $2) AS highlight
+     )
+     SELECT * FROM (${types.map((type) => parts[type]).join('\n UNION ALL ')}) results
+     ORDER BY rank DESC
+     LIMIT $4`,
+    values,
+  );
+  return result.rows;
+}
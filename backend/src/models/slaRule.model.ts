@@ -0,0 +1,112 @@
+import pool from '../config/database';
+
+export interface SlaRuleRow {
+  id: string;
+  organization_id: string;
+  project_id: string | null;
+  priority: string | null;
+  trade: string | null;
+  due_in_days: number;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  project_name?: string | null;
+}
+
+export async function findRulesByOrganization(organizationId: string): Promise<SlaRuleRow[]> {
+  const result = await pool.query(
+    `SELECT r.*, p.name as project_name
+     FROM sla_rules r
+     LEFT JOIN projects p ON p.id = r.project_id
+     WHERE r.organization_id = $1
+     ORDER BY p.name NULLS FIRST, r.priority NULLS FIRST, r.trade NULLS FIRST`,
+    [organizationId],
+  );
+  return result.rows;
+}
+
+/** Organisation-wide rules plus the rules scoped to one project. */
+export async function findRulesForProject(organizationId: string, projectId: string): Promise<SlaRuleRow[]> {
+  const result = await pool.query(
+    `SELECT * FROM sla_rules
+     WHERE organization_id = $1 AND (project_id IS NULL OR project_id = $2)`,
+    [organizationId, projectId],
+  );
+  return result.rows;
+}
+
+export async function findRuleById(id: string, organizationId: string): Promise<SlaRuleRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM sla_rules WHERE id = $1 AND organization_id = $2',
+    [id, organizationId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function createRule(data: {
+  organizationId: string;
+  projectId?: string | null;
+  priority?: string | null;
+  trade?: string | null;
+  dueInDays: number;
+  createdBy: string;
+}): Promise<SlaRuleRow> {
+  const result = await pool.query(
+    `INSERT INTO sla_rules (organization_id, project_id, priority, trade, due_in_days, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      data.organizationId,
+      data.projectId || null,
+      data.priority || null,
+      data.trade || null,
+      data.dueInDays,
+      data.createdBy,
+    ],
+  );
+  return result.rows[0];
+}
+
+export async function updateRule(
+  id: string,
+  organizationId: string,
+  updates: Record<string, unknown>,
+): Promise<SlaRuleRow | null> {
+  const fieldMap: Record<string, string> = {
+    projectId: 'project_id',
+    priority: 'priority',
+    trade: 'trade',
+    dueInDays: 'due_in_days',
+  };
+
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  let paramIndex = 1;
+
+  for (const [key, value] of Object.entries(updates)) {
+    const dbField = fieldMap[key];
+    if (!dbField || value === undefined) continue;
+    sets.push(`${dbField} = $${paramIndex}`);
+    values.push(value === '' ? null : value);
+    paramIndex++;
+  }
+
+  if (sets.length === 0) return findRuleById(id, organizationId);
+
+  values.push(id, organizationId);
+  const result = await pool.query(
+    `UPDATE sla_rules SET ${sets.join(', ')}
+     WHERE id = $${paramIndex} AND organization_id = $${paramIndex + 1}
+     RETURNING *`,
+    values,
+  );
+  return result.rows[0] || null;
+}
+
+export async function deleteRule(id: string, organizationId: string): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM sla_rules WHERE id = $1 AND organization_id = $2 RETURNING id',
+    [id, organizationId],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
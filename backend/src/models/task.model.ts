@@ -1,4 +1,22 @@
-import pool from '../config/database';
+import pool, { Queryable } from '../config/database';
+import config from '../config';
+import { searchDocument, toPrefixQuery } from './search.model';
+
+export type MeasurementType = 'distance' | 'polyline' | 'area';
+
+/**
+ * A distance, polyline or area measured on the task's blueprint. Points are
+ * relative to the page; the value is in metres, or square metres for areas,
+ * as worked out from the page's calibration when it was measured.
+ */
+export interface TaskMeasurement {
+  id: string;
+  type: MeasurementType;
+  page: number;
+  points: Array<{ x: number; y: number }>;
+  value: number;
+  label?: string;
+}
 
 export interface TaskRow {
   id: string;
@@ -25,13 +43,28 @@ export interface TaskRow {
   annotation_height: number | null;
   annotation_page: number | null;
   annotation_markers: Array<{ id: string; x: number; y: number; page: number }> | null;
+  measurements: TaskMeasurement[] | null;
   custom_fields: Record<string, unknown> | null;
+  reply_token: string;
+  due_date: Date | null;
+  due_reminder_sent_at: Date | null;
+  overdue_escalated_at: Date | null;
+  /** Set while the annotation is still on an older blueprint revision, waiting for review */
+  annotation_revision_id: string | null;
+  annotation_recorded_revision_id: string | null;
 }
 
 export interface TaskWithCounts extends TaskRow {
   photo_count: number;
   comment_count: number;
   product_count: number;
+  days_overdue: number | null;
+  /** Tasks blocking this one that are not completed yet */
+  open_blocker_count: number;
+  checklist_item_count: number;
+  checklist_checked_count: number;
+  /** Required checklist items not ticked yet; the task cannot be completed while any remain */
+  checklist_open_required_count: number;
   project_name?: string;
   creator_first_name?: string;
   creator_last_name?: string;
@@ -39,27 +72,80 @@ export interface TaskWithCounts extends TaskRow {
   assignee_last_name?: string;
 }
 
+export interface CustomFieldPredicate {
+  key: string;
+  op: 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'empty' | 'not_empty';
+  value?: string | number | boolean;
+}
+
+/** List-valued filters match a task whose value is any of the entries. */
 export interface TaskFilters {
-  status?: string;
-  priority?: string;
-  trade?: string;
-  assignedToUser?: string;
+  status?: string | string[];
+  priority?: string | string[];
+  trade?: string | string[];
+  assignedToUser?: string | string[];
   assignedToContractorEmail?: string;
+  blueprintId?: string | string[];
+  hasPhotos?: boolean;
+  // Inclusive calendar dates (YYYY-MM-DD)
+  createdFrom?: string;
+  createdTo?: string;
+  completedFrom?: string;
+  completedTo?: string;
+  verifiedFrom?: string;
+  verifiedTo?: string;
+  customFields?: CustomFieldPredicate[];
   search?: string;
-  sortBy?: 'number' | 'date' | 'user';
+  overdue?: boolean;
+  blocked?: boolean;
+  sortBy?: 'number' | 'date' | 'user' | 'due';
   sortOrder?: 'asc' | 'desc';
 }
 
-const VALID_TRANSITIONS: Record<string, string[]> = {
-  open: ['in_progress'],
-  in_progress: ['completed', 'open'],
-  completed: ['verified', 'in_progress'],
-  verified: [],
-};
+// Due dates are calendar days in the configured timezone, not the database server's
+export const LOCAL_TODAY_SQL = `(NOW() AT TIME ZONE '${config.dueDates.timezone.replace(/'/g, "''")}')::date`;
+// Statuses resolve to their workflow category; tasks still open or in progress past their due date are overdue
+export const STATUS_CATEGORY_JOIN =
+  'LEFT JOIN workflow_statuses ws ON ws.organization_id = p.organization_id AND ws.status_key = t.status';
+export const DAYS_OVERDUE_SQL = `CASE WHEN t.due_date < ${LOCAL_TODAY_SQL} AND COALESCE(ws.category, t.status) IN ('open', 'in_progress')
+  THEN ${LOCAL_TODAY_SQL} - t.due_date END`;
+// Checklist progress, and the required items still keeping the task from being completed
+const CHECKLIST_COUNTS_JOIN = `LEFT JOIN LATERAL (
+       SELECT COUNT(*) as total, COUNT(checked_at) as checked,
+         COUNT(*) FILTER (WHERE is_required AND checked_at IS NULL) as open_required
+       FROM task_checklist_items WHERE task_id = t.id
+     ) cl ON true`;
+// Blockers count until they reach a completed or verified status
+export const OPEN_BLOCKER_COUNT_SQL = `(SELECT COUNT(*) FROM task_relations r
+  JOIN tasks b ON b.id = r.source_task_id
+  LEFT JOIN workflow_statuses bws ON bws.organization_id = p.organization_id AND bws.status_key = b.status
+  WHERE r.target_task_id = t.id AND r.relation_type = 'blocks'
+    AND COALESCE(bws.category, b.status) NOT IN ('completed', 'verified'))`;
 
-export function isValidStatusTransition(from: string, to: string): boolean {
-  return VALID_TRANSITIONS[from]?.includes(to) ?? false;
-}
+// Tasks with their counts, people and due and checklist state, as listed and shown in detail
+const TASK_SELECT = `SELECT t.*,
+       p.name as project_name,
+       COALESCE(ph.cnt, 0)::int as photo_count,
+       COALESCE(cm.cnt, 0)::int as comment_count,
+       COALESCE(tp.cnt, 0)::int as product_count,
+       cu.first_name as creator_first_name,
+       cu.last_name as creator_last_name,
+       au.first_name as assignee_first_name,
+       au.last_name as assignee_last_name,
+       (${DAYS_OVERDUE_SQL})::int as days_overdue,
+       (${OPEN_BLOCKER_COUNT_SQL})::int as open_blocker_count,
+       COALESCE(cl.total, 0)::int as checklist_item_count,
+       COALESCE(cl.checked, 0)::int as checklist_checked_count,
+       COALESCE(cl.open_required, 0)::int as checklist_open_required_count
+     FROM tasks t
+     JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}
+     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_photos WHERE task_id = t.id) ph ON true
+     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_comments WHERE task_id = t.id AND deleted_at IS NULL) cm ON true
+     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_products WHERE task_id = t.id) tp ON true
+     ${CHECKLIST_COUNTS_JOIN}
+     LEFT JOIN users cu ON cu.id = t.created_by
+     LEFT JOIN users au ON au.id = t.assigned_to_user`;
 
 function buildOrderClause(sortBy?: string, sortOrder?: string): string {
   const dir = sortOrder === 'desc' ? 'DESC' : 'ASC';
@@ -70,11 +156,97 @@ function buildOrderClause(sortBy?: string, sortOrder?: string): string {
       return `t.created_at ${dir}`;
     case 'user':
       return `au.first_name ${dir} NULLS LAST, au.last_name ${dir} NULLS LAST, t.created_at DESC`;
+    case 'due':
+      return `t.due_date ${dir} NULLS LAST, t.task_number ASC`;
     default:
       return `t.task_number ASC`;
   }
 }
 
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/;
+const DATE_RANGE_COLUMNS = [
+  ['created', 't.created_at'],
+  ['completed', 't.completed_at'],
+  ['verified', 't.verified_at'],
+] as const;
+
+function addFilterConditions(filters: TaskFilters, conditions: string[], values: unknown[]): void {
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  const anyOf = (column: string, value: string | string[] | undefined) => {
+    if (value === undefined) return;
+    conditions.push(`${column} = ANY(${param(Array.isArray(value) ? value : [value])})`);
+  };
+
+  anyOf('t.status', filters.status);
+  anyOf('t.priority', filters.priority);
+  anyOf('t.trade', filters.trade);
+  anyOf('t.assigned_to_user', filters.assignedToUser);
+  anyOf('t.blueprint_id', filters.blueprintId);
+
+  if (filters.assignedToContractorEmail) {
+    conditions.push(`LOWER(t.assigned_to_contractor_email) = LOWER(${param(filters.assignedToContractorEmail)})`);
+  }
+  if (filters.hasPhotos !== undefined) {
+    conditions.push(`${filters.hasPhotos ? '' : 'NOT '}EXISTS (SELECT 1 FROM task_photos WHERE task_id = t.id)`);
+  }
+  for (const [name, column] of DATE_RANGE_COLUMNS) {
+    const from = filters[`${name}From`];
+    const to = filters[`${name}To`];
+    if (from) conditions.push(`${column} >= ${param(from)}::date`);
+    if (to) conditions.push(`${column} < ${param(to)}::date + 1`);
+  }
+  for (const predicate of filters.customFields || []) {
+    conditions.push(customFieldCondition(predicate, param));
+  }
+  if (filters.search) {
+    // Full-text in either language, falling back to substrings (e.g. part of a product code)
+    const search = param(`%${filters.search}%`);
+    const matches = [`t.title ILIKE ${search}`, `t.description ILIKE ${search}`];
+    const prefixQuery = toPrefixQuery(filters.search);
+    if (prefixQuery) {
+      const tsQuery = param(prefixQuery);
+      matches.unshift(
+        `${searchDocument(['t.title', 't.trade', 't.description'])} @@ (to_tsquery('english', ${tsQuery}) || to_tsquery('swedish', ${tsQuery}))`,
+      );
+    }
+    conditions.push(`(${matches.join(' OR ')})`);
+  }
+  if (filters.overdue) {
+    conditions.push(`(${DAYS_OVERDUE_SQL}) IS NOT NULL`);
+  }
+  if (filters.blocked !== undefined) {
+    conditions.push(`(${OPEN_BLOCKER_COUNT_SQL}) ${filters.blocked ? '>' : '='} 0`);
+  }
+}
+
+function customFieldCondition(predicate: CustomFieldPredicate, param: (value: unknown) => string): string {
+  const field = `(t.custom_fields->>${param(predicate.key)})`;
+  const value = predicate.value;
+  switch (predicate.op) {
+    case 'empty':
+      return `COALESCE(${field}, '') = ''`;
+    case 'not_empty':
+      return `COALESCE(${field}, '') <> ''`;
+    case 'eq':
+      return `${field} = ${param(String(value))}`;
+    case 'neq':
+      return `${field} IS DISTINCT FROM ${param(String(value))}`;
+    case 'contains':
+      return `${field} ILIKE ${param(`%${value}%`)}`;
+    default: {
+      const operator = { gt: '>', gte: '>=', lt: '<', lte: '<=' }[predicate.op];
+      // Numbers compare numerically (values that are not numbers never match); dates compare as ISO strings
+      if (typeof value === 'number' || NUMERIC_PATTERN.test(String(value))) {
+        return `(CASE WHEN ${field} ~ '^-?[0-9]+(\\.[0-9]+)?$' THEN ${field}::numeric END) ${operator} ${param(Number(value))}`;
+      }
+      return `${field} ${operator} ${param(String(value))}`;
+    }
+  }
+}
+
 export async function findTasksByProject(
   projectId: string,
   organizationId: string,
@@ -83,65 +255,21 @@ export async function findTasksByProject(
 ): Promise<{ tasks: TaskWithCounts[]; total: number }> {
   const conditions = ['t.project_id = $1', 'p.organization_id = $2'];
   const values: unknown[] = [projectId, organizationId];
-  let paramIndex = 3;
 
-  if (filters.status) {
-    conditions.push(`t.status = $${paramIndex}`);
-    values.push(filters.status);
-    paramIndex++;
-  }
-  if (filters.priority) {
-    conditions.push(`t.priority = $${paramIndex}`);
-    values.push(filters.priority);
-    paramIndex++;
-  }
-  if (filters.trade) {
-    conditions.push(`t.trade = $${paramIndex}`);
-    values.push(filters.trade);
-    paramIndex++;
-  }
-  if (filters.assignedToUser) {
-    conditions.push(`t.assigned_to_user = $${paramIndex}`);
-    values.push(filters.assignedToUser);
-    paramIndex++;
-  }
-  if (filters.assignedToContractorEmail) {
-    conditions.push(`t.assigned_to_contractor_email = $${paramIndex}`);
-    values.push(filters.assignedToContractorEmail);
-    paramIndex++;
-  }
-  if (filters.search) {
-    conditions.push(`(t.title ILIKE $${paramIndex} OR t.description ILIKE $${paramIndex})`);
-    values.push(`%${filters.search}%`);
-    paramIndex++;
-  }
+  addFilterConditions(filters, conditions, values);
 
   const where = conditions.join(' AND ');
 
   const countResult = await pool.query(
-    `SELECT COUNT(*) FROM tasks t JOIN projects p ON p.id = t.project_id WHERE ${where}`,
+    `SELECT COUNT(*) FROM tasks t JOIN projects p ON p.id = t.project_id ${STATUS_CATEGORY_JOIN} WHERE ${where}`,
     values,
   );
   const total = parseInt(countResult.rows[0].count, 10);
 
+  const paramIndex = values.length + 1;
   values.push(pagination.limit, pagination.offset);
   const result = await pool.query(
-    `SELECT t.*,
-       p.name as project_name,
-       COALESCE(ph.cnt, 0)::int as photo_count,
-       COALESCE(cm.cnt, 0)::int as comment_count,
-       COALESCE(tp.cnt, 0)::int as product_count,
-       cu.first_name as creator_first_name,
-       cu.last_name as creator_last_name,
-       au.first_name as assignee_first_name,
-       au.last_name as assignee_last_name
-     FROM tasks t
-     JOIN projects p ON p.id = t.project_id
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_photos WHERE task_id = t.id) ph ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_comments WHERE task_id = t.id) cm ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_products WHERE task_id = t.id) tp ON true
-     LEFT JOIN users cu ON cu.id = t.created_by
-     LEFT JOIN users au ON au.id = t.assigned_to_user
+    `${TASK_SELECT}
      WHERE ${where}
      ORDER BY ${buildOrderClause(filters.sortBy, filters.sortOrder)}
      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
@@ -164,28 +292,53 @@ export async function findTaskById(
   }
 
   const result = await pool.query(
-    `SELECT t.*,
-       p.name as project_name,
-       COALESCE(ph.cnt, 0)::int as photo_count,
-       COALESCE(cm.cnt, 0)::int as comment_count,
-       COALESCE(tp.cnt, 0)::int as product_count,
-       cu.first_name as creator_first_name,
-       cu.last_name as creator_last_name,
-       au.first_name as assignee_first_name,
-       au.last_name as assignee_last_name
-     FROM tasks t
-     JOIN projects p ON p.id = t.project_id
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_photos WHERE task_id = t.id) ph ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_comments WHERE task_id = t.id) cm ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_products WHERE task_id = t.id) tp ON true
-     LEFT JOIN users cu ON cu.id = t.created_by
-     LEFT JOIN users au ON au.id = t.assigned_to_user
+    `${TASK_SELECT}
      WHERE ${conditions.join(' AND ')}`,
     values,
   );
   return result.rows[0] || null;
 }
 
+export async function findTasksByIds(
+  ids: string[],
+  projectId: string,
+  organizationId: string,
+): Promise<TaskWithCounts[]> {
+  const result = await pool.query(
+    `${TASK_SELECT}
+     WHERE t.id = ANY($1) AND t.project_id = $2 AND p.organization_id = $3
+     ORDER BY t.task_number ASC`,
+    [ids, projectId, organizationId],
+  );
+  return result.rows;
+}
+
+export async function findTasksByNumbers(
+  taskNumbers: number[],
+  projectId: string,
+  organizationId: string,
+): Promise<TaskWithCounts[]> {
+  const result = await pool.query(
+    'SELECT id FROM tasks WHERE project_id = $1 AND task_number = ANY($2)',
+    [projectId, taskNumbers],
+  );
+  if (result.rows.length === 0) return [];
+  return findTasksByIds(result.rows.map((r) => r.id), projectId, organizationId);
+}
+
+/** Distinct trades used on the organisation's tasks, so imports can reuse their spelling. */
+export async function findTradesByOrganization(organizationId: string): Promise<string[]> {
+  const result = await pool.query(
+    `SELECT DISTINCT t.trade
+     FROM tasks t
+     JOIN projects p ON p.id = t.project_id
+     WHERE p.organization_id = $1 AND t.trade IS NOT NULL
+     ORDER BY t.trade`,
+    [organizationId],
+  );
+  return result.rows.map((r) => r.trade);
+}
+
 export async function createTask(data: {
   projectId: string;
   blueprintId?: string;
@@ -205,13 +358,18 @@ export async function createTask(data: {
   annotationHeight?: number;
   annotationPage?: number;
   annotationMarkers?: Array<{ id: string; x: number; y: number; page: number }> | null;
+  measurements?: TaskMeasurement[] | null;
   customFields?: Record<string, unknown>;
-}): Promise<TaskRow> {
-  const result = await pool.query(
+  dueDate?: string | null;
+  completedAt?: string;
+  verifiedAt?: string;
+}, db: Queryable = pool): Promise<TaskRow> {
+  const result = await db.query(
     `INSERT INTO tasks (project_id, task_number, blueprint_id, title, description, status, priority, trade,
        location_x, location_y, assigned_to_user, assigned_to_contractor_email, created_by,
-       annotation_x, annotation_y, annotation_width, annotation_height, annotation_page, annotation_markers, custom_fields)
-     VALUES ($1, (SELECT COALESCE(MAX(task_number), 0) + 1 FROM tasks WHERE project_id = $1), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19) RETURNING *`,
+       annotation_x, annotation_y, annotation_width, annotation_height, annotation_page, annotation_markers, measurements,
+       custom_fields, due_date, completed_at, verified_at)
+     VALUES ($1, (SELECT COALESCE(MAX(task_number), 0) + 1 FROM tasks WHERE project_id = $1), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23) RETURNING *`,
     [
       data.projectId, data.blueprintId || null, data.title, data.description || null,
       data.status || 'open', data.priority || 'normal', data.trade || null,
@@ -222,15 +380,22 @@ export async function createTask(data: {
       data.annotationWidth ?? null, data.annotationHeight ?? null,
       data.annotationPage ?? null,
       data.annotationMarkers ? JSON.stringify(data.annotationMarkers) : null,
+      data.measurements ? JSON.stringify(data.measurements) : null,
       JSON.stringify(data.customFields || {}),
+      data.dueDate || null,
+      data.completedAt || null,
+      data.verifiedAt || null,
     ],
   );
   return result.rows[0];
 }
 
+const JSON_FIELDS = new Set(['custom_fields', 'annotation_markers', 'measurements']);
+
 export async function updateTask(
   id: string,
   updates: Record<string, unknown>,
+  db: Queryable = pool,
 ): Promise<TaskRow | null> {
   const fields: string[] = [];
   const values: unknown[] = [];
@@ -256,7 +421,11 @@ export async function updateTask(
     annotationHeight: 'annotation_height',
     annotationPage: 'annotation_page',
     annotationMarkers: 'annotation_markers',
+    measurements: 'measurements',
+    annotationRevisionId: 'annotation_revision_id',
+    annotationRecordedRevisionId: 'annotation_recorded_revision_id',
     customFields: 'custom_fields',
+    dueDate: 'due_date',
   };
 
   for (const [key, value] of Object.entries(updates)) {
@@ -264,21 +433,51 @@ export async function updateTask(
     if (!dbField) continue;
     if (value !== undefined) {
       fields.push(`${dbField} = $${paramIndex}`);
-      values.push(dbField === 'custom_fields' || dbField === 'annotation_markers' ? JSON.stringify(value) : value);
+      values.push(JSON_FIELDS.has(dbField) ? JSON.stringify(value) : value);
       paramIndex++;
     }
   }
 
   if (fields.length === 0) return null;
 
+  // A new due date gets its own reminder and escalation
+  if (updates.dueDate !== undefined) {
+    fields.push('due_reminder_sent_at = NULL', 'overdue_escalated_at = NULL');
+  }
+
   values.push(id);
-  const result = await pool.query(
+  const result = await db.query(
     `UPDATE tasks SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
     values,
   );
   return result.rows[0] || null;
 }
 
+/**
+ * Move a task to another project under the next free task number there. Its
+ * blueprint, pin and annotations belong to the old project and are dropped.
+ */
+export async function moveTaskToProject(
+  id: string,
+  toProjectId: string,
+  assignedToUser: string | null,
+): Promise<TaskRow | null> {
+  const result = await pool.query(
+    `UPDATE tasks SET
+       project_id = $2,
+       task_number = (SELECT COALESCE(MAX(task_number), 0) + 1 FROM tasks WHERE project_id = $2),
+       assigned_to_user = $3,
+       blueprint_id = NULL, location_x = NULL, location_y = NULL,
+       annotation_x = NULL, annotation_y = NULL, annotation_width = NULL, annotation_height = NULL,
+       annotation_page = NULL, annotation_markers = NULL, measurements = NULL,
+       annotation_revision_id = NULL, annotation_recorded_revision_id = NULL
+     WHERE id = $1
+     RETURNING *`,
+    [id, toProjectId, assignedToUser],
+  );
+  return result.rows[0] || null;
+}
+
 export async function deleteTask(id: string): Promise<boolean> {
   const result = await pool.query('DELETE FROM tasks WHERE id = $1 RETURNING id', [id]);
   return (result.rowCount ?? 0) > 0;
@@ -287,25 +486,13 @@ export async function deleteTask(id: string): Promise<boolean> {
 export async function findTasksByUser(
   userId: string,
   organizationId: string,
+  filters: Pick<TaskFilters, 'overdue'> & { memberProjectsOnly?: boolean } = {},
 ): Promise<TaskWithCounts[]> {
   const result = await pool.query(
-    `SELECT t.*,
-       p.name as project_name,
-       COALESCE(ph.cnt, 0)::int as photo_count,
-       COALESCE(cm.cnt, 0)::int as comment_count,
-       COALESCE(tp.cnt, 0)::int as product_count,
-       cu.first_name as creator_first_name,
-       cu.last_name as creator_last_name,
-       au.first_name as assignee_first_name,
-       au.last_name as assignee_last_name
-     FROM tasks t
-     JOIN projects p ON p.id = t.project_id
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_photos WHERE task_id = t.id) ph ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_comments WHERE task_id = t.id) cm ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_products WHERE task_id = t.id) tp ON true
-     LEFT JOIN users cu ON cu.id = t.created_by
-     LEFT JOIN users au ON au.id = t.assigned_to_user
+    `${TASK_SELECT}
      WHERE t.assigned_to_user = $1 AND p.organization_id = $2
+       ${filters.memberProjectsOnly ? 'AND EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = t.project_id AND pm.user_id = $1)' : ''}
+       ${filters.overdue ? `AND (${DAYS_OVERDUE_SQL}) IS NOT NULL` : ''}
      ORDER BY p.name, t.task_number`,
     [userId, organizationId],
   );
@@ -316,26 +503,129 @@ export async function findTasksByBlueprint(
   blueprintId: string,
   organizationId: string,
 ): Promise<TaskWithCounts[]> {
+  const result = await pool.query(
+    `${TASK_SELECT}
+     WHERE t.blueprint_id = $1 AND p.organization_id = $2
+     ORDER BY t.task_number`,
+    [blueprintId, organizationId],
+  );
+  return result.rows;
+}
+
+export async function findTaskByReplyToken(
+  replyToken: string,
+): Promise<(TaskRow & {
+  organization_id: string;
+  project_name: string;
+  project_created_by: string;
+  checklist_open_required_count: number;
+}) | null> {
+  const result = await pool.query(
+    `SELECT t.*, p.organization_id, p.name as project_name, p.created_by as project_created_by,
+       (SELECT COUNT(*) FROM task_checklist_items
+        WHERE task_id = t.id AND is_required AND checked_at IS NULL)::int as checklist_open_required_count
+     FROM tasks t
+     JOIN projects p ON p.id = t.project_id
+     WHERE t.reply_token = $1`,
+    [replyToken],
+  );
+  return result.rows[0] || null;
+}
+
+export async function findOpenTasksByContractor(
+  projectId: string,
+  contractorEmail: string,
+): Promise<Array<TaskRow & { photo_count: number; comment_count: number }>> {
   const result = await pool.query(
     `SELECT t.*,
-       p.name as project_name,
        COALESCE(ph.cnt, 0)::int as photo_count,
-       COALESCE(cm.cnt, 0)::int as comment_count,
-       COALESCE(tp.cnt, 0)::int as product_count,
-       cu.first_name as creator_first_name,
-       cu.last_name as creator_last_name,
-       au.first_name as assignee_first_name,
-       au.last_name as assignee_last_name
+       COALESCE(cm.cnt, 0)::int as comment_count
      FROM tasks t
      JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}
      LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_photos WHERE task_id = t.id) ph ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_comments WHERE task_id = t.id) cm ON true
-     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_products WHERE task_id = t.id) tp ON true
-     LEFT JOIN users cu ON cu.id = t.created_by
-     LEFT JOIN users au ON au.id = t.assigned_to_user
-     WHERE t.blueprint_id = $1 AND p.organization_id = $2
+     LEFT JOIN LATERAL (SELECT COUNT(*) as cnt FROM task_comments WHERE task_id = t.id AND deleted_at IS NULL) cm ON true
+     WHERE t.project_id = $1
+       AND LOWER(t.assigned_to_contractor_email) = LOWER($2)
+       AND COALESCE(ws.category, t.status) IN ('open', 'in_progress')
      ORDER BY t.task_number`,
-    [blueprintId, organizationId],
+    [projectId, contractorEmail],
+  );
+  return result.rows;
+}
+
+export interface DueTaskNotice extends TaskRow {
+  organization_id: string;
+  project_name: string;
+  due_date_text: string;
+  days_overdue: number;
+  assignee_email: string | null;
+  assignee_first_name: string | null;
+  escalation_email: string | null;
+  escalation_first_name: string | null;
+}
+
+// Open tasks across all organisations with the people to notify about their due date
+const DUE_NOTICE_SELECT = `SELECT t.*,
+       p.organization_id,
+       p.name as project_name,
+       to_char(t.due_date, 'YYYY-MM-DD') as due_date_text,
+       GREATEST(${LOCAL_TODAY_SQL} - t.due_date, 0)::int as days_overdue,
+       au.email as assignee_email,
+       au.first_name as assignee_first_name,
+       COALESCE(ru.email, cu.email) as escalation_email,
+       COALESCE(ru.first_name, cu.first_name) as escalation_first_name
+     FROM tasks t
+     JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}
+     LEFT JOIN users au ON au.id = t.assigned_to_user AND au.is_active = true
+     LEFT JOIN users ru ON ru.id = p.responsible_user_id AND ru.is_active = true
+     LEFT JOIN users cu ON cu.id = p.created_by AND cu.is_active = true
+     WHERE t.due_date IS NOT NULL
+       AND COALESCE(ws.category, t.status) IN ('open', 'in_progress')`;
+
+/**
+ * Mark the open tasks matching `condition` as notified and return them. The UPDATE
+ * only takes rows whose `column` is still NULL, so when several instances run the
+ * check at once each task is claimed, and notified about, by exactly one of them.
+ */
+async function claimDueNotices(
+  column: 'due_reminder_sent_at' | 'overdue_escalated_at',
+  condition: string,
+  params: unknown[] = [],
+): Promise<DueTaskNotice[]> {
+  const result = await pool.query(
+    `WITH claimed AS (
+       UPDATE tasks SET ${column} = NOW()
+       WHERE ${column} IS NULL
+         AND id IN (
+           SELECT t.id FROM tasks t
+           JOIN projects p ON p.id = t.project_id
+           ${STATUS_CATEGORY_JOIN}
+           WHERE t.due_date IS NOT NULL
+             AND COALESCE(ws.category, t.status) IN ('open', 'in_progress')
+             AND ${condition}
+         )
+       RETURNING id
+     )
+     ${DUE_NOTICE_SELECT}
+       AND t.id IN (SELECT id FROM claimed)
+     ORDER BY t.due_date`,
+    params,
   );
   return result.rows;
 }
+
+/** Claim the tasks due within the next `withinDays` days that have not had a reminder yet. */
+export async function claimTasksDueForReminder(withinDays: number): Promise<DueTaskNotice[]> {
+  return claimDueNotices(
+    'due_reminder_sent_at',
+    `t.due_date >= ${LOCAL_TODAY_SQL} AND t.due_date <= ${LOCAL_TODAY_SQL} + $1::int`,
+    [withinDays],
+  );
+}
+
+/** Claim the overdue tasks whose project has not been told yet. */
+export async function claimOverdueTasksForEscalation(): Promise<DueTaskNotice[]> {
+  return claimDueNotices('overdue_escalated_at', `t.due_date < ${LOCAL_TODAY_SQL}`);
+}
@@ -0,0 +1,102 @@
+import pool from '../config/database';
+import { TemplateChecklistItem } from './taskTemplate.model';
+
+export interface ChecklistItemRow {
+  id: string;
+  task_id: string;
+  template_id: string | null;
+  text: string;
+  is_required: boolean;
+  position: number;
+  checked_by: string | null;
+  checked_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface ChecklistItemWithUser extends ChecklistItemRow {
+  checked_by_first_name: string | null;
+  checked_by_last_name: string | null;
+}
+
+export async function findItemsByTask(taskId: string): Promise<ChecklistItemWithUser[]> {
+  const result = await pool.query(
+    `SELECT ci.*, u.first_name as checked_by_first_name, u.last_name as checked_by_last_name
+     FROM task_checklist_items ci
+     LEFT JOIN users u ON u.id = ci.checked_by
+     WHERE ci.task_id = $1
+     ORDER BY ci.position, ci.created_at`,
+    [taskId],
+  );
+  return result.rows;
+}
+
+/** Checklists of several tasks at once, e.g. for a protocol. */
+export async function findItemsByTasks(taskIds: string[]): Promise<ChecklistItemWithUser[]> {
+  if (taskIds.length === 0) return [];
+  const result = await pool.query(
+    `SELECT ci.*, u.first_name as checked_by_first_name, u.last_name as checked_by_last_name
+     FROM task_checklist_items ci
+     LEFT JOIN users u ON u.id = ci.checked_by
+     WHERE ci.task_id = ANY($1::uuid[])
+     ORDER BY ci.task_id, ci.position, ci.created_at`,
+    [taskIds],
+  );
+  return result.rows;
+}
+
+/** Append items to the end of the task's checklist. */
+export async function addItems(
+  taskId: string,
+  items: TemplateChecklistItem[],
+  context: { templateId?: string | null; createdBy: string },
+): Promise<ChecklistItemRow[]> {
+  if (items.length === 0) return [];
+  const result = await pool.query(
+    `INSERT INTO task_checklist_items (task_id, template_id, text, is_required, position, created_by)
+     SELECT $1, $2, item.text, item.is_required,
+       (SELECT COALESCE(MAX(position), -1) FROM task_checklist_items WHERE task_id = $1) + item.ord, $5
+     FROM unnest($3::text[], $4::boolean[]) WITH ORDINALITY AS item(text, is_required, ord)
+     RETURNING *`,
+    [
+      taskId,
+      context.templateId || null,
+      items.map((i) => i.text),
+      items.map((i) => i.isRequired),
+      context.createdBy,
+    ],
+  );
+  return result.rows;
+}
+
+export async function findItemById(id: string, taskId: string): Promise<ChecklistItemRow | null> {
+  const result = await pool.query(
+    'SELECT * FROM task_checklist_items WHERE id = $1 AND task_id = $2',
+    [id, taskId],
+  );
+  return result.rows[0] || null;
+}
+
+/** Tick (recording who and when) or untick an item. */
+export async function setItemChecked(
+  id: string,
+  taskId: string,
+  checkedBy: string | null,
+): Promise<ChecklistItemRow | null> {
+  const result = await pool.query(
+    `UPDATE task_checklist_items
+     SET checked_by = $3, checked_at = CASE WHEN $3::uuid IS NULL THEN NULL ELSE NOW() END
+     WHERE id = $1 AND task_id = $2
+     RETURNING *`,
+    [id, taskId, checkedBy],
+  );
+  return result.rows[0] || null;
+}
+
+export async function deleteItem(id: string, taskId: string): Promise<ChecklistItemRow | null> {
+  const result = await pool.query(
+    'DELETE FROM task_checklist_items WHERE id = $1 AND task_id = $2 RETURNING *',
+    [id, taskId],
+  );
+  return result.rows[0] || null;
+}
@@ -0,0 +1,73 @@
+import pool, { Queryable } from '../config/database';
+
+export interface TaskHistoryRow {
+  id: string;
+  task_id: string;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  changed_by: string | null;
+  external_email: string | null;
+  via: string | null;
+  created_at: Date;
+  user_first_name?: string;
+  user_last_name?: string;
+}
+
+export interface TaskHistoryChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface TaskHistoryActor {
+  userId?: string | null;
+  externalEmail?: string;
+  via?: 'portal' | 'email';
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+export async function recordChanges(
+  taskId: string,
+  changes: TaskHistoryChange[],
+  actor: TaskHistoryActor,
+  db: Queryable = pool,
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  const values: unknown[] = [];
+  const rows = changes.map((change, i) => {
+    const base = i * 7;
+    values.push(
+      taskId,
+      change.field,
+      toJson(change.oldValue),
+      toJson(change.newValue),
+      actor.userId || null,
+      actor.externalEmail || null,
+      actor.via || null,
+    );
+    return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`;
+  });
+
+  await db.query(
+    `INSERT INTO task_history (task_id, field, old_value, new_value, changed_by, external_email, via)
+     VALUES ${rows.join(', ')}`,
+    values,
+  );
+}
+
+export async function findHistoryByTask(taskId: string): Promise<TaskHistoryRow[]> {
+  const result = await pool.query(
+    `SELECT th.*, u.first_name as user_first_name, u.last_name as user_last_name
+     FROM task_history th
+     LEFT JOIN users u ON u.id = th.changed_by
+     WHERE th.task_id = $1
+     ORDER BY th.created_at ASC, th.id ASC`,
+    [taskId],
+  );
+  return result.rows;
+}
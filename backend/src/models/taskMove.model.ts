@@ -0,0 +1,40 @@
+import pool from '../config/database';
+
+export interface TaskMoveRow {
+  id: string;
+  task_id: string;
+  from_project_id: string;
+  from_task_number: number;
+  to_project_id: string;
+  to_task_number: number;
+  moved_by: string | null;
+  moved_at: Date;
+}
+
+export async function recordMove(data: {
+  taskId: string;
+  fromProjectId: string;
+  fromTaskNumber: number;
+  toProjectId: string;
+  toTaskNumber: number;
+  movedBy: string;
+}): Promise<TaskMoveRow> {
+  const result = await pool.query(
+    `INSERT INTO task_moves (task_id, from_project_id, from_task_number, to_project_id, to_task_number, moved_by)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+    [data.taskId, data.fromProjectId, data.fromTaskNumber, data.toProjectId, data.toTaskNumber, data.movedBy],
+  );
+  return result.rows[0];
+}
+
+/** The latest move of the task out of the project, if it ever left it. */
+export async function findMoveFromProject(taskId: string, projectId: string): Promise<TaskMoveRow | null> {
+  const result = await pool.query(
+    `SELECT * FROM task_moves
+     WHERE task_id = $1 AND from_project_id = $2
+     ORDER BY moved_at DESC
+     LIMIT 1`,
+    [taskId, projectId],
+  );
+  return result.rows[0] || null;
+}
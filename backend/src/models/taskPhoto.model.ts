@@ -56,7 +56,7 @@ export async function createTaskPhoto(data: {
   fileSizeBytes: number;
   thumbnailUrl?: string;
   caption?: string;
-  uploadedBy: string;
+  uploadedBy: string | null;
 }): Promise<TaskPhotoRow> {
   const result = await pool.query(
     `INSERT INTO task_photos (task_id, file_url, file_size_bytes, thumbnail_url, caption, uploaded_by)
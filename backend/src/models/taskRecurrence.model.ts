@@ -0,0 +1,190 @@
+import pool from '../config/database';
+import { STATUS_CATEGORY_JOIN } from './task.model';
+
+export interface TaskRecurrenceRow {
+  id: string;
+  project_id: string;
+  template_id: string;
+  rule: string;
+  /** Dates as YYYY-MM-DD */
+  starts_on: string;
+  next_occurrence_on: string | null;
+  assigned_to_user: string | null;
+  skip_if_open: boolean;
+  is_active: boolean;
+  occurrence_count: number;
+  last_task_id: string | null;
+  last_skipped_on: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TaskRecurrenceWithDetails extends TaskRecurrenceRow {
+  template_name: string;
+  template_title: string;
+  template_trade: string | null;
+  assignee_first_name: string | null;
+  assignee_last_name: string | null;
+  last_task_number: number | null;
+  last_task_status: string | null;
+}
+
+/** A recurrence the scheduler has to act on, with what it needs to decide */
+export interface DueRecurrence extends TaskRecurrenceRow {
+  organization_id: string;
+  /** Workflow category of the previous occurrence's task, null when there is none */
+  last_task_category: string | null;
+}
+
+const DATE_COLUMNS = `to_char(tr.starts_on, 'YYYY-MM-DD') as starts_on,
+       to_char(tr.next_occurrence_on, 'YYYY-MM-DD') as next_occurrence_on,
+       to_char(tr.last_skipped_on, 'YYYY-MM-DD') as last_skipped_on`;
+
+const SELECT_WITH_DETAILS = `SELECT tr.*, ${DATE_COLUMNS},
+       tt.name as template_name, tt.title as template_title, tt.trade as template_trade,
+       u.first_name as assignee_first_name, u.last_name as assignee_last_name,
+       lt.task_number as last_task_number, lt.status as last_task_status
+     FROM task_recurrences tr
+     JOIN task_templates tt ON tt.id = tr.template_id
+     LEFT JOIN users u ON u.id = tr.assigned_to_user
+     LEFT JOIN tasks lt ON lt.id = tr.last_task_id`;
+
+export async function findRecurrencesByProject(projectId: string): Promise<TaskRecurrenceWithDetails[]> {
+  const result = await pool.query(
+    `${SELECT_WITH_DETAILS}
+     WHERE tr.project_id = $1
+     ORDER BY tr.is_active DESC, tr.next_occurrence_on NULLS LAST, tt.name`,
+    [projectId],
+  );
+  return result.rows;
+}
+
+export async function findRecurrenceById(id: string, projectId: string): Promise<TaskRecurrenceWithDetails | null> {
+  const result = await pool.query(
+    `${SELECT_WITH_DETAILS}
+     WHERE tr.id = $1 AND tr.project_id = $2`,
+    [id, projectId],
+  );
+  return result.rows[0] || null;
+}
+
+export async function createRecurrence(data: {
+  projectId: string;
+  templateId: string;
+  rule: string;
+  startsOn: string;
+  nextOccurrenceOn: string | null;
+  assignedToUser?: string | null;
+  skipIfOpen?: boolean;
+  createdBy: string;
+}): Promise<TaskRecurrenceWithDetails> {
+  const result = await pool.query(
+    `INSERT INTO task_recurrences
+       (project_id, template_id, rule, starts_on, next_occurrence_on, assigned_to_user, skip_if_open, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING id`,
+    [
+      data.projectId,
+      data.templateId,
+      data.rule,
+      data.startsOn,
+      data.nextOccurrenceOn,
+      data.assignedToUser || null,
+      data.skipIfOpen ?? true,
+      data.createdBy,
+    ],
+  );
+  return (await findRecurrenceById(result.rows[0].id, data.projectId))!;
+}
+
+export async function updateRecurrence(
+  id: string,
+  projectId: string,
+  updates: Record<string, unknown>,
+): Promise<TaskRecurrenceWithDetails | null> {
+  const fieldMap: Record<string, string> = {
+    templateId: 'template_id',
+    rule: 'rule',
+    startsOn: 'starts_on',
+    nextOccurrenceOn: 'next_occurrence_on',
+    assignedToUser: 'assigned_to_user',
+    skipIfOpen: 'skip_if_open',
+    isActive: 'is_active',
+  };
+
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  let paramIndex = 1;
+
+  for (const [key, value] of Object.entries(updates)) {
+    const dbField = fieldMap[key];
+    if (!dbField || value === undefined) continue;
+    sets.push(`${dbField} = $${paramIndex}`);
+    values.push(value === '' ? null : value);
+    paramIndex++;
+  }
+
+  if (sets.length > 0) {
+    values.push(id, projectId);
+    const result = await pool.query(
+      `UPDATE task_recurrences SET ${sets.join(', ')}
+       WHERE id = $${paramIndex} AND project_id = $${paramIndex + 1}
+       RETURNING id`,
+      values,
+    );
+    if (result.rows.length === 0) return null;
+  }
+
+  return findRecurrenceById(id, projectId);
+}
+
+export async function deleteRecurrence(id: string, projectId: string): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM task_recurrences WHERE id = $1 AND project_id = $2 RETURNING id',
+    [id, projectId],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** Active recurrences of active projects with an occurrence on or before `today` (YYYY-MM-DD). */
+export async function findDueRecurrences(today: string): Promise<DueRecurrence[]> {
+  const result = await pool.query(
+    `SELECT tr.*, ${DATE_COLUMNS},
+       p.organization_id,
+       CASE WHEN t.id IS NOT NULL THEN COALESCE(ws.category, t.status) END as last_task_category
+     FROM task_recurrences tr
+     JOIN projects p ON p.id = tr.project_id
+     LEFT JOIN tasks t ON t.id = tr.last_task_id
+     ${STATUS_CATEGORY_JOIN}
+     WHERE tr.is_active
+       AND tr.next_occurrence_on <= $1::date
+       AND p.status = 'active'
+     ORDER BY tr.next_occurrence_on`,
+    [today],
+  );
+  return result.rows;
+}
+
+/**
+ * Move a recurrence past the occurrence due on `occurrenceOn`. Returns false when
+ * another run already did, so each occurrence is handled once.
+ */
+export async function claimOccurrence(id: string, occurrenceOn: string, nextOccurrenceOn: string | null): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE task_recurrences
+     SET next_occurrence_on = $3, occurrence_count = occurrence_count + 1
+     WHERE id = $1 AND next_occurrence_on = $2::date
+     RETURNING id`,
+    [id, occurrenceOn, nextOccurrenceOn],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function setLastTask(id: string, taskId: string): Promise<void> {
+  await pool.query('UPDATE task_recurrences SET last_task_id = $2 WHERE id = $1', [id, taskId]);
+}
+
+export async function markSkipped(id: string, occurrenceOn: string): Promise<void> {
+  await pool.query('UPDATE task_recurrences SET last_skipped_on = $2 WHERE id = $1', [id, occurrenceOn]);
+}
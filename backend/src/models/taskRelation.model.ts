@@ -0,0 +1,155 @@
+import pool from '../config/database';
+import { OPEN_BLOCKER_COUNT_SQL, STATUS_CATEGORY_JOIN } from './task.model';
+
+export type StoredRelationType = 'blocks' | 'duplicates' | 'relates_to';
+
+export interface TaskRelationRow {
+  id: string;
+  project_id: string;
+  source_task_id: string;
+  target_task_id: string;
+  relation_type: StoredRelationType;
+  created_by: string | null;
+  created_at: Date;
+}
+
+/** A relation as seen from one of its tasks, with the task on the other end. */
+export interface TaskRelationView extends TaskRelationRow {
+  /** outgoing: the viewing task is the source ("blocks", "duplicates") */
+  direction: 'outgoing' | 'incoming';
+  related_task_id: string;
+  related_task_number: number;
+  related_title: string;
+  related_status: string;
+  related_status_category: string;
+}
+
+export interface BlockerTask {
+  id: string;
+  task_number: number;
+  title: string;
+}
+
+export interface UnblockedTask {
+  id: string;
+  project_id: string;
+  task_number: number;
+  title: string;
+  assigned_to_user: string | null;
+  created_by: string;
+}
+
+export async function findRelationsByTask(taskId: string): Promise<TaskRelationView[]> {
+  const result = await pool.query(
+    `SELECT r.*,
+       CASE WHEN r.source_task_id = $1 THEN 'outgoing' ELSE 'incoming' END AS direction,
+       t.id AS related_task_id, t.task_number AS related_task_number, t.title AS related_title,
+       t.status AS related_status, COALESCE(ws.category, t.status) AS related_status_category
+     FROM task_relations r
+     JOIN tasks t ON t.id = CASE WHEN r.source_task_id = $1 THEN r.target_task_id ELSE r.source_task_id END
+     JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}
+     WHERE r.source_task_id = $1 OR r.target_task_id = $1
+     ORDER BY r.relation_type, t.task_number`,
+    [taskId],
+  );
+  return result.rows;
+}
+
+/** An existing link of the type between the two tasks; relates_to matches either direction. */
+export async function findExistingRelation(
+  sourceTaskId: string,
+  targetTaskId: string,
+  relationType: StoredRelationType,
+): Promise<TaskRelationRow | null> {
+  const result = await pool.query(
+    `SELECT * FROM task_relations
+     WHERE relation_type = $3
+       AND ((source_task_id = $1 AND target_task_id = $2)
+         OR (relation_type = 'relates_to' AND source_task_id = $2 AND target_task_id = $1))`,
+    [sourceTaskId, targetTaskId, relationType],
+  );
+  return result.rows[0] || null;
+}
+
+/** Whether blockedTaskId already blocks blockerTaskId, directly or through other tasks. */
+export async function wouldCreateBlockCycle(blockerTaskId: string, blockedTaskId: string): Promise<boolean> {
+  const result = await pool.query(
+    `WITH RECURSIVE downstream(task_id) AS (
+       SELECT $2::uuid
+       UNION
+       SELECT r.target_task_id FROM task_relations r
+       JOIN downstream d ON r.source_task_id = d.task_id
+       WHERE r.relation_type = 'blocks'
+     )
+     SELECT EXISTS (SELECT 1 FROM downstream WHERE task_id = $1) AS cycle`,
+    [blockerTaskId, blockedTaskId],
+  );
+  return result.rows[0].cycle;
+}
+
+export async function createRelation(data: {
+  projectId: string;
+  sourceTaskId: string;
+  targetTaskId: string;
+  relationType: StoredRelationType;
+  createdBy: string;
+}): Promise<TaskRelationRow> {
+  const result = await pool.query(
+    `INSERT INTO task_relations (project_id, source_task_id, target_task_id, relation_type, created_by)
+     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+    [data.projectId, data.sourceTaskId, data.targetTaskId, data.relationType, data.createdBy],
+  );
+  return result.rows[0];
+}
+
+/** Delete a relation the task is on either end of. */
+export async function deleteRelation(id: string, taskId: string): Promise<TaskRelationRow | null> {
+  const result = await pool.query(
+    `DELETE FROM task_relations
+     WHERE id = $1 AND (source_task_id = $2 OR target_task_id = $2)
+     RETURNING *`,
+    [id, taskId],
+  );
+  return result.rows[0] || null;
+}
+
+/** Delete every relation the task is on either end of. Returns how many there were. */
+export async function deleteRelationsOfTask(taskId: string): Promise<number> {
+  const result = await pool.query(
+    'DELETE FROM task_relations WHERE source_task_id = $1 OR target_task_id = $1',
+    [taskId],
+  );
+  return result.rowCount ?? 0;
+}
+
+export async function findOpenBlockers(taskId: string): Promise<BlockerTask[]> {
+  const result = await pool.query(
+    `SELECT t.id, t.task_number, t.title
+     FROM task_relations r
+     JOIN tasks t ON t.id = r.source_task_id
+     JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}
+     WHERE r.target_task_id = $1 AND r.relation_type = 'blocks'
+       AND COALESCE(ws.category, t.status) NOT IN ('completed', 'verified')
+     ORDER BY t.task_number`,
+    [taskId],
+  );
+  return result.rows;
+}
+
+/** Unfinished tasks blocked by the given task that have no other open blockers left. */
+export async function findTasksUnblockedBy(taskId: string): Promise<UnblockedTask[]> {
+  const result = await pool.query(
+    `SELECT t.id, t.project_id, t.task_number, t.title, t.assigned_to_user, t.created_by
+     FROM task_relations r
+     JOIN tasks t ON t.id = r.target_task_id
+     JOIN projects p ON p.id = t.project_id
+     ${STATUS_CATEGORY_JOIN}
+     WHERE r.source_task_id = $1 AND r.relation_type = 'blocks'
+       AND COALESCE(ws.category, t.status) NOT IN ('completed', 'verified')
+       AND ${OPEN_BLOCKER_COUNT_SQL} = 0`,
+    [taskId],
+  );
+  return result.rows;
+}
@@ -0,0 +1,164 @@
+import pool from '../config/database';
+
+export interface TemplateChecklistItem {
+  text: string;
+  isRequired: boolean;
+}
+
+export interface TaskTemplateRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  trade: string | null;
+  priority: string;
+  custom_fields: Record<string, unknown>;
+  checklist_items: TemplateChecklistItem[];
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TaskTemplateWithProducts extends TaskTemplateRow {
+  products: Array<{ id: string; name: string }>;
+}
+
+const SELECT_WITH_PRODUCTS = `SELECT tt.*,
+       COALESCE(tp.products, '[]'::json) as products
+     FROM task_templates tt
+     LEFT JOIN LATERAL (
+       SELECT json_agg(json_build_object('id', pr.id, 'name', pr.name) ORDER BY pr.name) as products
+       FROM task_template_products ttp
+       JOIN products pr ON pr.id = ttp.product_id
+       WHERE ttp.template_id = tt.id
+     ) tp ON true`;
+
+export async function findTemplatesByOrganization(
+  organizationId: string,
+  trade?: string,
+): Promise<TaskTemplateWithProducts[]> {
+  const conditions = ['tt.organization_id = $1'];
+  const values: unknown[] = [organizationId];
+  if (trade) {
+    conditions.push('tt.trade = $2');
+    values.push(trade);
+  }
+
+  const result = await pool.query(
+    `${SELECT_WITH_PRODUCTS}
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY tt.trade NULLS FIRST, tt.name`,
+    values,
+  );
+  return result.rows;
+}
+
+export async function findTemplateById(id: string, organizationId: string): Promise<TaskTemplateWithProducts | null> {
+  const result = await pool.query(
+    `${SELECT_WITH_PRODUCTS}
+     WHERE tt.id = $1 AND tt.organization_id = $2`,
+    [id, organizationId],
+  );
+  return result.rows[0] || null;
+}
+
+/** Replace the template's product links with the given products of the organisation. */
+async function setTemplateProducts(templateId: string, organizationId: string, productIds: string[]): Promise<void> {
+  await pool.query('DELETE FROM task_template_products WHERE template_id = $1', [templateId]);
+  if (productIds.length === 0) return;
+  await pool.query(
+    `INSERT INTO task_template_products (template_id, product_id)
+     SELECT $1, id FROM products WHERE id = ANY($2::uuid[]) AND organization_id = $3`,
+    [templateId, productIds, organizationId],
+  );
+}
+
+export async function createTemplate(data: {
+  organizationId: string;
+  name: string;
+  title: string;
+  description?: string | null;
+  trade?: string | null;
+  priority?: string;
+  customFields?: Record<string, unknown>;
+  checklistItems?: TemplateChecklistItem[];
+  productIds?: string[];
+  createdBy: string;
+}): Promise<TaskTemplateWithProducts> {
+  const result = await pool.query(
+    `INSERT INTO task_templates
+       (organization_id, name, title, description, trade, priority, custom_fields, checklist_items, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id`,
+    [
+      data.organizationId,
+      data.name,
+      data.title,
+      data.description || null,
+      data.trade || null,
+      data.priority || 'normal',
+      JSON.stringify(data.customFields || {}),
+      JSON.stringify(data.checklistItems || []),
+      data.createdBy,
+    ],
+  );
+  const id = result.rows[0].id;
+  await setTemplateProducts(id, data.organizationId, data.productIds || []);
+  return (await findTemplateById(id, data.organizationId))!;
+}
+
+export async function updateTemplate(
+  id: string,
+  organizationId: string,
+  updates: Record<string, unknown>,
+): Promise<TaskTemplateWithProducts | null> {
+  const fieldMap: Record<string, string> = {
+    name: 'name',
+    title: 'title',
+    description: 'description',
+    trade: 'trade',
+    priority: 'priority',
+    customFields: 'custom_fields',
+    checklistItems: 'checklist_items',
+  };
+  const jsonFields = new Set(['customFields', 'checklistItems']);
+
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  let paramIndex = 1;
+
+  for (const [key, value] of Object.entries(updates)) {
+    const dbField = fieldMap[key];
+    if (!dbField || value === undefined) continue;
+    sets.push(`${dbField} = $${paramIndex}`);
+    values.push(jsonFields.has(key) ? JSON.stringify(value) : value === '' ? null : value);
+    paramIndex++;
+  }
+
+  if (sets.length > 0) {
+    values.push(id, organizationId);
+    const result = await pool.query(
+      `UPDATE task_templates SET ${sets.join(', ')}
+       WHERE id = $${paramIndex} AND organization_id = $${paramIndex + 1}
+       RETURNING id`,
+      values,
+    );
+    if (result.rows.length === 0) return null;
+  }
+
+  if (Array.isArray(updates.productIds)) {
+    if (sets.length === 0 && !(await findTemplateById(id, organizationId))) return null;
+    await setTemplateProducts(id, organizationId, updates.productIds as string[]);
+  }
+
+  return findTemplateById(id, organizationId);
+}
+
+export async function deleteTemplate(id: string, organizationId: string): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM task_templates WHERE id = $1 AND organization_id = $2 RETURNING id',
+    [id, organizationId],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,109 @@
+import pool from '../config/database';
+
+export interface WorkflowStatusRow {
+  id: string;
+  organization_id: string;
+  status_key: string;
+  label: string;
+  color: string;
+  category: string;
+  is_initial: boolean;
+  display_order: number;
+  created_at: Date;
+}
+
+export interface WorkflowTransitionRow {
+  id: string;
+  organization_id: string;
+  from_status: string;
+  to_status: string;
+  allowed_roles: string[];
+  requires_comment: boolean;
+  requires_photo: boolean;
+  allow_external: boolean;
+  created_at: Date;
+}
+
+export async function findStatuses(organizationId: string): Promise<WorkflowStatusRow[]> {
+  const result = await pool.query(
+    `SELECT * FROM workflow_statuses
+     WHERE organization_id = $1
+     ORDER BY display_order, created_at`,
+    [organizationId],
+  );
+  return result.rows;
+}
+
+export async function findTransitions(organizationId: string): Promise<WorkflowTransitionRow[]> {
+  const result = await pool.query(
+    `SELECT * FROM workflow_transitions
+     WHERE organization_id = $1
+     ORDER BY created_at`,
+    [organizationId],
+  );
+  return result.rows;
+}
+
+/** Number of tasks per status across the organisation's projects. */
+export async function countTasksByStatus(organizationId: string): Promise<Record<string, number>> {
+  const result = await pool.query(
+    `SELECT t.status, COUNT(*)::int AS count
+     FROM tasks t
+     JOIN projects p ON p.id = t.project_id
+     WHERE p.organization_id = $1
+     GROUP BY t.status`,
+    [organizationId],
+  );
+  return Object.fromEntries(result.rows.map((r: { status: string; count: number }) => [r.status, r.count]));
+}
+
+/** Replace the organisation's whole workflow definition in one transaction. */
+export async function replaceWorkflow(
+  organizationId: string,
+  statuses: Array<{
+    key: string;
+    label: string;
+    color: string;
+    category: string;
+    isInitial: boolean;
+  }>,
+  transitions: Array<{
+    from: string;
+    to: string;
+    allowedRoles: string[];
+    requiresComment: boolean;
+    requiresPhoto: boolean;
+    allowExternal: boolean;
+  }>,
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM workflow_transitions WHERE organization_id = $1', [organizationId]);
+    await client.query('DELETE FROM workflow_statuses WHERE organization_id = $1', [organizationId]);
+
+    for (const [index, s] of statuses.entries()) {
+      await client.query(
+        `INSERT INTO workflow_statuses (organization_id, status_key, label, color, category, is_initial, display_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [organizationId, s.key, s.label, s.color, s.category, s.isInitial, index],
+      );
+    }
+
+    for (const t of transitions) {
+      await client.query(
+        `INSERT INTO workflow_transitions
+           (organization_id, from_status, to_status, allowed_roles, requires_comment, requires_photo, allow_external)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [organizationId, t.from, t.to, t.allowedRoles, t.requiresComment, t.requiresPhoto, t.allowExternal],
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -2,42 +2,56 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
 import { authenticate } from '../middleware/authenticate';
 import { authorize } from '../middleware/authorize';
-import { validate } from '../middleware/validate';
+import { requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
+import { validate, zodErrorDetails } from '../middleware/validate';
 import { uploadLimiter } from '../middleware/rateLimiter';
 import { sendSuccess, sendError } from '../utils/response';
 import { logAuditAction } from '../services/audit.service';
-import { UserRole } from '../types';
-import { requestBlueprintUploadSchema } from '../validators/upload.validators';
+import { publishEvent } from '../services/realtime.service';
+import { ProjectRole, UserRole } from '../types';
+import {
+  requestBlueprintUploadSchema,
+  confirmBlueprintUploadSchema,
+  reviewAnnotationsSchema,
+  compareRevisionsSchema,
+  blueprintPreviewsSchema,
+  calibrateBlueprintPageSchema,
+} from '../validators/upload.validators';
 import * as blueprintModel from '../models/blueprint.model';
-import * as projectModel from '../models/project.model';
+import * as blueprintRevisionModel from '../models/blueprintRevision.model';
+import * as blueprintComparisonModel from '../models/blueprintComparison.model';
+import * as blueprintPreviewModel from '../models/blueprintPreview.model';
+import * as taskModel from '../models/task.model';
 import * as storageService from '../services/storage.service';
 import * as storageTracking from '../services/storageTracking.service';
 import * as thumbnailService from '../services/thumbnail.service';
+import * as blueprintRevisionService from '../services/blueprintRevision.service';
+import * as blueprintCompareService from '../services/blueprintCompare.service';
+import * as blueprintPreviewService from '../services/blueprintPreview.service';
+import * as measurementService from '../services/measurement.service';
+import * as taskHistoryService from '../services/taskHistory.service';
 import { param } from '../utils/params';
 
 const router = Router({ mergeParams: true });
 
 // All blueprint routes require authentication
 router.use(authenticate);
-
-// Helper: verify project access
-async function verifyProjectAccess(req: Request, res: Response): Promise<boolean> {
-  const project = await projectModel.findProjectById(
-    param(req.params.projectId),
-    req.user!.organizationId,
-  );
-  if (!project) {
-    sendError(res, 404, 'NOT_FOUND', 'Project not found');
-    return false;
+router.use(requireProjectAccess);
+
+// Helper: the blueprint in :blueprintId, which must belong to the project.
+// Sends the error response and returns null otherwise.
+async function findProjectBlueprint(req: Request, res: Response): Promise<blueprintModel.BlueprintRow | null> {
+  const blueprint = await blueprintModel.findBlueprintById(param(req.params.blueprintId), req.user!.organizationId);
+  if (!blueprint || blueprint.project_id !== param(req.params.projectId)) {
+    sendError(res, 404, 'NOT_FOUND', 'Blueprint not found');
+    return null;
   }
-  return true;
+  return blueprint;
 }
 
 // GET /api/v1/projects/:projectId/blueprints — list blueprints
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    if (!(await verifyProjectAccess(req, res))) return;
-
     const blueprints = await blueprintModel.findBlueprintsByProject(
       param(req.params.projectId),
       req.user!.organizationId,
@@ -65,13 +79,30 @@ router.post(
   '/upload-url',
   uploadLimiter,
   authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
   validate(requestBlueprintUploadSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!(await verifyProjectAccess(req, res))) return;
-
       const { fileName, fileSize, mimeType, name } = req.body;
 
+      // A new revision of an existing blueprint, or a new blueprint as its revision A
+      const existing = req.body.blueprintId
+        ? await blueprintModel.findBlueprintById(req.body.blueprintId, req.user!.organizationId)
+        : null;
+      if (req.body.blueprintId && (!existing || existing.project_id !== param(req.params.projectId))) {
+        sendError(res, 404, 'NOT_FOUND', 'Blueprint not found');
+        return;
+      }
+      // Annotations and comparisons only make sense between files of the same kind
+      if (existing && (existing.mime_type === 'application/pdf') !== (mimeType === 'application/pdf')) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', {
+          mimeType: existing.mime_type === 'application/pdf'
+            ? 'A revision of a PDF blueprint must be a PDF'
+            : 'A revision of an image blueprint must be an image',
+        });
+        return;
+      }
+
       // Check storage limit
       const storageCheck = await storageTracking.checkStorageLimit(
         req.user!.organizationId,
@@ -85,18 +116,17 @@ router.post(
         return;
       }
 
-      // Create pending blueprint record
-      const blueprintId = randomUUID();
+      const revisionId = randomUUID();
       const s3Key = storageService.buildS3Key(
         'blueprints',
         req.user!.organizationId,
         param(req.params.projectId),
-        blueprintId,
+        revisionId,
         fileName,
       );
 
       // Create blueprint record with pending file_url (the S3 key)
-      const blueprint = await blueprintModel.createBlueprint({
+      const blueprint = existing || await blueprintModel.createBlueprint({
         projectId: param(req.params.projectId),
         name,
         fileUrl: s3Key,
@@ -105,6 +135,21 @@ router.post(
         uploadedBy: req.user!.userId,
       });
 
+      const revisionNumber = existing ? await blueprintRevisionModel.nextRevisionNumber(blueprint.id) : 1;
+      const revision = await blueprintRevisionModel.createRevision({
+        id: revisionId,
+        blueprintId: blueprint.id,
+        revisionNumber,
+        label: req.body.label?.trim() || blueprintRevisionService.revisionLabel(revisionNumber),
+        fileUrl: s3Key,
+        fileSizeBytes: fileSize,
+        mimeType,
+        uploadedBy: req.user!.userId,
+      });
+      if (!existing) {
+        await blueprintModel.setCurrentRevision(blueprint.id, revision);
+      }
+
       // Generate presigned upload URL
       const presigned = await storageService.generatePresignedUploadUrl(
         s3Key,
@@ -115,6 +160,7 @@ router.post(
       sendSuccess(res, {
         uploadUrl: presigned.uploadUrl,
         blueprintId: blueprint.id,
+        revisionId: revision.id,
         key: presigned.key,
         expiresAt: presigned.expiresAt,
       }, 201);
@@ -124,25 +170,34 @@ router.post(
   },
 );
 
-// POST /api/v1/projects/:projectId/blueprints/:blueprintId/confirm — confirm upload
+// POST /api/v1/projects/:projectId/blueprints/:blueprintId/confirm — confirm upload of a blueprint or one of its revisions
 router.post(
   '/:blueprintId/confirm',
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!(await verifyProjectAccess(req, res))) return;
+      const parsed = confirmBlueprintUploadSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', zodErrorDetails(parsed.error));
+        return;
+      }
 
-      const blueprint = await blueprintModel.findBlueprintById(
-        param(req.params.blueprintId),
-        req.user!.organizationId,
-      );
+      const blueprint = await findProjectBlueprint(req, res);
+      if (!blueprint) return;
 
-      if (!blueprint || blueprint.project_id !== param(req.params.projectId)) {
-        sendError(res, 404, 'NOT_FOUND', 'Blueprint not found');
+      // Without a revision this confirms the upload of a new blueprint
+      const revisionId = parsed.data.revisionId || blueprint.current_revision_id;
+      const revision = revisionId ? await blueprintRevisionModel.findRevisionById(revisionId, blueprint.id) : null;
+      if (!revision) {
+        sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+        return;
+      }
+      if (revision.confirmed_at) {
+        sendSuccess(res, { blueprint, revision });
         return;
       }
 
       // Verify the file exists in S3
-      const fileSize = await storageService.checkFileExists(blueprint.file_url);
+      const fileSize = await storageService.checkFileExists(revision.file_url);
       if (fileSize === null) {
         sendError(res, 400, 'FILE_NOT_UPLOADED', 'File has not been uploaded yet');
         return;
@@ -150,10 +205,10 @@ router.post(
 
       // Generate thumbnail (only for images, not PDFs)
       let thumbnailKey: string | undefined;
-      if (blueprint.mime_type.startsWith('image/')) {
+      if (revision.mime_type.startsWith('image/')) {
         try {
           thumbnailKey = await thumbnailService.generateThumbnail(
-            blueprint.file_url,
+            revision.file_url,
             'blueprint',
           );
         } catch {
@@ -161,11 +216,26 @@ router.post(
         }
       }
 
-      // Update blueprint record
-      const updated = await blueprintModel.updateBlueprintAfterConfirm(blueprint.id, {
-        fileUrl: blueprint.file_url,
+      // Page sizes decide whether annotations can follow a later revision; they are read again when needed
+      let pageSizes: blueprintRevisionModel.PageSize[] | null = null;
+      try {
+        pageSizes = await blueprintRevisionService.readRevisionPageSizes(
+          await storageService.readFile(revision.file_url),
+          revision.mime_type,
+        );
+      } catch {
+        // An unreadable file is still stored; its annotations are reviewed by hand
+      }
+
+      // PDFs get their thumbnail, previews and pixel size once rendered in the background
+      const renderPreviews = blueprintPreviewService.hasPagePreviews(revision);
+      const confirmed = await blueprintRevisionModel.confirmRevision(revision.id, {
         fileSizeBytes: fileSize,
         thumbnailUrl: thumbnailKey,
+        pageSizes,
+        ...(renderPreviews
+          ? { previewStatus: 'pending' as const }
+          : { widthPixels: pageSizes?.[0].width, heightPixels: pageSizes?.[0].height }),
       });
 
       // Track storage usage
@@ -174,17 +244,438 @@ router.post(
         fileSize,
       );
 
+      const isNewBlueprint = blueprint.current_revision_id === revision.id;
+      let updated: blueprintModel.BlueprintRow | null = blueprint;
+      let carryOver: blueprintRevisionService.RevisionSwitchResult | undefined;
+      if (isNewBlueprint) {
+        updated = await blueprintModel.updateBlueprintAfterConfirm(blueprint.id, {
+          fileUrl: revision.file_url,
+          fileSizeBytes: fileSize,
+          thumbnailUrl: thumbnailKey,
+          pageCount: confirmed!.page_count,
+          widthPixels: confirmed!.width_pixels,
+          heightPixels: confirmed!.height_pixels,
+        });
+      } else if (parsed.data.makeCurrent !== false) {
+        carryOver = await blueprintRevisionService.switchCurrentRevision(blueprint, confirmed!);
+        updated = await blueprintModel.findBlueprintById(blueprint.id);
+      }
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: isNewBlueprint ? 'blueprint.uploaded' : 'blueprint.revision_uploaded',
+        resourceType: 'blueprint',
+        resourceId: blueprint.id,
+        metadata: {
+          projectId: param(req.params.projectId),
+          fileSize,
+          ...(!isNewBlueprint && { revisionId: revision.id, label: revision.label, madeCurrent: !!carryOver }),
+        },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      if (carryOver) {
+        publishEvent({
+          type: 'tasks.bulk_changed',
+          organizationId: req.user!.organizationId,
+          projectId: blueprint.project_id,
+          data: {},
+        });
+      }
+
+      if (renderPreviews) {
+        blueprintPreviewService.queuePreviews(confirmed!, {
+          organizationId: req.user!.organizationId,
+          projectId: blueprint.project_id,
+        });
+      }
+
+      sendSuccess(res, { blueprint: updated, revision: confirmed, carryOver });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// GET /api/v1/projects/:projectId/blueprints/:blueprintId/revisions — all uploaded revisions, newest first
+router.get('/:blueprintId/revisions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const blueprint = await findProjectBlueprint(req, res);
+    if (!blueprint) return;
+
+    const revisions = await blueprintRevisionModel.findRevisionsByBlueprint(blueprint.id);
+    const revisionsWithUrls = await Promise.all(
+      revisions
+        .filter((r) => r.confirmed_at)
+        .map(async (r) => ({
+          ...r,
+          is_current: r.id === blueprint.current_revision_id,
+          download_url: await storageService.generatePresignedDownloadUrl(r.file_url),
+        })),
+    );
+
+    sendSuccess(res, { revisions: revisionsWithUrls });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/blueprints/:blueprintId/revisions/:revisionId/make-current — switch the current revision
+router.post(
+  '/:blueprintId/revisions/:revisionId/make-current',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const blueprint = await findProjectBlueprint(req, res);
+      if (!blueprint) return;
+
+      const revision = await blueprintRevisionModel.findRevisionById(param(req.params.revisionId), blueprint.id);
+      if (!revision || !revision.confirmed_at) {
+        sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+        return;
+      }
+      if (revision.id === blueprint.current_revision_id) {
+        sendSuccess(res, { blueprint, carryOver: { carriedOver: 0, needsReview: [] } });
+        return;
+      }
+
+      const carryOver = await blueprintRevisionService.switchCurrentRevision(blueprint, revision);
+
       logAuditAction({
         organizationId: req.user!.organizationId,
         userId: req.user!.userId,
-        action: 'blueprint.uploaded',
+        action: 'blueprint.revision_changed',
         resourceType: 'blueprint',
         resourceId: blueprint.id,
-        metadata: { projectId: param(req.params.projectId), fileSize },
+        metadata: {
+          projectId: param(req.params.projectId),
+          fromRevisionId: blueprint.current_revision_id,
+          toRevisionId: revision.id,
+          needsReview: carryOver.needsReview.length,
+        },
         ipAddress: (req.ip as string || ''),
       });
 
-      sendSuccess(res, { blueprint: updated });
+      publishEvent({
+        type: 'tasks.bulk_changed',
+        organizationId: req.user!.organizationId,
+        projectId: blueprint.project_id,
+        data: {},
+      });
+
+      sendSuccess(res, { blueprint: await blueprintModel.findBlueprintById(blueprint.id), carryOver });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/projects/:projectId/blueprints/:blueprintId/review — resolve annotations left on an older revision,
+// either keeping them where they are on the current revision or removing them
+router.post(
+  '/:blueprintId/review',
+  validate(reviewAnnotationsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const blueprint = await findProjectBlueprint(req, res);
+      if (!blueprint) return;
+
+      const tasks = await taskModel.findTasksByIds(
+        [...new Set<string>(req.body.taskIds)],
+        blueprint.project_id,
+        req.user!.organizationId,
+      );
+      const pending = tasks.filter((t) => t.blueprint_id === blueprint.id && t.annotation_revision_id);
+
+      const updates = req.body.action === 'clear'
+        ? {
+          annotationX: null, annotationY: null, annotationWidth: null, annotationHeight: null,
+          annotationPage: null, annotationMarkers: null, measurements: null, annotationRevisionId: null,
+        }
+        : { annotationRevisionId: null };
+      const labels = new Map(
+        (await blueprintRevisionModel.findRevisionsByBlueprint(blueprint.id)).map((r) => [r.id, r.label]),
+      );
+      const revisionRef = (id: string | null) => (id ? { revisionId: id, label: labels.get(id) ?? null } : null);
+      for (const existingTask of pending) {
+        const task = await taskModel.updateTask(existingTask.id, updates);
+        if (!task) continue;
+        if (req.body.action === 'clear') {
+          await taskHistoryService.recordTaskChanges(existingTask, task, { userId: req.user!.userId });
+        } else {
+          await taskHistoryService.recordTaskEvent(task.id, 'annotation_revision', {
+            oldValue: revisionRef(existingTask.annotation_revision_id),
+            newValue: revisionRef(blueprint.current_revision_id),
+          }, { userId: req.user!.userId });
+        }
+      }
+
+      if (pending.length > 0) {
+        logAuditAction({
+          organizationId: req.user!.organizationId,
+          userId: req.user!.userId,
+          action: 'blueprint.annotations_reviewed',
+          resourceType: 'blueprint',
+          resourceId: blueprint.id,
+          metadata: { projectId: param(req.params.projectId), action: req.body.action, taskIds: pending.map((t) => t.id) },
+          ipAddress: (req.ip as string || ''),
+        });
+
+        publishEvent({
+          type: 'tasks.bulk_changed',
+          organizationId: req.user!.organizationId,
+          projectId: blueprint.project_id,
+          data: {},
+        });
+      }
+
+      sendSuccess(res, { reviewed: pending.length });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// Helper: the given confirmed revision, or the current one. Sends the error
+// response and returns null if there is none.
+async function findPreviewRevision(
+  res: Response,
+  blueprint: blueprintModel.BlueprintRow,
+  requestedId: string | undefined,
+): Promise<blueprintRevisionModel.BlueprintRevisionRow | null> {
+  const revisionId = requestedId || blueprint.current_revision_id;
+  const revision = revisionId ? await blueprintRevisionModel.findRevisionById(revisionId, blueprint.id) : null;
+  if (!revision?.confirmed_at) {
+    sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+    return null;
+  }
+  return revision;
+}
+
+// GET /api/v1/projects/:projectId/blueprints/:blueprintId/previews — rendered page previews of a PDF revision
+router.get('/:blueprintId/previews', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = blueprintPreviewsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Invalid query parameters', zodErrorDetails(parsed.error));
+      return;
+    }
+
+    const blueprint = await findProjectBlueprint(req, res);
+    if (!blueprint) return;
+    const revision = await findPreviewRevision(res, blueprint, parsed.data.revisionId);
+    if (!revision) return;
+
+    const previews = await blueprintPreviewModel.findPreviewsByRevision(revision.id);
+    const pages = new Map<number, Record<string, { url: string; width: number; height: number }>>();
+    for (const preview of previews) {
+      const page = pages.get(preview.page) || {};
+      page[preview.size] = {
+        url: await storageService.generatePresignedDownloadUrl(preview.file_url),
+        width: preview.width,
+        height: preview.height,
+      };
+      pages.set(preview.page, page);
+    }
+
+    sendSuccess(res, {
+      revisionId: revision.id,
+      status: revision.preview_status,
+      pageCount: revision.page_count,
+      pages: [...pages.entries()].map(([page, sizes]) => ({ page, ...sizes })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/blueprints/:blueprintId/previews — render page previews again, e.g. for PDFs uploaded before they existed
+router.post(
+  '/:blueprintId/previews',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = blueprintPreviewsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', zodErrorDetails(parsed.error));
+        return;
+      }
+
+      const blueprint = await findProjectBlueprint(req, res);
+      if (!blueprint) return;
+      const revision = await findPreviewRevision(res, blueprint, parsed.data.revisionId);
+      if (!revision) return;
+      if (!blueprintPreviewService.hasPagePreviews(revision)) {
+        sendError(res, 400, 'UNSUPPORTED_PREVIEW', 'Only PDF blueprints have page previews');
+        return;
+      }
+
+      await blueprintRevisionModel.setPreviewStatus(revision.id, 'pending');
+      blueprintPreviewService.queuePreviews(revision, {
+        organizationId: req.user!.organizationId,
+        projectId: blueprint.project_id,
+      });
+
+      sendSuccess(res, { revisionId: revision.id, status: 'pending' }, 202);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/projects/:projectId/blueprints/:blueprintId/compare — diff image between two revisions of an image blueprint
+router.post(
+  '/:blueprintId/compare',
+  validate(compareRevisionsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const blueprint = await findProjectBlueprint(req, res);
+      if (!blueprint) return;
+
+      const [from, to] = await Promise.all([
+        blueprintRevisionModel.findRevisionById(req.body.fromRevisionId, blueprint.id),
+        blueprintRevisionModel.findRevisionById(req.body.toRevisionId, blueprint.id),
+      ]);
+      if (!from?.confirmed_at || !to?.confirmed_at) {
+        sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+        return;
+      }
+      if (!blueprintCompareService.isComparable(from) || !blueprintCompareService.isComparable(to)) {
+        sendError(res, 400, 'UNSUPPORTED_COMPARISON', 'Only image blueprints can be compared on the server');
+        return;
+      }
+
+      const comparison = await blueprintCompareService.compareRevisions(blueprint, from, to, {
+        userId: req.user!.userId,
+        organizationId: req.user!.organizationId,
+      });
+
+      sendSuccess(res, {
+        comparison: {
+          ...comparison,
+          download_url: await storageService.generatePresignedDownloadUrl(comparison.file_url),
+        },
+      });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// Helper: the size of the page in :page of the blueprint's current revision.
+// Sends the error response and returns null if there is no such page.
+async function findCalibrationPage(
+  req: Request,
+  res: Response,
+  blueprint: blueprintModel.BlueprintRow,
+): Promise<{ page: number; size: blueprintRevisionModel.PageSize } | null> {
+  const page = Number(param(req.params.page));
+  const revision = await findPreviewRevision(res, blueprint, undefined);
+  if (!revision) return null;
+  const size = Number.isInteger(page) && page >= 1
+    ? (await blueprintRevisionService.pageSizesOf(revision))?.[page - 1]
+    : undefined;
+  if (!size) {
+    sendError(res, 404, 'NOT_FOUND', 'Page not found');
+    return null;
+  }
+  return { page, size };
+}
+
+// PUT /api/v1/projects/:projectId/blueprints/:blueprintId/calibrations/:page — set the drawing scale of a page
+router.put(
+  '/:blueprintId/calibrations/:page',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(calibrateBlueprintPageSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const blueprint = await findProjectBlueprint(req, res);
+      if (!blueprint) return;
+      const target = await findCalibrationPage(req, res, blueprint);
+      if (!target) return;
+
+      const calibration = req.body.method === 'line'
+        ? measurementService.calibrateFromLine(target.page, target.size, req.body.line, req.body.length)
+        : measurementService.calibrateFromScale(target.page, target.size, req.body.ratio, req.body.paperSize);
+      if (!calibration) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', {
+          line: 'The line is too short to calibrate with',
+        });
+        return;
+      }
+
+      const calibrations = [
+        ...(blueprint.scale_calibrations || []).filter((c) => c.page !== target.page),
+        calibration,
+      ].sort((a, b) => a.page - b.page);
+      await blueprintModel.setScaleCalibrations(blueprint.id, calibrations);
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'blueprint.calibrated',
+        resourceType: 'blueprint',
+        resourceId: blueprint.id,
+        metadata: { projectId: param(req.params.projectId), page: target.page, method: calibration.method },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'blueprint.calibration_changed',
+        organizationId: req.user!.organizationId,
+        projectId: blueprint.project_id,
+        data: { blueprintId: blueprint.id },
+      });
+
+      sendSuccess(res, { calibration, calibrations });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/v1/projects/:projectId/blueprints/:blueprintId/calibrations/:page — remove the drawing scale of a page;
+// measurements already taken keep their values
+router.delete(
+  '/:blueprintId/calibrations/:page',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const blueprint = await findProjectBlueprint(req, res);
+      if (!blueprint) return;
+
+      const page = Number(param(req.params.page));
+      const calibrations = blueprint.scale_calibrations || [];
+      if (!calibrations.some((c) => c.page === page)) {
+        sendError(res, 404, 'NOT_FOUND', 'Page is not calibrated');
+        return;
+      }
+      const remaining = calibrations.filter((c) => c.page !== page);
+      await blueprintModel.setScaleCalibrations(blueprint.id, remaining);
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'blueprint.calibration_removed',
+        resourceType: 'blueprint',
+        resourceId: blueprint.id,
+        metadata: { projectId: param(req.params.projectId), page },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'blueprint.calibration_changed',
+        organizationId: req.user!.organizationId,
+        projectId: blueprint.project_id,
+        data: { blueprintId: blueprint.id },
+      });
+
+      sendSuccess(res, { calibrations: remaining });
     } catch (err) {
       next(err);
     }
@@ -195,10 +686,9 @@ router.post(
 router.delete(
   '/:blueprintId',
   authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!(await verifyProjectAccess(req, res))) return;
-
       const blueprint = await blueprintModel.findBlueprintById(
         param(req.params.blueprintId),
         req.user!.organizationId,
@@ -216,14 +706,24 @@ router.delete(
         return;
       }
 
+      // Every revision, page preview and comparison image goes with the blueprint
+      const revisions = await blueprintRevisionModel.findRevisionsByBlueprint(blueprint.id);
+      const previews = await blueprintPreviewModel.findPreviewsByBlueprint(blueprint.id);
+      const comparisons = await blueprintComparisonModel.findComparisonsByBlueprint(blueprint.id);
+      const storedBytes = await blueprintRevisionModel.sumConfirmedRevisionSizes(blueprint.id);
+      const keys = [
+        ...revisions.flatMap((r) => (r.thumbnail_url ? [r.file_url, r.thumbnail_url] : [r.file_url])),
+        ...previews.map((p) => p.file_url),
+        ...comparisons.map((c) => c.file_url),
+      ];
+
       // Delete from S3
-      try {
-        await storageService.deleteObject(blueprint.file_url);
-        if (blueprint.thumbnail_url) {
-          await storageService.deleteObject(blueprint.thumbnail_url);
+      for (const key of keys) {
+        try {
+          await storageService.deleteObject(key);
+        } catch {
+          // S3 deletion failure is non-fatal — DB record is still cleaned up
         }
-      } catch {
-        // S3 deletion failure is non-fatal — DB record is still cleaned up
       }
 
       // Delete from DB
@@ -232,7 +732,7 @@ router.delete(
       // Decrement storage
       await storageTracking.decrementStorageUsed(
         req.user!.organizationId,
-        blueprint.file_size_bytes,
+        storedBytes,
       );
 
       logAuditAction({
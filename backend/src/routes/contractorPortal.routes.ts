@@ -0,0 +1,136 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import config from '../config';
+import { authenticate } from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import { requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import { sendEmail } from '../services/email.service';
+import { renderContractorPortal } from '../services/emailTemplate.service';
+import { ProjectRole, UserRole } from '../types';
+import { createPortalLinkSchema } from '../validators/contractorPortal.validators';
+import * as contractorPortalLinkModel from '../models/contractorPortalLink.model';
+import * as projectModel from '../models/project.model';
+import * as userModel from '../models/user.model';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+const DEFAULT_EXPIRY_DAYS = 30;
+
+// Portal links are managed by project managers and admins
+router.use(authenticate);
+router.use(authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER));
+router.use(requireProjectAccess);
+router.use(requireProjectRole(ProjectRole.MANAGER));
+
+// GET /api/v1/projects/:projectId/portal-links — list contractor portal links
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const project = await projectModel.findProjectById(param(req.params.projectId), req.user!.organizationId);
+    if (!project) {
+      sendError(res, 404, 'NOT_FOUND', 'Project not found');
+      return;
+    }
+
+    const links = await contractorPortalLinkModel.findLinksByProject(project.id, req.user!.organizationId);
+    sendSuccess(res, { links });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/portal-links — create a link and email it to the contractor
+router.post(
+  '/',
+  validate(createPortalLinkSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const project = await projectModel.findProjectById(param(req.params.projectId), req.user!.organizationId);
+      if (!project) {
+        sendError(res, 404, 'NOT_FOUND', 'Project not found');
+        return;
+      }
+
+      const expiresInDays: number = req.body.expiresInDays || DEFAULT_EXPIRY_DAYS;
+      const token = crypto.randomBytes(32).toString('hex');
+      const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+
+      const link = await contractorPortalLinkModel.createPortalLink({
+        projectId: project.id,
+        contractorEmail: req.body.email,
+        tokenHash,
+        createdBy: req.user!.userId,
+        expiresInDays,
+      });
+
+      const portalUrl = `${config.frontendUrl}/portal/${token}`;
+
+      const inviter = await userModel.findUserById(req.user!.userId);
+      sendEmail({
+        to: link.contractor_email,
+        ...renderContractorPortal({
+          projectName: project.name,
+          portalUrl,
+          invitedBy: inviter ? `${inviter.first_name} ${inviter.last_name}` : project.name,
+          expiresInDays,
+        }),
+      });
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'portal_link.created',
+        resourceType: 'contractor_portal_link',
+        resourceId: link.id,
+        metadata: { projectId: project.id, contractorEmail: link.contractor_email, expiresInDays },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      const { token_hash: _tokenHash, ...safeLink } = link;
+      sendSuccess(res, { link: safeLink, portalUrl }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/projects/:projectId/portal-links/:linkId/revoke — revoke a link
+router.post('/:linkId/revoke', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const project = await projectModel.findProjectById(param(req.params.projectId), req.user!.organizationId);
+    if (!project) {
+      sendError(res, 404, 'NOT_FOUND', 'Project not found');
+      return;
+    }
+
+    const link = await contractorPortalLinkModel.revokeLink(
+      param(req.params.linkId),
+      project.id,
+      req.user!.userId,
+    );
+    if (!link) {
+      sendError(res, 404, 'NOT_FOUND', 'Active portal link not found');
+      return;
+    }
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'portal_link.revoked',
+      resourceType: 'contractor_portal_link',
+      resourceId: link.id,
+      metadata: { projectId: project.id, contractorEmail: link.contractor_email },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    const { token_hash: _tokenHash, ...safeLink } = link;
+    sendSuccess(res, { link: safeLink });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,348 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { authenticate } from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import { requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
+import { validate } from '../middleware/validate';
+import { uploadLimiter } from '../middleware/rateLimiter';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import { ProjectRole, UserRole } from '../types';
+import {
+  requestDrawingSetUploadSchema,
+  splitDrawingSetSchema,
+  updateDrawingSetSchema,
+} from '../validators/drawingSet.validators';
+import * as drawingSetModel from '../models/drawingSet.model';
+import * as blueprintModel from '../models/blueprint.model';
+import * as storageService from '../services/storage.service';
+import * as storageTracking from '../services/storageTracking.service';
+import * as drawingSetService from '../services/drawingSet.service';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+// Every member sees the drawing sets; project managers upload and split them
+router.use(authenticate);
+router.use(requireProjectAccess);
+
+// Helper: the drawing set in :setId of the project. Sends the error response
+// and returns null when there is none.
+async function findProjectDrawingSet(req: Request, res: Response): Promise<drawingSetModel.DrawingSetRow | null> {
+  const set = await drawingSetModel.findDrawingSetById(param(req.params.setId), param(req.params.projectId));
+  if (!set) {
+    sendError(res, 404, 'NOT_FOUND', 'Drawing set not found');
+    return null;
+  }
+  return set;
+}
+
+function sheetNumberOf(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+// GET /api/v1/projects/:projectId/drawing-sets — drawing sets of the project, newest first
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sets = await drawingSetModel.findDrawingSetsByProject(param(req.params.projectId));
+    sendSuccess(res, { drawingSets: sets });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/v1/projects/:projectId/drawing-sets/:setId — drawing set with its proposed or split sheets
+router.get('/:setId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const set = await findProjectDrawingSet(req, res);
+    if (!set) return;
+
+    const sheets = await blueprintModel.findBlueprintsByDrawingSet(set.id);
+    sendSuccess(res, { drawingSet: set, sheets });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/drawing-sets/upload-url — request presigned upload URL for a drawing set PDF
+router.post(
+  '/upload-url',
+  uploadLimiter,
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(requestDrawingSetUploadSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { fileName, fileSize, mimeType, name } = req.body;
+
+      const storageCheck = await storageTracking.checkStorageLimit(req.user!.organizationId, fileSize);
+      if (!storageCheck.allowed) {
+        sendError(res, 400, 'STORAGE_LIMIT_EXCEEDED', 'Organization storage limit exceeded', {
+          usedBytes: storageCheck.usedBytes,
+          limitBytes: storageCheck.limitBytes,
+        });
+        return;
+      }
+
+      const setId = randomUUID();
+      const s3Key = storageService.buildS3Key(
+        'blueprints',
+        req.user!.organizationId,
+        param(req.params.projectId),
+        setId,
+        fileName,
+      );
+      const set = await drawingSetModel.createDrawingSet({
+        id: setId,
+        projectId: param(req.params.projectId),
+        name: name.trim(),
+        fileUrl: s3Key,
+        fileSizeBytes: fileSize,
+        createdBy: req.user!.userId,
+      });
+
+      const presigned = await storageService.generatePresignedUploadUrl(s3Key, mimeType, fileSize);
+
+      sendSuccess(res, {
+        uploadUrl: presigned.uploadUrl,
+        drawingSetId: set.id,
+        key: presigned.key,
+        expiresAt: presigned.expiresAt,
+      }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/projects/:projectId/drawing-sets/:setId/analyse — confirm the upload and propose sheets from the title blocks
+router.post(
+  '/:setId/analyse',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const set = await findProjectDrawingSet(req, res);
+      if (!set) return;
+      if (set.status === 'split' || !set.file_url) {
+        sendError(res, 409, 'CONFLICT', 'Drawing set has already been split');
+        return;
+      }
+
+      const fileSize = await storageService.checkFileExists(set.file_url);
+      if (fileSize === null) {
+        sendError(res, 400, 'FILE_NOT_UPLOADED', 'File has not been uploaded yet');
+        return;
+      }
+
+      let proposedSheets: drawingSetModel.ProposedSheet[];
+      try {
+        proposedSheets = await drawingSetService.proposeSheets(await storageService.readFile(set.file_url));
+      } catch {
+        sendError(res, 400, 'INVALID_PDF', 'The file could not be read as a PDF');
+        return;
+      }
+
+      const updated = await drawingSetModel.setProposedSheets(set.id, { fileSizeBytes: fileSize, proposedSheets });
+
+      // Analysing again only refreshes the proposals
+      if (set.status === 'uploading') {
+        await storageTracking.incrementStorageUsed(req.user!.organizationId, fileSize);
+
+        logAuditAction({
+          organizationId: req.user!.organizationId,
+          userId: req.user!.userId,
+          action: 'drawing_set.uploaded',
+          resourceType: 'drawing_set',
+          resourceId: set.id,
+          metadata: { projectId: set.project_id, fileSize, pageCount: proposedSheets.length },
+          ipAddress: (req.ip as string || ''),
+        });
+      }
+
+      sendSuccess(res, { drawingSet: updated });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/projects/:projectId/drawing-sets/:setId/split — create a blueprint for each reviewed sheet
+router.post(
+  '/:setId/split',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(splitDrawingSetSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const set = await findProjectDrawingSet(req, res);
+      if (!set) return;
+      if (set.status !== 'review' || !set.file_url) {
+        sendError(res, 409, 'CONFLICT', set.status === 'split'
+          ? 'Drawing set has already been split'
+          : 'Drawing set has not been analysed yet');
+        return;
+      }
+
+      const sheets = (req.body.sheets as drawingSetModel.ProposedSheet[]).map((s) => ({
+        page: s.page,
+        sheetNumber: sheetNumberOf(s.sheetNumber),
+        title: s.title.trim(),
+        discipline: s.discipline,
+      }));
+      const outOfRange = sheets.find((s) => s.page > (set.page_count ?? 0));
+      if (outOfRange) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', {
+          sheets: `The drawing set has no page ${outOfRange.page}`,
+        });
+        return;
+      }
+
+      const files = await drawingSetService.splitPages(
+        await storageService.readFile(set.file_url),
+        sheets.map((s) => s.page),
+      );
+
+      // The uploaded set is removed once split, so only the difference counts against the limit
+      const splitBytes = [...files.values()].reduce((sum, file) => sum + file.length, 0);
+      const sourceBytes = Number(set.file_size_bytes) || 0;
+      if (splitBytes > sourceBytes) {
+        const storageCheck = await storageTracking.checkStorageLimit(req.user!.organizationId, splitBytes - sourceBytes);
+        if (!storageCheck.allowed) {
+          sendError(res, 400, 'STORAGE_LIMIT_EXCEEDED', 'Organization storage limit exceeded', {
+            usedBytes: storageCheck.usedBytes,
+            limitBytes: storageCheck.limitBytes,
+          });
+          return;
+        }
+      }
+
+      const created = await drawingSetService.createSheets(set, sheets, files, {
+        userId: req.user!.userId,
+        organizationId: req.user!.organizationId,
+      });
+      await storageTracking.incrementStorageUsed(req.user!.organizationId, splitBytes);
+
+      try {
+        await storageService.deleteObject(set.file_url);
+      } catch {
+        // S3 deletion failure is non-fatal — the set no longer refers to the file
+      }
+      await storageTracking.decrementStorageUsed(req.user!.organizationId, sourceBytes);
+      const updated = await drawingSetModel.markSplit(set.id);
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'drawing_set.split',
+        resourceType: 'drawing_set',
+        resourceId: set.id,
+        metadata: { projectId: set.project_id, sheetCount: created.length },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      sendSuccess(res, { drawingSet: updated, sheets: created }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/v1/projects/:projectId/drawing-sets/:setId — rename the set, or rename and regroup its sheets in bulk
+router.patch(
+  '/:setId',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(updateDrawingSetSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const set = await findProjectDrawingSet(req, res);
+      if (!set) return;
+
+      const existing = await blueprintModel.findBlueprintsByDrawingSet(set.id);
+      const sheetIds = new Set(existing.map((b) => b.id));
+      const unknown = (req.body.sheets ?? []).find((s: { blueprintId: string }) => !sheetIds.has(s.blueprintId));
+      if (unknown) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', {
+          sheets: `Blueprint ${unknown.blueprintId} is not a sheet of this drawing set`,
+        });
+        return;
+      }
+
+      const updated = req.body.name !== undefined
+        ? await drawingSetModel.renameDrawingSet(set.id, req.body.name.trim())
+        : set;
+      if (req.body.sheets) {
+        await blueprintModel.updateSheets(set.id, req.body.sheets.map((s: {
+          blueprintId: string; sheetNumber?: string | null; title?: string; discipline?: string;
+        }) => ({
+          id: s.blueprintId,
+          sheetNumber: s.sheetNumber === undefined ? undefined : sheetNumberOf(s.sheetNumber),
+          name: s.title?.trim(),
+          discipline: s.discipline,
+        })));
+      }
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'drawing_set.updated',
+        resourceType: 'drawing_set',
+        resourceId: set.id,
+        metadata: {
+          projectId: set.project_id,
+          ...(req.body.name !== undefined && { name: req.body.name.trim() }),
+          ...(req.body.sheets && { sheetCount: req.body.sheets.length }),
+        },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      sendSuccess(res, { drawingSet: updated, sheets: await blueprintModel.findBlueprintsByDrawingSet(set.id) });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/v1/projects/:projectId/drawing-sets/:setId — discard a drawing set; its split sheets stay as blueprints
+router.delete(
+  '/:setId',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const set = await findProjectDrawingSet(req, res);
+      if (!set) return;
+
+      if (set.file_url) {
+        try {
+          await storageService.deleteObject(set.file_url);
+        } catch {
+          // S3 deletion failure is non-fatal — DB record is still cleaned up
+        }
+      }
+      await drawingSetModel.deleteDrawingSet(set.id);
+
+      // Storage is only counted once the upload was analysed
+      if (set.status === 'review') {
+        await storageTracking.decrementStorageUsed(req.user!.organizationId, Number(set.file_size_bytes) || 0);
+      }
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'drawing_set.deleted',
+        resourceType: 'drawing_set',
+        resourceId: set.id,
+        metadata: { projectId: set.project_id, name: set.name },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      sendSuccess(res, { message: 'Drawing set deleted' });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,111 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import { requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import { approveQuarantinedEmail, discardQuarantinedAttachments } from '../services/inboundEmail.service';
+import { ProjectRole, UserRole } from '../types';
+import * as inboundEmailModel from '../models/inboundEmail.model';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+// Quarantined email replies are reviewed by project managers and admins
+router.use(authenticate);
+router.use(authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER));
+router.use(requireProjectAccess);
+router.use(requireProjectRole(ProjectRole.MANAGER));
+
+// Helper: load a pending entry belonging to the project
+async function findPendingEntry(req: Request, res: Response) {
+  const entry = await inboundEmailModel.findQuarantinedById(
+    param(req.params.entryId),
+    req.user!.organizationId,
+  );
+  if (!entry || entry.project_id !== param(req.params.projectId)) {
+    sendError(res, 404, 'NOT_FOUND', 'Quarantined email not found');
+    return null;
+  }
+  if (entry.status !== 'pending') {
+    sendError(res, 409, 'ALREADY_REVIEWED', 'This email has already been reviewed');
+    return null;
+  }
+  return entry;
+}
+
+// GET /api/v1/projects/:projectId/email-quarantine — list replies awaiting review
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const emails = await inboundEmailModel.findQuarantinedByProject(
+      param(req.params.projectId),
+      req.user!.organizationId,
+    );
+
+    sendSuccess(res, { emails });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/email-quarantine/:entryId/approve — post the reply to its task
+router.post('/:entryId/approve', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entry = await findPendingEntry(req, res);
+    if (!entry) return;
+
+    const reviewed = await inboundEmailModel.markReviewed(entry.id, 'approved', req.user!.userId);
+    if (!reviewed) {
+      sendError(res, 409, 'ALREADY_REVIEWED', 'This email has already been reviewed');
+      return;
+    }
+
+    const result = await approveQuarantinedEmail(entry);
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'email.approved',
+      resourceType: 'task',
+      resourceId: entry.task_id,
+      metadata: { projectId: entry.project_id, fromEmail: entry.from_email, quarantineId: entry.id },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    sendSuccess(res, { email: reviewed, ...result });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/email-quarantine/:entryId/reject — discard the reply
+router.post('/:entryId/reject', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entry = await findPendingEntry(req, res);
+    if (!entry) return;
+
+    const reviewed = await inboundEmailModel.markReviewed(entry.id, 'rejected', req.user!.userId);
+    if (!reviewed) {
+      sendError(res, 409, 'ALREADY_REVIEWED', 'This email has already been reviewed');
+      return;
+    }
+
+    await discardQuarantinedAttachments(entry);
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'email.rejected',
+      resourceType: 'task',
+      resourceId: entry.task_id,
+      metadata: { projectId: entry.project_id, fromEmail: entry.from_email, quarantineId: entry.id },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    sendSuccess(res, { email: reviewed });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import * as realtimeService from '../services/realtime.service';
+
+const router = Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Streams are recycled so a deactivated user or expired cookie is caught on reconnect
+const MAX_STREAM_MS = 15 * 60 * 1000;
+const RECONNECT_DELAY_MS = 5000;
+
+router.use(authenticate);
+
+// GET /api/v1/events — Server-Sent Events stream of changes the user can see
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  let closed = false;
+  // Events that arrive before the headers are out are dropped; the client refetches on connect anyway
+  let ready = false;
+  let unsubscribe: (() => void) | undefined;
+  let heartbeat: NodeJS.Timeout | undefined;
+  let recycle: NodeJS.Timeout | undefined;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    clearTimeout(recycle);
+    unsubscribe?.();
+    res.end();
+  };
+  res.on('close', close);
+
+  try {
+    unsubscribe = await realtimeService.subscribe({
+      userId: req.user!.userId,
+      organizationId: req.user!.organizationId,
+      role: req.user!.role,
+      send: (event) => {
+        if (!ready) return;
+        res.write(`data: ${JSON.stringify({ type: event.type, projectId: event.projectId, ...event.data })}\n\n`);
+      },
+      close,
+    });
+    // The client went away while we were loading its memberships
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Nginx would otherwise buffer the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+    ready = true;
+
+    heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+    recycle = setTimeout(close, MAX_STREAM_MS);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,102 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import config from '../config';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { inboundEmailLimiter } from '../middleware/rateLimiter';
+import { parseMail, ParsedMail } from '../utils/mailParser';
+import * as inboundEmailModel from '../models/inboundEmail.model';
+import { mailFromJson, processInboundEmail, InboundEmailResult } from '../services/inboundEmail.service';
+
+const router = Router();
+
+const DEFAULT_WEBHOOK_SECRET = 'dev-webhook-secret';
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+router.use(inboundEmailLimiter);
+
+// The signature covers the exact bytes sent, so the body is read raw here
+// instead of going through the global JSON parser and input sanitizer.
+router.use(express.raw({ type: () => true, limit: '25mb' }));
+
+/**
+ * Verify `X-Webhook-Signature: sha256=<hex>` where the digest is
+ * HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${rawBody}`). Returns the
+ * signature when it is valid, or null.
+ */
+function verifySignature(req: Request, rawBody: Buffer): string | null {
+  const timestamp = req.get('X-Webhook-Timestamp') || '';
+  const signature = (req.get('X-Webhook-Signature') || '').replace(/^sha256=/, '');
+  const ts = parseInt(timestamp, 10);
+  if (!ts || Math.abs(Date.now() / 1000 - ts) > MAX_CLOCK_SKEW_SECONDS || !signature) {
+    return null;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', config.email.webhookSecret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+
+  const a = Buffer.from(signature, 'hex');
+  const b = Buffer.from(expected, 'hex');
+  return a.length === b.length && crypto.timingSafeEqual(a, b) ? expected : null;
+}
+
+// POST /api/v1/webhooks/email — inbound contractor reply (raw MIME or relay JSON)
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (config.env === 'production' && config.email.webhookSecret === DEFAULT_WEBHOOK_SECRET) {
+      sendError(res, 503, 'NOT_CONFIGURED', 'Inbound email is not configured');
+      return;
+    }
+
+    const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const signature = verifySignature(req, rawBody);
+    if (!signature) {
+      sendError(res, 401, 'INVALID_SIGNATURE', 'Invalid webhook signature');
+      return;
+    }
+
+    let mail: ParsedMail;
+    if ((req.get('Content-Type') || '').includes('application/json')) {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Malformed JSON payload');
+        return;
+      }
+      if (!payload || typeof payload !== 'object') {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Malformed JSON payload');
+        return;
+      }
+      mail = mailFromJson(payload as Record<string, unknown>);
+    } else {
+      mail = await parseMail(rawBody);
+    }
+
+    // A signature or Message-ID seen before is a replay or a duplicate delivery
+    const deliveryId = await inboundEmailModel.recordDelivery({ signature, messageId: mail.messageId });
+    if (!deliveryId) {
+      sendError(res, 409, 'DUPLICATE_DELIVERY', 'This email has already been received');
+      return;
+    }
+
+    let result: InboundEmailResult;
+    try {
+      result = await processInboundEmail(mail);
+    } catch (err) {
+      await inboundEmailModel.deleteDelivery(deliveryId).catch(() => {});
+      throw err;
+    }
+    logger.info({ outcome: result.outcome, taskId: result.taskId, from: mail.from }, 'Inbound email processed');
+
+    // Unmatched mail is acknowledged too, so the relay does not keep retrying it
+    sendSuccess(res, result);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
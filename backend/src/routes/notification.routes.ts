@@ -0,0 +1,122 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { validate } from '../middleware/validate';
+import { parsePagination } from '../middleware/pagination';
+import { sendSuccess, sendError } from '../utils/response';
+import {
+  updateNotificationPreferencesSchema,
+  updateDigestSettingsSchema,
+} from '../validators/notification.validators';
+import * as notificationModel from '../models/notification.model';
+import * as notificationService from '../services/notification.service';
+import * as digestService from '../services/digest.service';
+import { param } from '../utils/params';
+
+const router = Router();
+
+router.use(authenticate);
+
+// GET /api/v1/notifications — the current user's notifications, newest first
+router.get('/', parsePagination, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const [{ notifications, total }, unreadCount] = await Promise.all([
+      notificationModel.findNotificationsByUser(req.user!.userId, {
+        unreadOnly: req.query.unreadOnly === 'true',
+        limit: req.pagination!.limit,
+        offset: req.pagination!.offset,
+      }),
+      notificationModel.countUnread(req.user!.userId),
+    ]);
+
+    sendSuccess(res, { notifications, unreadCount }, 200, {
+      page: req.pagination!.page,
+      limit: req.pagination!.limit,
+      total,
+      totalPages: Math.ceil(total / req.pagination!.limit),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/v1/notifications/unread-count — badge count for the bell
+router.get('/unread-count', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const unreadCount = await notificationModel.countUnread(req.user!.userId);
+    sendSuccess(res, { unreadCount });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/v1/notifications/preferences — channel per event type, defaults included
+router.get('/preferences', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const preferences = await notificationService.getPreferences(req.user!.userId);
+    sendSuccess(res, { preferences });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/v1/notifications/preferences — change the channel for some event types
+router.put(
+  '/preferences',
+  validate(updateNotificationPreferencesSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await notificationModel.upsertPreferences(req.user!.userId, req.body.preferences);
+      const preferences = await notificationService.getPreferences(req.user!.userId);
+      sendSuccess(res, { preferences });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// GET /api/v1/notifications/digest — the current user's digest schedule
+router.get('/digest', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const digest = await digestService.getDigestSettings(req.user!.userId);
+    sendSuccess(res, { digest });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/v1/notifications/digest — change the digest schedule
+router.put('/digest', validate(updateDigestSettingsSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { frequency, sendHour, weekday, timezone } = req.body;
+    const digest = await digestService.updateDigestSettings(req.user!.userId, { frequency, sendHour, weekday, timezone });
+    sendSuccess(res, { digest });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/notifications/read-all — mark every notification as read
+router.post('/read-all', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const updated = await notificationModel.markAllRead(req.user!.userId);
+    sendSuccess(res, { updated });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/notifications/:notificationId/read — mark one notification as read
+router.post('/:notificationId/read', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const notification = await notificationModel.markRead(param(req.params.notificationId), req.user!.userId);
+    if (!notification) {
+      sendError(res, 404, 'NOT_FOUND', 'Notification not found');
+      return;
+    }
+    sendSuccess(res, { notification });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -2,15 +2,19 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
 import { authenticate } from '../middleware/authenticate';
 import { authorize } from '../middleware/authorize';
+import { requireProjectAccess, requireProjectRole, hasGlobalProjectAccess } from '../middleware/projectAccess';
 import { validate } from '../middleware/validate';
 import { parsePagination } from '../middleware/pagination';
 import { uploadLimiter } from '../middleware/rateLimiter';
 import { sendSuccess, sendError } from '../utils/response';
 import { logAuditAction } from '../services/audit.service';
-import { UserRole } from '../types';
+import { publishEvent } from '../services/realtime.service';
+import { ProjectRole, UserRole } from '../types';
 import { createProjectSchema, updateProjectSchema } from '../validators/project.validators';
 import { requestPhotoUploadSchema } from '../validators/upload.validators';
 import * as projectModel from '../models/project.model';
+import * as projectMemberModel from '../models/projectMember.model';
+import * as userModel from '../models/user.model';
 import * as storageService from '../services/storage.service';
 import * as storageTracking from '../services/storageTracking.service';
 import * as thumbnailService from '../services/thumbnail.service';
@@ -34,7 +38,7 @@ async function attachDownloadUrls(project: projectModel.ProjectWithStats) {
   };
 }
 
-// GET /api/v1/projects — list projects in user's org
+// GET /api/v1/projects — list projects in user's org the user is a member of
 router.get('/', parsePagination, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { status } = req.query;
@@ -42,6 +46,7 @@ router.get('/', parsePagination, async (req: Request, res: Response, next: NextF
       req.user!.organizationId,
       {
         status: status as string,
+        memberUserId: hasGlobalProjectAccess(req.user!.role) ? undefined : req.user!.userId,
         limit: req.pagination!.limit,
         offset: req.pagination!.offset,
       },
@@ -90,6 +95,37 @@ router.post(
         createdBy: req.user!.userId,
       });
 
+      await projectMemberModel.addMember({
+        projectId: project.id,
+        userId: req.user!.userId,
+        role: ProjectRole.MANAGER,
+        addedBy: req.user!.userId,
+      });
+      publishEvent({
+        type: 'project_member.changed',
+        organizationId: req.user!.organizationId,
+        projectId: project.id,
+        data: { userId: req.user!.userId },
+      });
+      // The responsible person needs to see the project they are responsible for
+      const responsible = req.body.responsibleUserId && req.body.responsibleUserId !== req.user!.userId
+        ? await userModel.findUserById(req.body.responsibleUserId)
+        : null;
+      if (responsible && responsible.organization_id === req.user!.organizationId) {
+        await projectMemberModel.addMember({
+          projectId: project.id,
+          userId: responsible.id,
+          role: ProjectRole.MANAGER,
+          addedBy: req.user!.userId,
+        });
+        publishEvent({
+          type: 'project_member.changed',
+          organizationId: req.user!.organizationId,
+          projectId: project.id,
+          data: { userId: responsible.id },
+        });
+      }
+
       logAuditAction({
         organizationId: req.user!.organizationId,
         userId: req.user!.userId,
@@ -107,7 +143,7 @@ router.post(
 );
 
 // GET /api/v1/projects/:projectId — get project detail
-router.get('/:projectId', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:projectId', requireProjectAccess, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const project = await projectModel.findProjectById(
       param(req.params.projectId),
@@ -121,7 +157,7 @@ router.get('/:projectId', async (req: Request, res: Response, next: NextFunction
 
     const projectWithUrls = await attachDownloadUrls(project);
 
-    sendSuccess(res, { project: projectWithUrls });
+    sendSuccess(res, { project: { ...projectWithUrls, member_role: req.projectRole } });
   } catch (err) {
     next(err);
   }
@@ -131,6 +167,8 @@ router.get('/:projectId', async (req: Request, res: Response, next: NextFunction
 router.patch(
   '/:projectId',
   authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectAccess,
+  requireProjectRole(ProjectRole.MANAGER),
   validate(updateProjectSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -218,6 +256,8 @@ router.delete(
 router.post(
   '/:projectId/upload-url',
   authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectAccess,
+  requireProjectRole(ProjectRole.MANAGER),
   uploadLimiter,
   validate(requestPhotoUploadSchema),
   async (req: Request, res: Response, next: NextFunction) => {
@@ -297,6 +337,8 @@ router.post(
 router.post(
   '/:projectId/confirm-image',
   authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectAccess,
+  requireProjectRole(ProjectRole.MANAGER),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const project = await projectModel.findProjectById(
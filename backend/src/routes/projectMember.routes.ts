@@ -0,0 +1,200 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import { publishEvent } from '../services/realtime.service';
+import { ProjectRole } from '../types';
+import { addProjectMemberSchema, updateProjectMemberSchema } from '../validators/projectMember.validators';
+import * as projectMemberModel from '../models/projectMember.model';
+import * as userModel from '../models/user.model';
+import * as mentionModel from '../models/mention.model';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+// Every member can see who else is on the project; only managers change it
+router.use(authenticate);
+router.use(requireProjectAccess);
+
+// Helper: a project must keep at least one manager
+async function isLastManager(projectId: string, member: projectMemberModel.ProjectMemberRow): Promise<boolean> {
+  if (member.role !== ProjectRole.MANAGER) return false;
+  return (await projectMemberModel.countManagers(projectId)) <= 1;
+}
+
+// GET /api/v1/projects/:projectId/members — list project members
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const members = await projectMemberModel.findMembersByProject(param(req.params.projectId));
+    sendSuccess(res, { members });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/v1/projects/:projectId/members/candidates — users that can still be added
+router.get(
+  '/candidates',
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const users = await projectMemberModel.findNonMembers(param(req.params.projectId), req.user!.organizationId);
+      sendSuccess(res, { users });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// GET /api/v1/projects/:projectId/members/mentionable — users who can be @mentioned in the project
+router.get('/mentionable', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const users = await mentionModel.findMentionableUsers(param(req.params.projectId), req.user!.organizationId);
+    sendSuccess(res, { users });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/members — add a user to the project
+router.post(
+  '/',
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(addProjectMemberSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = param(req.params.projectId);
+      const user = await userModel.findUserById(req.body.userId);
+      if (!user || user.organization_id !== req.user!.organizationId || !user.is_active) {
+        sendError(res, 404, 'NOT_FOUND', 'User not found');
+        return;
+      }
+
+      if (await projectMemberModel.findMember(projectId, user.id)) {
+        sendError(res, 409, 'CONFLICT', 'User is already a member of this project');
+        return;
+      }
+
+      const member = await projectMemberModel.addMember({
+        projectId,
+        userId: user.id,
+        role: req.body.role,
+        addedBy: req.user!.userId,
+      });
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'project_member.added',
+        resourceType: 'project',
+        resourceId: projectId,
+        metadata: { memberUserId: user.id, role: member.role },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'project_member.changed',
+        organizationId: req.user!.organizationId,
+        projectId,
+        data: { userId: user.id },
+      });
+
+      sendSuccess(res, { member }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/v1/projects/:projectId/members/:userId — change a member's project role
+router.patch(
+  '/:userId',
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(updateProjectMemberSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = param(req.params.projectId);
+      const existing = await projectMemberModel.findMember(projectId, param(req.params.userId));
+      if (!existing) {
+        sendError(res, 404, 'NOT_FOUND', 'Member not found');
+        return;
+      }
+
+      if (req.body.role !== ProjectRole.MANAGER && await isLastManager(projectId, existing)) {
+        sendError(res, 400, 'LAST_MANAGER', 'A project needs at least one manager');
+        return;
+      }
+
+      const member = await projectMemberModel.updateMemberRole(projectId, existing.user_id, req.body.role);
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'project_member.role_changed',
+        resourceType: 'project',
+        resourceId: projectId,
+        metadata: { memberUserId: existing.user_id, from: existing.role, to: req.body.role },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'project_member.changed',
+        organizationId: req.user!.organizationId,
+        projectId,
+        data: { userId: existing.user_id },
+      });
+
+      sendSuccess(res, { member });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/v1/projects/:projectId/members/:userId — remove a user from the project
+router.delete(
+  '/:userId',
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = param(req.params.projectId);
+      const existing = await projectMemberModel.findMember(projectId, param(req.params.userId));
+      if (!existing) {
+        sendError(res, 404, 'NOT_FOUND', 'Member not found');
+        return;
+      }
+
+      if (await isLastManager(projectId, existing)) {
+        sendError(res, 400, 'LAST_MANAGER', 'A project needs at least one manager');
+        return;
+      }
+
+      await projectMemberModel.removeMember(projectId, existing.user_id);
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'project_member.removed',
+        resourceType: 'project',
+        resourceId: projectId,
+        metadata: { memberUserId: existing.user_id, role: existing.role },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'project_member.changed',
+        organizationId: req.user!.organizationId,
+        projectId,
+        data: { userId: existing.user_id },
+      });
+
+      sendSuccess(res, { message: 'Member removed' });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -1,32 +1,21 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/projectAccess';
 import { validate } from '../middleware/validate';
 import { sendSuccess, sendError } from '../utils/response';
 import { param } from '../utils/params';
 import { createNoteSchema, updateNoteSchema } from '../validators/projectNote.validators';
 import * as noteModel from '../models/projectNote.model';
-import * as projectModel from '../models/project.model';
+import { recordNoteMentions } from '../services/mention.service';
 
 const router = Router({ mergeParams: true });
 
 router.use(authenticate);
-
-async function verifyProjectAccess(req: Request, res: Response): Promise<boolean> {
-  const project = await projectModel.findProjectById(
-    param(req.params.projectId),
-    req.user!.organizationId,
-  );
-  if (!project) {
-    sendError(res, 404, 'NOT_FOUND', 'Project not found');
-    return false;
-  }
-  return true;
-}
+router.use(requireProjectAccess);
 
 // GET /api/v1/projects/:projectId/notes
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    if (!(await verifyProjectAccess(req, res))) return;
     const sortBy = (req.query.sortBy as string) || 'created_at';
     const sortOrder = (req.query.sortOrder as string) || 'desc';
     const notes = await noteModel.findNotesByProject(
@@ -44,12 +33,16 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
 // POST /api/v1/projects/:projectId/notes
 router.post('/', validate(createNoteSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    if (!(await verifyProjectAccess(req, res))) return;
     const note = await noteModel.createNote({
       projectId: param(req.params.projectId),
       content: req.body.content,
       createdBy: req.user!.userId,
     });
+    await recordNoteMentions(note, {
+      organizationId: req.user!.organizationId,
+      projectId: note.project_id,
+      actorId: req.user!.userId,
+    });
     sendSuccess(res, { note }, 201);
   } catch (err) {
     next(err);
@@ -68,6 +61,13 @@ router.put('/:noteId', validate(updateNoteSchema), async (req: Request, res: Res
       return;
     }
     const note = await noteModel.updateNote(param(req.params.noteId), req.body.content);
+    if (note) {
+      await recordNoteMentions(note, {
+        organizationId: req.user!.organizationId,
+        projectId: note.project_id,
+        actorId: req.user!.userId,
+      });
+    }
     sendSuccess(res, { note });
   } catch (err) {
     next(err);
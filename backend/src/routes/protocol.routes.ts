@@ -2,17 +2,19 @@ import { Router, Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
 import { authenticate } from '../middleware/authenticate';
 import { authorize } from '../middleware/authorize';
+import { requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
 import { validate } from '../middleware/validate';
 import { protocolLimiter } from '../middleware/rateLimiter';
 import { sendSuccess, sendError } from '../utils/response';
-import { UserRole } from '../types';
+import { ProjectRole, UserRole } from '../types';
 import { generateProtocolSchema } from '../validators/protocol.validators';
+import { TaskFiltersInput } from '../validators/task.validators';
 import { createSigningLinkSchema } from '../validators/protocolSignature.validators';
 import * as protocolModel from '../models/protocol.model';
 import * as protocolSignatureModel from '../models/protocolSignature.model';
-import * as projectModel from '../models/project.model';
 import * as storageService from '../services/storage.service';
 import { startProtocolGeneration } from '../services/protocol.service';
+import { findViewFilters, mergeFilters } from '../services/taskFilter.service';
 import { sendEmail } from '../services/email.service';
 import { renderProtocolSigning } from '../services/emailTemplate.service';
 import { param } from '../utils/params';
@@ -21,25 +23,11 @@ const router = Router({ mergeParams: true });
 
 // All protocol routes require authentication
 router.use(authenticate);
-
-// Helper: verify project access
-async function verifyProjectAccess(req: Request, res: Response): Promise<boolean> {
-  const project = await projectModel.findProjectById(
-    param(req.params.projectId),
-    req.user!.organizationId,
-  );
-  if (!project) {
-    sendError(res, 404, 'NOT_FOUND', 'Project not found');
-    return false;
-  }
-  return true;
-}
+router.use(requireProjectAccess);
 
 // GET /api/v1/projects/:projectId/protocols — list protocols
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    if (!(await verifyProjectAccess(req, res))) return;
-
     const protocols = await protocolModel.findProtocolsByProject(
       param(req.params.projectId),
       req.user!.organizationId,
@@ -66,17 +54,27 @@ router.post(
   '/generate',
   protocolLimiter,
   authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
   validate(generateProtocolSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!(await verifyProjectAccess(req, res))) return;
+      let viewFilters: TaskFiltersInput | undefined;
+      if (req.body.viewId) {
+        const found = await findViewFilters(req.body.viewId, param(req.params.projectId), req.user!.userId);
+        if (!found) {
+          sendError(res, 404, 'NOT_FOUND', 'View not found');
+          return;
+        }
+        viewFilters = found;
+      }
 
       const protocolId = await startProtocolGeneration({
         projectId: param(req.params.projectId),
         organizationId: req.user!.organizationId,
         userId: req.user!.userId,
         name: req.body.name,
-        filters: req.body.filters || {},
+        filters: mergeFilters(viewFilters, req.body.filters),
+        includeComments: req.body.includeComments === true,
         ipAddress: (req.ip as string || ''),
       });
 
@@ -0,0 +1,389 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { validate } from '../middleware/validate';
+import { uploadLimiter } from '../middleware/rateLimiter';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import { publishEvent } from '../services/realtime.service';
+import { notifyTaskComment, notifyTaskStatusChanged } from '../services/notification.service';
+import { createCommentSchema } from '../validators/comment.validators';
+import { requestPhotoUploadSchema } from '../validators/upload.validators';
+import { portalStatusSchema } from '../validators/contractorPortal.validators';
+import * as contractorPortalLinkModel from '../models/contractorPortalLink.model';
+import * as taskModel from '../models/task.model';
+import * as taskPhotoModel from '../models/taskPhoto.model';
+import * as commentModel from '../models/comment.model';
+import * as blueprintModel from '../models/blueprint.model';
+import * as blueprintRevisionModel from '../models/blueprintRevision.model';
+import * as storageService from '../services/storage.service';
+import * as storageTracking from '../services/storageTracking.service';
+import * as thumbnailService from '../services/thumbnail.service';
+import * as workflowService from '../services/workflow.service';
+import * as taskHistoryService from '../services/taskHistory.service';
+import * as taskRelationService from '../services/taskRelation.service';
+import * as taskTemplateService from '../services/taskTemplate.service';
+import { param } from '../utils/params';
+import { mentionsToPlainText } from '../utils/mentions';
+
+const router = Router();
+
+// Helper: resolve the magic link from the URL token
+async function resolveLink(req: Request, res: Response) {
+  const tokenHash = crypto.createHash('sha256').update(param(req.params.token)).digest('hex');
+  const link = await contractorPortalLinkModel.findActiveLinkByTokenHash(tokenHash);
+  if (!link) {
+    sendError(res, 404, 'NOT_FOUND', 'Portal link not found, expired or revoked');
+    return null;
+  }
+  return link;
+}
+
+// Helper: resolve the link and a task in its project assigned to the link's contractor
+async function resolveTask(req: Request, res: Response) {
+  const link = await resolveLink(req, res);
+  if (!link) return null;
+
+  const task = await taskModel.findTaskById(param(req.params.taskId), link.organization_id);
+  if (
+    !task ||
+    task.project_id !== link.project_id ||
+    task.assigned_to_contractor_email?.toLowerCase() !== link.contractor_email
+  ) {
+    sendError(res, 404, 'NOT_FOUND', 'Task not found');
+    return null;
+  }
+  return { link, task };
+}
+
+// Audit metadata marking an action as coming from the contractor portal
+function portalMetadata(link: contractorPortalLinkModel.ActivePortalLink) {
+  return { via: 'portal', portalLinkId: link.id, externalEmail: link.contractor_email };
+}
+
+// History actor for changes made through the contractor portal
+function portalActor(link: contractorPortalLinkModel.ActivePortalLink) {
+  return { externalEmail: link.contractor_email, via: 'portal' as const };
+}
+
+// Status changes the contractor can make from the task's current status
+function portalTransitions(workflow: workflowService.Workflow, status: string) {
+  return workflowService.availableTransitions(workflow, status, { external: true }).map((t) => ({
+    to: t.to,
+    label: workflowService.findStatus(workflow, t.to)?.label ?? t.to,
+    requiresComment: t.requiresComment,
+    requiresPhoto: t.requiresPhoto,
+  }));
+}
+
+// GET /api/v1/public/portal/:token — project and open tasks for the contractor
+router.get('/:token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const link = await resolveLink(req, res);
+    if (!link) return;
+
+    await contractorPortalLinkModel.touchLink(link.id);
+    const tasks = await taskModel.findOpenTasksByContractor(link.project_id, link.contractor_email);
+    const workflow = await workflowService.getWorkflow(link.organization_id);
+
+    sendSuccess(res, {
+      project: { id: link.project_id, name: link.project_name },
+      contractorEmail: link.contractor_email,
+      expiresAt: link.expires_at,
+      statuses: workflow.statuses,
+      tasks: tasks.map(({ reply_token: _replyToken, custom_fields: _customFields, ...task }) => task),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/v1/public/portal/:token/tasks/:taskId — task detail with photos, comments and blueprint
+router.get('/:token/tasks/:taskId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const resolved = await resolveTask(req, res);
+    if (!resolved) return;
+    const { link, task } = resolved;
+
+    const photos = await taskPhotoModel.findPhotosByTask(task.id, link.organization_id);
+    const photosWithUrls = await Promise.all(
+      photos.map(async (photo) => ({
+        ...photo,
+        download_url: await storageService.generatePresignedDownloadUrl(photo.file_url),
+        thumbnail_download_url: photo.thumbnail_url
+          ? await storageService.generatePresignedDownloadUrl(photo.thumbnail_url)
+          : null,
+      })),
+    );
+
+    const { comments } = await commentModel.findCommentsByTask(task.id, { limit: 200, offset: 0 });
+
+    const blueprint = task.blueprint_id
+      ? await blueprintModel.findBlueprintById(task.blueprint_id, link.organization_id)
+      : null;
+
+    // An annotation awaiting review is drawn on an older revision of the blueprint
+    const revision = blueprint && task.annotation_revision_id
+      ? await blueprintRevisionModel.findRevisionById(task.annotation_revision_id, blueprint.id)
+      : null;
+
+    const { reply_token: _replyToken, custom_fields: _customFields, ...safeTask } = task;
+    const workflow = await workflowService.getWorkflow(link.organization_id);
+
+    sendSuccess(res, {
+      task: safeTask,
+      statuses: workflow.statuses,
+      transitions: portalTransitions(workflow, task.status),
+      photos: photosWithUrls,
+      comments: comments
+        .filter((c) => !c.deleted_at)
+        .map((c) => ({ ...c, comment_text: mentionsToPlainText(c.comment_text) })),
+      blueprint: blueprint
+        ? {
+          id: blueprint.id,
+          name: blueprint.name,
+          download_url: await storageService.generatePresignedDownloadUrl((revision || blueprint).file_url),
+        }
+        : null,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/public/portal/:token/tasks/:taskId/comments — post a comment as the contractor
+router.post(
+  '/:token/tasks/:taskId/comments',
+  validate(createCommentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) return;
+      const { link, task } = resolved;
+
+      const comment = await commentModel.createComment({
+        taskId: task.id,
+        externalEmail: link.contractor_email,
+        commentText: req.body.commentText,
+      });
+
+      logAuditAction({
+        organizationId: link.organization_id,
+        userId: null,
+        action: 'comment.created',
+        resourceType: 'task_comment',
+        resourceId: comment.id,
+        metadata: { taskId: task.id, ...portalMetadata(link) },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'comment.created',
+        organizationId: link.organization_id,
+        projectId: task.project_id,
+        data: { taskId: task.id, commentId: comment.id },
+      });
+
+      notifyTaskComment(task, {
+        organizationId: link.organization_id,
+        actorId: null,
+        actorName: link.contractor_email,
+        commentText: req.body.commentText,
+      });
+
+      sendSuccess(res, { comment }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/public/portal/:token/tasks/:taskId/photos/upload-url — request photo upload URL
+router.post(
+  '/:token/tasks/:taskId/photos/upload-url',
+  uploadLimiter,
+  validate(requestPhotoUploadSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) return;
+      const { link, task } = resolved;
+
+      const { fileName, fileSize, mimeType, caption } = req.body;
+
+      const storageCheck = await storageTracking.checkStorageLimit(link.organization_id, fileSize);
+      if (!storageCheck.allowed) {
+        sendError(res, 400, 'STORAGE_LIMIT_EXCEEDED', 'Storage limit exceeded, please contact the project manager');
+        return;
+      }
+
+      const s3Key = storageService.buildS3Key('photos', link.organization_id, task.id, crypto.randomUUID(), fileName);
+
+      const photo = await taskPhotoModel.createTaskPhoto({
+        taskId: task.id,
+        fileUrl: s3Key,
+        fileSizeBytes: fileSize,
+        caption: caption || `Uploaded by ${link.contractor_email}`,
+        uploadedBy: null,
+      });
+
+      const presigned = await storageService.generatePresignedUploadUrl(s3Key, mimeType, fileSize);
+
+      sendSuccess(res, {
+        uploadUrl: presigned.uploadUrl,
+        photoId: photo.id,
+        key: presigned.key,
+        expiresAt: presigned.expiresAt,
+      }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/public/portal/:token/tasks/:taskId/photos/:photoId/confirm — confirm photo upload
+router.post(
+  '/:token/tasks/:taskId/photos/:photoId/confirm',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) return;
+      const { link, task } = resolved;
+
+      const photo = await taskPhotoModel.findPhotoById(param(req.params.photoId), link.organization_id);
+      if (!photo || photo.task_id !== task.id) {
+        sendError(res, 404, 'NOT_FOUND', 'Photo not found');
+        return;
+      }
+
+      const fileSize = await storageService.checkFileExists(photo.file_url);
+      if (fileSize === null) {
+        sendError(res, 400, 'FILE_NOT_UPLOADED', 'File has not been uploaded yet');
+        return;
+      }
+
+      let thumbnailKey: string | undefined;
+      try {
+        thumbnailKey = await thumbnailService.generateThumbnail(photo.file_url, 'photo');
+      } catch {
+        // Thumbnail generation failure is non-fatal
+      }
+
+      const updated = await taskPhotoModel.updatePhotoAfterConfirm(photo.id, {
+        fileUrl: photo.file_url,
+        fileSizeBytes: fileSize,
+        thumbnailUrl: thumbnailKey,
+      });
+
+      await storageTracking.incrementStorageUsed(link.organization_id, fileSize);
+
+      await taskHistoryService.recordTaskEvent(
+        task.id,
+        'photo',
+        { newValue: { id: photo.id, caption: photo.caption } },
+        portalActor(link),
+      );
+
+      logAuditAction({
+        organizationId: link.organization_id,
+        userId: null,
+        action: 'photo.uploaded',
+        resourceType: 'task_photo',
+        resourceId: photo.id,
+        metadata: { taskId: task.id, fileSize, ...portalMetadata(link) },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'photo.confirmed',
+        organizationId: link.organization_id,
+        projectId: task.project_id,
+        data: { taskId: task.id, photoId: photo.id },
+      });
+
+      sendSuccess(res, { photo: updated });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/v1/public/portal/:token/tasks/:taskId/status — move a task along the workflow
+router.patch(
+  '/:token/tasks/:taskId/status',
+  validate(portalStatusSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const resolved = await resolveTask(req, res);
+      if (!resolved) return;
+      const { link, task } = resolved;
+
+      const status: string = req.body.status;
+      const comment: string = req.body.comment?.trim() || '';
+      const workflow = await workflowService.getWorkflow(link.organization_id);
+      const transitionError = workflowService.checkTransition(workflow, task.status, status, {
+        external: true,
+        hasComment: !!comment,
+        hasPhoto: task.photo_count > 0,
+      }) || taskTemplateService.checkRequiredItems(workflow, task, status)
+        || await taskRelationService.checkBlockers(workflow, task, status);
+      if (transitionError) {
+        sendError(res, transitionError.httpStatus, transitionError.code, transitionError.message);
+        return;
+      }
+
+      const category = workflowService.getStatusCategory(workflow, status);
+      const updated = await taskModel.updateTask(task.id, {
+        status,
+        ...(category === 'completed' ? { completedAt: new Date().toISOString() } : {}),
+      });
+      if (updated) {
+        await taskHistoryService.recordTaskChanges(task, updated, portalActor(link));
+        await taskRelationService.notifyUnblockedTasks(workflow, updated, task.status, {
+          organizationId: link.organization_id,
+          actorId: null,
+        });
+      }
+
+      if (comment) {
+        await commentModel.createComment({
+          taskId: task.id,
+          externalEmail: link.contractor_email,
+          commentText: comment,
+        });
+      }
+
+      logAuditAction({
+        organizationId: link.organization_id,
+        userId: null,
+        action: 'task.status_changed',
+        resourceType: 'task',
+        resourceId: task.id,
+        metadata: { projectId: task.project_id, from: task.status, to: status, ...portalMetadata(link) },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({
+        type: 'task.updated',
+        organizationId: link.organization_id,
+        projectId: task.project_id,
+        data: { taskId: task.id },
+      });
+
+      notifyTaskStatusChanged(task, {
+        organizationId: link.organization_id,
+        actorId: null,
+        actorName: link.contractor_email,
+        statusLabel: workflow.statuses.find((s) => s.key === status)?.label || status,
+        completion: category === 'completed'
+          ? { projectCreatorId: link.project_created_by, projectName: link.project_name }
+          : undefined,
+      });
+
+      sendSuccess(res, { task: { id: task.id, status: updated?.status ?? status } });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -7,6 +7,7 @@ import { submitSignatureSchema } from '../validators/protocolSignature.validator
 import * as protocolSignatureModel from '../models/protocolSignature.model';
 import * as protocolModel from '../models/protocol.model';
 import * as storageService from '../services/storage.service';
+import { notify } from '../services/notification.service';
 
 const router = Router();
 
@@ -74,6 +75,19 @@ router.post(
         signatureData,
       );
 
+      const protocol = await protocolModel.findProtocolContext(sigRecord.protocol_id);
+      if (protocol) {
+        notify({
+          type: 'protocol_signed',
+          organizationId: protocol.organization_id,
+          recipientIds: [protocol.generated_by, protocol.responsible_user_id],
+          projectId: protocol.project_id,
+          title: `Protocol signed: ${protocol.name}`,
+          body: `Signed by ${signerName} (${signerEmail}) in ${protocol.project_name}`,
+          link: `/projects/${protocol.project_id}?tab=protocols`,
+        });
+      }
+
       sendSuccess(res, { message: 'Protocol signed successfully' });
     } catch (err) {
       next(err);
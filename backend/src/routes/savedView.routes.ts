@@ -0,0 +1,139 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/projectAccess';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { ProjectRole } from '../types';
+import { createSavedViewSchema, updateSavedViewSchema } from '../validators/savedView.validators';
+import * as savedViewModel from '../models/savedView.model';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticate);
+router.use(requireProjectAccess);
+
+// Helper: owners edit their views; project managers also look after shared ones
+function canModify(req: Request, view: savedViewModel.SavedViewRow): boolean {
+  return view.user_id === req.user!.userId || (view.is_shared && req.projectRole === ProjectRole.MANAGER);
+}
+
+// GET /api/v1/projects/:projectId/views — own and shared saved views
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const views = await savedViewModel.findViewsForUser(param(req.params.projectId), req.user!.userId);
+    sendSuccess(res, { views });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/views — save the current filters as a named view
+router.post('/', validate(createSavedViewSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const isShared = !!req.body.isShared;
+    if (isShared && req.projectRole !== ProjectRole.MANAGER) {
+      sendError(res, 403, 'FORBIDDEN', 'Only project managers can share views');
+      return;
+    }
+
+    const view = await savedViewModel.createView({
+      projectId: param(req.params.projectId),
+      userId: req.user!.userId,
+      name: req.body.name.trim(),
+      filters: req.body.filters,
+      isShared,
+    });
+
+    sendSuccess(res, { view }, 201);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /api/v1/projects/:projectId/views/:viewId — rename, refilter or (un)share a view
+router.patch('/:viewId', validate(updateSavedViewSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const view = await savedViewModel.findVisibleView(
+      param(req.params.viewId),
+      param(req.params.projectId),
+      req.user!.userId,
+    );
+    if (!view) {
+      sendError(res, 404, 'NOT_FOUND', 'View not found');
+      return;
+    }
+
+    if (!canModify(req, view) || (req.body.isShared !== undefined && req.projectRole !== ProjectRole.MANAGER)) {
+      sendError(res, 403, 'FORBIDDEN', 'Insufficient permissions');
+      return;
+    }
+
+    const updated = await savedViewModel.updateView(view.id, {
+      name: req.body.name?.trim(),
+      filters: req.body.filters,
+      isShared: req.body.isShared,
+    });
+
+    sendSuccess(res, { view: updated });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/v1/projects/:projectId/views/:viewId — delete a view
+router.delete('/:viewId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const view = await savedViewModel.findVisibleView(
+      param(req.params.viewId),
+      param(req.params.projectId),
+      req.user!.userId,
+    );
+    if (!view) {
+      sendError(res, 404, 'NOT_FOUND', 'View not found');
+      return;
+    }
+
+    if (!canModify(req, view)) {
+      sendError(res, 403, 'FORBIDDEN', 'Insufficient permissions');
+      return;
+    }
+
+    await savedViewModel.deleteView(view.id);
+    sendSuccess(res, { message: 'View deleted' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/v1/projects/:projectId/views/:viewId/pin — pin a view to the user's sidebar
+router.put('/:viewId/pin', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const view = await savedViewModel.findVisibleView(
+      param(req.params.viewId),
+      param(req.params.projectId),
+      req.user!.userId,
+    );
+    if (!view) {
+      sendError(res, 404, 'NOT_FOUND', 'View not found');
+      return;
+    }
+
+    await savedViewModel.pinView(view.id, req.user!.userId);
+    sendSuccess(res, { message: 'View pinned' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/v1/projects/:projectId/views/:viewId/pin — unpin a view
+router.delete('/:viewId/pin', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await savedViewModel.unpinView(param(req.params.viewId), req.user!.userId);
+    sendSuccess(res, { message: 'View unpinned' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { hasGlobalProjectAccess } from '../middleware/projectAccess';
+import { validateQuery } from '../middleware/validate';
+import { sendSuccess } from '../utils/response';
+import { searchQuerySchema } from '../validators/search.validators';
+import * as searchModel from '../models/search.model';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/v1/search — ranked search across tasks, notes, comments, products and blueprints
+router.get('/', validateQuery(searchQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { q, types, limit } = req.query as { q: string; types?: string; limit?: string };
+
+    const results = await searchModel.searchOrganization({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      term: q,
+      types: types ? (types.split(',') as searchModel.SearchType[]) : undefined,
+      // Org admins search every project; everyone else only the ones they were added to
+      memberProjectsOnly: !hasGlobalProjectAccess(req.user!.role),
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    sendSuccess(res, { results });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,121 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import { UserRole } from '../types';
+import { createSlaRuleSchema, updateSlaRuleSchema } from '../validators/sla.validators';
+import * as slaRuleModel from '../models/slaRule.model';
+import * as projectModel from '../models/project.model';
+import { param } from '../utils/params';
+
+const router = Router();
+
+// SLA rules are managed by admins
+router.use(authenticate);
+router.use(authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN));
+
+// Helper: a project-scoped rule must point at a project in the caller's organisation
+async function verifyRuleProject(req: Request, res: Response): Promise<boolean> {
+  if (!req.body.projectId) return true;
+  const project = await projectModel.findProjectById(req.body.projectId, req.user!.organizationId);
+  if (!project) {
+    sendError(res, 404, 'NOT_FOUND', 'Project not found');
+    return false;
+  }
+  return true;
+}
+
+// GET /api/v1/admin/sla-rules — organisation-wide and project rules
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rules = await slaRuleModel.findRulesByOrganization(req.user!.organizationId);
+    sendSuccess(res, { rules });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/admin/sla-rules — create rule
+router.post('/', validate(createSlaRuleSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await verifyRuleProject(req, res))) return;
+
+    const rule = await slaRuleModel.createRule({
+      organizationId: req.user!.organizationId,
+      projectId: req.body.projectId,
+      priority: req.body.priority,
+      trade: req.body.trade?.trim(),
+      dueInDays: req.body.dueInDays,
+      createdBy: req.user!.userId,
+    });
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'sla_rule.created',
+      resourceType: 'sla_rule',
+      resourceId: rule.id,
+      metadata: { projectId: rule.project_id, priority: rule.priority, trade: rule.trade, dueInDays: rule.due_in_days },
+      ipAddress: (req.ip as string) || '',
+    });
+
+    sendSuccess(res, { rule }, 201);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /api/v1/admin/sla-rules/:ruleId — update rule
+router.patch('/:ruleId', validate(updateSlaRuleSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await verifyRuleProject(req, res))) return;
+
+    const rule = await slaRuleModel.updateRule(param(req.params.ruleId), req.user!.organizationId, req.body);
+    if (!rule) {
+      sendError(res, 404, 'NOT_FOUND', 'SLA rule not found');
+      return;
+    }
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'sla_rule.updated',
+      resourceType: 'sla_rule',
+      resourceId: rule.id,
+      metadata: { projectId: rule.project_id, priority: rule.priority, trade: rule.trade, dueInDays: rule.due_in_days },
+      ipAddress: (req.ip as string) || '',
+    });
+
+    sendSuccess(res, { rule });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/v1/admin/sla-rules/:ruleId — delete rule
+router.delete('/:ruleId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const deleted = await slaRuleModel.deleteRule(param(req.params.ruleId), req.user!.organizationId);
+    if (!deleted) {
+      sendError(res, 404, 'NOT_FOUND', 'SLA rule not found');
+      return;
+    }
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'sla_rule.deleted',
+      resourceType: 'sla_rule',
+      resourceId: param(req.params.ruleId),
+      ipAddress: (req.ip as string) || '',
+    });
+
+    sendSuccess(res, { message: 'SLA rule deleted' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
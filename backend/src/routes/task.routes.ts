@@ -1,42 +1,121 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { authenticate } from '../middleware/authenticate';
 import { authorize } from '../middleware/authorize';
-import { validate } from '../middleware/validate';
+import { hasGlobalProjectAccess, requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
+import { validate, zodErrorDetails } from '../middleware/validate';
+import { idempotency } from '../middleware/idempotency';
 import { parsePagination } from '../middleware/pagination';
 import { sendSuccess, sendError } from '../utils/response';
 import { logAuditAction } from '../services/audit.service';
+import { publishEvent } from '../services/realtime.service';
 import { sendEmail } from '../services/email.service';
-import { renderTaskAssignment, renderTaskCompleted } from '../services/emailTemplate.service';
-import { UserRole } from '../types';
-import { createTaskSchema, updateTaskSchema } from '../validators/task.validators';
+import { renderTaskAssignment } from '../services/emailTemplate.service';
+import { buildReplyAddress } from '../services/inboundEmail.service';
+import * as workflowService from '../services/workflow.service';
+import * as taskHistoryService from '../services/taskHistory.service';
+import * as slaService from '../services/sla.service';
+import * as taskBulkService from '../services/taskBulk.service';
+import * as taskExcelService from '../services/taskExcel.service';
+import * as taskFilterService from '../services/taskFilter.service';
+import * as taskRelationService from '../services/taskRelation.service';
+import * as taskTemplateService from '../services/taskTemplate.service';
+import * as taskCopyService from '../services/taskCopy.service';
+import * as blueprintRevisionService from '../services/blueprintRevision.service';
+import * as measurementService from '../services/measurement.service';
+import * as storageTracking from '../services/storageTracking.service';
+import * as notificationService from '../services/notification.service';
+import { ProjectRole, UserRole } from '../types';
+import pool from '../config/database';
+import {
+  createTaskSchema,
+  updateTaskSchema,
+  bulkTaskSchema,
+  duplicateTaskSchema,
+  moveTaskSchema,
+  MAX_BULK_TASKS,
+  TaskFiltersInput,
+} from '../validators/task.validators';
 import * as taskModel from '../models/task.model';
+import * as commentModel from '../models/comment.model';
+import * as taskHistoryModel from '../models/taskHistory.model';
 import * as projectModel from '../models/project.model';
+import * as projectMemberModel from '../models/projectMember.model';
+import * as blueprintModel from '../models/blueprint.model';
 import * as userModel from '../models/user.model';
+import * as customFieldModel from '../models/customField.model';
+import * as taskTemplateModel from '../models/taskTemplate.model';
+import * as taskMoveModel from '../models/taskMove.model';
 import { validateCustomFields } from '../services/customFieldValidation.service';
 import { param } from '../utils/params';
 
 const router = Router({ mergeParams: true });
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+// Exports are capped so a huge project cannot exhaust memory building the workbook
+const MAX_EXPORT_TASKS = 10000;
 
 // All task routes require authentication
 router.use(authenticate);
+router.use(requireProjectAccess);
+
+// Helper: tasks can only be assigned to members of the project
+async function isProjectMember(projectId: string, userId: string): Promise<boolean> {
+  return !!(await projectMemberModel.findMember(projectId, userId));
+}
 
-// Helper: verify project access
-async function verifyProjectAccess(req: Request, res: Response): Promise<boolean> {
-  const project = await projectModel.findProjectById(
-    param(req.params.projectId),
-    req.user!.organizationId,
-  );
+// Helper: the project a task is duplicated or moved into, which the caller must be able
+// to change. Sends the error response and returns null otherwise.
+async function resolveTargetProject(req: Request, res: Response, projectId: string): Promise<projectModel.ProjectWithStats | null> {
+  const access = await projectMemberModel.findProjectAccess(projectId, req.user!.organizationId, req.user!.userId);
+  const role = hasGlobalProjectAccess(req.user!.role) ? ProjectRole.MANAGER : access?.role;
+  const project = access && role ? await projectModel.findProjectById(projectId, req.user!.organizationId) : null;
   if (!project) {
-    sendError(res, 404, 'NOT_FOUND', 'Project not found');
-    return false;
+    sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { projectId: 'Project not found' });
+    return null;
+  }
+  if (role === ProjectRole.VIEWER) {
+    sendError(res, 403, 'FORBIDDEN', 'Viewers cannot add tasks to the target project');
+    return null;
+  }
+  return project;
+}
+
+// Helper: task list filters from the query string, applied on top of a saved view when
+// ?viewId is given. Sends the error response and returns null when they are unusable.
+async function resolveTaskFilters(req: Request, res: Response): Promise<taskModel.TaskFilters | null> {
+  const parsed = taskFilterService.parseFiltersQuery(req.query as Record<string, unknown>);
+  if (!parsed.success) {
+    sendError(res, 400, 'VALIDATION_ERROR', 'Invalid query parameters', zodErrorDetails(parsed.error));
+    return null;
+  }
+
+  let viewFilters: TaskFiltersInput | undefined;
+  if (req.query.viewId) {
+    const found = await taskFilterService.findViewFilters(
+      req.query.viewId,
+      param(req.params.projectId),
+      req.user!.userId,
+    );
+    if (!found) {
+      sendError(res, 404, 'NOT_FOUND', 'View not found');
+      return null;
+    }
+    viewFilters = found;
   }
-  return true;
+
+  return taskFilterService.toTaskFilters(taskFilterService.mergeFilters(viewFilters, parsed.data), req.user!.userId);
 }
 
 // GET /api/v1/projects/:projectId/tasks/by-blueprint/:blueprintId — tasks linked to a blueprint
 router.get('/by-blueprint/:blueprintId', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    if (!(await verifyProjectAccess(req, res))) return;
+    // Membership is per project, so the blueprint has to be in the project from the URL
+    const blueprint = await blueprintModel.findBlueprintById(param(req.params.blueprintId), req.user!.organizationId);
+    if (!blueprint || blueprint.project_id !== param(req.params.projectId)) {
+      sendError(res, 404, 'NOT_FOUND', 'Blueprint not found');
+      return;
+    }
 
     const tasks = await taskModel.findTasksByBlueprint(
       param(req.params.blueprintId),
@@ -52,23 +131,8 @@ router.get('/by-blueprint/:blueprintId', async (req: Request, res: Response, nex
 // GET /api/v1/projects/:projectId/tasks — list tasks with filtering
 router.get('/', parsePagination, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    if (!(await verifyProjectAccess(req, res))) return;
-
-    const filters: taskModel.TaskFilters = {};
-    if (req.query.status) filters.status = req.query.status as string;
-    if (req.query.priority) filters.priority = req.query.priority as string;
-    if (req.query.trade) filters.trade = req.query.trade as string;
-    if (req.query.assignedToMe === 'true') filters.assignedToUser = req.user!.userId;
-    if (req.query.search) filters.search = req.query.search as string;
-
-    const sortBy = req.query.sortBy as string | undefined;
-    if (sortBy && ['number', 'date', 'user'].includes(sortBy)) {
-      filters.sortBy = sortBy as 'number' | 'date' | 'user';
-    }
-    const sortOrder = req.query.sortOrder as string | undefined;
-    if (sortOrder && ['asc', 'desc'].includes(sortOrder)) {
-      filters.sortOrder = sortOrder as 'asc' | 'desc';
-    }
+    const filters = await resolveTaskFilters(req, res);
+    if (!filters) return;
 
     const { tasks, total } = await taskModel.findTasksByProject(
       param(req.params.projectId),
@@ -88,15 +152,294 @@ router.get('/', parsePagination, async (req: Request, res: Response, next: NextF
   }
 });
 
+// GET /api/v1/projects/:projectId/tasks/template — download empty Excel template for task import
+router.get('/template', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const [customFields, workflow] = await Promise.all([
+      customFieldModel.findByOrganizationAndEntity(req.user!.organizationId, 'task'),
+      workflowService.getWorkflow(req.user!.organizationId),
+    ]);
+    const workbook = taskExcelService.generateTaskTemplate(customFields, workflow.statuses);
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', 'attachment; filename="task-template.xlsx"');
+    await workbook.xlsx.write(res);
+    res.end();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/v1/projects/:projectId/tasks/export — download the tasks matching the list filters as Excel
+router.get('/export', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projectId = param(req.params.projectId);
+    const filters = await resolveTaskFilters(req, res);
+    if (!filters) return;
+
+    const [{ tasks }, customFields, workflow, { users }, blueprints] = await Promise.all([
+      taskModel.findTasksByProject(projectId, req.user!.organizationId, filters, {
+        limit: MAX_EXPORT_TASKS,
+        offset: 0,
+      }),
+      customFieldModel.findByOrganizationAndEntity(req.user!.organizationId, 'task'),
+      workflowService.getWorkflow(req.user!.organizationId),
+      userModel.findUsersByOrganization(req.user!.organizationId, { limit: MAX_EXPORT_TASKS }),
+      blueprintModel.findBlueprintsByProject(projectId, req.user!.organizationId),
+    ]);
+    const workbook = taskExcelService.generateTaskExport(tasks, customFields, {
+      statusLabels: new Map(workflow.statuses.map((s) => [s.key, s.label])),
+      userEmails: new Map(users.map((u) => [u.id, u.email])),
+      blueprintNames: new Map(blueprints.map((b) => [b.id, b.name])),
+    });
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', 'attachment; filename="tasks-export.xlsx"');
+    await workbook.xlsx.write(res);
+    res.end();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/tasks/import — create tasks, or update them by task number, from Excel
+router.post(
+  '/import',
+  authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
+  upload.single('file'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = param(req.params.projectId);
+
+      if (!req.file) {
+        sendError(res, 400, 'NO_FILE', 'No file uploaded');
+        return;
+      }
+      const updateExisting = req.body.mode === 'update';
+
+      const [customFields, workflow, members, blueprints, trades] = await Promise.all([
+        customFieldModel.findByOrganizationAndEntity(req.user!.organizationId, 'task'),
+        workflowService.getWorkflow(req.user!.organizationId),
+        projectMemberModel.findMembersByProject(projectId),
+        blueprintModel.findBlueprintsByProject(projectId, req.user!.organizationId),
+        taskModel.findTradesByOrganization(req.user!.organizationId),
+      ]);
+
+      const { valid, errors } = await taskExcelService.parseTaskImport(req.file.buffer, customFields, {
+        statuses: workflow.statuses,
+        usersByEmail: new Map(members.filter((m) => m.is_active).map((m) => [m.email.toLowerCase(), m.user_id])),
+        blueprintsByName: new Map(blueprints.map((b) => [b.name.toLowerCase(), b.id])),
+        trades,
+        updateExisting,
+      });
+
+      if (errors.length > 0) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Some rows have errors', { errors, validCount: valid.length });
+        return;
+      }
+
+      if (valid.length === 0) {
+        sendError(res, 400, 'EMPTY_FILE', 'No task rows found in the file');
+        return;
+      }
+
+      const numbers = valid.filter((t) => t.taskNumber !== undefined).map((t) => t.taskNumber!);
+      const existingTasks = numbers.length > 0
+        ? await taskModel.findTasksByNumbers(numbers, projectId, req.user!.organizationId)
+        : [];
+      const existingByNumber = new Map(existingTasks.map((t) => [t.task_number, t]));
+
+      // Check every row against the database before writing anything, so one bad row rejects the whole file
+      const dbErrors: taskExcelService.ImportError[] = [];
+      const planned: Array<{ item: taskExcelService.ImportedTask; existing?: taskModel.TaskWithCounts; customFields?: Record<string, unknown> }> = [];
+      for (const item of valid) {
+        const rowErrors: string[] = [];
+        const existing = item.taskNumber !== undefined ? existingByNumber.get(item.taskNumber) : undefined;
+        if (item.taskNumber !== undefined && !existing) {
+          rowErrors.push(`Task #${item.taskNumber} does not exist in this project`);
+        }
+
+        if (existing && item.status && item.status !== existing.status) {
+          const transitionError = workflowService.checkTransition(workflow, existing.status, item.status, {
+            role: req.user!.role,
+            hasComment: false,
+            hasPhoto: existing.photo_count > 0,
+          }) || taskTemplateService.checkRequiredItems(workflow, existing, item.status)
+            || await taskRelationService.checkBlockers(workflow, existing, item.status);
+          if (transitionError) rowErrors.push(transitionError.message);
+        }
+
+        let sanitizedCustomFields: Record<string, unknown> | undefined;
+        if (item.customFields || (!existing && customFields.length > 0)) {
+          const merged = { ...(existing?.custom_fields || {}), ...item.customFields };
+          const cfResult = await validateCustomFields(req.user!.organizationId, 'task', merged);
+          if (!cfResult.valid) {
+            rowErrors.push(...Object.values(cfResult.errors));
+          } else if (item.customFields) {
+            sanitizedCustomFields = cfResult.sanitized;
+          }
+        }
+
+        if (rowErrors.length > 0) {
+          dbErrors.push({ row: item.row, messages: rowErrors });
+        } else {
+          planned.push({ item, existing, customFields: sanitizedCustomFields });
+        }
+      }
+
+      if (dbErrors.length > 0) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Some rows have errors', { errors: dbErrors, validCount: planned.length });
+        return;
+      }
+
+      // Due dates from the SLA rules are looked up before the transaction takes a connection
+      const dueDates = await Promise.all(planned.map(({ item, existing }) => (existing || item.dueDate
+        ? item.dueDate
+        : slaService.resolveDueDate(req.user!.organizationId, {
+          projectId,
+          priority: item.priority || 'normal',
+          trade: item.trade,
+        }))));
+
+      // Every row is written in one transaction, so an import that fails part-way changes nothing
+      const changed: Array<{ existing: taskModel.TaskWithCounts; task: taskModel.TaskRow; statusChanged: boolean }> = [];
+      let created = 0;
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        for (const [index, { item, existing, customFields: sanitizedCustomFields }] of planned.entries()) {
+          const now = new Date().toISOString();
+          if (existing) {
+            const updates: Record<string, unknown> = {
+              title: item.title,
+              description: item.description,
+              priority: item.priority,
+              trade: item.trade,
+              assignedToUser: item.assignedToUser,
+              assignedToContractorEmail: item.assignedToContractorEmail,
+              blueprintId: item.blueprintId,
+              dueDate: item.dueDate,
+              customFields: sanitizedCustomFields,
+            };
+            const statusChanged = !!item.status && item.status !== existing.status;
+            if (statusChanged) {
+              updates.status = item.status;
+              const category = workflowService.getStatusCategory(workflow, item.status!);
+              if (category === 'completed') updates.completedAt = now;
+              else if (category === 'verified') updates.verifiedAt = now;
+            }
+            // Unchanged due dates must not re-arm the reminder and escalation
+            if (item.dueDate !== undefined && item.dueDate === (existing.due_date && taskExcelService.formatDueDate(existing.due_date))) {
+              delete updates.dueDate;
+            }
+            Object.assign(updates, blueprintRevisionService.annotationRevisionUpdates(existing, updates));
+
+            const task = await taskModel.updateTask(existing.id, updates, client);
+            if (!task || taskHistoryService.diffTask(existing, task).length === 0) continue;
+
+            await taskHistoryService.recordTaskChanges(existing, task, { userId: req.user!.userId }, client);
+            changed.push({ existing, task, statusChanged });
+          } else {
+            // Rows imported straight into a done status get the timestamp the status change would have set
+            const status = item.status || workflowService.getInitialStatus(workflow);
+            const category = workflowService.getStatusCategory(workflow, status);
+            const task = await taskModel.createTask({
+              projectId,
+              blueprintId: item.blueprintId ?? undefined,
+              title: item.title!,
+              description: item.description ?? undefined,
+              status,
+              priority: item.priority || 'normal',
+              trade: item.trade ?? undefined,
+              assignedToUser: item.assignedToUser ?? undefined,
+              assignedToContractorEmail: item.assignedToContractorEmail ?? undefined,
+              customFields: sanitizedCustomFields,
+              dueDate: dueDates[index],
+              completedAt: category === 'completed' || category === 'verified' ? now : undefined,
+              verifiedAt: category === 'verified' ? now : undefined,
+              createdBy: req.user!.userId,
+            }, client);
+            await taskHistoryService.recordTaskCreated(task, { userId: req.user!.userId }, client);
+            created++;
+          }
+        }
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      } finally {
+        client.release();
+      }
+
+      for (const { existing, task, statusChanged } of changed) {
+        if (statusChanged) {
+          await taskRelationService.notifyUnblockedTasks(workflow, task, existing.status, {
+            organizationId: req.user!.organizationId,
+            actorId: req.user!.userId,
+          });
+        }
+        logAuditAction({
+          organizationId: req.user!.organizationId,
+          userId: req.user!.userId,
+          action: statusChanged ? 'task.status_changed' : 'task.updated',
+          resourceType: 'task',
+          resourceId: task.id,
+          metadata: {
+            projectId,
+            imported: true,
+            ...(statusChanged ? { from: existing.status, to: task.status } : {}),
+          },
+          ipAddress: (req.ip as string || ''),
+        });
+      }
+      const updated = changed.length;
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'task.bulk_imported',
+        resourceType: 'task',
+        metadata: { projectId, created, updated },
+        ipAddress: (req.ip as string || ''),
+      });
+
+      publishEvent({ type: 'tasks.bulk_changed', organizationId: req.user!.organizationId, projectId, data: {} });
+
+      sendSuccess(res, { created, updated }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 // POST /api/v1/projects/:projectId/tasks — create task
-router.post('/', validate(createTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', idempotency, validate(createTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    if (!(await verifyProjectAccess(req, res))) return;
+    if (req.body.assignedToUser && !(await isProjectMember(param(req.params.projectId), req.body.assignedToUser))) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { assignedToUser: 'User is not a member of this project' });
+      return;
+    }
+
+    // A template fills in what the request leaves out
+    const template = req.body.templateId
+      ? await taskTemplateModel.findTemplateById(req.body.templateId, req.user!.organizationId)
+      : null;
+    if (req.body.templateId && !template) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { templateId: 'Task template not found' });
+      return;
+    }
+    const description = req.body.description ?? template?.description ?? undefined;
+    const trade = req.body.trade ?? template?.trade ?? undefined;
+    const priority = req.body.priority ?? template?.priority;
+    const customFields = template && Object.keys(template.custom_fields).length > 0
+      ? { ...template.custom_fields, ...req.body.customFields }
+      : req.body.customFields;
 
     // Validate custom fields if provided
     let sanitizedCustomFields: Record<string, unknown> | undefined;
-    if (req.body.customFields) {
-      const cfResult = await validateCustomFields(req.user!.organizationId, 'task', req.body.customFields);
+    if (customFields) {
+      const cfResult = await validateCustomFields(req.user!.organizationId, 'task', customFields);
       if (!cfResult.valid) {
         sendError(res, 400, 'VALIDATION_ERROR', 'Custom field validation failed', { customFieldErrors: cfResult.errors });
         return;
@@ -104,35 +447,70 @@ router.post('/', validate(createTaskSchema), async (req: Request, res: Response,
       sanitizedCustomFields = cfResult.sanitized;
     }
 
+    const workflow = await workflowService.getWorkflow(req.user!.organizationId);
+
+    // Without an explicit due date the organisation's SLA rules decide
+    const dueDate = req.body.dueDate ?? await slaService.resolveDueDate(req.user!.organizationId, {
+      projectId: param(req.params.projectId),
+      priority: priority || 'normal',
+      trade,
+    });
+
     const task = await taskModel.createTask({
       projectId: param(req.params.projectId),
       blueprintId: req.body.blueprintId,
       title: req.body.title,
-      description: req.body.description,
-      priority: req.body.priority,
-      trade: req.body.trade,
+      description,
+      status: workflowService.getInitialStatus(workflow),
+      priority,
+      trade,
       locationX: req.body.locationX,
       locationY: req.body.locationY,
       assignedToUser: req.body.assignedToUser,
       assignedToContractorEmail: req.body.assignedToContractorEmail,
       customFields: sanitizedCustomFields,
+      dueDate,
       createdBy: req.user!.userId,
     });
 
+    await taskHistoryService.recordTaskCreated(task, { userId: req.user!.userId });
+
+    if (template) {
+      await taskTemplateService.applyTemplateToTask(task.id, template, req.user!.userId);
+    }
+
     logAuditAction({
       organizationId: req.user!.organizationId,
       userId: req.user!.userId,
       action: 'task.created',
       resourceType: 'task',
       resourceId: task.id,
-      metadata: { projectId: param(req.params.projectId), trade: task.trade },
+      metadata: { projectId: param(req.params.projectId), trade: task.trade, templateId: template?.id },
       ipAddress: (req.ip as string || ''),
     });
 
+    publishEvent({
+      type: 'task.created',
+      organizationId: req.user!.organizationId,
+      projectId: task.project_id,
+      data: { taskId: task.id },
+    });
+
+    const creator = task.assigned_to_user || task.assigned_to_contractor_email
+      ? await userModel.findUserById(req.user!.userId)
+      : null;
+
+    if (task.assigned_to_user) {
+      notificationService.notifyTaskAssigned(task, {
+        organizationId: req.user!.organizationId,
+        actorId: req.user!.userId,
+        actorName: creator ? `${creator.first_name} ${creator.last_name}` : undefined,
+      });
+    }
+
     // Send assignment email to contractor
     if (task.assigned_to_contractor_email) {
       const project = await projectModel.findProjectById(param(req.params.projectId), req.user!.organizationId);
-      const creator = await userModel.findUserById(req.user!.userId);
       if (project && creator) {
         const emailContent = renderTaskAssignment({
           projectName: project.name,
@@ -141,8 +519,13 @@ router.post('/', validate(createTaskSchema), async (req: Request, res: Response,
           trade: task.trade || '',
           description: task.description || undefined,
           assignedBy: `${creator.first_name} ${creator.last_name}`,
+          replyToken: task.reply_token,
+        });
+        sendEmail({
+          to: task.assigned_to_contractor_email,
+          ...emailContent,
+          replyTo: task.reply_token ? buildReplyAddress(task.reply_token) : undefined,
         });
-        sendEmail({ to: task.assigned_to_contractor_email, ...emailContent });
       }
     }
 
@@ -152,11 +535,108 @@ router.post('/', validate(createTaskSchema), async (req: Request, res: Response,
   }
 });
 
+// POST /api/v1/projects/:projectId/tasks/bulk — update or delete a selection of tasks, or every task matching a filter
+router.post('/bulk', validate(bulkTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projectId = param(req.params.projectId);
+    const project = await projectModel.findProjectById(projectId, req.user!.organizationId);
+    if (!project) {
+      sendError(res, 404, 'NOT_FOUND', 'Project not found');
+      return;
+    }
+
+    const { taskIds, filter, action, changes } = req.body;
+
+    if (action === 'delete' && (req.user!.role === UserRole.FIELD_USER || req.projectRole !== ProjectRole.MANAGER)) {
+      sendError(res, 403, 'FORBIDDEN', 'Insufficient permissions');
+      return;
+    }
+
+    let tasks: taskModel.TaskWithCounts[];
+    let missingIds: string[] = [];
+    if (taskIds) {
+      const ids: string[] = [...new Set<string>(taskIds)];
+      tasks = await taskModel.findTasksByIds(ids, projectId, req.user!.organizationId);
+      const found = new Set(tasks.map((t) => t.id));
+      missingIds = ids.filter((id) => !found.has(id));
+    } else {
+      const filters = taskFilterService.toTaskFilters(filter, req.user!.userId);
+      const result = await taskModel.findTasksByProject(projectId, req.user!.organizationId, filters, {
+        limit: MAX_BULK_TASKS,
+        offset: 0,
+      });
+      if (result.total > MAX_BULK_TASKS) {
+        sendError(res, 400, 'TOO_MANY_TASKS', `At most ${MAX_BULK_TASKS} tasks can be changed at once`, {
+          total: result.total,
+        });
+        return;
+      }
+      tasks = result.tasks;
+    }
+
+    // Targets shared by every task are checked once up front
+    if (action === 'update' && changes.blueprintId) {
+      const blueprint = await blueprintModel.findBlueprintById(changes.blueprintId, req.user!.organizationId);
+      if (!blueprint || blueprint.project_id !== projectId) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { 'changes.blueprintId': 'Blueprint not found in this project' });
+        return;
+      }
+    }
+    if (action === 'update' && changes.assignedToUser) {
+      const assignee = await userModel.findUserById(changes.assignedToUser);
+      if (!assignee || assignee.organization_id !== req.user!.organizationId || !assignee.is_active) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { 'changes.assignedToUser': 'User not found' });
+        return;
+      }
+      if (!(await isProjectMember(projectId, changes.assignedToUser))) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { 'changes.assignedToUser': 'User is not a member of this project' });
+        return;
+      }
+    }
+
+    const actor: taskBulkService.BulkActor = {
+      userId: req.user!.userId,
+      organizationId: req.user!.organizationId,
+      role: req.user!.role,
+      ipAddress: (req.ip as string || ''),
+    };
+    const results = action === 'delete'
+      ? await taskBulkService.deleteTasks(project, tasks, actor)
+      : await taskBulkService.updateTasks(project, tasks, changes, actor);
+
+    for (const id of missingIds) {
+      results.push({ taskId: id, taskNumber: null, success: false, error: { code: 'NOT_FOUND', message: 'Task not found' } });
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    if (succeeded > 0) {
+      publishEvent({ type: 'tasks.bulk_changed', organizationId: req.user!.organizationId, projectId, data: {} });
+    }
+    sendSuccess(res, {
+      results,
+      summary: { total: results.length, succeeded, failed: results.length - succeeded },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // GET /api/v1/projects/:projectId/tasks/:taskId — get task detail
 router.get('/:taskId', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
 
+    if (task && task.project_id !== param(req.params.projectId)
+      && await taskMoveModel.findMoveFromProject(task.id, param(req.params.projectId))) {
+      // Links to a moved task keep working: the client follows it to its new project and number
+      sendError(res, 404, 'TASK_MOVED', 'Task was moved to another project', {
+        projectId: task.project_id,
+        taskId: task.id,
+        taskNumber: task.task_number,
+      });
+      return;
+    }
+
     if (!task || task.project_id !== param(req.params.projectId)) {
       sendError(res, 404, 'NOT_FOUND', 'Task not found');
       return;
@@ -168,6 +648,26 @@ router.get('/:taskId', async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
+// GET /api/v1/projects/:projectId/tasks/:taskId/history — field-level change history and status metrics
+router.get('/:taskId/history', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
+
+    if (!task || task.project_id !== param(req.params.projectId)) {
+      sendError(res, 404, 'NOT_FOUND', 'Task not found');
+      return;
+    }
+
+    const history = await taskHistoryModel.findHistoryByTask(task.id);
+    const workflow = await workflowService.getWorkflow(req.user!.organizationId);
+    const metrics = taskHistoryService.computeStatusMetrics(task, history, workflow);
+
+    sendSuccess(res, { history, metrics });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // PATCH /api/v1/projects/:projectId/tasks/:taskId — update task
 router.patch('/:taskId', validate(updateTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -186,17 +686,46 @@ router.patch('/:taskId', validate(updateTaskSchema), async (req: Request, res: R
       }
     }
 
-    // Validate status transition
-    if (req.body.status && req.body.status !== existingTask.status) {
-      if (!taskModel.isValidStatusTransition(existingTask.status, req.body.status)) {
-        sendError(res, 400, 'INVALID_TRANSITION', `Cannot transition from '${existingTask.status}' to '${req.body.status}'`);
+    const assigneeChanged = !!req.body.assignedToUser && req.body.assignedToUser !== existingTask.assigned_to_user;
+    if (assigneeChanged && !(await isProjectMember(existingTask.project_id, req.body.assignedToUser))) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { assignedToUser: 'User is not a member of this project' });
+      return;
+    }
+
+    // Reject stale writes (e.g. replayed from an offline queue) if the task changed since the client last saw it
+    if (req.body.expectedUpdatedAt) {
+      const expected = new Date(req.body.expectedUpdatedAt).getTime();
+      if (expected !== new Date(existingTask.updated_at).getTime()) {
+        sendError(res, 409, 'CONFLICT', 'Task was modified by someone else', { task: existingTask });
+        return;
+      }
+    }
+
+    // Validate status change against the organisation's workflow
+    const statusChanged = !!req.body.status && req.body.status !== existingTask.status;
+    const statusComment: string = req.body.statusComment?.trim() || '';
+    let statusCategory: workflowService.StatusCategory | undefined;
+    let statusLabel = req.body.status as string;
+    const workflow = statusChanged ? await workflowService.getWorkflow(req.user!.organizationId) : null;
+    if (workflow) {
+      const transitionError = workflowService.checkTransition(workflow, existingTask.status, req.body.status, {
+        role: req.user!.role,
+        hasComment: !!statusComment,
+        hasPhoto: existingTask.photo_count > 0,
+      }) || taskTemplateService.checkRequiredItems(workflow, existingTask, req.body.status)
+        || await taskRelationService.checkBlockers(workflow, existingTask, req.body.status);
+      if (transitionError) {
+        sendError(res, transitionError.httpStatus, transitionError.code, transitionError.message);
         return;
       }
 
-      // Set timestamps on status changes
-      if (req.body.status === 'completed') {
+      statusLabel = workflow.statuses.find((s) => s.key === req.body.status)?.label || statusLabel;
+
+      // Set timestamps when entering a completed or verified status
+      statusCategory = workflowService.getStatusCategory(workflow, req.body.status);
+      if (statusCategory === 'completed') {
         req.body.completedAt = new Date().toISOString();
-      } else if (req.body.status === 'verified') {
+      } else if (statusCategory === 'verified') {
         req.body.verifiedAt = new Date().toISOString();
       }
     }
@@ -211,6 +740,39 @@ router.patch('/:taskId', validate(updateTaskSchema), async (req: Request, res: R
       req.body.customFields = cfResult.sanitized;
     }
 
+    // Measurement values come from the calibration of the blueprint page they are drawn on
+    if (req.body.measurements) {
+      const blueprintChanged = req.body.blueprintId !== undefined && req.body.blueprintId !== existingTask.blueprint_id;
+      const blueprintId = blueprintChanged ? req.body.blueprintId : existingTask.blueprint_id;
+      const blueprint = blueprintId
+        ? await blueprintModel.findBlueprintById(blueprintId, req.user!.organizationId)
+        : null;
+      if (!blueprint) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', {
+          measurements: 'Measurements are taken on the blueprint of the task',
+        });
+        return;
+      }
+      const resolved = measurementService.resolveMeasurements(
+        blueprint.scale_calibrations,
+        req.body.measurements.map((m: Omit<taskModel.TaskMeasurement, 'value'>) => ({
+          id: m.id,
+          type: m.type,
+          page: m.page,
+          points: m.points.map((p) => ({ x: p.x, y: p.y })),
+          ...(m.label?.trim() && { label: m.label.trim() }),
+        })),
+        blueprintChanged ? null : existingTask.measurements,
+      );
+      if ('errors' in resolved) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', resolved.errors);
+        return;
+      }
+      req.body.measurements = resolved.measurements;
+    }
+
+    Object.assign(req.body, blueprintRevisionService.annotationRevisionUpdates(existingTask, req.body));
+
     const task = await taskModel.updateTask(param(req.params.taskId), req.body);
 
     if (!task) {
@@ -218,6 +780,24 @@ router.patch('/:taskId', validate(updateTaskSchema), async (req: Request, res: R
       return;
     }
 
+    await taskHistoryService.recordTaskChanges(existingTask, task, { userId: req.user!.userId });
+
+    if (workflow) {
+      await taskRelationService.notifyUnblockedTasks(workflow, task, existingTask.status, {
+        organizationId: req.user!.organizationId,
+        actorId: req.user!.userId,
+      });
+    }
+
+    // The comment explaining a status change is posted on the task
+    if (statusChanged && statusComment) {
+      await commentModel.createComment({
+        taskId: task.id,
+        userId: req.user!.userId,
+        commentText: statusComment,
+      });
+    }
+
     logAuditAction({
       organizationId: req.user!.organizationId,
       userId: req.user!.userId,
@@ -231,21 +811,37 @@ router.patch('/:taskId', validate(updateTaskSchema), async (req: Request, res: R
       ipAddress: (req.ip as string || ''),
     });
 
-    // Notify PM when task is completed
-    if (req.body.status === 'completed') {
-      const project = await projectModel.findProjectById(param(req.params.projectId), req.user!.organizationId);
-      if (project) {
-        const pm = await userModel.findUserById(project.created_by);
-        const completer = await userModel.findUserById(req.user!.userId);
-        if (pm && completer) {
-          const emailContent = renderTaskCompleted({
-            firstName: pm.first_name,
-            projectName: project.name,
-            taskTitle: task.title,
-            completedBy: `${completer.first_name} ${completer.last_name}`,
-          });
-          sendEmail({ to: pm.email, ...emailContent });
-        }
+    publishEvent({
+      type: 'task.updated',
+      organizationId: req.user!.organizationId,
+      projectId: existingTask.project_id,
+      data: { taskId: task.id },
+    });
+
+    if (assigneeChanged || statusChanged) {
+      const actor = await userModel.findUserById(req.user!.userId);
+      const actorName = actor ? `${actor.first_name} ${actor.last_name}` : req.user!.email;
+
+      if (assigneeChanged) {
+        notificationService.notifyTaskAssigned(task, {
+          organizationId: req.user!.organizationId,
+          actorId: req.user!.userId,
+          actorName,
+        });
+      }
+
+      if (statusChanged) {
+        // The project's creator hears about completed tasks awaiting verification
+        const project = statusCategory === 'completed'
+          ? await projectModel.findProjectById(param(req.params.projectId), req.user!.organizationId)
+          : null;
+        notificationService.notifyTaskStatusChanged(task, {
+          organizationId: req.user!.organizationId,
+          actorId: req.user!.userId,
+          actorName,
+          statusLabel,
+          completion: project ? { projectCreatorId: project.created_by, projectName: project.name } : undefined,
+        });
       }
     }
 
@@ -255,10 +851,93 @@ router.patch('/:taskId', validate(updateTaskSchema), async (req: Request, res: R
   }
 });
 
+// POST /api/v1/projects/:projectId/tasks/:taskId/duplicate — copy the task, into this or another project
+router.post('/:taskId/duplicate', validate(duplicateTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
+
+    if (!task || task.project_id !== param(req.params.projectId)) {
+      sendError(res, 404, 'NOT_FOUND', 'Task not found');
+      return;
+    }
+
+    const target = await resolveTargetProject(req, res, req.body.projectId || task.project_id);
+    if (!target) return;
+
+    const files = await taskCopyService.findCopyableFiles(task.id, req.user!.organizationId);
+    if (files.totalBytes > 0) {
+      const storageCheck = await storageTracking.checkStorageLimit(req.user!.organizationId, files.totalBytes);
+      if (!storageCheck.allowed) {
+        sendError(res, 400, 'STORAGE_LIMIT_EXCEEDED', 'Organization storage limit exceeded', {
+          usedBytes: storageCheck.usedBytes,
+          limitBytes: storageCheck.limitBytes,
+        });
+        return;
+      }
+    }
+
+    const copy = await taskCopyService.duplicateTask(task, target, files, {
+      userId: req.user!.userId,
+      organizationId: req.user!.organizationId,
+      ipAddress: (req.ip as string || ''),
+    });
+
+    sendSuccess(res, { task: copy }, 201);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/tasks/:taskId/move — move the task to another project under a new number
+router.post(
+  '/:taskId/move',
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(moveTaskSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
+
+      if (!task || task.project_id !== param(req.params.projectId)) {
+        sendError(res, 404, 'NOT_FOUND', 'Task not found');
+        return;
+      }
+
+      if (req.body.projectId === task.project_id) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { projectId: 'Task is already in this project' });
+        return;
+      }
+
+      const target = await resolveTargetProject(req, res, req.body.projectId);
+      if (!target) return;
+
+      const source = await projectModel.findProjectById(task.project_id, req.user!.organizationId);
+      if (!source) {
+        sendError(res, 404, 'NOT_FOUND', 'Project not found');
+        return;
+      }
+
+      const moved = await taskCopyService.moveTask(task, source, target, {
+        userId: req.user!.userId,
+        organizationId: req.user!.organizationId,
+        ipAddress: (req.ip as string || ''),
+      });
+      if (!moved) {
+        sendError(res, 404, 'NOT_FOUND', 'Task not found');
+        return;
+      }
+
+      sendSuccess(res, { task: moved });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 // DELETE /api/v1/projects/:projectId/tasks/:taskId — delete task
 router.delete(
   '/:taskId',
   authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN, UserRole.PROJECT_MANAGER),
+  requireProjectRole(ProjectRole.MANAGER),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
@@ -280,6 +959,13 @@ router.delete(
         ipAddress: (req.ip as string || ''),
       });
 
+      publishEvent({
+        type: 'task.deleted',
+        organizationId: req.user!.organizationId,
+        projectId: task.project_id,
+        data: { taskId: task.id },
+      });
+
       sendSuccess(res, { message: 'Task deleted' });
     } catch (err) {
       next(err);
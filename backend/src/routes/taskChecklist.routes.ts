@@ -0,0 +1,171 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/projectAccess';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { addChecklistItemsSchema, updateChecklistItemSchema } from '../validators/taskTemplate.validators';
+import * as taskModel from '../models/task.model';
+import * as taskChecklistModel from '../models/taskChecklist.model';
+import * as taskTemplateModel from '../models/taskTemplate.model';
+import { normalizeChecklistItems } from '../services/taskTemplate.service';
+import { logAuditAction } from '../services/audit.service';
+import { publishEvent } from '../services/realtime.service';
+import { ProjectRole, UserRole } from '../types';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticate);
+router.use(requireProjectAccess);
+
+// Helper: load the task, answering 404 when it is not in the project
+async function findTask(req: Request, res: Response): Promise<taskModel.TaskWithCounts | null> {
+  const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
+  if (!task || task.project_id !== param(req.params.projectId)) {
+    sendError(res, 404, 'NOT_FOUND', 'Task not found');
+    return null;
+  }
+  return task;
+}
+
+function publishChecklistChange(organizationId: string, task: taskModel.TaskWithCounts): void {
+  publishEvent({ type: 'task.updated', organizationId, projectId: task.project_id, data: { taskId: task.id } });
+}
+
+// GET /api/v1/projects/:projectId/tasks/:taskId/checklist
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const items = await taskChecklistModel.findItemsByTask(task.id);
+    sendSuccess(res, { items });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/tasks/:taskId/checklist — add one item, or a template's whole checklist
+router.post('/', validate(addChecklistItemsSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    let templateId: string | null = null;
+    let newItems: taskTemplateModel.TemplateChecklistItem[];
+    if (req.body.templateId) {
+      const template = await taskTemplateModel.findTemplateById(req.body.templateId, req.user!.organizationId);
+      if (!template) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { templateId: 'Task template not found' });
+        return;
+      }
+      if (template.checklist_items.length === 0) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { templateId: 'Template has no checklist' });
+        return;
+      }
+      templateId = template.id;
+      newItems = template.checklist_items;
+    } else {
+      newItems = normalizeChecklistItems([req.body]);
+    }
+
+    const items = await taskChecklistModel.addItems(task.id, newItems, { templateId, createdBy: req.user!.userId });
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'task.checklist_items_added',
+      resourceType: 'task',
+      resourceId: task.id,
+      metadata: { projectId: task.project_id, templateId, count: items.length },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    publishChecklistChange(req.user!.organizationId, task);
+
+    sendSuccess(res, { items }, 201);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /api/v1/projects/:projectId/tasks/:taskId/checklist/:itemId — tick or untick
+router.patch('/:itemId', validate(updateChecklistItemSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    // Field users work through the checklists of their own tasks, as with task updates
+    if (req.user!.role === UserRole.FIELD_USER
+      && task.assigned_to_user !== req.user!.userId && task.created_by !== req.user!.userId) {
+      sendError(res, 403, 'FORBIDDEN', 'You can only update tasks assigned to or created by you');
+      return;
+    }
+
+    const item = await taskChecklistModel.setItemChecked(
+      param(req.params.itemId),
+      task.id,
+      req.body.checked ? req.user!.userId : null,
+    );
+    if (!item) {
+      sendError(res, 404, 'NOT_FOUND', 'Checklist item not found');
+      return;
+    }
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: req.body.checked ? 'task.checklist_item_checked' : 'task.checklist_item_unchecked',
+      resourceType: 'task',
+      resourceId: task.id,
+      metadata: { projectId: task.project_id, itemId: item.id, text: item.text },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    publishChecklistChange(req.user!.organizationId, task);
+
+    sendSuccess(res, { item });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/v1/projects/:projectId/tasks/:taskId/checklist/:itemId
+router.delete('/:itemId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const existing = await taskChecklistModel.findItemById(param(req.params.itemId), task.id);
+    if (!existing) {
+      sendError(res, 404, 'NOT_FOUND', 'Checklist item not found');
+      return;
+    }
+
+    // Removing a required item would let the task be completed without it
+    if (existing.is_required && req.projectRole !== ProjectRole.MANAGER) {
+      sendError(res, 403, 'FORBIDDEN', 'Only project managers can remove required checklist items');
+      return;
+    }
+
+    await taskChecklistModel.deleteItem(existing.id, task.id);
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'task.checklist_item_removed',
+      resourceType: 'task',
+      resourceId: task.id,
+      metadata: { projectId: task.project_id, itemId: existing.id, text: existing.text },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    publishChecklistChange(req.user!.organizationId, task);
+
+    sendSuccess(res, { message: 'Checklist item removed' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -1,33 +1,72 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
 import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/projectAccess';
 import { validate } from '../middleware/validate';
+import { idempotency } from '../middleware/idempotency';
+import { uploadLimiter } from '../middleware/rateLimiter';
 import { parsePagination } from '../middleware/pagination';
 import { sendSuccess, sendError } from '../utils/response';
-import { createCommentSchema } from '../validators/comment.validators';
+import { ProjectRole } from '../types';
+import { createTaskCommentSchema, updateCommentSchema } from '../validators/comment.validators';
+import { requestCommentAttachmentUploadSchema } from '../validators/upload.validators';
 import * as commentModel from '../models/comment.model';
+import * as commentAttachmentModel from '../models/commentAttachment.model';
 import * as taskModel from '../models/task.model';
+import * as userModel from '../models/user.model';
+import * as storageService from '../services/storage.service';
+import * as storageTracking from '../services/storageTracking.service';
+import * as thumbnailService from '../services/thumbnail.service';
+import { logAuditAction } from '../services/audit.service';
+import { publishEvent } from '../services/realtime.service';
+import { notifyTaskComment } from '../services/notification.service';
+import { recordCommentMentions } from '../services/mention.service';
 import { param } from '../utils/params';
 
 const router = Router({ mergeParams: true });
 
 router.use(authenticate);
+router.use(requireProjectAccess);
+
+// Helper: load the task, answering 404 when it is not in the project
+async function findTask(req: Request, res: Response): Promise<taskModel.TaskWithCounts | null> {
+  const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
+  if (!task || task.project_id !== param(req.params.projectId)) {
+    sendError(res, 404, 'NOT_FOUND', 'Task not found');
+    return null;
+  }
+  return task;
+}
+
+// Helper: attach each visible comment's files with download URLs
+async function withAttachments(comments: commentModel.CommentRow[]) {
+  const attachments = await commentAttachmentModel.findAttachmentsByComments(
+    comments.filter((c) => !c.deleted_at).map((c) => c.id),
+  );
+  const withUrls = await Promise.all(attachments.map(async (attachment) => ({
+    ...attachment,
+    download_url: await storageService.generatePresignedDownloadUrl(attachment.file_url),
+    thumbnail_download_url: attachment.thumbnail_url
+      ? await storageService.generatePresignedDownloadUrl(attachment.thumbnail_url)
+      : null,
+  })));
+  return comments.map((comment) => ({
+    ...comment,
+    attachments: withUrls.filter((a) => a.comment_id === comment.id),
+  }));
+}
 
 // GET /api/v1/projects/:projectId/tasks/:taskId/comments
 router.get('/', parsePagination, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // Verify task exists and belongs to user's org
-    const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
-    if (!task || task.project_id !== param(req.params.projectId)) {
-      sendError(res, 404, 'NOT_FOUND', 'Task not found');
-      return;
-    }
+    if (!(await findTask(req, res))) return;
 
     const { comments, total } = await commentModel.findCommentsByTask(
       param(req.params.taskId),
       { limit: req.pagination!.limit, offset: req.pagination!.offset },
     );
 
-    sendSuccess(res, { comments }, 200, {
+    sendSuccess(res, { comments: await withAttachments(comments) }, 200, {
       page: req.pagination!.page,
       limit: req.pagination!.limit,
       total,
@@ -38,23 +77,264 @@ router.get('/', parsePagination, async (req: Request, res: Response, next: NextF
   }
 });
 
+// POST /api/v1/projects/:projectId/tasks/:taskId/comments/attachments/upload-url — request upload URL
+router.post(
+  '/attachments/upload-url',
+  uploadLimiter,
+  idempotency,
+  validate(requestCommentAttachmentUploadSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const task = await findTask(req, res);
+      if (!task) return;
+
+      const { fileName, fileSize, mimeType } = req.body;
+
+      const storageCheck = await storageTracking.checkStorageLimit(req.user!.organizationId, fileSize);
+      if (!storageCheck.allowed) {
+        sendError(res, 400, 'STORAGE_LIMIT_EXCEEDED', 'Organization storage limit exceeded', {
+          usedBytes: storageCheck.usedBytes,
+          limitBytes: storageCheck.limitBytes,
+        });
+        return;
+      }
+
+      const attachmentId = randomUUID();
+      const s3Key = storageService.buildS3Key(
+        'comment-attachments',
+        req.user!.organizationId,
+        task.id,
+        attachmentId,
+        fileName,
+      );
+
+      await commentAttachmentModel.createAttachment({
+        id: attachmentId,
+        taskId: task.id,
+        fileUrl: s3Key,
+        fileName,
+        mimeType,
+        fileSizeBytes: fileSize,
+        uploadedBy: req.user!.userId,
+      });
+
+      const presigned = await storageService.generatePresignedUploadUrl(s3Key, mimeType, fileSize);
+
+      sendSuccess(res, {
+        uploadUrl: presigned.uploadUrl,
+        attachmentId,
+        key: presigned.key,
+        expiresAt: presigned.expiresAt,
+      }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/v1/projects/:projectId/tasks/:taskId/comments/attachments/:attachmentId/confirm — confirm upload
+router.post(
+  '/attachments/:attachmentId/confirm',
+  idempotency,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const task = await findTask(req, res);
+      if (!task) return;
+
+      const attachment = await commentAttachmentModel.findAttachmentById(param(req.params.attachmentId), task.id);
+      if (!attachment || attachment.uploaded_by !== req.user!.userId) {
+        sendError(res, 404, 'NOT_FOUND', 'Attachment not found');
+        return;
+      }
+
+      const fileSize = await storageService.checkFileExists(attachment.file_url);
+      if (fileSize === null) {
+        sendError(res, 400, 'FILE_NOT_UPLOADED', 'File has not been uploaded yet');
+        return;
+      }
+
+      let thumbnailKey: string | undefined;
+      if (attachment.mime_type.startsWith('image/')) {
+        try {
+          thumbnailKey = await thumbnailService.generateThumbnail(attachment.file_url, 'photo');
+        } catch {
+          // Thumbnail generation failure is non-fatal
+        }
+      }
+
+      const confirmed = await commentAttachmentModel.confirmAttachment(attachment.id, {
+        fileSizeBytes: fileSize,
+        thumbnailUrl: thumbnailKey,
+      });
+
+      // A repeated confirm must not count the file twice
+      if (!attachment.confirmed_at) {
+        await storageTracking.incrementStorageUsed(req.user!.organizationId, fileSize);
+      }
+
+      sendSuccess(res, { attachment: confirmed });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 // POST /api/v1/projects/:projectId/tasks/:taskId/comments
-router.post('/', validate(createCommentSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', idempotency, validate(createTaskCommentSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // Verify task exists and belongs to user's org
-    const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
-    if (!task || task.project_id !== param(req.params.projectId)) {
-      sendError(res, 404, 'NOT_FOUND', 'Task not found');
-      return;
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    if (req.body.parentId) {
+      const parent = await commentModel.findCommentById(req.body.parentId, task.id);
+      if (!parent || parent.deleted_at) {
+        sendError(res, 404, 'NOT_FOUND', 'Comment not found');
+        return;
+      }
+      if (parent.parent_id) {
+        sendError(res, 400, 'INVALID_PARENT', 'Replies cannot be replied to');
+        return;
+      }
     }
 
     const comment = await commentModel.createComment({
-      taskId: param(req.params.taskId),
+      taskId: task.id,
       userId: req.user!.userId,
       commentText: req.body.commentText,
+      parentId: req.body.parentId,
+    });
+
+    const attachments = await commentAttachmentModel.attachToComment(req.body.attachmentIds || [], {
+      commentId: comment.id,
+      taskId: task.id,
+      uploadedBy: req.user!.userId,
+    });
+
+    publishEvent({
+      type: 'comment.created',
+      organizationId: req.user!.organizationId,
+      projectId: task.project_id,
+      data: { taskId: task.id, commentId: comment.id },
+    });
+
+    const mentionedUserIds = await recordCommentMentions(comment, task, {
+      organizationId: req.user!.organizationId,
+      projectId: task.project_id,
+      actorId: req.user!.userId,
+    });
+
+    const author = await userModel.findUserById(req.user!.userId);
+    notifyTaskComment(task, {
+      organizationId: req.user!.organizationId,
+      actorId: req.user!.userId,
+      actorName: author ? `${author.first_name} ${author.last_name}` : req.user!.email,
+      commentText: req.body.commentText,
+      mentionedUserIds,
     });
 
-    sendSuccess(res, { comment }, 201);
+    sendSuccess(res, { comment: { ...comment, attachments } }, 201);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /api/v1/projects/:projectId/tasks/:taskId/comments/:commentId — edit own comment
+router.patch('/:commentId', validate(updateCommentSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const existing = await commentModel.findCommentById(param(req.params.commentId), task.id);
+    if (!existing || existing.deleted_at) {
+      sendError(res, 404, 'NOT_FOUND', 'Comment not found');
+      return;
+    }
+    if (existing.user_id !== req.user!.userId) {
+      sendError(res, 403, 'FORBIDDEN', 'Only the author can edit a comment');
+      return;
+    }
+
+    const comment = await commentModel.updateCommentText(existing.id, req.body.commentText, req.user!.userId);
+    if (!comment) {
+      sendError(res, 404, 'NOT_FOUND', 'Comment not found');
+      return;
+    }
+
+    await recordCommentMentions(comment, task, {
+      organizationId: req.user!.organizationId,
+      projectId: task.project_id,
+      actorId: req.user!.userId,
+    });
+
+    publishEvent({
+      type: 'comment.updated',
+      organizationId: req.user!.organizationId,
+      projectId: task.project_id,
+      data: { taskId: task.id, commentId: comment.id },
+    });
+
+    sendSuccess(res, { comment });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/v1/projects/:projectId/tasks/:taskId/comments/:commentId — delete own comment, or moderate as a manager
+router.delete('/:commentId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const existing = await commentModel.findCommentById(param(req.params.commentId), task.id);
+    if (!existing || existing.deleted_at) {
+      sendError(res, 404, 'NOT_FOUND', 'Comment not found');
+      return;
+    }
+    const isAuthor = existing.user_id === req.user!.userId;
+    if (!isAuthor && req.projectRole !== ProjectRole.MANAGER) {
+      sendError(res, 403, 'FORBIDDEN', 'Only the author or a project manager can delete a comment');
+      return;
+    }
+
+    await commentModel.softDeleteComment(existing.id, req.user!.userId);
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: isAuthor ? 'comment.deleted' : 'comment.moderated',
+      resourceType: 'task_comment',
+      resourceId: existing.id,
+      metadata: { taskId: task.id, authorId: existing.user_id },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    publishEvent({
+      type: 'comment.deleted',
+      organizationId: req.user!.organizationId,
+      projectId: task.project_id,
+      data: { taskId: task.id, commentId: existing.id },
+    });
+
+    sendSuccess(res, { message: 'Comment deleted' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/v1/projects/:projectId/tasks/:taskId/comments/:commentId/edits — edit history
+router.get('/:commentId/edits', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const comment = await commentModel.findCommentById(param(req.params.commentId), task.id);
+    if (!comment || comment.deleted_at) {
+      sendError(res, 404, 'NOT_FOUND', 'Comment not found');
+      return;
+    }
+
+    const edits = await commentModel.findCommentEdits(comment.id);
+    sendSuccess(res, { edits });
   } catch (err) {
     next(err);
   }
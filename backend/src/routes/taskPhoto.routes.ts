@@ -1,38 +1,33 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
 import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/projectAccess';
 import { validate } from '../middleware/validate';
+import { idempotency } from '../middleware/idempotency';
 import { uploadLimiter } from '../middleware/rateLimiter';
 import { sendSuccess, sendError } from '../utils/response';
 import { logAuditAction } from '../services/audit.service';
+import { publishEvent } from '../services/realtime.service';
 import { requestPhotoUploadSchema } from '../validators/upload.validators';
 import * as taskPhotoModel from '../models/taskPhoto.model';
 import * as taskModel from '../models/task.model';
-import * as projectModel from '../models/project.model';
 import * as storageService from '../services/storage.service';
 import * as storageTracking from '../services/storageTracking.service';
 import * as thumbnailService from '../services/thumbnail.service';
+import * as taskHistoryService from '../services/taskHistory.service';
 import { param } from '../utils/params';
 
 const router = Router({ mergeParams: true });
 
 // All photo routes require authentication
 router.use(authenticate);
+router.use(requireProjectAccess);
 
-// Helper: verify project and task access
+// Helper: verify the task belongs to the project
 async function verifyTaskAccess(
   req: Request,
   res: Response,
 ): Promise<boolean> {
-  const project = await projectModel.findProjectById(
-    param(req.params.projectId),
-    req.user!.organizationId,
-  );
-  if (!project) {
-    sendError(res, 404, 'NOT_FOUND', 'Project not found');
-    return false;
-  }
-
   const task = await taskModel.findTaskById(
     param(req.params.taskId),
     req.user!.organizationId,
@@ -76,6 +71,7 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
 router.post(
   '/upload-url',
   uploadLimiter,
+  idempotency,
   validate(requestPhotoUploadSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -136,6 +132,7 @@ router.post(
 // POST /api/v1/projects/:projectId/tasks/:taskId/photos/:photoId/confirm — confirm upload
 router.post(
   '/:photoId/confirm',
+  idempotency,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!(await verifyTaskAccess(req, res))) return;
@@ -181,6 +178,13 @@ router.post(
         fileSize,
       );
 
+      await taskHistoryService.recordTaskEvent(
+        photo.task_id,
+        'photo',
+        { newValue: { id: photo.id, caption: photo.caption } },
+        { userId: req.user!.userId },
+      );
+
       logAuditAction({
         organizationId: req.user!.organizationId,
         userId: req.user!.userId,
@@ -191,6 +195,13 @@ router.post(
         ipAddress: (req.ip as string || ''),
       });
 
+      publishEvent({
+        type: 'photo.confirmed',
+        organizationId: req.user!.organizationId,
+        projectId: param(req.params.projectId),
+        data: { taskId: param(req.params.taskId), photoId: photo.id },
+      });
+
       sendSuccess(res, { photo: updated });
     } catch (err) {
       next(err);
@@ -234,6 +245,13 @@ router.delete(
         photo.file_size_bytes,
       );
 
+      await taskHistoryService.recordTaskEvent(
+        photo.task_id,
+        'photo',
+        { oldValue: { id: photo.id, caption: photo.caption } },
+        { userId: req.user!.userId },
+      );
+
       logAuditAction({
         organizationId: req.user!.organizationId,
         userId: req.user!.userId,
@@ -244,6 +262,13 @@ router.delete(
         ipAddress: (req.ip as string || ''),
       });
 
+      publishEvent({
+        type: 'photo.deleted',
+        organizationId: req.user!.organizationId,
+        projectId: param(req.params.projectId),
+        data: { taskId: param(req.params.taskId), photoId: photo.id },
+      });
+
       sendSuccess(res, { message: 'Photo deleted' });
     } catch (err) {
       next(err);
@@ -1,31 +1,24 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/projectAccess';
 import { validate } from '../middleware/validate';
 import { sendSuccess, sendError } from '../utils/response';
 import { logAuditAction } from '../services/audit.service';
 import { addProductToTaskSchema } from '../validators/product.validators';
 import * as productModel from '../models/product.model';
 import * as taskModel from '../models/task.model';
-import * as projectModel from '../models/project.model';
 import * as storageService from '../services/storage.service';
+import * as taskHistoryService from '../services/taskHistory.service';
 import { param } from '../utils/params';
 
 const router = Router({ mergeParams: true });
 
 // All routes require authentication
 router.use(authenticate);
+router.use(requireProjectAccess);
 
-// Helper: verify project and task access
+// Helper: verify the task belongs to the project
 async function verifyTaskAccess(req: Request, res: Response): Promise<boolean> {
-  const project = await projectModel.findProjectById(
-    param(req.params.projectId),
-    req.user!.organizationId,
-  );
-  if (!project) {
-    sendError(res, 404, 'NOT_FOUND', 'Project not found');
-    return false;
-  }
-
   const task = await taskModel.findTaskById(
     param(req.params.taskId),
     req.user!.organizationId,
@@ -92,6 +85,13 @@ router.post(
           req.user!.userId,
         );
 
+        await taskHistoryService.recordTaskEvent(
+          param(req.params.taskId),
+          'product',
+          { newValue: { id: product.id, name: product.name } },
+          { userId: req.user!.userId },
+        );
+
         logAuditAction({
           organizationId: req.user!.organizationId,
           userId: req.user!.userId,
@@ -134,6 +134,14 @@ router.delete(
         return;
       }
 
+      const product = await productModel.findProductById(param(req.params.productId), req.user!.organizationId);
+      await taskHistoryService.recordTaskEvent(
+        param(req.params.taskId),
+        'product',
+        { oldValue: { id: param(req.params.productId), name: product?.name ?? null } },
+        { userId: req.user!.userId },
+      );
+
       logAuditAction({
         organizationId: req.user!.organizationId,
         userId: req.user!.userId,
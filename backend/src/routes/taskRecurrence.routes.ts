@@ -0,0 +1,210 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess, requireProjectRole } from '../middleware/projectAccess';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import {
+  createTaskRecurrenceSchema, updateTaskRecurrenceSchema, previewTaskRecurrenceSchema,
+} from '../validators/taskRecurrence.validators';
+import * as taskRecurrenceModel from '../models/taskRecurrence.model';
+import * as taskTemplateModel from '../models/taskTemplate.model';
+import * as projectMemberModel from '../models/projectMember.model';
+import * as taskRecurrenceService from '../services/taskRecurrence.service';
+import { logAuditAction } from '../services/audit.service';
+import { ProjectRole } from '../types';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+const PREVIEW_OCCURRENCES = 5;
+const LISTED_OCCURRENCES = 3;
+
+// Every member sees the recurrences; project managers set them up
+router.use(authenticate);
+router.use(requireProjectAccess);
+
+function withUpcoming(recurrence: taskRecurrenceModel.TaskRecurrenceWithDetails) {
+  const parsed = taskRecurrenceService.parseRule(recurrence.rule);
+  const upcoming = recurrence.is_active && recurrence.next_occurrence_on && 'rule' in parsed
+    ? taskRecurrenceService.upcomingOccurrences(
+      parsed.rule, recurrence.starts_on, recurrence.next_occurrence_on, LISTED_OCCURRENCES, recurrence.occurrence_count,
+    )
+    : [];
+  return { ...recurrence, upcoming_occurrences: upcoming };
+}
+
+// Helper: checks the rule, template and assignee of a new or changed recurrence and works out
+// its next occurrence. Sends the error response and returns undefined when they are unusable.
+async function resolveSchedule(
+  req: Request,
+  res: Response,
+  current?: taskRecurrenceModel.TaskRecurrenceRow,
+): Promise<{ nextOccurrenceOn: string | null } | undefined> {
+  const ruleText: string = req.body.rule ?? current!.rule;
+  const parsed = taskRecurrenceService.parseRule(ruleText);
+  if ('error' in parsed) {
+    sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { rule: parsed.error });
+    return undefined;
+  }
+
+  if (req.body.templateId
+    && !(await taskTemplateModel.findTemplateById(req.body.templateId, req.user!.organizationId))) {
+    sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { templateId: 'Task template not found' });
+    return undefined;
+  }
+
+  if (req.body.assignedToUser
+    && !(await projectMemberModel.findMember(param(req.params.projectId), req.body.assignedToUser))) {
+    sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { assignedToUser: 'User is not a member of this project' });
+    return undefined;
+  }
+
+  // Counted from today: occurrences before a recurrence is set up or resumed are not created
+  const { rule } = parsed;
+  const occurrenceCount = current?.occurrence_count ?? 0;
+  const nextOccurrenceOn = rule.count !== null && occurrenceCount >= rule.count
+    ? null
+    : taskRecurrenceService.nextOccurrence(rule, req.body.startsOn ?? current!.starts_on, taskRecurrenceService.localDay());
+  return { nextOccurrenceOn };
+}
+
+// GET /api/v1/projects/:projectId/recurrences — recurring tasks of the project with their next dates
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const recurrences = await taskRecurrenceModel.findRecurrencesByProject(param(req.params.projectId));
+    sendSuccess(res, { recurrences: recurrences.map(withUpcoming) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/recurrences/preview — the next dates of a rule before saving it
+router.post(
+  '/preview',
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(previewTaskRecurrenceSchema),
+  (req: Request, res: Response) => {
+    const parsed = taskRecurrenceService.parseRule(req.body.rule);
+    if ('error' in parsed) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { rule: parsed.error });
+      return;
+    }
+    const occurrences = taskRecurrenceService.upcomingOccurrences(
+      parsed.rule, req.body.startsOn, taskRecurrenceService.localDay(), PREVIEW_OCCURRENCES,
+    );
+    sendSuccess(res, { occurrences });
+  },
+);
+
+// POST /api/v1/projects/:projectId/recurrences — create recurrence
+router.post(
+  '/',
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(createTaskRecurrenceSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const schedule = await resolveSchedule(req, res);
+      if (!schedule) return;
+
+      const recurrence = await taskRecurrenceModel.createRecurrence({
+        projectId: param(req.params.projectId),
+        templateId: req.body.templateId,
+        rule: req.body.rule.trim(),
+        startsOn: req.body.startsOn,
+        nextOccurrenceOn: schedule.nextOccurrenceOn,
+        assignedToUser: req.body.assignedToUser,
+        skipIfOpen: req.body.skipIfOpen,
+        createdBy: req.user!.userId,
+      });
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'task_recurrence.created',
+        resourceType: 'task_recurrence',
+        resourceId: recurrence.id,
+        metadata: { projectId: recurrence.project_id, templateId: recurrence.template_id, rule: recurrence.rule },
+        ipAddress: (req.ip as string) || '',
+      });
+
+      sendSuccess(res, { recurrence: withUpcoming(recurrence) }, 201);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/v1/projects/:projectId/recurrences/:recurrenceId — update, pause or resume recurrence
+router.patch(
+  '/:recurrenceId',
+  requireProjectRole(ProjectRole.MANAGER),
+  validate(updateTaskRecurrenceSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = param(req.params.projectId);
+      const existing = await taskRecurrenceModel.findRecurrenceById(param(req.params.recurrenceId), projectId);
+      if (!existing) {
+        sendError(res, 404, 'NOT_FOUND', 'Recurrence not found');
+        return;
+      }
+
+      const schedule = await resolveSchedule(req, res, existing);
+      if (!schedule) return;
+
+      // A changed schedule, or resuming, starts over from today
+      const reschedule = req.body.rule !== undefined || req.body.startsOn !== undefined
+        || (req.body.isActive === true && !existing.is_active);
+      const recurrence = await taskRecurrenceModel.updateRecurrence(existing.id, projectId, {
+        ...req.body,
+        rule: req.body.rule?.trim(),
+        nextOccurrenceOn: reschedule ? schedule.nextOccurrenceOn : undefined,
+      });
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'task_recurrence.updated',
+        resourceType: 'task_recurrence',
+        resourceId: existing.id,
+        metadata: { projectId, updates: Object.keys(req.body) },
+        ipAddress: (req.ip as string) || '',
+      });
+
+      sendSuccess(res, { recurrence: recurrence && withUpcoming(recurrence) });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/v1/projects/:projectId/recurrences/:recurrenceId — tasks already created are kept
+router.delete(
+  '/:recurrenceId',
+  requireProjectRole(ProjectRole.MANAGER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = param(req.params.projectId);
+      const deleted = await taskRecurrenceModel.deleteRecurrence(param(req.params.recurrenceId), projectId);
+      if (!deleted) {
+        sendError(res, 404, 'NOT_FOUND', 'Recurrence not found');
+        return;
+      }
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'task_recurrence.deleted',
+        resourceType: 'task_recurrence',
+        resourceId: param(req.params.recurrenceId),
+        metadata: { projectId },
+        ipAddress: (req.ip as string) || '',
+      });
+
+      sendSuccess(res, { message: 'Recurrence deleted' });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,136 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/projectAccess';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { createTaskRelationSchema } from '../validators/taskRelation.validators';
+import * as taskModel from '../models/task.model';
+import * as taskRelationModel from '../models/taskRelation.model';
+import * as taskRelationService from '../services/taskRelation.service';
+import { logAuditAction } from '../services/audit.service';
+import { publishEvent } from '../services/realtime.service';
+import { param } from '../utils/params';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticate);
+router.use(requireProjectAccess);
+
+// Helper: load the task, answering 404 when it is not in the project
+async function findTask(req: Request, res: Response): Promise<taskModel.TaskWithCounts | null> {
+  const task = await taskModel.findTaskById(param(req.params.taskId), req.user!.organizationId);
+  if (!task || task.project_id !== param(req.params.projectId)) {
+    sendError(res, 404, 'NOT_FOUND', 'Task not found');
+    return null;
+  }
+  return task;
+}
+
+// Both ends of a relation show it, so both tasks are refreshed
+function publishRelationChange(organizationId: string, relation: taskRelationModel.TaskRelationRow): void {
+  for (const taskId of [relation.source_task_id, relation.target_task_id]) {
+    publishEvent({ type: 'task.updated', organizationId, projectId: relation.project_id, data: { taskId } });
+  }
+}
+
+// GET /api/v1/projects/:projectId/tasks/:taskId/relations
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const relations = await taskRelationModel.findRelationsByTask(task.id);
+    sendSuccess(res, { relations: relations.map(taskRelationService.withViewType) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/projects/:projectId/tasks/:taskId/relations — link another task of the project
+router.post('/', validate(createTaskRelationSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const relatedTask = await taskModel.findTaskById(req.body.taskId, req.user!.organizationId);
+    if (!relatedTask || relatedTask.project_id !== task.project_id) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { taskId: 'Task is not in this project' });
+      return;
+    }
+    if (relatedTask.id === task.id) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Invalid request data', { taskId: 'A task cannot be related to itself' });
+      return;
+    }
+
+    const stored = taskRelationService.toStoredRelation(task.id, relatedTask.id, req.body.type);
+
+    if (await taskRelationModel.findExistingRelation(stored.sourceTaskId, stored.targetTaskId, stored.relationType)) {
+      sendError(res, 409, 'CONFLICT', 'These tasks are already related this way');
+      return;
+    }
+    if (stored.relationType === 'blocks'
+      && await taskRelationModel.wouldCreateBlockCycle(stored.sourceTaskId, stored.targetTaskId)) {
+      sendError(res, 400, 'RELATION_CYCLE', 'This would make the tasks block each other');
+      return;
+    }
+
+    const relation = await taskRelationModel.createRelation({
+      projectId: task.project_id,
+      ...stored,
+      createdBy: req.user!.userId,
+    });
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'task.relation_added',
+      resourceType: 'task',
+      resourceId: task.id,
+      metadata: { projectId: task.project_id, type: req.body.type, relatedTaskId: relatedTask.id },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    publishRelationChange(req.user!.organizationId, relation);
+
+    sendSuccess(res, { relation }, 201);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/v1/projects/:projectId/tasks/:taskId/relations/:relationId
+router.delete('/:relationId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await findTask(req, res);
+    if (!task) return;
+
+    const relation = await taskRelationModel.deleteRelation(param(req.params.relationId), task.id);
+    if (!relation) {
+      sendError(res, 404, 'NOT_FOUND', 'Relation not found');
+      return;
+    }
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'task.relation_removed',
+      resourceType: 'task',
+      resourceId: task.id,
+      metadata: {
+        projectId: task.project_id,
+        type: relation.relation_type,
+        sourceTaskId: relation.source_task_id,
+        targetTaskId: relation.target_task_id,
+      },
+      ipAddress: (req.ip as string || ''),
+    });
+
+    publishRelationChange(req.user!.organizationId, relation);
+
+    sendSuccess(res, { message: 'Relation removed' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import { normalizeChecklistItems } from '../services/taskTemplate.service';
+import { validateCustomFields } from '../services/customFieldValidation.service';
+import { UserRole } from '../types';
+import { createTaskTemplateSchema, updateTaskTemplateSchema } from '../validators/taskTemplate.validators';
+import * as taskTemplateModel from '../models/taskTemplate.model';
+import { param } from '../utils/params';
+
+// Helper: template custom fields must be valid task custom fields, though required ones
+// may be left for the task. Sends the error response and returns false when they are not.
+async function sanitizeTemplateFields(req: Request, res: Response): Promise<boolean> {
+  if (req.body.customFields) {
+    const cfResult = await validateCustomFields(req.user!.organizationId, 'task', req.body.customFields);
+    const errors = Object.fromEntries(
+      Object.entries(cfResult.errors).filter(([key]) => key in req.body.customFields),
+    );
+    if (Object.keys(errors).length > 0) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Custom field validation failed', { customFieldErrors: errors });
+      return false;
+    }
+    req.body.customFields = cfResult.sanitized;
+  }
+  if (req.body.checklistItems) {
+    req.body.checklistItems = normalizeChecklistItems(req.body.checklistItems);
+  }
+  if (typeof req.body.trade === 'string') {
+    req.body.trade = req.body.trade.trim() || null;
+  }
+  return true;
+}
+
+// Admin router — full CRUD, restricted to admins
+export const adminRouter = Router();
+adminRouter.use(authenticate);
+adminRouter.use(authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN));
+
+// GET /api/v1/admin/task-templates
+adminRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const templates = await taskTemplateModel.findTemplatesByOrganization(req.user!.organizationId);
+    sendSuccess(res, { templates });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/v1/admin/task-templates
+adminRouter.post('/', validate(createTaskTemplateSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await sanitizeTemplateFields(req, res))) return;
+
+    const template = await taskTemplateModel.createTemplate({
+      organizationId: req.user!.organizationId,
+      name: req.body.name,
+      title: req.body.title,
+      description: req.body.description,
+      trade: req.body.trade,
+      priority: req.body.priority,
+      customFields: req.body.customFields,
+      checklistItems: req.body.checklistItems,
+      productIds: req.body.productIds,
+      createdBy: req.user!.userId,
+    });
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'task_template.created',
+      resourceType: 'task_template',
+      resourceId: template.id,
+      metadata: { name: template.name, trade: template.trade },
+      ipAddress: (req.ip as string) || '',
+    });
+
+    sendSuccess(res, { template }, 201);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /api/v1/admin/task-templates/:templateId
+adminRouter.patch(
+  '/:templateId',
+  validate(updateTaskTemplateSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!(await sanitizeTemplateFields(req, res))) return;
+
+      const template = await taskTemplateModel.updateTemplate(
+        param(req.params.templateId),
+        req.user!.organizationId,
+        req.body,
+      );
+      if (!template) {
+        sendError(res, 404, 'NOT_FOUND', 'Task template not found');
+        return;
+      }
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'task_template.updated',
+        resourceType: 'task_template',
+        resourceId: template.id,
+        metadata: { updates: Object.keys(req.body) },
+        ipAddress: (req.ip as string) || '',
+      });
+
+      sendSuccess(res, { template });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/v1/admin/task-templates/:templateId — tasks keep their checklists; recurrences using it go
+adminRouter.delete('/:templateId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const deleted = await taskTemplateModel.deleteTemplate(param(req.params.templateId), req.user!.organizationId);
+    if (!deleted) {
+      sendError(res, 404, 'NOT_FOUND', 'Task template not found');
+      return;
+    }
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'task_template.deleted',
+      resourceType: 'task_template',
+      resourceId: param(req.params.templateId),
+      ipAddress: (req.ip as string) || '',
+    });
+
+    sendSuccess(res, { message: 'Task template deleted' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Public router — any authenticated user picks templates when creating tasks
+export const publicRouter = Router();
+publicRouter.use(authenticate);
+
+// GET /api/v1/task-templates?trade=Electrical
+publicRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const trade = typeof req.query.trade === 'string' && req.query.trade ? req.query.trade : undefined;
+    const templates = await taskTemplateModel.findTemplatesByOrganization(req.user!.organizationId, trade);
+    sendSuccess(res, { templates });
+  } catch (err) {
+    next(err);
+  }
+});
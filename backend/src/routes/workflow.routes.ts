@@ -0,0 +1,125 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import { validate } from '../middleware/validate';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAuditAction } from '../services/audit.service';
+import * as workflowService from '../services/workflow.service';
+import { UserRole } from '../types';
+import { updateWorkflowSchema } from '../validators/workflow.validators';
+import * as workflowModel from '../models/workflow.model';
+
+// Admin router — replace the organisation's workflow, restricted to admins
+export const adminRouter = Router();
+adminRouter.use(authenticate);
+adminRouter.use(authorize(UserRole.SUPER_ADMIN, UserRole.ORG_ADMIN));
+
+// GET /api/v1/admin/workflow — workflow with the number of tasks in each status
+adminRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workflow = await workflowService.getWorkflow(req.user!.organizationId);
+    const taskCounts = await workflowModel.countTasksByStatus(req.user!.organizationId);
+
+    sendSuccess(res, { workflow, taskCounts });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/v1/admin/workflow — replace statuses and transitions
+adminRouter.put(
+  '/',
+  validate(updateWorkflowSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Parse again to fill in the flag defaults; validate() only checks the body
+      const { statuses, transitions } = updateWorkflowSchema.parse(req.body);
+
+      const problems = workflowService.validateWorkflowDefinition(statuses, transitions);
+      if (problems.length > 0) {
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid workflow definition', { workflowErrors: problems });
+        return;
+      }
+
+      // Statuses still used by tasks cannot be removed
+      const taskCounts = await workflowModel.countTasksByStatus(req.user!.organizationId);
+      const keys = new Set(statuses.map((s) => s.key));
+      const inUse = Object.keys(taskCounts).filter((key) => !keys.has(key));
+      if (inUse.length > 0) {
+        sendError(
+          res,
+          409,
+          'STATUS_IN_USE',
+          `Statuses still used by tasks cannot be removed: ${inUse.join(', ')}`,
+          { statusesInUse: inUse.map((key) => ({ status: key, taskCount: taskCounts[key] })) },
+        );
+        return;
+      }
+
+      await workflowModel.replaceWorkflow(req.user!.organizationId, statuses, transitions);
+      const workflow = await workflowService.getWorkflow(req.user!.organizationId);
+
+      logAuditAction({
+        organizationId: req.user!.organizationId,
+        userId: req.user!.userId,
+        action: 'workflow.updated',
+        resourceType: 'workflow',
+        resourceId: req.user!.organizationId,
+        metadata: { statusCount: statuses.length, transitionCount: transitions.length },
+        ipAddress: (req.ip as string) || '',
+      });
+
+      sendSuccess(res, { workflow });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/v1/admin/workflow — go back to the built-in workflow
+adminRouter.delete('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const taskCounts = await workflowModel.countTasksByStatus(req.user!.organizationId);
+    const defaultKeys = new Set(workflowService.DEFAULT_WORKFLOW.statuses.map((s) => s.key));
+    const inUse = Object.keys(taskCounts).filter((key) => !defaultKeys.has(key));
+    if (inUse.length > 0) {
+      sendError(
+        res,
+        409,
+        'STATUS_IN_USE',
+        `Move tasks out of these statuses before resetting the workflow: ${inUse.join(', ')}`,
+        { statusesInUse: inUse.map((key) => ({ status: key, taskCount: taskCounts[key] })) },
+      );
+      return;
+    }
+
+    await workflowModel.replaceWorkflow(req.user!.organizationId, [], []);
+
+    logAuditAction({
+      organizationId: req.user!.organizationId,
+      userId: req.user!.userId,
+      action: 'workflow.reset',
+      resourceType: 'workflow',
+      resourceId: req.user!.organizationId,
+      ipAddress: (req.ip as string) || '',
+    });
+
+    sendSuccess(res, { workflow: workflowService.DEFAULT_WORKFLOW });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Public router — workflow for rendering statuses and transitions, any authenticated user
+export const publicRouter = Router();
+publicRouter.use(authenticate);
+
+// GET /api/v1/workflow
+publicRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workflow = await workflowService.getWorkflow(req.user!.organizationId);
+    sendSuccess(res, { workflow });
+  } catch (err) {
+    next(err);
+  }
+});
@@ -7,9 +7,13 @@ import cron, { ScheduledTask } from 'node-cron';
 import { containerClient } from '../config/azure-storage';
 import config from '../config';
 import { logger } from '../utils/logger';
+import { UserRole } from '../types';
 import * as backupModel from '../models/backup.model';
+import * as userModel from '../models/user.model';
 import { buildS3Key, generatePresignedDownloadUrl, deleteObject, readFile } from './storage.service';
 import { logAuditAction } from './audit.service';
+import { publishEvent } from './realtime.service';
+import { notify } from './notification.service';
 
 const scheduledJobs = new Map<string, ScheduledTask>();
 
@@ -45,6 +49,14 @@ export async function startBackup(params: BackupParams): Promise<string> {
     initiatedBy: params.initiatedBy,
   });
 
+  const notifyStatus = (status: string) => publishEvent({
+    type: 'backup.status_changed',
+    organizationId: params.organizationId,
+    adminOnly: true,
+    data: { backupId: backup.id, status },
+  });
+  notifyStatus('in_progress');
+
   setImmediate(async () => {
     try {
       const db = parseDatabaseUrl(config.db.url);
@@ -111,6 +123,7 @@ export async function startBackup(params: BackupParams): Promise<string> {
       }
 
       await backupModel.updateBackupCompleted(backup.id, s3Key, finalSize);
+      notifyStatus('completed');
 
       logAuditAction({
         organizationId: params.organizationId,
@@ -129,6 +142,20 @@ export async function startBackup(params: BackupParams): Promise<string> {
     } catch (err) {
       logger.error({ err, backupId: backup.id }, 'Backup failed');
       await backupModel.updateBackupFailed(backup.id, (err as Error).message);
+      notifyStatus('failed');
+
+      const { users: admins } = await userModel.findUsersByOrganization(params.organizationId, {
+        role: UserRole.ORG_ADMIN,
+        isActive: true,
+      });
+      notify({
+        type: 'backup_failed',
+        organizationId: params.organizationId,
+        recipientIds: admins.map((admin) => admin.id),
+        title: `Backup failed: ${params.name}`,
+        body: (err as Error).message.slice(0, 500),
+        link: '/admin/backups',
+      });
     }
   });
 
@@ -0,0 +1,120 @@
+import sharp from 'sharp';
+import * as blueprintModel from '../models/blueprint.model';
+import * as blueprintRevisionModel from '../models/blueprintRevision.model';
+import * as blueprintComparisonModel from '../models/blueprintComparison.model';
+import * as storageService from './storage.service';
+import { logger } from '../utils/logger';
+
+// Longest side of a generated diff image, in pixels
+const MAX_DIFF_SIZE = 4096;
+// Grey levels darker than this count as drawn
+const INK_THRESHOLD = 160;
+
+// Same colours as the compare overlay in the frontend
+const REMOVED = [220, 38, 38]; // only on the old revision: red
+const ADDED = [37, 99, 235]; // only on the new revision: blue
+const UNCHANGED = [156, 163, 175]; // on both: grey
+const BLANK = [255, 255, 255];
+
+export interface RasterDiff {
+  /** RGB pixels of the diff image */
+  pixels: Buffer;
+  /** Pixels drawn on only one of the two revisions */
+  changed: number;
+  /** Pixels drawn on either revision */
+  inked: number;
+}
+
+/** Only raster blueprints can be compared on the server; PDFs are compared in the browser. */
+export function isComparable(revision: Pick<blueprintRevisionModel.BlueprintRevisionRow, 'mime_type'>): boolean {
+  return revision.mime_type.startsWith('image/');
+}
+
+/** Colour each pixel by whether it is drawn on the old revision, the new one or both. */
+export function diffRaster(oldGrey: Uint8Array, newGrey: Uint8Array): RasterDiff {
+  const pixels = Buffer.alloc(newGrey.length * 3);
+  let changed = 0;
+  let inked = 0;
+  for (let i = 0; i < newGrey.length; i++) {
+    const inOld = oldGrey[i] < INK_THRESHOLD;
+    const inNew = newGrey[i] < INK_THRESHOLD;
+    const color = inOld && inNew ? UNCHANGED : inOld ? REMOVED : inNew ? ADDED : BLANK;
+    if (inOld || inNew) inked++;
+    if (inOld !== inNew) changed++;
+    pixels[i * 3] = color[0];
+    pixels[i * 3 + 1] = color[1];
+    pixels[i * 3 + 2] = color[2];
+  }
+  return { pixels, changed, inked };
+}
+
+/**
+ * Render the diff of two images as a PNG the size of the new one, scaled down
+ * to at most MAX_DIFF_SIZE. The old image is stretched to the same size.
+ */
+export async function renderComparison(
+  oldImage: Buffer,
+  newImage: Buffer,
+): Promise<{ png: Buffer; width: number; height: number; changedRatio: number }> {
+  const meta = await sharp(newImage).metadata();
+  if (!meta.width || !meta.height) {
+    throw new Error('Unable to read image dimensions');
+  }
+  const scale = Math.min(1, MAX_DIFF_SIZE / Math.max(meta.width, meta.height));
+  const width = Math.max(1, Math.round(meta.width * scale));
+  const height = Math.max(1, Math.round(meta.height * scale));
+
+  const toGrey = (image: Buffer) => sharp(image)
+    .flatten({ background: '#ffffff' })
+    .resize(width, height, { fit: 'fill' })
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer();
+  const [oldGrey, newGrey] = await Promise.all([toGrey(oldImage), toGrey(newImage)]);
+
+  const diff = diffRaster(oldGrey, newGrey);
+  const png = await sharp(diff.pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+  return { png, width, height, changedRatio: diff.inked > 0 ? diff.changed / diff.inked : 0 };
+}
+
+/**
+ * The stored diff image between two revisions, generated on first request.
+ * It is kept next to the new revision's file, which the blueprint's deletion
+ * cleans up.
+ */
+export async function compareRevisions(
+  blueprint: blueprintModel.BlueprintRow,
+  from: blueprintRevisionModel.BlueprintRevisionRow,
+  to: blueprintRevisionModel.BlueprintRevisionRow,
+  actor: { userId: string; organizationId: string },
+): Promise<blueprintComparisonModel.BlueprintComparisonRow> {
+  const existing = await blueprintComparisonModel.findComparison(blueprint.id, from.id, to.id);
+  if (existing) return existing;
+
+  const [oldImage, newImage] = await Promise.all([
+    storageService.readFile(from.file_url),
+    storageService.readFile(to.file_url),
+  ]);
+  const result = await renderComparison(oldImage, newImage);
+
+  const key = storageService.buildS3Key(
+    'blueprints',
+    actor.organizationId,
+    blueprint.project_id,
+    to.id,
+    `diff_${from.id}.png`,
+  );
+  await storageService.writeFile(key, result.png, 'image/png');
+  logger.debug({ blueprintId: blueprint.id, from: from.id, to: to.id, key }, 'Blueprint comparison generated');
+
+  return blueprintComparisonModel.createComparison({
+    blueprintId: blueprint.id,
+    fromRevisionId: from.id,
+    toRevisionId: to.id,
+    fileUrl: key,
+    width: result.width,
+    height: result.height,
+    changedRatio: result.changedRatio,
+    createdBy: actor.userId,
+  });
+}
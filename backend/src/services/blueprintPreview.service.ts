@@ -0,0 +1,170 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { logger } from '../utils/logger';
+import { runPoppler } from '../utils/poppler';
+import * as blueprintModel from '../models/blueprint.model';
+import * as blueprintRevisionModel from '../models/blueprintRevision.model';
+import * as blueprintPreviewModel from '../models/blueprintPreview.model';
+import * as storageService from './storage.service';
+import * as thumbnailService from './thumbnail.service';
+import { publishEvent } from './realtime.service';
+
+// Longest side of the large preview, enough to read a sheet on a tablet
+const LARGE_PREVIEW_SIZE = 1600;
+// Longest side of the small preview, shown while the large one loads
+const SMALL_PREVIEW_SIZE = 480;
+const PREVIEW_QUALITY = 80;
+// Pages beyond this are only shown from the PDF itself
+const MAX_PREVIEW_PAGES = 200;
+// A PDF that takes longer than this to rasterise is given up on
+const RENDER_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Only PDF revisions are rasterised; image blueprints are shown as they are. */
+export function hasPagePreviews(revision: Pick<blueprintRevisionModel.BlueprintRevisionRow, 'mime_type'>): boolean {
+  return revision.mime_type === 'application/pdf';
+}
+
+/** Storage key of a page preview, next to the revision's file. */
+export function previewKey(fileUrl: string, page: number, size: blueprintPreviewModel.PreviewSize): string {
+  return `${path.posix.dirname(fileUrl)}/preview_${size}_p${page}.jpg`;
+}
+
+/**
+ * Rasterise the PDF's pages with poppler's pdftoppm as JPEGs whose longest side
+ * is LARGE_PREVIEW_SIZE. Returns them in page order.
+ */
+export async function rasterisePdf(pdf: Buffer): Promise<Buffer[]> {
+  return runPoppler('pdftoppm', pdf, {
+    args: (input, dir) => [
+      '-jpeg', '-jpegopt', `quality=${PREVIEW_QUALITY}`,
+      '-scale-to', String(LARGE_PREVIEW_SIZE),
+      '-l', String(MAX_PREVIEW_PAGES),
+      input, path.join(dir, 'page'),
+    ],
+    timeoutMs: RENDER_TIMEOUT_MS,
+    read: async ({ dir }) => {
+      // Output is named page-1.jpg, or zero-padded to the page count: page-01.jpg
+      const pages = (await fs.readdir(dir))
+        .map((name) => ({ name, match: name.match(/^page-(\d+)\.jpg$/) }))
+        .filter((file) => file.match)
+        .sort((a, b) => parseInt(a.match![1], 10) - parseInt(b.match![1], 10));
+      return Promise.all(pages.map((file) => fs.readFile(path.join(dir, file.name))));
+    },
+  });
+}
+
+async function storePreview(
+  revision: blueprintRevisionModel.BlueprintRevisionRow,
+  page: number,
+  size: blueprintPreviewModel.PreviewSize,
+  image: Buffer,
+): Promise<blueprintPreviewModel.BlueprintPagePreviewRow> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error(`Unable to read preview dimensions of page ${page}`);
+  }
+  const key = previewKey(revision.file_url, page, size);
+  await storageService.writeFile(key, image, 'image/jpeg');
+  return blueprintPreviewModel.upsertPreview({ revisionId: revision.id, page, size, fileUrl: key, width, height });
+}
+
+/**
+ * Render and store a small and a large preview of every page, and the
+ * thumbnail from the first page. Rendering again replaces what is there.
+ */
+export async function renderPreviews(revision: blueprintRevisionModel.BlueprintRevisionRow): Promise<void> {
+  const pages = await rasterisePdf(await storageService.readFile(revision.file_url));
+  if (pages.length === 0) {
+    throw new Error('pdftoppm rendered no pages');
+  }
+
+  let firstPage: blueprintPreviewModel.BlueprintPagePreviewRow | null = null;
+  for (const [index, large] of pages.entries()) {
+    const small = await sharp(large)
+      .resize(SMALL_PREVIEW_SIZE, SMALL_PREVIEW_SIZE, { fit: 'inside' })
+      .jpeg({ quality: PREVIEW_QUALITY })
+      .toBuffer();
+    const stored = await storePreview(revision, index + 1, 'large', large);
+    await storePreview(revision, index + 1, 'small', small);
+    if (index === 0) firstPage = stored;
+  }
+
+  // The PDF may have been replaced by one with fewer pages
+  for (const stale of await blueprintPreviewModel.deletePreviewsAfterPage(revision.id, pages.length)) {
+    try {
+      await storageService.deleteObject(stale.file_url);
+    } catch {
+      // Storage deletion failure is non-fatal
+    }
+  }
+
+  let thumbnailUrl: string | null = null;
+  try {
+    thumbnailUrl = await thumbnailService.generateThumbnail(firstPage!.file_url, 'blueprint');
+  } catch {
+    // Thumbnail generation failure is non-fatal
+  }
+
+  const updated = await blueprintRevisionModel.setPreviewsReady(revision.id, {
+    thumbnailUrl,
+    widthPixels: firstPage!.width,
+    heightPixels: firstPage!.height,
+  });
+  if (updated) {
+    await blueprintModel.syncCurrentRevision(updated);
+  }
+}
+
+// Renders run one after another so a large drawing set cannot starve the API
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Render the revision's previews in the background. Project members are told
+ * when they are ready, or that rendering failed.
+ */
+export function queuePreviews(
+  revision: blueprintRevisionModel.BlueprintRevisionRow,
+  target: { organizationId: string; projectId: string },
+): void {
+  const notifyStatus = (status: blueprintRevisionModel.PreviewStatus) => publishEvent({
+    type: 'blueprint.previews_changed',
+    organizationId: target.organizationId,
+    projectId: target.projectId,
+    data: { blueprintId: revision.blueprint_id, revisionId: revision.id, status },
+  });
+
+  queue = queue.then(async () => {
+    try {
+      await renderPreviews(revision);
+      logger.info({ revisionId: revision.id }, 'Blueprint previews rendered');
+      notifyStatus('ready');
+    } catch (err) {
+      logger.error({ err, revisionId: revision.id }, 'Failed to render blueprint previews');
+      try {
+        await blueprintRevisionModel.setPreviewStatus(revision.id, 'failed');
+      } catch (statusErr) {
+        // Never reject, or the renders queued after this one would not run
+        logger.error({ err: statusErr, revisionId: revision.id }, 'Failed to mark blueprint previews as failed');
+      }
+      notifyStatus('failed');
+    }
+  });
+}
+
+/**
+ * The render queue only lives in memory, so renders that were waiting or running
+ * when the server stopped are queued again on startup. Rendering again replaces
+ * whatever previews a render left behind.
+ */
+export async function resumePendingPreviews(): Promise<void> {
+  try {
+    const revisions = await blueprintRevisionModel.findRevisionsWithPendingPreviews();
+    for (const revision of revisions) {
+      queuePreviews(revision, { organizationId: revision.organization_id, projectId: revision.project_id });
+    }
+    logger.info({ count: revisions.length }, 'Pending blueprint previews queued');
+  } catch (err) {
+    logger.error({ err }, 'Failed to queue pending blueprint previews');
+  }
+}
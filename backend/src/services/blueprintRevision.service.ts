@@ -0,0 +1,171 @@
+import { PDFDocument } from 'pdf-lib';
+import sharp from 'sharp';
+import { logger } from '../utils/logger';
+import * as blueprintModel from '../models/blueprint.model';
+import * as blueprintRevisionModel from '../models/blueprintRevision.model';
+import { TaskRow } from '../models/task.model';
+import * as storageService from './storage.service';
+
+type PageSize = blueprintRevisionModel.PageSize;
+
+// Pages this close in size (in PDF points) count as the same sheet
+const PAGE_SIZE_TOLERANCE = 1;
+
+const ANNOTATION_FIELDS = [
+  'annotationX', 'annotationY', 'annotationWidth', 'annotationHeight', 'annotationPage', 'annotationMarkers',
+  'measurements',
+] as const;
+
+export interface RevisionSwitchResult {
+  /** Annotations now shown on the new current revision */
+  carriedOver: number;
+  /** Tasks whose pages changed; their annotations stay on the old revision until reviewed */
+  needsReview: string[];
+}
+
+/** Revision labels run A to Z, then AA, AB and so on. */
+export function revisionLabel(revisionNumber: number): string {
+  let label = '';
+  for (let n = revisionNumber; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+/** Size of each page as displayed, i.e. with the page rotation applied. */
+export async function readPageSizes(pdf: Buffer): Promise<PageSize[]> {
+  const doc = await PDFDocument.load(pdf, { ignoreEncryption: true });
+  return doc.getPages().map((page) => {
+    const { width, height } = page.getSize();
+    const rotated = page.getRotation().angle % 180 !== 0;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return rotated ? { width: round(height), height: round(width) } : { width: round(width), height: round(height) };
+  });
+}
+
+/** Page sizes of a PDF, or the pixel size of an image blueprint as its only page. */
+export async function readRevisionPageSizes(file: Buffer, mimeType: string): Promise<PageSize[]> {
+  if (mimeType === 'application/pdf') return readPageSizes(file);
+  const { width, height } = await sharp(file).metadata();
+  if (!width || !height) throw new Error('Unable to read image dimensions');
+  return [{ width, height }];
+}
+
+/** Page sizes of an uploaded revision, read from the file the first time they are needed. */
+export async function pageSizesOf(revision: blueprintRevisionModel.BlueprintRevisionRow): Promise<PageSize[] | null> {
+  if (revision.page_sizes) return revision.page_sizes;
+  try {
+    const pageSizes = await readRevisionPageSizes(await storageService.readFile(revision.file_url), revision.mime_type);
+    await blueprintRevisionModel.setPageSizes(revision.id, pageSizes);
+    return pageSizes;
+  } catch (err) {
+    logger.warn({ err, revisionId: revision.id }, 'Could not read blueprint revision pages');
+    return null;
+  }
+}
+
+function annotatedPages(task: blueprintRevisionModel.AnnotatedTask): number[] {
+  const pages = new Set<number>();
+  if (task.annotation_page) pages.add(task.annotation_page);
+  for (const marker of task.annotation_markers || []) pages.add(marker.page);
+  for (const measurement of task.measurements || []) pages.add(measurement.page);
+  return [...pages];
+}
+
+/**
+ * Whether annotations on the given pages mean the same spot on both revisions.
+ * Positions are stored relative to the page, so that holds while those pages
+ * still exist and keep their size.
+ */
+export function pagesMatch(from: PageSize[] | null, to: PageSize[] | null, pages: number[]): boolean {
+  if (!from || !to) return false;
+  return pages.every((page) => {
+    const a = from[page - 1];
+    const b = to[page - 1];
+    return !!a && !!b
+      && Math.abs(a.width - b.width) <= PAGE_SIZE_TOLERANCE
+      && Math.abs(a.height - b.height) <= PAGE_SIZE_TOLERANCE;
+  });
+}
+
+/** Whether a page calibration was made on a page the size of the revision's. */
+export function calibrationApplies(calibration: blueprintModel.ScaleCalibration, pageSizes: PageSize[] | null): boolean {
+  const size = pageSizes?.[calibration.page - 1];
+  return !!size
+    && Math.abs(size.width - calibration.pageWidth) <= PAGE_SIZE_TOLERANCE
+    && Math.abs(size.height - calibration.pageHeight) <= PAGE_SIZE_TOLERANCE;
+}
+
+/**
+ * Make the revision current and carry the blueprint's annotations over to it.
+ * Annotations whose pages are unchanged move along; the others stay on the
+ * revision they were drawn on and are flagged for review. Switching back to an
+ * older revision works the same way.
+ */
+export async function switchCurrentRevision(
+  blueprint: blueprintModel.BlueprintRow,
+  target: blueprintRevisionModel.BlueprintRevisionRow,
+): Promise<RevisionSwitchResult> {
+  const previousId = blueprint.current_revision_id;
+  if (previousId) {
+    await blueprintRevisionModel.fillRecordedRevision(blueprint.id, previousId);
+  }
+
+  const revisions = new Map(
+    (await blueprintRevisionModel.findRevisionsByBlueprint(blueprint.id)).map((r) => [r.id, r]),
+  );
+  const pageSizes = new Map<string, PageSize[] | null>();
+  const sizesOf = async (revisionId: string) => {
+    if (!pageSizes.has(revisionId)) {
+      const revision = revisionId === target.id ? target : revisions.get(revisionId);
+      pageSizes.set(revisionId, revision ? await pageSizesOf(revision) : null);
+    }
+    return pageSizes.get(revisionId)!;
+  };
+
+  const carried: string[] = [];
+  const heldBack = new Map<string, string[]>();
+  for (const task of await blueprintRevisionModel.findAnnotatedTasks(blueprint.id)) {
+    const drawnOn = task.annotation_revision_id ?? previousId;
+    if (!drawnOn || drawnOn === target.id
+      || pagesMatch(await sizesOf(drawnOn), await sizesOf(target.id), annotatedPages(task))) {
+      carried.push(task.id);
+    } else {
+      heldBack.set(drawnOn, [...(heldBack.get(drawnOn) || []), task.id]);
+    }
+  }
+
+  await blueprintRevisionModel.setAnnotationRevision(carried, null);
+  for (const [revisionId, taskIds] of heldBack) {
+    await blueprintRevisionModel.setAnnotationRevision(taskIds, revisionId);
+  }
+  await blueprintModel.setCurrentRevision(blueprint.id, target);
+
+  // A calibration only holds for the page size it was made on
+  if (blueprint.scale_calibrations) {
+    const targetSizes = await sizesOf(target.id);
+    const kept = blueprint.scale_calibrations.filter((c) => calibrationApplies(c, targetSizes));
+    if (kept.length !== blueprint.scale_calibrations.length) {
+      await blueprintModel.setScaleCalibrations(blueprint.id, kept);
+    }
+  }
+
+  return { carriedOver: carried.length, needsReview: [...heldBack.values()].flat() };
+}
+
+/**
+ * Task updates that go with a change of blueprint or annotation: a task linked
+ * to another blueprint starts afresh, and an annotation redrawn while waiting
+ * for review is on the current revision.
+ */
+export function annotationRevisionUpdates(
+  existing: Pick<TaskRow, 'blueprint_id' | 'annotation_revision_id'>,
+  updates: Record<string, unknown>,
+): Record<string, null> {
+  const blueprintChanged = updates.blueprintId !== undefined && updates.blueprintId !== existing.blueprint_id;
+  const annotationChanged = ANNOTATION_FIELDS.some((field) => updates[field] !== undefined);
+  return {
+    ...(blueprintChanged && { annotationRecordedRevisionId: null }),
+    ...((blueprintChanged || annotationChanged) && existing.annotation_revision_id && { annotationRevisionId: null }),
+  };
+}
@@ -0,0 +1,55 @@
+import cron from 'node-cron';
+import config from '../config';
+import { logger } from '../utils/logger';
+import * as idempotencyKeyModel from '../models/idempotencyKey.model';
+import * as inboundEmailModel from '../models/inboundEmail.model';
+import * as commentAttachmentModel from '../models/commentAttachment.model';
+import { deleteObject } from './storage.service';
+import { decrementStorageUsed } from './storageTracking.service';
+
+// Uploads a comment was never posted with are kept this long before they are removed
+const UNATTACHED_ATTACHMENT_TTL_HOURS = 24;
+
+/** Delete comment attachments that were uploaded but never posted, with their files. */
+export async function cleanupUnattachedAttachments(): Promise<number> {
+  const attachments = await commentAttachmentModel.findUnattachedAttachments(UNATTACHED_ATTACHMENT_TTL_HOURS);
+  let removed = 0;
+  for (const attachment of attachments) {
+    try {
+      const deleted = await commentAttachmentModel.deleteUnattachedAttachment(attachment.id);
+      if (!deleted) continue;
+
+      await deleteObject(deleted.file_url);
+      if (deleted.thumbnail_url) await deleteObject(deleted.thumbnail_url);
+      if (deleted.confirmed_at) await decrementStorageUsed(attachment.organization_id, deleted.file_size_bytes);
+      removed++;
+    } catch (err) {
+      logger.warn({ err, attachmentId: attachment.id }, 'Failed to clean up unattached comment attachment');
+    }
+  }
+  return removed;
+}
+
+/** Purge rows that are only needed for a limited time. */
+export async function runCleanup(): Promise<void> {
+  const idempotencyKeys = await idempotencyKeyModel.deleteExpiredKeys();
+  const inboundEmailDeliveries = await inboundEmailModel.deleteOldDeliveries();
+  const commentAttachments = await cleanupUnattachedAttachments();
+  logger.info({ idempotencyKeys, inboundEmailDeliveries, commentAttachments }, 'Cleanup run finished');
+}
+
+export function initCleanupScheduler(): void {
+  if (!cron.validate(config.cleanup.cron)) {
+    logger.warn({ cronExpr: config.cleanup.cron }, 'Invalid cleanup cron expression, skipping');
+    return;
+  }
+
+  cron.schedule(config.cleanup.cron, async () => {
+    try {
+      await runCleanup();
+    } catch (err) {
+      logger.error({ err }, 'Cleanup run failed');
+    }
+  });
+  logger.info({ cronExpr: config.cleanup.cron }, 'Cleanup scheduler registered');
+}
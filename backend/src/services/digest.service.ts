@@ -0,0 +1,186 @@
+import cron from 'node-cron';
+import config from '../config';
+import { logger } from '../utils/logger';
+import * as digestModel from '../models/digest.model';
+import * as notificationModel from '../models/notification.model';
+import { sendEmail } from './email.service';
+import { renderDigest, DigestData, DigestItem } from './emailTemplate.service';
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  /** Local hour (0-23) in the user's timezone */
+  sendHour: number;
+  /** ISO day of week for weekly digests, 1 = Monday */
+  weekday: number;
+  timezone: string;
+}
+
+const DEFAULT_SETTINGS: Omit<DigestSettings, 'timezone'> = { frequency: 'off', sendHour: 7, weekday: 1 };
+
+const PERIOD_DAYS: Record<Exclude<DigestFrequency, 'off'>, number> = { daily: 1, weekly: 7 };
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getDigestSettings(userId: string): Promise<DigestSettings> {
+  const row = await digestModel.findDigestSettings(userId);
+  if (!row) return { ...DEFAULT_SETTINGS, timezone: config.digests.defaultTimezone };
+  return {
+    frequency: row.frequency as DigestFrequency,
+    sendHour: row.send_hour,
+    weekday: row.weekday,
+    timezone: row.timezone,
+  };
+}
+
+export async function updateDigestSettings(userId: string, settings: DigestSettings): Promise<DigestSettings> {
+  await digestModel.upsertDigestSettings(userId, settings);
+  return getDigestSettings(userId);
+}
+
+function appUrl(path: string): string {
+  return `${config.frontendUrl}${path}`;
+}
+
+function taskUrl(task: digestModel.DigestTask): string {
+  return appUrl(`/projects/${task.project_id}/tasks/${task.id}`);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Collect what the recipient should hear about since their last digest. Returns
+ * null when there is nothing to report, along with the digest-channel
+ * notifications the email covers.
+ */
+export async function buildDigest(
+  recipient: digestModel.DigestRecipient,
+  now: Date = new Date(),
+): Promise<{ data: DigestData; notificationIds: string[] } | null> {
+  const frequency = recipient.frequency === 'weekly' ? 'weekly' : 'daily';
+  const since = recipient.last_sent_at
+    ?? new Date(now.getTime() - PERIOD_DAYS[frequency] * 24 * 60 * 60 * 1000);
+
+  const [notifications, dueTasks, awaitingVerification] = await Promise.all([
+    digestModel.findNotificationsSince(recipient.id, since),
+    digestModel.findDueTasksForUser(recipient.id, config.dueDates.reminderDays),
+    digestModel.findTasksAwaitingVerification(recipient.id),
+  ]);
+
+  const data: DigestData = {
+    firstName: recipient.first_name,
+    frequency,
+    assignments: [],
+    dueTasks: dueTasks.map((task) => ({
+      title: `${task.project_name} #${task.task_number}: ${task.title}`,
+      detail: task.days_overdue > 0 ? `${plural(task.days_overdue, 'day')} overdue` : `due ${task.due_date_text}`,
+      url: taskUrl(task),
+    })),
+    awaitingVerification: awaitingVerification.map((task) => ({
+      title: `${task.project_name} #${task.task_number}: ${task.title}`,
+      detail: task.completed_at ? `completed ${new Date(task.completed_at).toISOString().slice(0, 10)}` : null,
+      url: taskUrl(task),
+    })),
+    comments: [],
+    signedProtocols: [],
+    other: [],
+    tasksUrl: appUrl('/my-tasks'),
+    preferencesUrl: appUrl('/profile'),
+  };
+
+  for (const notification of notifications) {
+    const item: DigestItem = {
+      title: notification.title,
+      detail: [notification.project_name, notification.body].filter(Boolean).join(' · ') || null,
+      url: appUrl(notification.link || '/'),
+    };
+    switch (notification.type) {
+      case 'task_assigned':
+        data.assignments.push(item);
+        break;
+      case 'task_comment':
+      case 'mention':
+        data.comments.push(item);
+        break;
+      case 'protocol_signed':
+        data.signedProtocols.push(item);
+        break;
+      case 'task_completed':
+        // Covered by the live list of tasks awaiting verification
+        break;
+      default:
+        data.other.push(item);
+    }
+  }
+
+  const sections = [data.assignments, data.dueTasks, data.awaitingVerification, data.comments, data.signedProtocols, data.other];
+  if (sections.every((items) => items.length === 0)) return null;
+
+  const notificationIds = notifications
+    .filter((n) => n.channel === 'digest' && !n.emailed_at)
+    .map((n) => n.id);
+  return { data, notificationIds };
+}
+
+/**
+ * Send one recipient's digest. The recipient is claimed first so that instances
+ * running the same schedule send it only once. A digest with nothing to report is
+ * skipped but still counts as sent.
+ */
+export async function sendDigest(recipient: digestModel.DigestRecipient, now: Date = new Date()): Promise<boolean> {
+  if (!(await digestModel.claimDigest(recipient.id, now))) return false;
+
+  let digest: Awaited<ReturnType<typeof buildDigest>>;
+  try {
+    digest = await buildDigest(recipient, now);
+  } catch (err) {
+    await digestModel.releaseDigestClaim(recipient.id, now, recipient.last_sent_at);
+    throw err;
+  }
+  if (!digest) return false;
+
+  sendEmail({ to: recipient.email, ...renderDigest(digest.data) });
+  await notificationModel.markEmailed(digest.notificationIds);
+  return true;
+}
+
+export async function runDigests(): Promise<number> {
+  const recipients = await digestModel.findDueDigestRecipients();
+  let sent = 0;
+  for (const recipient of recipients) {
+    try {
+      if (await sendDigest(recipient)) sent++;
+    } catch (err) {
+      logger.error({ err, userId: recipient.id }, 'Failed to send digest');
+    }
+  }
+  logger.info({ due: recipients.length, sent }, 'Digest run completed');
+  return sent;
+}
+
+export function initDigestScheduler(): void {
+  if (!cron.validate(config.digests.checkCron)) {
+    logger.warn({ cronExpr: config.digests.checkCron }, 'Invalid digest cron expression, skipping');
+    return;
+  }
+
+  cron.schedule(config.digests.checkCron, async () => {
+    try {
+      await runDigests();
+    } catch (err) {
+      logger.error({ err }, 'Digest run failed');
+    }
+  });
+  logger.info({ cronExpr: config.digests.checkCron }, 'Digest scheduler registered');
+}
@@ -0,0 +1,299 @@
+import { randomUUID } from 'crypto';
+import { PDFDocument } from 'pdf-lib';
+import { logger } from '../utils/logger';
+import { runPoppler } from '../utils/poppler';
+import * as blueprintModel from '../models/blueprint.model';
+import * as blueprintRevisionModel from '../models/blueprintRevision.model';
+import * as drawingSetModel from '../models/drawingSet.model';
+import * as storageService from './storage.service';
+import * as blueprintPreviewService from './blueprintPreview.service';
+import { readPageSizes, revisionLabel } from './blueprintRevision.service';
+
+export const DISCIPLINES = [
+  'general', 'civil', 'architectural', 'structural', 'hvac', 'plumbing', 'electrical', 'fire_protection',
+] as const;
+export type Discipline = typeof DISCIPLINES[number];
+
+// Sheet number prefixes as in the US National CAD Standard, plus H for HVAC
+const DISCIPLINE_PREFIXES: Record<string, Discipline> = {
+  FP: 'fire_protection',
+  G: 'general',
+  C: 'civil',
+  L: 'civil',
+  A: 'architectural',
+  I: 'architectural',
+  S: 'structural',
+  M: 'hvac',
+  H: 'hvac',
+  P: 'plumbing',
+  E: 'electrical',
+  T: 'electrical',
+  F: 'fire_protection',
+};
+
+// A-101, E1.01, M-201A, FP-2
+const SHEET_NUMBER = /^([A-Z]{1,2})[-. ]?\d{1,4}(?:[.-]\d{1,3})?[A-Z]?$/;
+// Captions of title block fields; their values follow a colon or sit in the next line
+const TITLE_BLOCK_CAPTION = new RegExp('^((sheet|drawing|dwg|project|job)( no\\.?| number| name| title)?|title|scale|date'
+  + '|client|owner|architect|engineer|status|seal|key ?plan|copyright|(drawn|checked|approved|designed)( by)?'
+  + '|rev|revisions?|issued?( for)?):?$', 'i');
+const TITLE_CAPTION = /^(sheet|drawing|dwg)\.? ?title:?$/i;
+// A PDF that takes longer than this to read is given up on
+const EXTRACT_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface PageWord {
+  text: string;
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+export interface PageText {
+  width: number;
+  height: number;
+  words: PageWord[];
+}
+
+/** Words of a page that sit next to each other on one line */
+interface TextRun {
+  text: string;
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+export function disciplineOfSheetNumber(sheetNumber: string | null): Discipline {
+  const prefix = sheetNumber?.toUpperCase().match(SHEET_NUMBER)?.[1];
+  if (!prefix) return 'general';
+  return DISCIPLINE_PREFIXES[prefix] ?? DISCIPLINE_PREFIXES[prefix[0]] ?? 'general';
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+/** Parse the word boxes written by `pdftotext -bbox`, one entry per page. */
+export function parseBboxHtml(html: string): PageText[] {
+  const pages: PageText[] = [];
+  for (const page of html.matchAll(/<page width="([\d.]+)" height="([\d.]+)">([\s\S]*?)<\/page>/g)) {
+    const words: PageWord[] = [];
+    for (const word of page[3].matchAll(
+      /<word xMin="([\d.]+)" yMin="([\d.]+)" xMax="([\d.]+)" yMax="([\d.]+)">([^<]*)<\/word>/g,
+    )) {
+      words.push({
+        text: decodeEntities(word[5]).trim(),
+        xMin: parseFloat(word[1]),
+        yMin: parseFloat(word[2]),
+        xMax: parseFloat(word[3]),
+        yMax: parseFloat(word[4]),
+      });
+    }
+    pages.push({ width: parseFloat(page[1]), height: parseFloat(page[2]), words: words.filter((w) => w.text) });
+  }
+  return pages;
+}
+
+/** Read the words and their positions on every page with poppler's pdftotext. */
+export async function readPageText(pdf: Buffer): Promise<PageText[]> {
+  return runPoppler('pdftotext', pdf, {
+    args: (input) => ['-bbox', '-q', input, '-'],
+    timeoutMs: EXTRACT_TIMEOUT_MS,
+    read: ({ stdout }) => parseBboxHtml(stdout),
+  });
+}
+
+/** Title blocks run along the right edge or sit in the bottom right corner. */
+function inTitleBlock(word: PageWord, page: PageText): boolean {
+  return word.xMin >= page.width * 0.75 || (word.xMin >= page.width * 0.5 && word.yMin >= page.height * 0.75);
+}
+
+/** Join words into runs on the same line, split where a gap separates the columns of a title block. */
+function textRuns(words: PageWord[]): TextRun[] {
+  const sorted = [...words].sort((a, b) => a.yMin - b.yMin || a.xMin - b.xMin);
+  const lines: PageWord[][] = [];
+  for (const word of sorted) {
+    const line = lines.find((l) => Math.abs(l[0].yMin - word.yMin) < (l[0].yMax - l[0].yMin) * 0.5);
+    if (line) line.push(word);
+    else lines.push([word]);
+  }
+
+  const runs: TextRun[] = [];
+  for (const line of lines) {
+    line.sort((a, b) => a.xMin - b.xMin);
+    let run: TextRun | null = null;
+    for (const word of line) {
+      const gap = run ? word.xMin - run.xMax : Infinity;
+      if (run && gap < (word.yMax - word.yMin) * 2) {
+        run.text += ` ${word.text}`;
+        run.xMax = word.xMax;
+        run.yMin = Math.min(run.yMin, word.yMin);
+        run.yMax = Math.max(run.yMax, word.yMax);
+      } else {
+        run = { ...word };
+        runs.push(run);
+      }
+    }
+  }
+  return runs;
+}
+
+function isTitleCandidate(run: TextRun, sheetNumber: string | null): boolean {
+  const letters = run.text.replace(/[^A-Za-z]/g, '').length;
+  return letters >= 3
+    && letters >= run.text.replace(/\s/g, '').length / 2
+    && !TITLE_BLOCK_CAPTION.test(run.text)
+    && !run.text.includes(':')
+    && !/@|www\.|https?:/i.test(run.text)
+    && (!sheetNumber || !run.text.includes(sheetNumber));
+}
+
+/** The lines directly below the run in the same size, as a title may wrap. */
+function withContinuation(first: TextRun, runs: TextRun[], sheetNumber: string | null): string {
+  const lines = [first];
+  for (let i = 0; i < 2; i++) {
+    const last = lines[lines.length - 1];
+    const height = last.yMax - last.yMin;
+    const nextLine = runs.find((r) => r.yMin > last.yMin
+      && r.yMin - last.yMax < height
+      && Math.abs((r.yMax - r.yMin) - height) < height * 0.15
+      && r.xMin < last.xMax && r.xMax > last.xMin
+      && isTitleCandidate(r, sheetNumber));
+    if (!nextLine) break;
+    lines.push(nextLine);
+  }
+  return lines.map((l) => l.text).join(' ');
+}
+
+/**
+ * Propose the sheet number and title of a page from its title block: the
+ * largest sheet-number-like word there, and the line under a "Sheet title"
+ * caption or otherwise the largest text that is not a caption. Pages without
+ * text, e.g. scans, are proposed by page number.
+ */
+export function proposeSheet(page: PageText | undefined, pageNumber: number): drawingSetModel.ProposedSheet {
+  const words = page ? page.words.filter((w) => inTitleBlock(w, page)) : [];
+  const height = (w: { yMin: number; yMax: number }) => w.yMax - w.yMin;
+
+  const numberWord = words
+    .filter((w) => SHEET_NUMBER.test(w.text))
+    .sort((a, b) => height(b) - height(a) || (b.xMax + b.yMax) - (a.xMax + a.yMax))[0];
+  const sheetNumber = numberWord?.text ?? null;
+
+  const runs = textRuns(words);
+  const caption = runs.find((r) => TITLE_CAPTION.test(r.text));
+  const candidates = runs.filter((r) => isTitleCandidate(r, sheetNumber));
+  const belowCaption = caption && candidates
+    .filter((r) => r.yMin >= caption.yMax - 1 && r.xMin < caption.xMax + height(caption) * 10 && r.xMax > caption.xMin)
+    .sort((a, b) => a.yMin - b.yMin)[0];
+  // The project name and other field values are often as large as the title
+  const fieldCaptions = runs.filter((r) => TITLE_BLOCK_CAPTION.test(r.text) && r !== caption);
+  const isFieldValue = (r: TextRun) => fieldCaptions.some((c) => r.yMin >= c.yMax - 1
+    && r.yMin - c.yMax < height(c) * 1.5 && r.xMin < c.xMax && r.xMax > c.xMin);
+  const largest = candidates
+    .filter((r) => !isFieldValue(r))
+    .sort((a, b) => height(b) - height(a) || b.yMin - a.yMin)[0];
+  const titleRun = belowCaption || largest;
+
+  return {
+    page: pageNumber,
+    sheetNumber,
+    title: titleRun ? withContinuation(titleRun, runs, sheetNumber) : `Sheet ${pageNumber}`,
+    discipline: disciplineOfSheetNumber(sheetNumber),
+  };
+}
+
+/**
+ * Proposed sheets for every page of the PDF. The text is only a suggestion:
+ * when it cannot be read the pages are still proposed, by number.
+ */
+export async function proposeSheets(pdf: Buffer): Promise<drawingSetModel.ProposedSheet[]> {
+  const pageCount = (await readPageSizes(pdf)).length;
+  let pages: PageText[] = [];
+  try {
+    pages = await readPageText(pdf);
+  } catch (err) {
+    logger.warn({ err }, 'Could not read drawing set text, proposing sheets by page number');
+  }
+  return Array.from({ length: pageCount }, (_, i) => proposeSheet(pages[i], i + 1));
+}
+
+/** The given pages of the PDF, each as a PDF of its own. */
+export async function splitPages(pdf: Buffer, pages: number[]): Promise<Map<number, Buffer>> {
+  const source = await PDFDocument.load(pdf, { ignoreEncryption: true });
+  const files = new Map<number, Buffer>();
+  for (const page of pages) {
+    const sheet = await PDFDocument.create();
+    const [copied] = await sheet.copyPages(source, [page - 1]);
+    sheet.addPage(copied);
+    files.set(page, Buffer.from(await sheet.save()));
+  }
+  return files;
+}
+
+function sheetFileName(sheet: { page: number; sheetNumber?: string | null }): string {
+  const base = sheet.sheetNumber?.replace(/[^A-Za-z0-9._-]+/g, '_') || `page-${sheet.page}`;
+  return `${base}.pdf`;
+}
+
+/**
+ * Create a blueprint for each split page, as revision A of its own, and
+ * queue its previews. Returns the sheets in page order.
+ */
+export async function createSheets(
+  set: drawingSetModel.DrawingSetRow,
+  sheets: drawingSetModel.ProposedSheet[],
+  files: Map<number, Buffer>,
+  actor: { userId: string; organizationId: string },
+): Promise<blueprintModel.BlueprintRow[]> {
+  const created: blueprintModel.BlueprintRow[] = [];
+  for (const sheet of [...sheets].sort((a, b) => a.page - b.page)) {
+    const file = files.get(sheet.page)!;
+    const revisionId = randomUUID();
+    const key = storageService.buildS3Key(
+      'blueprints', actor.organizationId, set.project_id, revisionId, sheetFileName(sheet),
+    );
+    await storageService.writeFile(key, file, 'application/pdf');
+
+    const blueprint = await blueprintModel.createBlueprint({
+      projectId: set.project_id,
+      name: sheet.title,
+      fileUrl: key,
+      fileSizeBytes: file.length,
+      mimeType: 'application/pdf',
+      uploadedBy: actor.userId,
+      drawingSetId: set.id,
+      sheetNumber: sheet.sheetNumber,
+      discipline: sheet.discipline,
+      setPage: sheet.page,
+    });
+    const revision = await blueprintRevisionModel.createRevision({
+      id: revisionId,
+      blueprintId: blueprint.id,
+      revisionNumber: 1,
+      label: revisionLabel(1),
+      fileUrl: key,
+      fileSizeBytes: file.length,
+      mimeType: 'application/pdf',
+      uploadedBy: actor.userId,
+    });
+    const confirmed = await blueprintRevisionModel.confirmRevision(revision.id, {
+      fileSizeBytes: file.length,
+      pageSizes: await readPageSizes(file),
+      previewStatus: 'pending',
+    });
+    created.push((await blueprintModel.setCurrentRevision(blueprint.id, confirmed!))!);
+
+    blueprintPreviewService.queuePreviews(confirmed!, {
+      organizationId: actor.organizationId,
+      projectId: set.project_id,
+    });
+  }
+  return created;
+}
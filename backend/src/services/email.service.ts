@@ -7,6 +7,7 @@ export interface EmailOptions {
   subject: string;
   html: string;
   text: string;
+  replyTo?: string;
 }
 
 /**
@@ -21,6 +22,7 @@ export function sendEmail(options: EmailOptions): void {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        ...(options.replyTo ? { replyTo: options.replyTo } : {}),
       });
       logger.info({ to: options.to, subject: options.subject }, 'Email sent');
     } catch (err) {
@@ -23,6 +23,7 @@ text-decoration:none;border-radius:4px;margin-top:10px}
 </ul>
 {{#if description}}<p><strong>Description:</strong> {{description}}</p>{{/if}}
 <p>Assigned by: {{assignedBy}}</p>
+{{#if replyToken}}<p>Reply to this email to add a comment or photos. Reply with <strong>DONE</strong> to mark the task as completed.</p>{{/if}}
 </div>
 <div class="footer"><p>TaskProof</p></div>
 </body></html>
@@ -42,6 +43,10 @@ Description: {{description}}
 {{/if}}
 
 Assigned by: {{assignedBy}}
+{{#if replyToken}}
+
+Reply to this email to add a comment or photos. Reply with DONE to mark the task as completed.
+{{/if}}
 `);
 
 // ────────────────────────────────────────────────────────────────
@@ -190,6 +195,250 @@ Please review the protocol and provide your signature using the link below:
 This link expires in 7 days.
 `);
 
+// ────────────────────────────────────────────────────────────────
+// Contractor Portal
+// ────────────────────────────────────────────────────────────────
+const contractorPortalHtml = Handlebars.compile(`
+<!DOCTYPE html>
+<html>
+<head><style>body{font-family:Arial,sans-serif;color:#333;max-width:600px;margin:0 auto}
+.header{background:#2563eb;color:#fff;padding:20px;text-align:center}
+.content{padding:20px}.btn{display:inline-block;background:#2563eb;color:#fff;padding:10px 20px;
+text-decoration:none;border-radius:4px;margin-top:10px}
+.footer{padding:20px;font-size:12px;color:#666;border-top:1px solid #eee}</style></head>
+<body>
+<div class="header"><h2>Your Tasks in {{projectName}}</h2></div>
+<div class="content">
+<p>Hello,</p>
+<p>{{invitedBy}} has shared the tasks assigned to you in the project <strong>{{projectName}}</strong>.</p>
+<p>Use the link below to see photos and locations, post comments, upload photos of finished work and mark tasks as completed:</p>
+<p><a href="{{portalUrl}}" class="btn">Open Tasks</a></p>
+<p>This link expires in {{expiresInDays}} days.</p>
+</div>
+<div class="footer"><p>TaskProof</p></div>
+</body></html>
+`);
+
+const contractorPortalText = Handlebars.compile(`Your Tasks in {{projectName}}
+
+Hello,
+
+{{invitedBy}} has shared the tasks assigned to you in the project "{{projectName}}".
+
+Use the link below to see photos and locations, post comments, upload photos of finished work and mark tasks as completed:
+
+{{portalUrl}}
+
+This link expires in {{expiresInDays}} days.
+`);
+
+// ────────────────────────────────────────────────────────────────
+// Task Due Reminder
+// ────────────────────────────────────────────────────────────────
+const taskDueReminderHtml = Handlebars.compile(`
+<!DOCTYPE html>
+<html>
+<head><style>body{font-family:Arial,sans-serif;color:#333;max-width:600px;margin:0 auto}
+.header{background:#2563eb;color:#fff;padding:20px;text-align:center}
+.content{padding:20px}.btn{display:inline-block;background:#2563eb;color:#fff;padding:10px 20px;
+text-decoration:none;border-radius:4px;margin-top:10px}
+.footer{padding:20px;font-size:12px;color:#666;border-top:1px solid #eee}</style></head>
+<body>
+<div class="header"><h2>Tasks Due Soon</h2></div>
+<div class="content">
+<p>Hello{{#if firstName}} {{firstName}}{{/if}},</p>
+<p>The following tasks assigned to you are due soon:</p>
+<ul>
+{{#each tasks}}<li><strong>{{projectName}} #{{taskNumber}}:</strong> {{title}} (due {{dueDate}})</li>
+{{/each}}
+</ul>
+{{#if tasksUrl}}<p><a href="{{tasksUrl}}" class="btn">View Tasks</a></p>{{/if}}
+</div>
+<div class="footer"><p>TaskProof</p></div>
+</body></html>
+`);
+
+const taskDueReminderText = Handlebars.compile(`Tasks Due Soon
+
+Hello{{#if firstName}} {{firstName}}{{/if}},
+
+The following tasks assigned to you are due soon:
+
+{{#each tasks}}
+- {{projectName}} #{{taskNumber}}: {{title}} (due {{dueDate}})
+{{/each}}
+{{#if tasksUrl}}
+
+{{tasksUrl}}
+{{/if}}
+`);
+
+// ────────────────────────────────────────────────────────────────
+// Overdue Escalation
+// ────────────────────────────────────────────────────────────────
+const overdueEscalationHtml = Handlebars.compile(`
+<!DOCTYPE html>
+<html>
+<head><style>body{font-family:Arial,sans-serif;color:#333;max-width:600px;margin:0 auto}
+.header{background:#2563eb;color:#fff;padding:20px;text-align:center}
+.content{padding:20px}.btn{display:inline-block;background:#2563eb;color:#fff;padding:10px 20px;
+text-decoration:none;border-radius:4px;margin-top:10px}
+.footer{padding:20px;font-size:12px;color:#666;border-top:1px solid #eee}</style></head>
+<body>
+<div class="header"><h2>Overdue Tasks</h2></div>
+<div class="content">
+<p>Hello {{firstName}},</p>
+<p>The following tasks in the project <strong>{{projectName}}</strong> are past their due date:</p>
+<ul>
+{{#each tasks}}<li><strong>#{{taskNumber}}:</strong> {{title}} (due {{dueDate}}, {{daysOverdue}} days overdue, assigned to {{assignee}})</li>
+{{/each}}
+</ul>
+<p><a href="{{projectUrl}}" class="btn">Open Project</a></p>
+</div>
+<div class="footer"><p>TaskProof</p></div>
+</body></html>
+`);
+
+const overdueEscalationText = Handlebars.compile(`Overdue Tasks
+
+Hello {{firstName}},
+
+The following tasks in the project "{{projectName}}" are past their due date:
+
+{{#each tasks}}
+- #{{taskNumber}}: {{title}} (due {{dueDate}}, {{daysOverdue}} days overdue, assigned to {{assignee}})
+{{/each}}
+
+{{projectUrl}}
+`);
+
+// ────────────────────────────────────────────────────────────────
+// Bulk Task Assignment
+// ────────────────────────────────────────────────────────────────
+const bulkTaskAssignmentHtml = Handlebars.compile(`
+<!DOCTYPE html>
+<html>
+<head><style>body{font-family:Arial,sans-serif;color:#333;max-width:600px;margin:0 auto}
+.header{background:#2563eb;color:#fff;padding:20px;text-align:center}
+.content{padding:20px}.btn{display:inline-block;background:#2563eb;color:#fff;padding:10px 20px;
+text-decoration:none;border-radius:4px;margin-top:10px}
+.footer{padding:20px;font-size:12px;color:#666;border-top:1px solid #eee}</style></head>
+<body>
+<div class="header"><h2>Task Assignment</h2></div>
+<div class="content">
+<p>Hello{{#if firstName}} {{firstName}}{{/if}},</p>
+<p>{{assignedBy}} assigned you the following tasks in the project <strong>{{projectName}}</strong>:</p>
+<ul>
+{{#each tasks}}<li><strong>#{{taskNumber}}:</strong> {{title}} ({{priority}}{{#if trade}}, {{trade}}{{/if}})</li>
+{{/each}}
+</ul>
+{{#if tasksUrl}}<p><a href="{{tasksUrl}}" class="btn">View Tasks</a></p>{{/if}}
+</div>
+<div class="footer"><p>TaskProof</p></div>
+</body></html>
+`);
+
+const bulkTaskAssignmentText = Handlebars.compile(`Task Assignment
+
+Hello{{#if firstName}} {{firstName}}{{/if}},
+
+{{assignedBy}} assigned you the following tasks in the project "{{projectName}}":
+
+{{#each tasks}}
+- #{{taskNumber}}: {{title}} ({{priority}}{{#if trade}}, {{trade}}{{/if}})
+{{/each}}
+{{#if tasksUrl}}
+
+{{tasksUrl}}
+{{/if}}
+`);
+
+// ────────────────────────────────────────────────────────────────
+// Notification (any in-app notification delivered by email)
+// ────────────────────────────────────────────────────────────────
+const notificationHtml = Handlebars.compile(`
+<!DOCTYPE html>
+<html>
+<head><style>body{font-family:Arial,sans-serif;color:#333;max-width:600px;margin:0 auto}
+.header{background:#2563eb;color:#fff;padding:20px;text-align:center}
+.content{padding:20px}.btn{display:inline-block;background:#2563eb;color:#fff;padding:10px 20px;
+text-decoration:none;border-radius:4px;margin-top:10px}
+.footer{padding:20px;font-size:12px;color:#666;border-top:1px solid #eee}</style></head>
+<body>
+<div class="header"><h2>{{title}}</h2></div>
+<div class="content">
+<p>Hello{{#if firstName}} {{firstName}}{{/if}},</p>
+{{#if body}}<p>{{body}}</p>{{/if}}
+{{#if url}}<p><a href="{{url}}" class="btn">Open in TaskProof</a></p>{{/if}}
+</div>
+<div class="footer"><p>TaskProof</p>{{#if preferencesUrl}}<p><a href="{{preferencesUrl}}">Notification settings</a></p>{{/if}}</div>
+</body></html>
+`);
+
+const notificationText = Handlebars.compile(`{{title}}
+
+Hello{{#if firstName}} {{firstName}}{{/if}},
+{{#if body}}
+
+{{body}}
+{{/if}}
+{{#if url}}
+
+{{url}}
+{{/if}}
+{{#if preferencesUrl}}
+
+Notification settings: {{preferencesUrl}}
+{{/if}}
+`);
+
+// ────────────────────────────────────────────────────────────────
+// Digest (daily or weekly summary)
+// ────────────────────────────────────────────────────────────────
+const digestHtml = Handlebars.compile(`
+<!DOCTYPE html>
+<html>
+<head><style>body{font-family:Arial,sans-serif;color:#333;max-width:600px;margin:0 auto}
+.header{background:#2563eb;color:#fff;padding:20px;text-align:center}
+.content{padding:20px}.btn{display:inline-block;background:#2563eb;color:#fff;padding:10px 20px;
+text-decoration:none;border-radius:4px;margin-top:10px}
+.footer{padding:20px;font-size:12px;color:#666;border-top:1px solid #eee}</style></head>
+<body>
+<div class="header"><h2>Your {{periodLabel}} summary</h2></div>
+<div class="content">
+<p>Hello {{firstName}},</p>
+<p>Here is what needs your attention and what happened in your projects since your last summary.</p>
+{{#each sections}}
+<h3 style="margin:24px 0 8px;font-size:16px">{{heading}}</h3>
+<ul style="padding-left:20px;margin:0">
+{{#each items}}<li style="margin-bottom:6px"><a href="{{url}}">{{title}}</a>{{#if detail}}<br><span style="color:#666;font-size:13px">{{detail}}</span>{{/if}}</li>
+{{/each}}
+</ul>
+{{/each}}
+<p><a href="{{tasksUrl}}" class="btn">Open My Tasks</a></p>
+</div>
+<div class="footer"><p>TaskProof</p><p><a href="{{preferencesUrl}}">Digest settings</a></p></div>
+</body></html>
+`);
+
+const digestText = Handlebars.compile(`Your {{periodLabel}} summary
+
+Hello {{firstName}},
+
+Here is what needs your attention and what happened in your projects since your last summary.
+
+{{#each sections}}
+{{heading}}
+{{#each items}}
+- {{title}}{{#if detail}} ({{detail}}){{/if}}
+  {{url}}
+{{/each}}
+
+{{/each}}
+My tasks: {{tasksUrl}}
+Digest settings: {{preferencesUrl}}
+`);
+
 // ────────────────────────────────────────────────────────────────
 // Render functions
 // ────────────────────────────────────────────────────────────────
@@ -201,6 +450,7 @@ export interface TaskAssignmentData {
   trade: string;
   description?: string;
   assignedBy: string;
+  replyToken?: string;
 }
 
 export interface PasswordResetData {
@@ -224,7 +474,7 @@ export interface TaskCompletedData {
 
 export function renderTaskAssignment(data: TaskAssignmentData) {
   return {
-    subject: `Task assigned: ${data.taskTitle}`,
+    subject: `Task assigned: ${data.taskTitle}${data.replyToken ? ` [ref:${data.replyToken}]` : ''}`,
     html: taskAssignmentHtml(data),
     text: taskAssignmentText(data),
   };
@@ -266,3 +516,122 @@ export function renderProtocolSigning(data: ProtocolSigningData) {
     text: protocolSigningText(data),
   };
 }
+
+export interface ContractorPortalData {
+  projectName: string;
+  portalUrl: string;
+  invitedBy: string;
+  expiresInDays: number;
+}
+
+export function renderContractorPortal(data: ContractorPortalData) {
+  return {
+    subject: `Your tasks in ${data.projectName}`,
+    html: contractorPortalHtml(data),
+    text: contractorPortalText(data),
+  };
+}
+
+export interface TaskDueReminderData {
+  firstName?: string;
+  tasks: Array<{ projectName: string; taskNumber: number; title: string; dueDate: string }>;
+  tasksUrl?: string;
+}
+
+export function renderTaskDueReminder(data: TaskDueReminderData) {
+  return {
+    subject: data.tasks.length === 1
+      ? `Task due ${data.tasks[0].dueDate}: ${data.tasks[0].title}`
+      : `${data.tasks.length} tasks due soon`,
+    html: taskDueReminderHtml(data),
+    text: taskDueReminderText(data),
+  };
+}
+
+export interface OverdueEscalationData {
+  firstName: string;
+  projectName: string;
+  projectUrl: string;
+  tasks: Array<{ taskNumber: number; title: string; dueDate: string; daysOverdue: number; assignee: string }>;
+}
+
+export function renderOverdueEscalation(data: OverdueEscalationData) {
+  return {
+    subject: `${data.tasks.length} overdue task${data.tasks.length === 1 ? '' : 's'} in ${data.projectName}`,
+    html: overdueEscalationHtml(data),
+    text: overdueEscalationText(data),
+  };
+}
+
+export interface BulkTaskAssignmentData {
+  firstName?: string;
+  projectName: string;
+  assignedBy: string;
+  tasks: Array<{ taskNumber: number; title: string; priority: string; trade?: string | null }>;
+  tasksUrl?: string;
+}
+
+export function renderBulkTaskAssignment(data: BulkTaskAssignmentData) {
+  return {
+    subject: `${data.tasks.length} tasks assigned to you in ${data.projectName}`,
+    html: bulkTaskAssignmentHtml(data),
+    text: bulkTaskAssignmentText(data),
+  };
+}
+
+export interface NotificationEmailData {
+  firstName?: string;
+  title: string;
+  body?: string | null;
+  url?: string;
+  preferencesUrl?: string;
+}
+
+export function renderNotification(data: NotificationEmailData) {
+  return {
+    subject: data.title,
+    html: notificationHtml(data),
+    text: notificationText(data),
+  };
+}
+
+export interface DigestItem {
+  title: string;
+  detail?: string | null;
+  url: string;
+}
+
+export interface DigestData {
+  firstName: string;
+  frequency: 'daily' | 'weekly';
+  assignments: DigestItem[];
+  dueTasks: DigestItem[];
+  awaitingVerification: DigestItem[];
+  comments: DigestItem[];
+  signedProtocols: DigestItem[];
+  other: DigestItem[];
+  tasksUrl: string;
+  preferencesUrl: string;
+}
+
+export function renderDigest(data: DigestData) {
+  const weekly = data.frequency === 'weekly';
+  const sections = [
+    { heading: 'New assignments', items: data.assignments },
+    { heading: 'Due soon and overdue', items: data.dueTasks },
+    { heading: 'Completed, awaiting verification', items: data.awaitingVerification },
+    { heading: 'Comments and mentions', items: data.comments },
+    { heading: 'Signed protocols', items: data.signedProtocols },
+    { heading: 'Other updates', items: data.other },
+  ].filter((section) => section.items.length > 0);
+  const context = {
+    ...data,
+    sections,
+    periodLabel: weekly ? 'weekly' : 'daily',
+  };
+  return {
+    subject: weekly ? 'Your weekly TaskProof summary' : 'Your daily TaskProof summary',
+    html: digestHtml(context),
+    text: digestText(context),
+  };
+}
@@ -0,0 +1,324 @@
+import { randomUUID } from 'crypto';
+import config from '../config';
+import { logger } from '../utils/logger';
+import {
+  ParsedMail,
+  MailAttachment,
+  extractAddresses,
+  normalizeMessageId,
+  htmlToText,
+  stripQuotedText,
+  detectCommand,
+} from '../utils/mailParser';
+import * as taskModel from '../models/task.model';
+import * as commentModel from '../models/comment.model';
+import * as taskPhotoModel from '../models/taskPhoto.model';
+import * as inboundEmailModel from '../models/inboundEmail.model';
+import * as storageService from './storage.service';
+import * as storageTracking from './storageTracking.service';
+import * as thumbnailService from './thumbnail.service';
+import * as workflowService from './workflow.service';
+import * as taskHistoryService from './taskHistory.service';
+import * as taskRelationService from './taskRelation.service';
+import { checkRequiredItems } from './taskTemplate.service';
+import { logAuditAction } from './audit.service';
+import { publishEvent } from './realtime.service';
+import { notifyTaskComment, notifyTaskStatusChanged } from './notification.service';
+
+const REPLY_ADDRESS_PATTERN = /^reply\+([a-f0-9]{32})@/i;
+const SUBJECT_TOKEN_PATTERN = /\[ref:([a-f0-9]{32})\]/i;
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // same limit as photo uploads
+const MAX_ATTACHMENTS = 10;
+
+export interface InboundEmailResult {
+  outcome: 'posted' | 'quarantined' | 'unmatched' | 'empty';
+  taskId?: string;
+  commentId?: string;
+  quarantineId?: string;
+  photoCount?: number;
+  statusChanged?: boolean;
+}
+
+type ReplyTask = NonNullable<Awaited<ReturnType<typeof taskModel.findTaskByReplyToken>>>;
+
+/** Reply-To address for a task, or undefined when no inbound domain is configured. */
+export function buildReplyAddress(replyToken: string): string | undefined {
+  return config.email.replyDomain ? `reply+${replyToken}@${config.email.replyDomain}` : undefined;
+}
+
+/**
+ * Normalise the JSON shape posted by a local relay that has already parsed the
+ * message: { messageId, from, to, subject, text, html, attachments: [{ filename, contentType, content (base64) }] }.
+ */
+export function mailFromJson(payload: Record<string, unknown>): ParsedMail {
+  const asString = (v: unknown) => (typeof v === 'string' ? v : '');
+  const to = Array.isArray(payload.to) ? payload.to.map(String).join(', ') : asString(payload.to);
+  const attachments = Array.isArray(payload.attachments) ? payload.attachments : [];
+
+  return {
+    messageId: normalizeMessageId(asString(payload.messageId)),
+    from: extractAddresses(asString(payload.from))[0] || '',
+    to: [...extractAddresses(to), ...extractAddresses(asString(payload.cc))],
+    subject: asString(payload.subject),
+    text: asString(payload.text),
+    html: asString(payload.html),
+    attachments: attachments
+      .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object')
+      .map((a) => ({
+        filename: asString(a.filename) || 'attachment',
+        contentType: asString(a.contentType).toLowerCase(),
+        content: Buffer.from(asString(a.content), 'base64'),
+      })),
+  };
+}
+
+export function findReplyToken(mail: ParsedMail): string | null {
+  for (const address of mail.to) {
+    const match = REPLY_ADDRESS_PATTERN.exec(address);
+    if (match) return match[1].toLowerCase();
+  }
+  const subjectMatch = SUBJECT_TOKEN_PATTERN.exec(mail.subject);
+  return subjectMatch ? subjectMatch[1].toLowerCase() : null;
+}
+
+function imageAttachments(mail: ParsedMail): MailAttachment[] {
+  return mail.attachments
+    .filter((a) => ALLOWED_IMAGE_TYPES.includes(a.contentType) && a.content.length > 0 && a.content.length <= MAX_ATTACHMENT_SIZE)
+    .slice(0, MAX_ATTACHMENTS);
+}
+
+async function storeAttachments(
+  type: 'photos' | 'inbound-email',
+  organizationId: string,
+  taskId: string,
+  attachments: MailAttachment[],
+): Promise<inboundEmailModel.QuarantinedAttachment[]> {
+  const stored: inboundEmailModel.QuarantinedAttachment[] = [];
+  for (const attachment of attachments) {
+    const storageCheck = await storageTracking.checkStorageLimit(organizationId, attachment.content.length);
+    if (!storageCheck.allowed) {
+      logger.warn({ organizationId, taskId }, 'Storage limit reached, dropping emailed attachment');
+      break;
+    }
+    const safeName = attachment.filename.replace(/[^\w.-]+/g, '_');
+    const key = storageService.buildS3Key(type, organizationId, taskId, randomUUID(), safeName);
+    await storageService.writeFile(key, attachment.content, attachment.contentType);
+    stored.push({
+      key,
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      sizeBytes: attachment.content.length,
+    });
+  }
+  return stored;
+}
+
+async function attachPhotos(
+  organizationId: string,
+  taskId: string,
+  fromEmail: string,
+  files: inboundEmailModel.QuarantinedAttachment[],
+): Promise<number> {
+  for (const file of files) {
+    let thumbnailKey: string | undefined;
+    try {
+      thumbnailKey = await thumbnailService.generateThumbnail(file.key, 'photo');
+    } catch {
+      // Thumbnail generation failure is non-fatal
+    }
+
+    const photo = await taskPhotoModel.createTaskPhoto({
+      taskId,
+      fileUrl: file.key,
+      fileSizeBytes: file.sizeBytes,
+      thumbnailUrl: thumbnailKey,
+      caption: `Emailed by ${fromEmail}`,
+      uploadedBy: null,
+    });
+    await storageTracking.incrementStorageUsed(organizationId, file.sizeBytes);
+    await taskHistoryService.recordTaskEvent(
+      taskId,
+      'photo',
+      { newValue: { id: photo.id, caption: photo.caption } },
+      { externalEmail: fromEmail, via: 'email' },
+    );
+
+    logAuditAction({
+      organizationId,
+      userId: null,
+      action: 'photo.uploaded',
+      resourceType: 'task_photo',
+      resourceId: photo.id,
+      metadata: { taskId, fileSize: file.sizeBytes, via: 'email', externalEmail: fromEmail },
+    });
+  }
+  return files.length;
+}
+
+/**
+ * Move the task into a completed status using the first transition the workflow
+ * allows external contractors to take. The reply itself supplies the comment and
+ * photos a transition may require. A task with unticked required checklist items
+ * is left as it is.
+ */
+async function completeTaskFromEmail(
+  task: ReplyTask,
+  fromEmail: string,
+  reply: { hasComment: boolean; hasPhoto: boolean },
+): Promise<boolean> {
+  const workflow = await workflowService.getWorkflow(task.organization_id);
+  const actor = { external: true, ...reply };
+  const target = workflowService.availableTransitions(workflow, task.status, actor)
+    .find((t) => workflowService.getStatusCategory(workflow, t.to) === 'completed'
+      && !workflowService.checkTransition(workflow, t.from, t.to, actor)
+      && !checkRequiredItems(workflow, task, t.to));
+  if (!target) {
+    return false;
+  }
+
+  const updated = await taskModel.updateTask(task.id, {
+    status: target.to,
+    completedAt: new Date().toISOString(),
+  });
+  if (!updated) return false;
+
+  await taskHistoryService.recordTaskChanges(task, updated, { externalEmail: fromEmail, via: 'email' });
+  await taskRelationService.notifyUnblockedTasks(workflow, updated, task.status, {
+    organizationId: task.organization_id,
+    actorId: null,
+  });
+
+  logAuditAction({
+    organizationId: task.organization_id,
+    userId: null,
+    action: 'task.status_changed',
+    resourceType: 'task',
+    resourceId: task.id,
+    metadata: { projectId: task.project_id, from: task.status, to: target.to, via: 'email', externalEmail: fromEmail },
+  });
+
+  notifyTaskStatusChanged(task, {
+    organizationId: task.organization_id,
+    actorId: null,
+    actorName: fromEmail,
+    statusLabel: workflow.statuses.find((s) => s.key === target.to)?.label || target.to,
+    completion: { projectCreatorId: task.project_created_by, projectName: task.project_name },
+  });
+  return true;
+}
+
+/**
+ * Apply a contractor reply to its task: post the new text as a comment, attach
+ * images as photos and act on a leading command such as "DONE". Replies from
+ * anyone other than the assigned contractor are quarantined for PM review.
+ */
+export async function processInboundEmail(mail: ParsedMail): Promise<InboundEmailResult> {
+  const token = findReplyToken(mail);
+  const task = token ? await taskModel.findTaskByReplyToken(token) : null;
+  if (!task || !mail.from) {
+    return { outcome: 'unmatched' };
+  }
+
+  const bodyText = stripQuotedText(mail.text || htmlToText(mail.html));
+  const command = detectCommand(bodyText);
+  const images = imageAttachments(mail);
+
+  if (!bodyText && images.length === 0) {
+    return { outcome: 'empty', taskId: task.id };
+  }
+
+  const expectedSender = task.assigned_to_contractor_email?.toLowerCase();
+  if (!expectedSender || expectedSender !== mail.from) {
+    const attachments = await storeAttachments('inbound-email', task.organization_id, task.id, images);
+    const quarantined = await inboundEmailModel.createQuarantinedEmail({
+      organizationId: task.organization_id,
+      projectId: task.project_id,
+      taskId: task.id,
+      fromEmail: mail.from,
+      subject: mail.subject.slice(0, 500),
+      bodyText,
+      command,
+      attachments,
+    });
+
+    logAuditAction({
+      organizationId: task.organization_id,
+      userId: null,
+      action: 'email.quarantined',
+      resourceType: 'task',
+      resourceId: task.id,
+      metadata: { projectId: task.project_id, fromEmail: mail.from, quarantineId: quarantined.id },
+    });
+
+    return { outcome: 'quarantined', taskId: task.id, quarantineId: quarantined.id };
+  }
+
+  const comment = bodyText
+    ? await commentModel.createComment({ taskId: task.id, externalEmail: mail.from, commentText: bodyText })
+    : null;
+  const files = await storeAttachments('photos', task.organization_id, task.id, images);
+  const photoCount = await attachPhotos(task.organization_id, task.id, mail.from, files);
+  const statusChanged = command === 'complete'
+    ? await completeTaskFromEmail(task, mail.from, { hasComment: !!comment, hasPhoto: photoCount > 0 })
+    : false;
+
+  logAuditAction({
+    organizationId: task.organization_id,
+    userId: null,
+    action: 'email.reply_received',
+    resourceType: 'task',
+    resourceId: task.id,
+    metadata: { projectId: task.project_id, fromEmail: mail.from, photoCount, command },
+  });
+
+  // One event covers the comment, photos and status change of the reply
+  publishEvent({
+    type: 'task.updated',
+    organizationId: task.organization_id,
+    projectId: task.project_id,
+    data: { taskId: task.id },
+  });
+
+  if (comment) {
+    notifyTaskComment(task, {
+      organizationId: task.organization_id,
+      actorId: null,
+      actorName: mail.from,
+      commentText: bodyText,
+    });
+  }
+
+  return { outcome: 'posted', taskId: task.id, commentId: comment?.id, photoCount, statusChanged };
+}
+
+/** Post a quarantined reply after PM approval. The command is not re-applied; the PM decides the status. */
+export async function approveQuarantinedEmail(
+  entry: inboundEmailModel.QuarantinedEmailRow,
+): Promise<{ commentId?: string; photoCount: number }> {
+  const comment = entry.body_text
+    ? await commentModel.createComment({
+      taskId: entry.task_id,
+      externalEmail: entry.from_email,
+      commentText: entry.body_text,
+    })
+    : null;
+  const photoCount = await attachPhotos(entry.organization_id, entry.task_id, entry.from_email, entry.attachments);
+  publishEvent({
+    type: 'task.updated',
+    organizationId: entry.organization_id,
+    projectId: entry.project_id,
+    data: { taskId: entry.task_id },
+  });
+  return { commentId: comment?.id, photoCount };
+}
+
+export async function discardQuarantinedAttachments(entry: inboundEmailModel.QuarantinedEmailRow): Promise<void> {
+  for (const file of entry.attachments) {
+    try {
+      await storageService.deleteObject(file.key);
+    } catch {
+      // Storage deletion failure is non-fatal
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { PageSize } from '../models/blueprintRevision.model';
+import { ScaleCalibration } from '../models/blueprint.model';
+import { MeasurementType, TaskMeasurement } from '../models/task.model';
+
+/** Paper sizes drawings are printed on, portrait, in millimetres. */
+export const PAPER_SIZES = {
+  A0: { width: 841, height: 1189 },
+  A1: { width: 594, height: 841 },
+  A2: { width: 420, height: 594 },
+  A3: { width: 297, height: 420 },
+  A4: { width: 210, height: 297 },
+  ARCH_C: { width: 457.2, height: 609.6 },
+  ARCH_D: { width: 609.6, height: 914.4 },
+  ARCH_E: { width: 914.4, height: 1219.2 },
+} as const;
+
+export type PaperSize = keyof typeof PAPER_SIZES;
+
+export const PAPER_SIZE_KEYS = Object.keys(PAPER_SIZES) as [PaperSize, ...PaperSize[]];
+
+// Shorter calibration lines than this share of the page are too imprecise to measure with
+const MIN_CALIBRATION_LINE = 0.01;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Distance between two points given relative to the page, in page units. */
+function pageDistance(a: Point, b: Point, page: PageSize): number {
+  return Math.hypot((b.x - a.x) * page.width, (b.y - a.y) * page.height);
+}
+
+/**
+ * Calibrate a page from a line drawn over a dimension of known length, in
+ * metres. The line's ends are relative to the page. Returns null for a line
+ * too short to calibrate with.
+ */
+export function calibrateFromLine(
+  page: number,
+  pageSize: PageSize,
+  line: { x1: number; y1: number; x2: number; y2: number },
+  length: number,
+): ScaleCalibration | null {
+  const units = pageDistance({ x: line.x1, y: line.y1 }, { x: line.x2, y: line.y2 }, pageSize);
+  if (units < MIN_CALIBRATION_LINE * Math.max(pageSize.width, pageSize.height)) {
+    return null;
+  }
+  return {
+    page,
+    method: 'line',
+    pageWidth: pageSize.width,
+    pageHeight: pageSize.height,
+    metresPerUnit: length / units,
+    line: { ...line, length },
+  };
+}
+
+/**
+ * Calibrate a page from the scale the drawing is printed at, e.g. 1:100 on A1.
+ * The paper's long side is taken to be the page's long side, so scanned
+ * drawings calibrate the same as those exported at paper size.
+ */
+export function calibrateFromScale(
+  page: number,
+  pageSize: PageSize,
+  ratio: number,
+  paperSize: PaperSize,
+): ScaleCalibration {
+  const paper = PAPER_SIZES[paperSize];
+  const paperMetres = Math.max(paper.width, paper.height) / 1000;
+  return {
+    page,
+    method: 'scale',
+    pageWidth: pageSize.width,
+    pageHeight: pageSize.height,
+    metresPerUnit: (paperMetres * ratio) / Math.max(pageSize.width, pageSize.height),
+    ratio,
+    paperSize,
+  };
+}
+
+/** Length in metres along the points, or the enclosed area in square metres for areas. */
+export function measure(calibration: ScaleCalibration, type: MeasurementType, points: Point[]): number {
+  const page = { width: calibration.pageWidth, height: calibration.pageHeight };
+  if (type === 'area') {
+    // Shoelace formula over the closed polygon
+    let twiceArea = 0;
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      twiceArea += (a.x * page.width) * (b.y * page.height) - (b.x * page.width) * (a.y * page.height);
+    }
+    return (Math.abs(twiceArea) / 2) * calibration.metresPerUnit ** 2;
+  }
+  let units = 0;
+  for (let i = 1; i < points.length; i++) {
+    units += pageDistance(points[i - 1], points[i], page);
+  }
+  return units * calibration.metresPerUnit;
+}
+
+/** "2.40 m" or "6.00 m²". */
+export function formatMeasurement(measurement: Pick<TaskMeasurement, 'type' | 'value'>): string {
+  return measurement.type === 'area'
+    ? `${measurement.value.toFixed(2)} m²`
+    : `${measurement.value.toFixed(2)} m`;
+}
+
+/**
+ * Measurements as sent for a task, with their values worked out from the
+ * calibration of their page. Measurements the task already has keep their
+ * value while their geometry is unchanged, so recalibrating a page does not
+ * alter what was reported. Returns validation errors by field instead when a
+ * page has not been calibrated.
+ */
+export function resolveMeasurements(
+  calibrations: ScaleCalibration[] | null,
+  measurements: Array<Omit<TaskMeasurement, 'value'>>,
+  existing: TaskMeasurement[] | null,
+): { measurements: TaskMeasurement[] } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  const resolved = measurements.map((m, index) => {
+    const recorded = (existing || []).find((e) => e.id === m.id);
+    if (recorded && recorded.type === m.type && recorded.page === m.page
+      && JSON.stringify(recorded.points) === JSON.stringify(m.points)) {
+      return { ...m, value: recorded.value };
+    }
+    const calibration = (calibrations || []).find((c) => c.page === m.page);
+    if (!calibration) {
+      errors[`measurements.${index}.page`] = `Page ${m.page} of the blueprint has not been calibrated`;
+      return null;
+    }
+    return { ...m, value: measure(calibration, m.type, m.points) };
+  });
+  if (Object.keys(errors).length > 0) return { errors };
+  return { measurements: resolved as TaskMeasurement[] };
+}
@@ -0,0 +1,104 @@
+import * as mentionModel from '../models/mention.model';
+import * as projectModel from '../models/project.model';
+import * as userModel from '../models/user.model';
+import { parseMentionIds, mentionsToPlainText } from '../utils/mentions';
+import { notify } from './notification.service';
+
+const EXCERPT_LENGTH = 200;
+
+function excerpt(text: string): string {
+  const plain = mentionsToPlainText(text);
+  return plain.length > EXCERPT_LENGTH ? `${plain.slice(0, EXCERPT_LENGTH)}…` : plain;
+}
+
+interface MentionContext {
+  organizationId: string;
+  projectId: string;
+  actorId: string;
+}
+
+async function actorName(actorId: string): Promise<string> {
+  const actor = await userModel.findUserById(actorId);
+  return actor ? `${actor.first_name} ${actor.last_name}` : 'Someone';
+}
+
+/**
+ * Sync the mentions in a new or edited task comment and notify newly
+ * mentioned users. Only users who can see the project are recorded. Returns
+ * the ids of the users who were notified.
+ */
+export async function recordCommentMentions(
+  comment: { id: string; comment_text: string },
+  task: { id: string; task_number: number; title: string },
+  context: MentionContext,
+): Promise<string[]> {
+  const userIds = await mentionModel.filterMentionableUserIds(
+    context.projectId,
+    context.organizationId,
+    parseMentionIds(comment.comment_text).filter((id) => id !== context.actorId),
+  );
+  await mentionModel.deleteMentionsExcept({ commentId: comment.id }, userIds);
+  const created = await mentionModel.createMentions({
+    organizationId: context.organizationId,
+    projectId: context.projectId,
+    mentionedBy: context.actorId,
+    userIds,
+    taskId: task.id,
+    commentId: comment.id,
+  });
+  if (created.length === 0) return [];
+
+  const recipientIds = created.map((m) => m.mentioned_user_id);
+  const name = await actorName(context.actorId);
+  notify({
+    type: 'mention',
+    organizationId: context.organizationId,
+    recipientIds,
+    actorId: context.actorId,
+    projectId: context.projectId,
+    taskId: task.id,
+    title: `${name} mentioned you on task #${task.task_number}: ${task.title}`,
+    body: excerpt(comment.comment_text),
+    link: `/projects/${context.projectId}/tasks/${task.id}`,
+  });
+  return recipientIds;
+}
+
+/**
+ * Sync the mentions in a created or edited project note. Users dropped from
+ * the note are forgotten; only newly mentioned users are notified.
+ */
+export async function recordNoteMentions(
+  note: { id: string; content: string },
+  context: MentionContext,
+): Promise<string[]> {
+  const userIds = await mentionModel.filterMentionableUserIds(
+    context.projectId,
+    context.organizationId,
+    parseMentionIds(note.content).filter((id) => id !== context.actorId),
+  );
+  await mentionModel.deleteMentionsExcept({ noteId: note.id }, userIds);
+  const created = await mentionModel.createMentions({
+    organizationId: context.organizationId,
+    projectId: context.projectId,
+    mentionedBy: context.actorId,
+    userIds,
+    noteId: note.id,
+  });
+  if (created.length === 0) return [];
+
+  const recipientIds = created.map((m) => m.mentioned_user_id);
+  const name = await actorName(context.actorId);
+  const project = await projectModel.findProjectById(context.projectId, context.organizationId);
+  notify({
+    type: 'mention',
+    organizationId: context.organizationId,
+    recipientIds,
+    actorId: context.actorId,
+    projectId: context.projectId,
+    title: `${name} mentioned you in a note on ${project?.name ?? 'a project'}`,
+    body: excerpt(note.content),
+    link: `/projects/${context.projectId}?tab=notes`,
+  });
+  return recipientIds;
+}
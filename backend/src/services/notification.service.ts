@@ -0,0 +1,257 @@
+import config from '../config';
+import { logger } from '../utils/logger';
+import { mentionsToPlainText } from '../utils/mentions';
+import * as notificationModel from '../models/notification.model';
+import { sendEmail } from './email.service';
+import { renderNotification, renderTaskCompleted } from './emailTemplate.service';
+import { publishEvent } from './realtime.service';
+
+export const NOTIFICATION_TYPES = [
+  'task_assigned',
+  'task_status_changed',
+  'task_completed',
+  'task_comment',
+  'mention',
+  'task_unblocked',
+  'protocol_signed',
+  'backup_failed',
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/** in_app: bell only; email: bell plus an immediate email; digest: bell plus the periodic digest email */
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'digest'] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+/** Used until the user picks a channel for the event type */
+export const DEFAULT_CHANNELS: Record<NotificationType, NotificationChannel> = {
+  task_assigned: 'email',
+  task_status_changed: 'in_app',
+  task_completed: 'email',
+  task_comment: 'in_app',
+  mention: 'email',
+  task_unblocked: 'email',
+  protocol_signed: 'email',
+  backup_failed: 'email',
+};
+
+export interface NotificationEvent {
+  type: NotificationType;
+  organizationId: string;
+  /** Users to notify; blanks, duplicates and the actor are skipped */
+  recipientIds: Array<string | null | undefined>;
+  /** The user who caused the event, if any */
+  actorId?: string | null;
+  projectId?: string | null;
+  taskId?: string | null;
+  title: string;
+  body?: string;
+  /** Path in the web app, e.g. /projects/:projectId/tasks/:taskId */
+  link?: string;
+  /** Email for recipients who chose immediate email; defaults to the generic notification email */
+  email?: (recipient: { firstName: string; email: string }) => { subject: string; html: string; text: string };
+}
+
+/** A user's channel for every event type, defaults filled in. */
+export async function getPreferences(userId: string): Promise<Record<NotificationType, NotificationChannel>> {
+  const rows = await notificationModel.findPreferences(userId);
+  const preferences = { ...DEFAULT_CHANNELS };
+  for (const row of rows) {
+    if (row.event_type in preferences) {
+      preferences[row.event_type as NotificationType] = row.channel as NotificationChannel;
+    }
+  }
+  return preferences;
+}
+
+async function deliver(event: NotificationEvent): Promise<void> {
+  const recipientIds = [...new Set(event.recipientIds.filter((id): id is string => !!id && id !== event.actorId))];
+  if (recipientIds.length === 0) return;
+
+  const recipients = await notificationModel.findRecipients(recipientIds, event.organizationId, event.type);
+  if (recipients.length === 0) return;
+
+  const channelOf = (r: notificationModel.NotificationRecipient) =>
+    (r.channel as NotificationChannel | null) || DEFAULT_CHANNELS[event.type];
+
+  const notifications = await notificationModel.createNotifications(recipients.map((r) => ({
+    organizationId: event.organizationId,
+    userId: r.id,
+    type: event.type,
+    title: event.title,
+    body: event.body,
+    link: event.link,
+    actorId: event.actorId,
+    projectId: event.projectId,
+    taskId: event.taskId,
+    channel: channelOf(r),
+  })));
+
+  publishEvent({
+    type: 'notification.created',
+    organizationId: event.organizationId,
+    userIds: recipients.map((r) => r.id),
+    data: { type: event.type },
+  });
+
+  // Digest recipients are picked up later by the digest job
+  const emailed: string[] = [];
+  for (const recipient of recipients.filter((r) => channelOf(r) === 'email')) {
+    const content = event.email
+      ? event.email({ firstName: recipient.first_name, email: recipient.email })
+      : renderNotification({
+        firstName: recipient.first_name,
+        title: event.title,
+        body: event.body,
+        url: event.link ? `${config.frontendUrl}${event.link}` : undefined,
+        preferencesUrl: `${config.frontendUrl}/profile`,
+      });
+    sendEmail({ to: recipient.email, ...content });
+    const notification = notifications.find((n) => n.user_id === recipient.id);
+    if (notification) emailed.push(notification.id);
+  }
+  await notificationModel.markEmailed(emailed);
+}
+
+/**
+ * Record an in-app notification for each recipient and email those who chose
+ * immediate email for the event type. Fire-and-forget — never fails the
+ * request that caused it.
+ */
+export function notify(event: NotificationEvent): void {
+  setImmediate(async () => {
+    try {
+      await deliver(event);
+    } catch (err) {
+      logger.error({ err, type: event.type }, 'Failed to deliver notification');
+    }
+  });
+}
+
+interface NotifiedTask {
+  id: string;
+  project_id: string;
+  task_number: number;
+  title: string;
+  assigned_to_user: string | null;
+  created_by: string;
+}
+
+function taskLink(task: NotifiedTask): string {
+  return `/projects/${task.project_id}/tasks/${task.id}`;
+}
+
+export function notifyTaskAssigned(
+  task: NotifiedTask,
+  context: { organizationId: string; actorId: string | null; actorName?: string },
+): void {
+  notify({
+    type: 'task_assigned',
+    organizationId: context.organizationId,
+    recipientIds: [task.assigned_to_user],
+    actorId: context.actorId,
+    projectId: task.project_id,
+    taskId: task.id,
+    title: `Task #${task.task_number} assigned to you: ${task.title}`,
+    body: context.actorName ? `Assigned by ${context.actorName}` : undefined,
+    link: taskLink(task),
+  });
+}
+
+/**
+ * Tell the task's assignee and creator about a status change. When the task
+ * entered a completed status, the project's creator is told it awaits verification.
+ */
+export function notifyTaskStatusChanged(
+  task: NotifiedTask,
+  context: {
+    organizationId: string;
+    actorId: string | null;
+    /** Name or email of whoever changed the status */
+    actorName: string;
+    statusLabel: string;
+    completion?: { projectCreatorId: string; projectName: string };
+  },
+): void {
+  const completion = context.completion;
+  if (completion) {
+    notify({
+      type: 'task_completed',
+      organizationId: context.organizationId,
+      recipientIds: [completion.projectCreatorId],
+      actorId: context.actorId,
+      projectId: task.project_id,
+      taskId: task.id,
+      title: `Task #${task.task_number} completed: ${task.title}`,
+      body: `Completed by ${context.actorName}`,
+      link: taskLink(task),
+      email: (recipient) => renderTaskCompleted({
+        firstName: recipient.firstName,
+        projectName: completion.projectName,
+        taskTitle: task.title,
+        completedBy: context.actorName,
+      }),
+    });
+  }
+
+  notify({
+    type: 'task_status_changed',
+    organizationId: context.organizationId,
+    recipientIds: [task.assigned_to_user, task.created_by].filter((id) => id !== completion?.projectCreatorId),
+    actorId: context.actorId,
+    projectId: task.project_id,
+    taskId: task.id,
+    title: `Task #${task.task_number} moved to ${context.statusLabel}: ${task.title}`,
+    body: `Changed by ${context.actorName}`,
+    link: taskLink(task),
+  });
+}
+
+/** Tell the assignee of a blocked task that its last open blocker was completed. */
+export function notifyTaskUnblocked(
+  task: NotifiedTask,
+  context: { organizationId: string; actorId: string | null; blocker: { task_number: number; title: string } },
+): void {
+  notify({
+    type: 'task_unblocked',
+    organizationId: context.organizationId,
+    recipientIds: [task.assigned_to_user],
+    actorId: context.actorId,
+    projectId: task.project_id,
+    taskId: task.id,
+    title: `Task #${task.task_number} is no longer blocked: ${task.title}`,
+    body: `Blocking task #${context.blocker.task_number} ${context.blocker.title} was completed`,
+    link: taskLink(task),
+  });
+}
+
+const COMMENT_EXCERPT_LENGTH = 200;
+
+export function notifyTaskComment(
+  task: NotifiedTask,
+  context: {
+    organizationId: string;
+    actorId: string | null;
+    actorName: string;
+    commentText: string;
+    /** Users already notified of a mention in this comment */
+    mentionedUserIds?: string[];
+  },
+): void {
+  const commentText = mentionsToPlainText(context.commentText);
+  const excerpt = commentText.length > COMMENT_EXCERPT_LENGTH
+    ? `${commentText.slice(0, COMMENT_EXCERPT_LENGTH)}…`
+    : commentText;
+
+  notify({
+    type: 'task_comment',
+    organizationId: context.organizationId,
+    recipientIds: [task.assigned_to_user, task.created_by]
+      .filter((id) => !id || !context.mentionedUserIds?.includes(id)),
+    actorId: context.actorId,
+    projectId: task.project_id,
+    taskId: task.id,
+    title: `New comment on task #${task.task_number}: ${task.title}`,
+    body: `${context.actorName}: ${excerpt}`,
+    link: taskLink(task),
+  });
+}
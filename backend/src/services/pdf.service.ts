@@ -9,6 +9,32 @@ export interface TaskPhoto {
   imageBuffer: Buffer;
 }
 
+export interface TaskCommentAttachment {
+  fileName: string;
+  /** Thumbnail or image to draw; files without one are listed by name */
+  imageBuffer?: Buffer;
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  parent_id: string | null;
+  author: string;
+  created_at: Date | string;
+  edited: boolean;
+  text: string;
+  attachments: TaskCommentAttachment[];
+}
+
+export interface TaskChecklistItem {
+  task_id: string;
+  text: string;
+  is_required: boolean;
+  /** Who ticked the item; null while unticked */
+  checked_by: string | null;
+  checked_at: Date | string | null;
+}
+
 export interface BlueprintAnnotation {
   taskNumber: number;
   status: string;
@@ -24,11 +50,27 @@ export interface BlueprintMarker {
   markers: Array<{ x: number; y: number; page: number }>;
 }
 
+export interface BlueprintMeasurement {
+  taskNumber: number;
+  type: 'distance' | 'polyline' | 'area';
+  page: number; // 1-indexed
+  points: Array<{ x: number; y: number }>; // Normalized 0-1
+  label: string; // e.g. "Crack 2.40 m"
+}
+
 export interface BlueprintData {
   name: string;
   pdfBuffer: Buffer;
   annotations: BlueprintAnnotation[];
   markers?: BlueprintMarker[];
+  measurements?: BlueprintMeasurement[];
+}
+
+export interface ProtocolStatus {
+  key: string;
+  label: string;
+  color: string; // hex, e.g. #22c55e
+  category: string;
 }
 
 export interface PdfGenerationData {
@@ -45,7 +87,10 @@ export interface PdfGenerationData {
   filterSummary: string;
   tasks: TaskWithCounts[];
   taskPhotos?: TaskPhoto[];
+  taskChecklists?: TaskChecklistItem[];
+  taskComments?: TaskComment[];
   blueprints?: BlueprintData[];
+  statuses?: ProtocolStatus[]; // organisation workflow; built-in statuses when omitted
 }
 
 const MARGIN = 50;
@@ -67,7 +112,7 @@ const COLORS = {
   statVerified: { bg: '#eff6ff', text: '#1d4ed8' },    // blue
 };
 
-function formatDate(dateStr?: string | null): string {
+function formatDate(dateStr?: string | Date | null): string {
   if (!dateStr) return '—';
   return new Date(dateStr).toLocaleDateString(undefined, {
     year: 'numeric',
@@ -78,7 +123,8 @@ function formatDate(dateStr?: string | null): string {
 
 /**
  * Generate a protocol PDF matching the HTML report layout.
- * Structure: Project description → Blueprints (with annotations) → Tasks table → Task photos → Footer
+ * Structure: Project description → Blueprints (with annotations) → Tasks table → Task photos → Task checklists
+ * → Task comments → Footer
  *
  * Blueprints are embedded using pdf-lib to copy actual PDF pages from the blueprint files
  * and draw annotation overlays (colored rectangles + task number badges) directly on them.
@@ -100,13 +146,23 @@ export async function generateProtocolPdf(data: PdfGenerationData): Promise<Buff
       projectDescPageCount = doc.bufferedPageRange().count;
 
       // ── Section 2: Tasks Table ─────────────────────────────
-      drawTasksTable(doc, data.tasks);
+      drawTasksTable(doc, data.tasks, data.statuses);
 
       // ── Section 3: Task Photos ─────────────────────────────
       if (data.taskPhotos && data.taskPhotos.length > 0) {
         drawTaskPhotos(doc, data.tasks, data.taskPhotos);
       }
 
+      // ── Section 4: Task Checklists ─────────────────────────
+      if (data.taskChecklists && data.taskChecklists.length > 0) {
+        drawTaskChecklists(doc, data.tasks, data.taskChecklists);
+      }
+
+      // ── Section 5: Task Comments (on request) ──────────────
+      if (data.taskComments && data.taskComments.length > 0) {
+        drawTaskComments(doc, data.tasks, data.taskComments);
+      }
+
       // ── Footer ─────────────────────────────────────────────
       drawFooter(doc, data.generatedAt);
 
@@ -118,7 +174,7 @@ export async function generateProtocolPdf(data: PdfGenerationData): Promise<Buff
 
   // ── Embed blueprint pages with annotations using pdf-lib ──
   if (data.blueprints && data.blueprints.length > 0) {
-    return embedBlueprints(baseBuffer, data.blueprints, projectDescPageCount);
+    return embedBlueprints(baseBuffer, data.blueprints, projectDescPageCount, data.statuses);
   }
 
   return baseBuffer;
@@ -170,15 +226,22 @@ function drawProjectDescription(doc: PDFKit.PDFDocument, data: PdfGenerationData
 
   // Task summary stats boxes
   doc.moveDown(1);
-  drawStatBoxes(doc, data.tasks);
+  drawStatBoxes(doc, data.tasks, data.statuses);
   doc.moveDown(1.5);
 }
 
-function drawStatBoxes(doc: PDFKit.PDFDocument, tasks: TaskWithCounts[]): void {
-  const open = tasks.filter((t) => t.status === 'open').length;
-  const inProgress = tasks.filter((t) => t.status === 'in_progress').length;
-  const completed = tasks.filter((t) => t.status === 'completed').length;
-  const verified = tasks.filter((t) => t.status === 'verified').length;
+function findStatus(statuses: ProtocolStatus[] | undefined, key: string): ProtocolStatus | undefined {
+  return statuses?.find((s) => s.key === key);
+}
+
+function drawStatBoxes(doc: PDFKit.PDFDocument, tasks: TaskWithCounts[], statuses?: ProtocolStatus[]): void {
+  // Custom statuses are counted in the box of their category
+  const countCategory = (category: string) =>
+    tasks.filter((t) => (findStatus(statuses, t.status)?.category ?? t.status) === category).length;
+  const open = countCategory('open');
+  const inProgress = countCategory('in_progress');
+  const completed = countCategory('completed');
+  const verified = countCategory('verified');
 
   const stats = [
     { label: 'Open', value: open, colors: COLORS.statOpen },
@@ -218,7 +281,7 @@ function drawStatBoxes(doc: PDFKit.PDFDocument, tasks: TaskWithCounts[]): void {
   doc.y = startY + boxHeight;
 }
 
-function drawTasksTable(doc: PDFKit.PDFDocument, tasks: TaskWithCounts[]): void {
+function drawTasksTable(doc: PDFKit.PDFDocument, tasks: TaskWithCounts[], statuses?: ProtocolStatus[]): void {
   // Section header
   doc.fontSize(14).font('Helvetica-Bold').fillColor(COLORS.heading)
     .text(`Tasks (${tasks.length})`);
@@ -236,9 +299,9 @@ function drawTasksTable(doc: PDFKit.PDFDocument, tasks: TaskWithCounts[]): void
     return;
   }
 
-  // Column definitions matching HTML: #, Title, Status, Priority, Trade, Assigned To
-  const colWidths = [25, 160, 65, 55, 80, 110];
-  const headers = ['#', 'Title', 'Status', 'Priority', 'Trade', 'Assigned To'];
+  // Column definitions matching HTML: #, Title, Status, Priority, Trade, Assigned To, Due, Overdue
+  const colWidths = [25, 110, 60, 45, 65, 80, 55, 55];
+  const headers = ['#', 'Title', 'Status', 'Priority', 'Trade', 'Assigned To', 'Due', 'Overdue'];
   const startX = MARGIN;
 
   // Table header
@@ -264,15 +327,17 @@ function drawTasksTable(doc: PDFKit.PDFDocument, tasks: TaskWithCounts[]): void
       ? `${task.assignee_first_name} ${task.assignee_last_name}`
       : task.assigned_to_contractor_email || '—';
 
-    const statusText = task.status.replace(/_/g, ' ');
+    const statusText = findStatus(statuses, task.status)?.label ?? task.status.replace(/_/g, ' ');
 
     const row = [
       String(task.task_number),
-      task.title.length > 32 ? task.title.substring(0, 32) + '...' : task.title,
+      task.title.length > 22 ? task.title.substring(0, 22) + '...' : task.title,
       statusText,
       task.priority,
-      (task.trade || '—').length > 15 ? (task.trade || '—').substring(0, 15) + '...' : (task.trade || '—'),
-      assignee.length > 22 ? assignee.substring(0, 22) + '...' : assignee,
+      (task.trade || '—').length > 12 ? (task.trade || '—').substring(0, 12) + '...' : (task.trade || '—'),
+      assignee.length > 16 ? assignee.substring(0, 16) + '...' : assignee,
+      formatDate(task.due_date),
+      task.days_overdue ? `${task.days_overdue} d` : '—',
     ];
 
     doc.fillColor(COLORS.heading);
@@ -379,6 +444,158 @@ function drawTaskPhotos(
   }
 }
 
+function drawTaskChecklists(
+  doc: PDFKit.PDFDocument,
+  tasks: TaskWithCounts[],
+  items: TaskChecklistItem[],
+): void {
+  doc.addPage();
+
+  doc.fontSize(14).font('Helvetica-Bold').fillColor(COLORS.heading)
+    .text('Task Checklists');
+  doc.moveDown(0.2);
+
+  const divY = doc.y;
+  doc.moveTo(MARGIN, divY).lineTo(MARGIN + CONTENT_WIDTH, divY)
+    .lineWidth(1).strokeColor(COLORS.border).stroke();
+  doc.moveDown(0.8);
+
+  const itemsByTask = new Map<string, TaskChecklistItem[]>();
+  for (const item of items) {
+    const existing = itemsByTask.get(item.task_id) || [];
+    existing.push(item);
+    itemsByTask.set(item.task_id, existing);
+  }
+
+  // In task order, as in the tasks table
+  for (const task of tasks) {
+    const taskItems = itemsByTask.get(task.id);
+    if (!taskItems) continue;
+
+    if (doc.y + 40 > PAGE_BOTTOM) {
+      doc.addPage();
+    }
+
+    const checked = taskItems.filter((i) => i.checked_at).length;
+    doc.fontSize(9).font('Helvetica').fillColor(COLORS.muted)
+      .text(`#${task.task_number}`, MARGIN, doc.y, { continued: true });
+    doc.font('Helvetica-Bold').fillColor('#374151')
+      .text(` ${task.title}`, { continued: true });
+    doc.font('Helvetica').fillColor(COLORS.muted)
+      .text(`  ${checked}/${taskItems.length}`);
+    doc.moveDown(0.3);
+
+    for (const item of taskItems) {
+      if (doc.y + 14 > PAGE_BOTTOM) {
+        doc.addPage();
+      }
+      doc.fontSize(9).font('Helvetica').fillColor(COLORS.value)
+        .text(`${item.checked_at ? '[x]' : '[  ]'} ${item.text}`, MARGIN + 10, doc.y, {
+          width: CONTENT_WIDTH - 10,
+          continued: true,
+        });
+      doc.fillColor(item.is_required && !item.checked_at ? COLORS.statOpen.text : COLORS.muted)
+        .text(item.checked_at
+          ? `  ${item.checked_by || 'Unknown'}, ${formatDate(item.checked_at)}`
+          : item.is_required ? '  (required)' : '');
+    }
+    doc.moveDown(0.6);
+  }
+}
+
+function drawTaskComments(
+  doc: PDFKit.PDFDocument,
+  tasks: TaskWithCounts[],
+  taskComments: TaskComment[],
+): void {
+  doc.addPage();
+
+  doc.fontSize(14).font('Helvetica-Bold').fillColor(COLORS.heading)
+    .text('Task Comments');
+  doc.moveDown(0.2);
+
+  const divY = doc.y;
+  doc.moveTo(MARGIN, divY).lineTo(MARGIN + CONTENT_WIDTH, divY)
+    .lineWidth(1).strokeColor(COLORS.border).stroke();
+  doc.moveDown(0.8);
+
+  const thumbSize = 60;
+  const replyIndent = 20;
+
+  const drawComment = (comment: TaskComment, indent: number) => {
+    const x = MARGIN + indent;
+    const width = CONTENT_WIDTH - indent;
+    if (doc.y + 40 > PAGE_BOTTOM) {
+      doc.addPage();
+    }
+
+    doc.fontSize(8).font('Helvetica-Bold').fillColor('#374151')
+      .text(comment.author, x, doc.y, { width, continued: true });
+    doc.font('Helvetica').fillColor(COLORS.muted)
+      .text(`  ${formatDate(comment.created_at)}${comment.edited ? ' (edited)' : ''}`);
+    doc.fontSize(9).font('Helvetica').fillColor(COLORS.value)
+      .text(comment.text, x, doc.y, { width });
+
+    const images = comment.attachments.filter((a) => a.imageBuffer);
+    const files = comment.attachments.filter((a) => !a.imageBuffer);
+    if (images.length > 0) {
+      doc.moveDown(0.3);
+      if (doc.y + thumbSize > PAGE_BOTTOM) {
+        doc.addPage();
+      }
+      const startY = doc.y;
+      const perRow = Math.floor(width / (thumbSize + 8));
+      images.forEach((attachment, i) => {
+        const ix = x + (i % perRow) * (thumbSize + 8);
+        const iy = startY + Math.floor(i / perRow) * (thumbSize + 8);
+        try {
+          doc.image(attachment.imageBuffer!, ix, iy, { fit: [thumbSize, thumbSize], align: 'center', valign: 'center' });
+        } catch {
+          doc.rect(ix, iy, thumbSize, thumbSize).strokeColor(COLORS.border).stroke();
+        }
+      });
+      doc.y = startY + Math.ceil(images.length / perRow) * (thumbSize + 8);
+    }
+    if (files.length > 0) {
+      doc.fontSize(7).font('Helvetica').fillColor(COLORS.label)
+        .text(`Attachments: ${files.map((a) => a.fileName).join(', ')}`, x, doc.y, { width });
+    }
+    doc.moveDown(0.6);
+  };
+
+  const taskMap = new Map(tasks.map((t) => [t.id, t]));
+  const commentsByTask = new Map<string, TaskComment[]>();
+  for (const comment of taskComments) {
+    const existing = commentsByTask.get(comment.task_id) || [];
+    existing.push(comment);
+    commentsByTask.set(comment.task_id, existing);
+  }
+
+  for (const [taskId, comments] of commentsByTask.entries()) {
+    const task = taskMap.get(taskId);
+    if (!task) continue;
+
+    if (doc.y + 60 > PAGE_BOTTOM) {
+      doc.addPage();
+    }
+
+    doc.fontSize(9).font('Helvetica').fillColor(COLORS.muted)
+      .text(`#${task.task_number}`, MARGIN, doc.y, { continued: true });
+    doc.font('Helvetica-Bold').fillColor('#374151')
+      .text(` ${task.title}`);
+    doc.moveDown(0.4);
+
+    // Replies follow their comment, indented
+    for (const comment of comments.filter((c) => !c.parent_id)) {
+      drawComment(comment, 0);
+      for (const reply of comments.filter((c) => c.parent_id === comment.id)) {
+        drawComment(reply, replyIndent);
+      }
+    }
+    doc.moveDown(0.4);
+  }
+}
+
 function drawFooter(doc: PDFKit.PDFDocument, generatedAt: string): void {
   // Move to bottom area or after content
   if (doc.y > PAGE_BOTTOM - 40) {
@@ -425,16 +642,30 @@ const ANNOTATION_COLORS: Record<string, { r: number; g: number; b: number }> = {
 
 const DEFAULT_ANNOTATION_COLOR = { r: 0.420, g: 0.447, b: 0.502 }; // gray-500
 
+function annotationColor(statuses: ProtocolStatus[] | undefined, key: string): { r: number; g: number; b: number } {
+  const hex = findStatus(statuses, key)?.color;
+  if (hex && /^#[0-9a-f]{6}$/i.test(hex)) {
+    return {
+      r: parseInt(hex.slice(1, 3), 16) / 255,
+      g: parseInt(hex.slice(3, 5), 16) / 255,
+      b: parseInt(hex.slice(5, 7), 16) / 255,
+    };
+  }
+  return ANNOTATION_COLORS[key] || DEFAULT_ANNOTATION_COLOR;
+}
+
 /**
  * Embed blueprint PDF pages with annotation overlays into the protocol PDF.
  * Uses pdf-lib to copy pages from blueprint PDFs and insert them after the
  * project description section. Draws colored rectangles and task number
- * badges matching the HTML report's visual style.
+ * badges matching the HTML report's visual style, and the tasks' measurements
+ * with their values.
  */
 async function embedBlueprints(
   baseBuffer: Buffer,
   blueprints: BlueprintData[],
   insertAfterPage: number,
+  statuses?: ProtocolStatus[],
 ): Promise<Buffer> {
   const pdfDoc = await PDFLibDocument.load(baseBuffer);
   const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
@@ -535,7 +766,7 @@ async function embedBlueprints(
         );
 
         for (const ann of pageAnnotations) {
-          const c = ANNOTATION_COLORS[ann.status] || DEFAULT_ANNOTATION_COLOR;
+          const c = annotationColor(statuses, ann.status);
 
           // Convert normalized 0-1 coords to PDF coords (origin bottom-left)
           const rectX = ann.x * pageWidth;
@@ -654,6 +885,53 @@ async function embedBlueprints(
           }
         }
 
+        // Draw measurements for this page: the measured lines or area, labelled with task number and value
+        const MEASURE_AMBER = rgb(0.851, 0.467, 0.024);
+        for (const measurement of (blueprint.measurements || []).filter((m) => m.page === pageIdx + 1)) {
+          const points = measurement.points.map((p) => ({ x: p.x * pageWidth, y: pageHeight - p.y * pageHeight }));
+          if (measurement.type === 'area') {
+            // SVG paths are drawn with the y axis pointing down from the given origin
+            const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${pageHeight - p.y}`).join(' ') + ' Z';
+            newPage.drawSvgPath(path, { x: 0, y: pageHeight, color: MEASURE_AMBER, opacity: 0.15 });
+          }
+          const segments = measurement.type === 'area' ? [...points, points[0]] : points;
+          for (let pi = 1; pi < segments.length; pi++) {
+            newPage.drawLine({
+              start: segments[pi - 1],
+              end: segments[pi],
+              thickness: 1.5,
+              color: MEASURE_AMBER,
+            });
+          }
+          for (const p of points) {
+            newPage.drawCircle({ x: p.x, y: p.y, size: 2, color: MEASURE_AMBER });
+          }
+
+          // Label at the centre of the points, on a white background
+          const labelStr = `#${measurement.taskNumber} ${measurement.label}`;
+          const labelSize = 7;
+          const labelWidth = helveticaBold.widthOfTextAtSize(labelStr, labelSize);
+          const centreX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+          const centreY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+          newPage.drawRectangle({
+            x: centreX - labelWidth / 2 - 3,
+            y: centreY - 4,
+            width: labelWidth + 6,
+            height: 11,
+            color: rgb(1, 1, 1),
+            opacity: 0.9,
+            borderColor: MEASURE_AMBER,
+            borderWidth: 0.75,
+          });
+          newPage.drawText(labelStr, {
+            x: centreX - labelWidth / 2,
+            y: centreY - 1.5,
+            size: labelSize,
+            font: helveticaBold,
+            color: MEASURE_AMBER,
+          });
+        }
+
         insertIndex++;
       }
     } catch (err) {
@@ -4,21 +4,69 @@ import * as projectModel from '../models/project.model';
 import * as protocolModel from '../models/protocol.model';
 import * as organizationModel from '../models/organization.model';
 import * as taskPhotoModel from '../models/taskPhoto.model';
+import * as commentModel from '../models/comment.model';
+import * as commentAttachmentModel from '../models/commentAttachment.model';
+import * as taskChecklistModel from '../models/taskChecklist.model';
 import * as blueprintModel from '../models/blueprint.model';
-import { generateProtocolPdf, TaskPhoto, BlueprintData, BlueprintAnnotation, BlueprintMarker } from './pdf.service';
+import {
+  generateProtocolPdf, TaskPhoto, TaskComment, TaskChecklistItem, BlueprintData, BlueprintAnnotation, BlueprintMarker,
+  BlueprintMeasurement,
+} from './pdf.service';
+import { formatMeasurement } from './measurement.service';
 import { buildS3Key, writeFile, readFile } from './storage.service';
 import { incrementStorageUsed } from './storageTracking.service';
 import { logAuditAction } from './audit.service';
+import { publishEvent } from './realtime.service';
+import { getWorkflow } from './workflow.service';
+import { describeFilters, toTaskFilters } from './taskFilter.service';
+import { TaskFiltersInput } from '../validators/task.validators';
+import { mentionsToPlainText } from '../utils/mentions';
 
 export interface ProtocolGenerationParams {
   projectId: string;
   organizationId: string;
   userId: string;
   name: string;
-  filters: Record<string, unknown>;
+  filters: TaskFiltersInput;
+  includeComments?: boolean;
   ipAddress: string;
 }
 
+/** Visible comments on the tasks with their attachments; image attachments are drawn from their thumbnails. */
+async function collectTaskComments(taskIds: string[]): Promise<TaskComment[]> {
+  const comments = await commentModel.findVisibleCommentsByTasks(taskIds);
+  const attachments = await commentAttachmentModel.findAttachmentsByComments(comments.map((c) => c.id));
+
+  const result: TaskComment[] = [];
+  for (const comment of comments) {
+    const files = [];
+    for (const attachment of attachments.filter((a) => a.comment_id === comment.id)) {
+      let imageBuffer: Buffer | undefined;
+      if (attachment.mime_type.startsWith('image/')) {
+        try {
+          imageBuffer = await readFile(attachment.thumbnail_url || attachment.file_url);
+        } catch (err) {
+          logger.warn({ err, attachmentId: attachment.id }, 'Failed to read comment attachment for protocol PDF');
+        }
+      }
+      files.push({ fileName: attachment.file_name, imageBuffer });
+    }
+    result.push({
+      id: comment.id,
+      task_id: comment.task_id,
+      parent_id: comment.parent_id,
+      author: comment.user_first_name
+        ? `${comment.user_first_name} ${comment.user_last_name}`
+        : comment.external_email || 'Unknown',
+      created_at: comment.created_at,
+      edited: !!comment.edited_at,
+      text: mentionsToPlainText(comment.comment_text),
+      attachments: files,
+    });
+  }
+  return result;
+}
+
 /**
  * Orchestrate protocol generation: query tasks → generate PDF → upload to S3 → update DB.
  * Runs asynchronously via setImmediate after returning the protocol ID.
@@ -32,6 +80,14 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
     generatedBy: params.userId,
   });
 
+  const notifyStatus = (status: string) => publishEvent({
+    type: 'protocol.status_changed',
+    organizationId: params.organizationId,
+    projectId: params.projectId,
+    data: { protocolId: protocol.id, status },
+  });
+  notifyStatus('generating');
+
   // Run generation in background
   setImmediate(async () => {
     try {
@@ -41,30 +97,18 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
 
       if (!project || !org) {
         await protocolModel.updateProtocolFailed(protocol.id);
+        notifyStatus('failed');
         return;
       }
 
-      // Build task filters
-      const taskFilters: taskModel.TaskFilters = {};
-      if (params.filters.status) taskFilters.status = params.filters.status as string;
-      if (params.filters.trade) taskFilters.trade = params.filters.trade as string;
-      if (params.filters.priority) taskFilters.priority = params.filters.priority as string;
-
       // Fetch tasks (no pagination — get all matching tasks)
       const { tasks } = await taskModel.findTasksByProject(
         params.projectId,
         params.organizationId,
-        taskFilters,
+        toTaskFilters(params.filters, params.userId),
         { limit: 10000, offset: 0 },
       );
 
-      // Build filter summary string
-      const filterParts: string[] = [];
-      if (params.filters.status) filterParts.push(`Status: ${params.filters.status}`);
-      if (params.filters.trade) filterParts.push(`Trade: ${params.filters.trade}`);
-      if (params.filters.priority) filterParts.push(`Priority: ${params.filters.priority}`);
-      const filterSummary = filterParts.length > 0 ? filterParts.join(', ') : 'All tasks';
-
       // Fetch task photos
       const tasksWithPhotos = tasks.filter((t) => t.photo_count > 0);
       const taskPhotos: TaskPhoto[] = [];
@@ -89,6 +133,20 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
         }
       }
 
+      const taskChecklists: TaskChecklistItem[] = (await taskChecklistModel.findItemsByTasks(
+        tasks.filter((t) => t.checklist_item_count > 0).map((t) => t.id),
+      )).map((item) => ({
+        task_id: item.task_id,
+        text: item.text,
+        is_required: item.is_required,
+        checked_by: item.checked_by_first_name ? `${item.checked_by_first_name} ${item.checked_by_last_name}` : null,
+        checked_at: item.checked_at,
+      }));
+
+      const taskComments = params.includeComments
+        ? await collectTaskComments(tasks.filter((t) => t.comment_count > 0).map((t) => t.id))
+        : [];
+
       // Fetch blueprints with annotations
       const blueprintRows = await blueprintModel.findBlueprintsByProject(
         params.projectId,
@@ -100,11 +158,13 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
         try {
           const pdfBuffer = await readFile(bp.file_url);
 
-          // Gather annotations from tasks that reference this blueprint
+          // Gather annotations from tasks that reference this blueprint; those still on
+          // an older revision awaiting review do not belong on the current drawing
+          const onCurrent = (t: (typeof tasks)[number]) => t.blueprint_id === bp.id && !t.annotation_revision_id;
           const annotations: BlueprintAnnotation[] = tasks
             .filter(
               (t) =>
-                t.blueprint_id === bp.id &&
+                onCurrent(t) &&
                 t.annotation_x != null &&
                 t.annotation_y != null &&
                 t.annotation_width != null &&
@@ -125,7 +185,7 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
           const bpMarkers: BlueprintMarker[] = tasks
             .filter(
               (t) =>
-                t.blueprint_id === bp.id &&
+                onCurrent(t) &&
                 Array.isArray(t.annotation_markers) &&
                 t.annotation_markers.length > 0,
             )
@@ -134,17 +194,44 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
               markers: t.annotation_markers!,
             }));
 
+          // Gather measurements from tasks that reference this blueprint
+          const bpMeasurements: BlueprintMeasurement[] = tasks
+            .filter((t) => onCurrent(t) && Array.isArray(t.measurements))
+            .flatMap((t) => t.measurements!.map((m) => ({
+              taskNumber: t.task_number,
+              type: m.type,
+              page: m.page,
+              points: m.points,
+              label: m.label ? `${m.label} ${formatMeasurement(m)}` : formatMeasurement(m),
+            })));
+
           blueprints.push({
             name: bp.name,
             pdfBuffer,
             annotations,
             markers: bpMarkers.length > 0 ? bpMarkers : undefined,
+            measurements: bpMeasurements.length > 0 ? bpMeasurements : undefined,
           });
         } catch (err) {
           logger.warn({ err, blueprintId: bp.id }, 'Failed to read blueprint for protocol PDF');
         }
       }
 
+      const workflow = await getWorkflow(params.organizationId);
+
+      // Build filter summary string
+      const filterParts = describeFilters(params.filters, {
+        statuses: new Map(workflow.statuses.map((s) => [s.key, s.label])),
+        users: new Map(tasks
+          .filter((t) => t.assigned_to_user)
+          .map((t) => [t.assigned_to_user!, `${t.assignee_first_name} ${t.assignee_last_name}`])),
+        blueprints: params.filters.blueprintId
+          ? new Map((await blueprintModel.findBlueprintsByProject(params.projectId, params.organizationId))
+            .map((b) => [b.id, b.name]))
+          : undefined,
+      });
+      const filterSummary = filterParts.length > 0 ? filterParts.join(', ') : 'All tasks';
+
       // Generate PDF
       const pdfBuffer = await generateProtocolPdf({
         organizationName: org.name,
@@ -160,7 +247,10 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
         filterSummary,
         tasks,
         taskPhotos: taskPhotos.length > 0 ? taskPhotos : undefined,
+        taskChecklists: taskChecklists.length > 0 ? taskChecklists : undefined,
+        taskComments: taskComments.length > 0 ? taskComments : undefined,
         blueprints: blueprints.length > 0 ? blueprints : undefined,
+        statuses: workflow.statuses,
       });
 
       // Upload to S3
@@ -176,6 +266,7 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
 
       // Update protocol record
       await protocolModel.updateProtocolCompleted(protocol.id, s3Key, pdfBuffer.length);
+      notifyStatus('completed');
 
       // Track storage
       await incrementStorageUsed(params.organizationId, pdfBuffer.length);
@@ -200,6 +291,7 @@ export async function startProtocolGeneration(params: ProtocolGenerationParams):
     } catch (err) {
       logger.error({ err, protocolId: protocol.id }, 'Protocol generation failed');
       await protocolModel.updateProtocolFailed(protocol.id);
+      notifyStatus('failed');
     }
   });
 
@@ -0,0 +1,169 @@
+import { Client, Notification } from 'pg';
+import config from '../config';
+import { logger } from '../utils/logger';
+import pool from '../config/database';
+import { UserRole } from '../types';
+import * as projectMemberModel from '../models/projectMember.model';
+
+// Events travel through Postgres so every backend instance sees every change
+const CHANNEL = 'realtime_events';
+const RECONNECT_DELAY_MS = 5000;
+
+export type RealtimeEventType =
+  | 'task.created'
+  | 'task.updated'
+  | 'task.deleted'
+  | 'tasks.bulk_changed'
+  | 'comment.created'
+  | 'comment.updated'
+  | 'comment.deleted'
+  | 'photo.confirmed'
+  | 'photo.deleted'
+  | 'protocol.status_changed'
+  | 'blueprint.previews_changed'
+  | 'blueprint.calibration_changed'
+  | 'backup.status_changed'
+  | 'project_member.changed'
+  | 'notification.created';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  organizationId: string;
+  /** Only members of this project (and org admins) receive the event */
+  projectId?: string;
+  /** Only org admins receive the event */
+  adminOnly?: boolean;
+  /** Only these users receive the event */
+  userIds?: string[];
+  /** Ids only — NOTIFY payloads are capped at 8000 bytes and clients refetch anyway */
+  data: Record<string, unknown>;
+}
+
+export interface RealtimeSubscriber {
+  userId: string;
+  organizationId: string;
+  role: UserRole;
+  send: (event: RealtimeEvent) => void;
+  close: () => void;
+}
+
+interface Subscription extends RealtimeSubscriber {
+  /** null = every project in the organisation */
+  projectIds: Set<string> | null;
+}
+
+const subscriptions = new Set<Subscription>();
+let listener: Client | null = null;
+let stopped = false;
+
+function isAdmin(role: UserRole): boolean {
+  return role === UserRole.SUPER_ADMIN || role === UserRole.ORG_ADMIN;
+}
+
+async function loadProjectIds(sub: Subscription): Promise<void> {
+  sub.projectIds = isAdmin(sub.role) ? null : new Set(await projectMemberModel.findProjectIdsByUser(sub.userId));
+}
+
+export function canReceive(
+  sub: { userId: string; organizationId: string; role: UserRole; projectIds: Set<string> | null },
+  event: RealtimeEvent,
+): boolean {
+  if (event.organizationId !== sub.organizationId) return false;
+  if (event.userIds && !event.userIds.includes(sub.userId)) return false;
+  if (event.adminOnly && !isAdmin(sub.role)) return false;
+  if (event.projectId && sub.projectIds && !sub.projectIds.has(event.projectId)) return false;
+  return true;
+}
+
+async function dispatch(event: RealtimeEvent): Promise<void> {
+  for (const sub of subscriptions) {
+    try {
+      // A membership change has to reach the user it is about, even when it removed their access
+      if (event.type === 'project_member.changed' && event.data.userId === sub.userId
+        && event.organizationId === sub.organizationId) {
+        await loadProjectIds(sub);
+        sub.send(event);
+        continue;
+      }
+      if (canReceive(sub, event)) sub.send(event);
+    } catch (err) {
+      logger.warn({ err, userId: sub.userId }, 'Failed to deliver realtime event');
+    }
+  }
+}
+
+function handleNotification(msg: Notification): void {
+  if (msg.channel !== CHANNEL || !msg.payload) return;
+  try {
+    dispatch(JSON.parse(msg.payload) as RealtimeEvent);
+  } catch (err) {
+    logger.error({ err }, 'Invalid realtime event payload');
+  }
+}
+
+/**
+ * Broadcast an event to every connected client allowed to see it, on any
+ * instance. Fire-and-forget — never fails the request that caused it.
+ */
+export function publishEvent(event: RealtimeEvent): void {
+  setImmediate(async () => {
+    try {
+      await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, JSON.stringify(event)]);
+    } catch (err) {
+      logger.error({ err, type: event.type }, 'Failed to publish realtime event');
+    }
+  });
+}
+
+/** Register a connected client. Returns the function that unregisters it. */
+export async function subscribe(subscriber: RealtimeSubscriber): Promise<() => void> {
+  const sub: Subscription = { ...subscriber, projectIds: new Set() };
+  await loadProjectIds(sub);
+  subscriptions.add(sub);
+  return () => {
+    subscriptions.delete(sub);
+  };
+}
+
+/**
+ * Hold one dedicated connection that LISTENs for events from all instances.
+ * Reconnects after a delay if the connection drops.
+ */
+export async function initRealtimeListener(): Promise<void> {
+  stopped = false;
+  const client = new Client({ connectionString: config.db.url });
+
+  const reconnect = () => {
+    if (listener !== client) return;
+    listener = null;
+    client.end().catch(() => undefined);
+    if (!stopped) setTimeout(() => initRealtimeListener(), RECONNECT_DELAY_MS);
+  };
+
+  client.on('notification', handleNotification);
+  client.on('error', (err) => {
+    logger.error({ err }, 'Realtime listener connection error');
+    reconnect();
+  });
+  client.on('end', reconnect);
+
+  listener = client;
+  try {
+    await client.connect();
+    await client.query(`LISTEN ${CHANNEL}`);
+    logger.info('Realtime listener started');
+  } catch (err) {
+    logger.error({ err }, 'Failed to start realtime listener');
+    reconnect();
+  }
+}
+
+/** Close every open stream and the listener so the server can shut down. */
+export async function stopRealtime(): Promise<void> {
+  stopped = true;
+  for (const sub of subscriptions) sub.close();
+  subscriptions.clear();
+  const client = listener;
+  listener = null;
+  if (client) await client.end().catch(() => undefined);
+}
@@ -0,0 +1,142 @@
+import cron from 'node-cron';
+import config from '../config';
+import { logger } from '../utils/logger';
+import * as slaRuleModel from '../models/slaRule.model';
+import * as taskModel from '../models/task.model';
+import { sendEmail } from './email.service';
+import { renderOverdueEscalation, renderTaskDueReminder } from './emailTemplate.service';
+
+/**
+ * Pick the rule that best matches a task. Project rules override organisation
+ * rules; within a scope a rule naming both priority and trade beats one naming
+ * only the trade, which beats one naming only the priority, which beats a
+ * catch-all rule.
+ */
+export function findMatchingRule(
+  rules: slaRuleModel.SlaRuleRow[],
+  task: { projectId: string; priority: string; trade?: string | null },
+): slaRuleModel.SlaRuleRow | null {
+  let best: slaRuleModel.SlaRuleRow | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    if (rule.project_id && rule.project_id !== task.projectId) continue;
+    if (rule.priority && rule.priority !== task.priority) continue;
+    if (rule.trade && rule.trade.toLowerCase() !== (task.trade || '').toLowerCase()) continue;
+
+    const score = (rule.project_id ? 4 : 0) + (rule.trade ? 2 : 0) + (rule.priority ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Default due date (YYYY-MM-DD) from the organisation's SLA rules, or null when no rule applies. */
+export async function resolveDueDate(
+  organizationId: string,
+  task: { projectId: string; priority: string; trade?: string | null },
+  from: Date = new Date(),
+): Promise<string | null> {
+  const rules = await slaRuleModel.findRulesForProject(organizationId, task.projectId);
+  const rule = findMatchingRule(rules, task);
+  if (!rule) return null;
+
+  // Today's date in the configured timezone, whatever the server's own timezone is
+  const today = new Intl.DateTimeFormat('en-CA', {
+    timeZone: config.dueDates.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(from);
+  const due = new Date(`${today}T00:00:00Z`);
+  due.setUTCDate(due.getUTCDate() + rule.due_in_days);
+  return due.toISOString().slice(0, 10);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!k) continue;
+    groups.set(k, [...(groups.get(k) || []), item]);
+  }
+  return groups;
+}
+
+/** Remind assignees (users and contractors) of tasks coming due, one email per recipient. */
+async function sendDueReminders(): Promise<number> {
+  // Tasks without anyone to remind are claimed too so they are not picked up every day
+  const tasks = await taskModel.claimTasksDueForReminder(config.dueDates.reminderDays);
+  const byRecipient = groupBy(tasks, (t) => (t.assignee_email || t.assigned_to_contractor_email)?.toLowerCase() ?? null);
+
+  for (const [email, group] of byRecipient) {
+    const isUser = !!group[0].assignee_email;
+    sendEmail({
+      to: email,
+      ...renderTaskDueReminder({
+        firstName: group[0].assignee_first_name || undefined,
+        tasks: group.map((t) => ({
+          projectName: t.project_name,
+          taskNumber: t.task_number,
+          title: t.title,
+          dueDate: t.due_date_text,
+        })),
+        tasksUrl: isUser ? `${config.frontendUrl}/my-tasks` : undefined,
+      }),
+    });
+  }
+
+  return byRecipient.size;
+}
+
+/** Tell each project's responsible user (or its creator) about newly overdue tasks. */
+async function sendOverdueEscalations(): Promise<number> {
+  const tasks = await taskModel.claimOverdueTasksForEscalation();
+  const byProject = groupBy(tasks, (t) => (t.escalation_email ? t.project_id : null));
+
+  for (const group of byProject.values()) {
+    const first = group[0];
+    sendEmail({
+      to: first.escalation_email!,
+      ...renderOverdueEscalation({
+        firstName: first.escalation_first_name || '',
+        projectName: first.project_name,
+        projectUrl: `${config.frontendUrl}/projects/${first.project_id}`,
+        tasks: group.map((t) => ({
+          taskNumber: t.task_number,
+          title: t.title,
+          dueDate: t.due_date_text,
+          daysOverdue: t.days_overdue,
+          assignee: t.assignee_email || t.assigned_to_contractor_email || 'nobody',
+        })),
+      }),
+    });
+  }
+
+  return byProject.size;
+}
+
+export async function runDueDateChecks(): Promise<{ reminders: number; escalations: number }> {
+  const reminders = await sendDueReminders();
+  const escalations = await sendOverdueEscalations();
+  logger.info({ reminders, escalations }, 'Due date checks completed');
+  return { reminders, escalations };
+}
+
+export function initDueDateScheduler(): void {
+  if (!cron.validate(config.dueDates.checkCron)) {
+    logger.warn({ cronExpr: config.dueDates.checkCron }, 'Invalid due date check cron expression, skipping');
+    return;
+  }
+
+  cron.schedule(config.dueDates.checkCron, async () => {
+    try {
+      await runDueDateChecks();
+    } catch (err) {
+      logger.error({ err }, 'Due date checks failed');
+    }
+  });
+  logger.info({ cronExpr: config.dueDates.checkCron }, 'Due date scheduler registered');
+}
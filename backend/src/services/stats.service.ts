@@ -59,12 +59,13 @@ export async function getOrgStats(organizationId: string): Promise<OrgStats> {
     pool.query(
       `SELECT
          COUNT(*)::int AS total,
-         COUNT(*) FILTER (WHERE t.status = 'open')::int AS open,
-         COUNT(*) FILTER (WHERE t.status = 'in_progress')::int AS in_progress,
-         COUNT(*) FILTER (WHERE t.status = 'completed')::int AS completed,
-         COUNT(*) FILTER (WHERE t.status = 'verified')::int AS verified
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'open')::int AS open,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'in_progress')::int AS in_progress,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'completed')::int AS completed,
+         COUNT(*) FILTER (WHERE COALESCE(ws.category, t.status) = 'verified')::int AS verified
        FROM tasks t
        JOIN projects p ON p.id = t.project_id
+       LEFT JOIN workflow_statuses ws ON ws.organization_id = p.organization_id AND ws.status_key = t.status
        WHERE p.organization_id = $1`,
       [organizationId],
     ),
@@ -91,11 +92,14 @@ export async function getOrgStats(organizationId: string): Promise<OrgStats> {
     ),
     pool.query(
       `SELECT
-         COUNT(*) FILTER (WHERE action = 'user.login')::int AS logins,
-         COUNT(*) FILTER (WHERE action = 'task.created')::int AS tasks_created,
-         COUNT(*) FILTER (WHERE action = 'task.status_changed' AND metadata->>'to' = 'completed')::int AS tasks_completed
-       FROM audit_log
-       WHERE organization_id = $1 AND created_at >= NOW() - INTERVAL '7 days'`,
+         COUNT(*) FILTER (WHERE a.action = 'user.login')::int AS logins,
+         COUNT(*) FILTER (WHERE a.action = 'task.created')::int AS tasks_created,
+         COUNT(*) FILTER (
+           WHERE a.action = 'task.status_changed' AND COALESCE(ws.category, a.metadata->>'to') = 'completed'
+         )::int AS tasks_completed
+       FROM audit_log a
+       LEFT JOIN workflow_statuses ws ON ws.organization_id = a.organization_id AND ws.status_key = a.metadata->>'to'
+       WHERE a.organization_id = $1 AND a.created_at >= NOW() - INTERVAL '7 days'`,
       [organizationId],
     ),
   ]);
@@ -196,9 +200,12 @@ export async function getUserActivity(
        u.last_login_at,
        COUNT(*) FILTER (WHERE a.action = 'user.login')::int AS login_count,
        COUNT(*) FILTER (WHERE a.action = 'task.created')::int AS tasks_created,
-       COUNT(*) FILTER (WHERE a.action = 'task.status_changed' AND a.metadata->>'to' = 'completed')::int AS tasks_completed
+       COUNT(*) FILTER (
+         WHERE a.action = 'task.status_changed' AND COALESCE(ws.category, a.metadata->>'to') = 'completed'
+       )::int AS tasks_completed
      FROM users u
      LEFT JOIN audit_log a ON a.user_id = u.id ${dateFilter}
+     LEFT JOIN workflow_statuses ws ON ws.organization_id = u.organization_id AND ws.status_key = a.metadata->>'to'
      WHERE u.organization_id = $1 AND u.is_active = true
      GROUP BY u.id, u.email, u.first_name, u.last_name, u.role, u.last_login_at
      ORDER BY login_count DESC`,
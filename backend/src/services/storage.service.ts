@@ -41,7 +41,7 @@ export interface PresignedUploadResult {
  * Pattern: {type}/{orgId}/{parentId}/{resourceId}/{filename}
  */
 export function buildS3Key(
-  type: 'blueprints' | 'photos' | 'protocols' | 'product-images' | 'project-images' | 'org-logos' | 'backups' | 'bug-screenshots',
+  type: 'blueprints' | 'photos' | 'protocols' | 'product-images' | 'project-images' | 'org-logos' | 'backups' | 'bug-screenshots' | 'inbound-email' | 'comment-attachments',
   orgId: string,
   parentId: string,
   resourceId: string,
@@ -74,10 +74,17 @@ export async function recalculateStorageUsed(
   const result = await pool.query(
     `SELECT
        COALESCE((
-         SELECT SUM(b.file_size_bytes)
-         FROM blueprints b
+         SELECT SUM(br.file_size_bytes)
+         FROM blueprint_revisions br
+         JOIN blueprints b ON b.id = br.blueprint_id
          JOIN projects p ON p.id = b.project_id
-         WHERE p.organization_id = $1
+         WHERE p.organization_id = $1 AND br.confirmed_at IS NOT NULL
+       ), 0) +
+       COALESCE((
+         SELECT SUM(ds.file_size_bytes)
+         FROM drawing_sets ds
+         JOIN projects p ON p.id = ds.project_id
+         WHERE p.organization_id = $1 AND ds.status = 'review'
        ), 0) +
        COALESCE((
          SELECT SUM(tp.file_size_bytes)
@@ -86,6 +93,13 @@ export async function recalculateStorageUsed(
          JOIN projects p ON p.id = t.project_id
          WHERE p.organization_id = $1
        ), 0) +
+       COALESCE((
+         SELECT SUM(ca.file_size_bytes)
+         FROM task_comment_attachments ca
+         JOIN tasks t ON t.id = ca.task_id
+         JOIN projects p ON p.id = t.project_id
+         WHERE p.organization_id = $1 AND ca.confirmed_at IS NOT NULL
+       ), 0) +
        COALESCE((
          SELECT SUM(pr.file_size_bytes)
          FROM protocols pr
@@ -0,0 +1,274 @@
+import config from '../config';
+import { logger } from '../utils/logger';
+import { UserRole } from '../types';
+import * as taskModel from '../models/task.model';
+import * as commentModel from '../models/comment.model';
+import * as userModel from '../models/user.model';
+import { logAuditAction } from './audit.service';
+import { sendEmail } from './email.service';
+import { renderBulkTaskAssignment, renderTaskAssignment } from './emailTemplate.service';
+import { buildReplyAddress } from './inboundEmail.service';
+import { validateCustomFields } from './customFieldValidation.service';
+import * as workflowService from './workflow.service';
+import * as taskHistoryService from './taskHistory.service';
+import * as taskRelationService from './taskRelation.service';
+import { checkRequiredItems } from './taskTemplate.service';
+import { annotationRevisionUpdates } from './blueprintRevision.service';
+import { notify } from './notification.service';
+
+export interface BulkTaskChanges {
+  status?: string;
+  statusComment?: string;
+  priority?: string;
+  trade?: string | null;
+  blueprintId?: string | null;
+  assignedToUser?: string | null;
+  assignedToContractorEmail?: string | null;
+  customFields?: Record<string, unknown>;
+}
+
+export interface BulkActor {
+  userId: string;
+  organizationId: string;
+  role: UserRole;
+  ipAddress: string;
+}
+
+export interface BulkTaskResult {
+  taskId: string;
+  taskNumber: number | null;
+  success: boolean;
+  error?: { code: string; message: string };
+}
+
+interface BulkProject {
+  id: string;
+  name: string;
+}
+
+function failure(task: { id: string; task_number: number }, code: string, message: string): BulkTaskResult {
+  return { taskId: task.id, taskNumber: task.task_number, success: false, error: { code, message } };
+}
+
+/**
+ * Apply the same changes to each task, checking the caller's permission, the
+ * workflow transition and custom fields per task exactly as a single update
+ * would. A task that fails is reported and skipped; the others still change.
+ */
+export async function updateTasks(
+  project: BulkProject,
+  tasks: taskModel.TaskWithCounts[],
+  changes: BulkTaskChanges,
+  actor: BulkActor,
+): Promise<BulkTaskResult[]> {
+  const workflow = await workflowService.getWorkflow(actor.organizationId);
+  const { statusComment: rawComment, ...fields } = changes;
+  const statusComment = rawComment?.trim() || '';
+  const results: BulkTaskResult[] = [];
+  const assigned: taskModel.TaskRow[] = [];
+
+  for (const existingTask of tasks) {
+    try {
+      if (actor.role === UserRole.FIELD_USER
+        && existingTask.assigned_to_user !== actor.userId && existingTask.created_by !== actor.userId) {
+        results.push(failure(existingTask, 'FORBIDDEN', 'You can only update tasks assigned to or created by you'));
+        continue;
+      }
+
+      const updates: Record<string, unknown> = { ...fields };
+
+      const statusChanged = !!fields.status && fields.status !== existingTask.status;
+      if (!statusChanged) delete updates.status;
+      if (statusChanged) {
+        const transitionError = workflowService.checkTransition(workflow, existingTask.status, fields.status!, {
+          role: actor.role,
+          hasComment: !!statusComment,
+          hasPhoto: existingTask.photo_count > 0,
+        }) || checkRequiredItems(workflow, existingTask, fields.status!)
+          || await taskRelationService.checkBlockers(workflow, existingTask, fields.status!);
+        if (transitionError) {
+          results.push(failure(existingTask, transitionError.code, transitionError.message));
+          continue;
+        }
+
+        const category = workflowService.getStatusCategory(workflow, fields.status!);
+        if (category === 'completed') {
+          updates.completedAt = new Date().toISOString();
+        } else if (category === 'verified') {
+          updates.verifiedAt = new Date().toISOString();
+        }
+      }
+
+      // Bulk values are merged into each task's own custom fields before validating the whole set
+      if (fields.customFields) {
+        const merged = { ...(existingTask.custom_fields || {}), ...fields.customFields };
+        const cfResult = await validateCustomFields(actor.organizationId, 'task', merged);
+        if (!cfResult.valid) {
+          results.push(failure(existingTask, 'VALIDATION_ERROR', Object.values(cfResult.errors).join('; ')));
+          continue;
+        }
+        updates.customFields = cfResult.sanitized;
+      }
+
+      Object.assign(updates, annotationRevisionUpdates(existingTask, updates));
+
+      const task = await taskModel.updateTask(existingTask.id, updates);
+      if (!task) {
+        results.push(failure(existingTask, 'NOT_FOUND', 'Task not found'));
+        continue;
+      }
+
+      await taskHistoryService.recordTaskChanges(existingTask, task, { userId: actor.userId });
+
+      if (statusChanged) {
+        await taskRelationService.notifyUnblockedTasks(workflow, task, existingTask.status, {
+          organizationId: actor.organizationId,
+          actorId: actor.userId,
+        });
+      }
+
+      if (statusChanged && statusComment) {
+        await commentModel.createComment({ taskId: task.id, userId: actor.userId, commentText: statusComment });
+      }
+
+      logAuditAction({
+        organizationId: actor.organizationId,
+        userId: actor.userId,
+        action: statusChanged ? 'task.status_changed' : 'task.updated',
+        resourceType: 'task',
+        resourceId: task.id,
+        metadata: {
+          projectId: project.id,
+          bulk: true,
+          ...(statusChanged ? { from: existingTask.status, to: task.status } : {}),
+        },
+        ipAddress: actor.ipAddress,
+      });
+
+      const newlyAssigned = (task.assigned_to_user && task.assigned_to_user !== existingTask.assigned_to_user)
+        || (task.assigned_to_contractor_email
+          && task.assigned_to_contractor_email !== existingTask.assigned_to_contractor_email);
+      if (newlyAssigned) assigned.push(task);
+
+      results.push({ taskId: task.id, taskNumber: task.task_number, success: true });
+    } catch (err) {
+      logger.error({ err, taskId: existingTask.id }, 'Bulk task update failed');
+      results.push(failure(existingTask, 'INTERNAL_ERROR', 'Task could not be updated'));
+    }
+  }
+
+  // Completion notices stay with the single-task update; a bulk close-out would flood the project manager
+  await sendAssignmentEmails(project, assigned, actor);
+
+  return results;
+}
+
+export async function deleteTasks(
+  project: BulkProject,
+  tasks: taskModel.TaskWithCounts[],
+  actor: BulkActor,
+): Promise<BulkTaskResult[]> {
+  const results: BulkTaskResult[] = [];
+
+  for (const task of tasks) {
+    try {
+      const deleted = await taskModel.deleteTask(task.id);
+      if (!deleted) {
+        results.push(failure(task, 'NOT_FOUND', 'Task not found'));
+        continue;
+      }
+
+      logAuditAction({
+        organizationId: actor.organizationId,
+        userId: actor.userId,
+        action: 'task.deleted',
+        resourceType: 'task',
+        resourceId: task.id,
+        metadata: { projectId: project.id, bulk: true, taskNumber: task.task_number },
+        ipAddress: actor.ipAddress,
+      });
+
+      results.push({ taskId: task.id, taskNumber: task.task_number, success: true });
+    } catch (err) {
+      logger.error({ err, taskId: task.id }, 'Bulk task delete failed');
+      results.push(failure(task, 'INTERNAL_ERROR', 'Task could not be deleted'));
+    }
+  }
+
+  return results;
+}
+
+/** One assignment email per recipient listing every task they were given. */
+async function sendAssignmentEmails(project: BulkProject, tasks: taskModel.TaskRow[], actor: BulkActor): Promise<void> {
+  if (tasks.length === 0) return;
+
+  const assigner = await userModel.findUserById(actor.userId);
+  const assignedBy = assigner ? `${assigner.first_name} ${assigner.last_name}` : 'A project manager';
+
+  const byUser = new Map<string, taskModel.TaskRow[]>();
+  const byContractor = new Map<string, taskModel.TaskRow[]>();
+  for (const task of tasks) {
+    if (task.assigned_to_user && task.assigned_to_user !== actor.userId) {
+      byUser.set(task.assigned_to_user, [...(byUser.get(task.assigned_to_user) || []), task]);
+    }
+    if (task.assigned_to_contractor_email) {
+      const email = task.assigned_to_contractor_email.toLowerCase();
+      byContractor.set(email, [...(byContractor.get(email) || []), task]);
+    }
+  }
+
+  const summarize = (group: taskModel.TaskRow[]) => group.map((t) => ({
+    taskNumber: t.task_number,
+    title: t.title,
+    priority: t.priority,
+    trade: t.trade,
+  }));
+
+  for (const [userId, group] of byUser) {
+    notify({
+      type: 'task_assigned',
+      organizationId: actor.organizationId,
+      recipientIds: [userId],
+      actorId: actor.userId,
+      projectId: project.id,
+      taskId: group.length === 1 ? group[0].id : null,
+      title: group.length === 1
+        ? `Task #${group[0].task_number} assigned to you: ${group[0].title}`
+        : `${group.length} tasks assigned to you in ${project.name}`,
+      body: `Assigned by ${assignedBy}`,
+      link: group.length === 1 ? `/projects/${project.id}/tasks/${group[0].id}` : '/my-tasks',
+      email: (recipient) => renderBulkTaskAssignment({
+        firstName: recipient.firstName,
+        projectName: project.name,
+        assignedBy,
+        tasks: summarize(group),
+        tasksUrl: `${config.frontendUrl}/my-tasks`,
+      }),
+    });
+  }
+
+  for (const [email, group] of byContractor) {
+    // A single task keeps the regular email so the contractor can reply to it directly
+    if (group.length === 1) {
+      const task = group[0];
+      sendEmail({
+        to: email,
+        ...renderTaskAssignment({
+          projectName: project.name,
+          taskTitle: task.title,
+          priority: task.priority,
+          trade: task.trade || '',
+          description: task.description || undefined,
+          assignedBy,
+          replyToken: task.reply_token,
+        }),
+        replyTo: task.reply_token ? buildReplyAddress(task.reply_token) : undefined,
+      });
+      continue;
+    }
+    sendEmail({
+      to: email,
+      ...renderBulkTaskAssignment({ projectName: project.name, assignedBy, tasks: summarize(group) }),
+    });
+  }
+}
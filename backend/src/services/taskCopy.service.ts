@@ -0,0 +1,274 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import mime from 'mime-types';
+import { logger } from '../utils/logger';
+import * as taskModel from '../models/task.model';
+import * as taskPhotoModel from '../models/taskPhoto.model';
+import * as commentModel from '../models/comment.model';
+import * as commentAttachmentModel from '../models/commentAttachment.model';
+import * as productModel from '../models/product.model';
+import * as taskChecklistModel from '../models/taskChecklist.model';
+import * as taskRelationModel from '../models/taskRelation.model';
+import * as taskMoveModel from '../models/taskMove.model';
+import * as mentionModel from '../models/mention.model';
+import * as projectMemberModel from '../models/projectMember.model';
+import * as storageService from './storage.service';
+import * as storageTracking from './storageTracking.service';
+import * as workflowService from './workflow.service';
+import * as slaService from './sla.service';
+import * as taskHistoryService from './taskHistory.service';
+import { logAuditAction } from './audit.service';
+import { publishEvent } from './realtime.service';
+
+export interface CopyActor {
+  userId: string;
+  organizationId: string;
+  ipAddress: string;
+}
+
+interface CopyProject {
+  id: string;
+  name: string;
+}
+
+/** The stored files a duplicate of the task would copy. */
+export interface CopyableFiles {
+  photos: taskPhotoModel.TaskPhotoRow[];
+  attachments: commentAttachmentModel.CommentAttachmentRow[];
+  totalBytes: number;
+}
+
+export async function findCopyableFiles(taskId: string, organizationId: string): Promise<CopyableFiles> {
+  const photos = await taskPhotoModel.findPhotosByTask(taskId, organizationId);
+  const comments = await commentModel.findVisibleCommentsByTasks([taskId]);
+  const attachments = await commentAttachmentModel.findAttachmentsByComments(comments.map((c) => c.id));
+  const totalBytes = [...photos, ...attachments].reduce((sum, file) => sum + (Number(file.file_size_bytes) || 0), 0);
+  return { photos, attachments, totalBytes };
+}
+
+async function copyObject(sourceKey: string, targetKey: string): Promise<void> {
+  const data = await storageService.readFile(sourceKey);
+  await storageService.writeFile(targetKey, data, mime.lookup(sourceKey) || 'application/octet-stream');
+}
+
+/**
+ * Copy a stored file and its thumbnail under the new task's prefix. Returns null
+ * when the source cannot be read, e.g. a photo whose upload was never finished.
+ */
+async function copyStoredFile(
+  type: 'photos' | 'comment-attachments',
+  organizationId: string,
+  taskId: string,
+  file: { file_url: string; thumbnail_url: string | null },
+): Promise<{ resourceId: string; fileUrl: string; thumbnailUrl: string | null } | null> {
+  const resourceId = randomUUID();
+  const fileUrl = storageService.buildS3Key(type, organizationId, taskId, resourceId, path.posix.basename(file.file_url));
+  try {
+    await copyObject(file.file_url, fileUrl);
+  } catch (err) {
+    logger.warn({ err, key: file.file_url }, 'Could not copy file for duplicated task, skipping it');
+    return null;
+  }
+
+  // The thumbnail sits next to the file, so it keeps its name in the new folder
+  let thumbnailUrl: string | null = null;
+  if (file.thumbnail_url) {
+    const key = storageService.buildS3Key(type, organizationId, taskId, resourceId, path.posix.basename(file.thumbnail_url));
+    try {
+      await copyObject(file.thumbnail_url, key);
+      thumbnailUrl = key;
+    } catch (err) {
+      logger.warn({ err, key: file.thumbnail_url }, 'Could not copy thumbnail for duplicated task');
+    }
+  }
+  return { resourceId, fileUrl, thumbnailUrl };
+}
+
+/**
+ * Create a copy of the task in the target project, which may be its own. The
+ * copy starts over in the initial status with products, custom fields, an
+ * unticked checklist, the comments and copies of all files. Blueprint, pin and
+ * annotations only apply within the task's own project; an assignee who is not
+ * a member of the target project is left out.
+ */
+export async function duplicateTask(
+  task: taskModel.TaskRow,
+  target: CopyProject,
+  files: CopyableFiles,
+  actor: CopyActor,
+): Promise<taskModel.TaskRow> {
+  const sameProject = task.project_id === target.id;
+  const assignee = task.assigned_to_user && await projectMemberModel.findMember(target.id, task.assigned_to_user)
+    ? task.assigned_to_user
+    : undefined;
+
+  const workflow = await workflowService.getWorkflow(actor.organizationId);
+  const dueDate = await slaService.resolveDueDate(actor.organizationId, {
+    projectId: target.id,
+    priority: task.priority,
+    trade: task.trade ?? undefined,
+  });
+
+  const copy = await taskModel.createTask({
+    projectId: target.id,
+    title: task.title,
+    description: task.description ?? undefined,
+    status: workflowService.getInitialStatus(workflow),
+    priority: task.priority,
+    trade: task.trade ?? undefined,
+    assignedToUser: assignee,
+    assignedToContractorEmail: task.assigned_to_contractor_email ?? undefined,
+    customFields: task.custom_fields ?? undefined,
+    dueDate,
+    createdBy: actor.userId,
+    ...(sameProject && {
+      blueprintId: task.blueprint_id ?? undefined,
+      locationX: task.location_x ?? undefined,
+      locationY: task.location_y ?? undefined,
+      annotationX: task.annotation_x ?? undefined,
+      annotationY: task.annotation_y ?? undefined,
+      annotationWidth: task.annotation_width ?? undefined,
+      annotationHeight: task.annotation_height ?? undefined,
+      annotationPage: task.annotation_page ?? undefined,
+      annotationMarkers: task.annotation_markers,
+      measurements: task.measurements,
+    }),
+  });
+
+  await taskHistoryService.recordTaskCreated(copy, { userId: actor.userId });
+
+  // The copied annotation stays on the blueprint revision it is drawn on
+  if (sameProject && (task.annotation_revision_id || task.annotation_recorded_revision_id)) {
+    await taskModel.updateTask(copy.id, {
+      annotationRevisionId: task.annotation_revision_id,
+      annotationRecordedRevisionId: task.annotation_recorded_revision_id,
+    });
+  }
+
+  for (const product of await productModel.findProductsByTask(task.id, actor.organizationId)) {
+    await productModel.addProductToTask(copy.id, product.product_id, actor.userId);
+  }
+
+  const checklist = await taskChecklistModel.findItemsByTask(task.id);
+  await taskChecklistModel.addItems(
+    copy.id,
+    checklist.map((item) => ({ text: item.text, isRequired: item.is_required })),
+    { templateId: null, createdBy: actor.userId },
+  );
+
+  const commentIds = await commentModel.copyComments(task.id, copy.id);
+
+  let copiedBytes = 0;
+  for (const photo of files.photos) {
+    const stored = await copyStoredFile('photos', actor.organizationId, copy.id, photo);
+    if (!stored) continue;
+    await taskPhotoModel.createTaskPhoto({
+      taskId: copy.id,
+      fileUrl: stored.fileUrl,
+      fileSizeBytes: photo.file_size_bytes,
+      thumbnailUrl: stored.thumbnailUrl ?? undefined,
+      caption: photo.caption ?? undefined,
+      uploadedBy: photo.uploaded_by,
+    });
+    copiedBytes += Number(photo.file_size_bytes) || 0;
+  }
+  for (const attachment of files.attachments) {
+    const commentId = attachment.comment_id && commentIds.get(attachment.comment_id);
+    if (!commentId) continue;
+    const stored = await copyStoredFile('comment-attachments', actor.organizationId, copy.id, attachment);
+    if (!stored) continue;
+    await commentAttachmentModel.createCopiedAttachment(attachment, {
+      id: stored.resourceId,
+      taskId: copy.id,
+      commentId,
+      fileUrl: stored.fileUrl,
+      thumbnailUrl: stored.thumbnailUrl,
+    });
+    copiedBytes += Number(attachment.file_size_bytes) || 0;
+  }
+  if (copiedBytes > 0) {
+    await storageTracking.incrementStorageUsed(actor.organizationId, copiedBytes);
+  }
+
+  logAuditAction({
+    organizationId: actor.organizationId,
+    userId: actor.userId,
+    action: 'task.duplicated',
+    resourceType: 'task',
+    resourceId: copy.id,
+    metadata: { projectId: target.id, sourceTaskId: task.id, sourceProjectId: task.project_id },
+    ipAddress: actor.ipAddress,
+  });
+
+  publishEvent({
+    type: 'task.created',
+    organizationId: actor.organizationId,
+    projectId: copy.project_id,
+    data: { taskId: copy.id },
+  });
+
+  return copy;
+}
+
+/**
+ * Move the task to another project under a new task number. The task keeps its
+ * id, so photos, comments and attachments stay where they are: their storage
+ * keys are built from the task id, not the project. Blueprint, pin and
+ * annotations are dropped, as are relations, which only link tasks within a
+ * project. The move is recorded so the old project and number still lead to it.
+ */
+export async function moveTask(
+  task: taskModel.TaskRow,
+  source: CopyProject,
+  target: CopyProject,
+  actor: CopyActor,
+): Promise<taskModel.TaskRow | null> {
+  const assignee = task.assigned_to_user && await projectMemberModel.findMember(target.id, task.assigned_to_user)
+    ? task.assigned_to_user
+    : null;
+
+  const moved = await taskModel.moveTaskToProject(task.id, target.id, assignee);
+  if (!moved) return null;
+
+  await taskRelationModel.deleteRelationsOfTask(task.id);
+  await mentionModel.moveTaskMentions(task.id, target.id);
+  await taskMoveModel.recordMove({
+    taskId: task.id,
+    fromProjectId: source.id,
+    fromTaskNumber: task.task_number,
+    toProjectId: target.id,
+    toTaskNumber: moved.task_number,
+    movedBy: actor.userId,
+  });
+  await taskHistoryService.recordTaskMoved(task, moved, { from: source.name, to: target.name }, { userId: actor.userId });
+
+  logAuditAction({
+    organizationId: actor.organizationId,
+    userId: actor.userId,
+    action: 'task.moved',
+    resourceType: 'task',
+    resourceId: task.id,
+    metadata: {
+      fromProjectId: source.id,
+      fromTaskNumber: task.task_number,
+      toProjectId: target.id,
+      toTaskNumber: moved.task_number,
+    },
+    ipAddress: actor.ipAddress,
+  });
+
+  publishEvent({
+    type: 'task.deleted',
+    organizationId: actor.organizationId,
+    projectId: source.id,
+    data: { taskId: task.id },
+  });
+  publishEvent({
+    type: 'task.created',
+    organizationId: actor.organizationId,
+    projectId: target.id,
+    data: { taskId: task.id },
+  });
+
+  return moved;
+}
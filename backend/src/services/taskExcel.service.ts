@@ -0,0 +1,383 @@
+import ExcelJS from 'exceljs';
+import type { CustomFieldDefinitionRow } from '../models/customField.model';
+import type { TaskWithCounts } from '../models/task.model';
+
+const FIXED_COLUMNS = [
+  { header: 'Task Number', key: 'task_number', width: 14 },
+  { header: 'Title', key: 'title', width: 40 },
+  { header: 'Description', key: 'description', width: 50 },
+  { header: 'Status', key: 'status', width: 16 },
+  { header: 'Priority', key: 'priority', width: 12 },
+  { header: 'Trade', key: 'trade', width: 20 },
+  { header: 'Assignee Email', key: 'assignee_email', width: 30 },
+  { header: 'Contractor Email', key: 'contractor_email', width: 30 },
+  { header: 'Blueprint', key: 'blueprint', width: 30 },
+  { header: 'Due Date', key: 'due_date', width: 14 },
+];
+
+const VALID_PRIORITIES = ['low', 'normal', 'high', 'critical'];
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FF4472C4' },
+};
+
+const HEADER_FONT: Partial<ExcelJS.Font> = {
+  bold: true,
+  color: { argb: 'FFFFFFFF' },
+  size: 11,
+};
+
+function buildColumns(customFields: CustomFieldDefinitionRow[]): ExcelJS.Column[] {
+  const columns = FIXED_COLUMNS.map((c) => ({ ...c } as Partial<ExcelJS.Column>));
+  for (const cf of customFields) {
+    columns.push({ header: cf.label, key: `cf_${cf.field_key}`, width: 20 });
+  }
+  return columns as ExcelJS.Column[];
+}
+
+function styleHeaderRow(sheet: ExcelJS.Worksheet): void {
+  const headerRow = sheet.getRow(1);
+  headerRow.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.font = HEADER_FONT;
+    cell.alignment = { vertical: 'middle', horizontal: 'left' };
+  });
+  headerRow.height = 24;
+}
+
+export function generateTaskTemplate(
+  customFields: CustomFieldDefinitionRow[],
+  statuses: Array<{ key: string; label: string }>,
+): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+
+  // Instructions sheet
+  const instructions = workbook.addWorksheet('Instructions');
+  instructions.getColumn(1).width = 80;
+  const lines = [
+    'Task Import Template',
+    '',
+    'How to use:',
+    '1. Fill in your tasks on the "Tasks" sheet',
+    '2. The "Title" column is required — all other columns are optional',
+    '3. Save the file as .xlsx',
+    '4. Upload it using the Import button on the project\'s task list',
+    '',
+    'To edit existing tasks, export them, change the rows and import the file with',
+    '"Update existing tasks" ticked. Rows with a Task Number then update that task,',
+    'rows without one are added as new tasks, and empty cells clear the value.',
+    '',
+    'Column descriptions:',
+    '  Task Number — Number of an existing task to update (only used when updating existing tasks)',
+    '  Title — Task title (required, max 255 characters)',
+    '  Description — Optional, max 5000 characters',
+    `  Status — One of: ${statuses.map((s) => s.label).join(', ')}. New tasks start in the initial status if left empty.`,
+    `  Priority — One of: ${VALID_PRIORITIES.join(', ')}. Defaults to normal.`,
+    '  Trade — Optional, max 50 characters. Matched against trades already used in your organisation.',
+    '  Assignee Email — Email of an active member of this project',
+    '  Contractor Email — Email of an external contractor',
+    '  Blueprint — Name of a blueprint in this project',
+    '  Due Date — Date (YYYY-MM-DD)',
+  ];
+  for (const cf of customFields) {
+    const req = cf.is_required ? ' (required)' : '';
+    const opts = cf.options ? ` — Options: ${cf.options.join(', ')}` : '';
+    lines.push(`  ${cf.label} — Custom field (${cf.field_type})${req}${opts}`);
+  }
+  lines.forEach((text, i) => {
+    instructions.getCell(i + 1, 1).value = text;
+    if (i === 0) {
+      instructions.getCell(i + 1, 1).font = { bold: true, size: 14 };
+    }
+  });
+
+  // Tasks sheet
+  const sheet = workbook.addWorksheet('Tasks');
+  sheet.columns = buildColumns(customFields);
+  styleHeaderRow(sheet);
+
+  return workbook;
+}
+
+export function generateTaskExport(
+  tasks: TaskWithCounts[],
+  customFields: CustomFieldDefinitionRow[],
+  lookups: {
+    statusLabels: Map<string, string>;
+    userEmails: Map<string, string>;
+    blueprintNames: Map<string, string>;
+  },
+): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Tasks');
+  sheet.columns = buildColumns(customFields);
+  styleHeaderRow(sheet);
+
+  for (const task of tasks) {
+    const row: Record<string, unknown> = {
+      task_number: task.task_number,
+      title: task.title,
+      description: task.description,
+      status: lookups.statusLabels.get(task.status) || task.status,
+      priority: task.priority,
+      trade: task.trade,
+      assignee_email: task.assigned_to_user ? lookups.userEmails.get(task.assigned_to_user) ?? null : null,
+      contractor_email: task.assigned_to_contractor_email,
+      blueprint: task.blueprint_id ? lookups.blueprintNames.get(task.blueprint_id) ?? null : null,
+      due_date: task.due_date ? formatDueDate(task.due_date) : null,
+    };
+    for (const cf of customFields) {
+      row[`cf_${cf.field_key}`] = task.custom_fields?.[cf.field_key] ?? null;
+    }
+    sheet.addRow(row);
+  }
+
+  return workbook;
+}
+
+/** Date columns come back from pg as local-midnight Dates; format them without a timezone shift. */
+export function formatDueDate(value: Date): string {
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+}
+
+export interface TaskImportContext {
+  statuses: Array<{ key: string; label: string }>;
+  /** Lower-cased email → user id for active members of the project */
+  usersByEmail: Map<string, string>;
+  /** Lower-cased blueprint name → blueprint id within the project */
+  blueprintsByName: Map<string, string>;
+  /** Trades already in use, in their stored spelling */
+  trades: string[];
+  updateExisting: boolean;
+}
+
+/**
+ * A parsed row. For a row updating an existing task a column that is present
+ * but empty becomes null (clear the value); a column missing from the sheet
+ * stays undefined.
+ */
+export interface ImportedTask {
+  row: number;
+  taskNumber?: number;
+  title?: string;
+  description?: string | null;
+  status?: string;
+  priority?: string;
+  trade?: string | null;
+  assignedToUser?: string | null;
+  assignedToContractorEmail?: string | null;
+  blueprintId?: string | null;
+  dueDate?: string | null;
+  customFields?: Record<string, unknown>;
+}
+
+export interface ImportError {
+  row: number;
+  messages: string[];
+}
+
+function cellText(cell: ExcelJS.Cell): string | null {
+  const value = cell.value;
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  // Hyperlinks (e.g. auto-linked emails) and rich text carry their display text separately
+  if (typeof value === 'object') return cell.text.trim() || null;
+  return String(value).trim() || null;
+}
+
+export async function parseTaskImport(
+  buffer: Buffer,
+  customFields: CustomFieldDefinitionRow[],
+  context: TaskImportContext,
+): Promise<{ valid: ImportedTask[]; errors: ImportError[] }> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  // Find the Tasks sheet, or fall back to the first non-Instructions sheet
+  let sheet = workbook.getWorksheet('Tasks');
+  if (!sheet) {
+    sheet = workbook.worksheets.find((ws) => ws.name !== 'Instructions');
+  }
+  if (!sheet) {
+    return { valid: [], errors: [{ row: 0, messages: ['No data sheet found in workbook'] }] };
+  }
+
+  // Map header names to column indices
+  const headerRow = sheet.getRow(1);
+  const headerMap = new Map<string, number>();
+  headerRow.eachCell((cell, colNumber) => {
+    const val = String(cell.value ?? '').trim();
+    if (val) headerMap.set(val, colNumber);
+  });
+
+  const statusByName = new Map<string, string>();
+  for (const status of context.statuses) {
+    statusByName.set(status.key.toLowerCase(), status.key);
+    statusByName.set(status.label.toLowerCase(), status.key);
+  }
+  const tradeByName = new Map(context.trades.map((t) => [t.toLowerCase(), t]));
+
+  // Track task numbers for duplicate detection within file
+  const numbersSeen = new Map<number, number>(); // task number -> first row number
+
+  const valid: ImportedTask[] = [];
+  const errors: ImportError[] = [];
+
+  const rowCount = sheet.rowCount;
+  for (let rowNum = 2; rowNum <= rowCount; rowNum++) {
+    const row = sheet.getRow(rowNum);
+    const rowErrors: string[] = [];
+
+    // Skip completely empty rows
+    let hasData = false;
+    row.eachCell(() => { hasData = true; });
+    if (!hasData) continue;
+
+    const hasColumn = (headerName: string) => headerMap.has(headerName);
+    const getCellValue = (headerName: string): string | null => {
+      const colIndex = headerMap.get(headerName);
+      if (!colIndex) return null;
+      return cellText(row.getCell(colIndex));
+    };
+
+    const task: ImportedTask = { row: rowNum };
+
+    const numberText = context.updateExisting ? getCellValue('Task Number') : null;
+    if (numberText) {
+      const taskNumber = Number(numberText);
+      if (!Number.isInteger(taskNumber) || taskNumber < 1) {
+        rowErrors.push('Task Number must be a whole number');
+      } else {
+        const firstSeen = numbersSeen.get(taskNumber);
+        if (firstSeen) {
+          rowErrors.push(`Duplicate Task Number — same as row ${firstSeen}`);
+        } else {
+          numbersSeen.set(taskNumber, rowNum);
+          task.taskNumber = taskNumber;
+        }
+      }
+    }
+    const isUpdate = !!numberText;
+    // Updates only touch columns present in the sheet; new tasks leave empty columns unset
+    const emptyValue = isUpdate ? null : undefined;
+
+    const title = getCellValue('Title');
+    if (title && title.length > 255) {
+      rowErrors.push('Title must be 255 characters or fewer');
+    } else if (title) {
+      task.title = title;
+    } else if (!isUpdate || hasColumn('Title')) {
+      rowErrors.push('Title is required');
+    }
+
+    if (hasColumn('Description')) {
+      const description = getCellValue('Description');
+      if (description && description.length > 5000) {
+        rowErrors.push('Description must be 5000 characters or fewer');
+      } else {
+        task.description = description ?? emptyValue;
+      }
+    }
+
+    const status = getCellValue('Status');
+    if (status) {
+      const key = statusByName.get(status.toLowerCase());
+      if (!key) {
+        rowErrors.push(`Status must be one of: ${context.statuses.map((s) => s.label).join(', ')}`);
+      } else {
+        task.status = key;
+      }
+    }
+
+    const priority = getCellValue('Priority');
+    if (priority) {
+      if (!VALID_PRIORITIES.includes(priority.toLowerCase())) {
+        rowErrors.push(`Priority must be one of: ${VALID_PRIORITIES.join(', ')}`);
+      } else {
+        task.priority = priority.toLowerCase();
+      }
+    }
+
+    if (hasColumn('Trade')) {
+      const trade = getCellValue('Trade');
+      if (trade && trade.length > 50) {
+        rowErrors.push('Trade must be 50 characters or fewer');
+      } else {
+        task.trade = trade ? tradeByName.get(trade.toLowerCase()) ?? trade : emptyValue;
+      }
+    }
+
+    if (hasColumn('Assignee Email')) {
+      const assigneeEmail = getCellValue('Assignee Email');
+      if (assigneeEmail) {
+        const userId = context.usersByEmail.get(assigneeEmail.toLowerCase());
+        if (!userId) {
+          rowErrors.push(`No active project member with email "${assigneeEmail}"`);
+        } else {
+          task.assignedToUser = userId;
+        }
+      } else {
+        task.assignedToUser = emptyValue;
+      }
+    }
+
+    if (hasColumn('Contractor Email')) {
+      const contractorEmail = getCellValue('Contractor Email');
+      if (contractorEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contractorEmail)) {
+        rowErrors.push('Contractor Email is not a valid email address');
+      } else {
+        task.assignedToContractorEmail = contractorEmail ?? emptyValue;
+      }
+    }
+
+    if (hasColumn('Blueprint')) {
+      const blueprint = getCellValue('Blueprint');
+      if (blueprint) {
+        const blueprintId = context.blueprintsByName.get(blueprint.toLowerCase());
+        if (!blueprintId) {
+          rowErrors.push(`No blueprint named "${blueprint}" in this project`);
+        } else {
+          task.blueprintId = blueprintId;
+        }
+      } else {
+        task.blueprintId = emptyValue;
+      }
+    }
+
+    if (hasColumn('Due Date')) {
+      const dueDate = getCellValue('Due Date');
+      if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+        rowErrors.push('Due Date must be a date like 2025-03-31');
+      } else {
+        task.dueDate = dueDate ?? emptyValue;
+      }
+    }
+
+    // Custom field values are type-checked against their definitions when the row is saved
+    const customFieldValues: Record<string, unknown> = {};
+    for (const cf of customFields) {
+      if (!hasColumn(cf.label)) continue;
+      const val = getCellValue(cf.label);
+      if (val !== null && cf.field_type === 'checkbox') {
+        customFieldValues[cf.field_key] = ['true', 'yes', 'x', '1'].includes(val.toLowerCase());
+      } else if (val !== null) {
+        customFieldValues[cf.field_key] = val;
+      } else if (isUpdate) {
+        customFieldValues[cf.field_key] = null;
+      }
+    }
+    if (Object.keys(customFieldValues).length > 0) {
+      task.customFields = customFieldValues;
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row: rowNum, messages: rowErrors });
+    } else {
+      valid.push(task);
+    }
+  }
+
+  return { valid, errors };
+}
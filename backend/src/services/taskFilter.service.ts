@@ -0,0 +1,151 @@
+import * as taskModel from '../models/task.model';
+import * as savedViewModel from '../models/savedView.model';
+import {
+  CUSTOM_FIELD_OPERATORS,
+  TaskFiltersInput,
+  taskFiltersSchema,
+} from '../validators/task.validators';
+
+const LIST_KEYS = ['status', 'priority', 'trade', 'assignee', 'blueprintId'] as const;
+const BOOLEAN_KEYS = ['assignedToMe', 'hasPhotos', 'overdue', 'blocked'] as const;
+const TEXT_KEYS = [
+  'contractorEmail',
+  'createdFrom',
+  'createdTo',
+  'completedFrom',
+  'completedTo',
+  'verifiedFrom',
+  'verifiedTo',
+  'search',
+  'sortBy',
+  'sortOrder',
+] as const;
+const CUSTOM_FIELD_PREFIX = 'cf.';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function queryValues(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : [value];
+  return raw.filter((v): v is string => typeof v === 'string' && v !== '');
+}
+
+/**
+ * Read task filters from a list endpoint's query string. Lists are given
+ * comma-separated or repeated (`?status=open,in_progress`); custom field
+ * predicates are `cf.<field_key>=<op>:<value>`, where a bare value means eq
+ * (`?cf.floor=gte:3&cf.room=Kitchen`). Empty parameters are ignored.
+ */
+export function parseFiltersQuery(query: Record<string, unknown>) {
+  const raw: Record<string, unknown> = {};
+
+  for (const key of LIST_KEYS) {
+    const values = queryValues(query[key]).flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+    if (values.length > 0) raw[key] = values;
+  }
+  for (const key of BOOLEAN_KEYS) {
+    const [value] = queryValues(query[key]);
+    if (value !== undefined) raw[key] = value === 'true';
+  }
+  for (const key of TEXT_KEYS) {
+    const [value] = queryValues(query[key]);
+    if (value !== undefined) raw[key] = value;
+  }
+
+  const customFields: Array<{ key: string; op: string; value?: string }> = [];
+  for (const [param, value] of Object.entries(query)) {
+    if (!param.startsWith(CUSTOM_FIELD_PREFIX)) continue;
+    const key = param.slice(CUSTOM_FIELD_PREFIX.length);
+    for (const expr of queryValues(value)) {
+      const separator = expr.indexOf(':');
+      const op = separator > 0 ? expr.slice(0, separator) : '';
+      if ((CUSTOM_FIELD_OPERATORS as readonly string[]).includes(op)) {
+        const operand = expr.slice(separator + 1);
+        customFields.push({ key, op, ...(operand !== '' ? { value: operand } : {}) });
+      } else {
+        customFields.push({ key, op: 'eq', value: expr });
+      }
+    }
+  }
+  if (customFields.length > 0) raw.customFields = customFields;
+
+  return taskFiltersSchema.safeParse(raw);
+}
+
+/** Filters of a saved view on the project that the user may use; null when there is none. */
+export async function findViewFilters(
+  viewId: unknown,
+  projectId: string,
+  userId: string,
+): Promise<TaskFiltersInput | null> {
+  if (typeof viewId !== 'string' || !UUID_PATTERN.test(viewId)) return null;
+  const view = await savedViewModel.findVisibleView(viewId, projectId, userId);
+  return view ? (view.filters as TaskFiltersInput) : null;
+}
+
+/** Later filters override earlier ones key by key, e.g. query parameters over a saved view. */
+export function mergeFilters(...layers: Array<TaskFiltersInput | undefined>): TaskFiltersInput {
+  return Object.assign({}, ...layers.filter(Boolean));
+}
+
+/** Turn validated filters into model filters, resolving "me" to the user running them. */
+export function toTaskFilters(input: TaskFiltersInput, userId: string): taskModel.TaskFilters {
+  const list = <T>(value: T | T[] | undefined): T[] | undefined =>
+    value === undefined ? undefined : (Array.isArray(value) ? value : [value]);
+
+  let assignees = list(input.assignee)?.map((a) => (a === 'me' ? userId : a));
+  if (input.assignedToMe) {
+    assignees = [userId];
+  }
+
+  return {
+    status: list(input.status),
+    priority: list(input.priority),
+    trade: list(input.trade),
+    assignedToUser: assignees,
+    assignedToContractorEmail: input.contractorEmail,
+    blueprintId: list(input.blueprintId),
+    hasPhotos: input.hasPhotos,
+    createdFrom: input.createdFrom,
+    createdTo: input.createdTo,
+    completedFrom: input.completedFrom,
+    completedTo: input.completedTo,
+    verifiedFrom: input.verifiedFrom,
+    verifiedTo: input.verifiedTo,
+    customFields: input.customFields,
+    search: input.search,
+    overdue: input.overdue,
+    blocked: input.blocked,
+    sortBy: input.sortBy,
+    sortOrder: input.sortOrder,
+  };
+}
+
+/** One line per active filter, for protocol cover pages. */
+export function describeFilters(
+  input: TaskFiltersInput,
+  labels: { statuses?: Map<string, string>; users?: Map<string, string>; blueprints?: Map<string, string> } = {},
+): string[] {
+  const join = (value: string | string[] | undefined, names?: Map<string, string>) =>
+    (Array.isArray(value) ? value : value ? [value] : []).map((v) => names?.get(v) || v).join(', ');
+  const range = (from?: string, to?: string) =>
+    from && to ? `${from} – ${to}` : from ? `from ${from}` : `until ${to}`;
+
+  const parts: string[] = [];
+  if (input.status) parts.push(`Status: ${join(input.status, labels.statuses)}`);
+  if (input.trade) parts.push(`Trade: ${join(input.trade)}`);
+  if (input.priority) parts.push(`Priority: ${join(input.priority)}`);
+  if (input.assignee) parts.push(`Assignee: ${join(input.assignee, labels.users)}`);
+  if (input.assignedToMe) parts.push('Assigned to me');
+  if (input.contractorEmail) parts.push(`Contractor: ${input.contractorEmail}`);
+  if (input.blueprintId) parts.push(`Blueprint: ${join(input.blueprintId, labels.blueprints)}`);
+  if (input.hasPhotos !== undefined) parts.push(input.hasPhotos ? 'With photos' : 'Without photos');
+  if (input.createdFrom || input.createdTo) parts.push(`Created ${range(input.createdFrom, input.createdTo)}`);
+  if (input.completedFrom || input.completedTo) parts.push(`Completed ${range(input.completedFrom, input.completedTo)}`);
+  if (input.verifiedFrom || input.verifiedTo) parts.push(`Verified ${range(input.verifiedFrom, input.verifiedTo)}`);
+  for (const p of input.customFields || []) {
+    parts.push(p.value === undefined ? `${p.key} ${p.op.replace('_', ' ')}` : `${p.key} ${p.op} ${p.value}`);
+  }
+  if (input.search) parts.push(`Search: "${input.search}"`);
+  if (input.overdue) parts.push('Overdue');
+  if (input.blocked !== undefined) parts.push(input.blocked ? 'Blocked' : 'Not blocked');
+  return parts;
+}
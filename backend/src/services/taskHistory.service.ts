@@ -0,0 +1,175 @@
+import { Queryable } from '../config/database';
+import * as taskHistoryModel from '../models/taskHistory.model';
+import { TaskRow } from '../models/task.model';
+import * as workflowService from './workflow.service';
+
+type TaskHistoryChange = taskHistoryModel.TaskHistoryChange;
+
+// Columns recorded one-to-one; timestamps derived from the status are left out
+const SIMPLE_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'trade',
+  'blueprint_id',
+  'assigned_to_user',
+  'assigned_to_contractor_email',
+  'due_date',
+] as const;
+
+export interface StatusMetrics {
+  timeInStatus: Record<string, number>; // seconds, keyed by status
+  startedAt: Date | null;
+  completedAt: Date | null;
+  cycleTimeSeconds: number | null; // first start of work to completion
+  leadTimeSeconds: number | null; // creation to completion
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function location(task: TaskRow) {
+  return task.location_x === null && task.location_y === null
+    ? null
+    : { x: task.location_x, y: task.location_y };
+}
+
+function annotation(task: TaskRow) {
+  return task.annotation_x === null
+    ? null
+    : {
+      x: task.annotation_x,
+      y: task.annotation_y,
+      width: task.annotation_width,
+      height: task.annotation_height,
+      page: task.annotation_page,
+    };
+}
+
+/** Field-level differences between two versions of a task. Custom fields are compared key by key. */
+export function diffTask(before: TaskRow, after: TaskRow): TaskHistoryChange[] {
+  const changes: TaskHistoryChange[] = [];
+  const push = (field: string, oldValue: unknown, newValue: unknown) => {
+    if (!sameValue(oldValue, newValue)) changes.push({ field, oldValue: oldValue ?? null, newValue: newValue ?? null });
+  };
+
+  for (const field of SIMPLE_FIELDS) {
+    push(field, before[field], after[field]);
+  }
+  push('location', location(before), location(after));
+  push('annotation', annotation(before), annotation(after));
+  push('annotation_markers', before.annotation_markers, after.annotation_markers);
+  push('measurements', before.measurements, after.measurements);
+
+  const oldFields = before.custom_fields || {};
+  const newFields = after.custom_fields || {};
+  for (const key of new Set([...Object.keys(oldFields), ...Object.keys(newFields)])) {
+    push(`custom_fields.${key}`, oldFields[key], newFields[key]);
+  }
+
+  return changes;
+}
+
+export async function recordTaskCreated(
+  task: TaskRow,
+  actor: taskHistoryModel.TaskHistoryActor,
+  db?: Queryable,
+): Promise<void> {
+  await taskHistoryModel.recordChanges(task.id, [{ field: 'created', oldValue: null, newValue: { status: task.status } }], actor, db);
+}
+
+export async function recordTaskChanges(
+  before: TaskRow,
+  after: TaskRow,
+  actor: taskHistoryModel.TaskHistoryActor,
+  db?: Queryable,
+): Promise<void> {
+  await taskHistoryModel.recordChanges(after.id, diffTask(before, after), actor, db);
+}
+
+/** Record a move to another project along with whatever the move dropped from the task. */
+export async function recordTaskMoved(
+  before: TaskRow,
+  after: TaskRow,
+  projectNames: { from: string; to: string },
+  actor: taskHistoryModel.TaskHistoryActor,
+): Promise<void> {
+  await taskHistoryModel.recordChanges(after.id, [
+    {
+      field: 'project',
+      oldValue: { projectId: before.project_id, projectName: projectNames.from, taskNumber: before.task_number },
+      newValue: { projectId: after.project_id, projectName: projectNames.to, taskNumber: after.task_number },
+    },
+    ...diffTask(before, after),
+  ], actor);
+}
+
+/** Record a single change that is not a task column, e.g. a photo or product being added or removed. */
+export async function recordTaskEvent(
+  taskId: string,
+  field: string,
+  change: { oldValue?: unknown; newValue?: unknown },
+  actor: taskHistoryModel.TaskHistoryActor,
+): Promise<void> {
+  await taskHistoryModel.recordChanges(
+    taskId,
+    [{ field, oldValue: change.oldValue ?? null, newValue: change.newValue ?? null }],
+    actor,
+  );
+}
+
+/**
+ * Replay the status entries of a task's history to work out how long it spent in
+ * each status, and its cycle and lead time once it has reached a completed or
+ * verified status. Tasks that predate history count as having spent all their
+ * time in the current status.
+ */
+export function computeStatusMetrics(
+  task: Pick<TaskRow, 'status' | 'created_at'>,
+  history: Pick<taskHistoryModel.TaskHistoryRow, 'field' | 'old_value' | 'new_value' | 'created_at'>[],
+  workflow: workflowService.Workflow,
+  now: Date = new Date(),
+): StatusMetrics {
+  const statusChanges = history.filter((h) => h.field === 'status');
+  const createdAt = new Date(task.created_at);
+  const timeInStatus: Record<string, number> = {};
+  let startedAt: Date | null = null;
+  let completedAt: Date | null = null;
+
+  let current = statusChanges.length > 0 ? String(statusChanges[0].old_value) : task.status;
+  let since = createdAt;
+  const enter = (status: string, at: Date) => {
+    const category = workflowService.getStatusCategory(workflow, status);
+    if (category === 'in_progress' && !startedAt) startedAt = at;
+    if (category === 'completed') completedAt = at;
+    if (category === 'verified' && !completedAt) completedAt = at;
+    if (category === 'open' || category === 'in_progress') completedAt = null;
+  };
+  enter(current, createdAt);
+
+  for (const change of statusChanges) {
+    const at = new Date(change.created_at);
+    timeInStatus[current] = (timeInStatus[current] || 0) + Math.max(0, (at.getTime() - since.getTime()) / 1000);
+    current = String(change.new_value);
+    since = at;
+    enter(current, at);
+  }
+  timeInStatus[current] = (timeInStatus[current] || 0) + Math.max(0, (now.getTime() - since.getTime()) / 1000);
+
+  const seconds = (from: Date | null, to: Date | null) =>
+    from && to ? Math.round((to.getTime() - from.getTime()) / 1000) : null;
+
+  for (const key of Object.keys(timeInStatus)) {
+    timeInStatus[key] = Math.round(timeInStatus[key]);
+  }
+
+  return {
+    timeInStatus,
+    startedAt,
+    completedAt,
+    cycleTimeSeconds: seconds(startedAt, completedAt),
+    leadTimeSeconds: seconds(createdAt, completedAt),
+  };
+}
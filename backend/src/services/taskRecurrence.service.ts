@@ -0,0 +1,378 @@
+import cron from 'node-cron';
+import config from '../config';
+import { logger } from '../utils/logger';
+import * as taskModel from '../models/task.model';
+import * as taskRecurrenceModel from '../models/taskRecurrence.model';
+import * as taskTemplateModel from '../models/taskTemplate.model';
+import * as projectMemberModel from '../models/projectMember.model';
+import * as workflowService from './workflow.service';
+import * as slaService from './sla.service';
+import * as taskHistoryService from './taskHistory.service';
+import * as notificationService from './notification.service';
+import { applyTemplateToTask } from './taskTemplate.service';
+import { logAuditAction } from './audit.service';
+import { publishEvent } from './realtime.service';
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/** The subset of RFC 5545 RRULE the scheduler understands */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays (0 = Sunday); on monthly rules optionally the nth of the month, negative counting from the end */
+  byDay: Array<{ weekday: number; nth: number | null }>;
+  /** Days of the month, negative counting from the end */
+  byMonthDay: number[];
+  /** Occurrences the scheduler reaches, whether a task was created or skipped */
+  count: number | null;
+  /** Last possible occurrence, YYYY-MM-DD */
+  until: string | null;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL'];
+const MAX_INTERVAL = 366;
+// Rules such as BYMONTHDAY=31 skip periods; give up on ones that never match
+const MAX_PERIODS_SCANNED = 1000;
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO" or "FREQ=MONTHLY;INTERVAL=2".
+ * Returns the rule, or a message describing why it cannot be used.
+ */
+export function parseRule(text: string): { rule: RecurrenceRule } | { error: string } {
+  const parts = text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+  for (const part of parts) {
+    const [key, value, ...rest] = part.split('=');
+    if (!value || rest.length > 0) return { error: `Malformed rule part '${part}'` };
+    fields.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  for (const key of fields.keys()) {
+    if (!SUPPORTED_PARTS.includes(key)) return { error: `${key} is not supported` };
+  }
+
+  const freq = fields.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) {
+    return { error: 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY' };
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, byDay: [], byMonthDay: [], count: null, until: null };
+
+  const interval = fields.get('INTERVAL');
+  if (interval !== undefined) {
+    rule.interval = /^\d+$/.test(interval) ? parseInt(interval, 10) : 0;
+    if (rule.interval < 1 || rule.interval > MAX_INTERVAL) {
+      return { error: `INTERVAL must be a whole number from 1 to ${MAX_INTERVAL}` };
+    }
+  }
+
+  const byDay = fields.get('BYDAY');
+  if (byDay !== undefined) {
+    if (freq !== 'WEEKLY' && freq !== 'MONTHLY') return { error: 'BYDAY is only supported on weekly and monthly rules' };
+    for (const day of byDay.split(',')) {
+      const match = /^([+-]?[1-5])?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+      if (!match) return { error: `Unknown weekday '${day}'` };
+      if (match[1] && freq !== 'MONTHLY') return { error: 'Numbered weekdays are only supported on monthly rules' };
+      rule.byDay.push({ weekday: WEEKDAYS.indexOf(match[2]), nth: match[1] ? parseInt(match[1], 10) : null });
+    }
+  }
+
+  const byMonthDay = fields.get('BYMONTHDAY');
+  if (byMonthDay !== undefined) {
+    if (freq !== 'MONTHLY') return { error: 'BYMONTHDAY is only supported on monthly rules' };
+    if (rule.byDay.length > 0) return { error: 'BYDAY and BYMONTHDAY cannot be combined' };
+    for (const day of byMonthDay.split(',')) {
+      const n = /^[+-]?\d{1,2}$/.test(day) ? parseInt(day, 10) : 0;
+      if (n === 0 || n < -31 || n > 31) return { error: `Invalid day of month '${day}'` };
+      rule.byMonthDay.push(n);
+    }
+  }
+
+  const count = fields.get('COUNT');
+  const until = fields.get('UNTIL');
+  if (count !== undefined && until !== undefined) return { error: 'COUNT and UNTIL cannot be combined' };
+  if (count !== undefined) {
+    rule.count = /^\d+$/.test(count) ? parseInt(count, 10) : 0;
+    if (rule.count < 1) return { error: 'COUNT must be a positive whole number' };
+  }
+  if (until !== undefined) {
+    const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(until);
+    const date = match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+    if (!match || toDay(toDate(date)) !== date) return { error: 'UNTIL must be a date like 20251231' };
+    rule.until = date;
+  }
+
+  return { rule };
+}
+
+// Dates are handled as UTC midnights so that day arithmetic ignores DST
+function toDate(day: string): Date {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Monday of the date's week; weeks start on Monday as with RRULE's default WKST */
+function weekStart(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+/** The rule's dates in the nth period (day, week, month or year) counted from the start. */
+function occurrencesInPeriod(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(start, step)];
+
+    case 'WEEKLY': {
+      const monday = addDays(weekStart(start), step * 7);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [start.getUTCDay()];
+      return weekdays.map((weekday) => addDays(monday, (weekday + 6) % 7));
+    }
+
+    case 'MONTHLY': {
+      const first = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step, 1));
+      const year = first.getUTCFullYear();
+      const month = first.getUTCMonth();
+      const lastDay = daysInMonth(year, month);
+      let days: number[];
+      if (rule.byMonthDay.length > 0) {
+        days = rule.byMonthDay.map((d) => (d > 0 ? d : lastDay + d + 1));
+      } else if (rule.byDay.length > 0) {
+        days = rule.byDay.flatMap(({ weekday, nth }) => {
+          const matching: number[] = [];
+          for (let d = 1; d <= lastDay; d++) {
+            if (new Date(Date.UTC(year, month, d)).getUTCDay() === weekday) matching.push(d);
+          }
+          if (nth === null) return matching;
+          const pick = nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+          return pick === undefined ? [] : [pick];
+        });
+      } else {
+        days = [start.getUTCDate()];
+      }
+      // Months without the day (e.g. the 31st) are skipped, as in RFC 5545
+      return days.filter((d) => d >= 1 && d <= lastDay).map((d) => new Date(Date.UTC(year, month, d)));
+    }
+
+    case 'YEARLY': {
+      const date = new Date(Date.UTC(start.getUTCFullYear() + step, start.getUTCMonth(), start.getUTCDate()));
+      // 29 February only recurs in leap years
+      return date.getUTCMonth() === start.getUTCMonth() ? [date] : [];
+    }
+  }
+}
+
+/** Index of the period that contains `date`, never before the first. */
+function periodOf(rule: RecurrenceRule, start: Date, date: Date): number {
+  let elapsed: number;
+  switch (rule.freq) {
+    case 'DAILY':
+      elapsed = daysBetween(start, date);
+      break;
+    case 'WEEKLY':
+      elapsed = Math.floor(daysBetween(weekStart(start), date) / 7);
+      break;
+    case 'MONTHLY':
+      elapsed = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+      break;
+    case 'YEARLY':
+      elapsed = date.getUTCFullYear() - start.getUTCFullYear();
+      break;
+  }
+  return Math.max(0, Math.floor(elapsed / rule.interval));
+}
+
+/**
+ * First occurrence of the rule on or after `from` (YYYY-MM-DD), counting from
+ * `startsOn`. Returns null when the rule has no more occurrences. COUNT is left
+ * to the caller, who knows how many occurrences have been reached.
+ */
+export function nextOccurrence(rule: RecurrenceRule, startsOn: string, from: string): string | null {
+  const start = toDate(startsOn);
+  const earliest = from > startsOn ? toDate(from) : start;
+  const until = rule.until ? toDate(rule.until) : null;
+
+  let period = periodOf(rule, start, earliest);
+  for (let scanned = 0; scanned < MAX_PERIODS_SCANNED; scanned++, period++) {
+    const candidates = occurrencesInPeriod(rule, start, period)
+      .filter((date) => date >= earliest)
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (candidates.length > 0) {
+      return until && candidates[0] > until ? null : toDay(candidates[0]);
+    }
+  }
+  return null;
+}
+
+/** The next `limit` occurrences on or after `from`, for previews. */
+export function upcomingOccurrences(
+  rule: RecurrenceRule,
+  startsOn: string,
+  from: string,
+  limit: number,
+  occurrenceCount = 0,
+): string[] {
+  const dates: string[] = [];
+  let cursor = from;
+  while (dates.length < limit && (rule.count === null || occurrenceCount + dates.length < rule.count)) {
+    const next = nextOccurrence(rule, startsOn, cursor);
+    if (!next) break;
+    dates.push(next);
+    cursor = toDay(addDays(toDate(next), 1));
+  }
+  return dates;
+}
+
+/** The calendar date (YYYY-MM-DD) in the timezone recurrences are scheduled in. */
+export function localDay(now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: config.recurrences.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/** The day after `day` (YYYY-MM-DD). */
+export function nextDay(day: string): string {
+  return toDay(addDays(toDate(day), 1));
+}
+
+/**
+ * Handle the occurrence a recurrence has come due for: create the task from its
+ * template, or skip it while the previous occurrence's task is still open.
+ * Occurrences missed while the scheduler was not running are not caught up.
+ * Returns the created task, or null when none was.
+ */
+export async function materializeOccurrence(
+  recurrence: taskRecurrenceModel.DueRecurrence,
+  today: string,
+): Promise<taskModel.TaskRow | null> {
+  const parsed = parseRule(recurrence.rule);
+  const createdBy = recurrence.created_by;
+  // Without a usable rule or creator the recurrence is stopped
+  const rule = 'rule' in parsed && createdBy ? parsed.rule : null;
+  const reachedCount = rule?.count != null && recurrence.occurrence_count + 1 >= rule.count;
+  const occurrenceOn = recurrence.next_occurrence_on!;
+  const nextOn = rule && !reachedCount ? nextOccurrence(rule, recurrence.starts_on, nextDay(today)) : null;
+
+  // Another run may have got there first
+  if (!(await taskRecurrenceModel.claimOccurrence(recurrence.id, occurrenceOn, nextOn))) return null;
+
+  if (!rule || !createdBy) {
+    logger.warn({ recurrenceId: recurrence.id, rule: recurrence.rule }, 'Recurrence cannot be materialised, stopping it');
+    return null;
+  }
+
+  const previousOpen = recurrence.last_task_category !== null
+    && recurrence.last_task_category !== 'completed' && recurrence.last_task_category !== 'verified';
+  if (recurrence.skip_if_open && previousOpen) {
+    await taskRecurrenceModel.markSkipped(recurrence.id, occurrenceOn);
+    logger.info({ recurrenceId: recurrence.id, occurrenceOn }, 'Recurring task skipped, previous occurrence still open');
+    return null;
+  }
+
+  const template = await taskTemplateModel.findTemplateById(recurrence.template_id, recurrence.organization_id);
+  if (!template) return null;
+
+  // The assignee may have left the project since the recurrence was set up
+  const assignee = recurrence.assigned_to_user
+    && (await projectMemberModel.findMember(recurrence.project_id, recurrence.assigned_to_user))
+    ? recurrence.assigned_to_user
+    : undefined;
+
+  const workflow = await workflowService.getWorkflow(recurrence.organization_id);
+  const dueDate = await slaService.resolveDueDate(recurrence.organization_id, {
+    projectId: recurrence.project_id,
+    priority: template.priority,
+    trade: template.trade,
+  });
+
+  const task = await taskModel.createTask({
+    projectId: recurrence.project_id,
+    title: template.title,
+    description: template.description ?? undefined,
+    status: workflowService.getInitialStatus(workflow),
+    priority: template.priority,
+    trade: template.trade ?? undefined,
+    assignedToUser: assignee,
+    customFields: template.custom_fields,
+    dueDate,
+    createdBy,
+  });
+
+  await taskHistoryService.recordTaskCreated(task, { userId: createdBy });
+  await applyTemplateToTask(task.id, template, createdBy);
+  await taskRecurrenceModel.setLastTask(recurrence.id, task.id);
+
+  logAuditAction({
+    organizationId: recurrence.organization_id,
+    userId: null,
+    action: 'task.created',
+    resourceType: 'task',
+    resourceId: task.id,
+    metadata: { projectId: task.project_id, trade: task.trade, templateId: template.id, recurrenceId: recurrence.id },
+  });
+
+  publishEvent({
+    type: 'task.created',
+    organizationId: recurrence.organization_id,
+    projectId: task.project_id,
+    data: { taskId: task.id },
+  });
+
+  if (task.assigned_to_user) {
+    notificationService.notifyTaskAssigned(task, { organizationId: recurrence.organization_id, actorId: null });
+  }
+
+  return task;
+}
+
+export async function runRecurrences(now: Date = new Date()): Promise<number> {
+  const today = localDay(now);
+  const recurrences = await taskRecurrenceModel.findDueRecurrences(today);
+  let created = 0;
+  for (const recurrence of recurrences) {
+    try {
+      if (await materializeOccurrence(recurrence, today)) created++;
+    } catch (err) {
+      logger.error({ err, recurrenceId: recurrence.id }, 'Failed to create recurring task');
+    }
+  }
+  logger.info({ due: recurrences.length, created }, 'Recurrence run completed');
+  return created;
+}
+
+export function initRecurrenceScheduler(): void {
+  if (!cron.validate(config.recurrences.checkCron)) {
+    logger.warn({ cronExpr: config.recurrences.checkCron }, 'Invalid recurrence cron expression, skipping');
+    return;
+  }
+
+  cron.schedule(config.recurrences.checkCron, async () => {
+    try {
+      await runRecurrences();
+    } catch (err) {
+      logger.error({ err }, 'Recurrence run failed');
+    }
+  });
+  logger.info({ cronExpr: config.recurrences.checkCron }, 'Recurrence scheduler registered');
+}
@@ -0,0 +1,72 @@
+import * as taskRelationModel from '../models/taskRelation.model';
+import * as workflowService from './workflow.service';
+import { notifyTaskUnblocked } from './notification.service';
+import { TASK_RELATION_TYPES } from '../validators/taskRelation.validators';
+
+export type TaskRelationType = (typeof TASK_RELATION_TYPES)[number];
+
+const DONE_CATEGORIES: Array<workflowService.StatusCategory | undefined> = ['completed', 'verified'];
+
+/** The row to store for "taskId <type> relatedTaskId"; blocked_by becomes the other task blocking this one. */
+export function toStoredRelation(taskId: string, relatedTaskId: string, type: TaskRelationType) {
+  if (type === 'blocked_by') {
+    return { sourceTaskId: relatedTaskId, targetTaskId: taskId, relationType: 'blocks' as const };
+  }
+  return { sourceTaskId: taskId, targetTaskId: relatedTaskId, relationType: type };
+}
+
+/** Name a stored relation from the point of view of the task it was loaded for. */
+export function withViewType(relation: taskRelationModel.TaskRelationView) {
+  const incoming = relation.direction === 'incoming';
+  const type = relation.relation_type === 'blocks' && incoming ? 'blocked_by'
+    : relation.relation_type === 'duplicates' && incoming ? 'duplicated_by'
+      : relation.relation_type;
+  return { ...relation, type };
+}
+
+/**
+ * A task cannot move into an in-progress status while any of its blockers is
+ * unfinished. Returns null when the move is allowed.
+ */
+export async function checkBlockers(
+  workflow: workflowService.Workflow,
+  task: { id: string; open_blocker_count: number },
+  toStatus: string,
+): Promise<workflowService.TransitionError | null> {
+  if (!task.open_blocker_count || workflowService.getStatusCategory(workflow, toStatus) !== 'in_progress') {
+    return null;
+  }
+
+  const blockers = await taskRelationModel.findOpenBlockers(task.id);
+  if (blockers.length === 0) return null;
+
+  return {
+    httpStatus: 400,
+    code: 'TASK_BLOCKED',
+    message: `Task is blocked by ${blockers.map((b) => `#${b.task_number}`).join(', ')} until they are completed`,
+  };
+}
+
+/**
+ * After a task's status changed: when it was finished, tell the assignees of the
+ * tasks it was the last open blocker of.
+ */
+export async function notifyUnblockedTasks(
+  workflow: workflowService.Workflow,
+  task: { id: string; task_number: number; title: string; status: string },
+  previousStatus: string,
+  context: { organizationId: string; actorId: string | null },
+): Promise<void> {
+  const finished = DONE_CATEGORIES.includes(workflowService.getStatusCategory(workflow, task.status));
+  const wasFinished = DONE_CATEGORIES.includes(workflowService.getStatusCategory(workflow, previousStatus));
+  if (!finished || wasFinished) return;
+
+  const unblocked = await taskRelationModel.findTasksUnblockedBy(task.id);
+  for (const blockedTask of unblocked) {
+    notifyTaskUnblocked(blockedTask, {
+      organizationId: context.organizationId,
+      actorId: context.actorId,
+      blocker: task,
+    });
+  }
+}
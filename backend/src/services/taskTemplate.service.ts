@@ -0,0 +1,43 @@
+import * as taskChecklistModel from '../models/taskChecklist.model';
+import * as productModel from '../models/product.model';
+import { TaskTemplateWithProducts, TemplateChecklistItem } from '../models/taskTemplate.model';
+import * as workflowService from './workflow.service';
+
+/** Checklist items as stored: trimmed text, explicit required flag. */
+export function normalizeChecklistItems(items: Array<{ text: string; isRequired?: boolean }>): TemplateChecklistItem[] {
+  return items.map((item) => ({ text: item.text.trim(), isRequired: !!item.isRequired }));
+}
+
+/** Give a newly created task the template's checklist and product links. */
+export async function applyTemplateToTask(
+  taskId: string,
+  template: TaskTemplateWithProducts,
+  userId: string,
+): Promise<void> {
+  await taskChecklistModel.addItems(taskId, template.checklist_items, { templateId: template.id, createdBy: userId });
+  for (const product of template.products) {
+    await productModel.addProductToTask(taskId, product.id, userId);
+  }
+}
+
+/**
+ * A task cannot move into a completed or verified status while required
+ * checklist items are unticked. Returns null when the move is allowed.
+ */
+export function checkRequiredItems(
+  workflow: workflowService.Workflow,
+  task: { checklist_open_required_count: number },
+  toStatus: string,
+): workflowService.TransitionError | null {
+  const category = workflowService.getStatusCategory(workflow, toStatus);
+  if (!task.checklist_open_required_count || (category !== 'completed' && category !== 'verified')) {
+    return null;
+  }
+
+  const count = task.checklist_open_required_count;
+  return {
+    httpStatus: 400,
+    code: 'CHECKLIST_INCOMPLETE',
+    message: `${count} required checklist item${count === 1 ? ' is' : 's are'} not ticked yet`,
+  };
+}
@@ -0,0 +1,172 @@
+import * as workflowModel from '../models/workflow.model';
+
+export type StatusCategory = 'open' | 'in_progress' | 'completed' | 'verified';
+
+export const STATUS_CATEGORIES: StatusCategory[] = ['open', 'in_progress', 'completed', 'verified'];
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  color: string;
+  category: StatusCategory;
+  isInitial: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  allowedRoles: string[]; // empty = any role
+  requiresComment: boolean;
+  requiresPhoto: boolean;
+  allowExternal: boolean; // contractor portal and email replies
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  isDefault: boolean;
+}
+
+export interface TransitionActor {
+  role?: string; // omitted for external contractors
+  external?: boolean;
+  hasComment?: boolean;
+  hasPhoto?: boolean;
+}
+
+export interface TransitionError {
+  httpStatus: number;
+  code: string;
+  message: string;
+}
+
+function transition(from: string, to: string, allowExternal = false): WorkflowTransition {
+  return { from, to, allowedRoles: [], requiresComment: false, requiresPhoto: false, allowExternal };
+}
+
+/** Workflow used by organisations that have not defined their own. */
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { key: 'open', label: 'Open', color: '#ef4444', category: 'open', isInitial: true },
+    { key: 'in_progress', label: 'In Progress', color: '#eab308', category: 'in_progress', isInitial: false },
+    { key: 'completed', label: 'Completed', color: '#22c55e', category: 'completed', isInitial: false },
+    { key: 'verified', label: 'Verified', color: '#3b82f6', category: 'verified', isInitial: false },
+  ],
+  transitions: [
+    transition('open', 'in_progress', true),
+    transition('in_progress', 'completed', true),
+    transition('in_progress', 'open'),
+    transition('completed', 'verified'),
+    transition('completed', 'in_progress'),
+  ],
+  isDefault: true,
+};
+
+export async function getWorkflow(organizationId: string): Promise<Workflow> {
+  const statuses = await workflowModel.findStatuses(organizationId);
+  if (statuses.length === 0) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  const transitions = await workflowModel.findTransitions(organizationId);
+  return {
+    statuses: statuses.map((s) => ({
+      key: s.status_key,
+      label: s.label,
+      color: s.color,
+      category: s.category as StatusCategory,
+      isInitial: s.is_initial,
+    })),
+    transitions: transitions.map((t) => ({
+      from: t.from_status,
+      to: t.to_status,
+      allowedRoles: t.allowed_roles,
+      requiresComment: t.requires_comment,
+      requiresPhoto: t.requires_photo,
+      allowExternal: t.allow_external,
+    })),
+    isDefault: false,
+  };
+}
+
+export function findStatus(workflow: Workflow, key: string): WorkflowStatus | undefined {
+  return workflow.statuses.find((s) => s.key === key);
+}
+
+/** Category of a status; unknown keys (e.g. legacy rows) are treated as their own category. */
+export function getStatusCategory(workflow: Workflow, key: string): StatusCategory | undefined {
+  return findStatus(workflow, key)?.category
+    ?? (STATUS_CATEGORIES.includes(key as StatusCategory) ? key as StatusCategory : undefined);
+}
+
+export function getInitialStatus(workflow: Workflow): string {
+  return (workflow.statuses.find((s) => s.isInitial) || workflow.statuses[0]).key;
+}
+
+function isPermitted(t: WorkflowTransition, actor: TransitionActor): boolean {
+  if (actor.external) return t.allowExternal;
+  return t.allowedRoles.length === 0 || (!!actor.role && t.allowedRoles.includes(actor.role));
+}
+
+/** Transitions out of a status that the given actor may attempt. */
+export function availableTransitions(workflow: Workflow, from: string, actor: TransitionActor): WorkflowTransition[] {
+  return workflow.transitions.filter((t) => t.from === from && isPermitted(t, actor));
+}
+
+/**
+ * Check a status change against the workflow. Returns null when allowed, or the
+ * error to send back to the client.
+ */
+export function checkTransition(
+  workflow: Workflow,
+  from: string,
+  to: string,
+  actor: TransitionActor,
+): TransitionError | null {
+  const t = workflow.transitions.find((tr) => tr.from === from && tr.to === to);
+  if (!t) {
+    return { httpStatus: 400, code: 'INVALID_TRANSITION', message: `Cannot transition from '${from}' to '${to}'` };
+  }
+
+  if (!isPermitted(t, actor)) {
+    return { httpStatus: 403, code: 'FORBIDDEN', message: `You are not allowed to move tasks from '${from}' to '${to}'` };
+  }
+
+  if (t.requiresComment && !actor.hasComment) {
+    return { httpStatus: 400, code: 'COMMENT_REQUIRED', message: 'A comment is required for this status change' };
+  }
+  if (t.requiresPhoto && !actor.hasPhoto) {
+    return { httpStatus: 400, code: 'PHOTO_REQUIRED', message: 'A photo must be added to the task before this status change' };
+  }
+
+  return null;
+}
+
+/**
+ * Referential checks zod cannot express. Returns a list of problems, empty when
+ * the definition is consistent.
+ */
+export function validateWorkflowDefinition(statuses: WorkflowStatus[], transitions: WorkflowTransition[]): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  for (const s of statuses) {
+    if (keys.has(s.key)) errors.push(`Duplicate status '${s.key}'`);
+    keys.add(s.key);
+  }
+  if (statuses.filter((s) => s.isInitial).length !== 1) {
+    errors.push('Exactly one status must be marked as the initial status');
+  }
+
+  const pairs = new Set<string>();
+  for (const t of transitions) {
+    if (!keys.has(t.from)) errors.push(`Transition from unknown status '${t.from}'`);
+    if (!keys.has(t.to)) errors.push(`Transition to unknown status '${t.to}'`);
+    if (t.from === t.to) errors.push(`Transition from '${t.from}' to itself`);
+    const pair = `${t.from}->${t.to}`;
+    if (pairs.has(pair)) errors.push(`Duplicate transition '${t.from}' to '${t.to}'`);
+    pairs.add(pair);
+  }
+
+  return errors;
+}
@@ -1,4 +1,4 @@
-import { UserRole } from './index';
+import { ProjectRole, UserRole } from './index';
 
 declare global {
   namespace Express {
@@ -10,6 +10,8 @@ declare global {
         role: UserRole;
         email: string;
       };
+      /** Caller's role on the project in the URL, set by requireProjectAccess */
+      projectRole?: ProjectRole;
       pagination?: {
         page: number;
         limit: number;
@@ -30,6 +30,12 @@ export enum UserRole {
   FIELD_USER = 'field_user',
 }
 
+export enum ProjectRole {
+  MANAGER = 'manager',
+  MEMBER = 'member',
+  VIEWER = 'viewer',
+}
+
 export enum TaskStatus {
   OPEN = 'open',
   IN_PROGRESS = 'in_progress',
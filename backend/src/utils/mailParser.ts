@@ -0,0 +1,132 @@
+/**
+ * Inbound contractor replies, parsed with mailparser so nested multipart bodies,
+ * transfer encodings, encoded headers and charsets are handled the way mail
+ * clients produce them. Only what the reply handling needs is kept.
+ */
+
+import { simpleParser, AddressObject } from 'mailparser';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedMail {
+  /** Message-ID header without angle brackets, when the sender set one */
+  messageId: string | null;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments: MailAttachment[];
+}
+
+const EMAIL_PATTERN = /[^\s<>,;:"']+@[^\s<>,;:"']+\.[^\s<>,;:"']+/g;
+
+/** Extract bare, lowercased addresses from an address header ("Name <a@b.se>, c@d.se"). */
+export function extractAddresses(value: string): string[] {
+  return (value.match(EMAIL_PATTERN) || []).map((a) => a.toLowerCase());
+}
+
+/** Normalise a Message-ID, or return null when there is none. */
+export function normalizeMessageId(value: string | undefined): string | null {
+  const id = (value || '').trim().replace(/^<|>$/g, '');
+  return id ? id.slice(0, 998) : null;
+}
+
+function addresses(header: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(header) ? header : header ? [header] : [];
+  return objects.flatMap((object) => extractAddresses(object.text));
+}
+
+/** Parse a raw RFC 822 message. */
+export async function parseMail(raw: Buffer | string): Promise<ParsedMail> {
+  const mail = await simpleParser(raw, {
+    skipHtmlToText: true,
+    skipTextToHtml: true,
+    skipImageLinks: true,
+    skipTextLinks: true,
+  });
+
+  const deliveredTo = mail.headers.get('delivered-to') as AddressObject | AddressObject[] | undefined;
+
+  return {
+    messageId: normalizeMessageId(mail.messageId),
+    from: addresses(mail.from)[0] || '',
+    to: [...addresses(mail.to), ...addresses(mail.cc), ...addresses(deliveredTo)],
+    subject: mail.subject || '',
+    text: mail.text || '',
+    html: mail.html || '',
+    attachments: mail.attachments.map((attachment) => ({
+      filename: attachment.filename || 'attachment',
+      contentType: attachment.contentType.toLowerCase(),
+      content: attachment.content,
+    })),
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Reply content
+// ────────────────────────────────────────────────────────────────
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<blockquote[\s\S]*$/i, '') // quoted reply in most HTML clients
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Lines that start the quoted original or a signature, in English and Swedish clients
+const QUOTE_MARKERS: RegExp[] = [
+  /^On .+wrote:\s*$/i,
+  /^Den .+skrev.*:\s*$/i,
+  /^.+ skrev:\s*$/i,
+  /^-{2,}\s*(Original Message|Ursprungligt meddelande|Forwarded message|Vidarebefordrat meddelande)\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^(From|Från|Sent|Skickat):\s/i,
+  /^-- ?$/,
+  /^Sent from my /i,
+  /^Skickat från min /i,
+];
+
+/** Keep only the newly written part of a reply. */
+export function stripQuotedText(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    // "On <date>, <name> wrote:" is often wrapped over two lines
+    const joined = i + 1 < lines.length ? `${line.trim()} ${lines[i + 1].trim()}` : '';
+    if (QUOTE_MARKERS.some((re) => re.test(line.trim())) || /^On .+wrote:\s*$/i.test(joined)) {
+      break;
+    }
+    if (line.trim().startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
+
+export type ReplyCommand = 'complete';
+
+const COMPLETE_WORDS = ['done', 'complete', 'completed', 'fixed', 'klar', 'klart', 'färdig', 'fixat', 'åtgärdat'];
+
+/** A command is recognised only when it is the first word of the reply, e.g. "DONE" or "Klart, bytt packningen". */
+export function detectCommand(body: string): ReplyCommand | null {
+  const firstLine = body.split('\n').find((l) => l.trim()) || '';
+  const firstWord = firstLine.trim().split(/[\s,.!:;]+/)[0]?.toLowerCase() || '';
+  return COMPLETE_WORDS.includes(firstWord) ? 'complete' : null;
+}
@@ -0,0 +1,18 @@
+/**
+ * Mentions are stored inline in comment and note text as @[Display Name](userId)
+ * tokens. The web app renders them as links; everywhere else (emails, the
+ * contractor portal, search snippets) they are shown as plain "@Display Name".
+ */
+
+const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)/gi;
+
+/** Distinct user ids mentioned in the text, in order of first appearance. */
+export function parseMentionIds(text: string): string[] {
+  const ids = [...text.matchAll(MENTION_PATTERN)].map((match) => match[2].toLowerCase());
+  return [...new Set(ids)];
+}
+
+/** Replace mention tokens with "@Display Name". */
+export function mentionsToPlainText(text: string): string {
+  return text.replace(MENTION_PATTERN, '@$1');
+}
@@ -0,0 +1,61 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface PopplerOutput {
+  /** What the tool wrote to stdout */
+  stdout: string;
+  /** Working directory, for tools that write their output to files */
+  dir: string;
+}
+
+/**
+ * Run one of poppler's command line tools on a PDF. The PDF is written to a
+ * temporary directory whose input path and location `args` builds the command
+ * line from; `read` collects the result before the directory is removed.
+ */
+export async function runPoppler<T>(
+  command: 'pdftoppm' | 'pdftotext',
+  pdf: Buffer,
+  options: {
+    args: (input: string, dir: string) => string[];
+    timeoutMs: number;
+    read: (output: PopplerOutput) => T | Promise<T>;
+  },
+): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), `${command}-`));
+  try {
+    const input = path.join(dir, 'input.pdf');
+    await fs.writeFile(input, pdf);
+
+    const proc = spawn(command, options.args(input, dir), {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: options.timeoutMs,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    proc.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    proc.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      proc.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${command} failed (code ${code}): ${stderr}`));
+        }
+      });
+      proc.on('error', reject);
+    });
+
+    return await options.read({ stdout, dir });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -1,5 +1,15 @@
 import { z } from 'zod';
 
+const MAX_ATTACHMENTS = 10;
+
 export const createCommentSchema = z.object({
   commentText: z.string().min(1, 'Comment text is required').max(5000),
 });
+
+export const createTaskCommentSchema = createCommentSchema.extend({
+  // Replies go to a top-level comment; replies to replies are not allowed
+  parentId: z.string().uuid().optional(),
+  attachmentIds: z.array(z.string().uuid()).max(MAX_ATTACHMENTS).optional(),
+});
+
+export const updateCommentSchema = createCommentSchema;
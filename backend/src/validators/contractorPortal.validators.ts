@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const createPortalLinkSchema = z.object({
+  email: z.string().email().max(255),
+  expiresInDays: z.number().int().min(1).max(90).optional(),
+});
+
+export const portalStatusSchema = z.object({
+  status: z.string().min(1).max(50),
+  comment: z.string().max(5000).optional(),
+});
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { DISCIPLINES } from '../services/drawingSet.service';
+
+// Drawing sets are split into single-page blueprints, so they may be larger than one
+const MAX_DRAWING_SET_SIZE = 100 * 1024 * 1024; // 100 MB
+const MAX_SHEETS = 500;
+
+const sheetNumber = z.string().trim().max(50).nullable();
+const discipline = z.enum(DISCIPLINES, { message: `Allowed disciplines: ${DISCIPLINES.join(', ')}` });
+
+export const requestDrawingSetUploadSchema = z.object({
+  fileName: z.string().min(1, 'File name is required').max(255),
+  fileSize: z
+    .number()
+    .int()
+    .positive('File size must be positive')
+    .max(MAX_DRAWING_SET_SIZE, `File size must not exceed ${MAX_DRAWING_SET_SIZE / (1024 * 1024)} MB`),
+  mimeType: z.literal('application/pdf', { message: 'Drawing sets must be PDFs' }),
+  name: z.string().trim().min(1, 'Drawing set name is required').max(255),
+});
+
+// The reviewed sheets; pages left out are not split off
+export const splitDrawingSetSchema = z.object({
+  sheets: z.array(z.object({
+    page: z.number().int().positive(),
+    sheetNumber,
+    title: z.string().trim().min(1, 'Sheet title is required').max(255),
+    discipline,
+  })).min(1, 'Choose at least one sheet').max(MAX_SHEETS),
+}).refine(
+  (data) => new Set(data.sheets.map((s) => s.page)).size === data.sheets.length,
+  { message: 'Each page can only be split off once', path: ['sheets'] },
+);
+
+// Rename the set, and rename sheets or move them to another discipline folder in bulk
+export const updateDrawingSetSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  sheets: z.array(z.object({
+    blueprintId: z.string().uuid(),
+    sheetNumber: sheetNumber.optional(),
+    title: z.string().trim().min(1).max(255).optional(),
+    discipline: discipline.optional(),
+  })).min(1).max(MAX_SHEETS).optional(),
+}).refine(
+  (data) => data.name !== undefined || data.sheets !== undefined,
+  { message: 'Nothing to update' },
+);
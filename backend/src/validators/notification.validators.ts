@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPES } from '../services/notification.service';
+import { DIGEST_FREQUENCIES, isValidTimezone } from '../services/digest.service';
+
+export const updateNotificationPreferencesSchema = z.object({
+  // Only the event types being changed, e.g. { "task_comment": "email" }
+  preferences: z
+    .partialRecord(z.enum(NOTIFICATION_TYPES), z.enum(NOTIFICATION_CHANNELS))
+    .refine((v) => Object.keys(v).length > 0, 'No preferences given'),
+});
+
+export const updateDigestSettingsSchema = z.object({
+  frequency: z.enum(DIGEST_FREQUENCIES),
+  sendHour: z.number().int().min(0).max(23),
+  weekday: z.number().int().min(1).max(7),
+  timezone: z.string().max(64).refine(isValidTimezone, 'Unknown timezone'),
+});
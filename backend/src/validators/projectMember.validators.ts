@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+const projectRole = z.enum(['manager', 'member', 'viewer']);
+
+export const addProjectMemberSchema = z.object({
+  userId: z.string().uuid(),
+  role: projectRole,
+});
+
+export const updateProjectMemberSchema = z.object({
+  role: projectRole,
+});
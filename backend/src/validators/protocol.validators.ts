@@ -1,14 +1,13 @@
 import { z } from 'zod';
+import { taskFiltersSchema } from './task.validators';
 
 export const generateProtocolSchema = z.object({
   name: z.string().min(1, 'Protocol name is required').max(255),
-  filters: z.object({
-    status: z.string().optional(),
-    trade: z.string().optional(),
-    priority: z.string().optional(),
-    dateFrom: z.string().optional(),
-    dateTo: z.string().optional(),
-  }).optional().default({}),
+  filters: taskFiltersSchema.optional().default({}),
+  // A saved view supplies the filters; explicit filters refine it
+  viewId: z.string().uuid().optional(),
+  // Adds each task's comments, replies and attachments after the photos
+  includeComments: z.boolean().optional().default(false),
 });
 
 export type GenerateProtocolBody = z.infer<typeof generateProtocolSchema>;
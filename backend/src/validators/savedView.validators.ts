@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { taskFiltersSchema } from './task.validators';
+
+export const createSavedViewSchema = z.object({
+  name: z.string().trim().min(1, 'View name is required').max(100),
+  filters: taskFiltersSchema,
+  isShared: z.boolean().optional().default(false),
+});
+
+export const updateSavedViewSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  filters: taskFiltersSchema.optional(),
+  isShared: z.boolean().optional(),
+}).refine(
+  (data) => Object.values(data).some((v) => v !== undefined),
+  { message: 'No changes given' },
+);
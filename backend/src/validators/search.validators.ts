@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { SEARCH_TYPES } from '../models/search.model';
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, 'Search term must be at least 2 characters').max(200),
+  // Comma-separated, e.g. "task,comment"
+  types: z
+    .string()
+    .refine(
+      (v) => v.split(',').every((t) => (SEARCH_TYPES as readonly string[]).includes(t)),
+      `Types must be one of: ${SEARCH_TYPES.join(', ')}`,
+    )
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
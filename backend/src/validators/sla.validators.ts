@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+const priority = z.enum(['low', 'normal', 'high', 'critical']);
+
+export const createSlaRuleSchema = z.object({
+  projectId: z.string().uuid().nullable().optional(),
+  priority: priority.nullable().optional(),
+  trade: z.string().max(50).nullable().optional(),
+  dueInDays: z.number().int().min(0).max(365),
+});
+
+export const updateSlaRuleSchema = z.object({
+  projectId: z.string().uuid().nullable().optional(),
+  priority: priority.nullable().optional(),
+  trade: z.string().max(50).nullable().optional(),
+  dueInDays: z.number().int().min(0).max(365).optional(),
+});
@@ -1,5 +1,22 @@
 import { z } from 'zod';
 
+// Points are relative to the page; the value is worked out on the server from the page's calibration
+const measurement = z.object({
+  id: z.string().uuid(),
+  type: z.enum(['distance', 'polyline', 'area']),
+  page: z.number().int().min(1),
+  points: z.array(z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) })).min(2).max(200),
+  label: z.string().max(100).optional(),
+}).refine(
+  (m) => m.type !== 'distance' || m.points.length === 2,
+  { message: 'A distance is measured between two points', path: ['points'] },
+).refine(
+  (m) => m.type !== 'area' || m.points.length >= 3,
+  { message: 'An area needs at least three points', path: ['points'] },
+);
+
+const dueDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Due date must be a date like 2025-03-31');
+
 export const createTaskSchema = z.object({
   title: z.string().min(1, 'Task title is required').max(255),
   description: z.string().max(5000).optional(),
@@ -22,12 +39,16 @@ export const createTaskSchema = z.object({
     page: z.number().int().min(1),
   })).nullable().optional(),
   customFields: z.record(z.string(), z.unknown()).optional(),
+  dueDate: dueDate.optional(),
+  // Attaches the template's checklist and products
+  templateId: z.string().uuid().optional(),
 });
 
 export const updateTaskSchema = z.object({
   title: z.string().min(1).max(255).optional(),
   description: z.string().max(5000).nullable().optional(),
-  status: z.enum(['open', 'in_progress', 'completed', 'verified']).optional(),
+  status: z.string().min(1).max(50).optional(),
+  statusComment: z.string().max(5000).optional(),
   priority: z.enum(['low', 'normal', 'high', 'critical']).optional(),
   trade: z.string().max(50).nullable().optional(),
   blueprintId: z.string().uuid().nullable().optional(),
@@ -46,15 +67,89 @@ export const updateTaskSchema = z.object({
     y: z.number().min(0).max(1),
     page: z.number().int().min(1),
   })).nullable().optional(),
+  measurements: z.array(measurement).max(100).nullable().optional(),
   customFields: z.record(z.string(), z.unknown()).optional(),
+  dueDate: dueDate.nullable().optional(),
+  expectedUpdatedAt: z.string().datetime({ offset: true }).optional(),
 });
 
+const filterDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must look like 2025-03-31');
+
+// Filters take a single value or a list; a task matches any value in the list
+function oneOrMany<T extends z.ZodType>(item: T) {
+  return z.union([item, z.array(item).min(1).max(100)]);
+}
+
+export const CUSTOM_FIELD_OPERATORS = ['eq', 'neq', 'contains', 'gt', 'gte', 'lt', 'lte', 'empty', 'not_empty'] as const;
+
+export const customFieldPredicateSchema = z.object({
+  key: z.string().min(1).max(100),
+  op: z.enum(CUSTOM_FIELD_OPERATORS),
+  value: z.union([z.string().max(255), z.number(), z.boolean()]).optional(),
+}).refine(
+  (p) => p.op === 'empty' || p.op === 'not_empty' || p.value !== undefined,
+  { message: 'A value is required for this operator', path: ['value'] },
+);
+
+/** Task list filters as stored in saved views and sent by bulk changes and protocols. */
 export const taskFiltersSchema = z.object({
-  status: z.enum(['open', 'in_progress', 'completed', 'verified']).optional(),
-  priority: z.enum(['low', 'normal', 'high', 'critical']).optional(),
-  trade: z.string().optional(),
-  assignedToMe: z.string().optional(),
-  search: z.string().optional(),
-  page: z.string().optional(),
-  limit: z.string().optional(),
+  status: oneOrMany(z.string().min(1).max(50)).optional(),
+  priority: oneOrMany(z.enum(['low', 'normal', 'high', 'critical'])).optional(),
+  trade: oneOrMany(z.string().min(1).max(50)).optional(),
+  // User ids; "me" stands for whoever runs the view
+  assignee: oneOrMany(z.union([z.literal('me'), z.string().uuid()])).optional(),
+  assignedToMe: z.boolean().optional(),
+  contractorEmail: z.string().min(1).max(255).optional(),
+  blueprintId: oneOrMany(z.string().uuid()).optional(),
+  hasPhotos: z.boolean().optional(),
+  createdFrom: filterDate.optional(),
+  createdTo: filterDate.optional(),
+  completedFrom: filterDate.optional(),
+  completedTo: filterDate.optional(),
+  verifiedFrom: filterDate.optional(),
+  verifiedTo: filterDate.optional(),
+  search: z.string().max(255).optional(),
+  overdue: z.boolean().optional(),
+  // Has blockers that are not completed yet
+  blocked: z.boolean().optional(),
+  customFields: z.array(customFieldPredicateSchema).max(20).optional(),
+  sortBy: z.enum(['number', 'date', 'user', 'due']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+export type TaskFiltersInput = z.infer<typeof taskFiltersSchema>;
+
+export const MAX_BULK_TASKS = 500;
+
+export const bulkTaskSchema = z.object({
+  taskIds: z.array(z.string().uuid()).min(1).max(MAX_BULK_TASKS).optional(),
+  filter: taskFiltersSchema.optional(),
+  action: z.enum(['update', 'delete']),
+  changes: z.object({
+    status: z.string().min(1).max(50).optional(),
+    statusComment: z.string().max(5000).optional(),
+    priority: z.enum(['low', 'normal', 'high', 'critical']).optional(),
+    trade: z.string().max(50).nullable().optional(),
+    blueprintId: z.string().uuid().nullable().optional(),
+    assignedToUser: z.string().uuid().nullable().optional(),
+    assignedToContractorEmail: z.string().email().nullable().optional(),
+    customFields: z.record(z.string(), z.unknown()).optional(),
+  }).optional(),
+}).refine(
+  (data) => !!data.taskIds !== !!data.filter,
+  { message: 'Provide either taskIds or filter', path: ['taskIds'] },
+).refine(
+  (data) => data.action !== 'update'
+    || (!!data.changes && Object.keys(data.changes).some((key) => key !== 'statusComment')),
+  { message: 'No changes given', path: ['changes'] },
+);
+
+
+// Duplicates stay in the task's own project unless another one is given
+export const duplicateTaskSchema = z.object({
+  projectId: z.string().uuid().optional(),
+});
+
+export const moveTaskSchema = z.object({
+  projectId: z.string().uuid(),
 });
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must look like 2025-03-31');
+
+// The rule itself is checked by the recurrence service, which explains what it cannot use
+export const createTaskRecurrenceSchema = z.object({
+  templateId: z.string().uuid(),
+  rule: z.string().min(1, 'Recurrence rule is required').max(500),
+  startsOn: date,
+  assignedToUser: z.string().uuid().nullable().optional(),
+  skipIfOpen: z.boolean().optional(),
+});
+
+export const updateTaskRecurrenceSchema = z.object({
+  templateId: z.string().uuid().optional(),
+  rule: z.string().min(1).max(500).optional(),
+  startsOn: date.optional(),
+  assignedToUser: z.string().uuid().nullable().optional(),
+  skipIfOpen: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const previewTaskRecurrenceSchema = z.object({
+  rule: z.string().min(1, 'Recurrence rule is required').max(500),
+  startsOn: date,
+});
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// As seen from the task the relation is added to; blocked_by is stored as the other task blocking it
+export const TASK_RELATION_TYPES = ['blocks', 'blocked_by', 'duplicates', 'relates_to'] as const;
+
+export const createTaskRelationSchema = z.object({
+  type: z.enum(TASK_RELATION_TYPES),
+  taskId: z.string().uuid(),
+});
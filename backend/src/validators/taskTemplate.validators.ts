@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+const priority = z.enum(['low', 'normal', 'high', 'critical']);
+
+export const MAX_CHECKLIST_ITEMS = 100;
+
+export const checklistItemSchema = z.object({
+  text: z.string().trim().min(1, 'Item text is required').max(500),
+  isRequired: z.boolean().optional().default(false),
+});
+
+export const createTaskTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').max(255),
+  title: z.string().min(1, 'Task title is required').max(255),
+  description: z.string().max(5000).nullable().optional(),
+  trade: z.string().max(50).nullable().optional(),
+  priority: priority.optional().default('normal'),
+  customFields: z.record(z.string(), z.unknown()).optional(),
+  checklistItems: z.array(checklistItemSchema).max(MAX_CHECKLIST_ITEMS).optional(),
+  productIds: z.array(z.string().uuid()).max(100).optional(),
+});
+
+export const updateTaskTemplateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  title: z.string().min(1).max(255).optional(),
+  description: z.string().max(5000).nullable().optional(),
+  trade: z.string().max(50).nullable().optional(),
+  priority: priority.optional(),
+  customFields: z.record(z.string(), z.unknown()).optional(),
+  checklistItems: z.array(checklistItemSchema).max(MAX_CHECKLIST_ITEMS).optional(),
+  productIds: z.array(z.string().uuid()).max(100).optional(),
+});
+
+// Either one ad-hoc item or every item of a template
+export const addChecklistItemsSchema = z.union([
+  z.object({ templateId: z.string().uuid() }),
+  checklistItemSchema,
+]);
+
+export const updateChecklistItemSchema = z.object({
+  checked: z.boolean(),
+});
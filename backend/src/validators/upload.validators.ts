@@ -1,9 +1,14 @@
 import { z } from 'zod';
+import { PAPER_SIZE_KEYS } from '../services/measurement.service';
 
 const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png'] as const;
 const ALLOWED_BLUEPRINT_TYPES = ['application/pdf'] as const;
+// Image blueprints predate PDF-only uploads; they can still get new revisions
+const ALLOWED_BLUEPRINT_REVISION_TYPES = [...ALLOWED_BLUEPRINT_TYPES, 'image/jpeg', 'image/png'] as const;
+const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'application/pdf'] as const;
 const MAX_PHOTO_SIZE = 10 * 1024 * 1024; // 10 MB
 const MAX_BLUEPRINT_SIZE = 50 * 1024 * 1024; // 50 MB
+const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20 MB
 
 export const requestPhotoUploadSchema = z.object({
   fileName: z.string().min(1, 'File name is required').max(255),
@@ -25,10 +30,72 @@ export const requestBlueprintUploadSchema = z.object({
     .int()
     .positive('File size must be positive')
     .max(MAX_BLUEPRINT_SIZE, `File size must not exceed ${MAX_BLUEPRINT_SIZE / (1024 * 1024)} MB`),
-  mimeType: z.enum(ALLOWED_BLUEPRINT_TYPES, {
+  mimeType: z.enum(ALLOWED_BLUEPRINT_REVISION_TYPES, {
     message: `Allowed types: ${ALLOWED_BLUEPRINT_TYPES.join(', ')}`,
   }),
-  name: z.string().min(1, 'Blueprint name is required').max(255),
+  name: z.string().min(1, 'Blueprint name is required').max(255).optional(),
+  // Upload a new revision of an existing blueprint instead of a new blueprint
+  blueprintId: z.string().uuid().optional(),
+  label: z.string().trim().min(1).max(20).optional(),
+}).refine(
+  (data) => !!data.blueprintId || !!data.name,
+  { message: 'Blueprint name is required', path: ['name'] },
+).refine(
+  (data) => !!data.blueprintId || (ALLOWED_BLUEPRINT_TYPES as readonly string[]).includes(data.mimeType),
+  { message: `Allowed types: ${ALLOWED_BLUEPRINT_TYPES.join(', ')}`, path: ['mimeType'] },
+);
+
+export const confirmBlueprintUploadSchema = z.object({
+  revisionId: z.string().uuid().optional(),
+  // A confirmed revision becomes the current one unless this is false
+  makeCurrent: z.boolean().optional(),
+});
+
+export const reviewAnnotationsSchema = z.object({
+  taskIds: z.array(z.string().uuid()).min(1).max(500),
+  action: z.enum(['keep', 'clear']),
+});
+
+export const compareRevisionsSchema = z.object({
+  fromRevisionId: z.string().uuid(),
+  toRevisionId: z.string().uuid(),
+}).refine(
+  (data) => data.fromRevisionId !== data.toRevisionId,
+  { message: 'Choose two different revisions', path: ['toRevisionId'] },
+);
+
+// Query of the previews listing, and body of rendering them again
+export const blueprintPreviewsSchema = z.object({
+  // Defaults to the current revision
+  revisionId: z.string().uuid().optional(),
+});
+
+const relative = z.number().min(0).max(1);
+
+// Scale of a blueprint page: a line over a dimension of known length in metres, or a printed scale like 1:100 on A1
+export const calibrateBlueprintPageSchema = z.discriminatedUnion('method', [
+  z.object({
+    method: z.literal('line'),
+    line: z.object({ x1: relative, y1: relative, x2: relative, y2: relative }),
+    length: z.number().positive('Length must be positive').max(100000),
+  }),
+  z.object({
+    method: z.literal('scale'),
+    ratio: z.number().positive('Scale must be positive').max(100000),
+    paperSize: z.enum(PAPER_SIZE_KEYS, { message: `Allowed paper sizes: ${PAPER_SIZE_KEYS.join(', ')}` }),
+  }),
+]);
+
+export const requestCommentAttachmentUploadSchema = z.object({
+  fileName: z.string().min(1, 'File name is required').max(255),
+  fileSize: z
+    .number()
+    .int()
+    .positive('File size must be positive')
+    .max(MAX_ATTACHMENT_SIZE, `File size must not exceed ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`),
+  mimeType: z.enum(ALLOWED_ATTACHMENT_TYPES, {
+    message: `Allowed types: ${ALLOWED_ATTACHMENT_TYPES.join(', ')}`,
+  }),
 });
 
 export type RequestPhotoUpload = z.infer<typeof requestPhotoUploadSchema>;
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+const statusKey = z.string().regex(/^[a-z][a-z0-9_]*$/, 'Status keys must be lowercase letters, digits and underscores').max(50);
+
+export const workflowStatusSchema = z.object({
+  key: statusKey,
+  label: z.string().min(1, 'Label is required').max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #22c55e'),
+  category: z.enum(['open', 'in_progress', 'completed', 'verified']),
+  isInitial: z.boolean().optional().default(false),
+});
+
+export const workflowTransitionSchema = z.object({
+  from: statusKey,
+  to: statusKey,
+  allowedRoles: z.array(z.enum(['super_admin', 'org_admin', 'project_manager', 'field_user'])).optional().default([]),
+  requiresComment: z.boolean().optional().default(false),
+  requiresPhoto: z.boolean().optional().default(false),
+  allowExternal: z.boolean().optional().default(false),
+});
+
+export const updateWorkflowSchema = z.object({
+  statuses: z.array(workflowStatusSchema).min(1).max(30),
+  transitions: z.array(workflowTransitionSchema).max(200),
+});
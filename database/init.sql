@@ -78,6 +78,29 @@ CREATE INDEX idx_projects_org_status ON projects(organization_id, status);
 CREATE INDEX idx_projects_dates ON projects(start_date, target_completion_date);
 CREATE INDEX idx_projects_responsible ON projects(responsible_user_id);
 
+-- ============================================================================
+-- Drawing sets table
+-- ============================================================================
+-- A multi-page PDF uploaded to be split into one blueprint per sheet. It is
+-- uploaded, then analysed into proposed sheets for review, then split; the
+-- uploaded file is removed once its sheets exist.
+CREATE TABLE drawing_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'uploading',
+  file_url VARCHAR(500),
+  file_size_bytes BIGINT,
+  page_count INTEGER,
+  -- [{ page, sheetNumber, title, discipline }] read from the title blocks
+  proposed_sheets JSONB,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  split_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX drawing_sets_project_id_index ON drawing_sets(project_id);
+
 -- ============================================================================
 -- Blueprints table
 -- ============================================================================
@@ -92,10 +115,54 @@ CREATE TABLE blueprints (
   width_pixels INT,
   height_pixels INT,
   uploaded_by UUID REFERENCES users(id),
-  uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  page_count INTEGER,
+  drawing_set_id UUID REFERENCES drawing_sets(id) ON DELETE SET NULL,
+  sheet_number VARCHAR(50),
+  -- Folder within the drawing set: architectural, electrical, hvac, ...
+  discipline VARCHAR(30),
+  -- Page of the sheet in the original drawing set
+  set_page INTEGER,
+  -- Drawing scale of each calibrated page, as metres per page unit
+  scale_calibrations JSONB
 );
 
 CREATE INDEX idx_blueprints_project ON blueprints(project_id);
+CREATE INDEX blueprints_drawing_set_id_index ON blueprints(drawing_set_id);
+CREATE INDEX idx_blueprints_fts ON blueprints USING gin((to_tsvector('english', COALESCE(name, '')) || to_tsvector('swedish', COALESCE(name, ''))));
+CREATE INDEX idx_blueprints_name_trgm ON blueprints USING gin(name gin_trgm_ops);
+
+-- ============================================================================
+-- Blueprint revisions table
+-- ============================================================================
+-- Every file issued for a blueprint. The blueprint row keeps mirroring the file of
+-- its current revision so everything that reads blueprints.file_url keeps working.
+-- page_sizes is an array of { width, height } in PDF points, read on confirm.
+CREATE TABLE blueprint_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL REFERENCES blueprints(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  label VARCHAR(20) NOT NULL,
+  file_url VARCHAR(500) NOT NULL,
+  file_size_bytes BIGINT NOT NULL,
+  mime_type VARCHAR(50) NOT NULL,
+  thumbnail_url VARCHAR(500),
+  page_count INTEGER,
+  page_sizes JSONB,
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  -- PDFs are rasterised after upload: pending, then ready or failed; NULL for images
+  preview_status VARCHAR(20),
+  -- First page's size in its large preview, or the image size
+  width_pixels INTEGER,
+  height_pixels INTEGER,
+  CONSTRAINT blueprint_revisions_number_unique UNIQUE(blueprint_id, revision_number)
+);
+
+-- Added after the table it references exists
+ALTER TABLE blueprints
+  ADD COLUMN current_revision_id UUID REFERENCES blueprint_revisions(id) ON DELETE SET NULL;
 
 -- ============================================================================
 -- Tasks table
@@ -107,7 +174,8 @@ CREATE TABLE tasks (
   blueprint_id UUID REFERENCES blueprints(id) ON DELETE SET NULL,
   title VARCHAR(255) NOT NULL,
   description TEXT,
-  status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'completed', 'verified')),
+  -- Validated against the organisation's workflow
+  status VARCHAR(50) DEFAULT 'open',
   priority VARCHAR(20) DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'critical')),
   trade VARCHAR(50),
   location_x FLOAT,
@@ -126,6 +194,16 @@ CREATE TABLE tasks (
   annotation_page INTEGER,
   annotation_markers JSONB,
   custom_fields JSONB DEFAULT '{}'::jsonb,
+  -- Used in reply addresses (reply+<token>@domain) and subject tags
+  reply_token VARCHAR(32) NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  due_date DATE,
+  due_reminder_sent_at TIMESTAMP WITH TIME ZONE,
+  overdue_escalated_at TIMESTAMP WITH TIME ZONE,
+  -- Only set while the annotation is still drawn on an older revision and waits for review
+  annotation_revision_id UUID REFERENCES blueprint_revisions(id) ON DELETE SET NULL,
+  annotation_recorded_revision_id UUID REFERENCES blueprint_revisions(id) ON DELETE SET NULL,
+  -- Distances, polylines and areas measured on the task's blueprint, with their geometry
+  measurements JSONB,
   UNIQUE(project_id, task_number)
 );
 
@@ -133,7 +211,12 @@ CREATE INDEX idx_tasks_project_status ON tasks(project_id, status);
 CREATE INDEX idx_tasks_assigned ON tasks(assigned_to_user, status);
 CREATE INDEX idx_tasks_contractor ON tasks(assigned_to_contractor_email);
 CREATE INDEX idx_tasks_trade ON tasks(trade, status);
-CREATE INDEX idx_tasks_search ON tasks USING gin(to_tsvector('english', title || ' ' || COALESCE(description, '')));
+-- Search documents must match src/models/search.model.ts or the indexes go unused
+CREATE INDEX idx_tasks_fts ON tasks USING gin((to_tsvector('english', COALESCE(title, '') || ' ' || COALESCE(trade, '') || ' ' || COALESCE(description, '')) || to_tsvector('swedish', COALESCE(title, '') || ' ' || COALESCE(trade, '') || ' ' || COALESCE(description, ''))));
+CREATE INDEX idx_tasks_title_trgm ON tasks USING gin(title gin_trgm_ops);
+CREATE UNIQUE INDEX idx_tasks_reply_token ON tasks(reply_token);
+CREATE INDEX idx_tasks_due_date ON tasks(due_date) WHERE due_date IS NOT NULL;
+CREATE INDEX idx_tasks_annotation_revision ON tasks(annotation_revision_id) WHERE annotation_revision_id IS NOT NULL;
 
 -- ============================================================================
 -- Task photos table
@@ -160,10 +243,18 @@ CREATE TABLE task_comments (
   user_id UUID REFERENCES users(id) ON DELETE SET NULL,
   external_email VARCHAR(255),
   comment_text TEXT NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Replies point at a top-level comment; threads are one level deep
+  parent_id UUID REFERENCES task_comments(id) ON DELETE CASCADE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  -- Soft delete keeps the thread intact; the text is hidden from every reader
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES users(id) ON DELETE SET NULL
 );
 
 CREATE INDEX idx_task_comments_task ON task_comments(task_id, created_at);
+CREATE INDEX idx_task_comments_parent ON task_comments(parent_id) WHERE parent_id IS NOT NULL;
+CREATE INDEX idx_task_comments_fts ON task_comments USING gin((to_tsvector('english', COALESCE(comment_text, '')) || to_tsvector('swedish', COALESCE(comment_text, ''))));
 
 -- ============================================================================
 -- Protocols table (generated reports)
@@ -236,6 +327,8 @@ CREATE TABLE products (
 
 CREATE INDEX idx_products_org ON products(organization_id);
 CREATE INDEX idx_products_org_product_id ON products(organization_id, product_id);
+CREATE INDEX idx_products_fts ON products USING gin((to_tsvector('english', COALESCE(name, '') || ' ' || COALESCE(product_id, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(comment, '')) || to_tsvector('swedish', COALESCE(name, '') || ' ' || COALESCE(product_id, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(comment, ''))));
+CREATE INDEX idx_products_name_trgm ON products USING gin(name gin_trgm_ops);
 
 -- ============================================================================
 -- Task products junction table (many-to-many: tasks <-> products)
@@ -286,6 +379,7 @@ CREATE TABLE project_notes (
 );
 
 CREATE INDEX idx_project_notes_project ON project_notes(project_id);
+CREATE INDEX idx_project_notes_fts ON project_notes USING gin((to_tsvector('english', COALESCE(content, '')) || to_tsvector('swedish', COALESCE(content, ''))));
 
 -- ============================================================================
 -- Backups table
@@ -321,6 +415,455 @@ CREATE TABLE backup_settings (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- ============================================================================
+-- Idempotency keys table (replayed offline requests)
+-- ============================================================================
+CREATE TABLE idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) NOT NULL,
+  request_method VARCHAR(10) NOT NULL,
+  request_path VARCHAR(500) NOT NULL,
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_idempotency_keys_user_key ON idempotency_keys(user_id, idempotency_key);
+CREATE INDEX idx_idempotency_keys_created ON idempotency_keys(created_at);
+
+-- ============================================================================
+-- Inbound email quarantine table (replies from unexpected senders)
+-- ============================================================================
+CREATE TABLE inbound_email_quarantine (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  from_email VARCHAR(255) NOT NULL,
+  subject VARCHAR(500),
+  body_text TEXT NOT NULL,
+  command VARCHAR(20),
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT chk_inbound_email_quarantine_status CHECK (status IN ('pending', 'approved', 'rejected'))
+);
+
+CREATE INDEX idx_inbound_email_quarantine_project_status ON inbound_email_quarantine(project_id, status);
+
+-- ============================================================================
+-- Inbound email deliveries table (webhook replay protection)
+-- ============================================================================
+-- One row per accepted inbound email webhook, so a captured request cannot be
+-- replayed and a message the relay delivers twice is only posted once
+CREATE TABLE inbound_email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  signature VARCHAR(64) NOT NULL,
+  message_id VARCHAR(998),
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_inbound_email_deliveries_signature ON inbound_email_deliveries(signature);
+CREATE UNIQUE INDEX idx_inbound_email_deliveries_message_id ON inbound_email_deliveries(message_id) WHERE message_id IS NOT NULL;
+
+-- ============================================================================
+-- Contractor portal links table (magic links for external contractors)
+-- ============================================================================
+CREATE TABLE contractor_portal_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  contractor_email VARCHAR(255) NOT NULL,
+  token_hash VARCHAR(128) NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_contractor_portal_links_project ON contractor_portal_links(project_id);
+
+-- ============================================================================
+-- Workflow statuses table (organisation task workflows)
+-- ============================================================================
+-- Organisations without rows use the built-in open → in_progress → completed →
+-- verified workflow. Every status rolls up into one of the built-in categories.
+CREATE TABLE workflow_statuses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  status_key VARCHAR(50) NOT NULL,
+  label VARCHAR(100) NOT NULL,
+  color VARCHAR(7) NOT NULL,
+  category VARCHAR(20) NOT NULL CHECK (category IN ('open', 'in_progress', 'completed', 'verified')),
+  is_initial BOOLEAN NOT NULL DEFAULT false,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT uq_workflow_statuses_org_key UNIQUE(organization_id, status_key)
+);
+
+-- ============================================================================
+-- Workflow transitions table
+-- ============================================================================
+CREATE TABLE workflow_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  from_status VARCHAR(50) NOT NULL,
+  to_status VARCHAR(50) NOT NULL,
+  -- Empty means every role may perform the transition
+  allowed_roles TEXT[] NOT NULL DEFAULT '{}',
+  requires_comment BOOLEAN NOT NULL DEFAULT false,
+  requires_photo BOOLEAN NOT NULL DEFAULT false,
+  -- Whether contractors may perform it from the portal or by email reply
+  allow_external BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT uq_workflow_transitions_org_from_to UNIQUE(organization_id, from_status, to_status)
+);
+
+-- ============================================================================
+-- Task history table (field-level change log)
+-- ============================================================================
+CREATE TABLE task_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  field VARCHAR(150) NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- Set instead of changed_by for changes made by contractors
+  external_email VARCHAR(255),
+  via VARCHAR(20),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_history_task ON task_history(task_id, created_at);
+
+-- ============================================================================
+-- SLA rules table (default due dates by priority and/or trade)
+-- ============================================================================
+CREATE TABLE sla_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- NULL for organisation-wide rules
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  priority VARCHAR(20),
+  trade VARCHAR(50),
+  due_in_days INTEGER NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_sla_rules_org_project ON sla_rules(organization_id, project_id);
+
+-- ============================================================================
+-- Project members table
+-- ============================================================================
+-- Organisation admins see every project; everyone else only the projects
+-- they are a member of.
+CREATE TABLE project_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('manager', 'member', 'viewer')),
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT uq_project_members_project_user UNIQUE(project_id, user_id)
+);
+
+CREATE INDEX idx_project_members_user ON project_members(user_id);
+
+-- ============================================================================
+-- Saved views table (named task list filters)
+-- ============================================================================
+CREATE TABLE saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_saved_views_project ON saved_views(project_id);
+CREATE INDEX idx_saved_views_user ON saved_views(user_id);
+
+-- ============================================================================
+-- Saved view pins table
+-- ============================================================================
+-- Pins are per user so anyone can pin a view shared with the project
+CREATE TABLE saved_view_pins (
+  view_id UUID NOT NULL REFERENCES saved_views(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT pk_saved_view_pins PRIMARY KEY(view_id, user_id)
+);
+
+CREATE INDEX idx_saved_view_pins_user ON saved_view_pins(user_id);
+
+-- ============================================================================
+-- Notifications table
+-- ============================================================================
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  body TEXT,
+  -- Path in the web app, e.g. /projects/:projectId/tasks/:taskId
+  link VARCHAR(500),
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+  -- Channel chosen by the user when the notification was created
+  channel VARCHAR(20) NOT NULL DEFAULT 'in_app' CHECK (channel IN ('in_app', 'email', 'digest')),
+  read_at TIMESTAMP WITH TIME ZONE,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- ============================================================================
+-- Notification preferences table
+-- ============================================================================
+-- One row per event type the user changed; missing rows use the defaults in notification.service.ts
+CREATE TABLE notification_preferences (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('in_app', 'email', 'digest')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT pk_notification_preferences PRIMARY KEY(user_id, event_type)
+);
+
+-- ============================================================================
+-- Digest settings table
+-- ============================================================================
+-- Users without a row get no digest
+CREATE TABLE digest_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  frequency VARCHAR(10) NOT NULL DEFAULT 'off' CHECK (frequency IN ('off', 'daily', 'weekly')),
+  -- Local hour in the user's timezone
+  send_hour SMALLINT NOT NULL DEFAULT 7 CHECK (send_hour BETWEEN 0 AND 23),
+  -- ISO day of week for weekly digests, 1 = Monday
+  weekday SMALLINT NOT NULL DEFAULT 1 CHECK (weekday BETWEEN 1 AND 7),
+  -- IANA name, e.g. Europe/Stockholm
+  timezone VARCHAR(64) NOT NULL,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- Mentions table
+-- ============================================================================
+-- One row per user mentioned in a task comment or project note
+CREATE TABLE mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  mentioned_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  mentioned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES task_comments(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES project_notes(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT chk_mentions_source CHECK ((comment_id IS NOT NULL AND note_id IS NULL) OR (comment_id IS NULL AND note_id IS NOT NULL))
+);
+
+CREATE INDEX idx_mentions_user ON mentions(mentioned_user_id, created_at DESC);
+CREATE UNIQUE INDEX idx_mentions_comment_user ON mentions(comment_id, mentioned_user_id) WHERE comment_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_mentions_note_user ON mentions(note_id, mentioned_user_id) WHERE note_id IS NOT NULL;
+
+-- ============================================================================
+-- Task comment edits table (previous versions of edited comments)
+-- ============================================================================
+CREATE TABLE task_comment_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES task_comments(id) ON DELETE CASCADE,
+  previous_text TEXT NOT NULL,
+  edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  edited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_comment_edits_comment ON task_comment_edits(comment_id, edited_at);
+
+-- ============================================================================
+-- Task comment attachments table
+-- ============================================================================
+-- Files are uploaded before the comment is posted, so comment_id stays empty until then
+CREATE TABLE task_comment_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES task_comments(id) ON DELETE CASCADE,
+  file_url VARCHAR(500) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  file_size_bytes BIGINT NOT NULL,
+  thumbnail_url VARCHAR(500),
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_comment_attachments_comment ON task_comment_attachments(comment_id);
+
+-- ============================================================================
+-- Task relations table
+-- ============================================================================
+-- "blocked by" is stored as the inverse "blocks" row; relates_to is symmetric and stored once
+CREATE TABLE task_relations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  source_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  target_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  relation_type VARCHAR(20) NOT NULL CHECK (relation_type IN ('blocks', 'duplicates', 'relates_to')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT chk_task_relations_not_self CHECK (source_task_id <> target_task_id),
+  CONSTRAINT uq_task_relations_source_target_type UNIQUE(source_task_id, target_task_id, relation_type)
+);
+
+CREATE INDEX idx_task_relations_target ON task_relations(target_task_id, relation_type);
+
+-- ============================================================================
+-- Task templates table
+-- ============================================================================
+-- checklist_items is an ordered array of { text, isRequired } copied onto tasks
+-- created from the template
+CREATE TABLE task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  trade VARCHAR(50),
+  priority VARCHAR(20) NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'critical')),
+  custom_fields JSONB NOT NULL DEFAULT '{}',
+  checklist_items JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_templates_org_trade ON task_templates(organization_id, trade);
+
+-- ============================================================================
+-- Task template products table (products linked to tasks created from the template)
+-- ============================================================================
+CREATE TABLE task_template_products (
+  template_id UUID NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  PRIMARY KEY (template_id, product_id)
+);
+
+-- ============================================================================
+-- Task checklist items table
+-- ============================================================================
+-- template_id records which template an item came from
+CREATE TABLE task_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES task_templates(id) ON DELETE SET NULL,
+  text VARCHAR(500) NOT NULL,
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  checked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  checked_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_checklist_items_task ON task_checklist_items(task_id, position);
+
+-- ============================================================================
+-- Task recurrences table
+-- ============================================================================
+-- Tasks recreated from a template on an RRULE-style schedule. next_occurrence_on is
+-- the next date the scheduler materialises a task for; NULL once the rule has ended.
+CREATE TABLE task_recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+  rule VARCHAR(500) NOT NULL,
+  starts_on DATE NOT NULL,
+  next_occurrence_on DATE,
+  assigned_to_user UUID REFERENCES users(id) ON DELETE SET NULL,
+  skip_if_open BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  occurrence_count INTEGER NOT NULL DEFAULT 0,
+  last_task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  last_skipped_on DATE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_recurrences_project ON task_recurrences(project_id);
+CREATE INDEX idx_task_recurrences_due ON task_recurrences(next_occurrence_on) WHERE is_active AND next_occurrence_on IS NOT NULL;
+
+-- ============================================================================
+-- Task moves table
+-- ============================================================================
+-- Where a task moved to another project came from, so links to its old
+-- project and number still find it
+CREATE TABLE task_moves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  from_project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  from_task_number INTEGER NOT NULL,
+  to_project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  to_task_number INTEGER NOT NULL,
+  moved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  moved_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_moves_from_project ON task_moves(from_project_id, task_id);
+
+-- ============================================================================
+-- Blueprint page previews table
+-- ============================================================================
+-- One JPEG per page and size, so a sheet can be shown before the PDF has loaded
+CREATE TABLE blueprint_page_previews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  revision_id UUID NOT NULL REFERENCES blueprint_revisions(id) ON DELETE CASCADE,
+  page INTEGER NOT NULL,
+  size VARCHAR(10) NOT NULL,
+  file_url VARCHAR(500) NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT blueprint_page_previews_page_unique UNIQUE(revision_id, page, size)
+);
+
+-- ============================================================================
+-- Blueprint revision comparisons table
+-- ============================================================================
+-- Diff images generated between two revisions of an image blueprint, kept so
+-- they can be shared and embedded without being generated again
+CREATE TABLE blueprint_revision_comparisons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL REFERENCES blueprints(id) ON DELETE CASCADE,
+  from_revision_id UUID NOT NULL REFERENCES blueprint_revisions(id) ON DELETE CASCADE,
+  to_revision_id UUID NOT NULL REFERENCES blueprint_revisions(id) ON DELETE CASCADE,
+  file_url VARCHAR(500) NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  -- Share of the drawn pixels that differ between the two revisions, 0-1
+  changed_ratio REAL NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT blueprint_revision_comparisons_pair_unique UNIQUE(from_revision_id, to_revision_id)
+);
+
 -- ============================================================================
 -- Trigger function to automatically update the updated_at column
 -- ============================================================================
@@ -367,3 +910,31 @@ CREATE TRIGGER update_backups_updated_at
 CREATE TRIGGER update_backup_settings_updated_at
   BEFORE UPDATE ON backup_settings
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sla_rules_updated_at
+  BEFORE UPDATE ON sla_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_project_members_updated_at
+  BEFORE UPDATE ON project_members
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_saved_views_updated_at
+  BEFORE UPDATE ON saved_views
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_digest_settings_updated_at
+  BEFORE UPDATE ON digest_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_task_templates_updated_at
+  BEFORE UPDATE ON task_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_task_recurrences_updated_at
+  BEFORE UPDATE ON task_recurrences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -24,11 +24,16 @@ const OrgSettingsPage = lazy(() => import('./pages/admin/OrgSettingsPage'));
 const ProfilePage = lazy(() => import('./pages/profile/ProfilePage'));
 const ProductListPage = lazy(() => import('./pages/products/ProductListPage'));
 const FormBuilderPage = lazy(() => import('./pages/admin/FormBuilderPage'));
+const WorkflowPage = lazy(() => import('./pages/admin/WorkflowPage'));
+const SlaRulesPage = lazy(() => import('./pages/admin/SlaRulesPage'));
+const TaskTemplatesPage = lazy(() => import('./pages/admin/TaskTemplatesPage'));
 const TaskReportPage = lazy(() => import('./pages/admin/TaskReportPage'));
 const BackupPage = lazy(() => import('./pages/admin/BackupPage'));
 const BugReportsPage = lazy(() => import('./pages/admin/BugReportsPage'));
 const MyTasksPage = lazy(() => import('./pages/tasks/MyTasksPage'));
+const MentionsPage = lazy(() => import('./pages/mentions/MentionsPage'));
 const PublicSigningPage = lazy(() => import('./pages/protocols/PublicSigningPage'));
+const ContractorPortalPage = lazy(() => import('./pages/portal/ContractorPortalPage'));
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -66,6 +71,7 @@ function AppRoutes() {
         <Route path="/forgot-password" element={<ForgotPasswordPage />} />
         <Route path="/reset-password" element={<ResetPasswordPage />} />
         <Route path="/sign/:token" element={<PublicSigningPage />} />
+        <Route path="/portal/:token" element={<ContractorPortalPage />} />
 
         {/* Protected app routes */}
         <Route
@@ -77,6 +83,7 @@ function AppRoutes() {
         >
           <Route path="/projects" element={<ProjectListPage />} />
           <Route path="/my-tasks" element={<MyTasksPage />} />
+          <Route path="/mentions" element={<MentionsPage />} />
           <Route path="/projects/:projectId" element={<ProjectDetailPage />} />
           <Route path="/projects/:projectId/tasks/:taskId" element={<TaskDetailPage />} />
           <Route path="/products" element={<ProductListPage />} />
@@ -85,6 +92,9 @@ function AppRoutes() {
           <Route path="/admin/dashboard" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><AdminDashboardPage /></RoleGuard>} />
           <Route path="/admin/settings" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><OrgSettingsPage /></RoleGuard>} />
           <Route path="/admin/form-builder" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><FormBuilderPage /></RoleGuard>} />
+          <Route path="/admin/workflow" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><WorkflowPage /></RoleGuard>} />
+          <Route path="/admin/sla-rules" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><SlaRulesPage /></RoleGuard>} />
+          <Route path="/admin/task-templates" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><TaskTemplatesPage /></RoleGuard>} />
           <Route path="/admin/task-report" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><TaskReportPage /></RoleGuard>} />
           <Route path="/admin/backups" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><BackupPage /></RoleGuard>} />
           <Route path="/admin/bug-reports" element={<RoleGuard roles={['org_admin', 'super_admin']} fallback={<Navigate to="/projects" replace />}><BugReportsPage /></RoleGuard>} />
@@ -101,8 +111,8 @@ function AppRoutes() {
 function App() {
   return (
     <ErrorBoundary>
-      <NetworkStatus />
       <QueryClientProvider client={queryClient}>
+        <NetworkStatus />
         <BrowserRouter>
           <ToastProvider>
             <AppRoutes />
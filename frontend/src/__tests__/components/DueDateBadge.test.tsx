@@ -0,0 +1,19 @@
+import { render, screen } from '@testing-library/react';
+import DueDateBadge from '../../components/ui/DueDateBadge';
+
+describe('DueDateBadge', () => {
+  it('renders nothing without a due date', () => {
+    const { container } = render(<DueDateBadge dueDate={null} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows the calendar day of the due date', () => {
+    render(<DueDateBadge dueDate="2025-03-31T00:00:00.000Z" />);
+    expect(screen.getByText('Due Mar 31, 2025')).toHaveClass('bg-gray-100');
+  });
+
+  it('shows days overdue in red', () => {
+    render(<DueDateBadge dueDate="2025-03-31T00:00:00.000Z" daysOverdue={4} />);
+    expect(screen.getByText('4 days overdue')).toHaveClass('bg-red-100');
+  });
+});
@@ -0,0 +1,28 @@
+import { render, screen } from '@testing-library/react';
+import StatusBadge from '../../components/ui/StatusBadge';
+import type { WorkflowStatus } from '../../types';
+
+const statuses: WorkflowStatus[] = [
+  { key: 'open', label: 'Open', color: '#ef4444', category: 'open', isInitial: true },
+  { key: 'ready_for_inspection', label: 'Ready for Inspection', color: '#0d9488', category: 'completed', isInitial: false },
+];
+
+describe('StatusBadge', () => {
+  it('renders built-in statuses without a workflow', () => {
+    render(<StatusBadge status="in_progress" />);
+    const badge = screen.getByText('in progress');
+    expect(badge).toHaveClass('bg-yellow-100', 'text-yellow-700');
+  });
+
+  it('uses the workflow label and palette variant', () => {
+    render(<StatusBadge status="open" statuses={statuses} />);
+    expect(screen.getByText('Open')).toHaveClass('bg-red-100');
+  });
+
+  it('renders custom colours inline', () => {
+    render(<StatusBadge status="ready_for_inspection" statuses={statuses} size="md" />);
+    const badge = screen.getByText('Ready for Inspection');
+    expect(badge).toHaveStyle({ color: '#0d9488' });
+    expect(badge).toHaveClass('text-sm');
+  });
+});
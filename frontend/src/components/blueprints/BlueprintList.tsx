@@ -3,8 +3,21 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { uploadApi } from '../../services/upload.api';
 import { useTasksByBlueprint } from '../../hooks/useTasks';
+import {
+  useBlueprintRevisions,
+  useMakeRevisionCurrent,
+  useReviewAnnotations,
+  useRevisionComparison,
+  useBlueprintPreviews,
+  useRenderPreviews,
+  previewPages,
+} from '../../hooks/useBlueprintRevisions';
+import { useDrawingSets, useDeleteDrawingSet, groupBlueprints, sheetLabel } from '../../hooks/useDrawingSets';
+import { useWorkflow, statusColorMap } from '../../hooks/useWorkflow';
 import BlueprintUploader from '../uploads/BlueprintUploader';
+import DrawingSetUploader from '../uploads/DrawingSetUploader';
 import BlueprintViewer from './BlueprintViewer';
+import DrawingSetReview from './DrawingSetReview';
 import type { Annotation, Marker } from './PdfAnnotationViewer';
 import Spinner from '../ui/Spinner';
 import EmptyState from '../ui/EmptyState';
@@ -13,19 +26,67 @@ import Button from '../ui/Button';
 interface BlueprintListProps {
   projectId: string;
   onSelect?: (blueprint: any) => void;
+  canManage?: boolean; // upload revisions and change the current one
 }
 
-export default function BlueprintList({ projectId, onSelect }: BlueprintListProps) {
+export default function BlueprintList({ projectId, onSelect, canManage = false }: BlueprintListProps) {
   const queryClient = useQueryClient();
   const navigate = useNavigate();
   const { data: blueprints = [], isLoading } = useQuery({
     queryKey: ['blueprints', projectId],
     queryFn: () => uploadApi.listBlueprints(projectId),
   });
-  const [viewingBlueprint, setViewingBlueprint] = useState<any>(null);
+  const [viewingBlueprintId, setViewingBlueprintId] = useState<string | null>(null);
+  const viewingBlueprint = blueprints.find((bp: any) => bp.id === viewingBlueprintId) || null;
+  const { data: workflow } = useWorkflow();
+
+  // Drawing sets are split into sheets filed in discipline folders; unsplit ones wait for review
+  const { data: drawingSets = [] } = useDrawingSets(projectId);
+  const pendingSets = drawingSets.filter((s) => s.status !== 'split');
+  const groups = groupBlueprints<any>(blueprints);
+  const [showSetUpload, setShowSetUpload] = useState(false);
+  const [reviewSetId, setReviewSetId] = useState<string | null>(null);
+  const deleteSet = useDeleteDrawingSet(projectId);
 
   // Fetch tasks linked to the viewed blueprint
-  const { data: blueprintTasks = [] } = useTasksByBlueprint(projectId, viewingBlueprint?.id);
+  const { data: allBlueprintTasks = [] } = useTasksByBlueprint(projectId, viewingBlueprint?.id);
+
+  // Revisions of the viewed blueprint; null shows the current one
+  const { data: revisions = [] } = useBlueprintRevisions(projectId, viewingBlueprint?.id);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const currentRevision = revisions.find((r) => r.is_current);
+  const viewedRevision = revisions.find((r) => r.id === selectedRevisionId) || currentRevision;
+  const viewingCurrent = !viewedRevision || viewedRevision.is_current;
+  const makeCurrent = useMakeRevisionCurrent(projectId, viewingBlueprint?.id ?? '');
+  const reviewAnnotations = useReviewAnnotations(projectId, viewingBlueprint?.id ?? '');
+  const [revisionError, setRevisionError] = useState<string | null>(null);
+  const [showRevisionUpload, setShowRevisionUpload] = useState(false);
+
+  // Compare the viewed revision with another one: PDFs in the viewer, images with a diff from the server
+  const [compareRevisionId, setCompareRevisionId] = useState<string | null>(null);
+  const compareRevision = revisions.find((r) => r.id === compareRevisionId && r.id !== viewedRevision?.id);
+  const isImageBlueprint = !!viewingBlueprint && viewingBlueprint.mime_type !== 'application/pdf';
+  const { data: comparison, isFetching: comparing, error: comparisonError } = useRevisionComparison(
+    projectId,
+    isImageBlueprint ? viewingBlueprint.id : null,
+    compareRevision?.id,
+    viewedRevision?.id,
+  );
+
+  // Page images rendered on the server, so a sheet shows before the whole PDF has downloaded
+  const { data: previews } = useBlueprintPreviews(
+    projectId,
+    isImageBlueprint ? null : viewingBlueprint?.id,
+    viewedRevision?.id,
+  );
+  const renderPreviews = useRenderPreviews(projectId, viewingBlueprint?.id ?? '');
+
+  // Annotations waiting for review stay on the revision they were drawn on
+  const blueprintTasks = allBlueprintTasks.filter((t: any) =>
+    viewingCurrent ? !t.annotation_revision_id : t.annotation_revision_id === viewedRevision?.id,
+  );
+  const reviewTasks = allBlueprintTasks.filter((t: any) => t.annotation_revision_id);
+  const revisionLabels = new Map(revisions.map((r) => [r.id, r.label]));
 
   // Convert tasks to annotations
   const annotations: Annotation[] = blueprintTasks
@@ -64,8 +125,8 @@ export default function BlueprintList({ projectId, onSelect }: BlueprintListProp
     try {
       await uploadApi.deleteBlueprint(projectId, blueprintId);
       queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] });
-      if (viewingBlueprint?.id === blueprintId) {
-        setViewingBlueprint(null);
+      if (viewingBlueprintId === blueprintId) {
+        setViewingBlueprintId(null);
       }
     } catch (err: any) {
       const msg = err?.response?.data?.error?.message || 'Failed to delete blueprint';
@@ -77,7 +138,49 @@ export default function BlueprintList({ projectId, onSelect }: BlueprintListProp
     if (onSelect) {
       onSelect(bp);
     } else {
-      setViewingBlueprint(viewingBlueprint?.id === bp.id ? null : bp);
+      setViewingBlueprintId(viewingBlueprintId === bp.id ? null : bp.id);
+      setSelectedRevisionId(null);
+      setCompareRevisionId(null);
+      setShowRevisionUpload(false);
+      setRevisionError(null);
+    }
+  }
+
+  async function handleMakeCurrent(revisionId: string) {
+    setRevisionError(null);
+    try {
+      await makeCurrent.mutateAsync(revisionId);
+      setSelectedRevisionId(null);
+    } catch (err: any) {
+      setRevisionError(err?.response?.data?.error?.message || 'Failed to change the current revision');
+    }
+  }
+
+  async function handleReview(taskIds: string[], action: 'keep' | 'clear') {
+    setRevisionError(null);
+    try {
+      await reviewAnnotations.mutateAsync({ taskIds, action });
+    } catch (err: any) {
+      setRevisionError(err?.response?.data?.error?.message || 'Failed to review annotations');
+    }
+  }
+
+  async function handleRenderPreviews(revisionId: string) {
+    setRevisionError(null);
+    try {
+      await renderPreviews.mutateAsync(revisionId);
+    } catch (err: any) {
+      setRevisionError(err?.response?.data?.error?.message || 'Failed to render page previews');
+    }
+  }
+
+  async function handleDiscardSet(setId: string) {
+    setDeleteError(null);
+    try {
+      await deleteSet.mutateAsync(setId);
+      if (reviewSetId === setId) setReviewSetId(null);
+    } catch (err: any) {
+      setDeleteError(err?.response?.data?.error?.message || 'Failed to discard drawing set');
     }
   }
 
@@ -89,9 +192,97 @@ export default function BlueprintList({ projectId, onSelect }: BlueprintListProp
     return <div className="flex justify-center py-4"><Spinner size="sm" /></div>;
   }
 
+  function renderCard(bp: any) {
+    return (
+      <div
+        key={bp.id}
+        className={`relative group border rounded-lg overflow-hidden cursor-pointer hover:shadow-sm transition-all ${
+          viewingBlueprint?.id === bp.id
+            ? 'border-primary-600 ring-2 ring-primary-200'
+            : 'border-gray-200 hover:border-gray-300'
+        }`}
+        onClick={() => handleClick(bp)}
+      >
+        {bp.thumbnail_download_url ? (
+          <img
+            src={bp.thumbnail_download_url}
+            alt={bp.name}
+            className="w-full h-32 object-cover"
+          />
+        ) : (
+          <div className="w-full h-32 bg-gray-100 flex items-center justify-center">
+            {bp.mime_type === 'application/pdf' ? (
+              <div className="text-center">
+                <div className="text-3xl text-red-500 mb-1">PDF</div>
+                <div className="text-xs text-gray-400">Click to view</div>
+              </div>
+            ) : (
+              <div className="text-gray-400 text-xs">No preview</div>
+            )}
+          </div>
+        )}
+        <div className="p-2">
+          <div className="flex items-center gap-1">
+            <p className="text-sm font-medium text-gray-900 truncate">{sheetLabel(bp)}</p>
+            {bp.current_revision_label && (
+              <span className="shrink-0 text-xs bg-gray-100 text-gray-600 px-1.5 rounded">
+                Rev {bp.current_revision_label}
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {(bp.file_size_bytes / (1024 * 1024)).toFixed(1)} MB
+            {bp.review_task_count > 0 && (
+              <span className="text-amber-600"> · {bp.review_task_count} to review</span>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={(e) => { e.stopPropagation(); setDeleteTarget(bp.id); }}
+          className="absolute top-1 right-1 w-6 h-6 bg-red-500 text-white rounded-full text-xs opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+        >
+          x
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
-      <BlueprintUploader projectId={projectId} />
+      <div className="flex items-start gap-2">
+        <BlueprintUploader projectId={projectId} />
+        {canManage && !showSetUpload && (
+          <Button variant="secondary" onClick={() => setShowSetUpload(true)}>
+            Upload Drawing Set
+          </Button>
+        )}
+      </div>
+      {showSetUpload && (
+        <div className="p-3 border border-gray-200 rounded-lg">
+          <DrawingSetUploader
+            projectId={projectId}
+            onAnalysed={(setId) => { setShowSetUpload(false); setReviewSetId(setId); }}
+            onCancel={() => setShowSetUpload(false)}
+          />
+        </div>
+      )}
+      {canManage && pendingSets.filter((set) => set.id !== reviewSetId).map((set) => (
+        <div key={set.id} className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-amber-800">
+            Drawing set {set.name}{' '}
+            {set.status === 'review' ? `has ${set.page_count} pages to review before splitting.` : 'has not been read yet.'}
+          </p>
+          <div className="flex gap-2 shrink-0 ml-3">
+            <Button variant="secondary" size="sm" onClick={() => setReviewSetId(set.id)}>Review</Button>
+            <Button variant="ghost" size="sm" onClick={() => handleDiscardSet(set.id)} disabled={deleteSet.isPending}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      ))}
+      {reviewSetId && (
+        <DrawingSetReview projectId={projectId} drawingSetId={reviewSetId} onClose={() => setReviewSetId(null)} />
+      )}
 
       {deleteError && (
         <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
@@ -106,45 +297,40 @@ export default function BlueprintList({ projectId, onSelect }: BlueprintListProp
           description="Upload a PDF blueprint to get started."
         />
       ) : (
-        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-          {blueprints.map((bp: any) => (
-            <div
-              key={bp.id}
-              className={`relative group border rounded-lg overflow-hidden cursor-pointer hover:shadow-sm transition-all ${
-                viewingBlueprint?.id === bp.id
-                  ? 'border-primary-600 ring-2 ring-primary-200'
-                  : 'border-gray-200 hover:border-gray-300'
-              }`}
-              onClick={() => handleClick(bp)}
-            >
-              {bp.thumbnail_download_url ? (
-                <img
-                  src={bp.thumbnail_download_url}
-                  alt={bp.name}
-                  className="w-full h-32 object-cover"
-                />
-              ) : (
-                <div className="w-full h-32 bg-gray-100 flex items-center justify-center">
-                  {bp.mime_type === 'application/pdf' ? (
-                    <div className="text-center">
-                      <div className="text-3xl text-red-500 mb-1">PDF</div>
-                      <div className="text-xs text-gray-400">Click to view</div>
-                    </div>
-                  ) : (
-                    <div className="text-gray-400 text-xs">No preview</div>
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <div key={group.drawingSetId ?? 'single'}>
+              {group.drawingSetId && (
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-900">
+                    {group.name}
+                    <span className="ml-2 font-normal text-gray-500">
+                      {group.blueprints.length} sheet{group.blueprints.length !== 1 ? 's' : ''}
+                    </span>
+                  </h3>
+                  {canManage && (
+                    <Button variant="ghost" size="sm" onClick={() => setReviewSetId(group.drawingSetId)}>
+                      Edit sheets
+                    </Button>
                   )}
                 </div>
               )}
-              <div className="p-2">
-                <p className="text-sm font-medium text-gray-900 truncate">{bp.name}</p>
-                <p className="text-xs text-gray-500">{(bp.file_size_bytes / (1024 * 1024)).toFixed(1)} MB</p>
-              </div>
-              <button
-                onClick={(e) => { e.stopPropagation(); setDeleteTarget(bp.id); }}
-                className="absolute top-1 right-1 w-6 h-6 bg-red-500 text-white rounded-full text-xs opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
-              >
-                x
-              </button>
+              {group.drawingSetId ? (
+                group.folders.map((folder) => (
+                  <details key={folder.discipline} open className="mb-2">
+                    <summary className="cursor-pointer text-sm text-gray-700 mb-2">
+                      {folder.label} <span className="text-gray-400">({folder.sheets.length})</span>
+                    </summary>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                      {folder.sheets.map(renderCard)}
+                    </div>
+                  </details>
+                ))
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {group.blueprints.map(renderCard)}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -154,28 +340,170 @@ export default function BlueprintList({ projectId, onSelect }: BlueprintListProp
       {viewingBlueprint && (
         <div className="mt-4">
           <div className="flex items-center justify-between mb-2">
-            <h3 className="text-lg font-medium text-gray-900">{viewingBlueprint.name}</h3>
+            <h3 className="text-lg font-medium text-gray-900">
+              {sheetLabel(viewingBlueprint)}
+              {viewedRevision && (
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  Rev {viewedRevision.label}{viewingCurrent ? ' (current)' : ''}
+                </span>
+              )}
+            </h3>
             <div className="flex items-center gap-3">
               {annotations.length > 0 && (
                 <span className="text-sm text-gray-500">
                   {annotations.length} annotation{annotations.length !== 1 ? 's' : ''}
                 </span>
               )}
+              {revisions.length > 1 && (
+                <select
+                  value={compareRevision?.id ?? ''}
+                  onChange={(e) => setCompareRevisionId(e.target.value || null)}
+                  className="text-sm border border-gray-300 rounded-lg bg-white px-2 py-1"
+                  aria-label="Compare with"
+                >
+                  <option value="">Compare with...</option>
+                  {revisions
+                    .filter((r) => r.id !== viewedRevision?.id)
+                    .map((r) => (
+                      <option key={r.id} value={r.id}>Rev {r.label}</option>
+                    ))}
+                </select>
+              )}
+              {canManage && !viewingCurrent && viewedRevision && (
+                <Button
+                  size="sm"
+                  onClick={() => handleMakeCurrent(viewedRevision.id)}
+                  loading={makeCurrent.isPending}
+                >
+                  Make current
+                </Button>
+              )}
+              {previews?.status === 'pending' && (
+                <span className="text-sm text-gray-500">Preparing page previews...</span>
+              )}
+              {canManage && previews && previews.status !== 'ready' && previews.status !== 'pending' && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleRenderPreviews(previews.revisionId)}
+                  loading={renderPreviews.isPending}
+                  title={previews.status === 'failed' ? 'Rendering the page previews failed' : undefined}
+                >
+                  {previews.status === 'failed' ? 'Retry previews' : 'Render previews'}
+                </Button>
+              )}
+              {canManage && (
+                <Button variant="secondary" size="sm" onClick={() => setShowRevisionUpload((v) => !v)}>
+                  New revision
+                </Button>
+              )}
               <Button
                 variant="secondary"
                 size="sm"
-                onClick={() => setViewingBlueprint(null)}
+                onClick={() => setViewingBlueprintId(null)}
               >
                 Close
               </Button>
             </div>
           </div>
+          {showRevisionUpload && (
+            <div className="mb-3 p-3 border border-gray-200 rounded-lg">
+              <BlueprintUploader
+                projectId={projectId}
+                blueprintId={viewingBlueprint.id}
+                imageRevision={isImageBlueprint}
+                onUploaded={() => setSelectedRevisionId(null)}
+              />
+            </div>
+          )}
+          {revisionError && <p className="mb-2 text-sm text-red-600">{revisionError}</p>}
+          {isImageBlueprint && compareRevision && (
+            <p className="mb-2 text-sm text-gray-600">
+              {comparing ? (
+                'Comparing revisions...'
+              ) : comparisonError ? (
+                <span className="text-red-600">
+                  {(comparisonError as any)?.response?.data?.error?.message || 'Failed to compare revisions'}
+                </span>
+              ) : comparison ? (
+                <>
+                  Red is only in Rev {compareRevision.label}, blue only in Rev {viewedRevision?.label}, grey is unchanged
+                  ({Math.round(comparison.changed_ratio * 100)}% changed).{' '}
+                  <a href={comparison.download_url} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">
+                    Open diff image
+                  </a>
+                </>
+              ) : null}
+            </p>
+          )}
+          {reviewTasks.length > 0 && (
+            <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-amber-800">
+                  The pages of {reviewTasks.length} task{reviewTasks.length !== 1 ? 's' : ''} changed in the current
+                  revision. Their annotations are shown on the revision they were drawn on until reviewed.
+                </p>
+                <div className="flex gap-2 shrink-0 ml-3">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleReview(reviewTasks.map((t: any) => t.id), 'keep')}
+                    disabled={reviewAnnotations.isPending}
+                  >
+                    Keep all
+                  </Button>
+                </div>
+              </div>
+              <ul className="divide-y divide-amber-100">
+                {reviewTasks.map((t: any) => (
+                  <li key={t.id} className="flex items-center justify-between py-1.5 text-sm">
+                    <button
+                      className="text-left text-gray-800 hover:underline truncate"
+                      onClick={() => setSelectedRevisionId(t.annotation_revision_id)}
+                    >
+                      #{t.task_number} {t.title}
+                      <span className="text-gray-500"> · Rev {revisionLabels.get(t.annotation_revision_id) ?? '?'}</span>
+                    </button>
+                    <div className="flex gap-2 shrink-0 ml-3">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleReview([t.id], 'keep')}
+                        disabled={reviewAnnotations.isPending}
+                      >
+                        Keep
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleReview([t.id], 'clear')}
+                        disabled={reviewAnnotations.isPending}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <BlueprintViewer
-            imageUrl={viewingBlueprint.download_url}
+            imageUrl={
+              (isImageBlueprint && compareRevision && comparison?.download_url)
+              || viewedRevision?.download_url
+              || viewingBlueprint.download_url
+            }
             mimeType={viewingBlueprint.mime_type}
             annotations={annotations}
             annotationMarkers={allMarkers}
             onAnnotationClick={handleAnnotationClick}
+            statusColors={statusColorMap(workflow?.statuses)}
+            revisions={revisions.map((r) => ({ id: r.id, label: r.is_current ? `${r.label} (current)` : r.label }))}
+            revisionId={viewedRevision?.id}
+            onRevisionChange={setSelectedRevisionId}
+            compareUrl={isImageBlueprint ? undefined : compareRevision?.download_url}
+            compareLabel={compareRevision?.label}
+            pagePreviews={previewPages(previews)}
           />
         </div>
       )}
@@ -185,7 +513,7 @@ export default function BlueprintList({ projectId, onSelect }: BlueprintListProp
           <div className="bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-2">Delete Blueprint</h3>
             <p className="text-sm text-gray-600 mb-4">
-              Are you sure you want to delete this blueprint? This action cannot be undone.
+              Are you sure you want to delete this blueprint and all of its revisions? This action cannot be undone.
             </p>
             <div className="flex justify-end gap-3">
               <button
@@ -1,7 +1,7 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import Button from '../ui/Button';
 import PdfAnnotationViewer from './PdfAnnotationViewer';
-import type { Annotation, Marker } from './PdfAnnotationViewer';
+import type { Annotation, Marker, PagePreview, RevisionOption } from './PdfAnnotationViewer';
 
 interface BlueprintViewerProps {
   imageUrl: string;
@@ -22,13 +22,20 @@ interface BlueprintViewerProps {
   onLocationSelect?: (x: number, y: number) => void;
   createMode?: boolean;
   drawMode?: boolean;
+  statusColors?: Record<string, string>; // workflow status key → hex colour
+  revisions?: RevisionOption[];
+  revisionId?: string;
+  onRevisionChange?: (revisionId: string) => void;
+  compareUrl?: string;
+  compareLabel?: string;
+  pagePreviews?: PagePreview[];
 }
 
 const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 4;
 const ZOOM_STEP = 0.25;
 
-const statusColors: Record<string, string> = {
+const DEFAULT_STATUS_COLORS: Record<string, string> = {
   open: '#ef4444',
   in_progress: '#eab308',
   completed: '#22c55e',
@@ -47,6 +54,13 @@ export default function BlueprintViewer({
   onLocationSelect,
   createMode = false,
   drawMode = false,
+  statusColors = DEFAULT_STATUS_COLORS,
+  revisions,
+  revisionId,
+  onRevisionChange,
+  compareUrl,
+  compareLabel,
+  pagePreviews,
 }: BlueprintViewerProps) {
   const isPdf = mimeType === 'application/pdf' || imageUrl.toLowerCase().endsWith('.pdf');
   const containerRef = useRef<HTMLDivElement>(null);
@@ -113,6 +127,13 @@ export default function BlueprintViewer({
         onAnnotationDraw={onAnnotationDraw}
         onAnnotationClick={onAnnotationClick}
         markers={annotationMarkers}
+        statusColors={statusColors}
+        revisions={revisions}
+        revisionId={revisionId}
+        onRevisionChange={onRevisionChange}
+        compareUrl={compareUrl}
+        compareLabel={compareLabel}
+        pagePreviews={pagePreviews}
       />
     );
   }
@@ -170,7 +191,7 @@ export default function BlueprintViewer({
               style={{
                 left: `${marker.x * 100}%`,
                 top: `${marker.y * 100}%`,
-                backgroundColor: statusColors[marker.status] || '#6b7280',
+                backgroundColor: statusColors[marker.status] || DEFAULT_STATUS_COLORS[marker.status] || '#6b7280',
                 animation: marker.priority === 'critical' ? 'pulse 2s infinite' : undefined,
               }}
               onClick={(e) => {
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useCalibrateBlueprintPage, useRemoveBlueprintCalibration } from '../../hooks/useBlueprintRevisions';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { PAPER_SIZES, paperSizeLabel, calibrationLabel } from './measurement';
+import type { PaperSize, ScaleCalibration } from './measurement';
+
+interface CalibrationModalProps {
+  projectId: string;
+  blueprintId: string;
+  page: number;
+  // The line drawn over a dimension of known length, if one was drawn
+  line: { x1: number; y1: number; x2: number; y2: number } | null;
+  calibration?: ScaleCalibration;
+  onDrawLine: () => void;
+  onClose: () => void;
+}
+
+const paperSizeOptions = PAPER_SIZES.map((p) => ({ value: p, label: paperSizeLabel(p) }));
+
+/**
+ * Set the drawing scale of a blueprint page, from a line drawn over a known
+ * dimension or from the scale the drawing is printed at.
+ */
+export default function CalibrationModal({
+  projectId,
+  blueprintId,
+  page,
+  line,
+  calibration,
+  onDrawLine,
+  onClose,
+}: CalibrationModalProps) {
+  const [method, setMethod] = useState<'line' | 'scale'>(line ? 'line' : 'scale');
+  const [length, setLength] = useState('');
+  const [ratio, setRatio] = useState(calibration?.ratio ? String(calibration.ratio) : '100');
+  const [paperSize, setPaperSize] = useState<PaperSize>(calibration?.paperSize ?? 'A1');
+  const [error, setError] = useState<string | null>(null);
+  const calibrate = useCalibrateBlueprintPage(projectId, blueprintId);
+  const remove = useRemoveBlueprintCalibration(projectId, blueprintId);
+
+  const value = Number(method === 'line' ? length : ratio);
+  const valid = value > 0 && (method === 'scale' || !!line);
+
+  async function handleSave() {
+    setError(null);
+    try {
+      await calibrate.mutateAsync(method === 'line'
+        ? { page, method, line: line!, length: value }
+        : { page, method, ratio: value, paperSize });
+      onClose();
+    } catch (err: any) {
+      const details = err?.response?.data?.error?.details;
+      setError(details?.line || err?.response?.data?.error?.message || 'Failed to calibrate the page');
+    }
+  }
+
+  async function handleRemove() {
+    setError(null);
+    try {
+      await remove.mutateAsync(page);
+      onClose();
+    } catch (err: any) {
+      setError(err?.response?.data?.error?.message || 'Failed to remove the calibration');
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Calibrate Page ${page}`} size="sm">
+      <div className="space-y-3">
+        {calibration && (
+          <p className="text-sm text-gray-600">
+            Calibrated with a {calibrationLabel(calibration)}. Measurements already taken keep their values.
+          </p>
+        )}
+        <div className="flex gap-4 text-sm">
+          <label className="flex items-center gap-1.5">
+            <input type="radio" checked={method === 'line'} onChange={() => setMethod('line')} />
+            Known dimension
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="radio" checked={method === 'scale'} onChange={() => setMethod('scale')} />
+            Drawing scale
+          </label>
+        </div>
+
+        {method === 'line' && (line ? (
+          <Input
+            label="Length of the line (m)"
+            type="number"
+            min="0"
+            step="any"
+            value={length}
+            onChange={(e) => setLength(e.target.value)}
+            autoFocus
+          />
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-gray-500">Draw a line over a dimension whose length you know.</p>
+            <Button variant="secondary" size="sm" onClick={onDrawLine}>Draw Line</Button>
+          </div>
+        ))}
+
+        {method === 'scale' && (
+          <div className="flex gap-3">
+            <Input
+              label="Scale 1 :"
+              type="number"
+              min="1"
+              step="any"
+              value={ratio}
+              onChange={(e) => setRatio(e.target.value)}
+            />
+            <Select
+              label="Paper size"
+              options={paperSizeOptions}
+              value={paperSize}
+              onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+            />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-between gap-2 pt-2">
+          <div>
+            {calibration && (
+              <Button variant="ghost" onClick={handleRemove} loading={remove.isPending}>Remove</Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave} loading={calibrate.isPending} disabled={!valid}>Save</Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
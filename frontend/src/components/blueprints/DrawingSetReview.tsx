@@ -0,0 +1,273 @@
+import { useState } from 'react';
+import {
+  useDrawingSet,
+  useAnalyseDrawingSet,
+  useSplitDrawingSet,
+  useUpdateDrawingSet,
+  disciplineLabel,
+} from '../../hooks/useDrawingSets';
+import { DISCIPLINES } from '../../services/drawingSet.api';
+import type { Discipline, DrawingSet, DrawingSetSheet } from '../../services/drawingSet.api';
+import Spinner from '../ui/Spinner';
+import Button from '../ui/Button';
+
+interface DrawingSetReviewProps {
+  projectId: string;
+  drawingSetId: string;
+  onClose: () => void;
+}
+
+interface SheetRow {
+  page: number;
+  // Set for sheets that were already split off
+  blueprintId?: string;
+  sheetNumber: string;
+  title: string;
+  discipline: Discipline;
+  selected: boolean;
+}
+
+const disciplineOptions = DISCIPLINES.map((d) => ({ value: d, label: disciplineLabel(d) }));
+
+function rowsOf(drawingSet: DrawingSet, sheets: DrawingSetSheet[]): SheetRow[] {
+  if (drawingSet.status === 'split') {
+    return sheets.map((s) => ({
+      page: s.set_page ?? 0,
+      blueprintId: s.id,
+      sheetNumber: s.sheet_number ?? '',
+      title: s.name,
+      discipline: s.discipline ?? 'general',
+      selected: false,
+    }));
+  }
+  return (drawingSet.proposed_sheets ?? []).map((s) => ({
+    page: s.page,
+    sheetNumber: s.sheetNumber ?? '',
+    title: s.title,
+    discipline: s.discipline,
+    selected: true,
+  }));
+}
+
+/**
+ * Review the sheets proposed from a drawing set's title blocks and split it,
+ * or rename its split sheets and move them between discipline folders.
+ */
+export default function DrawingSetReview({ projectId, drawingSetId, onClose }: DrawingSetReviewProps) {
+  const { data, isLoading } = useDrawingSet(projectId, drawingSetId);
+  const analyse = useAnalyseDrawingSet(projectId);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleAnalyse() {
+    setError(null);
+    try {
+      await analyse.mutateAsync(drawingSetId);
+    } catch (err: any) {
+      setError(err?.response?.data?.error?.message || 'Failed to read the drawing set');
+    }
+  }
+
+  if (isLoading || !data) {
+    return <div className="flex justify-center py-4"><Spinner size="sm" /></div>;
+  }
+
+  // The upload was not analysed, e.g. the page was closed while the title blocks were read
+  if (data.drawingSet.status === 'uploading') {
+    return (
+      <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">The sheets of {data.drawingSet.name} have not been read yet.</p>
+          <div className="flex gap-2 shrink-0 ml-3">
+            <Button size="sm" onClick={handleAnalyse} loading={analyse.isPending}>Read sheets</Button>
+            <Button variant="ghost" size="sm" onClick={onClose}>Close</Button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <SheetTable
+      key={data.drawingSet.status}
+      projectId={projectId}
+      drawingSet={data.drawingSet}
+      initialRows={rowsOf(data.drawingSet, data.sheets)}
+      onClose={onClose}
+    />
+  );
+}
+
+interface SheetTableProps {
+  projectId: string;
+  drawingSet: DrawingSet;
+  initialRows: SheetRow[];
+  onClose: () => void;
+}
+
+function SheetTable({ projectId, drawingSet, initialRows, onClose }: SheetTableProps) {
+  const isSplit = drawingSet.status === 'split';
+  const [rows, setRows] = useState(initialRows);
+  const [setName, setSetName] = useState(drawingSet.name);
+  const [error, setError] = useState<string | null>(null);
+  const split = useSplitDrawingSet(projectId, drawingSet.id);
+  const update = useUpdateDrawingSet(projectId, drawingSet.id);
+
+  const selected = rows.filter((r) => r.selected);
+  const allSelected = rows.length > 0 && selected.length === rows.length;
+  const missingTitle = rows.some((r) => (isSplit || r.selected) && !r.title.trim());
+  const renamed = setName.trim() !== drawingSet.name;
+  // Rows stay in their initial order, so a row is compared with the one at its index
+  const changed = rows.filter((r, i) => r.sheetNumber !== initialRows[i].sheetNumber
+    || r.title !== initialRows[i].title || r.discipline !== initialRows[i].discipline);
+
+  function updateRow(page: number, changes: Partial<SheetRow>) {
+    setRows((current) => current.map((r) => (r.page === page ? { ...r, ...changes } : r)));
+  }
+
+  function setSelectedDiscipline(discipline: Discipline) {
+    setRows((current) => current.map((r) => (r.selected ? { ...r, discipline } : r)));
+  }
+
+  async function handleSave() {
+    setError(null);
+    try {
+      if (isSplit) {
+        // Only the sheets that were changed are sent
+        await update.mutateAsync({
+          ...(renamed && { name: setName.trim() }),
+          ...(changed.length > 0 && {
+            sheets: changed.map((r) => ({
+              blueprintId: r.blueprintId!,
+              sheetNumber: r.sheetNumber.trim() || null,
+              title: r.title.trim(),
+              discipline: r.discipline,
+            })),
+          }),
+        });
+      } else {
+        if (renamed) {
+          await update.mutateAsync({ name: setName.trim() });
+        }
+        await split.mutateAsync(selected.map((r) => ({
+          page: r.page,
+          sheetNumber: r.sheetNumber.trim() || null,
+          title: r.title.trim(),
+          discipline: r.discipline,
+        })));
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err?.response?.data?.error?.message || (isSplit ? 'Failed to save the sheets' : 'Failed to split the drawing set'));
+    }
+  }
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <input
+          value={setName}
+          onChange={(e) => setSetName(e.target.value)}
+          maxLength={255}
+          className="text-lg font-medium text-gray-900 border-b border-transparent hover:border-gray-300 focus:border-primary-500 focus:outline-none flex-1"
+          aria-label="Drawing set name"
+        />
+        <div className="flex items-center gap-2 shrink-0">
+          <select
+            value=""
+            onChange={(e) => e.target.value && setSelectedDiscipline(e.target.value as Discipline)}
+            disabled={selected.length === 0}
+            className="text-sm border border-gray-300 rounded-lg bg-white px-2 py-1 disabled:opacity-50"
+            aria-label="Move selected sheets to"
+          >
+            <option value="">Move {selected.length} selected to...</option>
+            {disciplineOptions.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            loading={split.isPending || update.isPending}
+            disabled={!setName.trim() || missingTitle || (isSplit ? !renamed && changed.length === 0 : selected.length === 0)}
+          >
+            {isSplit ? 'Save' : `Split ${selected.length} sheet${selected.length !== 1 ? 's' : ''}`}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose}>Cancel</Button>
+        </div>
+      </div>
+      {!isSplit && (
+        <p className="text-sm text-gray-500">
+          Check the sheet numbers and titles read from the title blocks. Unselected pages are left out.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="max-h-96 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-white">
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1.5 pr-2 w-8">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setRows((current) => current.map((r) => ({ ...r, selected: !allSelected })))}
+                  aria-label="Select all sheets"
+                />
+              </th>
+              <th className="py-1.5 pr-2 w-12 font-medium">Page</th>
+              <th className="py-1.5 pr-2 w-32 font-medium">Sheet</th>
+              <th className="py-1.5 pr-2 font-medium">Title</th>
+              <th className="py-1.5 w-40 font-medium">Discipline</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((r) => (
+              <tr key={r.page} className={!isSplit && !r.selected ? 'opacity-50' : undefined}>
+                <td className="py-1 pr-2">
+                  <input
+                    type="checkbox"
+                    checked={r.selected}
+                    onChange={(e) => updateRow(r.page, { selected: e.target.checked })}
+                    aria-label={`Select page ${r.page}`}
+                  />
+                </td>
+                <td className="py-1 pr-2 text-gray-500">{r.page}</td>
+                <td className="py-1 pr-2">
+                  <input
+                    value={r.sheetNumber}
+                    onChange={(e) => updateRow(r.page, { sheetNumber: e.target.value })}
+                    maxLength={50}
+                    placeholder="—"
+                    className="w-full border border-gray-300 rounded px-2 py-1"
+                    aria-label={`Sheet number of page ${r.page}`}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    value={r.title}
+                    onChange={(e) => updateRow(r.page, { title: e.target.value })}
+                    maxLength={255}
+                    className="w-full border border-gray-300 rounded px-2 py-1"
+                    aria-label={`Title of page ${r.page}`}
+                  />
+                </td>
+                <td className="py-1">
+                  <select
+                    value={r.discipline}
+                    onChange={(e) => updateRow(r.page, { discipline: e.target.value as Discipline })}
+                    className="w-full border border-gray-300 rounded bg-white px-2 py-1"
+                    aria-label={`Discipline of page ${r.page}`}
+                  >
+                    {disciplineOptions.map((o) => (
+                      <option key={o.value} value={o.value}>{o.label}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
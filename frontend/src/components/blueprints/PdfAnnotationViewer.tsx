@@ -1,6 +1,9 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
 import Button from '../ui/Button';
+import { diffImageData } from './revisionDiff';
+import { measure, formatMeasurement } from './measurement';
+import type { MeasureTool, MeasurementType, Point, ScaleCalibration } from './measurement';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -27,6 +30,26 @@ export interface Marker {
   label?: string; // Optional custom label; overrides auto-generated
 }
 
+export interface RevisionOption {
+  id: string;
+  label: string;
+}
+
+// A measurement drawn on a page, labelled with its value
+export interface MeasurementOverlay {
+  id: string;
+  type: MeasurementType;
+  page: number;
+  points: Point[]; // Normalized 0-1
+  label: string;
+}
+
+// A page rendered on the server, shown until the PDF has loaded
+export interface PagePreview {
+  page: number;
+  url: string;
+}
+
 interface PdfAnnotationViewerProps {
   pdfUrl: string;
   annotations?: Annotation[];
@@ -41,9 +64,24 @@ interface PdfAnnotationViewerProps {
   onMarkerMove?: (id: string, x: number, y: number) => void;
   onMarkerDelete?: (id: string) => void;
   taskNumber?: number;
+  statusColors?: Record<string, string>; // workflow status key → hex colour
+  // Revision switcher, shown when there is more than one revision
+  revisions?: RevisionOption[];
+  revisionId?: string;
+  onRevisionChange?: (revisionId: string) => void;
+  // Another revision to compare the current page with, as an overlay or side by side
+  compareUrl?: string;
+  compareLabel?: string;
+  pagePreviews?: PagePreview[];
+  // Measurements, and the tool picking the points of a new one or of a calibration line
+  measurements?: MeasurementOverlay[];
+  measureTool?: MeasureTool | null;
+  onMeasure?: (measurement: { tool: MeasureTool; page: number; points: Point[] }) => void;
+  calibrations?: ScaleCalibration[]; // for the value of the measurement being drawn
+  onPageChange?: (page: number) => void;
 }
 
-const statusColors: Record<string, string> = {
+const DEFAULT_STATUS_COLORS: Record<string, string> = {
   open: '#ef4444',
   in_progress: '#eab308',
   completed: '#22c55e',
@@ -51,15 +89,36 @@ const statusColors: Record<string, string> = {
 };
 
 const MARKER_COLOR = '#3b82f6';
+const MEASURE_COLOR = '#d97706';
+// Points picked closer together than this are one point, e.g. the two clicks of a double-click
+const MIN_POINT_DISTANCE = 0.002;
 const LABEL_RADIUS = 14;
 const TARGET_RADIUS = 5;
 const LABEL_OFFSET_X = 22;
 const LABEL_OFFSET_Y = -22;
 
+const RENDER_SCALE = 1.5;
 const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 4;
 const ZOOM_STEP = 0.25;
 
+/** Render a page onto a white canvas of the given size, scaled to its width. */
+async function renderPageTo(
+  page: pdfjsLib.PDFPageProxy,
+  width: number,
+  height: number,
+  target: HTMLCanvasElement = document.createElement('canvas'),
+): Promise<HTMLCanvasElement> {
+  target.width = width;
+  target.height = height;
+  const context = target.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+  await page.render({ canvasContext: context, canvas: target, viewport }).promise;
+  return target;
+}
+
 export default function PdfAnnotationViewer({
   pdfUrl,
   annotations = [],
@@ -73,10 +132,26 @@ export default function PdfAnnotationViewer({
   onMarkerMove,
   onMarkerDelete,
   taskNumber,
+  statusColors = DEFAULT_STATUS_COLORS,
+  revisions = [],
+  revisionId,
+  onRevisionChange,
+  compareUrl,
+  compareLabel,
+  pagePreviews = [],
+  measurements = [],
+  measureTool = null,
+  onMeasure,
+  calibrations = [],
+  onPageChange,
 }: PdfAnnotationViewerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const pdfDocRef = useRef<pdfjsLib.PDFDocumentProxy | null>(null);
+  const compareCanvasRef = useRef<HTMLCanvasElement>(null);
+  const compareDocRef = useRef<pdfjsLib.PDFDocumentProxy | null>(null);
+  const [compareTotalPages, setCompareTotalPages] = useState(0);
+  const [compareView, setCompareView] = useState<'overlay' | 'side-by-side'>('overlay');
 
   const [currentPage, setCurrentPage] = useState(initialPage);
   const [totalPages, setTotalPages] = useState(0);
@@ -96,6 +171,10 @@ export default function PdfAnnotationViewer({
   const [draggingMarkerId, setDraggingMarkerId] = useState<string | null>(null);
   const [dragMarkerPos, setDragMarkerPos] = useState<{ x: number; y: number } | null>(null);
 
+  // Measuring state: the points picked so far and the pointer position
+  const [measurePoints, setMeasurePoints] = useState<Point[]>([]);
+  const [measureHover, setMeasureHover] = useState<Point | null>(null);
+
   // Load PDF document
   useEffect(() => {
     let cancelled = false;
@@ -106,6 +185,8 @@ export default function PdfAnnotationViewer({
       if (cancelled) return;
       pdfDocRef.current = pdf;
       setTotalPages(pdf.numPages);
+      // Another revision may have fewer pages
+      setCurrentPage((p) => Math.min(p, pdf.numPages));
       setLoading(false);
     }).catch((err) => {
       if (cancelled) return;
@@ -119,6 +200,33 @@ export default function PdfAnnotationViewer({
     };
   }, [pdfUrl]);
 
+  // Load the revision to compare with
+  useEffect(() => {
+    compareDocRef.current = null;
+    setCompareTotalPages(0);
+    if (!compareUrl) return;
+
+    let cancelled = false;
+    const loadingTask = pdfjsLib.getDocument(compareUrl);
+    loadingTask.promise.then((pdf) => {
+      if (cancelled) return;
+      compareDocRef.current = pdf;
+      setCompareTotalPages(pdf.numPages);
+    }).catch((err) => {
+      if (cancelled) return;
+      console.error('Failed to load PDF for comparison:', err);
+    });
+
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [compareUrl]);
+
+  // Pages the other revision does not have are shown on their own
+  const comparing = !!compareUrl && currentPage <= compareTotalPages;
+  const sideBySide = comparing && compareView === 'side-by-side';
+
   // Render current page
   useEffect(() => {
     const pdf = pdfDocRef.current;
@@ -127,10 +235,10 @@ export default function PdfAnnotationViewer({
 
     let cancelled = false;
 
-    pdf.getPage(currentPage).then((page) => {
+    pdf.getPage(currentPage).then(async (page) => {
       if (cancelled) return;
 
-      const viewport = page.getViewport({ scale: 1.5 });
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
       const context = canvas.getContext('2d');
       if (!context) return;
 
@@ -138,23 +246,46 @@ export default function PdfAnnotationViewer({
       canvas.height = viewport.height;
       setCanvasSize({ width: viewport.width, height: viewport.height });
 
-      const renderContext = {
-        canvasContext: context,
-        canvas,
-        viewport,
-      };
+      const comparePdf = comparing ? compareDocRef.current : null;
+      if (!comparePdf) {
+        page.render({ canvasContext: context, canvas, viewport });
+        return;
+      }
 
-      page.render(renderContext);
+      // The other revision is drawn at the same size so both line up
+      const oldPage = await comparePdf.getPage(currentPage);
+      if (cancelled) return;
+      if (compareView === 'overlay') {
+        const [newCanvas, oldCanvas] = await Promise.all([
+          renderPageTo(page, viewport.width, viewport.height),
+          renderPageTo(oldPage, viewport.width, viewport.height),
+        ]);
+        if (cancelled) return;
+        const read = (c: HTMLCanvasElement) => c.getContext('2d')!.getImageData(0, 0, c.width, c.height);
+        context.putImageData(diffImageData(read(oldCanvas), read(newCanvas)), 0, 0);
+      } else {
+        page.render({ canvasContext: context, canvas, viewport });
+        if (compareCanvasRef.current) {
+          renderPageTo(oldPage, viewport.width, viewport.height, compareCanvasRef.current);
+        }
+      }
     });
 
     return () => { cancelled = true; };
-  }, [currentPage, totalPages, pdfUrl]);
+  }, [currentPage, totalPages, pdfUrl, comparing, compareTotalPages, compareView]);
 
   // Reset view on page change
   useEffect(() => {
     setZoom(1);
     setPan({ x: 0, y: 0 });
-  }, [currentPage]);
+    onPageChange?.(currentPage);
+  }, [currentPage]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A measurement is drawn on one page with one tool
+  useEffect(() => {
+    setMeasurePoints([]);
+    setMeasureHover(null);
+  }, [currentPage, measureTool]);
 
   const handleZoomIn = () => setZoom((z) => Math.min(z + ZOOM_STEP, MAX_ZOOM));
   const handleZoomOut = () => setZoom((z) => Math.max(z - ZOOM_STEP, MIN_ZOOM));
@@ -166,6 +297,12 @@ export default function PdfAnnotationViewer({
     setZoom((z) => Math.min(Math.max(z + delta, MIN_ZOOM), MAX_ZOOM));
   }, []);
 
+  // The other revision's pane side by side only pans and zooms, in step with this one
+  const handlePanStart = useCallback((e: React.PointerEvent) => {
+    setIsDragging(true);
+    setDragStart({ x: e.clientX - pan.x, y: e.clientY - pan.y });
+  }, [pan]);
+
   // Convert pointer position to normalized coordinates
   const pointerToNormalized = useCallback((clientX: number, clientY: number) => {
     const container = containerRef.current;
@@ -178,8 +315,30 @@ export default function PdfAnnotationViewer({
     return { x, y };
   }, [pan, zoom, canvasSize]);
 
+  const finishMeasure = useCallback((points: Point[]) => {
+    if (!measureTool || !onMeasure) return;
+    const distinct = points.filter((p, i) => i === 0
+      || Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y) >= MIN_POINT_DISTANCE);
+    if (distinct.length < (measureTool === 'area' ? 3 : 2)) return;
+    onMeasure({ tool: measureTool, page: currentPage, points: distinct });
+    setMeasurePoints([]);
+    setMeasureHover(null);
+  }, [measureTool, onMeasure, currentPage]);
+
   // Pointer handlers for drawing, panning, and marker placement/dragging
   const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (measureTool && onMeasure) {
+      const pos = pointerToNormalized(e.clientX, e.clientY);
+      if (!pos || pos.x < 0 || pos.x > 1 || pos.y < 0 || pos.y > 1) return;
+      const points = [...measurePoints, pos];
+      // Distances and calibration lines end at their second point, polylines and areas on a double-click
+      if ((measureTool === 'distance' || measureTool === 'calibrate') && points.length === 2) {
+        finishMeasure(points);
+      } else {
+        setMeasurePoints(points);
+      }
+      return;
+    }
     if (markerPlaceMode && onMarkerPlace) {
       const pos = pointerToNormalized(e.clientX, e.clientY);
       if (!pos || pos.x < 0 || pos.x > 1 || pos.y < 0 || pos.y > 1) return;
@@ -197,7 +356,10 @@ export default function PdfAnnotationViewer({
       setIsDragging(true);
       setDragStart({ x: e.clientX - pan.x, y: e.clientY - pan.y });
     }
-  }, [drawMode, markerPlaceMode, onAnnotationDraw, onMarkerPlace, pointerToNormalized, pan, currentPage]);
+  }, [
+    drawMode, markerPlaceMode, onAnnotationDraw, onMarkerPlace, pointerToNormalized, pan, currentPage,
+    measureTool, onMeasure, measurePoints, finishMeasure,
+  ]);
 
   const handlePointerMove = useCallback((e: React.PointerEvent) => {
     if (draggingMarkerId) {
@@ -208,6 +370,14 @@ export default function PdfAnnotationViewer({
           y: Math.max(0, Math.min(1, pos.y)),
         });
       }
+    } else if (measureTool && measurePoints.length > 0) {
+      const pos = pointerToNormalized(e.clientX, e.clientY);
+      if (pos) {
+        setMeasureHover({
+          x: Math.max(0, Math.min(1, pos.x)),
+          y: Math.max(0, Math.min(1, pos.y)),
+        });
+      }
     } else if (isDrawing) {
       const pos = pointerToNormalized(e.clientX, e.clientY);
       if (pos) {
@@ -219,7 +389,7 @@ export default function PdfAnnotationViewer({
     } else if (isDragging) {
       setPan({ x: e.clientX - dragStart.x, y: e.clientY - dragStart.y });
     }
-  }, [draggingMarkerId, isDrawing, isDragging, pointerToNormalized, dragStart]);
+  }, [draggingMarkerId, measureTool, measurePoints, isDrawing, isDragging, pointerToNormalized, dragStart]);
 
   const handlePointerUp = useCallback(() => {
     if (draggingMarkerId && dragMarkerPos && onMarkerMove) {
@@ -273,7 +443,32 @@ export default function PdfAnnotationViewer({
     height: Math.abs(drawCurrent.y - drawStart.y),
   } : null;
 
-  const isInteractive = drawMode || markerPlaceMode;
+  const isInteractive = drawMode || markerPlaceMode || !!measureTool;
+
+  // Filter measurements for the current page
+  const pageMeasurements = measurements.filter((m) => m.page === currentPage);
+
+  // The measurement being drawn, up to the pointer, and its value once the page is calibrated
+  const draftPoints = measureHover ? [...measurePoints, measureHover] : measurePoints;
+  const pageCalibration = calibrations.find((c) => c.page === currentPage);
+  const draftValue = measureTool && measureTool !== 'calibrate' && pageCalibration && draftPoints.length >= 2
+    ? formatMeasurement({ type: measureTool, value: measure(pageCalibration, measureTool, draftPoints) })
+    : null;
+  const toPath = (points: Point[]) => points
+    .map((p) => `${p.x * canvasSize.width},${p.y * canvasSize.height}`)
+    .join(' ');
+
+  const loadingPreview = pagePreviews.find((p) => p.page === currentPage);
+  if (loading && loadingPreview) {
+    return (
+      <div className="relative border border-gray-200 rounded-lg overflow-hidden bg-gray-100">
+        <img src={loadingPreview.url} alt={`Page ${currentPage}`} className="w-full h-auto" />
+        <div className="absolute top-2 right-2 bg-white/90 rounded px-2 py-1 text-xs text-gray-600 shadow-sm">
+          Loading PDF...
+        </div>
+      </div>
+    );
+  }
 
   if (loading) {
     return (
@@ -295,6 +490,36 @@ export default function PdfAnnotationViewer({
     <div className="relative border border-gray-200 rounded-lg overflow-hidden bg-gray-100">
       {/* Controls */}
       <div className="absolute top-2 right-2 z-10 flex gap-1">
+        {comparing && (
+          <div className="flex">
+            <Button
+              variant={compareView === 'overlay' ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setCompareView('overlay')}
+            >
+              Overlay
+            </Button>
+            <Button
+              variant={compareView === 'side-by-side' ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setCompareView('side-by-side')}
+            >
+              Side by side
+            </Button>
+          </div>
+        )}
+        {revisions.length > 1 && onRevisionChange && (
+          <select
+            value={revisionId}
+            onChange={(e) => onRevisionChange(e.target.value)}
+            className="text-xs border border-gray-300 rounded bg-white px-2 py-1"
+            aria-label="Revision"
+          >
+            {revisions.map((r) => (
+              <option key={r.id} value={r.id}>Rev {r.label}</option>
+            ))}
+          </select>
+        )}
         <Button variant="secondary" size="sm" onClick={handleZoomIn}>+</Button>
         <Button variant="secondary" size="sm" onClick={handleZoomOut}>-</Button>
         <Button variant="secondary" size="sm" onClick={handleZoomReset}>Reset</Button>
@@ -337,218 +562,376 @@ export default function PdfAnnotationViewer({
         </div>
       )}
 
-      {/* Canvas + SVG overlay container */}
-      <div
-        ref={containerRef}
-        className="relative overflow-hidden"
-        style={{
-          height: '600px',
-          cursor: isInteractive ? 'crosshair' : isDragging ? 'grabbing' : 'grab',
-          touchAction: 'none',
-        }}
-        onWheel={handleWheel}
-        onPointerDown={handlePointerDown}
-        onPointerMove={handlePointerMove}
-        onPointerUp={handlePointerUp}
-      >
+      {measureTool && (
+        <div className="absolute top-12 left-2 z-10 flex items-center gap-2 bg-amber-600 text-white text-xs px-2 py-1 rounded">
+          <span>
+            {measureTool === 'calibrate'
+              ? 'Draw a line over a dimension of known length'
+              : measureTool === 'distance'
+                ? 'Click the two ends of the distance'
+                : 'Click the points, and double-click the last one to finish'}
+          </span>
+          {measureTool !== 'calibrate' && (
+            <span className="font-semibold">
+              {pageCalibration ? draftValue : 'This page is not calibrated'}
+            </span>
+          )}
+          {(measureTool === 'polyline' || measureTool === 'area') && measurePoints.length > 0 && (
+            <button
+              type="button"
+              className="underline"
+              onClick={() => finishMeasure(measurePoints)}
+            >
+              Finish
+            </button>
+          )}
+        </div>
+      )}
+
+      {compareUrl && compareTotalPages > 0 && !comparing && (
+        <div className="absolute top-12 left-2 z-10 bg-white/90 text-gray-600 text-xs px-2 py-1 rounded">
+          Page {currentPage} is not in {compareLabel ? `Rev ${compareLabel}` : 'the other revision'}
+        </div>
+      )}
+
+      <div className={sideBySide ? 'flex' : undefined}>
+        {sideBySide && (
+          <div
+            className="relative overflow-hidden w-1/2 border-r border-gray-300"
+            style={{ height: '600px', cursor: isDragging ? 'grabbing' : 'grab', touchAction: 'none' }}
+            onWheel={handleWheel}
+            onPointerDown={handlePanStart}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <div
+              style={{
+                transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+                transformOrigin: '0 0',
+                transition: isDragging ? 'none' : 'transform 0.1s ease-out',
+                width: canvasSize.width,
+                height: canvasSize.height,
+              }}
+            >
+              <canvas ref={compareCanvasRef} style={{ display: 'block' }} />
+            </div>
+            {compareLabel && (
+              <div className="absolute bottom-2 right-2 text-xs text-gray-600 bg-white/80 px-2 py-1 rounded">
+                Rev {compareLabel}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Canvas + SVG overlay container */}
         <div
+          ref={containerRef}
+          className={`relative overflow-hidden ${sideBySide ? 'w-1/2' : ''}`}
           style={{
-            transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
-            transformOrigin: '0 0',
-            transition: isDragging || isDrawing || draggingMarkerId ? 'none' : 'transform 0.1s ease-out',
-            position: 'relative',
-            width: canvasSize.width,
-            height: canvasSize.height,
+            height: '600px',
+            cursor: isInteractive ? 'crosshair' : isDragging ? 'grabbing' : 'grab',
+            touchAction: 'none',
           }}
+          onWheel={handleWheel}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onDoubleClick={() => (measureTool === 'polyline' || measureTool === 'area') && finishMeasure(measurePoints)}
         >
-          <canvas ref={canvasRef} style={{ display: 'block' }} />
-
-          {/* SVG annotation overlay */}
-          <svg
+          <div
             style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              width: '100%',
-              height: '100%',
-              pointerEvents: isInteractive ? 'none' : 'auto',
+              transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+              transformOrigin: '0 0',
+              transition: isDragging || isDrawing || draggingMarkerId ? 'none' : 'transform 0.1s ease-out',
+              position: 'relative',
+              width: canvasSize.width,
+              height: canvasSize.height,
             }}
-            viewBox={`0 0 ${canvasSize.width} ${canvasSize.height}`}
           >
-            {/* Existing annotations (rectangles) */}
-            {pageAnnotations.map((ann) => {
-              const rx = ann.x * canvasSize.width;
-              const ry = ann.y * canvasSize.height;
-              const rw = ann.width * canvasSize.width;
-              const rh = ann.height * canvasSize.height;
-              const color = statusColors[ann.status] || '#6b7280';
-              const cx = rx + rw / 2;
-              const cy = ry + rh / 2;
-              const dotRadius = Math.min(rw, rh, 30) / 2;
-
-              return (
-                <g
-                  key={ann.taskId}
-                  style={{ cursor: 'pointer' }}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onAnnotationClick?.(ann.taskId);
-                  }}
-                >
-                  {/* Rectangle */}
-                  <rect
-                    x={rx}
-                    y={ry}
-                    width={rw}
-                    height={rh}
-                    fill={color}
-                    fillOpacity={0.15}
-                    stroke={color}
-                    strokeWidth={2}
-                  />
-                  {/* Dot with task number */}
-                  <circle
-                    cx={cx}
-                    cy={cy}
-                    r={dotRadius}
-                    fill={color}
-                    stroke="white"
-                    strokeWidth={2}
-                  />
-                  <text
-                    x={cx}
-                    y={cy}
-                    textAnchor="middle"
-                    dominantBaseline="central"
-                    fill="white"
-                    fontSize={dotRadius * 1.1}
-                    fontWeight="bold"
-                    style={{ pointerEvents: 'none' }}
-                  >
-                    {ann.taskNumber}
-                  </text>
-                </g>
-              );
-            })}
-
-            {/* Markers */}
-            {pageMarkers.map((marker, index) => {
-              const isDragTarget = draggingMarkerId === marker.id;
-              const mx = isDragTarget && dragMarkerPos ? dragMarkerPos.x : marker.x;
-              const my = isDragTarget && dragMarkerPos ? dragMarkerPos.y : marker.y;
-
-              const targetX = mx * canvasSize.width;
-              const targetY = my * canvasSize.height;
-              const labelX = targetX + LABEL_OFFSET_X;
-              const labelY = targetY + LABEL_OFFSET_Y;
-              const label = marker.label || (taskNumber != null ? `${taskNumber}-${index + 1}` : String(index + 1));
-
-              return (
-                <g key={marker.id}>
-                  {/* Leader line from target to label */}
-                  <line
-                    x1={targetX}
-                    y1={targetY}
-                    x2={labelX}
-                    y2={labelY}
-                    stroke={MARKER_COLOR}
-                    strokeWidth={1.5}
-                    strokeOpacity={0.7}
-                  />
-                  {/* Target dot (draggable) */}
-                  <circle
-                    cx={targetX}
-                    cy={targetY}
-                    r={TARGET_RADIUS}
-                    fill={MARKER_COLOR}
-                    stroke="white"
-                    strokeWidth={1.5}
-                    style={{ cursor: onMarkerMove ? 'move' : 'default', pointerEvents: 'auto' }}
-                    onPointerDown={(e) => {
-                      if (!onMarkerMove) return;
+            <canvas ref={canvasRef} style={{ display: 'block' }} />
+
+            {/* SVG annotation overlay */}
+            <svg
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                pointerEvents: isInteractive ? 'none' : 'auto',
+              }}
+              viewBox={`0 0 ${canvasSize.width} ${canvasSize.height}`}
+            >
+              {/* Existing annotations (rectangles) */}
+              {pageAnnotations.map((ann) => {
+                const rx = ann.x * canvasSize.width;
+                const ry = ann.y * canvasSize.height;
+                const rw = ann.width * canvasSize.width;
+                const rh = ann.height * canvasSize.height;
+                const color = statusColors[ann.status] || DEFAULT_STATUS_COLORS[ann.status] || '#6b7280';
+                const cx = rx + rw / 2;
+                const cy = ry + rh / 2;
+                const dotRadius = Math.min(rw, rh, 30) / 2;
+
+                return (
+                  <g
+                    key={ann.taskId}
+                    style={{ cursor: 'pointer' }}
+                    onClick={(e) => {
                       e.stopPropagation();
-                      e.preventDefault();
-                      setDraggingMarkerId(marker.id);
-                      setDragMarkerPos({ x: mx, y: my });
-                      (e.target as SVGElement).setPointerCapture(e.pointerId);
+                      onAnnotationClick?.(ann.taskId);
                     }}
-                  />
-                  {/* Label circle */}
-                  <circle
-                    cx={labelX}
-                    cy={labelY}
-                    r={LABEL_RADIUS}
-                    fill={MARKER_COLOR}
-                    stroke="white"
-                    strokeWidth={2}
-                    style={{ pointerEvents: 'auto' }}
-                  />
-                  {/* Label text */}
-                  <text
-                    x={labelX}
-                    y={labelY}
-                    textAnchor="middle"
-                    dominantBaseline="central"
-                    fill="white"
-                    fontSize={10}
-                    fontWeight="bold"
-                    style={{ pointerEvents: 'none', userSelect: 'none' }}
                   >
-                    {label}
-                  </text>
-                  {/* Delete button (small x circle, top-right of label) */}
-                  {onMarkerDelete && (
-                    <g
-                      style={{ cursor: 'pointer', pointerEvents: 'auto' }}
-                      onClick={(e) => {
+                    {/* Rectangle */}
+                    <rect
+                      x={rx}
+                      y={ry}
+                      width={rw}
+                      height={rh}
+                      fill={color}
+                      fillOpacity={0.15}
+                      stroke={color}
+                      strokeWidth={2}
+                    />
+                    {/* Dot with task number */}
+                    <circle
+                      cx={cx}
+                      cy={cy}
+                      r={dotRadius}
+                      fill={color}
+                      stroke="white"
+                      strokeWidth={2}
+                    />
+                    <text
+                      x={cx}
+                      y={cy}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      fill="white"
+                      fontSize={dotRadius * 1.1}
+                      fontWeight="bold"
+                      style={{ pointerEvents: 'none' }}
+                    >
+                      {ann.taskNumber}
+                    </text>
+                  </g>
+                );
+              })}
+
+              {/* Markers */}
+              {pageMarkers.map((marker, index) => {
+                const isDragTarget = draggingMarkerId === marker.id;
+                const mx = isDragTarget && dragMarkerPos ? dragMarkerPos.x : marker.x;
+                const my = isDragTarget && dragMarkerPos ? dragMarkerPos.y : marker.y;
+
+                const targetX = mx * canvasSize.width;
+                const targetY = my * canvasSize.height;
+                const labelX = targetX + LABEL_OFFSET_X;
+                const labelY = targetY + LABEL_OFFSET_Y;
+                const label = marker.label || (taskNumber != null ? `${taskNumber}-${index + 1}` : String(index + 1));
+
+                return (
+                  <g key={marker.id}>
+                    {/* Leader line from target to label */}
+                    <line
+                      x1={targetX}
+                      y1={targetY}
+                      x2={labelX}
+                      y2={labelY}
+                      stroke={MARKER_COLOR}
+                      strokeWidth={1.5}
+                      strokeOpacity={0.7}
+                    />
+                    {/* Target dot (draggable) */}
+                    <circle
+                      cx={targetX}
+                      cy={targetY}
+                      r={TARGET_RADIUS}
+                      fill={MARKER_COLOR}
+                      stroke="white"
+                      strokeWidth={1.5}
+                      style={{ cursor: onMarkerMove ? 'move' : 'default', pointerEvents: 'auto' }}
+                      onPointerDown={(e) => {
+                        if (!onMarkerMove) return;
                         e.stopPropagation();
-                        onMarkerDelete(marker.id);
+                        e.preventDefault();
+                        setDraggingMarkerId(marker.id);
+                        setDragMarkerPos({ x: mx, y: my });
+                        (e.target as SVGElement).setPointerCapture(e.pointerId);
                       }}
+                    />
+                    {/* Label circle */}
+                    <circle
+                      cx={labelX}
+                      cy={labelY}
+                      r={LABEL_RADIUS}
+                      fill={MARKER_COLOR}
+                      stroke="white"
+                      strokeWidth={2}
+                      style={{ pointerEvents: 'auto' }}
+                    />
+                    {/* Label text */}
+                    <text
+                      x={labelX}
+                      y={labelY}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      fill="white"
+                      fontSize={10}
+                      fontWeight="bold"
+                      style={{ pointerEvents: 'none', userSelect: 'none' }}
                     >
+                      {label}
+                    </text>
+                    {/* Delete button (small x circle, top-right of label) */}
+                    {onMarkerDelete && (
+                      <g
+                        style={{ cursor: 'pointer', pointerEvents: 'auto' }}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onMarkerDelete(marker.id);
+                        }}
+                      >
+                        <circle
+                          cx={labelX + LABEL_RADIUS * 0.7}
+                          cy={labelY - LABEL_RADIUS * 0.7}
+                          r={7}
+                          fill="#ef4444"
+                          stroke="white"
+                          strokeWidth={1.5}
+                        />
+                        <text
+                          x={labelX + LABEL_RADIUS * 0.7}
+                          y={labelY - LABEL_RADIUS * 0.7}
+                          textAnchor="middle"
+                          dominantBaseline="central"
+                          fill="white"
+                          fontSize={9}
+                          fontWeight="bold"
+                          style={{ pointerEvents: 'none' }}
+                        >
+                          x
+                        </text>
+                      </g>
+                    )}
+                  </g>
+                );
+              })}
+
+              {/* Measurements */}
+              {pageMeasurements.map((m) => {
+                const cx = (m.points.reduce((sum, p) => sum + p.x, 0) / m.points.length) * canvasSize.width;
+                const cy = (m.points.reduce((sum, p) => sum + p.y, 0) / m.points.length) * canvasSize.height;
+                return (
+                  <g key={m.id} style={{ pointerEvents: 'none' }}>
+                    {m.type === 'area' ? (
+                      <polygon
+                        points={toPath(m.points)}
+                        fill={MEASURE_COLOR}
+                        fillOpacity={0.15}
+                        stroke={MEASURE_COLOR}
+                        strokeWidth={2}
+                      />
+                    ) : (
+                      <polyline points={toPath(m.points)} fill="none" stroke={MEASURE_COLOR} strokeWidth={2} />
+                    )}
+                    {m.points.map((p, i) => (
                       <circle
-                        cx={labelX + LABEL_RADIUS * 0.7}
-                        cy={labelY - LABEL_RADIUS * 0.7}
-                        r={7}
-                        fill="#ef4444"
-                        stroke="white"
-                        strokeWidth={1.5}
+                        key={i}
+                        cx={p.x * canvasSize.width}
+                        cy={p.y * canvasSize.height}
+                        r={3}
+                        fill={MEASURE_COLOR}
                       />
-                      <text
-                        x={labelX + LABEL_RADIUS * 0.7}
-                        y={labelY - LABEL_RADIUS * 0.7}
-                        textAnchor="middle"
-                        dominantBaseline="central"
-                        fill="white"
-                        fontSize={9}
-                        fontWeight="bold"
-                        style={{ pointerEvents: 'none' }}
-                      >
-                        x
-                      </text>
-                    </g>
+                    ))}
+                    <text
+                      x={cx}
+                      y={cy}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      fill={MEASURE_COLOR}
+                      stroke="white"
+                      strokeWidth={3}
+                      paintOrder="stroke"
+                      fontSize={12}
+                      fontWeight="bold"
+                      style={{ userSelect: 'none' }}
+                    >
+                      {m.label}
+                    </text>
+                  </g>
+                );
+              })}
+
+              {/* Measurement being drawn */}
+              {draftPoints.length > 0 && (
+                <g style={{ pointerEvents: 'none' }}>
+                  {measureTool === 'area' && draftPoints.length > 2 ? (
+                    <polygon
+                      points={toPath(draftPoints)}
+                      fill={MEASURE_COLOR}
+                      fillOpacity={0.1}
+                      stroke={MEASURE_COLOR}
+                      strokeWidth={2}
+                      strokeDasharray="6 3"
+                    />
+                  ) : (
+                    <polyline
+                      points={toPath(draftPoints)}
+                      fill="none"
+                      stroke={MEASURE_COLOR}
+                      strokeWidth={2}
+                      strokeDasharray="6 3"
+                    />
                   )}
+                  {measurePoints.map((p, i) => (
+                    <circle
+                      key={i}
+                      cx={p.x * canvasSize.width}
+                      cy={p.y * canvasSize.height}
+                      r={3}
+                      fill={MEASURE_COLOR}
+                    />
+                  ))}
                 </g>
-              );
-            })}
-
-            {/* Active drawing rectangle */}
-            {drawRect && (
-              <rect
-                x={drawRect.x * canvasSize.width}
-                y={drawRect.y * canvasSize.height}
-                width={drawRect.width * canvasSize.width}
-                height={drawRect.height * canvasSize.height}
-                fill="#ef4444"
-                fillOpacity={0.2}
-                stroke="#ef4444"
-                strokeWidth={2}
-                strokeDasharray="6 3"
-              />
-            )}
-          </svg>
+              )}
+
+              {/* Active drawing rectangle */}
+              {drawRect && (
+                <rect
+                  x={drawRect.x * canvasSize.width}
+                  y={drawRect.y * canvasSize.height}
+                  width={drawRect.width * canvasSize.width}
+                  height={drawRect.height * canvasSize.height}
+                  fill="#ef4444"
+                  fillOpacity={0.2}
+                  stroke="#ef4444"
+                  strokeWidth={2}
+                  strokeDasharray="6 3"
+                />
+              )}
+            </svg>
+          </div>
         </div>
       </div>
 
+      {comparing && compareView === 'overlay' && (
+        <div className="absolute bottom-2 right-2 flex gap-3 text-xs text-gray-600 bg-white/80 px-2 py-1 rounded">
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: 'rgb(220, 38, 38)' }} />
+            Only in {compareLabel ? `Rev ${compareLabel}` : 'the other revision'}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: 'rgb(37, 99, 235)' }} />
+            Only in this revision
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: 'rgb(156, 163, 175)' }} />
+            Unchanged
+          </span>
+        </div>
+      )}
+
       {/* Zoom indicator */}
       <div className="absolute bottom-2 left-2 text-xs text-gray-500 bg-white/80 px-2 py-1 rounded">
         {Math.round(zoom * 100)}%
@@ -0,0 +1,78 @@
+export type MeasurementType = 'distance' | 'polyline' | 'area';
+
+// Tools of the blueprint viewer that pick points on a page
+export type MeasureTool = MeasurementType | 'calibrate';
+
+export interface Point {
+  x: number; // Normalized 0-1
+  y: number;
+}
+
+export interface TaskMeasurement {
+  id: string;
+  type: MeasurementType;
+  page: number;
+  points: Point[];
+  value: number; // metres, or square metres for areas
+  label?: string;
+}
+
+// The drawing scale of a blueprint page, as worked out on the server
+export interface ScaleCalibration {
+  page: number;
+  method: 'line' | 'scale';
+  pageWidth: number;
+  pageHeight: number;
+  metresPerUnit: number;
+  line?: { x1: number; y1: number; x2: number; y2: number; length: number };
+  ratio?: number;
+  paperSize?: PaperSize;
+}
+
+export const PAPER_SIZES = ['A0', 'A1', 'A2', 'A3', 'A4', 'ARCH_C', 'ARCH_D', 'ARCH_E'] as const;
+
+export type PaperSize = typeof PAPER_SIZES[number];
+
+export function paperSizeLabel(paperSize: PaperSize): string {
+  return paperSize.replace('_', ' ');
+}
+
+export const MEASUREMENT_TYPE_LABELS: Record<MeasurementType, string> = {
+  distance: 'Distance',
+  polyline: 'Polyline',
+  area: 'Area',
+};
+
+/** Length in metres along the points, or the enclosed area in square metres; matches the server. */
+export function measure(calibration: ScaleCalibration, type: MeasurementType, points: Point[]): number {
+  const w = calibration.pageWidth;
+  const h = calibration.pageHeight;
+  if (type === 'area') {
+    let twiceArea = 0;
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      twiceArea += (a.x * w) * (b.y * h) - (b.x * w) * (a.y * h);
+    }
+    return (Math.abs(twiceArea) / 2) * calibration.metresPerUnit ** 2;
+  }
+  let units = 0;
+  for (let i = 1; i < points.length; i++) {
+    units += Math.hypot((points[i].x - points[i - 1].x) * w, (points[i].y - points[i - 1].y) * h);
+  }
+  return units * calibration.metresPerUnit;
+}
+
+/** "2.40 m" or "6.00 m²". */
+export function formatMeasurement(measurement: { type: MeasurementType; value: number }): string {
+  return measurement.type === 'area'
+    ? `${measurement.value.toFixed(2)} m²`
+    : `${measurement.value.toFixed(2)} m`;
+}
+
+/** "1:100 on A1", or the known length the page was calibrated with. */
+export function calibrationLabel(calibration: ScaleCalibration): string {
+  return calibration.method === 'scale'
+    ? `1:${calibration.ratio} on ${paperSizeLabel(calibration.paperSize!)}`
+    : `line of ${calibration.line!.length} m`;
+}
@@ -0,0 +1,28 @@
+// Grey levels darker than this count as drawn; matches the server-side diff of image blueprints
+const INK_THRESHOLD = 160;
+
+const REMOVED = [220, 38, 38]; // only on the old revision: red
+const ADDED = [37, 99, 235]; // only on the new revision: blue
+const UNCHANGED = [156, 163, 175]; // on both: grey
+const BLANK = [255, 255, 255];
+
+function isInk(data: Uint8ClampedArray, i: number): boolean {
+  const grey = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  // Transparent pixels are blank paper
+  return data[i + 3] > 0 && grey < INK_THRESHOLD;
+}
+
+/** Colour each pixel of two same-sized renderings by whether it is drawn on the old one, the new one or both. */
+export function diffImageData(oldImage: ImageData, newImage: ImageData): ImageData {
+  const out = new ImageData(newImage.width, newImage.height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    const inOld = isInk(oldImage.data, i);
+    const inNew = isInk(newImage.data, i);
+    const color = inOld && inNew ? UNCHANGED : inOld ? REMOVED : inNew ? ADDED : BLANK;
+    out.data[i] = color[0];
+    out.data[i + 1] = color[1];
+    out.data[i + 2] = color[2];
+    out.data[i + 3] = 255;
+  }
+  return out;
+}
@@ -0,0 +1,100 @@
+import { useRef, useState } from 'react';
+import { useFileUpload } from '../../hooks/useFileUpload';
+import { commentApi } from '../../services/comment.api';
+import Button from '../ui/Button';
+
+export interface PickedAttachment {
+  id: string;
+  fileName: string;
+}
+
+interface CommentAttachmentPickerProps {
+  projectId: string;
+  taskId: string;
+  attachments: PickedAttachment[];
+  onChange: (attachments: PickedAttachment[]) => void;
+}
+
+const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20 MB
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+const MAX_ATTACHMENTS = 10;
+
+/** Uploads files for a comment that is being written; they are linked when it is posted. */
+export default function CommentAttachmentPicker({ projectId, taskId, attachments, onChange }: CommentAttachmentPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileNames = useRef(new Map<string, string>());
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const { state, progress, error, upload } = useFileUpload({
+    onRequestUrl: async (file) => {
+      const result = await commentApi.requestAttachmentUpload(projectId, taskId, {
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+      });
+      fileNames.current.set(result.attachmentId, file.name);
+      return { uploadUrl: result.uploadUrl, resourceId: result.attachmentId };
+    },
+    onConfirm: async (attachmentId) => {
+      await commentApi.confirmAttachment(projectId, taskId, attachmentId);
+      onChange([...attachments, { id: attachmentId, fileName: fileNames.current.get(attachmentId) || 'File' }]);
+    },
+  });
+
+  function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setValidationError(null);
+
+    if (!ALLOWED_TYPES.includes(file.type)) {
+      setValidationError('Only JPG, PNG and PDF files can be attached');
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      setValidationError('File must be smaller than 20 MB');
+      return;
+    }
+
+    upload(file);
+  }
+
+  const isUploading = state === 'uploading' || state === 'confirming';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".jpg,.jpeg,.png,.pdf"
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        loading={isUploading}
+        disabled={attachments.length >= MAX_ATTACHMENTS}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {isUploading ? `Uploading ${progress}%` : 'Attach file'}
+      </Button>
+      {attachments.map((attachment) => (
+        <span key={attachment.id} className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+          {attachment.fileName}
+          <button
+            type="button"
+            className="text-gray-400 hover:text-gray-600"
+            aria-label={`Remove ${attachment.fileName}`}
+            onClick={() => onChange(attachments.filter((a) => a.id !== attachment.id))}
+          >
+            &times;
+          </button>
+        </span>
+      ))}
+      {(validationError || error) && <span className="text-xs text-red-600">{validationError || error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { CommentAttachment } from '../../services/comment.api';
+
+/** Image thumbnails and file links shown under a comment. */
+export default function CommentAttachments({ attachments }: { attachments: CommentAttachment[] }) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {attachments.map((attachment) => attachment.thumbnail_download_url ? (
+        <a key={attachment.id} href={attachment.download_url} target="_blank" rel="noreferrer" title={attachment.file_name}>
+          <img
+            src={attachment.thumbnail_download_url}
+            alt={attachment.file_name}
+            className="h-20 w-20 rounded border border-gray-200 object-cover"
+          />
+        </a>
+      ) : (
+        <a
+          key={attachment.id}
+          href={attachment.download_url}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex items-center gap-1 rounded border border-gray-200 px-2 py-1 text-xs text-primary-700 hover:bg-gray-50"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+          </svg>
+          {attachment.file_name}
+        </a>
+      ))}
+    </div>
+  );
+}
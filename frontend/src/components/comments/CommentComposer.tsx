@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { useCreateComment } from '../../hooks/useComments';
+import MentionTextarea from '../mentions/MentionTextarea';
+import Button from '../ui/Button';
+import CommentAttachmentPicker from './CommentAttachmentPicker';
+import type { PickedAttachment } from './CommentAttachmentPicker';
+
+interface CommentComposerProps {
+  projectId: string;
+  taskId: string;
+  /** Set when writing a reply */
+  parentId?: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+  onPosted?: () => void;
+}
+
+export default function CommentComposer({ projectId, taskId, parentId, placeholder, autoFocus, onPosted }: CommentComposerProps) {
+  const createComment = useCreateComment(projectId, taskId);
+  const [commentText, setCommentText] = useState('');
+  const [attachments, setAttachments] = useState<PickedAttachment[]>([]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!commentText.trim()) return;
+    await createComment.mutateAsync({
+      commentText,
+      parentId,
+      attachmentIds: attachments.length > 0 ? attachments.map((a) => a.id) : undefined,
+    });
+    setCommentText('');
+    setAttachments([]);
+    onPosted?.();
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <div className="flex items-start gap-2">
+        <MentionTextarea
+          projectId={projectId}
+          value={commentText}
+          onChange={setCommentText}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              e.currentTarget.form?.requestSubmit();
+            }
+          }}
+          placeholder={placeholder || 'Add a comment... Type @ to mention someone'}
+          autoFocus={autoFocus}
+          rows={1}
+        />
+        <Button type="submit" size="sm" loading={createComment.isPending} disabled={!commentText.trim()}>
+          {parentId ? 'Reply' : 'Send'}
+        </Button>
+      </div>
+      <CommentAttachmentPicker
+        projectId={projectId}
+        taskId={taskId}
+        attachments={attachments}
+        onChange={setAttachments}
+      />
+    </form>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../stores/authStore';
+import { useCommentEdits, useDeleteComment, useUpdateComment } from '../../hooks/useComments';
+import type { TaskComment } from '../../services/comment.api';
+import MentionText from '../mentions/MentionText';
+import MentionTextarea from '../mentions/MentionTextarea';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+import Spinner from '../ui/Spinner';
+import CommentAttachments from './CommentAttachments';
+import CommentComposer from './CommentComposer';
+
+interface CommentThreadProps {
+  projectId: string;
+  taskId: string;
+  comment: TaskComment;
+  replies: TaskComment[];
+  /** Project managers may delete anyone's comment */
+  canModerate: boolean;
+}
+
+function authorName(comment: TaskComment): string {
+  return comment.user_first_name
+    ? `${comment.user_first_name} ${comment.user_last_name}`
+    : comment.external_email || 'Unknown';
+}
+
+/** A top-level comment with its replies and a reply box. */
+export default function CommentThread({ projectId, taskId, comment, replies, canModerate }: CommentThreadProps) {
+  const [replying, setReplying] = useState(false);
+
+  return (
+    <div>
+      <CommentItem projectId={projectId} taskId={taskId} comment={comment} canModerate={canModerate} onReply={() => setReplying(true)} />
+      {(replies.length > 0 || replying) && (
+        <div className="ml-11 mt-3 space-y-3 border-l-2 border-gray-100 pl-3">
+          {replies.map((reply) => (
+            <CommentItem key={reply.id} projectId={projectId} taskId={taskId} comment={reply} canModerate={canModerate} />
+          ))}
+          {replying && (
+            <CommentComposer
+              projectId={projectId}
+              taskId={taskId}
+              parentId={comment.id}
+              placeholder={`Reply to ${authorName(comment)}...`}
+              autoFocus
+              onPosted={() => setReplying(false)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CommentItem({
+  projectId,
+  taskId,
+  comment,
+  canModerate,
+  onReply,
+}: {
+  projectId: string;
+  taskId: string;
+  comment: TaskComment;
+  canModerate: boolean;
+  onReply?: () => void;
+}) {
+  const user = useAuthStore((s) => s.user);
+  const updateComment = useUpdateComment(projectId, taskId);
+  const deleteComment = useDeleteComment(projectId, taskId);
+  const [editText, setEditText] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const isAuthor = !!user && comment.user_id === user.userId;
+
+  if (comment.deleted_at) {
+    return <p className="text-sm italic text-gray-400">This comment was deleted</p>;
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!editText?.trim()) return;
+    await updateComment.mutateAsync({ commentId: comment.id, commentText: editText });
+    setEditText(null);
+  }
+
+  return (
+    <div className="flex gap-3">
+      <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600 shrink-0">
+        {comment.user_first_name?.[0] || comment.external_email?.[0] || '?'}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-medium text-gray-900">{authorName(comment)}</span>
+          <span className="text-xs text-gray-400">
+            {format(new Date(comment.created_at), 'MMM d, h:mm a')}
+          </span>
+          {comment.edited_at && (
+            <button type="button" className="text-xs text-gray-400 hover:underline" onClick={() => setShowHistory(true)}>
+              (edited)
+            </button>
+          )}
+        </div>
+
+        {editText !== null ? (
+          <form onSubmit={handleSave} className="mt-1 space-y-2">
+            <MentionTextarea projectId={projectId} value={editText} onChange={setEditText} rows={2} autoFocus />
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" loading={updateComment.isPending} disabled={!editText.trim()}>Save</Button>
+              <Button type="button" size="sm" variant="secondary" onClick={() => setEditText(null)}>Cancel</Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap"><MentionText text={comment.comment_text} /></p>
+        )}
+
+        <CommentAttachments attachments={comment.attachments || []} />
+
+        {editText === null && (
+          <div className="flex gap-3 mt-1 text-xs text-gray-500">
+            {onReply && <button type="button" className="hover:text-gray-900" onClick={onReply}>Reply</button>}
+            {isAuthor && (
+              <button type="button" className="hover:text-gray-900" onClick={() => setEditText(comment.comment_text)}>Edit</button>
+            )}
+            {(isAuthor || canModerate) && (
+              <button type="button" className="hover:text-red-600" onClick={() => setConfirmDelete(true)}>Delete</button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={confirmDelete} onClose={() => setConfirmDelete(false)} title="Delete Comment" size="sm">
+        <p className="text-sm text-gray-600 mb-4">
+          {isAuthor
+            ? 'Are you sure you want to delete your comment?'
+            : `Are you sure you want to delete ${authorName(comment)}'s comment?`}
+        </p>
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={() => setConfirmDelete(false)}>Cancel</Button>
+          <Button
+            variant="danger"
+            loading={deleteComment.isPending}
+            onClick={async () => {
+              await deleteComment.mutateAsync(comment.id);
+              setConfirmDelete(false);
+            }}
+          >
+            Delete
+          </Button>
+        </div>
+      </Modal>
+
+      {showHistory && (
+        <EditHistoryModal projectId={projectId} taskId={taskId} commentId={comment.id} onClose={() => setShowHistory(false)} />
+      )}
+    </div>
+  );
+}
+
+function EditHistoryModal({
+  projectId,
+  taskId,
+  commentId,
+  onClose,
+}: {
+  projectId: string;
+  taskId: string;
+  commentId: string;
+  onClose: () => void;
+}) {
+  const { data: edits = [], isLoading } = useCommentEdits(projectId, taskId, commentId);
+
+  return (
+    <Modal isOpen onClose={onClose} title="Edit History">
+      {isLoading ? (
+        <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+      ) : (
+        <ul className="space-y-3">
+          {edits.map((edit) => (
+            <li key={edit.id} className="border-b border-gray-100 pb-3 last:border-0">
+              <p className="text-xs text-gray-400 mb-1">
+                Replaced {format(new Date(edit.edited_at), 'MMM d, h:mm a')}
+                {edit.editor_first_name && <> by {edit.editor_first_name} {edit.editor_last_name}</>}
+              </p>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap"><MentionText text={edit.previous_text} /></p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Modal>
+  );
+}
@@ -1,9 +1,12 @@
 import { useState, useEffect } from 'react';
+import { useOfflineQueue } from '../../hooks/useOfflineQueue';
 
 export default function NetworkStatus() {
   const [isOnline, setIsOnline] = useState(
     typeof navigator !== 'undefined' ? navigator.onLine : true,
   );
+  const [showFailed, setShowFailed] = useState(false);
+  const { pending, failed, isSyncing, retry, discard } = useOfflineQueue();
 
   useEffect(() => {
     function handleOnline() {
@@ -23,15 +26,58 @@ export default function NetworkStatus() {
     };
   }, []);
 
-  if (isOnline) {
+  if (isOnline && pending.length === 0 && failed.length === 0) {
     return null;
   }
 
+  const pendingText = pending.length > 0
+    ? `${pending.length} change${pending.length !== 1 ? 's' : ''} waiting to sync`
+    : null;
+
   return (
     <div className="fixed top-0 left-0 right-0 z-50 bg-amber-50 border-b border-amber-200 px-4 py-2 text-center">
       <p className="text-sm font-medium text-amber-800">
-        You are offline. Some features may not be available.
+        {!isOnline
+          ? `You are offline. ${pendingText ? `${pendingText}.` : 'Changes you make will be saved and synced later.'}`
+          : isSyncing && pendingText
+            ? `Syncing — ${pendingText}...`
+            : pendingText}
+        {failed.length > 0 && (
+          <button
+            onClick={() => setShowFailed((v) => !v)}
+            className="ml-3 text-red-700 underline hover:text-red-800"
+          >
+            {failed.length} failed to sync
+          </button>
+        )}
       </p>
+
+      {showFailed && failed.length > 0 && (
+        <ul className="mt-2 mx-auto max-w-xl space-y-1 text-left">
+          {failed.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-3 bg-white border border-red-200 rounded px-3 py-1.5">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900 truncate">{entry.label}</p>
+                <p className="text-xs text-red-600 truncate">{entry.error}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => retry(entry.id!)}
+                  className="text-xs font-medium text-primary-700 hover:underline"
+                >
+                  {entry.conflict ? 'Overwrite' : 'Retry'}
+                </button>
+                <button
+                  onClick={() => discard(entry.id!)}
+                  className="text-xs font-medium text-gray-500 hover:underline"
+                >
+                  Discard
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
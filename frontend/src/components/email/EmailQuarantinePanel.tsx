@@ -0,0 +1,81 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useQuarantinedEmails, useReviewQuarantinedEmail } from '../../hooks/useEmailQuarantine';
+import Card, { CardBody, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+
+interface EmailQuarantinePanelProps {
+  projectId: string;
+}
+
+/**
+ * Email replies from addresses other than the task's assigned contractor.
+ * Hidden when nothing is waiting for review.
+ */
+export default function EmailQuarantinePanel({ projectId }: EmailQuarantinePanelProps) {
+  const { data: emails = [] } = useQuarantinedEmails(projectId);
+  const review = useReviewQuarantinedEmail(projectId);
+
+  if (emails.length === 0) return null;
+
+  return (
+    <Card className="mb-4 border-amber-200">
+      <CardHeader className="bg-amber-50">
+        <h3 className="text-sm font-semibold text-amber-900">
+          Email replies awaiting review ({emails.length})
+        </h3>
+        <p className="text-xs text-amber-700 mt-0.5">
+          These replies came from an address that is not assigned to the task.
+        </p>
+      </CardHeader>
+      <CardBody className="divide-y divide-gray-100 p-0">
+        {emails.map((email: any) => (
+          <div key={email.id} className="px-6 py-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">{email.from_email}</span>
+                  {' on '}
+                  <Link to={`/projects/${projectId}/tasks/${email.task_id}`} className="text-primary-600 hover:underline">
+                    #{email.task_number} {email.task_title}
+                  </Link>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {format(new Date(email.created_at), 'yyyy-MM-dd HH:mm')}
+                  {email.assigned_to_contractor_email && ` · assigned to ${email.assigned_to_contractor_email}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {email.command === 'complete' && <Badge variant="green">asks to complete</Badge>}
+                {email.attachments?.length > 0 && (
+                  <Badge variant="gray">{email.attachments.length} photo{email.attachments.length !== 1 ? 's' : ''}</Badge>
+                )}
+              </div>
+            </div>
+            {email.body_text && (
+              <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap line-clamp-4">{email.body_text}</p>
+            )}
+            <div className="mt-2 flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => review.mutate({ entryId: email.id, action: 'approve' })}
+                disabled={review.isPending}
+              >
+                Post to task
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => review.mutate({ entryId: email.id, action: 'reject' })}
+                disabled={review.isPending}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardBody>
+    </Card>
+  );
+}
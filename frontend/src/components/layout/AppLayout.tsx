@@ -5,12 +5,14 @@ import TopBar from './TopBar';
 import { BugReporterProvider } from '../../lib/bug-reporter';
 import type { BugReportPayload } from '../../lib/bug-reporter';
 import { useCreateBugReport } from '../../hooks/useBugReports';
+import { useRealtime } from '../../hooks/useRealtime';
 import { useAuthStore } from '../../stores/authStore';
 
 export default function AppLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const createBugReport = useCreateBugReport();
   const user = useAuthStore((s) => s.user);
+  useRealtime(!!user);
 
   const handleBugSubmit = useCallback(async (payload: BugReportPayload) => {
     await createBugReport.mutateAsync({
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import clsx from 'clsx';
+import { useSearch, MIN_SEARCH_LENGTH } from '../../hooks/useSearch';
+import { HIGHLIGHT_START, HIGHLIGHT_END, type SearchResult } from '../../services/search.api';
+import Badge from '../ui/Badge';
+
+const TYPE_LABELS: Record<SearchResult['type'], { label: string; variant: 'gray' | 'blue' | 'green' | 'yellow' | 'purple' }> = {
+  task: { label: 'Task', variant: 'blue' },
+  comment: { label: 'Comment', variant: 'gray' },
+  note: { label: 'Note', variant: 'yellow' },
+  blueprint: { label: 'Blueprint', variant: 'purple' },
+  product: { label: 'Product', variant: 'green' },
+};
+
+function resultLink(result: SearchResult): string {
+  switch (result.type) {
+    case 'task':
+    case 'comment':
+      return `/projects/${result.project_id}/tasks/${result.task_id}`;
+    case 'product':
+      return '/products';
+    default:
+      return `/projects/${result.project_id}`;
+  }
+}
+
+/** Render a snippet with its matched words in <mark>, without trusting it as HTML. */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START);
+  return (
+    <>
+      {parts[0]}
+      {parts.slice(1).map((part, i) => {
+        const end = part.indexOf(HIGHLIGHT_END);
+        if (end === -1) return <span key={i}>{HIGHLIGHT_START}{part}</span>;
+        return (
+          <span key={i}>
+            <mark className="bg-yellow-100 text-gray-900 rounded-sm">{part.slice(0, end)}</mark>
+            {part.slice(end + HIGHLIGHT_END.length)}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+export default function GlobalSearch() {
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+  const [term, setTerm] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { data: results = [], isFetching } = useSearch(term);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setTerm(input), 250);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  function open(result: SearchResult) {
+    setIsOpen(false);
+    setInput('');
+    navigate(resultLink(result));
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      open(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  }
+
+  const showResults = isOpen && term.trim().length >= MIN_SEARCH_LENGTH;
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-md">
+      <input
+        type="search"
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search tasks, notes, products..."
+        aria-label="Search"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="global-search-results"
+        className="block w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:border-primary-500 focus:ring-primary-500"
+      />
+      {showResults && (
+        <div
+          id="global-search-results"
+          role="listbox"
+          className="absolute z-50 mt-1 w-full max-h-[28rem] overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg"
+        >
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">{isFetching ? 'Searching...' : 'No matches'}</p>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={`${result.type}-${result.id}`}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => open(result)}
+                className={clsx(
+                  'block w-full text-left px-4 py-2.5 border-b border-gray-100 last:border-b-0',
+                  index === activeIndex ? 'bg-gray-50' : 'bg-white',
+                )}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant={TYPE_LABELS[result.type].variant}>{TYPE_LABELS[result.type].label}</Badge>
+                  <span className="text-sm font-medium text-gray-900 truncate">
+                    {result.task_number != null && <span className="text-gray-500 font-mono">#{result.task_number} </span>}
+                    {result.title}
+                  </span>
+                </div>
+                <p className="mt-0.5 text-xs text-gray-600 line-clamp-2">
+                  <Snippet text={result.snippet} />
+                </p>
+                {result.project_name && <p className="mt-0.5 text-xs text-gray-400">{result.project_name}</p>}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
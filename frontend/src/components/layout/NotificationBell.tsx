@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+} from '../../hooks/useNotifications';
+import type { Notification } from '../../services/notification.api';
+
+export default function NotificationBell() {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { data } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  function open(notification: Notification) {
+    if (!notification.read_at) markRead.mutate(notification.id);
+    setIsOpen(false);
+    if (notification.link) navigate(notification.link);
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((v) => !v)}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+        className="relative p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+      >
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5} aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-[1.125rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 sm:w-96 rounded-lg border border-gray-200 bg-white shadow-lg">
+          <div className="flex items-center justify-between px-4 py-2.5 border-b border-gray-100">
+            <h2 className="text-sm font-semibold text-gray-900">Notifications</h2>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+                className="text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => open(notification)}
+                  className={clsx(
+                    'flex w-full gap-3 text-left px-4 py-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50',
+                    !notification.read_at && 'bg-primary-50/40',
+                  )}
+                >
+                  <span
+                    className={clsx(
+                      'mt-1.5 w-2 h-2 rounded-full shrink-0',
+                      notification.read_at ? 'bg-transparent' : 'bg-primary-500',
+                    )}
+                    aria-hidden="true"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-900">{notification.title}</span>
+                    {notification.body && (
+                      <span className="block mt-0.5 text-xs text-gray-600 line-clamp-2">{notification.body}</span>
+                    )}
+                    <span className="block mt-0.5 text-xs text-gray-400">
+                      {notification.project_name && `${notification.project_name} · `}
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useAuthStore } from '../../stores/authStore';
 import { UserRole } from '../../types';
 import { useBugReporter, BeetleIcon } from '../../lib/bug-reporter';
 import { useBugReportOpenCount } from '../../hooks/useBugReports';
+import { usePinnedViews } from '../../hooks/useSavedViews';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -13,6 +14,7 @@ interface SidebarProps {
 const navItems = [
   { to: '/projects', label: 'Projects', icon: FolderIcon },
   { to: '/my-tasks', label: 'My Tasks', icon: ClipboardIcon },
+  { to: '/mentions', label: 'Mentions', icon: AtIcon },
 ];
 
 const adminItems = [
@@ -21,6 +23,9 @@ const adminItems = [
   { to: '/products', label: 'Products', icon: PackageIcon },
   { to: '/admin/users', label: 'Users', icon: UsersIcon },
   { to: '/admin/form-builder', label: 'Form Builder', icon: FormIcon },
+  { to: '/admin/workflow', label: 'Workflow', icon: WorkflowIcon },
+  { to: '/admin/sla-rules', label: 'SLA Rules', icon: ClockIcon },
+  { to: '/admin/task-templates', label: 'Task Templates', icon: ChecklistIcon },
   { to: '/admin/backups', label: 'Backups', icon: DatabaseIcon },
   { to: '/admin/bug-reports', label: 'Bug Reports', icon: BeetleIcon },
   { to: '/admin/settings', label: 'Settings', icon: SettingsIcon },
@@ -31,6 +36,7 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
   const isAdmin = user?.role === UserRole.SUPER_ADMIN || user?.role === UserRole.ORG_ADMIN;
   const { openReportModal, isCapturing } = useBugReporter();
   const { data: openBugCount } = useBugReportOpenCount();
+  const { data: pinnedViews = [] } = usePinnedViews();
 
   return (
     <>
@@ -73,6 +79,30 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
               </NavLink>
             ))}
 
+            {pinnedViews.length > 0 && (
+              <>
+                <div className="pt-4 pb-2">
+                  <p className="px-3 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                    Pinned Views
+                  </p>
+                </div>
+                {pinnedViews.map((view) => (
+                  <NavLink
+                    key={view.id}
+                    to={`/projects/${view.project_id}?view=${view.id}`}
+                    onClick={onClose}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+                  >
+                    <StarIcon className="w-5 h-5 flex-shrink-0" />
+                    <span className="min-w-0">
+                      <span className="block truncate">{view.name}</span>
+                      <span className="block truncate text-xs font-normal text-gray-500">{view.project_name}</span>
+                    </span>
+                  </NavLink>
+                ))}
+              </>
+            )}
+
             {isAdmin && (
               <>
                 <div className="pt-4 pb-2">
@@ -148,6 +178,14 @@ function ClipboardIcon({ className }: { className?: string }) {
   );
 }
 
+function AtIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0zm0 0c0 1.657 1.007 3 2.25 3S21 13.657 21 12a9 9 0 10-2.636 6.364M16.5 12V8.25" />
+    </svg>
+  );
+}
+
 function UsersIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -189,6 +227,30 @@ function FormIcon({ className }: { className?: string }) {
   );
 }
 
+function WorkflowIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 21L3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" />
+    </svg>
+  );
+}
+
+function ClockIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  );
+}
+
+function ChecklistIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 6.75h12M8.25 12h12m-12 5.25h12M3.75 6.75h.007v.008H3.75V6.75zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zM3.75 12h.007v.008H3.75V12zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm-.375 5.25h.007v.008H3.75v-.008zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+    </svg>
+  );
+}
+
 function ReportIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -204,3 +266,11 @@ function DatabaseIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function StarIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z" />
+    </svg>
+  );
+}
@@ -1,6 +1,8 @@
 import { Link } from 'react-router-dom';
 import { useAuthStore } from '../../stores/authStore';
 import Button from '../ui/Button';
+import GlobalSearch from './GlobalSearch';
+import NotificationBell from './NotificationBell';
 
 interface TopBarProps {
   onMenuToggle: () => void;
@@ -22,10 +24,13 @@ export default function TopBar({ onMenuToggle }: TopBarProps) {
         </svg>
       </button>
 
-      <div className="flex-1 lg:ml-0" />
+      <div className="flex-1 px-3 lg:px-0 lg:ml-0">
+        <GlobalSearch />
+      </div>
 
       {/* User menu */}
       <div className="flex items-center gap-4">
+        <NotificationBell />
         <Link to="/profile" className="flex items-center gap-3 hover:opacity-80 transition-opacity">
           <div className="hidden sm:block text-right">
             <p className="text-sm font-medium text-gray-900">
@@ -0,0 +1,18 @@
+import { splitMentions } from './mentionTokens';
+
+/** Renders comment or note text with its @mentions highlighted. */
+export default function MentionText({ text }: { text: string }) {
+  return (
+    <>
+      {splitMentions(text).map((part, i) =>
+        part.kind === 'mention' ? (
+          <span key={i} className="font-medium text-primary-700 bg-primary-50 rounded px-0.5">
+            @{part.name}
+          </span>
+        ) : (
+          part.text
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,152 @@
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent, KeyboardEvent, TextareaHTMLAttributes } from 'react';
+import clsx from 'clsx';
+import { useMentionableUsers } from '../../hooks/useMentions';
+import type { MentionableUser } from '../../services/mention.api';
+import { decodeMentions, encodeMentions, mentionedNames } from './mentionTokens';
+
+const MAX_SUGGESTIONS = 6;
+// An @ at the start of a word, followed by what has been typed so far
+const QUERY_PATTERN = /(^|\s)@([^\s@]{0,30})$/;
+
+interface MentionTextareaProps extends Omit<TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  projectId: string;
+  /** Text with mention tokens, as stored on the server */
+  value: string;
+  onChange: (value: string, event?: ChangeEvent<HTMLTextAreaElement>) => void;
+}
+
+function fullName(user: MentionableUser): string {
+  return `${user.first_name} ${user.last_name}`;
+}
+
+/**
+ * Textarea with @mention autocomplete for the project's members. Mentions are
+ * shown as "@Name" while editing and passed to onChange as tokens.
+ */
+const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ projectId, value, onChange, onKeyDown, onBlur, className, ...props }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    useImperativeHandle(ref, () => textareaRef.current!);
+    const { data: users = [] } = useMentionableUsers(projectId);
+    const [query, setQuery] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    // Names already in the text keep their user even if the user has since left the project
+    const names = useMemo(() => {
+      const map = mentionedNames(value);
+      for (const user of users) map.set(fullName(user), user.id);
+      return map;
+    }, [users, value]);
+
+    const suggestions = useMemo(() => {
+      if (query === null) return [];
+      const q = query.toLowerCase();
+      return users
+        .filter((u) => fullName(u).toLowerCase().split(' ').some((part) => part.startsWith(q))
+          || u.email.toLowerCase().startsWith(q))
+        .slice(0, MAX_SUGGESTIONS);
+    }, [users, query]);
+
+    function updateQuery(textarea: HTMLTextAreaElement) {
+      const match = textarea.value.slice(0, textarea.selectionStart).match(QUERY_PATTERN);
+      setQuery(match ? match[2] : null);
+      setActiveIndex(0);
+    }
+
+    function handleChange(e: ChangeEvent<HTMLTextAreaElement>) {
+      onChange(encodeMentions(e.target.value, names), e);
+      updateQuery(e.target);
+    }
+
+    function insertMention(user: MentionableUser) {
+      const textarea = textareaRef.current;
+      if (!textarea || query === null) return;
+      const caret = textarea.selectionStart;
+      const start = caret - query.length - 1;
+      const mention = `@${fullName(user)} `;
+      const text = textarea.value.slice(0, start) + mention + textarea.value.slice(caret);
+      onChange(encodeMentions(text, new Map(names).set(fullName(user), user.id)));
+      setQuery(null);
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(start + mention.length, start + mention.length);
+      });
+    }
+
+    function handleKeyDown(e: KeyboardEvent<HTMLTextAreaElement>) {
+      if (suggestions.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setActiveIndex((i) => (i + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          insertMention(suggestions[activeIndex]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          setQuery(null);
+          return;
+        }
+      }
+      onKeyDown?.(e);
+    }
+
+    return (
+      <div className="relative flex-1">
+        <textarea
+          ref={textareaRef}
+          value={decodeMentions(value)}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateQuery(e.currentTarget)}
+          onBlur={(e) => {
+            setQuery(null);
+            onBlur?.(e);
+          }}
+          className={clsx(
+            'block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-0 focus:border-primary-500 focus:ring-primary-500 resize-none',
+            className,
+          )}
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          {...props}
+        />
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute z-20 left-0 mt-1 w-64 max-w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+          >
+            {suggestions.map((user, i) => (
+              <li
+                key={user.id}
+                role="option"
+                aria-selected={i === activeIndex}
+                // Keep focus in the textarea so the caret position is still known
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={clsx(
+                  'px-3 py-1.5 cursor-pointer',
+                  i === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700',
+                )}
+              >
+                <p className="text-sm font-medium truncate">{fullName(user)}</p>
+                <p className="text-xs text-gray-500 truncate">{user.email}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  },
+);
+
+MentionTextarea.displayName = 'MentionTextarea';
+export default MentionTextarea;
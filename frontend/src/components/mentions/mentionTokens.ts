@@ -0,0 +1,42 @@
+/**
+ * Mentions are stored as @[Display Name](userId) tokens inside comment and note
+ * text. Editors show them as plain "@Display Name" and encode them again on
+ * change; MentionText renders them as highlighted names.
+ */
+
+export const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([0-9a-fA-F-]{36})\)/g;
+
+export type MentionPart = { kind: 'text'; text: string } | { kind: 'mention'; name: string; userId: string };
+
+export function splitMentions(text: string): MentionPart[] {
+  const parts: MentionPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index > last) parts.push({ kind: 'text', text: text.slice(last, match.index) });
+    parts.push({ kind: 'mention', name: match[1], userId: match[2] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ kind: 'text', text: text.slice(last) });
+  return parts;
+}
+
+/** Display name → user id for every mention in the text. */
+export function mentionedNames(text: string): Map<string, string> {
+  return new Map([...text.matchAll(MENTION_PATTERN)].map((match) => [match[1], match[2]]));
+}
+
+export function decodeMentions(text: string): string {
+  return text.replace(MENTION_PATTERN, '@$1');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Turn "@Display Name" back into tokens for every known name, longest names first. */
+export function encodeMentions(text: string, names: Map<string, string>): string {
+  const sorted = [...names.keys()].filter(Boolean).sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return text;
+  const pattern = new RegExp(`@(${sorted.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`, 'gu');
+  return text.replace(pattern, (_match, name: string) => `@[${name}](${names.get(name)})`);
+}
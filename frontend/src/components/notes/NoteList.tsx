@@ -6,6 +6,8 @@ import Modal from '../ui/Modal';
 import Spinner from '../ui/Spinner';
 import EmptyState from '../ui/EmptyState';
 import Select from '../ui/Select';
+import MentionTextarea from '../mentions/MentionTextarea';
+import MentionText from '../mentions/MentionText';
 
 const SORT_OPTIONS = [
   { value: 'created', label: 'Date Created' },
@@ -13,6 +15,12 @@ const SORT_OPTIONS = [
   { value: 'author', label: 'Author' },
 ];
 
+function autosize(textarea: HTMLTextAreaElement | undefined | null) {
+  if (!textarea) return;
+  textarea.style.height = 'auto';
+  textarea.style.height = textarea.scrollHeight + 'px';
+}
+
 interface NoteListProps {
   projectId: string;
 }
@@ -125,8 +133,7 @@ function NoteCard({
   useEffect(() => {
     if (isEditing && textareaRef.current) {
       textareaRef.current.focus();
-      textareaRef.current.style.height = 'auto';
-      textareaRef.current.style.height = textareaRef.current.scrollHeight + 'px';
+      autosize(textareaRef.current);
     }
   }, [isEditing]);
 
@@ -153,15 +160,14 @@ function NoteCard({
     <div className="bg-white rounded-lg border border-gray-200 p-4 hover:border-gray-300 transition-colors">
       {isEditing ? (
         <div>
-          <textarea
+          <MentionTextarea
             ref={textareaRef}
+            projectId={projectId}
             value={editContent}
-            onChange={(e) => {
-              setEditContent(e.target.value);
-              e.target.style.height = 'auto';
-              e.target.style.height = e.target.scrollHeight + 'px';
+            onChange={(value, e) => {
+              setEditContent(value);
+              autosize(e?.target);
             }}
-            className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-0 focus:border-primary-500 focus:ring-primary-500 resize-none"
             rows={3}
           />
           <div className="flex justify-end gap-2 mt-3">
@@ -175,7 +181,7 @@ function NoteCard({
             className="text-sm text-gray-900 whitespace-pre-wrap cursor-pointer"
             onClick={onEdit}
           >
-            {note.content}
+            <MentionText text={note.content} />
           </div>
           <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
             <div className="flex items-center gap-3 text-xs text-gray-500">
@@ -246,17 +252,16 @@ function CreateNoteModal({
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
-          <textarea
+          <MentionTextarea
             ref={textareaRef}
+            projectId={projectId}
             value={content}
-            onChange={(e) => {
-              setContent(e.target.value);
-              e.target.style.height = 'auto';
-              e.target.style.height = e.target.scrollHeight + 'px';
+            onChange={(value, e) => {
+              setContent(value);
+              autosize(e?.target);
             }}
-            placeholder="Write your note..."
+            placeholder="Write your note... Type @ to mention someone"
             rows={4}
-            className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-0 focus:border-primary-500 focus:ring-primary-500 resize-none"
             required
           />
         </div>
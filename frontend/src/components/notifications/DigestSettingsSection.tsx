@@ -0,0 +1,95 @@
+import { useDigestSettings, useUpdateDigestSettings } from '../../hooks/useNotifications';
+import type { DigestSettings } from '../../services/notification.api';
+import Select from '../ui/Select';
+
+const FREQUENCY_OPTIONS = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const WEEKDAY_OPTIONS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+  .map((label, i) => ({ value: String(i + 1), label }));
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: `${String(hour).padStart(2, '0')}:00`,
+}));
+
+function timezoneOptions(current: string) {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  const all = zones.includes(current) ? zones : [current, ...zones];
+  return all.map((zone) => ({ value: zone, label: zone.replace(/_/g, ' ') }));
+}
+
+interface DigestSettingsSectionProps {
+  /** Some event types are set to the digest channel */
+  hasDigestEvents: boolean;
+}
+
+export default function DigestSettingsSection({ hasDigestEvents }: DigestSettingsSectionProps) {
+  const { data: settings } = useDigestSettings();
+  const updateSettings = useUpdateDigestSettings();
+
+  if (!settings) return null;
+
+  function update(changes: Partial<DigestSettings>) {
+    updateSettings.mutate({ ...settings!, ...changes });
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100">
+      <h3 className="text-sm font-semibold text-gray-900">Summary email</h3>
+      <p className="text-sm text-gray-500 mt-0.5 mb-3">
+        One email with your new assignments, tasks due or overdue, tasks awaiting verification, new comments and
+        signed protocols.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Select
+          label="Frequency"
+          id="digest-frequency"
+          value={settings.frequency}
+          options={FREQUENCY_OPTIONS}
+          disabled={updateSettings.isPending}
+          onChange={(e) => update({ frequency: e.target.value as DigestSettings['frequency'] })}
+        />
+        {settings.frequency === 'weekly' && (
+          <Select
+            label="Day"
+            id="digest-weekday"
+            value={String(settings.weekday)}
+            options={WEEKDAY_OPTIONS}
+            disabled={updateSettings.isPending}
+            onChange={(e) => update({ weekday: Number(e.target.value) })}
+          />
+        )}
+        {settings.frequency !== 'off' && (
+          <>
+            <Select
+              label="Time"
+              id="digest-hour"
+              value={String(settings.sendHour)}
+              options={HOUR_OPTIONS}
+              disabled={updateSettings.isPending}
+              onChange={(e) => update({ sendHour: Number(e.target.value) })}
+            />
+            <Select
+              label="Timezone"
+              id="digest-timezone"
+              value={settings.timezone}
+              options={timezoneOptions(settings.timezone)}
+              disabled={updateSettings.isPending}
+              onChange={(e) => update({ timezone: e.target.value })}
+            />
+          </>
+        )}
+      </div>
+      {settings.frequency === 'off' && hasDigestEvents && (
+        <p className="mt-2 text-sm text-amber-700">
+          Events set to the summary email only appear under the bell until you choose a frequency.
+        </p>
+      )}
+      {updateSettings.isError && <p className="mt-2 text-sm text-red-600">Failed to save the summary email schedule</p>}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useAuthStore } from '../../stores/authStore';
+import { useNotificationPreferences, useUpdateNotificationPreferences } from '../../hooks/useNotifications';
+import type { NotificationChannel, NotificationType } from '../../services/notification.api';
+import Card, { CardBody, CardHeader } from '../ui/Card';
+import Select from '../ui/Select';
+import Spinner from '../ui/Spinner';
+import DigestSettingsSection from './DigestSettingsSection';
+
+const EVENT_LABELS: { type: NotificationType; label: string; adminOnly?: boolean }[] = [
+  { type: 'task_assigned', label: 'A task is assigned to me' },
+  { type: 'task_status_changed', label: 'A task I created or am assigned changes status' },
+  { type: 'task_completed', label: 'A task in a project I manage is completed' },
+  { type: 'task_comment', label: 'Someone comments on my task' },
+  { type: 'mention', label: 'Someone mentions me' },
+  { type: 'task_unblocked', label: 'A task assigned to me is no longer blocked' },
+  { type: 'protocol_signed', label: 'A protocol I generated is signed' },
+  { type: 'backup_failed', label: 'A backup fails', adminOnly: true },
+];
+
+const CHANNEL_OPTIONS: { value: NotificationChannel; label: string }[] = [
+  { value: 'in_app', label: 'In-app only' },
+  { value: 'email', label: 'Email immediately' },
+  { value: 'digest', label: 'Summary email' },
+];
+
+export default function NotificationPreferencesCard() {
+  const { user } = useAuthStore();
+  const { data: preferences, isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const isAdmin = user?.role === 'org_admin' || user?.role === 'super_admin';
+  const events = EVENT_LABELS.filter((event) => !event.adminOnly || isAdmin);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <h2 className="font-semibold text-gray-900">Notifications</h2>
+        <p className="text-sm text-gray-500 mt-0.5">
+          Everything appears under the bell. Choose which events should also reach your inbox.
+        </p>
+      </CardHeader>
+      <CardBody>
+        {isLoading || !preferences ? (
+          <div className="flex justify-center py-4"><Spinner /></div>
+        ) : (
+          <div className="space-y-3">
+            {events.map((event) => (
+              <div key={event.type} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-4">
+                <label htmlFor={`notification-${event.type}`} className="text-sm text-gray-700">
+                  {event.label}
+                </label>
+                <div className="sm:w-48 shrink-0">
+                  <Select
+                    id={`notification-${event.type}`}
+                    value={preferences[event.type]}
+                    options={CHANNEL_OPTIONS}
+                    disabled={updatePreferences.isPending}
+                    onChange={(e) => updatePreferences.mutate({ [event.type]: e.target.value as NotificationChannel })}
+                  />
+                </div>
+              </div>
+            ))}
+            {updatePreferences.isError && (
+              <p className="text-sm text-red-600">Failed to save notification preferences</p>
+            )}
+            <DigestSettingsSection hasDigestEvents={events.some((event) => preferences[event.type] === 'digest')} />
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -25,6 +25,7 @@ export default function PhotoGallery({ projectId, taskId }: PhotoGalleryProps) {
     try {
       await uploadApi.deletePhoto(projectId, taskId, photoId);
       queryClient.invalidateQueries({ queryKey: ['photos', projectId, taskId] });
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
     } finally {
       setDeleting(null);
     }
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { usePortalLinks, useCreatePortalLink, useRevokePortalLink } from '../../hooks/useContractorPortal';
+
+interface ContractorLinksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  contractorEmails?: string[];
+}
+
+export default function ContractorLinksModal({
+  isOpen,
+  onClose,
+  projectId,
+  contractorEmails = [],
+}: ContractorLinksModalProps) {
+  const [email, setEmail] = useState('');
+  const [portalUrl, setPortalUrl] = useState<string | null>(null);
+
+  const { data: links = [] } = usePortalLinks(projectId);
+  const createLink = useCreatePortalLink(projectId);
+  const revokeLink = useRevokePortalLink(projectId);
+
+  const handleSend = async () => {
+    if (!email.trim()) return;
+    const result = await createLink.mutateAsync(email.trim());
+    setPortalUrl(result.portalUrl);
+    setEmail('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Contractor Links" size="lg">
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Send a contractor a link to the open tasks assigned to their email in this project.
+            They can view photos and locations, comment, upload photos and mark tasks completed without an account.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="email"
+              list="portal-contractor-emails"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="contractor@example.com"
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+            />
+            <datalist id="portal-contractor-emails">
+              {contractorEmails.map((e) => <option key={e} value={e} />)}
+            </datalist>
+            <Button size="sm" onClick={handleSend} loading={createLink.isPending} disabled={!email.trim()}>
+              Send Link
+            </Button>
+          </div>
+          {createLink.isError && (
+            <p className="text-sm text-red-600">{(createLink.error as Error).message}</p>
+          )}
+          {portalUrl && (
+            <div className="rounded-lg bg-green-50 border border-green-200 p-3">
+              <p className="text-sm text-green-700">Link sent. You can also share it directly:</p>
+              <p className="text-xs text-gray-600 break-all mt-1">{portalUrl}</p>
+            </div>
+          )}
+        </div>
+
+        {links.length > 0 && (
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Issued Links</h3>
+            <div className="space-y-2">
+              {links.map((link) => {
+                const expired = new Date(link.expires_at) < new Date();
+                return (
+                  <div key={link.id} className="flex items-center justify-between text-sm py-1">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {link.revoked_at ? (
+                        <Badge variant="red">Revoked</Badge>
+                      ) : expired ? (
+                        <Badge variant="gray">Expired</Badge>
+                      ) : (
+                        <Badge variant="green">Active</Badge>
+                      )}
+                      <span className="text-gray-700 truncate">{link.contractor_email}</span>
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {link.last_used_at
+                          ? `opened ${formatDistanceToNow(new Date(link.last_used_at), { addSuffix: true })}`
+                          : 'not opened yet'}
+                      </span>
+                    </div>
+                    {!link.revoked_at && !expired && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeLink.mutate(link.id)}
+                        disabled={revokeLink.isPending}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import {
+  useProjectMembers,
+  useProjectMemberCandidates,
+  useAddProjectMember,
+  useUpdateProjectMember,
+  useRemoveProjectMember,
+} from '../../hooks/useProjects';
+import { useAuthStore } from '../../stores/authStore';
+import { ProjectRole } from '../../types';
+import Card, { CardBody, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import Badge from '../ui/Badge';
+import Spinner from '../ui/Spinner';
+import EmptyState from '../ui/EmptyState';
+
+const ROLE_OPTIONS = [
+  { value: ProjectRole.MANAGER, label: 'Manager' },
+  { value: ProjectRole.MEMBER, label: 'Member' },
+  { value: ProjectRole.VIEWER, label: 'Viewer' },
+];
+
+interface ProjectMembersPanelProps {
+  projectId: string;
+  /** Managers can add, remove and change the role of members */
+  canManage: boolean;
+}
+
+/**
+ * Who can see the project. Org admins are not listed unless added; they
+ * always have access.
+ */
+export default function ProjectMembersPanel({ projectId, canManage }: ProjectMembersPanelProps) {
+  const currentUser = useAuthStore((s) => s.user);
+  const { data: members = [], isLoading } = useProjectMembers(projectId);
+  const { data: candidates = [] } = useProjectMemberCandidates(projectId, canManage);
+  const addMember = useAddProjectMember(projectId);
+  const updateMember = useUpdateProjectMember(projectId);
+  const removeMember = useRemoveProjectMember(projectId);
+
+  const [userId, setUserId] = useState('');
+  const [role, setRole] = useState<ProjectRole>(ProjectRole.MEMBER);
+  const [error, setError] = useState('');
+
+  function showError(err: any, fallback: string) {
+    setError(err.response?.data?.error?.message || fallback);
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!userId) return;
+    setError('');
+    try {
+      await addMember.mutateAsync({ userId, role });
+      setUserId('');
+      setRole(ProjectRole.MEMBER);
+    } catch (err: any) {
+      showError(err, 'Failed to add member');
+    }
+  }
+
+  async function handleRoleChange(memberUserId: string, nextRole: ProjectRole) {
+    setError('');
+    try {
+      await updateMember.mutateAsync({ userId: memberUserId, role: nextRole });
+    } catch (err: any) {
+      showError(err, 'Failed to change role');
+    }
+  }
+
+  async function handleRemove(member: { user_id: string; first_name: string; last_name: string }) {
+    const self = member.user_id === currentUser?.userId;
+    const question = self
+      ? 'Remove yourself from this project? You will lose access to it.'
+      : `Remove ${member.first_name} ${member.last_name} from this project?`;
+    if (!confirm(question)) return;
+    setError('');
+    try {
+      await removeMember.mutateAsync(member.user_id);
+    } catch (err: any) {
+      showError(err, 'Failed to remove member');
+    }
+  }
+
+  if (isLoading) {
+    return <div className="flex justify-center py-12"><Spinner /></div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-sm font-semibold text-gray-900">Members ({members.length})</h3>
+        <p className="text-xs text-gray-500 mt-0.5">
+          Only members see this project. Viewers can read everything but change nothing; managers run the project.
+        </p>
+      </CardHeader>
+      <CardBody className="p-0">
+        {canManage && (
+          <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3 px-6 py-4 border-b border-gray-100">
+            <Select
+              label="Add user"
+              options={candidates.map((u) => ({ value: u.id, label: `${u.first_name} ${u.last_name} (${u.email})` }))}
+              placeholder={candidates.length === 0 ? 'Everyone is already a member' : 'Select a user...'}
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              className="min-w-[260px]"
+            />
+            <Select
+              label="Role"
+              options={ROLE_OPTIONS}
+              value={role}
+              onChange={(e) => setRole(e.target.value as ProjectRole)}
+              className="max-w-[140px]"
+            />
+            <Button type="submit" loading={addMember.isPending} disabled={!userId}>Add</Button>
+          </form>
+        )}
+        {error && <p className="px-6 pt-3 text-sm text-red-600">{error}</p>}
+
+        {members.length === 0 ? (
+          <EmptyState title="No members" description="Add users so they can see and work on this project." />
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {members.map((member) => (
+              <li key={member.user_id} className="flex items-center justify-between gap-4 px-6 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {member.first_name} {member.last_name}
+                    {!member.is_active && <span className="ml-2 text-xs font-normal text-gray-400">(inactive)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">{member.email}</p>
+                </div>
+                {canManage ? (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Select
+                      options={ROLE_OPTIONS}
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member.user_id, e.target.value as ProjectRole)}
+                      disabled={updateMember.isPending}
+                      className="max-w-[130px]"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant={member.role === ProjectRole.MANAGER ? 'blue' : 'gray'}>{member.role}</Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
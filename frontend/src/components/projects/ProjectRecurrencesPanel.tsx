@@ -0,0 +1,381 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  useTaskRecurrences,
+  useRecurrencePreview,
+  useCreateTaskRecurrence,
+  useUpdateTaskRecurrence,
+  useDeleteTaskRecurrence,
+} from '../../hooks/useTaskRecurrences';
+import { useTaskTemplates } from '../../hooks/useTaskTemplates';
+import { useProjectMembers } from '../../hooks/useProjects';
+import Card, { CardBody, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Modal from '../ui/Modal';
+import Badge from '../ui/Badge';
+import Spinner from '../ui/Spinner';
+import EmptyState from '../ui/EmptyState';
+import type { TaskRecurrence } from '../../types';
+import {
+  WEEKDAYS, ORDINALS, buildRule, describeRule, parseRuleFields,
+} from './recurrenceRule';
+import type { RecurrenceFrequency, RuleFields } from './recurrenceRule';
+
+const FREQUENCY_OPTIONS = [
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'YEARLY', label: 'Yearly' },
+  { value: 'CUSTOM', label: 'Custom rule (RRULE)' },
+];
+
+function formatDay(day: string): string {
+  return format(new Date(`${day}T00:00:00`), 'EEE, MMM d, yyyy');
+}
+
+interface ProjectRecurrencesPanelProps {
+  projectId: string;
+  /** Managers set up, pause and remove recurrences */
+  canManage: boolean;
+}
+
+/** Inspections and checks that are recreated from a task template on a schedule. */
+export default function ProjectRecurrencesPanel({ projectId, canManage }: ProjectRecurrencesPanelProps) {
+  const { data: recurrences = [], isLoading } = useTaskRecurrences(projectId);
+  const updateRecurrence = useUpdateTaskRecurrence(projectId);
+  const deleteRecurrence = useDeleteTaskRecurrence(projectId);
+  // null: closed; undefined recurrence: creating
+  const [editing, setEditing] = useState<{ recurrence?: TaskRecurrence } | null>(null);
+  const [error, setError] = useState('');
+
+  async function handleToggle(recurrence: TaskRecurrence) {
+    setError('');
+    try {
+      await updateRecurrence.mutateAsync({ id: recurrence.id, data: { isActive: !recurrence.is_active } });
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to update recurrence');
+    }
+  }
+
+  async function handleDelete(recurrence: TaskRecurrence) {
+    if (!confirm(`Stop recreating "${recurrence.template_name}"? Tasks already created are kept.`)) return;
+    setError('');
+    try {
+      await deleteRecurrence.mutateAsync(recurrence.id);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to delete recurrence');
+    }
+  }
+
+  if (isLoading) {
+    return <div className="flex justify-center py-12"><Spinner /></div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Recurring tasks ({recurrences.length})</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Safety rounds, cleaning checks and inspections are created from their template on schedule.
+            </p>
+          </div>
+          {canManage && <Button size="sm" onClick={() => setEditing({})}>New Recurrence</Button>}
+        </div>
+      </CardHeader>
+      <CardBody className="p-0">
+        {error && <p className="px-6 pt-3 text-sm text-red-600">{error}</p>}
+        {recurrences.length === 0 ? (
+          <EmptyState title="No recurring tasks" description="Set one up for inspections that come round on a schedule." />
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Template</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Schedule</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Next</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Assignee</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last task</th>
+                {canManage && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {recurrences.map((recurrence) => (
+                <tr key={recurrence.id} className={recurrence.is_active ? '' : 'bg-gray-50'}>
+                  <td className="px-4 py-2 text-sm">
+                    <p className="text-gray-900 font-medium">{recurrence.template_name}</p>
+                    {recurrence.template_trade && <p className="text-gray-500">{recurrence.template_trade}</p>}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <p className="text-gray-900">{describeRule(recurrence.rule)}</p>
+                    <p className="text-xs text-gray-500">from {formatDay(recurrence.starts_on)}</p>
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {!recurrence.is_active ? (
+                      <Badge variant="gray">Paused</Badge>
+                    ) : recurrence.next_occurrence_on ? (
+                      <>
+                        <p className="text-gray-900">{formatDay(recurrence.next_occurrence_on)}</p>
+                        {recurrence.upcoming_occurrences.length > 1 && (
+                          <p className="text-xs text-gray-500">
+                            then {recurrence.upcoming_occurrences.slice(1).map((d) => format(new Date(`${d}T00:00:00`), 'MMM d')).join(', ')}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <Badge variant="gray">Ended</Badge>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {recurrence.assignee_first_name
+                      ? `${recurrence.assignee_first_name} ${recurrence.assignee_last_name}`
+                      : <span className="text-gray-400">Unassigned</span>}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {recurrence.last_task_id ? (
+                      <Link
+                        to={`/projects/${projectId}/tasks/${recurrence.last_task_id}`}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        #{recurrence.last_task_number}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-400">None yet</span>
+                    )}
+                    {recurrence.last_skipped_on && (
+                      <p className="text-xs text-yellow-700">
+                        Skipped {format(new Date(`${recurrence.last_skipped_on}T00:00:00`), 'MMM d')}: previous still open
+                      </p>
+                    )}
+                  </td>
+                  {canManage && (
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing({ recurrence })}>Edit</Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleToggle(recurrence)} disabled={updateRecurrence.isPending}>
+                        {recurrence.is_active ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(recurrence)}>Delete</Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardBody>
+
+      {editing && (
+        <RecurrenceModal projectId={projectId} recurrence={editing.recurrence} onClose={() => setEditing(null)} />
+      )}
+    </Card>
+  );
+}
+
+function RecurrenceModal({ projectId, recurrence, onClose }: {
+  projectId: string;
+  recurrence?: TaskRecurrence;
+  onClose: () => void;
+}) {
+  const { data: templates = [] } = useTaskTemplates();
+  const { data: members = [] } = useProjectMembers(projectId);
+  const createRecurrence = useCreateTaskRecurrence(projectId);
+  const updateRecurrence = useUpdateTaskRecurrence(projectId);
+
+  const initialFields = recurrence ? parseRuleFields(recurrence.rule) : null;
+  const [templateId, setTemplateId] = useState(recurrence?.template_id || '');
+  const [startsOn, setStartsOn] = useState(recurrence?.starts_on || format(new Date(), 'yyyy-MM-dd'));
+  const [assignedToUser, setAssignedToUser] = useState(recurrence?.assigned_to_user || '');
+  const [skipIfOpen, setSkipIfOpen] = useState(recurrence?.skip_if_open ?? true);
+  const [custom, setCustom] = useState(!!recurrence && !initialFields);
+  const [customRule, setCustomRule] = useState(recurrence?.rule || '');
+  const [fields, setFields] = useState<RuleFields>(
+    initialFields || { freq: 'WEEKLY', interval: 1, weekdays: ['MO'], monthlyWeekday: null },
+  );
+  const [error, setError] = useState('');
+
+  const rule = custom ? customRule.trim() : buildRule(fields);
+  const preview = useRecurrencePreview(projectId, rule, startsOn);
+  const ruleError = (preview.error as any)?.response?.data?.error?.details?.rule as string | undefined;
+
+  function updateFields(changes: Partial<RuleFields>) {
+    setFields((prev) => ({ ...prev, ...changes }));
+  }
+
+  function toggleWeekday(weekday: string) {
+    updateFields({
+      weekdays: fields.weekdays.includes(weekday)
+        ? fields.weekdays.filter((d) => d !== weekday)
+        : [...fields.weekdays, weekday],
+    });
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    const data = { templateId, rule, startsOn, assignedToUser: assignedToUser || null, skipIfOpen };
+    try {
+      if (recurrence) {
+        await updateRecurrence.mutateAsync({ id: recurrence.id, data });
+      } else {
+        await createRecurrence.mutateAsync(data);
+      }
+      onClose();
+    } catch (err: any) {
+      const details = err.response?.data?.error?.details;
+      setError((details && Object.values(details)[0] as string) || err.response?.data?.error?.message || 'Failed to save recurrence');
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose} title={recurrence ? 'Edit Recurrence' : 'New Recurrence'} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Select
+          label="Task template"
+          options={templates.map((t) => ({ value: t.id, label: t.trade ? `${t.trade}: ${t.name}` : t.name }))}
+          placeholder={templates.length === 0 ? 'No task templates yet' : 'Select a template...'}
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+          required
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            label="Repeats"
+            options={FREQUENCY_OPTIONS}
+            value={custom ? 'CUSTOM' : fields.freq}
+            onChange={(e) => {
+              if (e.target.value === 'CUSTOM') {
+                setCustomRule(rule);
+                setCustom(true);
+              } else {
+                setCustom(false);
+                updateFields({ freq: e.target.value as RecurrenceFrequency });
+              }
+            }}
+          />
+          {custom ? (
+            <Input
+              label="Rule"
+              value={customRule}
+              onChange={(e) => setCustomRule(e.target.value)}
+              placeholder="FREQ=MONTHLY;BYMONTHDAY=1,15"
+              className="font-mono"
+            />
+          ) : (
+            <Input
+              label="Every"
+              type="number"
+              min={1}
+              max={366}
+              value={fields.interval}
+              onChange={(e) => updateFields({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            />
+          )}
+        </div>
+
+        {!custom && fields.freq === 'WEEKLY' && (
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">On</p>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((day) => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleWeekday(day.value)}
+                  className={`rounded-full border px-3 py-1 text-xs ${
+                    fields.weekdays.includes(day.value)
+                      ? 'border-primary-600 bg-primary-50 text-primary-700'
+                      : 'border-gray-300 text-gray-600 hover:border-gray-400'
+                  }`}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!custom && fields.freq === 'MONTHLY' && (
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="On"
+              options={[{ value: '', label: 'The start date\'s day of the month' }, ...ORDINALS]}
+              value={fields.monthlyWeekday?.nth || ''}
+              onChange={(e) => updateFields({
+                monthlyWeekday: e.target.value
+                  ? { nth: e.target.value, weekday: fields.monthlyWeekday?.weekday || 'MO' }
+                  : null,
+              })}
+            />
+            {fields.monthlyWeekday && (
+              <Select
+                label="Weekday"
+                options={WEEKDAYS.map((d) => ({ value: d.value, label: d.name }))}
+                value={fields.monthlyWeekday.weekday}
+                onChange={(e) => updateFields({ monthlyWeekday: { ...fields.monthlyWeekday!, weekday: e.target.value } })}
+              />
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Starts on"
+            type="date"
+            value={startsOn}
+            onChange={(e) => setStartsOn(e.target.value)}
+            required
+          />
+          <Select
+            label="Assign to"
+            options={members.map((m) => ({ value: m.user_id, label: `${m.first_name} ${m.last_name}` }))}
+            placeholder="Nobody"
+            value={assignedToUser}
+            onChange={(e) => setAssignedToUser(e.target.value)}
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={skipIfOpen}
+            onChange={(e) => setSkipIfOpen(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Skip an occurrence while the previous task is still open
+        </label>
+
+        <div className="rounded-lg bg-gray-50 px-4 py-3 text-sm">
+          {ruleError ? (
+            <p className="text-red-600">{ruleError}</p>
+          ) : preview.data && preview.data.length > 0 ? (
+            <>
+              <p className="font-medium text-gray-700">{describeRule(rule)}. Next:</p>
+              <p className="text-gray-600">{preview.data.map(formatDay).join(' · ')}</p>
+            </>
+          ) : preview.data ? (
+            <p className="text-gray-600">This rule has no more occurrences.</p>
+          ) : (
+            <p className="text-gray-500">Working out the next dates...</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" type="button" onClick={onClose}>Cancel</Button>
+          <Button
+            type="submit"
+            loading={createRecurrence.isPending || updateRecurrence.isPending}
+            disabled={!templateId || !rule || !!ruleError}
+          >
+            {recurrence ? 'Save Recurrence' : 'Create Recurrence'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * The recurrence form edits common rules field by field and falls back to the
+ * raw RRULE for anything else. The server is the authority on what a rule means.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export const WEEKDAYS = [
+  { value: 'MO', label: 'Mon', name: 'Monday' },
+  { value: 'TU', label: 'Tue', name: 'Tuesday' },
+  { value: 'WE', label: 'Wed', name: 'Wednesday' },
+  { value: 'TH', label: 'Thu', name: 'Thursday' },
+  { value: 'FR', label: 'Fri', name: 'Friday' },
+  { value: 'SA', label: 'Sat', name: 'Saturday' },
+  { value: 'SU', label: 'Sun', name: 'Sunday' },
+];
+
+export const ORDINALS = [
+  { value: '1', label: 'first' },
+  { value: '2', label: 'second' },
+  { value: '3', label: 'third' },
+  { value: '4', label: 'fourth' },
+  { value: '-1', label: 'last' },
+];
+
+const UNITS: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+export interface RuleFields {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekly rules: weekday codes such as MO */
+  weekdays: string[];
+  /** Monthly rules: the nth weekday of the month, or null for the start date's day */
+  monthlyWeekday: { nth: string; weekday: string } | null;
+}
+
+export function buildRule(fields: RuleFields): string {
+  const parts = [`FREQ=${fields.freq}`];
+  if (fields.interval > 1) parts.push(`INTERVAL=${fields.interval}`);
+  if (fields.freq === 'WEEKLY' && fields.weekdays.length > 0) {
+    const ordered = WEEKDAYS.map((d) => d.value).filter((d) => fields.weekdays.includes(d));
+    parts.push(`BYDAY=${ordered.join(',')}`);
+  }
+  if (fields.freq === 'MONTHLY' && fields.monthlyWeekday) {
+    parts.push(`BYDAY=${fields.monthlyWeekday.nth}${fields.monthlyWeekday.weekday}`);
+  }
+  return parts.join(';');
+}
+
+function ruleParts(rule: string): Map<string, string> {
+  const parts = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    parts.set(key.toUpperCase(), (value || '').toUpperCase());
+  }
+  return parts;
+}
+
+/** The form fields for a rule, or null when only the raw rule can express it. */
+export function parseRuleFields(rule: string): RuleFields | null {
+  const parts = ruleParts(rule);
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !(freq in UNITS)) return null;
+  if ([...parts.keys()].some((key) => !['FREQ', 'INTERVAL', 'BYDAY'].includes(key))) return null;
+
+  const interval = parseInt(parts.get('INTERVAL') || '1', 10);
+  const byDay = parts.get('BYDAY')?.split(',') ?? [];
+  const fields: RuleFields = { freq, interval: interval > 0 ? interval : 1, weekdays: [], monthlyWeekday: null };
+
+  if (freq === 'WEEKLY' && byDay.every((d) => WEEKDAYS.some((w) => w.value === d))) {
+    fields.weekdays = byDay;
+  } else if (freq === 'MONTHLY' && byDay.length === 1) {
+    const match = /^(-1|[1-4])(MO|TU|WE|TH|FR|SA|SU)$/.exec(byDay[0]);
+    if (!match) return null;
+    fields.monthlyWeekday = { nth: match[1], weekday: match[2] };
+  } else if (byDay.length > 0) {
+    return null;
+  }
+  return fields;
+}
+
+/** A sentence such as "Every 2 weeks on Mon, Thu"; the raw rule when it is not a common one. */
+export function describeRule(rule: string): string {
+  const fields = parseRuleFields(rule);
+  if (!fields) return rule;
+
+  const unit = UNITS[fields.freq];
+  let text = fields.interval > 1 ? `Every ${fields.interval} ${unit}s` : `Every ${unit}`;
+  if (fields.weekdays.length > 0) {
+    text += ` on ${WEEKDAYS.filter((d) => fields.weekdays.includes(d.value)).map((d) => d.label).join(', ')}`;
+  }
+  if (fields.monthlyWeekday) {
+    const ordinal = ORDINALS.find((o) => o.value === fields.monthlyWeekday!.nth)?.label;
+    const weekday = WEEKDAYS.find((d) => d.value === fields.monthlyWeekday!.weekday)?.name;
+    text += ` on the ${ordinal} ${weekday}`;
+  }
+  return text;
+}
@@ -9,7 +9,7 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
   import.meta.url,
 ).toString();
 
-const statusColors: Record<string, string> = {
+const DEFAULT_STATUS_COLORS: Record<string, string> = {
   open: '#ef4444',
   in_progress: '#eab308',
   completed: '#22c55e',
@@ -26,6 +26,7 @@ interface BlueprintReportViewProps {
   pdfUrl: string;
   annotations: Annotation[];
   taskMarkers?: TaskMarkerGroup[];
+  statusColors?: Record<string, string>; // workflow status key → hex colour
 }
 
 interface RenderedPage {
@@ -40,6 +41,7 @@ export default function BlueprintReportView({
   pdfUrl,
   annotations,
   taskMarkers = [],
+  statusColors = DEFAULT_STATUS_COLORS,
 }: BlueprintReportViewProps) {
   const [pages, setPages] = useState<RenderedPage[]>([]);
   const [loading, setLoading] = useState(true);
@@ -149,7 +151,7 @@ export default function BlueprintReportView({
               />
               {/* Annotation overlays */}
               {pageAnnotations.map((ann) => {
-                const color = statusColors[ann.status] || '#6b7280';
+                const color = statusColors[ann.status] || DEFAULT_STATUS_COLORS[ann.status] || '#6b7280';
                 return (
                   <div
                     key={ann.taskId}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useBulkTasks } from '../../hooks/useTasks';
+import { useProjectMembers } from '../../hooks/useProjects';
+import { useWorkflow } from '../../hooks/useWorkflow';
+import { useCustomFieldDefinitions } from '../../hooks/useCustomFields';
+import { uploadApi } from '../../services/upload.api';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import CustomFieldsRenderer from '../common/CustomFieldsRenderer';
+import type { BulkTaskChanges, BulkTaskRequest } from '../../services/task.api';
+import type { BulkTaskResponse } from '../../types';
+
+type BulkAction = 'status' | 'assignee' | 'contractor' | 'priority' | 'trade' | 'blueprint' | 'customField' | 'delete';
+
+const PRIORITY_OPTIONS = [
+  { value: 'low', label: 'Low' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+];
+
+interface BulkActionBarProps {
+  projectId: string;
+  /** Either the explicitly selected tasks or the filter that selects them */
+  selection: Pick<BulkTaskRequest, 'taskIds' | 'filter'>;
+  count: number;
+  canDelete: boolean;
+  onClear: () => void;
+}
+
+export default function BulkActionBar({ projectId, selection, count, canDelete, onClear }: BulkActionBarProps) {
+  const bulkTasks = useBulkTasks(projectId);
+  const { data: workflow } = useWorkflow();
+  const { data: members = [] } = useProjectMembers(projectId);
+  const { data: cfDefinitions = [] } = useCustomFieldDefinitions('task');
+  const { data: blueprints = [] } = useQuery({
+    queryKey: ['blueprints', projectId],
+    queryFn: () => uploadApi.listBlueprints(projectId),
+  });
+
+  const [action, setAction] = useState<BulkAction | ''>('');
+  const [value, setValue] = useState('');
+  const [statusComment, setStatusComment] = useState('');
+  const [fieldKey, setFieldKey] = useState('');
+  const [fieldValue, setFieldValue] = useState<unknown>(undefined);
+  const [result, setResult] = useState<BulkTaskResponse | null>(null);
+  const [error, setError] = useState('');
+
+  const actionOptions = [
+    { value: 'status', label: 'Change status' },
+    { value: 'assignee', label: 'Assign to user' },
+    { value: 'contractor', label: 'Assign to contractor' },
+    { value: 'priority', label: 'Set priority' },
+    { value: 'trade', label: 'Set trade' },
+    { value: 'blueprint', label: 'Link blueprint' },
+    ...(cfDefinitions.length > 0 ? [{ value: 'customField', label: 'Set custom field' }] : []),
+    ...(canDelete ? [{ value: 'delete', label: 'Delete' }] : []),
+  ];
+  const selectedField = cfDefinitions.find((d) => d.fieldKey === fieldKey);
+
+  function changeAction(next: BulkAction | '') {
+    setAction(next);
+    setValue('');
+    setStatusComment('');
+    setFieldKey('');
+    setFieldValue(undefined);
+    setResult(null);
+    setError('');
+  }
+
+  function buildChanges(): BulkTaskChanges | null {
+    switch (action) {
+      case 'status':
+        return value ? { status: value, statusComment: statusComment || undefined } : null;
+      case 'assignee':
+        return { assignedToUser: value || null };
+      case 'contractor':
+        return { assignedToContractorEmail: value.trim() || null };
+      case 'priority':
+        return value ? { priority: value } : null;
+      case 'trade':
+        return { trade: value.trim() || null };
+      case 'blueprint':
+        return { blueprintId: value || null };
+      case 'customField':
+        return fieldKey ? { customFields: { [fieldKey]: fieldValue ?? null } } : null;
+      default:
+        return null;
+    }
+  }
+
+  async function handleApply() {
+    setError('');
+    setResult(null);
+    if (!action) return;
+
+    let request: BulkTaskRequest;
+    if (action === 'delete') {
+      if (!confirm(`Delete ${count} task${count !== 1 ? 's' : ''}? This cannot be undone.`)) return;
+      request = { ...selection, action: 'delete' };
+    } else {
+      const changes = buildChanges();
+      if (!changes) {
+        setError('Choose a value to apply');
+        return;
+      }
+      request = { ...selection, action: 'update', changes };
+    }
+
+    try {
+      const response = await bulkTasks.mutateAsync(request);
+      setResult(response);
+      if (response.summary.failed === 0) {
+        changeAction('');
+        onClear();
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Bulk update failed');
+    }
+  }
+
+  return (
+    <div className="sticky bottom-0 z-10 mt-3 p-3 bg-white border border-gray-200 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-end gap-3">
+        <span className="text-sm font-medium text-gray-900 py-2">{count} selected</span>
+        <Select
+          options={actionOptions}
+          placeholder="Choose action..."
+          value={action}
+          onChange={(e) => changeAction(e.target.value as BulkAction | '')}
+          className="max-w-[190px]"
+        />
+
+        {action === 'status' && (
+          <>
+            <Select
+              options={(workflow?.statuses || []).map((s) => ({ value: s.key, label: s.label }))}
+              placeholder="Status"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="max-w-[160px]"
+            />
+            <Input
+              placeholder="Comment (optional)"
+              value={statusComment}
+              onChange={(e) => setStatusComment(e.target.value)}
+              className="max-w-xs"
+            />
+          </>
+        )}
+        {action === 'assignee' && (
+          <Select
+            options={members.filter((m) => m.is_active).map((m) => ({ value: m.user_id, label: `${m.first_name} ${m.last_name}` }))}
+            placeholder="Unassigned"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="max-w-[200px]"
+          />
+        )}
+        {action === 'contractor' && (
+          <Input
+            type="email"
+            placeholder="Contractor email (empty to remove)"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="max-w-xs"
+          />
+        )}
+        {action === 'priority' && (
+          <Select
+            options={PRIORITY_OPTIONS}
+            placeholder="Priority"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="max-w-[140px]"
+          />
+        )}
+        {action === 'trade' && (
+          <Input
+            placeholder="Trade (empty to clear)"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="max-w-[200px]"
+          />
+        )}
+        {action === 'blueprint' && (
+          <Select
+            options={blueprints.map((bp: any) => ({ value: bp.id, label: bp.name }))}
+            placeholder="No blueprint"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="max-w-[200px]"
+          />
+        )}
+        {action === 'customField' && (
+          <Select
+            options={cfDefinitions.map((d) => ({ value: d.fieldKey, label: d.label }))}
+            placeholder="Field"
+            value={fieldKey}
+            onChange={(e) => {
+              setFieldKey(e.target.value);
+              setFieldValue(undefined);
+            }}
+            className="max-w-[180px]"
+          />
+        )}
+
+        <Button
+          onClick={handleApply}
+          loading={bulkTasks.isPending}
+          disabled={!action}
+          variant={action === 'delete' ? 'danger' : 'primary'}
+        >
+          Apply
+        </Button>
+        <Button variant="ghost" onClick={onClear}>Clear selection</Button>
+      </div>
+
+      {selectedField && (
+        <div className="mt-3 max-w-sm">
+          <CustomFieldsRenderer
+            definitions={[selectedField]}
+            values={{ [selectedField.fieldKey]: fieldValue }}
+            onChange={(_key, val) => setFieldValue(val)}
+          />
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {result && result.summary.failed > 0 && (
+        <div className="mt-3 rounded-lg bg-red-50 border border-red-200 p-3">
+          <p className="text-sm text-red-700 font-medium">
+            {result.summary.succeeded} of {result.summary.total} tasks updated. {result.summary.failed} failed:
+          </p>
+          <ul className="mt-1 max-h-32 overflow-y-auto">
+            {result.results.filter((r) => !r.success).map((r) => (
+              <li key={r.taskId} className="text-xs text-red-700">
+                {r.taskNumber !== null ? `#${r.taskNumber}` : 'Unknown task'}: {r.error?.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+interface ChecklistProgressProps {
+  checked: number;
+  total: number;
+}
+
+export default function ChecklistProgress({ checked, total }: ChecklistProgressProps) {
+  const percent = total > 0 ? Math.round((checked / total) * 100) : 0;
+  return (
+    <div className="flex items-center gap-1.5" title={`Checklist: ${checked} of ${total} done`}>
+      <div className="w-16 bg-gray-200 rounded-full h-1.5">
+        <div
+          className={`h-1.5 rounded-full transition-all ${checked === total ? 'bg-green-500' : 'bg-primary-600'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="text-xs text-gray-500">{checked}/{total}</span>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import {
+  useSavedViews,
+  useCreateSavedView,
+  useUpdateSavedView,
+  useDeleteSavedView,
+  useTogglePinnedView,
+} from '../../hooks/useSavedViews';
+import { useAuthStore } from '../../stores/authStore';
+import type { SavedView } from '../../types';
+import type { TaskFilterValues } from '../../services/task.api';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Modal from '../ui/Modal';
+import Select from '../ui/Select';
+
+interface SavedViewsMenuProps {
+  projectId: string;
+  activeViewId?: string;
+  /** Whether the filters on screen differ from the active view's */
+  isModified: boolean;
+  filters: TaskFilterValues;
+  /** Project managers may share views and look after shared ones */
+  isProjectManager: boolean;
+  /** Viewers can use views but not save or pin them */
+  canSave: boolean;
+  onSelect: (view: SavedView | null) => void;
+}
+
+export default function SavedViewsMenu({
+  projectId,
+  activeViewId,
+  isModified,
+  filters,
+  isProjectManager,
+  canSave,
+  onSelect,
+}: SavedViewsMenuProps) {
+  const user = useAuthStore((s) => s.user);
+  const { data: views = [] } = useSavedViews(projectId);
+  const createView = useCreateSavedView(projectId);
+  const updateView = useUpdateSavedView(projectId);
+  const deleteView = useDeleteSavedView(projectId);
+  const togglePinned = useTogglePinnedView(projectId);
+  const [showSave, setShowSave] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+
+  const activeView = views.find((v) => v.id === activeViewId);
+  const canModify = canSave && !!activeView && (activeView.user_id === user?.userId || (activeView.is_shared && isProjectManager));
+
+  const options = [
+    { value: '', label: 'All tasks' },
+    ...views.map((v) => ({ value: v.id, label: v.is_shared ? `${v.name} (shared)` : v.name })),
+  ];
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    createView.mutate({ name, filters, isShared }, {
+      onSuccess: (view) => {
+        setShowSave(false);
+        setName('');
+        setIsShared(false);
+        onSelect(view);
+      },
+    });
+  }
+
+  function handleDelete() {
+    if (!activeView || !confirm(`Delete the view "${activeView.name}"?`)) return;
+    deleteView.mutate(activeView.id, { onSuccess: () => onSelect(null) });
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        options={options}
+        value={activeViewId || ''}
+        onChange={(e) => onSelect(views.find((v) => v.id === e.target.value) || null)}
+        aria-label="Saved view"
+        className="max-w-[220px]"
+      />
+      {activeView && canSave && (
+        <button
+          type="button"
+          onClick={() => togglePinned.mutate({ viewId: activeView.id, pinned: !activeView.is_pinned })}
+          className={activeView.is_pinned ? 'text-yellow-500 hover:text-yellow-600' : 'text-gray-400 hover:text-gray-600'}
+          title={activeView.is_pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+          aria-pressed={activeView.is_pinned}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+            <path fillRule="evenodd" d="M10.868 2.884c-.321-.772-1.415-.772-1.736 0l-1.83 4.401-4.753.381c-.833.067-1.171 1.107-.536 1.651l3.62 3.102-1.106 4.637c-.194.813.691 1.456 1.405 1.02L10 15.591l4.069 2.485c.713.436 1.598-.207 1.404-1.02l-1.106-4.637 3.62-3.102c.635-.544.297-1.584-.536-1.65l-4.752-.382-1.831-4.401z" clipRule="evenodd" />
+          </svg>
+        </button>
+      )}
+      {activeView && canModify && isModified && (
+        <Button
+          variant="secondary"
+          size="sm"
+          loading={updateView.isPending}
+          onClick={() => updateView.mutate({ viewId: activeView.id, filters })}
+        >
+          Update view
+        </Button>
+      )}
+      {canSave && (
+        <Button variant="ghost" size="sm" onClick={() => setShowSave(true)}>
+          Save view
+        </Button>
+      )}
+      {activeView && canModify && (
+        <Button variant="ghost" size="sm" onClick={handleDelete} loading={deleteView.isPending}>
+          Delete view
+        </Button>
+      )}
+
+      <Modal isOpen={showSave} onClose={() => setShowSave(false)} title="Save View" size="sm">
+        <form onSubmit={handleSave} className="space-y-4">
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            required
+          />
+          {isProjectManager && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isShared}
+                onChange={(e) => setIsShared(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Share with everyone on the project
+            </label>
+          )}
+          {createView.isError && <p className="text-sm text-red-600">Failed to save view</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" type="button" onClick={() => setShowSave(false)}>Cancel</Button>
+            <Button type="submit" loading={createView.isPending}>Save</Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
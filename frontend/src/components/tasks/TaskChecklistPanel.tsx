@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+  useTaskChecklist, useAddChecklistItems, useSetChecklistItemChecked, useDeleteChecklistItem,
+} from '../../hooks/useTaskChecklist';
+import { useTaskTemplates } from '../../hooks/useTaskTemplates';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import Card, { CardBody, CardHeader } from '../ui/Card';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Spinner from '../ui/Spinner';
+import ChecklistProgress from './ChecklistProgress';
+import type { ChecklistItem } from '../../types';
+
+interface TaskChecklistPanelProps {
+  projectId: string;
+  taskId: string;
+  canEdit: boolean;
+  /** Removing a required item lets the task be completed without it */
+  canRemoveRequired: boolean;
+}
+
+export default function TaskChecklistPanel({ projectId, taskId, canEdit, canRemoveRequired }: TaskChecklistPanelProps) {
+  const { data: items = [], isLoading } = useTaskChecklist(projectId, taskId);
+  const { data: templates = [] } = useTaskTemplates();
+  const addItems = useAddChecklistItems(projectId, taskId);
+  const setChecked = useSetChecklistItemChecked(projectId, taskId);
+  const deleteItem = useDeleteChecklistItem(projectId, taskId);
+  const [text, setText] = useState('');
+  const [isRequired, setIsRequired] = useState(false);
+
+  const checkedCount = items.filter((i) => i.checked_at).length;
+  const templateOptions = templates
+    .filter((t) => t.checklist_items.length > 0)
+    .map((t) => ({ value: t.id, label: t.trade ? `${t.trade}: ${t.name}` : t.name }));
+  const error = addItems.error || setChecked.error || deleteItem.error;
+
+  async function handleAdd() {
+    if (!text.trim()) return;
+    await addItems.mutateAsync({ text: text.trim(), isRequired });
+    setText('');
+    setIsRequired(false);
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="font-semibold text-gray-900">Checklist</h2>
+          {items.length > 0 && <ChecklistProgress checked={checkedCount} total={items.length} />}
+        </div>
+      </CardHeader>
+      <CardBody>
+        {isLoading ? (
+          <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">No checklist items.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {items.map((item) => (
+              <ChecklistRow
+                key={item.id}
+                item={item}
+                disabled={!canEdit || setChecked.isPending}
+                onToggle={(checked) => setChecked.mutate({ itemId: item.id, checked })}
+                onRemove={canEdit && (!item.is_required || canRemoveRequired) ? () => deleteItem.mutate(item.id) : undefined}
+              />
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="mt-2 text-sm text-red-600">{(error as Error).message}</p>}
+
+        {canEdit && (
+          <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAdd();
+                  }
+                }}
+                placeholder="Add a checklist item"
+              />
+              <label className="inline-flex items-center gap-1.5 text-sm text-gray-600 flex-shrink-0">
+                <input
+                  type="checkbox"
+                  checked={isRequired}
+                  onChange={(e) => setIsRequired(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Required
+              </label>
+              <Button size="sm" onClick={handleAdd} disabled={!text.trim()} loading={addItems.isPending}>Add</Button>
+            </div>
+            {templateOptions.length > 0 && (
+              <Select
+                options={templateOptions}
+                placeholder="Add the checklist of a template..."
+                value=""
+                onChange={(e) => e.target.value && addItems.mutate({ templateId: e.target.value })}
+              />
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+function ChecklistRow({ item, disabled, onToggle, onRemove }: {
+  item: ChecklistItem;
+  disabled: boolean;
+  onToggle: (checked: boolean) => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <li className="flex items-start gap-3 py-2">
+      <input
+        type="checkbox"
+        checked={!!item.checked_at}
+        disabled={disabled}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        aria-label={item.text}
+      />
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm ${item.checked_at ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+          {item.text}
+          {item.is_required && !item.checked_at && <>{' '}<Badge variant="red">Required</Badge></>}
+        </p>
+        {item.checked_at && (
+          <p className="text-xs text-gray-500">
+            {item.checked_by_first_name ? `${item.checked_by_first_name} ${item.checked_by_last_name}` : 'Unknown'}
+            {', '}{format(new Date(item.checked_at), 'MMM d, yyyy HH:mm')}
+          </p>
+        )}
+      </div>
+      {onRemove && (
+        <button onClick={onRemove} className="text-gray-400 hover:text-red-500 text-sm" title="Remove item">
+          &times;
+        </button>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useProjects } from '../../hooks/useProjects';
+import { useDuplicateTask, useMoveTask } from '../../hooks/useTasks';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+import Select from '../ui/Select';
+
+interface TaskCopyModalProps {
+  mode: 'duplicate' | 'move' | null;
+  projectId: string;
+  taskId: string;
+  onClose: () => void;
+}
+
+const descriptions = {
+  duplicate: 'The copy starts in the initial status with the products, checklist, comments, photos and attachments of this task. '
+    + 'Blueprint links and annotations are only kept within the same project.',
+  move: 'The task gets the next number in the other project; links to its current number lead there. '
+    + 'Blueprint links, annotations and task relations are removed, as is an assignee who is not a member there.',
+};
+
+/** Duplicate the task into any project, or move it to another one, then open the result. */
+export default function TaskCopyModal({ mode, projectId, taskId, onClose }: TaskCopyModalProps) {
+  const navigate = useNavigate();
+  const { data: projectsData } = useProjects({ status: 'active', limit: 200 });
+  const duplicateTask = useDuplicateTask(projectId);
+  const moveTask = useMoveTask(projectId);
+  const [targetProjectId, setTargetProjectId] = useState('');
+  const [error, setError] = useState('');
+
+  const projects: Array<{ id: string; name: string }> = projectsData?.data?.projects || [];
+  const projectOptions = projects
+    .filter((p) => mode === 'duplicate' || p.id !== projectId)
+    .map((p) => ({ value: p.id, label: p.id === projectId ? `${p.name} (this project)` : p.name }));
+  const target = targetProjectId || (mode === 'duplicate' ? projectId : '');
+
+  function handleClose() {
+    setTargetProjectId('');
+    setError('');
+    onClose();
+  }
+
+  async function handleSubmit() {
+    if (!mode || !target) return;
+    setError('');
+    try {
+      const task = mode === 'duplicate'
+        ? await duplicateTask.mutateAsync({ taskId, targetProjectId: target })
+        : await moveTask.mutateAsync({ taskId, targetProjectId: target });
+      handleClose();
+      navigate(`/projects/${task.project_id}/tasks/${task.id}`);
+    } catch (err: any) {
+      const details = err.response?.data?.error?.details;
+      setError((details?.projectId as string) || err.response?.data?.error?.message || `Failed to ${mode} task`);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={!!mode}
+      onClose={handleClose}
+      title={mode === 'move' ? 'Move Task to Project' : 'Duplicate Task'}
+      size="md"
+    >
+      {mode && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">{descriptions[mode]}</p>
+          <Select
+            label={mode === 'move' ? 'Move to' : 'Copy into'}
+            options={projectOptions}
+            placeholder="Select a project"
+            value={target}
+            onChange={(e) => setTargetProjectId(e.target.value)}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={handleClose}>Cancel</Button>
+            <Button
+              onClick={handleSubmit}
+              loading={duplicateTask.isPending || moveTask.isPending}
+              disabled={!target}
+            >
+              {mode === 'move' ? 'Move' : 'Duplicate'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
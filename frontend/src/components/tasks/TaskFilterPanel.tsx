@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import clsx from 'clsx';
+import { useProjectMembers } from '../../hooks/useProjects';
+import { useWorkflow } from '../../hooks/useWorkflow';
+import { useCustomFieldDefinitions } from '../../hooks/useCustomFields';
+import { uploadApi } from '../../services/upload.api';
+import type { CustomFieldOperator, CustomFieldPredicate, TaskFilterValues } from '../../services/task.api';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+
+const PRIORITY_OPTIONS = [
+  { value: 'low', label: 'Low' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+];
+
+const OPERATOR_OPTIONS: { value: CustomFieldOperator; label: string }[] = [
+  { value: 'eq', label: 'is' },
+  { value: 'neq', label: 'is not' },
+  { value: 'contains', label: 'contains' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'empty', label: 'is empty' },
+  { value: 'not_empty', label: 'is not empty' },
+];
+
+const DATE_RANGES = [
+  { label: 'Created', from: 'createdFrom', to: 'createdTo' },
+  { label: 'Completed', from: 'completedFrom', to: 'completedTo' },
+  { label: 'Verified', from: 'verifiedFrom', to: 'verifiedTo' },
+] as const;
+
+interface TaskFilterPanelProps {
+  projectId: string;
+  filters: TaskFilterValues;
+  onChange: (filters: TaskFilterValues) => void;
+}
+
+export default function TaskFilterPanel({ projectId, filters, onChange }: TaskFilterPanelProps) {
+  const { data: workflow } = useWorkflow();
+  const { data: members = [] } = useProjectMembers(projectId);
+  const { data: cfDefinitions = [] } = useCustomFieldDefinitions('task');
+  const { data: blueprints = [] } = useQuery({
+    queryKey: ['blueprints', projectId],
+    queryFn: () => uploadApi.listBlueprints(projectId),
+  });
+  // Trades are free text; keep the raw input so typing a comma doesn't get swallowed
+  const [tradeText, setTradeText] = useState((filters.trade || []).join(', '));
+
+  function set<K extends keyof TaskFilterValues>(key: K, value: TaskFilterValues[K]) {
+    const next = { ...filters };
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  }
+
+  function toggle(key: 'status' | 'priority' | 'assignee' | 'blueprintId', value: string) {
+    const current = filters[key] || [];
+    set(key, current.includes(value) ? current.filter((v) => v !== value) : [...current, value]);
+  }
+
+  const predicates = filters.customFields || [];
+  function setPredicate(index: number, predicate: CustomFieldPredicate | null) {
+    const next = [...predicates];
+    if (predicate) next[index] = predicate;
+    else next.splice(index, 1);
+    set('customFields', next);
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white p-4 mb-4 space-y-4">
+      <FilterRow label="Status">
+        {(workflow?.statuses || []).map((s) => (
+          <Chip key={s.key} active={!!filters.status?.includes(s.key)} onClick={() => toggle('status', s.key)}>
+            {s.label}
+          </Chip>
+        ))}
+      </FilterRow>
+
+      <FilterRow label="Priority">
+        {PRIORITY_OPTIONS.map((p) => (
+          <Chip key={p.value} active={!!filters.priority?.includes(p.value)} onClick={() => toggle('priority', p.value)}>
+            {p.label}
+          </Chip>
+        ))}
+      </FilterRow>
+
+      <FilterRow label="Assignee">
+        <Chip active={!!filters.assignee?.includes('me')} onClick={() => toggle('assignee', 'me')}>
+          Me
+        </Chip>
+        {members.map((m) => (
+          <Chip key={m.user_id} active={!!filters.assignee?.includes(m.user_id)} onClick={() => toggle('assignee', m.user_id)}>
+            {m.first_name} {m.last_name}
+          </Chip>
+        ))}
+      </FilterRow>
+
+      {blueprints.length > 0 && (
+        <FilterRow label="Blueprint">
+          {blueprints.map((bp: any) => (
+            <Chip key={bp.id} active={!!filters.blueprintId?.includes(bp.id)} onClick={() => toggle('blueprintId', bp.id)}>
+              {bp.name}
+            </Chip>
+          ))}
+        </FilterRow>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Input
+          label="Trades"
+          placeholder="Electrical, Plumbing"
+          value={tradeText}
+          onChange={(e) => setTradeText(e.target.value)}
+          onBlur={() => set('trade', tradeText.split(',').map((t) => t.trim()).filter(Boolean))}
+        />
+        <Input
+          label="Contractor email"
+          type="email"
+          value={filters.contractorEmail || ''}
+          onChange={(e) => set('contractorEmail', e.target.value || undefined)}
+        />
+        <Select
+          label="Photos"
+          options={[
+            { value: '', label: 'Any' },
+            { value: 'true', label: 'With photos' },
+            { value: 'false', label: 'Without photos' },
+          ]}
+          value={filters.hasPhotos === undefined ? '' : String(filters.hasPhotos)}
+          onChange={(e) => set('hasPhotos', e.target.value === '' ? undefined : e.target.value === 'true')}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {DATE_RANGES.map((range) => (
+          <div key={range.label}>
+            <p className="block text-sm font-medium text-gray-700 mb-1">{range.label}</p>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                aria-label={`${range.label} from`}
+                value={filters[range.from] || ''}
+                onChange={(e) => set(range.from, e.target.value || undefined)}
+              />
+              <span className="text-gray-400">–</span>
+              <Input
+                type="date"
+                aria-label={`${range.label} until`}
+                value={filters[range.to] || ''}
+                onChange={(e) => set(range.to, e.target.value || undefined)}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {cfDefinitions.length > 0 && (
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">Custom fields</p>
+          <div className="space-y-2">
+            {predicates.map((predicate, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  options={cfDefinitions.map((d) => ({ value: d.fieldKey, label: d.label }))}
+                  value={predicate.key}
+                  onChange={(e) => setPredicate(index, { ...predicate, key: e.target.value })}
+                  className="max-w-[200px]"
+                />
+                <Select
+                  options={OPERATOR_OPTIONS}
+                  value={predicate.op}
+                  onChange={(e) => setPredicate(index, { ...predicate, op: e.target.value as CustomFieldOperator })}
+                  className="max-w-[140px]"
+                />
+                {predicate.op !== 'empty' && predicate.op !== 'not_empty' && (
+                  <Input
+                    value={predicate.value ?? ''}
+                    onChange={(e) => setPredicate(index, { ...predicate, value: e.target.value })}
+                    className="max-w-[200px]"
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setPredicate(index, null)}
+                  className="text-sm text-gray-400 hover:text-red-600"
+                  aria-label="Remove condition"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setPredicate(predicates.length, { key: cfDefinitions[0].fieldKey, op: 'eq', value: '' })}
+              className="text-sm text-primary-600 hover:text-primary-800"
+            >
+              + Add condition
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FilterRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="block text-sm font-medium text-gray-700 mb-1">{label}</p>
+      <div className="flex flex-wrap gap-1.5">{children}</div>
+    </div>
+  );
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={clsx(
+        'px-2.5 py-1 rounded-full text-xs font-medium border transition-colors',
+        active
+          ? 'bg-primary-50 border-primary-300 text-primary-700'
+          : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50',
+      )}
+    >
+      {children}
+    </button>
+  );
+}
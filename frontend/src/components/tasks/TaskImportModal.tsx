@@ -0,0 +1,136 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { taskApi } from '../../services/task.api';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+
+interface TaskImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+type ImportResult =
+  | { created: number; updated: number; errors?: undefined }
+  | { errors: { row: number; messages: string[] }[] };
+
+export default function TaskImportModal({ isOpen, onClose, projectId }: TaskImportModalProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  function handleClose() {
+    setResult(null);
+    setUpdateExisting(false);
+    onClose();
+  }
+
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    setImporting(true);
+    setResult(null);
+    try {
+      const imported = await taskApi.importTasks(projectId, file, updateExisting ? 'update' : 'create');
+      setResult(imported);
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['task', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+    } catch (err) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const errors = (err as any)?.response?.data?.error?.details?.errors;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const message = (err as any)?.response?.data?.error?.message;
+      setResult({
+        errors: errors || [{ row: 0, messages: [message || 'Failed to import file. Make sure it is a valid .xlsx file.'] }],
+      });
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Tasks" size="md">
+      {result && !result.errors ? (
+        <div className="text-center py-4">
+          <div className="text-green-600 text-4xl font-bold mb-2">{result.created + result.updated}</div>
+          <p className="text-sm text-gray-600">
+            {result.created} task{result.created !== 1 ? 's' : ''} created, {result.updated} updated
+          </p>
+          <div className="flex justify-end mt-6">
+            <Button onClick={handleClose}>Close</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload a spreadsheet based on the task template or a previous export. Nothing is imported if any row
+            has an error.
+          </p>
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={updateExisting}
+              onChange={(e) => setUpdateExisting(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>
+              Update existing tasks
+              <span className="block text-xs text-gray-500">
+                Rows with a task number edit that task instead of creating a copy. Empty cells clear the value.
+              </span>
+            </span>
+          </label>
+
+          {result?.errors && (
+            <div>
+              <p className="text-sm text-gray-600 mb-3">
+                Fix the following errors in your spreadsheet and try again:
+              </p>
+              <div className="max-h-64 overflow-y-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {result.errors.map((err, i) => (
+                      <tr key={i}>
+                        <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{err.row || '-'}</td>
+                        <td className="px-3 py-2 text-red-600">{err.messages.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2">
+            <Button variant="ghost" onClick={() => taskApi.downloadTemplate(projectId)}>
+              Download template
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={handleClose}>Cancel</Button>
+              <Button onClick={() => fileInputRef.current?.click()} loading={importing}>
+                Choose File
+              </Button>
+            </div>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+        </div>
+      )}
+    </Modal>
+  );
+}
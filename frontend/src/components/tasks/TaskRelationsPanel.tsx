@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTasks } from '../../hooks/useTasks';
+import { useTaskRelations, useCreateTaskRelation, useDeleteTaskRelation } from '../../hooks/useTaskRelations';
+import type { NewTaskRelationType, TaskRelation, TaskRelationType } from '../../services/taskRelation.api';
+import Button from '../ui/Button';
+import Card, { CardBody, CardHeader } from '../ui/Card';
+import Select from '../ui/Select';
+import Spinner from '../ui/Spinner';
+import StatusBadge from '../ui/StatusBadge';
+import type { WorkflowStatus } from '../../types';
+
+interface TaskRelationsPanelProps {
+  projectId: string;
+  taskId: string;
+  statuses?: WorkflowStatus[];
+  canEdit: boolean;
+}
+
+const typeLabels: Record<TaskRelationType, string> = {
+  blocked_by: 'Blocked by',
+  blocks: 'Blocks',
+  duplicates: 'Duplicates',
+  duplicated_by: 'Duplicated by',
+  relates_to: 'Relates to',
+};
+
+const typeOptions: { value: NewTaskRelationType; label: string }[] = [
+  { value: 'blocked_by', label: 'Blocked by' },
+  { value: 'blocks', label: 'Blocks' },
+  { value: 'duplicates', label: 'Duplicates' },
+  { value: 'relates_to', label: 'Relates to' },
+];
+
+const DONE_CATEGORIES = ['completed', 'verified'];
+
+export default function TaskRelationsPanel({ projectId, taskId, statuses, canEdit }: TaskRelationsPanelProps) {
+  const { data: relations = [], isLoading } = useTaskRelations(projectId, taskId);
+  const createRelation = useCreateTaskRelation(projectId, taskId);
+  const deleteRelation = useDeleteTaskRelation(projectId, taskId);
+  const [adding, setAdding] = useState(false);
+  const [type, setType] = useState<NewTaskRelationType>('blocked_by');
+  const [relatedTaskId, setRelatedTaskId] = useState('');
+
+  // Only loaded while the add form is open
+  const { data: taskData } = useTasks(adding ? projectId : '', { limit: 1000 });
+  const taskOptions = ((taskData?.data?.tasks || []) as any[])
+    .filter((t) => t.id !== taskId)
+    .map((t) => ({ value: t.id, label: `#${t.task_number} ${t.title}` }));
+
+  const grouped = (Object.keys(typeLabels) as TaskRelationType[])
+    .map((t) => ({ type: t, relations: relations.filter((r) => r.type === t) }))
+    .filter((g) => g.relations.length > 0);
+
+  async function handleAdd() {
+    await createRelation.mutateAsync({ type, taskId: relatedTaskId });
+    setRelatedTaskId('');
+    setAdding(false);
+  }
+
+  function closeForm() {
+    setAdding(false);
+    setRelatedTaskId('');
+    createRelation.reset();
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-gray-900">Related Tasks ({relations.length})</h2>
+          {canEdit && !adding && (
+            <Button size="sm" onClick={() => setAdding(true)}>Add Relation</Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardBody>
+        {adding && (
+          <div className="mb-4 space-y-2">
+            <div className="flex gap-2">
+              <div className="w-40 shrink-0">
+                <Select
+                  options={typeOptions}
+                  value={type}
+                  onChange={(e) => setType(e.target.value as NewTaskRelationType)}
+                />
+              </div>
+              <Select
+                options={taskOptions}
+                value={relatedTaskId}
+                onChange={(e) => setRelatedTaskId(e.target.value)}
+                placeholder="Choose task..."
+              />
+            </div>
+            {createRelation.isError && (
+              <p className="text-sm text-red-600">{(createRelation.error as Error).message}</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={closeForm}>Cancel</Button>
+              <Button size="sm" onClick={handleAdd} disabled={!relatedTaskId} loading={createRelation.isPending}>
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+        ) : grouped.length === 0 ? (
+          <p className="text-sm text-gray-500">No related tasks.</p>
+        ) : (
+          <div className="space-y-4">
+            {grouped.map((group) => (
+              <div key={group.type}>
+                <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">{typeLabels[group.type]}</h3>
+                <ul className="divide-y divide-gray-100">
+                  {group.relations.map((relation) => (
+                    <RelationRow
+                      key={relation.id}
+                      projectId={projectId}
+                      relation={relation}
+                      statuses={statuses}
+                      onRemove={canEdit ? () => deleteRelation.mutate(relation.id) : undefined}
+                    />
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+function RelationRow({ projectId, relation, statuses, onRemove }: {
+  projectId: string;
+  relation: TaskRelation;
+  statuses?: WorkflowStatus[];
+  onRemove?: () => void;
+}) {
+  const done = DONE_CATEGORIES.includes(relation.related_status_category);
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      <Link
+        to={`/projects/${projectId}/tasks/${relation.related_task_id}`}
+        className={`flex-1 min-w-0 truncate text-sm hover:text-primary-600 ${done ? 'text-gray-400 line-through' : 'text-gray-900'}`}
+      >
+        <span className="font-mono text-gray-400">#{relation.related_task_number}</span> {relation.related_title}
+      </Link>
+      <StatusBadge status={relation.related_status} statuses={statuses} />
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="text-gray-400 hover:text-red-500 text-sm"
+          title="Remove relation"
+        >
+          &times;
+        </button>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,194 @@
+import type { ReactNode } from 'react';
+import { format } from 'date-fns';
+import StatusBadge from '../ui/StatusBadge';
+import { dueDateLabel } from '../ui/DueDateBadge';
+import CommentThread from '../comments/CommentThread';
+import type { TaskComment } from '../../services/comment.api';
+import type { TaskHistoryEntry, TaskStatusMetrics, WorkflowStatus } from '../../types';
+
+interface TaskTimelineProps {
+  projectId: string;
+  taskId: string;
+  history: TaskHistoryEntry[];
+  comments: TaskComment[];
+  /** Lets project managers delete other people's comments */
+  canModerate: boolean;
+  metrics?: TaskStatusMetrics;
+  statuses?: WorkflowStatus[];
+  userNames: Record<string, string>;
+  blueprintNames: Record<string, string>;
+  customFieldLabels: Record<string, string>;
+}
+
+type TimelineItem =
+  | { kind: 'comment'; id: string; at: string; comment: TaskComment }
+  | { kind: 'change'; id: string; at: string; entry: TaskHistoryEntry };
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+function show(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+}
+
+function actorName(item: { user_first_name?: string; user_last_name?: string; external_email: string | null }): string {
+  return item.user_first_name
+    ? `${item.user_first_name} ${item.user_last_name}`
+    : item.external_email || 'Unknown';
+}
+
+export default function TaskTimeline({
+  projectId,
+  taskId,
+  history,
+  comments,
+  canModerate,
+  metrics,
+  statuses,
+  userNames,
+  blueprintNames,
+  customFieldLabels,
+}: TaskTimelineProps) {
+  // Replies sit under their comment; a deleted comment only stays to hold its replies
+  const repliesByParent = new Map<string, TaskComment[]>();
+  for (const c of comments) {
+    if (c.parent_id && !c.deleted_at) {
+      repliesByParent.set(c.parent_id, [...(repliesByParent.get(c.parent_id) || []), c]);
+    }
+  }
+  const threads = comments.filter((c) => !c.parent_id && (!c.deleted_at || repliesByParent.has(c.id)));
+
+  const items: TimelineItem[] = [
+    ...threads.map((c): TimelineItem => ({ kind: 'comment', id: c.id, at: c.created_at, comment: c })),
+    ...history.map((h): TimelineItem => ({ kind: 'change', id: h.id, at: h.created_at, entry: h })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  function describe(entry: TaskHistoryEntry): ReactNode {
+    const oldValue = entry.old_value as any;
+    const newValue = entry.new_value as any;
+
+    if (entry.field.startsWith('custom_fields.')) {
+      const key = entry.field.slice('custom_fields.'.length);
+      return <>changed {customFieldLabels[key] || key} from <b>{show(oldValue)}</b> to <b>{show(newValue)}</b></>;
+    }
+
+    switch (entry.field) {
+      case 'created':
+        return 'created the task';
+      case 'status':
+        return (
+          <>
+            changed status from <StatusBadge status={String(oldValue)} statuses={statuses} />
+            {' '}to <StatusBadge status={String(newValue)} statuses={statuses} />
+          </>
+        );
+      case 'description':
+        return 'updated the description';
+      case 'assigned_to_user':
+        return newValue
+          ? <>assigned the task to <b>{userNames[newValue] || 'a user'}</b></>
+          : <>removed <b>{userNames[oldValue] || 'a user'}</b> from the task</>;
+      case 'assigned_to_contractor_email':
+        return newValue
+          ? <>assigned contractor <b>{newValue}</b></>
+          : <>removed contractor <b>{oldValue}</b></>;
+      case 'blueprint_id':
+        return newValue
+          ? <>linked blueprint <b>{blueprintNames[newValue] || 'a blueprint'}</b></>
+          : 'unlinked the blueprint';
+      case 'due_date':
+        return newValue
+          ? <>set the due date to <b>{dueDateLabel(newValue)}</b></>
+          : 'removed the due date';
+      case 'location':
+        return 'moved the location pin';
+      case 'annotation':
+        if (!oldValue) return 'added an annotation';
+        if (!newValue) return 'removed the annotation';
+        return 'moved the annotation';
+      case 'annotation_markers':
+        return 'updated the blueprint markers';
+      case 'measurements':
+        return 'updated the blueprint measurements';
+      case 'photo':
+        return newValue ? 'added a photo' : 'removed a photo';
+      case 'project':
+        return (
+          <>
+            moved the task from <b>{oldValue.projectName} #{oldValue.taskNumber}</b>
+            {' '}to <b>{newValue.projectName} #{newValue.taskNumber}</b>
+          </>
+        );
+      case 'annotation_revision':
+        return (
+          <>
+            kept the annotation from revision <b>{oldValue?.label ?? '?'}</b>
+            {' '}on revision <b>{newValue?.label ?? '?'}</b>
+          </>
+        );
+      case 'product':
+        return newValue
+          ? <>linked product <b>{newValue.name}</b></>
+          : <>removed product <b>{oldValue.name || 'unknown'}</b></>;
+      default:
+        return <>changed {entry.field.replace(/_/g, ' ')} from <b>{show(oldValue)}</b> to <b>{show(newValue)}</b></>;
+    }
+  }
+
+  return (
+    <div>
+      {metrics && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500 mb-4">
+          {Object.entries(metrics.timeInStatus).map(([status, seconds]) => (
+            <span key={status} className="flex items-center gap-1">
+              <StatusBadge status={status} statuses={statuses} /> {formatDuration(seconds)}
+            </span>
+          ))}
+          {metrics.cycleTimeSeconds !== null && (
+            <span>Cycle time: <b className="text-gray-700">{formatDuration(metrics.cycleTimeSeconds)}</b></span>
+          )}
+          {metrics.leadTimeSeconds !== null && (
+            <span>Lead time: <b className="text-gray-700">{formatDuration(metrics.leadTimeSeconds)}</b></span>
+          )}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No activity yet</p>
+      ) : (
+        <div className="space-y-4 mb-4">
+          {items.map((item) => item.kind === 'comment' ? (
+            <CommentThread
+              key={`comment-${item.id}`}
+              projectId={projectId}
+              taskId={taskId}
+              comment={item.comment}
+              replies={repliesByParent.get(item.id) || []}
+              canModerate={canModerate}
+            />
+          ) : (
+            <div key={`change-${item.id}`} className="flex gap-3 items-center">
+              <div className="w-8 flex justify-center shrink-0">
+                <span className="w-2 h-2 rounded-full bg-gray-300" />
+              </div>
+              <p className="flex-1 min-w-0 text-xs text-gray-500">
+                <span className="font-medium text-gray-700">{actorName(item.entry)}</span>{' '}
+                {describe(item.entry)}
+                {item.entry.via && <> via {item.entry.via}</>}
+                <span className="text-gray-400"> · {format(new Date(item.at), 'MMM d, h:mm a')}</span>
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { format, parseISO } from 'date-fns';
+import Badge from './Badge';
+
+interface DueDateBadgeProps {
+  dueDate: string | null | undefined; // date column, serialised by the API as an ISO timestamp
+  daysOverdue?: number | null; // set by the API only for tasks still open past their due date
+  size?: 'sm' | 'md';
+}
+
+/** Calendar day of a due date, ignoring the time part the API serialises it with. */
+export function dueDateLabel(dueDate: string): string {
+  return format(parseISO(dueDate.slice(0, 10)), 'MMM d, yyyy');
+}
+
+export default function DueDateBadge({ dueDate, daysOverdue, size = 'sm' }: DueDateBadgeProps) {
+  if (!dueDate) return null;
+
+  if (daysOverdue) {
+    return (
+      <Badge variant="red" size={size}>
+        {daysOverdue} {daysOverdue === 1 ? 'day' : 'days'} overdue
+      </Badge>
+    );
+  }
+
+  return <Badge variant="gray" size={size}>Due {dueDateLabel(dueDate)}</Badge>;
+}
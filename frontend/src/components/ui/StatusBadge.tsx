@@ -0,0 +1,45 @@
+import Badge from './Badge';
+import type { WorkflowStatus } from '../../types';
+
+interface StatusBadgeProps {
+  status: string;
+  statuses?: WorkflowStatus[]; // organisation workflow; built-in labels and colours when omitted
+  size?: 'sm' | 'md';
+}
+
+// Palette colours render as the matching Badge variant so built-in statuses look unchanged
+const paletteVariants: Record<string, 'gray' | 'red' | 'yellow' | 'green' | 'blue' | 'purple'> = {
+  '#6b7280': 'gray',
+  '#ef4444': 'red',
+  '#eab308': 'yellow',
+  '#22c55e': 'green',
+  '#3b82f6': 'blue',
+  '#a855f7': 'purple',
+};
+
+const defaultColors: Record<string, string> = {
+  open: '#ef4444',
+  in_progress: '#eab308',
+  completed: '#22c55e',
+  verified: '#3b82f6',
+};
+
+export default function StatusBadge({ status, statuses, size = 'sm' }: StatusBadgeProps) {
+  const definition = statuses?.find((s) => s.key === status);
+  const label = definition?.label ?? status.replace(/_/g, ' ');
+  const color = (definition?.color ?? defaultColors[status] ?? '#6b7280').toLowerCase();
+
+  const variant = paletteVariants[color];
+  if (variant) {
+    return <Badge variant={variant} size={size}>{label}</Badge>;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center font-medium rounded-full ${size === 'sm' ? 'px-2 py-0.5 text-xs' : 'px-2.5 py-1 text-sm'}`}
+      style={{ backgroundColor: `${color}1f`, color }}
+    >
+      {label}
+    </span>
+  );
+}
@@ -7,14 +7,22 @@ import Input from '../ui/Input';
 
 interface BlueprintUploaderProps {
   projectId: string;
+  // Upload a new revision of this blueprint; it becomes the current revision
+  blueprintId?: string;
+  // Revisions of the older image blueprints are images as well
+  imageRevision?: boolean;
+  onUploaded?: () => void;
 }
 
 const MAX_BLUEPRINT_SIZE = 50 * 1024 * 1024; // 50 MB
 const ALLOWED_TYPES = ['application/pdf'];
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png'];
 
-export default function BlueprintUploader({ projectId }: BlueprintUploaderProps) {
+export default function BlueprintUploader({ projectId, blueprintId, imageRevision = false, onUploaded }: BlueprintUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [name, setName] = useState('');
+  const [label, setLabel] = useState('');
+  const isRevision = !!blueprintId;
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
   const queryClient = useQueryClient();
@@ -25,13 +33,20 @@ export default function BlueprintUploader({ projectId }: BlueprintUploaderProps)
         fileName: file.name,
         fileSize: file.size,
         mimeType: file.type,
-        name: name || file.name,
+        ...(isRevision ? { blueprintId, label: label || undefined } : { name: name || file.name }),
       });
-      return { uploadUrl: result.uploadUrl, resourceId: result.blueprintId };
+      return { uploadUrl: result.uploadUrl, resourceId: isRevision ? result.revisionId : result.blueprintId };
     },
-    onConfirm: async (blueprintId) => {
-      await uploadApi.confirmBlueprint(projectId, blueprintId);
+    onConfirm: async (resourceId) => {
+      if (isRevision) {
+        await uploadApi.confirmBlueprint(projectId, blueprintId, resourceId);
+        queryClient.invalidateQueries({ queryKey: ['tasks-by-blueprint', projectId, blueprintId] });
+        queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      } else {
+        await uploadApi.confirmBlueprint(projectId, resourceId);
+      }
       queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] });
+      onUploaded?.();
     },
   });
 
@@ -41,8 +56,8 @@ export default function BlueprintUploader({ projectId }: BlueprintUploaderProps)
 
     setValidationError(null);
 
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      setValidationError('Only PDF files are allowed');
+    if (!(imageRevision ? ALLOWED_IMAGE_TYPES : ALLOWED_TYPES).includes(file.type)) {
+      setValidationError(imageRevision ? 'Only JPEG and PNG images are allowed' : 'Only PDF files are allowed');
       return;
     }
     if (file.size > MAX_BLUEPRINT_SIZE) {
@@ -51,7 +66,7 @@ export default function BlueprintUploader({ projectId }: BlueprintUploaderProps)
     }
 
     setSelectedFile(file);
-    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+    if (!name && !isRevision) setName(file.name.replace(/\.[^.]+$/, ''));
   }
 
   async function handleUpload() {
@@ -64,8 +79,8 @@ export default function BlueprintUploader({ projectId }: BlueprintUploaderProps)
   if (state === 'done') {
     return (
       <div className="flex items-center gap-2 text-green-600 text-sm">
-        <span>Blueprint uploaded</span>
-        <Button variant="ghost" size="sm" onClick={() => { reset(); setSelectedFile(null); setName(''); }}>
+        <span>{isRevision ? 'Revision uploaded' : 'Blueprint uploaded'}</span>
+        <Button variant="ghost" size="sm" onClick={() => { reset(); setSelectedFile(null); setName(''); setLabel(''); }}>
           Upload another
         </Button>
       </div>
@@ -77,31 +92,41 @@ export default function BlueprintUploader({ projectId }: BlueprintUploaderProps)
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pdf"
+        accept={imageRevision ? '.jpg,.jpeg,.png' : '.pdf'}
         className="hidden"
         onChange={handleFileSelect}
       />
 
       {!selectedFile ? (
         <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
-          Select Blueprint File
+          {isRevision ? 'Upload New Revision' : 'Select Blueprint File'}
         </Button>
       ) : (
         <>
           <div className="text-sm text-gray-600">
             Selected: {selectedFile.name} ({(selectedFile.size / (1024 * 1024)).toFixed(1)} MB)
           </div>
-          <Input
-            label="Blueprint Name"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="e.g., Floor Plan Level 1"
-          />
+          {isRevision ? (
+            <Input
+              label="Revision Label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              maxLength={20}
+              placeholder="Leave empty for the next letter"
+            />
+          ) : (
+            <Input
+              label="Blueprint Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Floor Plan Level 1"
+            />
+          )}
           <div className="flex gap-2">
-            <Button onClick={handleUpload} loading={isUploading} disabled={!name}>
+            <Button onClick={handleUpload} loading={isUploading} disabled={!isRevision && !name}>
               {isUploading ? `Uploading ${progress}%` : 'Upload'}
             </Button>
-            <Button variant="ghost" onClick={() => { setSelectedFile(null); setName(''); }}>
+            <Button variant="ghost" onClick={() => { setSelectedFile(null); setName(''); setLabel(''); }}>
               Cancel
             </Button>
           </div>
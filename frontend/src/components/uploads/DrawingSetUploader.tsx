@@ -0,0 +1,110 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useFileUpload } from '../../hooks/useFileUpload';
+import { drawingSetApi } from '../../services/drawingSet.api';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface DrawingSetUploaderProps {
+  projectId: string;
+  // Called once the title blocks have been read, to review the proposed sheets
+  onAnalysed: (drawingSetId: string) => void;
+  onCancel: () => void;
+}
+
+const MAX_DRAWING_SET_SIZE = 100 * 1024 * 1024; // 100 MB
+
+export default function DrawingSetUploader({ projectId, onAnalysed, onCancel }: DrawingSetUploaderProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const { state, progress, error, upload } = useFileUpload({
+    onRequestUrl: async (file) => {
+      const result = await drawingSetApi.requestUpload(projectId, {
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        name: name || file.name,
+      });
+      return { uploadUrl: result.uploadUrl, resourceId: result.drawingSetId };
+    },
+    onConfirm: async (drawingSetId) => {
+      await drawingSetApi.analyse(projectId, drawingSetId);
+      queryClient.invalidateQueries({ queryKey: ['blueprints', projectId, 'drawing-sets'] });
+      onAnalysed(drawingSetId);
+    },
+  });
+
+  function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setValidationError(null);
+
+    if (file.type !== 'application/pdf') {
+      setValidationError('Only PDF files are allowed');
+      return;
+    }
+    if (file.size > MAX_DRAWING_SET_SIZE) {
+      setValidationError('File must be smaller than 100 MB');
+      return;
+    }
+
+    setSelectedFile(file);
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  }
+
+  const isUploading = state === 'uploading' || state === 'confirming';
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".pdf"
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+
+      {!selectedFile ? (
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+            Select Drawing Set PDF
+          </Button>
+          <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+        </div>
+      ) : (
+        <>
+          <div className="text-sm text-gray-600">
+            Selected: {selectedFile.name} ({(selectedFile.size / (1024 * 1024)).toFixed(1)} MB)
+          </div>
+          <Input
+            label="Drawing Set Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Permit Set"
+          />
+          <p className="text-xs text-gray-500">
+            Each page becomes a blueprint of its own. Sheet numbers and titles are read from the title blocks
+            for you to review before the set is split.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={() => upload(selectedFile)} loading={isUploading} disabled={!name}>
+              {state === 'confirming' ? 'Reading title blocks...' : isUploading ? `Uploading ${progress}%` : 'Upload'}
+            </Button>
+            <Button variant="ghost" onClick={() => { setSelectedFile(null); setName(''); onCancel(); }}>
+              Cancel
+            </Button>
+          </div>
+        </>
+      )}
+
+      {(error || validationError) && (
+        <p className="text-sm text-red-600">{error || validationError}</p>
+      )}
+    </div>
+  );
+}
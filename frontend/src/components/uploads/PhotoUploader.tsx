@@ -2,6 +2,7 @@ import { useRef, useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useFileUpload } from '../../hooks/useFileUpload';
 import { uploadApi } from '../../services/upload.api';
+import { enqueue } from '../../services/offlineQueue';
 import Button from '../ui/Button';
 
 interface PhotoUploaderProps {
@@ -31,6 +32,16 @@ export default function PhotoUploader({ projectId, taskId }: PhotoUploaderProps)
       queryClient.invalidateQueries({ queryKey: ['photos', projectId, taskId] });
       queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
     },
+    onOffline: async (file) => {
+      await enqueue({
+        type: 'uploadPhoto',
+        projectId,
+        taskId,
+        file,
+        fileName: file.name,
+        mimeType: file.type,
+      });
+    },
   });
 
   function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
@@ -63,9 +74,9 @@ export default function PhotoUploader({ projectId, taskId }: PhotoUploaderProps)
         onChange={handleFileSelect}
       />
 
-      {state === 'done' ? (
-        <div className="flex items-center gap-2 text-green-600 text-sm">
-          <span>Photo uploaded</span>
+      {state === 'done' || state === 'queued' ? (
+        <div className={`flex items-center gap-2 text-sm ${state === 'done' ? 'text-green-600' : 'text-amber-600'}`}>
+          <span>{state === 'done' ? 'Photo uploaded' : 'Photo saved — it will upload when you are back online'}</span>
           <Button variant="ghost" size="sm" onClick={() => { reset(); fileInputRef.current?.click(); }}>
             Upload another
           </Button>
@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+import { uploadApi } from '../services/upload.api';
+
+// Server-side rendering of PDF page previews; null for images and PDFs uploaded before previews existed
+export type PreviewStatus = 'pending' | 'ready' | 'failed';
+
+export interface BlueprintRevision {
+  id: string;
+  blueprint_id: string;
+  revision_number: number;
+  label: string;
+  file_size_bytes: number;
+  mime_type: string;
+  page_count: number | null;
+  preview_status: PreviewStatus | null;
+  uploaded_at: string;
+  uploaded_by_first_name: string | null;
+  uploaded_by_last_name: string | null;
+  review_task_count: number;
+  is_current: boolean;
+  download_url: string;
+}
+
+export function useBlueprintRevisions(projectId: string, blueprintId: string | null | undefined) {
+  return useQuery<BlueprintRevision[]>({
+    queryKey: ['blueprints', projectId, blueprintId, 'revisions'],
+    queryFn: () => uploadApi.listBlueprintRevisions(projectId, blueprintId!),
+    enabled: !!projectId && !!blueprintId,
+  });
+}
+
+export interface BlueprintComparison {
+  id: string;
+  from_revision_id: string;
+  to_revision_id: string;
+  width: number;
+  height: number;
+  changed_ratio: number;
+  download_url: string;
+}
+
+// Diff image of two image revisions, generated on the server the first time it is asked for
+export function useRevisionComparison(
+  projectId: string,
+  blueprintId: string | null | undefined,
+  fromRevisionId: string | null | undefined,
+  toRevisionId: string | null | undefined,
+) {
+  return useQuery<BlueprintComparison>({
+    queryKey: ['blueprints', projectId, blueprintId, 'compare', fromRevisionId, toRevisionId],
+    queryFn: () => uploadApi.compareRevisions(projectId, blueprintId!, {
+      fromRevisionId: fromRevisionId!,
+      toRevisionId: toRevisionId!,
+    }),
+    enabled: !!projectId && !!blueprintId && !!fromRevisionId && !!toRevisionId && fromRevisionId !== toRevisionId,
+    // Generating the image is the costly part; a fresh request only signs a new download URL
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+export interface PreviewImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface BlueprintPagePreview {
+  page: number;
+  small?: PreviewImage;
+  large?: PreviewImage;
+}
+
+export interface BlueprintPreviews {
+  revisionId: string;
+  status: PreviewStatus | null;
+  pageCount: number | null;
+  pages: BlueprintPagePreview[];
+}
+
+// Page images of a PDF revision, shown while the PDF itself loads
+export function useBlueprintPreviews(
+  projectId: string,
+  blueprintId: string | null | undefined,
+  revisionId: string | null | undefined,
+) {
+  return useQuery<BlueprintPreviews>({
+    queryKey: ['blueprints', projectId, blueprintId, 'previews', revisionId],
+    queryFn: () => uploadApi.getBlueprintPreviews(projectId, blueprintId!, revisionId ?? undefined),
+    enabled: !!projectId && !!blueprintId,
+    // Download URLs are signed for 15 minutes
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/** The sharpest preview of each page, for the PDF viewer to show while it loads. */
+export function previewPages(previews: BlueprintPreviews | undefined): Array<{ page: number; url: string }> {
+  return (previews?.pages ?? []).flatMap((p) => {
+    const image = p.large ?? p.small;
+    return image ? [{ page: p.page, url: image.url }] : [];
+  });
+}
+
+export function useRenderPreviews(projectId: string, blueprintId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (revisionId: string) => uploadApi.renderBlueprintPreviews(projectId, blueprintId, revisionId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['blueprints', projectId, blueprintId] }),
+  });
+}
+
+// Switching revisions moves annotations, so the tasks on the blueprint are refreshed too
+function invalidateBlueprint(queryClient: QueryClient, projectId: string, blueprintId: string) {
+  queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] });
+  queryClient.invalidateQueries({ queryKey: ['tasks-by-blueprint', projectId, blueprintId] });
+  queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+  queryClient.invalidateQueries({ queryKey: ['task', projectId] });
+}
+
+export function useMakeRevisionCurrent(projectId: string, blueprintId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (revisionId: string) => uploadApi.makeRevisionCurrent(projectId, blueprintId, revisionId),
+    onSuccess: () => invalidateBlueprint(queryClient, projectId, blueprintId),
+  });
+}
+
+export function useReviewAnnotations(projectId: string, blueprintId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { taskIds: string[]; action: 'keep' | 'clear' }) =>
+      uploadApi.reviewAnnotations(projectId, blueprintId, data),
+    onSuccess: () => invalidateBlueprint(queryClient, projectId, blueprintId),
+  });
+}
+
+export type CalibrationInput =
+  | { method: 'line'; line: { x1: number; y1: number; x2: number; y2: number }; length: number }
+  | { method: 'scale'; ratio: number; paperSize: string };
+
+// Calibrations are part of the blueprint; measurements already taken keep their values
+export function useCalibrateBlueprintPage(projectId: string, blueprintId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ page, ...data }: CalibrationInput & { page: number }) =>
+      uploadApi.calibrateBlueprintPage(projectId, blueprintId, page, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] }),
+  });
+}
+
+export function useRemoveBlueprintCalibration(projectId: string, blueprintId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (page: number) => uploadApi.removeBlueprintCalibration(projectId, blueprintId, page),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] }),
+  });
+}
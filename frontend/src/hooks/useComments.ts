@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { commentApi } from '../services/comment.api';
+import type { CreateCommentData } from '../services/comment.api';
+import { runOrQueue } from '../services/offlineQueue';
 
 export function useComments(projectId: string, taskId: string) {
   return useQuery({
@@ -12,11 +14,45 @@ export function useComments(projectId: string, taskId: string) {
 export function useCreateComment(projectId: string, taskId: string) {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (commentText: string) =>
-      commentApi.create(projectId, taskId, commentText),
+    mutationFn: (data: CreateCommentData) =>
+      runOrQueue(
+        { type: 'createComment', projectId, taskId, ...data },
+        (idempotencyKey) => commentApi.create(projectId, taskId, data, idempotencyKey),
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['comments', projectId, taskId] });
       queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
     },
   });
 }
+
+export function useUpdateComment(projectId: string, taskId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ commentId, commentText }: { commentId: string; commentText: string }) =>
+      commentApi.update(projectId, taskId, commentId, commentText),
+    onSuccess: (_data, { commentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['comments', projectId, taskId] });
+      queryClient.invalidateQueries({ queryKey: ['commentEdits', commentId] });
+    },
+  });
+}
+
+export function useDeleteComment(projectId: string, taskId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (commentId: string) => commentApi.delete(projectId, taskId, commentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments', projectId, taskId] });
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+    },
+  });
+}
+
+export function useCommentEdits(projectId: string, taskId: string, commentId: string | null) {
+  return useQuery({
+    queryKey: ['commentEdits', commentId],
+    queryFn: () => commentApi.listEdits(projectId, taskId, commentId!),
+    enabled: !!commentId,
+  });
+}
@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { contractorPortalApi } from '../services/contractorPortal.api';
+
+export function usePortalLinks(projectId: string) {
+  return useQuery({
+    queryKey: ['portal-links', projectId],
+    queryFn: () => contractorPortalApi.listLinks(projectId),
+    enabled: !!projectId,
+  });
+}
+
+export function useCreatePortalLink(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (email: string) => contractorPortalApi.createLink(projectId, email),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal-links', projectId] });
+    },
+  });
+}
+
+export function useRevokePortalLink(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (linkId: string) => contractorPortalApi.revokeLink(projectId, linkId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal-links', projectId] });
+    },
+  });
+}
+
+export function usePortalOverview(token: string) {
+  return useQuery({
+    queryKey: ['portal', token],
+    queryFn: () => contractorPortalApi.getOverview(token),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function usePortalTask(token: string, taskId: string | null) {
+  return useQuery({
+    queryKey: ['portal', token, 'task', taskId],
+    queryFn: () => contractorPortalApi.getTask(token, taskId!),
+    enabled: !!token && !!taskId,
+    retry: false,
+  });
+}
+
+export function usePortalComment(token: string, taskId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (commentText: string) => contractorPortalApi.addComment(token, taskId, commentText),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal', token, 'task', taskId] });
+    },
+  });
+}
+
+export function usePortalStatus(token: string, taskId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ status, comment }: { status: string; comment?: string }) =>
+      contractorPortalApi.updateStatus(token, taskId, status, comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal', token] });
+    },
+  });
+}
@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { drawingSetApi, DISCIPLINES } from '../services/drawingSet.api';
+import type { Discipline, ProposedSheet, SheetUpdate } from '../services/drawingSet.api';
+
+const DISCIPLINE_LABELS: Record<Discipline, string> = {
+  general: 'General',
+  civil: 'Civil',
+  architectural: 'Architectural',
+  structural: 'Structural',
+  hvac: 'HVAC',
+  plumbing: 'Plumbing',
+  electrical: 'Electrical',
+  fire_protection: 'Fire Protection',
+};
+
+export function disciplineLabel(discipline: string | null | undefined): string {
+  return DISCIPLINE_LABELS[discipline as Discipline] ?? DISCIPLINE_LABELS.general;
+}
+
+/** "A-101 — First Floor Plan", or the name alone for blueprints without a sheet number. */
+export function sheetLabel(blueprint: { name: string; sheet_number?: string | null }): string {
+  return blueprint.sheet_number ? `${blueprint.sheet_number} — ${blueprint.name}` : blueprint.name;
+}
+
+export interface DisciplineFolder<T> {
+  discipline: Discipline;
+  label: string;
+  sheets: T[];
+}
+
+export interface BlueprintGroup<T> {
+  // null for blueprints uploaded on their own
+  drawingSetId: string | null;
+  name: string;
+  folders: DisciplineFolder<T>[];
+  blueprints: T[];
+}
+
+type GroupedBlueprint = {
+  name: string;
+  drawing_set_id?: string | null;
+  drawing_set_name?: string | null;
+  discipline?: string | null;
+  sheet_number?: string | null;
+  set_page?: number | null;
+};
+
+// Sheets without a known discipline are filed under general
+function folderOf(bp: GroupedBlueprint): Discipline {
+  return DISCIPLINES.includes(bp.discipline as Discipline) ? bp.discipline as Discipline : 'general';
+}
+
+/**
+ * Group blueprints by the drawing set they were split from, and the sheets
+ * of each set into discipline folders ordered as in a drawing set.
+ * Blueprints uploaded on their own come first, in their own group.
+ */
+export function groupBlueprints<T extends GroupedBlueprint>(blueprints: T[]): BlueprintGroup<T>[] {
+  const single = blueprints.filter((bp) => !bp.drawing_set_id);
+  const sets = new Map<string, T[]>();
+  for (const bp of blueprints) {
+    if (!bp.drawing_set_id) continue;
+    sets.set(bp.drawing_set_id, [...(sets.get(bp.drawing_set_id) ?? []), bp]);
+  }
+
+  const groups: BlueprintGroup<T>[] = [];
+  if (single.length > 0) {
+    groups.push({ drawingSetId: null, name: 'Blueprints', folders: [], blueprints: single });
+  }
+  for (const [drawingSetId, sheets] of sets) {
+    const ordered = [...sheets].sort((a, b) => (a.set_page ?? 0) - (b.set_page ?? 0));
+    const folders = DISCIPLINES
+      .map((discipline) => ({
+        discipline,
+        label: disciplineLabel(discipline),
+        sheets: ordered.filter((bp) => folderOf(bp) === discipline),
+      }))
+      .filter((folder) => folder.sheets.length > 0);
+    groups.push({ drawingSetId, name: sheets[0].drawing_set_name || 'Drawing set', folders, blueprints: ordered });
+  }
+  return groups;
+}
+
+// Keyed under the project's blueprints, which splitting a set adds to
+export function useDrawingSets(projectId: string) {
+  return useQuery({
+    queryKey: ['blueprints', projectId, 'drawing-sets'],
+    queryFn: () => drawingSetApi.list(projectId),
+    enabled: !!projectId,
+  });
+}
+
+export function useDrawingSet(projectId: string, setId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['blueprints', projectId, 'drawing-sets', setId],
+    queryFn: () => drawingSetApi.get(projectId, setId!),
+    enabled: !!projectId && !!setId,
+  });
+}
+
+export function useAnalyseDrawingSet(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (setId: string) => drawingSetApi.analyse(projectId, setId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['blueprints', projectId, 'drawing-sets'] }),
+  });
+}
+
+export function useSplitDrawingSet(projectId: string, setId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (sheets: ProposedSheet[]) => drawingSetApi.split(projectId, setId, sheets),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] }),
+  });
+}
+
+export function useUpdateDrawingSet(projectId: string, setId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { name?: string; sheets?: SheetUpdate[] }) => drawingSetApi.update(projectId, setId, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] }),
+  });
+}
+
+export function useDeleteDrawingSet(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (setId: string) => drawingSetApi.remove(projectId, setId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['blueprints', projectId] }),
+  });
+}
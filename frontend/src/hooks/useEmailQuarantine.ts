@@ -0,0 +1,26 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { emailQuarantineApi } from '../services/emailQuarantine.api';
+
+export function useQuarantinedEmails(projectId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['email-quarantine', projectId],
+    queryFn: () => emailQuarantineApi.list(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+export function useReviewQuarantinedEmail(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ entryId, action }: { entryId: string; action: 'approve' | 'reject' }) =>
+      action === 'approve'
+        ? emailQuarantineApi.approve(projectId, entryId)
+        : emailQuarantineApi.reject(projectId, entryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['email-quarantine', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['comments', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['photos', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    },
+  });
+}
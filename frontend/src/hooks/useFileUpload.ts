@@ -1,10 +1,13 @@
 import { useState, useCallback } from 'react';
 
-type UploadState = 'idle' | 'uploading' | 'confirming' | 'done' | 'error';
+type UploadState = 'idle' | 'uploading' | 'confirming' | 'done' | 'queued' | 'error';
 
 interface UseFileUploadOptions {
   onRequestUrl: (file: File) => Promise<{ uploadUrl: string; resourceId: string }>;
   onConfirm: (resourceId: string) => Promise<void>;
+  // When provided, uploads attempted without connectivity are handed over here
+  // (e.g. to the offline outbox) instead of failing
+  onOffline?: (file: File) => Promise<void>;
 }
 
 interface UseFileUploadReturn {
@@ -15,7 +18,7 @@ interface UseFileUploadReturn {
   reset: () => void;
 }
 
-export function useFileUpload({ onRequestUrl, onConfirm }: UseFileUploadOptions): UseFileUploadReturn {
+export function useFileUpload({ onRequestUrl, onConfirm, onOffline }: UseFileUploadOptions): UseFileUploadReturn {
   const [state, setState] = useState<UploadState>('idle');
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
@@ -26,7 +29,24 @@ export function useFileUpload({ onRequestUrl, onConfirm }: UseFileUploadOptions)
     setError(null);
   }, []);
 
+  // Hand the file to the offline queue, reporting a failure to store it like any other upload error
+  const queueOffline = useCallback(async (file: File, handler: (file: File) => Promise<void>) => {
+    try {
+      await handler(file);
+      setState('queued');
+    } catch (err: any) {
+      setState('error');
+      setError(err?.message || 'Failed to save the file for upload later');
+    }
+  }, []);
+
   const upload = useCallback(async (file: File) => {
+    if (onOffline && !navigator.onLine) {
+      setError(null);
+      await queueOffline(file, onOffline);
+      return;
+    }
+
     try {
       setState('uploading');
       setProgress(0);
@@ -67,10 +87,15 @@ export function useFileUpload({ onRequestUrl, onConfirm }: UseFileUploadOptions)
       setState('done');
       setProgress(100);
     } catch (err: any) {
+      // Connection dropped mid-upload: hand the file to the offline queue
+      if (onOffline && !navigator.onLine) {
+        await queueOffline(file, onOffline);
+        return;
+      }
       setState('error');
       setError(err.message || 'Upload failed');
     }
-  }, [onRequestUrl, onConfirm]);
+  }, [onRequestUrl, onConfirm, onOffline, queueOffline]);
 
   return { state, progress, error, upload, reset };
 }
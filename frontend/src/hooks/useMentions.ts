@@ -0,0 +1,21 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { mentionApi } from '../services/mention.api';
+
+const MENTION_PAGE_SIZE = 20;
+
+export function useMentionableUsers(projectId: string) {
+  return useQuery({
+    queryKey: ['projectMembers', projectId, 'mentionable'],
+    queryFn: () => mentionApi.listMentionable(projectId),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useMentions(page: number) {
+  return useQuery({
+    queryKey: ['mentions', page],
+    queryFn: () => mentionApi.list({ page, limit: MENTION_PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+}
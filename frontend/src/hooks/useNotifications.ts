@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { notificationApi, type DigestSettings, type NotificationPreferences } from '../services/notification.api';
+
+const NOTIFICATION_LIMIT = 20;
+
+export function useNotifications() {
+  return useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => notificationApi.list({ limit: NOTIFICATION_LIMIT }),
+  });
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (notificationId: string) => notificationApi.markRead(notificationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => notificationApi.markAllRead(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+}
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: ['notificationPreferences'],
+    queryFn: () => notificationApi.getPreferences(),
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (preferences: Partial<NotificationPreferences>) => notificationApi.updatePreferences(preferences),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(['notificationPreferences'], preferences);
+    },
+  });
+}
+
+export function useDigestSettings() {
+  return useQuery({
+    queryKey: ['digestSettings'],
+    queryFn: () => notificationApi.getDigestSettings(),
+  });
+}
+
+export function useUpdateDigestSettings() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (settings: DigestSettings) => notificationApi.updateDigestSettings(settings),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['digestSettings'], settings);
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  subscribe,
+  processOutbox,
+  retryEntry,
+  discardEntry,
+} from '../services/offlineQueue';
+import type { OutboxEntry } from '../services/offlineQueue';
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Exposes the offline outbox and keeps it draining: replays on reconnect, on
+ * mount and periodically while entries are pending. Mount once, near the root.
+ */
+export function useOfflineQueue() {
+  const queryClient = useQueryClient();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const synced = await processOutbox();
+      if (synced > 0) {
+        queryClient.invalidateQueries({ queryKey: ['tasks'] });
+        queryClient.invalidateQueries({ queryKey: ['task'] });
+        queryClient.invalidateQueries({ queryKey: ['comments'] });
+        queryClient.invalidateQueries({ queryKey: ['photos'] });
+        queryClient.invalidateQueries({ queryKey: ['project'] });
+      }
+    } catch {
+      // IndexedDB unavailable (e.g. private mode) — nothing to sync
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    try {
+      return subscribe(setEntries);
+    } catch {
+      return undefined;
+    }
+  }, []);
+
+  const hasPending = entries.some((e) => e.status === 'pending');
+
+  useEffect(() => {
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [sync]);
+
+  useEffect(() => {
+    if (!hasPending) return;
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPending, sync]);
+
+  const retry = useCallback(async (id: number) => {
+    await retryEntry(id);
+    await sync();
+  }, [sync]);
+
+  return {
+    entries,
+    pending: entries.filter((e) => e.status === 'pending'),
+    failed: entries.filter((e) => e.status === 'failed'),
+    isSyncing,
+    sync,
+    retry,
+    discard: discardEntry,
+  };
+}
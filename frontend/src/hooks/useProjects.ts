@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { projectApi } from '../services/project.api';
+import type { ProjectRole } from '../types';
 
 export function useProjects(params?: { status?: string; page?: number; limit?: number }) {
   return useQuery({
@@ -48,3 +49,50 @@ export function useArchiveProject() {
     },
   });
 }
+
+export function useProjectMembers(projectId: string) {
+  return useQuery({
+    queryKey: ['projectMembers', projectId],
+    queryFn: () => projectApi.listMembers(projectId),
+    enabled: !!projectId,
+  });
+}
+
+export function useProjectMemberCandidates(projectId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['projectMembers', projectId, 'candidates'],
+    queryFn: () => projectApi.listMemberCandidates(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+export function useAddProjectMember(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { userId: string; role: ProjectRole }) => projectApi.addMember(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectMembers', projectId] });
+    },
+  });
+}
+
+export function useUpdateProjectMember(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: ProjectRole }) =>
+      projectApi.updateMember(projectId, userId, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectMembers', projectId] });
+    },
+  });
+}
+
+export function useRemoveProjectMember(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (userId: string) => projectApi.removeMember(projectId, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectMembers', projectId] });
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api/v1';
+
+interface RealtimeMessage {
+  type: string;
+  projectId?: string;
+  taskId?: string;
+  userId?: string;
+}
+
+function invalidateFor(queryClient: QueryClient, message: RealtimeMessage) {
+  const { projectId, taskId } = message;
+  const invalidate = (queryKey: unknown[]) => queryClient.invalidateQueries({ queryKey });
+
+  switch (message.type) {
+    case 'task.created':
+    case 'task.updated':
+    case 'task.deleted':
+    case 'tasks.bulk_changed':
+      invalidate(['tasks', projectId]);
+      invalidate(taskId ? ['task', projectId, taskId] : ['task', projectId]);
+      invalidate(taskId ? ['comments', projectId, taskId] : ['comments', projectId]);
+      invalidate(taskId ? ['photos', projectId, taskId] : ['photos', projectId]);
+      invalidate(['tasks-by-blueprint', projectId]);
+      invalidate(['project', projectId]);
+      invalidate(['my-tasks']);
+      break;
+    case 'comment.created':
+    case 'comment.updated':
+    case 'comment.deleted':
+      invalidate(['comments', projectId, taskId]);
+      invalidate(['task', projectId, taskId]);
+      break;
+    case 'photo.confirmed':
+    case 'photo.deleted':
+      invalidate(['photos', projectId, taskId]);
+      invalidate(['task', projectId, taskId]);
+      invalidate(['tasks', projectId]);
+      break;
+    case 'protocol.status_changed':
+      invalidate(['protocols', projectId]);
+      break;
+    case 'blueprint.previews_changed':
+    case 'blueprint.calibration_changed':
+      invalidate(['blueprints', projectId]);
+      break;
+    case 'backup.status_changed':
+      invalidate(['backups']);
+      break;
+    case 'project_member.changed':
+      invalidate(['projectMembers', projectId]);
+      invalidate(['project', projectId]);
+      invalidate(['projects']);
+      invalidate(['savedViews', 'pinned']);
+      break;
+    case 'notification.created':
+      invalidate(['notifications']);
+      invalidate(['mentions']);
+      break;
+  }
+}
+
+/**
+ * Keeps cached queries fresh by listening to the server's event stream and
+ * invalidating whatever the event touched. Mount once, inside the authenticated
+ * layout. The browser reconnects on its own; anything missed while
+ * disconnected is refetched when the stream reopens.
+ */
+export function useRealtime(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return undefined;
+
+    const source = new EventSource(`${API_BASE_URL}/events`, { withCredentials: true });
+    let connectedBefore = false;
+
+    source.onopen = () => {
+      if (connectedBefore) queryClient.invalidateQueries();
+      connectedBefore = true;
+    };
+    source.onmessage = (e: MessageEvent<string>) => {
+      try {
+        invalidateFor(queryClient, JSON.parse(e.data) as RealtimeMessage);
+      } catch {
+        // Ignore malformed messages
+      }
+    };
+
+    return () => source.close();
+  }, [enabled, queryClient]);
+}
@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { savedViewApi } from '../services/savedView.api';
+import type { TaskFilterValues } from '../services/task.api';
+
+export function useSavedViews(projectId: string) {
+  return useQuery({
+    queryKey: ['savedViews', projectId],
+    queryFn: () => savedViewApi.list(projectId),
+    enabled: !!projectId,
+  });
+}
+
+export function usePinnedViews() {
+  return useQuery({
+    queryKey: ['savedViews', 'pinned'],
+    queryFn: () => savedViewApi.listPinned(),
+  });
+}
+
+export function useCreateSavedView(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { name: string; filters: TaskFilterValues; isShared?: boolean }) =>
+      savedViewApi.create(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['savedViews', projectId] });
+    },
+  });
+}
+
+export function useUpdateSavedView(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ viewId, ...data }: { viewId: string; name?: string; filters?: TaskFilterValues; isShared?: boolean }) =>
+      savedViewApi.update(projectId, viewId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['savedViews'] });
+    },
+  });
+}
+
+export function useDeleteSavedView(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (viewId: string) => savedViewApi.remove(projectId, viewId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['savedViews'] });
+    },
+  });
+}
+
+export function useTogglePinnedView(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ viewId, pinned }: { viewId: string; pinned: boolean }) =>
+      pinned ? savedViewApi.pin(projectId, viewId) : savedViewApi.unpin(projectId, viewId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['savedViews'] });
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { searchApi } from '../services/search.api';
+
+export const MIN_SEARCH_LENGTH = 2;
+
+export function useSearch(term: string) {
+  const q = term.trim();
+  return useQuery({
+    queryKey: ['search', q],
+    queryFn: () => searchApi.search(q),
+    enabled: q.length >= MIN_SEARCH_LENGTH,
+    // Keep the last results on screen while the next keystroke's are loading
+    placeholderData: keepPreviousData,
+  });
+}
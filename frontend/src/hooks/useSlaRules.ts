@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { slaApi } from '../services/sla.api';
+import type { SlaRuleInput } from '../services/sla.api';
+
+export function useSlaRules() {
+  return useQuery({
+    queryKey: ['slaRules'],
+    queryFn: () => slaApi.list(),
+  });
+}
+
+export function useCreateSlaRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: SlaRuleInput) => slaApi.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['slaRules'] });
+    },
+  });
+}
+
+export function useUpdateSlaRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<SlaRuleInput> }) => slaApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['slaRules'] });
+    },
+  });
+}
+
+export function useDeleteSlaRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => slaApi.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['slaRules'] });
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskChecklistApi } from '../services/taskTemplate.api';
+import type { TemplateChecklistItem } from '../types';
+
+// Keyed under the task so a task.updated event refreshes it
+export function useTaskChecklist(projectId: string, taskId: string) {
+  return useQuery({
+    queryKey: ['task', projectId, taskId, 'checklist'],
+    queryFn: () => taskChecklistApi.list(projectId, taskId),
+    enabled: !!projectId && !!taskId,
+  });
+}
+
+// Checklist changes move the progress shown in the task list
+function useChecklistMutation<T>(projectId: string, taskId: string, mutationFn: (variables: T) => Promise<unknown>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    },
+  });
+}
+
+export function useAddChecklistItems(projectId: string, taskId: string) {
+  return useChecklistMutation(projectId, taskId, (data: { templateId: string } | TemplateChecklistItem) =>
+    taskChecklistApi.add(projectId, taskId, data));
+}
+
+export function useSetChecklistItemChecked(projectId: string, taskId: string) {
+  return useChecklistMutation(projectId, taskId, ({ itemId, checked }: { itemId: string; checked: boolean }) =>
+    taskChecklistApi.setChecked(projectId, taskId, itemId, checked));
+}
+
+export function useDeleteChecklistItem(projectId: string, taskId: string) {
+  return useChecklistMutation(projectId, taskId, (itemId: string) =>
+    taskChecklistApi.remove(projectId, taskId, itemId));
+}
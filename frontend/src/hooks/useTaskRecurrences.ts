@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskRecurrenceApi } from '../services/taskRecurrence.api';
+import type { TaskRecurrenceInput } from '../services/taskRecurrence.api';
+
+export function useTaskRecurrences(projectId: string) {
+  return useQuery({
+    queryKey: ['taskRecurrences', projectId],
+    queryFn: () => taskRecurrenceApi.list(projectId),
+    enabled: !!projectId,
+  });
+}
+
+/** Next dates of the rule being edited; errors carry the server's explanation of the rule. */
+export function useRecurrencePreview(projectId: string, rule: string, startsOn: string) {
+  return useQuery({
+    queryKey: ['taskRecurrences', projectId, 'preview', rule, startsOn],
+    queryFn: () => taskRecurrenceApi.preview(projectId, { rule, startsOn }),
+    enabled: !!projectId && !!rule && !!startsOn,
+    retry: false,
+  });
+}
+
+export function useCreateTaskRecurrence(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: TaskRecurrenceInput) => taskRecurrenceApi.create(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskRecurrences', projectId] });
+    },
+  });
+}
+
+export function useUpdateTaskRecurrence(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TaskRecurrenceInput> & { isActive?: boolean } }) =>
+      taskRecurrenceApi.update(projectId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskRecurrences', projectId] });
+    },
+  });
+}
+
+export function useDeleteTaskRecurrence(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => taskRecurrenceApi.remove(projectId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskRecurrences', projectId] });
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskRelationApi } from '../services/taskRelation.api';
+import type { NewTaskRelationType } from '../services/taskRelation.api';
+
+// Keyed under the task so the task.updated events published for both ends refresh it
+export function useTaskRelations(projectId: string, taskId: string) {
+  return useQuery({
+    queryKey: ['task', projectId, taskId, 'relations'],
+    queryFn: () => taskRelationApi.list(projectId, taskId),
+    enabled: !!projectId && !!taskId,
+  });
+}
+
+export function useCreateTaskRelation(projectId: string, taskId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { type: NewTaskRelationType; taskId: string }) =>
+      taskRelationApi.create(projectId, taskId, data),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, variables.taskId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    },
+  });
+}
+
+export function useDeleteTaskRelation(projectId: string, taskId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (relationId: string) => taskRelationApi.remove(projectId, taskId, relationId),
+    onSuccess: () => {
+      // The other end is not known here; its own task.updated event refreshes it
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taskTemplateApi } from '../services/taskTemplate.api';
+import type { TaskTemplateInput } from '../services/taskTemplate.api';
+
+export function useTaskTemplates() {
+  return useQuery({
+    queryKey: ['taskTemplates'],
+    queryFn: () => taskTemplateApi.list(),
+  });
+}
+
+export function useCreateTaskTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: TaskTemplateInput) => taskTemplateApi.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskTemplates'] });
+    },
+  });
+}
+
+export function useUpdateTaskTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TaskTemplateInput> }) => taskTemplateApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskTemplates'] });
+    },
+  });
+}
+
+export function useDeleteTaskTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => taskTemplateApi.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taskTemplates'] });
+    },
+  });
+}
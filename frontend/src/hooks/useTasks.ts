@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { taskApi } from '../services/task.api';
-import type { TaskFilters } from '../services/task.api';
+import type { BulkTaskRequest, TaskFilters } from '../services/task.api';
+import { runOrQueue } from '../services/offlineQueue';
 
 export function useTasks(projectId: string, filters?: TaskFilters) {
   return useQuery({
@@ -18,11 +19,23 @@ export function useTask(projectId: string, taskId: string) {
   });
 }
 
+// Keyed under the task so anything that invalidates the task also refreshes its history
+export function useTaskHistory(projectId: string, taskId: string) {
+  return useQuery({
+    queryKey: ['task', projectId, taskId, 'history'],
+    queryFn: () => taskApi.history(projectId, taskId),
+    enabled: !!projectId && !!taskId,
+  });
+}
+
 export function useCreateTask(projectId: string) {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: (data: Parameters<typeof taskApi.create>[1]) =>
-      taskApi.create(projectId, data),
+      runOrQueue(
+        { type: 'createTask', projectId, data },
+        (idempotencyKey) => taskApi.create(projectId, data, idempotencyKey),
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
       queryClient.invalidateQueries({ queryKey: ['project', projectId] });
@@ -33,8 +46,15 @@ export function useCreateTask(projectId: string) {
 export function useUpdateTask(projectId: string) {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: ({ taskId, data }: { taskId: string; data: Record<string, unknown> }) =>
-      taskApi.update(projectId, taskId, data),
+    mutationFn: ({ taskId, data }: { taskId: string; data: Record<string, unknown> }) => {
+      // A queued update must not silently overwrite changes made server-side in the meantime
+      const cached = queryClient.getQueryData<{ updated_at?: string }>(['task', projectId, taskId]);
+      const queuedData = cached?.updated_at ? { ...data, expectedUpdatedAt: cached.updated_at } : data;
+      return runOrQueue(
+        { type: 'updateTask', projectId, taskId, data: queuedData },
+        () => taskApi.update(projectId, taskId, data),
+      );
+    },
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
       queryClient.invalidateQueries({ queryKey: ['task', projectId, variables.taskId] });
@@ -54,6 +74,45 @@ export function useDeleteTask(projectId: string) {
   });
 }
 
+export function useDuplicateTask(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ taskId, targetProjectId }: { taskId: string; targetProjectId?: string }) =>
+      taskApi.duplicate(projectId, taskId, targetProjectId),
+    onSuccess: (task: { id: string; project_id: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['tasks', task.project_id] });
+      queryClient.invalidateQueries({ queryKey: ['project', task.project_id] });
+    },
+  });
+}
+
+export function useMoveTask(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ taskId, targetProjectId }: { taskId: string; targetProjectId: string }) =>
+      taskApi.move(projectId, taskId, targetProjectId),
+    onSuccess: (task: { id: string; project_id: string }, variables) => {
+      for (const id of [projectId, task.project_id]) {
+        queryClient.invalidateQueries({ queryKey: ['tasks', id] });
+        queryClient.invalidateQueries({ queryKey: ['project', id] });
+      }
+      queryClient.removeQueries({ queryKey: ['task', projectId, variables.taskId] });
+    },
+  });
+}
+
+export function useBulkTasks(projectId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: BulkTaskRequest) => taskApi.bulk(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['task', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+    },
+  });
+}
+
 export function useTasksByBlueprint(projectId: string, blueprintId: string | undefined) {
   return useQuery({
     queryKey: ['tasks-by-blueprint', projectId, blueprintId],
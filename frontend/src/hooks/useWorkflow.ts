@@ -0,0 +1,48 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { workflowApi } from '../services/workflow.api';
+import type { WorkflowStatus, WorkflowTransition } from '../types';
+
+// Used wherever task statuses are rendered or changed
+export function useWorkflow() {
+  return useQuery({
+    queryKey: ['workflow'],
+    queryFn: () => workflowApi.get(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Admin hooks — used by the Workflow page
+export function useAdminWorkflow() {
+  return useQuery({
+    queryKey: ['adminWorkflow'],
+    queryFn: () => workflowApi.adminGet(),
+  });
+}
+
+export function useUpdateWorkflow() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { statuses: WorkflowStatus[]; transitions: WorkflowTransition[] }) =>
+      workflowApi.update(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['adminWorkflow'] });
+      queryClient.invalidateQueries({ queryKey: ['workflow'] });
+    },
+  });
+}
+
+export function useResetWorkflow() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => workflowApi.reset(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['adminWorkflow'] });
+      queryClient.invalidateQueries({ queryKey: ['workflow'] });
+    },
+  });
+}
+
+// Status key → hex colour, for drawing annotations
+export function statusColorMap(statuses: WorkflowStatus[] = []): Record<string, string> {
+  return Object.fromEntries(statuses.map((s) => [s.key, s.color]));
+}
@@ -37,6 +37,8 @@ function formatAction(action: string, resourceType: string): string {
     assigned: 'assigned',
     uploaded: 'uploaded',
     invited: 'invited',
+    revoked: 'revoked',
+    reset: 'reset',
   };
 
   const resourceMap: Record<string, string> = {
@@ -47,6 +49,11 @@ function formatAction(action: string, resourceType: string): string {
     protocol: 'protocol',
     comment: 'comment',
     photo: 'photo',
+    task_comment: 'comment',
+    task_photo: 'photo',
+    contractor_portal_link: 'portal link',
+    workflow: 'task workflow',
+    sla_rule: 'SLA rule',
     organization: 'organization',
   };
 
@@ -287,11 +294,16 @@ export default function AdminDashboardPage() {
                         <div className="min-w-0 flex-1">
                           <p className="text-sm text-gray-900">
                             <span className="font-medium">
-                              {entry.user_first_name} {entry.user_last_name}
+                              {entry.user_email
+                                ? `${entry.user_first_name} ${entry.user_last_name}`
+                                : String(entry.metadata?.externalEmail || 'System')}
                             </span>{' '}
                             {formatAction(entry.action, entry.resource_type)}
+                            {typeof entry.metadata?.via === 'string' && (
+                              <span className="ml-2"><Badge variant="purple">via {entry.metadata.via}</Badge></span>
+                            )}
                           </p>
-                          <p className="text-xs text-gray-500 mt-0.5">{entry.user_email}</p>
+                          <p className="text-xs text-gray-500 mt-0.5">{entry.user_email || 'External contractor'}</p>
                         </div>
                         <span className="text-xs text-gray-400 whitespace-nowrap ml-4">
                           {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
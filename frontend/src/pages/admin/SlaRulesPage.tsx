@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useSlaRules, useCreateSlaRule, useDeleteSlaRule } from '../../hooks/useSlaRules';
+import { useProjects } from '../../hooks/useProjects';
+import Button from '../../components/ui/Button';
+import Card, { CardBody, CardHeader } from '../../components/ui/Card';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import Spinner from '../../components/ui/Spinner';
+import EmptyState from '../../components/ui/EmptyState';
+import type { SlaRule } from '../../types';
+
+const PRIORITY_OPTIONS = [
+  { value: 'low', label: 'Low' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+];
+
+export default function SlaRulesPage() {
+  const { data: rules, isLoading } = useSlaRules();
+  const { data: projectsData } = useProjects({ limit: 200 });
+  const createRule = useCreateSlaRule();
+  const deleteRule = useDeleteSlaRule();
+
+  const [projectId, setProjectId] = useState('');
+  const [priority, setPriority] = useState('');
+  const [trade, setTrade] = useState('');
+  const [dueInDays, setDueInDays] = useState('');
+  const [error, setError] = useState('');
+
+  const projects = projectsData?.data?.projects || [];
+  const projectOptions = projects.map((p: any) => ({ value: p.id, label: p.name }));
+
+  async function handleAdd() {
+    setError('');
+    const days = parseInt(dueInDays, 10);
+    if (Number.isNaN(days) || days < 0) {
+      setError('Enter the number of days until a task is due');
+      return;
+    }
+    try {
+      await createRule.mutateAsync({
+        projectId: projectId || null,
+        priority: priority || null,
+        trade: trade.trim() || null,
+        dueInDays: days,
+      });
+      setProjectId('');
+      setPriority('');
+      setTrade('');
+      setDueInDays('');
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to add rule');
+    }
+  }
+
+  async function handleDelete(rule: SlaRule) {
+    if (!window.confirm('Delete this SLA rule? Existing due dates are kept.')) return;
+    await deleteRule.mutateAsync(rule.id);
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">SLA Rules</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Default due dates for new tasks. The most specific matching rule wins: a project rule beats an
+          organisation-wide one, then trade, then priority.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 border border-red-200 p-3">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="font-semibold text-gray-900">Rules</h2>
+        </CardHeader>
+        <CardBody className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Spinner size="sm" /></div>
+          ) : !rules || rules.length === 0 ? (
+            <EmptyState title="No SLA rules" description="New tasks get no due date unless one is entered." />
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Trade</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Due in</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rules.map((rule) => (
+                  <tr key={rule.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{rule.project_name || 'All projects'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700 capitalize">{rule.priority || 'Any'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{rule.trade || 'Any'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">
+                      {rule.due_in_days} day{rule.due_in_days !== 1 ? 's' : ''}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h2 className="font-semibold text-gray-900">Add Rule</h2>
+        </CardHeader>
+        <CardBody>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <Select
+              label="Project"
+              options={projectOptions}
+              placeholder="All projects"
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+            />
+            <Select
+              label="Priority"
+              options={PRIORITY_OPTIONS}
+              placeholder="Any priority"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+            />
+            <Input
+              label="Trade"
+              placeholder="Any trade"
+              value={trade}
+              onChange={(e) => setTrade(e.target.value)}
+            />
+            <Input
+              label="Due in (days)"
+              type="number"
+              min={0}
+              value={dueInDays}
+              onChange={(e) => setDueInDays(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end mt-4">
+            <Button onClick={handleAdd} loading={createRule.isPending}>
+              Add Rule
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
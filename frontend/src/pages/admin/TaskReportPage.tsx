@@ -3,12 +3,15 @@ import { useQuery } from '@tanstack/react-query';
 import api from '../../services/api';
 import { useProjects } from '../../hooks/useProjects';
 import { useUsers } from '../../hooks/useUsers';
+import { useWorkflow } from '../../hooks/useWorkflow';
 import Button from '../../components/ui/Button';
 import Card, { CardBody, CardHeader } from '../../components/ui/Card';
 import Select from '../../components/ui/Select';
 import Input from '../../components/ui/Input';
 import Spinner from '../../components/ui/Spinner';
 import Badge from '../../components/ui/Badge';
+import StatusBadge from '../../components/ui/StatusBadge';
+import { dueDateLabel } from '../../components/ui/DueDateBadge';
 
 const priorityBadge: Record<string, 'gray' | 'red' | 'yellow' | 'green' | 'blue'> = {
   low: 'gray',
@@ -17,13 +20,6 @@ const priorityBadge: Record<string, 'gray' | 'red' | 'yellow' | 'green' | 'blue'
   critical: 'red',
 };
 
-const statusBadge: Record<string, 'gray' | 'red' | 'yellow' | 'green' | 'blue' | 'purple'> = {
-  open: 'blue',
-  in_progress: 'yellow',
-  completed: 'green',
-  verified: 'purple',
-};
-
 function formatDate(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString();
 }
@@ -34,6 +30,7 @@ export default function TaskReportPage() {
   const [projectId, setProjectId] = useState('');
   const [userId, setUserId] = useState('');
   const [submitted, setSubmitted] = useState(false);
+  const { data: workflow } = useWorkflow();
 
   const { data: projectsData } = useProjects({ limit: 200 });
   const { data: usersData } = useUsers({ limit: 200 });
@@ -153,6 +150,8 @@ export default function TaskReportPage() {
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trade</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned To</th>
                       <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Days Overdue</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-100">
@@ -165,7 +164,7 @@ export default function TaskReportPage() {
                           <Badge variant={priorityBadge[task.priority] || 'gray'}>{task.priority}</Badge>
                         </td>
                         <td className="px-3 py-2">
-                          <Badge variant={statusBadge[task.status] || 'gray'}>{task.status.replace('_', ' ')}</Badge>
+                          <StatusBadge status={task.status} statuses={workflow?.statuses} />
                         </td>
                         <td className="px-3 py-2 text-sm text-gray-500">{task.trade || '-'}</td>
                         <td className="px-3 py-2 text-sm text-gray-500">
@@ -174,6 +173,10 @@ export default function TaskReportPage() {
                             : '-'}
                         </td>
                         <td className="px-3 py-2 text-sm text-gray-500">{formatDate(task.created_at)}</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">{task.due_date ? dueDateLabel(task.due_date) : '-'}</td>
+                        <td className={`px-3 py-2 text-sm ${task.days_overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                          {task.days_overdue ?? '-'}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import {
+  useTaskTemplates, useCreateTaskTemplate, useUpdateTaskTemplate, useDeleteTaskTemplate,
+} from '../../hooks/useTaskTemplates';
+import { useProducts } from '../../hooks/useProducts';
+import { useCustomFieldDefinitions } from '../../hooks/useCustomFields';
+import Button from '../../components/ui/Button';
+import Card, { CardBody, CardHeader } from '../../components/ui/Card';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import Modal from '../../components/ui/Modal';
+import Spinner from '../../components/ui/Spinner';
+import EmptyState from '../../components/ui/EmptyState';
+import CustomFieldsRenderer from '../../components/common/CustomFieldsRenderer';
+import type { TaskPriority, TaskTemplate, TemplateChecklistItem } from '../../types';
+
+const PRIORITY_OPTIONS = [
+  { value: 'low', label: 'Low' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+];
+
+export default function TaskTemplatesPage() {
+  const { data: templates, isLoading } = useTaskTemplates();
+  const deleteTemplate = useDeleteTaskTemplate();
+  // null: closed; undefined template: creating
+  const [editing, setEditing] = useState<{ template?: TaskTemplate } | null>(null);
+
+  async function handleDelete(template: TaskTemplate) {
+    if (!window.confirm(`Delete the template "${template.name}"? Tasks keep the checklists they were given; recurring tasks using it stop.`)) return;
+    await deleteTemplate.mutateAsync(template.id);
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Task Templates</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Recurring deficiencies with their description, trade, priority, custom fields, products and checklist.
+            Pick one when adding a task instead of retyping it.
+          </p>
+        </div>
+        <Button onClick={() => setEditing({})}>New Template</Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <h2 className="font-semibold text-gray-900">Templates</h2>
+        </CardHeader>
+        <CardBody className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Spinner size="sm" /></div>
+          ) : !templates || templates.length === 0 ? (
+            <EmptyState title="No task templates" description="Create one for the deficiencies your team records most." />
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Trade</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Checklist</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {templates.map((template) => (
+                  <tr key={template.id}>
+                    <td className="px-4 py-2 text-sm">
+                      <p className="text-gray-900 font-medium">{template.name}</p>
+                      <p className="text-gray-500 truncate max-w-xs">{template.title}</p>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{template.trade || 'Any'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700 capitalize">{template.priority}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">
+                      {template.checklist_items.length > 0
+                        ? `${template.checklist_items.length} item${template.checklist_items.length !== 1 ? 's' : ''}`
+                        : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing({ template })}>Edit</Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>Delete</Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardBody>
+      </Card>
+
+      {editing && (
+        <TaskTemplateModal template={editing.template} onClose={() => setEditing(null)} />
+      )}
+    </div>
+  );
+}
+
+function TaskTemplateModal({ template, onClose }: { template?: TaskTemplate; onClose: () => void }) {
+  const createTemplate = useCreateTaskTemplate();
+  const updateTemplate = useUpdateTaskTemplate();
+  const { data: cfDefinitions = [] } = useCustomFieldDefinitions('task');
+
+  const [form, setForm] = useState({
+    name: template?.name || '',
+    title: template?.title || '',
+    description: template?.description || '',
+    trade: template?.trade || '',
+    priority: (template?.priority || 'normal') as TaskPriority,
+  });
+  const [customFields, setCustomFields] = useState<Record<string, unknown>>(template?.custom_fields || {});
+  const [items, setItems] = useState<TemplateChecklistItem[]>(template?.checklist_items || []);
+  const [newItem, setNewItem] = useState('');
+  const [products, setProducts] = useState<{ id: string; name: string }[]>(template?.products || []);
+  const [productSearch, setProductSearch] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: productsData } = useProducts({ search: productSearch || undefined, limit: 20 });
+  const productResults = ((productsData?.data?.products || []) as { id: string; name: string }[])
+    .filter((p) => !products.some((selected) => selected.id === p.id))
+    .slice(0, 8);
+
+  function addItem() {
+    if (!newItem.trim()) return;
+    setItems((prev) => [...prev, { text: newItem.trim(), isRequired: false }]);
+    setNewItem('');
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    const data = {
+      name: form.name.trim(),
+      title: form.title.trim(),
+      description: form.description.trim() || null,
+      trade: form.trade.trim() || null,
+      priority: form.priority,
+      // Only the values filled in become defaults
+      customFields: Object.fromEntries(
+        Object.entries(customFields).filter(([, value]) => value !== undefined && value !== null && value !== ''),
+      ),
+      checklistItems: items,
+      productIds: products.map((p) => p.id),
+    };
+    try {
+      if (template) {
+        await updateTemplate.mutateAsync({ id: template.id, data });
+      } else {
+        await createTemplate.mutateAsync(data);
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to save template');
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose} title={template ? 'Edit Template' : 'New Template'} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Input
+          label="Template name"
+          value={form.name}
+          onChange={(e) => setForm((p) => ({ ...p, name: e.target.value }))}
+          required
+          placeholder="e.g., Fire sealing"
+        />
+        <Input
+          label="Task title"
+          value={form.title}
+          onChange={(e) => setForm((p) => ({ ...p, title: e.target.value }))}
+          required
+          placeholder="e.g., Missing fire sealing at penetration"
+        />
+        <Input
+          label="Description"
+          value={form.description}
+          onChange={(e) => setForm((p) => ({ ...p, description: e.target.value }))}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            label="Priority"
+            options={PRIORITY_OPTIONS}
+            value={form.priority}
+            onChange={(e) => setForm((p) => ({ ...p, priority: e.target.value as TaskPriority }))}
+          />
+          <Input
+            label="Trade"
+            value={form.trade}
+            onChange={(e) => setForm((p) => ({ ...p, trade: e.target.value }))}
+            placeholder="e.g., Electrical"
+          />
+        </div>
+
+        <CustomFieldsRenderer
+          definitions={cfDefinitions}
+          values={customFields}
+          onChange={(key, value) => setCustomFields((prev) => ({ ...prev, [key]: value }))}
+        />
+
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">Checklist</p>
+          {items.length > 0 && (
+            <ul className="mb-2 divide-y divide-gray-100 rounded-lg border border-gray-200">
+              {items.map((item, i) => (
+                <li key={i} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="flex-1 text-gray-900">{item.text}</span>
+                  <label className="inline-flex items-center gap-1.5 text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={item.isRequired}
+                      onChange={(e) => setItems((prev) => prev.map((it, j) => (j === i ? { ...it, isRequired: e.target.checked } : it)))}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Required
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setItems((prev) => prev.filter((_, j) => j !== i))}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove item"
+                  >
+                    &times;
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addItem();
+                }
+              }}
+              placeholder="Add a checklist item"
+            />
+            <Button type="button" variant="secondary" onClick={addItem} disabled={!newItem.trim()}>Add</Button>
+          </div>
+        </div>
+
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">Products</p>
+          {products.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {products.map((product) => (
+                <span key={product.id} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-1 text-xs text-gray-700">
+                  {product.name}
+                  <button
+                    type="button"
+                    onClick={() => setProducts((prev) => prev.filter((p) => p.id !== product.id))}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove product"
+                  >
+                    &times;
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <Input
+            value={productSearch}
+            onChange={(e) => setProductSearch(e.target.value)}
+            placeholder="Search products to link"
+          />
+          {productSearch && productResults.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-2">
+              {productResults.map((product) => (
+                <button
+                  key={product.id}
+                  type="button"
+                  onClick={() => setProducts((prev) => [...prev, { id: product.id, name: product.name }])}
+                  className="rounded-full border border-gray-300 px-2.5 py-1 text-xs text-gray-700 hover:border-primary-500 hover:text-primary-600"
+                >
+                  + {product.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" type="button" onClick={onClose}>Cancel</Button>
+          <Button type="submit" loading={createTemplate.isPending || updateTemplate.isPending}>
+            {template ? 'Save Template' : 'Create Template'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
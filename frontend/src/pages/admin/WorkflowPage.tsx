@@ -0,0 +1,379 @@
+import { useEffect, useState } from 'react';
+import { useAdminWorkflow, useUpdateWorkflow, useResetWorkflow } from '../../hooks/useWorkflow';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import Card, { CardBody, CardHeader } from '../../components/ui/Card';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import Spinner from '../../components/ui/Spinner';
+import StatusBadge from '../../components/ui/StatusBadge';
+import type { StatusCategory, UserRole, WorkflowStatus, WorkflowTransition } from '../../types';
+
+const CATEGORY_OPTIONS: { value: StatusCategory; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'verified', label: 'Verified' },
+];
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'field_user', label: 'Field user' },
+  { value: 'project_manager', label: 'Project manager' },
+  { value: 'org_admin', label: 'Org admin' },
+  { value: 'super_admin', label: 'Super admin' },
+];
+
+// Derive a status key from its label, unique among the existing keys
+function generateKey(label: string, existing: string[]): string {
+  let base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+  if (!/^[a-z]/.test(base)) base = `status_${base}`.replace(/_+$/, '');
+  let key = base;
+  let suffix = 2;
+  while (existing.includes(key)) key = `${base}_${suffix++}`;
+  return key;
+}
+
+export default function WorkflowPage() {
+  const { data, isLoading } = useAdminWorkflow();
+  const updateWorkflow = useUpdateWorkflow();
+  const resetWorkflow = useResetWorkflow();
+
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+  const [transitions, setTransitions] = useState<WorkflowTransition[]>([]);
+  const [newLabel, setNewLabel] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  // Start editing from the stored workflow whenever it (re)loads
+  useEffect(() => {
+    if (data) {
+      setStatuses(data.workflow.statuses);
+      setTransitions(data.workflow.transitions);
+    }
+  }, [data]);
+
+  if (isLoading || !data) {
+    return <div className="flex justify-center py-12"><Spinner /></div>;
+  }
+
+  const taskCounts = data.taskCounts;
+  const statusOptions = statuses.map((s) => ({ value: s.key, label: s.label }));
+
+  function updateStatus(index: number, changes: Partial<WorkflowStatus>) {
+    setSaved(false);
+    setStatuses((list) => list.map((s, i) => {
+      if (changes.isInitial) return { ...s, ...(i === index ? changes : { isInitial: false }) };
+      return i === index ? { ...s, ...changes } : s;
+    }));
+  }
+
+  function moveStatus(index: number, direction: -1 | 1) {
+    const target = index + direction;
+    if (target < 0 || target >= statuses.length) return;
+    setSaved(false);
+    setStatuses((list) => {
+      const next = [...list];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  function removeStatus(key: string) {
+    setSaved(false);
+    setStatuses((list) => list.filter((s) => s.key !== key));
+    setTransitions((list) => list.filter((t) => t.from !== key && t.to !== key));
+  }
+
+  function addStatus() {
+    if (!newLabel.trim()) return;
+    setSaved(false);
+    setStatuses((list) => [
+      ...list,
+      {
+        key: generateKey(newLabel, list.map((s) => s.key)),
+        label: newLabel.trim(),
+        color: '#6b7280',
+        category: 'in_progress',
+        isInitial: list.length === 0,
+      },
+    ]);
+    setNewLabel('');
+  }
+
+  function updateTransition(index: number, changes: Partial<WorkflowTransition>) {
+    setSaved(false);
+    setTransitions((list) => list.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  }
+
+  function toggleRole(index: number, role: UserRole) {
+    const roles = transitions[index].allowedRoles;
+    updateTransition(index, {
+      allowedRoles: roles.includes(role) ? roles.filter((r) => r !== role) : [...roles, role],
+    });
+  }
+
+  function addTransition() {
+    if (statuses.length < 2) return;
+    setSaved(false);
+    setTransitions((list) => [
+      ...list,
+      {
+        from: statuses[0].key,
+        to: statuses[1].key,
+        allowedRoles: [],
+        requiresComment: false,
+        requiresPhoto: false,
+        allowExternal: false,
+      },
+    ]);
+  }
+
+  async function handleSave() {
+    setErrors([]);
+    try {
+      await updateWorkflow.mutateAsync({ statuses, transitions });
+      setSaved(true);
+    } catch (err: any) {
+      const details = err?.response?.data?.error?.details;
+      setErrors(details?.workflowErrors || [err?.response?.data?.error?.message || 'Failed to save workflow']);
+    }
+  }
+
+  async function handleReset() {
+    if (!confirm('Replace this workflow with the built-in Open → In Progress → Completed → Verified workflow?')) return;
+    setErrors([]);
+    try {
+      await resetWorkflow.mutateAsync();
+      setSaved(true);
+    } catch (err: any) {
+      setErrors([err?.response?.data?.error?.message || 'Failed to reset workflow']);
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Task Workflow</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Statuses tasks move through and who may move them. Each status belongs to a category used for
+            statistics and protocols.
+          </p>
+        </div>
+        {data.workflow.isDefault && <Badge variant="gray">Built-in workflow</Badge>}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="rounded-lg bg-red-50 border border-red-200 p-3">
+          {errors.map((e) => <p key={e} className="text-sm text-red-700">{e}</p>)}
+        </div>
+      )}
+      {saved && (
+        <div className="rounded-lg bg-green-50 border border-green-200 p-3">
+          <p className="text-sm text-green-700">Workflow saved.</p>
+        </div>
+      )}
+
+      {/* Statuses */}
+      <Card>
+        <CardHeader>
+          <h2 className="font-semibold text-gray-900">Statuses</h2>
+        </CardHeader>
+        <CardBody>
+          <div className="space-y-3">
+            {statuses.map((status, index) => {
+              const count = taskCounts[status.key] || 0;
+              return (
+                <div key={status.key} className="flex flex-wrap items-center gap-3 py-2 border-b border-gray-100 last:border-0">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => moveStatus(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30 text-xs"
+                      aria-label="Move up"
+                    >
+                      &#9650;
+                    </button>
+                    <button
+                      onClick={() => moveStatus(index, 1)}
+                      disabled={index === statuses.length - 1}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30 text-xs"
+                      aria-label="Move down"
+                    >
+                      &#9660;
+                    </button>
+                  </div>
+                  <input
+                    type="color"
+                    value={status.color}
+                    onChange={(e) => updateStatus(index, { color: e.target.value })}
+                    className="h-8 w-8 rounded border border-gray-300 cursor-pointer"
+                    aria-label="Color"
+                  />
+                  <div className="w-44">
+                    <Input
+                      value={status.label}
+                      onChange={(e) => updateStatus(index, { label: e.target.value })}
+                    />
+                  </div>
+                  <div className="w-36">
+                    <Select
+                      options={CATEGORY_OPTIONS}
+                      value={status.category}
+                      onChange={(e) => updateStatus(index, { category: e.target.value as StatusCategory })}
+                    />
+                  </div>
+                  <label className="flex items-center gap-1.5 text-sm text-gray-600">
+                    <input
+                      type="radio"
+                      name="initial-status"
+                      checked={status.isInitial}
+                      onChange={() => updateStatus(index, { isInitial: true })}
+                    />
+                    Initial
+                  </label>
+                  <StatusBadge status={status.key} statuses={statuses} />
+                  <span className="text-xs text-gray-400 font-mono">{status.key}</span>
+                  <div className="flex-1" />
+                  <span className="text-xs text-gray-500">{count} task{count !== 1 ? 's' : ''}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeStatus(status.key)}
+                    disabled={count > 0}
+                    title={count > 0 ? 'Move tasks out of this status before removing it' : undefined}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-2 mt-4">
+            <div className="w-64">
+              <Input
+                placeholder="New status label"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addStatus()}
+              />
+            </div>
+            <Button variant="secondary" size="sm" onClick={addStatus} disabled={!newLabel.trim()}>
+              Add Status
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+
+      {/* Transitions */}
+      <Card>
+        <CardHeader>
+          <h2 className="font-semibold text-gray-900">Transitions</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            With no roles selected, any signed-in user may perform the transition.
+            External contractors (portal and email replies) only get transitions marked as such.
+          </p>
+        </CardHeader>
+        <CardBody>
+          {transitions.length === 0 ? (
+            <p className="text-sm text-gray-500">No transitions — tasks cannot change status.</p>
+          ) : (
+            <div className="space-y-3">
+              {transitions.map((transition, index) => (
+                <div key={index} className="py-2 border-b border-gray-100 last:border-0 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <div className="w-44">
+                      <Select
+                        options={statusOptions}
+                        value={transition.from}
+                        onChange={(e) => updateTransition(index, { from: e.target.value })}
+                      />
+                    </div>
+                    <span className="text-gray-400">&rarr;</span>
+                    <div className="w-44">
+                      <Select
+                        options={statusOptions}
+                        value={transition.to}
+                        onChange={(e) => updateTransition(index, { to: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex-1" />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setSaved(false);
+                        setTransitions((list) => list.filter((_, i) => i !== index));
+                      }}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                    {ROLE_OPTIONS.map((role) => (
+                      <label key={role.value} className="flex items-center gap-1.5">
+                        <input
+                          type="checkbox"
+                          checked={transition.allowedRoles.includes(role.value)}
+                          onChange={() => toggleRole(index, role.value)}
+                        />
+                        {role.label}
+                      </label>
+                    ))}
+                    <span className="text-gray-300">|</span>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={transition.allowExternal}
+                        onChange={(e) => updateTransition(index, { allowExternal: e.target.checked })}
+                      />
+                      External contractors
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={transition.requiresComment}
+                        onChange={(e) => updateTransition(index, { requiresComment: e.target.checked })}
+                      />
+                      Requires comment
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={transition.requiresPhoto}
+                        onChange={(e) => updateTransition(index, { requiresPhoto: e.target.checked })}
+                      />
+                      Requires photo
+                    </label>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <Button variant="secondary" size="sm" className="mt-4" onClick={addTransition} disabled={statuses.length < 2}>
+            Add Transition
+          </Button>
+        </CardBody>
+      </Card>
+
+      <div className="flex justify-between">
+        <Button variant="ghost" onClick={handleReset} loading={resetWorkflow.isPending} disabled={data.workflow.isDefault}>
+          Reset to Built-in
+        </Button>
+        <div className="flex gap-3">
+          <Button
+            variant="secondary"
+            onClick={() => {
+              setStatuses(data.workflow.statuses);
+              setTransitions(data.workflow.transitions);
+              setErrors([]);
+            }}
+          >
+            Discard Changes
+          </Button>
+          <Button onClick={handleSave} loading={updateWorkflow.isPending}>Save Workflow</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { useMentions } from '../../hooks/useMentions';
+import type { Mention } from '../../services/mention.api';
+import Button from '../../components/ui/Button';
+import Spinner from '../../components/ui/Spinner';
+import EmptyState from '../../components/ui/EmptyState';
+import MentionText from '../../components/mentions/MentionText';
+
+function mentionLink(mention: Mention): string {
+  return mention.task_id
+    ? `/projects/${mention.project_id}/tasks/${mention.task_id}`
+    : `/projects/${mention.project_id}?tab=notes`;
+}
+
+function mentionSource(mention: Mention): string {
+  return mention.task_id
+    ? `commented on #${mention.task_number}: ${mention.task_title}`
+    : 'wrote a project note';
+}
+
+export default function MentionsPage() {
+  const navigate = useNavigate();
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useMentions(page);
+  const mentions = data?.mentions || [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Mentions</h1>
+        {data && <span className="text-sm text-gray-500">{data.total} mention{data.total !== 1 ? 's' : ''}</span>}
+      </div>
+
+      {mentions.length === 0 ? (
+        <EmptyState
+          title="No mentions yet"
+          description="When someone @mentions you in a task comment or project note, it shows up here."
+        />
+      ) : (
+        <div className="space-y-2">
+          {mentions.map((mention) => (
+            <div
+              key={mention.id}
+              onClick={() => navigate(mentionLink(mention))}
+              className="p-3 bg-white rounded-lg border border-gray-200 hover:border-gray-300 hover:shadow-sm transition-all cursor-pointer"
+            >
+              <p className="text-sm text-gray-600">
+                <span className="font-medium text-gray-900">
+                  {mention.author_first_name ? `${mention.author_first_name} ${mention.author_last_name}` : 'Someone'}
+                </span>{' '}
+                {mentionSource(mention)}
+              </p>
+              <p className="text-sm text-gray-800 mt-1 whitespace-pre-wrap line-clamp-3">
+                <MentionText text={mention.text} />
+              </p>
+              <p className="text-xs text-gray-400 mt-1">
+                {mention.project_name} · {formatDistanceToNow(new Date(mention.created_at), { addSuffix: true })}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data && data.totalPages > 1 && (
+        <div className="flex justify-center gap-2 mt-6">
+          <Button variant="secondary" onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page === 1}>
+            Previous
+          </Button>
+          <span className="flex items-center px-3 text-sm text-gray-600">
+            Page {page} of {data.totalPages}
+          </span>
+          <Button variant="secondary" onClick={() => setPage((p) => p + 1)} disabled={page >= data.totalPages}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
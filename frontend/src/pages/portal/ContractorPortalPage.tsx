@@ -0,0 +1,348 @@
+import { useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  usePortalOverview,
+  usePortalTask,
+  usePortalComment,
+  usePortalStatus,
+} from '../../hooks/useContractorPortal';
+import { useFileUpload } from '../../hooks/useFileUpload';
+import { contractorPortalApi } from '../../services/contractorPortal.api';
+import PdfAnnotationViewer from '../../components/blueprints/PdfAnnotationViewer';
+import type { Annotation } from '../../components/blueprints/PdfAnnotationViewer';
+import type { PortalTransition } from '../../services/contractorPortal.api';
+import { statusColorMap } from '../../hooks/useWorkflow';
+import Spinner from '../../components/ui/Spinner';
+import Button from '../../components/ui/Button';
+import StatusBadge from '../../components/ui/StatusBadge';
+
+const MAX_PHOTO_SIZE = 10 * 1024 * 1024; // 10 MB
+const ALLOWED_TYPES = ['image/jpeg', 'image/png'];
+
+export default function ContractorPortalPage() {
+  const { token } = useParams<{ token: string }>();
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const { data, isLoading, error } = usePortalOverview(token || '');
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="w-full max-w-md text-center p-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">TaskProof</h1>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-4">
+            <p className="text-gray-700 font-medium">Invalid or expired link</p>
+            <p className="text-sm text-gray-500 mt-1">
+              This link is no longer valid. Ask the project manager to send you a new one.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-6 px-4">
+      <div className="w-full max-w-3xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">{data.project.name}</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Tasks assigned to {data.contractorEmail} · link valid until {format(new Date(data.expiresAt), 'yyyy-MM-dd')}
+          </p>
+        </div>
+
+        {selectedTaskId ? (
+          <PortalTaskDetail
+            token={token!}
+            taskId={selectedTaskId}
+            onBack={() => setSelectedTaskId(null)}
+          />
+        ) : data.tasks.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 text-center">
+            <p className="text-gray-700 font-medium">No open tasks</p>
+            <p className="text-sm text-gray-500 mt-1">All tasks assigned to you in this project are done.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {data.tasks.map((task) => (
+              <button
+                key={task.id}
+                onClick={() => setSelectedTaskId(task.id)}
+                className="w-full text-left bg-white rounded-xl shadow-sm border border-gray-200 p-4 hover:border-primary-300"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      #{task.task_number} {task.title}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {task.photo_count} photo{task.photo_count !== 1 ? 's' : ''} · {task.comment_count} comment{task.comment_count !== 1 ? 's' : ''}
+                      {task.trade && ` · ${task.trade}`}
+                    </p>
+                  </div>
+                  <StatusBadge status={task.status} statuses={data.statuses} />
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PortalTaskDetail({ token, taskId, onBack }: { token: string; taskId: string; onBack: () => void }) {
+  const { data, isLoading } = usePortalTask(token, taskId);
+  const addComment = usePortalComment(token, taskId);
+  const updateStatus = usePortalStatus(token, taskId);
+  const [commentText, setCommentText] = useState('');
+  const [pendingTransition, setPendingTransition] = useState<PortalTransition | null>(null);
+  const [statusComment, setStatusComment] = useState('');
+
+  if (isLoading || !data) {
+    return <div className="flex justify-center py-12"><Spinner /></div>;
+  }
+
+  const { task, photos, comments, blueprint, statuses, transitions } = data;
+
+  const annotation: Annotation | null = (task.annotation_x != null && task.annotation_y != null &&
+    task.annotation_width != null && task.annotation_height != null && task.annotation_page != null)
+    ? {
+        taskId: task.id,
+        taskNumber: task.task_number,
+        status: task.status,
+        x: task.annotation_x,
+        y: task.annotation_y,
+        width: task.annotation_width,
+        height: task.annotation_height,
+        page: task.annotation_page,
+      }
+    : null;
+
+  async function handleTransition(transition: PortalTransition, comment?: string) {
+    if (transition.requiresComment && !comment) {
+      setPendingTransition(transition);
+      return;
+    }
+    await updateStatus.mutateAsync({ status: transition.to, comment });
+    setPendingTransition(null);
+    setStatusComment('');
+  }
+
+  async function handleCommentSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!commentText.trim()) return;
+    await addComment.mutateAsync(commentText.trim());
+    setCommentText('');
+  }
+
+  return (
+    <div className="space-y-4">
+      <button onClick={onBack} className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center gap-1">
+        &larr; All tasks
+      </button>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">#{task.task_number} {task.title}</h2>
+            {task.trade && <p className="text-sm text-gray-500">{task.trade}</p>}
+          </div>
+          <StatusBadge status={task.status} statuses={statuses} size="md" />
+        </div>
+        {task.description && <p className="text-sm text-gray-700 whitespace-pre-wrap">{task.description}</p>}
+
+        {transitions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {transitions.map((transition) => {
+              const needsPhoto = transition.requiresPhoto && photos.length === 0;
+              return (
+                <Button
+                  key={transition.to}
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => handleTransition(transition)}
+                  loading={updateStatus.isPending}
+                  disabled={needsPhoto}
+                  title={needsPhoto ? 'Add a photo first' : undefined}
+                >
+                  Move to {transition.label}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+        {pendingTransition && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">Add a comment to move this task to {pendingTransition.label}.</p>
+            <textarea
+              value={statusComment}
+              onChange={(e) => setStatusComment(e.target.value)}
+              rows={3}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleTransition(pendingTransition, statusComment.trim())}
+                loading={updateStatus.isPending}
+                disabled={!statusComment.trim()}
+              >
+                Move to {pendingTransition.label}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => { setPendingTransition(null); setStatusComment(''); }}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+        {updateStatus.isError && (
+          <p className="text-sm text-red-600">
+            {(updateStatus.error as any).response?.data?.error?.message || (updateStatus.error as Error).message}
+          </p>
+        )}
+      </div>
+
+      {blueprint && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">Location — {blueprint.name}</h3>
+          <PdfAnnotationViewer
+            pdfUrl={blueprint.download_url}
+            annotations={annotation ? [annotation] : []}
+            initialPage={annotation?.page || task.annotation_markers?.[0]?.page || 1}
+            markers={task.annotation_markers || []}
+            taskNumber={task.task_number}
+            statusColors={statusColorMap(statuses)}
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-700">Photos ({photos.length})</h3>
+          <PortalPhotoUploader token={token} taskId={taskId} />
+        </div>
+        {photos.length === 0 ? (
+          <p className="text-sm text-gray-500">No photos yet.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {photos.map((photo) => (
+              <a key={photo.id} href={photo.download_url} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={photo.thumbnail_download_url || photo.download_url}
+                  alt={photo.caption || 'Task photo'}
+                  className="w-full aspect-square object-cover rounded-lg border border-gray-200"
+                />
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">Comments</h3>
+        <div className="space-y-3 mb-4">
+          {comments.length === 0 && <p className="text-sm text-gray-500">No comments yet.</p>}
+          {comments.map((comment) => (
+            <div key={comment.id} className="text-sm">
+              <p className="text-xs text-gray-500">
+                <span className="font-medium text-gray-700">
+                  {comment.user_first_name ? `${comment.user_first_name} ${comment.user_last_name}` : comment.external_email}
+                </span>
+                {' · '}{format(new Date(comment.created_at), 'yyyy-MM-dd HH:mm')}
+              </p>
+              <p className="text-gray-800 whitespace-pre-wrap">{comment.comment_text}</p>
+            </div>
+          ))}
+        </div>
+        <form onSubmit={handleCommentSubmit} className="flex gap-2">
+          <input
+            type="text"
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            placeholder="Write a comment..."
+            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <Button type="submit" size="sm" loading={addComment.isPending} disabled={!commentText.trim()}>
+            Send
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function PortalPhotoUploader({ token, taskId }: { token: string; taskId: string }) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const { state, progress, error, upload, reset } = useFileUpload({
+    onRequestUrl: async (file) => {
+      const result = await contractorPortalApi.requestPhotoUpload(token, taskId, {
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+      });
+      return { uploadUrl: result.uploadUrl, resourceId: result.photoId };
+    },
+    onConfirm: async (photoId) => {
+      await contractorPortalApi.confirmPhoto(token, taskId, photoId);
+      queryClient.invalidateQueries({ queryKey: ['portal', token] });
+    },
+  });
+
+  function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setValidationError(null);
+    if (!ALLOWED_TYPES.includes(file.type)) {
+      setValidationError('Only JPG and PNG files are allowed');
+      return;
+    }
+    if (file.size > MAX_PHOTO_SIZE) {
+      setValidationError('File must be smaller than 10 MB');
+      return;
+    }
+
+    reset();
+    upload(file);
+  }
+
+  const isUploading = state === 'uploading' || state === 'confirming';
+
+  return (
+    <div className="text-right">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".jpg,.jpeg,.png"
+        capture="environment"
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        loading={isUploading}
+        disabled={isUploading}
+      >
+        {isUploading ? `Uploading ${progress}%` : 'Add Photo'}
+      </Button>
+      {(error || validationError) && (
+        <p className="mt-1 text-xs text-red-600">{error || validationError}</p>
+      )}
+    </div>
+  );
+}
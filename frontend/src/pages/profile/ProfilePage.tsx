@@ -4,6 +4,7 @@ import { userApi } from '../../services/user.api';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import Card, { CardBody, CardHeader } from '../../components/ui/Card';
+import NotificationPreferencesCard from '../../components/notifications/NotificationPreferencesCard';
 
 function validatePassword(password: string): string | null {
   if (password.length < 8) return 'Password must be at least 8 characters long';
@@ -142,6 +143,8 @@ export default function ProfilePage() {
         </CardBody>
       </Card>
 
+      <NotificationPreferencesCard />
+
       {/* Change Password */}
       <Card>
         <CardHeader>
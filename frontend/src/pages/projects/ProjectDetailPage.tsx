@@ -1,12 +1,14 @@
-import { useState, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { useProject, useUpdateProject } from '../../hooks/useProjects';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { useProject, useUpdateProject, useProjectMembers } from '../../hooks/useProjects';
 import { useTasks, useCreateTask } from '../../hooks/useTasks';
+import { useTaskTemplates } from '../../hooks/useTaskTemplates';
 import { useUsers } from '../../hooks/useUsers';
 import { useFileUpload } from '../../hooks/useFileUpload';
 import { useCustomFieldDefinitions } from '../../hooks/useCustomFields';
+import { useSavedViews } from '../../hooks/useSavedViews';
 import { useAuthStore } from '../../stores/authStore';
-import { UserRole } from '../../types';
+import { ProjectRole, UserRole } from '../../types';
 import { projectApi } from '../../services/project.api';
 import Badge from '../../components/ui/Badge';
 import Button from '../../components/ui/Button';
@@ -16,18 +18,29 @@ import Input from '../../components/ui/Input';
 import Select from '../../components/ui/Select';
 import Spinner from '../../components/ui/Spinner';
 import EmptyState from '../../components/ui/EmptyState';
+import DueDateBadge from '../../components/ui/DueDateBadge';
 import BlueprintList from '../../components/blueprints/BlueprintList';
 import NoteList from '../../components/notes/NoteList';
 import ProtocolPage from '../protocols/ProtocolPage';
 import CustomFieldsRenderer from '../../components/common/CustomFieldsRenderer';
-
-const STATUS_OPTIONS = [
-  { value: '', label: 'All' },
-  { value: 'open', label: 'Open' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'completed', label: 'Completed' },
-  { value: 'verified', label: 'Verified' },
-];
+import EmailQuarantinePanel from '../../components/email/EmailQuarantinePanel';
+import ContractorLinksModal from '../../components/portal/ContractorLinksModal';
+import BulkActionBar from '../../components/tasks/BulkActionBar';
+import TaskImportModal from '../../components/tasks/TaskImportModal';
+import ChecklistProgress from '../../components/tasks/ChecklistProgress';
+import ProjectMembersPanel from '../../components/projects/ProjectMembersPanel';
+import ProjectRecurrencesPanel from '../../components/projects/ProjectRecurrencesPanel';
+import TaskFilterPanel from '../../components/tasks/TaskFilterPanel';
+import SavedViewsMenu from '../../components/tasks/SavedViewsMenu';
+import {
+  taskApi,
+  taskFiltersFromParams,
+  taskFiltersToParams,
+  completeTaskFilters,
+  normalizeTaskFilters,
+  type TaskFilterValues,
+} from '../../services/task.api';
+import type { SavedView } from '../../types';
 
 const PRIORITY_OPTIONS = [
   { value: 'low', label: 'Low' },
@@ -40,6 +53,7 @@ const SORT_OPTIONS = [
   { value: 'number', label: 'Number' },
   { value: 'date', label: 'Date' },
   { value: 'user', label: 'User' },
+  { value: 'due', label: 'Due date' },
 ];
 
 const PROJECT_STATUS_OPTIONS = [
@@ -60,15 +74,70 @@ export default function ProjectDetailPage() {
   const navigate = useNavigate();
   const { data: project, isLoading: projectLoading } = useProject(projectId!);
   const user = useAuthStore((s) => s.user);
-  const canEdit = user?.role === UserRole.SUPER_ADMIN || user?.role === UserRole.ORG_ADMIN || user?.role === UserRole.PROJECT_MANAGER;
-
-  const [filters, setFilters] = useState<{ status?: string; search?: string }>({});
-  const [sortBy, setSortBy] = useState<string>('number');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
-  const { data: taskData, isLoading: tasksLoading } = useTasks(projectId!, filters);
+  // Org admins come back as project managers; viewers are read-only
+  const isProjectManager = project?.member_role === ProjectRole.MANAGER;
+  const canEdit = isProjectManager
+    && (user?.role === UserRole.SUPER_ADMIN || user?.role === UserRole.ORG_ADMIN || user?.role === UserRole.PROJECT_MANAGER);
+  const canWrite = !!project && project.member_role !== ProjectRole.VIEWER;
+
+  // Filters, sort and the active saved view live in the URL so they survive navigation
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => taskFiltersFromParams(searchParams), [searchParams]);
+  const viewId = searchParams.get('view') || undefined;
+  const sortBy = searchParams.get('sortBy') || 'number';
+  const sortOrder = searchParams.get('sortOrder') === 'desc' ? 'desc' : 'asc';
+  const { data: views, isSuccess: viewsLoaded } = useSavedViews(projectId!);
+  const activeView = views?.find((v) => v.id === viewId);
+  const viewFilters = useMemo(() => normalizeTaskFilters(activeView?.filters || {}), [activeView]);
+  // A link to a view (e.g. from the sidebar) carries no filters until they are copied into the URL
+  const viewPending = !!viewId && Object.keys(filters).length === 0;
+  const requestFilters = completeTaskFilters(filters);
+  const { data: taskData, isLoading: tasksLoading } = useTasks(
+    projectId!,
+    viewPending ? { viewId } : requestFilters,
+  );
+  const [showFilters, setShowFilters] = useState(false);
+  // Bumped when a view is applied so the filter panel picks up its values
+  const [filterPanelKey, setFilterPanelKey] = useState(0);
   const [showCreateTask, setShowCreateTask] = useState(false);
   const [showEditProject, setShowEditProject] = useState(false);
-  const [activeTab, setActiveTab] = useState('tasks');
+  const [showContractorLinks, setShowContractorLinks] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  // Links such as notifications may open a tab directly with ?tab=
+  const [activeTab, setActiveTab] = useState(() => searchParams.get('tab') || 'tasks');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Every task matching the filters, including those beyond the loaded page
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+
+  // A selection only makes sense for the filter it was made under
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+  }, [filters]);
+
+  function updateUrl(next: { filters?: TaskFilterValues; view?: string | null; sortBy?: string; sortOrder?: string }) {
+    const params = taskFiltersToParams(next.filters ?? filters, { keepIncomplete: true });
+    const view = next.view === undefined ? viewId : next.view;
+    if (view) params.set('view', view);
+    const sort = next.sortBy ?? sortBy;
+    const order = next.sortOrder ?? sortOrder;
+    if (sort !== 'number') params.set('sortBy', sort);
+    if (order !== 'asc') params.set('sortOrder', order);
+    setSearchParams(params, { replace: true });
+  }
+
+  useEffect(() => {
+    if (!viewPending || !viewsLoaded) return;
+    if (!activeView) {
+      // Deleted or no longer shared
+      updateUrl({ view: null });
+    } else if (Object.keys(viewFilters).length > 0) {
+      updateUrl({ filters: viewFilters });
+      setFilterPanelKey((k) => k + 1);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewPending, viewsLoaded, activeView, viewFilters]);
 
   if (projectLoading) {
     return <div className="flex justify-center py-12"><Spinner /></div>;
@@ -81,6 +150,50 @@ export default function ProjectDetailPage() {
   const rawTasks = taskData?.data?.tasks || [];
   const taskCount = taskData?.meta?.pagination?.total || rawTasks.length;
 
+  const isViewModified = !!activeView && !viewPending
+    && taskFiltersToParams(requestFilters).toString() !== taskFiltersToParams(viewFilters).toString();
+  const activeFilterCount = Object.keys(filters).filter((k) => k !== 'search' && k !== 'overdue' && k !== 'blocked').length;
+
+  function selectView(view: SavedView | null) {
+    updateUrl({ filters: view ? normalizeTaskFilters(view.filters) : {}, view: view?.id ?? null });
+    setFilterPanelKey((k) => k + 1);
+  }
+
+  const allVisibleSelected = rawTasks.length > 0 && rawTasks.every((t: any) => selectedIds.has(t.id));
+
+  function toggleTask(taskId: string) {
+    setSelectAllMatching(false);
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  }
+
+  function toggleAllVisible() {
+    setSelectAllMatching(false);
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(rawTasks.map((t: any) => t.id)));
+  }
+
+  async function handleExport() {
+    setExporting(true);
+    try {
+      await taskApi.exportTasks(projectId!, {
+        ...(viewPending ? { viewId } : requestFilters),
+        sortBy: sortBy as 'number' | 'date' | 'user' | 'due', sortOrder });
+    } catch {
+      // Silently fail — user will see no download
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function clearSelection() {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+  }
+
   const tasks = [...rawTasks].sort((a: any, b: any) => {
     let cmp = 0;
     switch (sortBy) {
@@ -96,6 +209,12 @@ export default function ProjectDetailPage() {
         cmp = na.localeCompare(nb);
         break;
       }
+      case 'due': {
+        // Tasks without a due date go last in either direction
+        if (!a.due_date || !b.due_date) return (a.due_date ? 0 : 1) - (b.due_date ? 0 : 1);
+        cmp = new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+        break;
+      }
       default:
         cmp = (a.task_number || 0) - (b.task_number || 0);
     }
@@ -138,6 +257,11 @@ export default function ProjectDetailPage() {
             <Badge variant={project.status === 'active' ? 'green' : 'gray'} size="md">
               {project.status}
             </Badge>
+            {canEdit && (
+              <Button variant="secondary" onClick={() => setShowContractorLinks(true)}>
+                Contractor Links
+              </Button>
+            )}
             {canEdit && (
               <Button variant="secondary" onClick={() => setShowEditProject(true)}>
                 Edit
@@ -158,7 +282,7 @@ export default function ProjectDetailPage() {
       {/* Tabs */}
       <div className="border-b border-gray-200 mb-6">
         <div className="flex gap-4">
-          {['tasks', 'blueprints', 'protocols', 'notes'].map((tab) => (
+          {['tasks', 'recurrences', 'blueprints', 'protocols', 'notes', 'members'].map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -176,30 +300,41 @@ export default function ProjectDetailPage() {
 
       {activeTab === 'tasks' && (
         <>
+          {canEdit && <EmailQuarantinePanel projectId={projectId!} />}
+
+          {/* Saved views */}
+          <div className="mb-3">
+            <SavedViewsMenu
+              projectId={projectId!}
+              activeViewId={viewId}
+              isModified={isViewModified}
+              filters={requestFilters}
+              isProjectManager={isProjectManager}
+              canSave={canWrite}
+              onSelect={selectView}
+            />
+          </div>
+
           {/* Filters */}
           <div className="flex flex-wrap items-center gap-3 mb-4">
             <Input
               placeholder="Search tasks..."
               value={filters.search || ''}
-              onChange={(e) => setFilters((f) => ({ ...f, search: e.target.value || undefined }))}
+              onChange={(e) => updateUrl({ filters: { ...filters, search: e.target.value || undefined } })}
               className="max-w-xs"
             />
-            <Select
-              options={STATUS_OPTIONS}
-              value={filters.status || ''}
-              onChange={(e) => setFilters((f) => ({ ...f, status: e.target.value || undefined }))}
-              placeholder="Status"
-              className="max-w-[150px]"
-            />
+            <Button variant="secondary" size="sm" onClick={() => setShowFilters((v) => !v)}>
+              Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+            </Button>
             <Select
               options={SORT_OPTIONS}
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
+              onChange={(e) => updateUrl({ sortBy: e.target.value })}
               className="max-w-[140px]"
             />
             <button
               type="button"
-              onClick={() => setSortOrder((o) => o === 'asc' ? 'desc' : 'asc')}
+              onClick={() => updateUrl({ sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' })}
               className="inline-flex items-center gap-1 px-2 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
               title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
             >
@@ -214,10 +349,45 @@ export default function ProjectDetailPage() {
               )}
               {sortOrder === 'asc' ? 'Asc' : 'Desc'}
             </button>
+            <label className="inline-flex items-center gap-1.5 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={!!filters.overdue}
+                onChange={(e) => updateUrl({ filters: { ...filters, overdue: e.target.checked || undefined } })}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Overdue only
+            </label>
+            <label className="inline-flex items-center gap-1.5 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={!!filters.blocked}
+                onChange={(e) => updateUrl({ filters: { ...filters, blocked: e.target.checked || undefined } })}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Blocked only
+            </label>
             <div className="flex-1" />
-            <Button onClick={() => setShowCreateTask(true)}>Add Task</Button>
+            <Button variant="secondary" size="sm" onClick={handleExport} loading={exporting}>
+              Export
+            </Button>
+            {canEdit && (
+              <Button variant="secondary" size="sm" onClick={() => setShowImport(true)}>
+                Import
+              </Button>
+            )}
+            {canWrite && <Button onClick={() => setShowCreateTask(true)}>Add Task</Button>}
           </div>
 
+          {showFilters && (
+            <TaskFilterPanel
+              key={filterPanelKey}
+              projectId={projectId!}
+              filters={filters}
+              onChange={(next) => updateUrl({ filters: next })}
+            />
+          )}
+
           {/* Task list */}
           {tasksLoading ? (
             <div className="flex justify-center py-8"><Spinner /></div>
@@ -225,18 +395,53 @@ export default function ProjectDetailPage() {
             <EmptyState
               title="No tasks"
               description="Create your first task for this project."
-              action={<Button onClick={() => setShowCreateTask(true)}>Add Task</Button>}
+              action={canWrite ? <Button onClick={() => setShowCreateTask(true)}>Add Task</Button> : undefined}
             />
           ) : (
             <div className="space-y-2">
-              <p className="text-sm text-gray-500 mb-2">{taskCount} tasks</p>
+              <div className="flex items-center gap-3 mb-2 px-3">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleAllVisible}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  aria-label="Select all tasks"
+                />
+                <p className="text-sm text-gray-500">{taskCount} tasks</p>
+                {allVisibleSelected && taskCount > rawTasks.length && (
+                  selectAllMatching ? (
+                    <span className="text-sm text-gray-700">All {taskCount} matching tasks selected</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setSelectAllMatching(true)}
+                      className="text-sm text-primary-600 hover:text-primary-800"
+                    >
+                      Select all {taskCount} matching tasks
+                    </button>
+                  )
+                )}
+              </div>
               {tasks.map((task: any) => (
                 <TaskRow
                   key={task.id}
                   task={task}
+                  selected={selectAllMatching || selectedIds.has(task.id)}
+                  onToggle={() => toggleTask(task.id)}
                   onClick={() => navigate(`/projects/${projectId}/tasks/${task.id}`)}
                 />
               ))}
+              {canWrite && (selectAllMatching || selectedIds.size > 0) && (
+                <BulkActionBar
+                  projectId={projectId!}
+                  selection={selectAllMatching
+                    ? { filter: viewPending ? viewFilters : requestFilters }
+                    : { taskIds: [...selectedIds] }}
+                  count={selectAllMatching ? taskCount : selectedIds.size}
+                  canDelete={canEdit}
+                  onClear={clearSelection}
+                />
+              )}
             </div>
           )}
 
@@ -245,11 +450,20 @@ export default function ProjectDetailPage() {
             onClose={() => setShowCreateTask(false)}
             projectId={projectId!}
           />
+          <TaskImportModal
+            isOpen={showImport}
+            onClose={() => setShowImport(false)}
+            projectId={projectId!}
+          />
         </>
       )}
 
+      {activeTab === 'recurrences' && (
+        <ProjectRecurrencesPanel projectId={projectId!} canManage={isProjectManager} />
+      )}
+
       {activeTab === 'blueprints' && (
-        <BlueprintList projectId={projectId!} />
+        <BlueprintList projectId={projectId!} canManage={canEdit} />
       )}
 
       {activeTab === 'protocols' && (
@@ -260,6 +474,19 @@ export default function ProjectDetailPage() {
         <NoteList projectId={projectId!} />
       )}
 
+      {activeTab === 'members' && (
+        <ProjectMembersPanel projectId={projectId!} canManage={isProjectManager} />
+      )}
+
+      {showContractorLinks && (
+        <ContractorLinksModal
+          isOpen={showContractorLinks}
+          onClose={() => setShowContractorLinks(false)}
+          projectId={projectId!}
+          contractorEmails={[...new Set<string>(rawTasks.map((t: any) => t.assigned_to_contractor_email).filter(Boolean))]}
+        />
+      )}
+
       {showEditProject && (
         <EditProjectModal
           isOpen={showEditProject}
@@ -282,7 +509,12 @@ function StatCard({ label, value, color }: { label: string; value: number; color
   );
 }
 
-function TaskRow({ task, onClick }: { task: any; onClick: () => void }) {
+function TaskRow({ task, selected, onToggle, onClick }: {
+  task: any;
+  selected: boolean;
+  onToggle: () => void;
+  onClick: () => void;
+}) {
   const date = task.created_at ? new Date(task.created_at).toLocaleDateString() : '';
   return (
     <div
@@ -290,11 +522,24 @@ function TaskRow({ task, onClick }: { task: any; onClick: () => void }) {
       className="flex items-center justify-between p-3 bg-white rounded-lg border border-gray-200 hover:border-gray-300 hover:shadow-sm transition-all cursor-pointer"
     >
       <div className="flex items-center gap-3 min-w-0">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onToggle}
+          onClick={(e) => e.stopPropagation()}
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 flex-shrink-0"
+          aria-label={`Select task ${task.task_number}`}
+        />
         <span className="text-gray-500 font-mono text-sm w-8 text-right flex-shrink-0">{task.task_number}</span>
         <span className="text-gray-400 text-xs w-20 flex-shrink-0">{date}</span>
         <p className="font-medium text-gray-900 truncate">{task.title}</p>
       </div>
       <div className="flex items-center gap-3 ml-4 flex-shrink-0">
+        {task.open_blocker_count > 0 && <Badge variant="purple">Blocked</Badge>}
+        {task.checklist_item_count > 0 && (
+          <ChecklistProgress checked={task.checklist_checked_count} total={task.checklist_item_count} />
+        )}
+        <DueDateBadge dueDate={task.due_date} daysOverdue={task.days_overdue} />
         <Badge variant={priorityBadge[task.priority] || 'gray'}>{task.priority}</Badge>
         {task.trade && <span className="text-xs text-gray-500">{task.trade}</span>}
       </div>
@@ -304,17 +549,35 @@ function TaskRow({ task, onClick }: { task: any; onClick: () => void }) {
 
 function CreateTaskModal({ isOpen, onClose, projectId }: { isOpen: boolean; onClose: () => void; projectId: string }) {
   const currentUser = useAuthStore((s) => s.user);
-  const { data: usersData } = useUsers({ limit: 200 });
-  const users = usersData?.data?.users || [];
-  const userOptions = users.map((u: any) => ({
-    value: u.id,
-    label: `${u.first_name} ${u.last_name}`,
-  }));
-
-  const [form, setForm] = useState({ title: '', description: '', priority: 'normal', trade: '', assignedToUser: currentUser?.userId || '' });
+  const { data: members = [] } = useProjectMembers(projectId);
+  const userOptions = members
+    .filter((m) => m.is_active)
+    .map((m) => ({ value: m.user_id, label: `${m.first_name} ${m.last_name}` }));
+
+  const [form, setForm] = useState({ title: '', description: '', priority: 'normal', trade: '', assignedToUser: currentUser?.userId || '', dueDate: '' });
+  // Org admins default to themselves but are not necessarily members
+  const assignedToUser = userOptions.some((o) => o.value === form.assignedToUser) ? form.assignedToUser : '';
   const [customFields, setCustomFields] = useState<Record<string, unknown>>({});
   const createTask = useCreateTask(projectId);
   const { data: cfDefinitions = [] } = useCustomFieldDefinitions('task');
+  const { data: templates = [] } = useTaskTemplates();
+  const [templateId, setTemplateId] = useState('');
+  const template = templates.find((t) => t.id === templateId);
+
+  // A template fills in the form; the server attaches its checklist and products
+  function applyTemplate(id: string) {
+    setTemplateId(id);
+    const picked = templates.find((t) => t.id === id);
+    if (!picked) return;
+    setForm((p) => ({
+      ...p,
+      title: picked.title,
+      description: picked.description || '',
+      priority: picked.priority,
+      trade: picked.trade || '',
+    }));
+    setCustomFields((prev) => ({ ...prev, ...picked.custom_fields }));
+  }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -324,12 +587,15 @@ function CreateTaskModal({ isOpen, onClose, projectId }: { isOpen: boolean; onCl
         description: form.description || undefined,
         priority: form.priority,
         trade: form.trade || undefined,
-        assignedToUser: form.assignedToUser || undefined,
+        assignedToUser: assignedToUser || undefined,
+        dueDate: form.dueDate || undefined,
+        templateId: templateId || undefined,
         ...(Object.keys(customFields).length > 0 ? { customFields } : {}),
       });
       onClose();
-      setForm({ title: '', description: '', priority: 'normal', trade: '', assignedToUser: currentUser?.userId || '' });
+      setForm({ title: '', description: '', priority: 'normal', trade: '', assignedToUser: currentUser?.userId || '', dueDate: '' });
       setCustomFields({});
+      setTemplateId('');
     } catch {
       // Error handled by mutation
     }
@@ -338,6 +604,23 @@ function CreateTaskModal({ isOpen, onClose, projectId }: { isOpen: boolean; onCl
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Add Task">
       <form onSubmit={handleSubmit} className="space-y-4">
+        {templates.length > 0 && (
+          <div>
+            <Select
+              label="Template"
+              options={templates.map((t) => ({ value: t.id, label: t.trade ? `${t.trade}: ${t.name}` : t.name }))}
+              placeholder="No template"
+              value={templateId}
+              onChange={(e) => applyTemplate(e.target.value)}
+            />
+            {template && (template.checklist_items.length > 0 || template.products.length > 0) && (
+              <p className="mt-1 text-sm text-gray-500">
+                Adds {template.checklist_items.length} checklist item{template.checklist_items.length !== 1 ? 's' : ''}
+                {' '}and {template.products.length} product{template.products.length !== 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+        )}
         <Input
           label="Title"
           value={form.title}
@@ -369,9 +652,16 @@ function CreateTaskModal({ isOpen, onClose, projectId }: { isOpen: boolean; onCl
           label="Contractor"
           options={userOptions}
           placeholder="Select user"
-          value={form.assignedToUser}
+          value={assignedToUser}
           onChange={(e) => setForm((p) => ({ ...p, assignedToUser: e.target.value }))}
         />
+        <Input
+          label="Due Date"
+          type="date"
+          value={form.dueDate}
+          onChange={(e) => setForm((p) => ({ ...p, dueDate: e.target.value }))}
+          helpText="Leave empty to use the organisation's SLA rules"
+        />
         <CustomFieldsRenderer
           definitions={cfDefinitions}
           values={customFields}
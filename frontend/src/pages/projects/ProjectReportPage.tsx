@@ -2,21 +2,16 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useQueries } from '@tanstack/react-query';
 import { useProject } from '../../hooks/useProjects';
 import { useTasks } from '../../hooks/useTasks';
+import { useWorkflow, statusColorMap } from '../../hooks/useWorkflow';
 import { uploadApi } from '../../services/upload.api';
 import type { Annotation } from '../../components/blueprints/PdfAnnotationViewer';
 import BlueprintReportView from '../../components/reports/BlueprintReportView';
 import type { TaskMarkerGroup } from '../../components/reports/BlueprintReportView';
 import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
+import StatusBadge from '../../components/ui/StatusBadge';
 import Spinner from '../../components/ui/Spinner';
 
-const statusBadge: Record<string, 'red' | 'yellow' | 'green' | 'blue' | 'gray'> = {
-  open: 'red',
-  in_progress: 'yellow',
-  completed: 'green',
-  verified: 'blue',
-};
-
 const priorityBadge: Record<string, 'red' | 'yellow' | 'green' | 'gray'> = {
   critical: 'red',
   high: 'yellow',
@@ -27,6 +22,7 @@ const priorityBadge: Record<string, 'red' | 'yellow' | 'green' | 'gray'> = {
 export default function ProjectReportPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
+  const { data: workflow } = useWorkflow();
 
   // 1. Project details
   const { data: project, isLoading: projectLoading } = useProject(projectId!);
@@ -198,6 +194,7 @@ export default function ProjectReportPage() {
                 pdfUrl={blueprint.download_url}
                 annotations={annotations}
                 taskMarkers={taskMarkers}
+                statusColors={statusColorMap(workflow?.statuses)}
               />
             </div>
           ))}
@@ -236,9 +233,7 @@ export default function ProjectReportPage() {
                     <td className="py-1.5 pr-2 font-mono text-gray-500">{task.task_number}</td>
                     <td className="py-1.5 pr-2 text-gray-900">{task.title}</td>
                     <td className="py-1.5 pr-2">
-                      <Badge variant={statusBadge[task.status] || 'gray'}>
-                        {task.status.replace('_', ' ')}
-                      </Badge>
+                      <StatusBadge status={task.status} statuses={workflow?.statuses} />
                     </td>
                     <td className="py-1.5 pr-2">
                       <Badge variant={priorityBadge[task.priority] || 'gray'}>
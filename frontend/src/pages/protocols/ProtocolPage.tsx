@@ -4,6 +4,8 @@ import { useProject } from '../../hooks/useProjects';
 import { useTasks } from '../../hooks/useTasks';
 import { useGenerateProtocol, useProtocols } from '../../hooks/useProtocols';
 import { useProtocolSignatures } from '../../hooks/useProtocolSigning';
+import { useSavedViews } from '../../hooks/useSavedViews';
+import { useWorkflow, statusColorMap } from '../../hooks/useWorkflow';
 import { uploadApi } from '../../services/upload.api';
 import type { Annotation } from '../../components/blueprints/PdfAnnotationViewer';
 import BlueprintReportView from '../../components/reports/BlueprintReportView';
@@ -11,14 +13,9 @@ import type { TaskMarkerGroup } from '../../components/reports/BlueprintReportVi
 import SendForSigningModal from '../../components/protocols/SendForSigningModal';
 import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
+import StatusBadge from '../../components/ui/StatusBadge';
 import Spinner from '../../components/ui/Spinner';
-
-const statusBadge: Record<string, 'red' | 'yellow' | 'green' | 'blue' | 'gray'> = {
-  open: 'red',
-  in_progress: 'yellow',
-  completed: 'green',
-  verified: 'blue',
-};
+import Select from '../../components/ui/Select';
 
 const priorityBadge: Record<string, 'red' | 'yellow' | 'green' | 'gray'> = {
   critical: 'red',
@@ -33,13 +30,18 @@ interface ProtocolPageProps {
 
 export default function ProtocolPage({ projectId }: ProtocolPageProps) {
   const [showSigningModal, setShowSigningModal] = useState(false);
+  const { data: workflow } = useWorkflow();
   const { data: project, isLoading: projectLoading } = useProject(projectId);
-  const { data: taskData, isLoading: tasksLoading } = useTasks(projectId, { limit: 10000 });
+  // A saved view narrows the protocol down to its tasks
+  const [viewId, setViewId] = useState('');
+  const { data: views = [] } = useSavedViews(projectId);
+  const { data: taskData, isLoading: tasksLoading } = useTasks(projectId, { viewId: viewId || undefined, limit: 10000 });
   const tasks: any[] = taskData?.data?.tasks || [];
 
   // Protocol generation
   const generateProtocol = useGenerateProtocol(projectId);
   const { data: protocols = [] } = useProtocols(projectId);
+  const [includeComments, setIncludeComments] = useState(false);
   const latestProtocol = protocols.find((p: any) => p.status === 'completed');
   const isGenerating = generateProtocol.isPending || protocols.some((p: any) => p.status === 'generating');
 
@@ -124,6 +126,19 @@ export default function ProtocolPage({ projectId }: ProtocolPageProps) {
 
   return (
     <div className="max-w-4xl mx-auto">
+      {views.length > 0 && (
+        <div className="no-print flex items-center justify-end gap-2 mb-6">
+          <span className="text-sm text-gray-500">Tasks</span>
+          <Select
+            options={[{ value: '', label: 'All tasks' }, ...views.map((v) => ({ value: v.id, label: v.name }))]}
+            value={viewId}
+            onChange={(e) => setViewId(e.target.value)}
+            aria-label="Saved view"
+            className="max-w-[220px]"
+          />
+        </div>
+      )}
+
       {/* ================================================================ */}
       {/* SECTION 1: Project Description                                   */}
       {/* ================================================================ */}
@@ -197,6 +212,7 @@ export default function ProtocolPage({ projectId }: ProtocolPageProps) {
                 pdfUrl={blueprint.download_url}
                 annotations={annotations}
                 taskMarkers={taskMarkers}
+                statusColors={statusColorMap(workflow?.statuses)}
               />
             </div>
           ))}
@@ -235,9 +251,7 @@ export default function ProtocolPage({ projectId }: ProtocolPageProps) {
                     <td className="py-1.5 pr-2 font-mono text-gray-500">{task.task_number}</td>
                     <td className="py-1.5 pr-2 text-gray-900">{task.title}</td>
                     <td className="py-1.5 pr-2">
-                      <Badge variant={statusBadge[task.status] || 'gray'}>
-                        {task.status.replace('_', ' ')}
-                      </Badge>
+                      <StatusBadge status={task.status} statuses={workflow?.statuses} />
                     </td>
                     <td className="py-1.5 pr-2">
                       <Badge variant={priorityBadge[task.priority] || 'gray'}>
@@ -311,12 +325,23 @@ export default function ProtocolPage({ projectId }: ProtocolPageProps) {
             onClick={() => {
               generateProtocol.mutate({
                 name: `Protocol - ${project?.name || 'Project'} - ${new Date().toLocaleDateString()}`,
+                viewId: viewId || undefined,
+                includeComments,
               });
             }}
           >
             Create PDF for Signing
           </Button>
         </div>
+        <label className="flex items-center justify-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeComments}
+            onChange={(e) => setIncludeComments(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Include task comments
+        </label>
 
         {isGenerating && (
           <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
@@ -1,9 +1,13 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import api from '../../services/api';
+import { useWorkflow } from '../../hooks/useWorkflow';
 import Card, { CardBody } from '../../components/ui/Card';
 import Spinner from '../../components/ui/Spinner';
 import Badge from '../../components/ui/Badge';
+import StatusBadge from '../../components/ui/StatusBadge';
+import DueDateBadge from '../../components/ui/DueDateBadge';
 import EmptyState from '../../components/ui/EmptyState';
 
 const priorityBadge: Record<string, 'gray' | 'red' | 'yellow' | 'green' | 'blue'> = {
@@ -13,13 +17,6 @@ const priorityBadge: Record<string, 'gray' | 'red' | 'yellow' | 'green' | 'blue'
   critical: 'red',
 };
 
-const statusBadge: Record<string, 'gray' | 'red' | 'yellow' | 'green' | 'blue' | 'purple'> = {
-  open: 'blue',
-  in_progress: 'yellow',
-  completed: 'green',
-  verified: 'purple',
-};
-
 interface TaskItem {
   id: string;
   project_id: string;
@@ -30,15 +27,19 @@ interface TaskItem {
   priority: string;
   trade: string | null;
   created_at: string;
+  due_date: string | null;
+  days_overdue: number | null;
 }
 
 export default function MyTasksPage() {
   const navigate = useNavigate();
+  const { data: workflow } = useWorkflow();
+  const [overdueOnly, setOverdueOnly] = useState(false);
 
   const { data, isLoading } = useQuery({
-    queryKey: ['my-tasks'],
+    queryKey: ['my-tasks', { overdue: overdueOnly }],
     queryFn: async () => {
-      const res = await api.get('/users/me/tasks');
+      const res = await api.get('/users/me/tasks', { params: overdueOnly ? { overdue: 'true' } : undefined });
       return res.data;
     },
   });
@@ -75,13 +76,24 @@ export default function MyTasksPage() {
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">My Tasks</h1>
-        <span className="text-sm text-gray-500">{tasks.length} task{tasks.length !== 1 ? 's' : ''}</span>
+        <div className="flex items-center gap-4">
+          <label className="inline-flex items-center gap-1.5 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={overdueOnly}
+              onChange={(e) => setOverdueOnly(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Overdue only
+          </label>
+          <span className="text-sm text-gray-500">{tasks.length} task{tasks.length !== 1 ? 's' : ''}</span>
+        </div>
       </div>
 
       {tasks.length === 0 ? (
         <EmptyState
-          title="No tasks assigned"
-          description="You don't have any tasks assigned to you yet."
+          title={overdueOnly ? 'No overdue tasks' : 'No tasks assigned'}
+          description={overdueOnly ? 'None of your tasks are past their due date.' : "You don't have any tasks assigned to you yet."}
         />
       ) : (
         <div className="space-y-6">
@@ -112,8 +124,9 @@ export default function MyTasksPage() {
                           <p className="font-medium text-gray-900 truncate">{task.title}</p>
                         </div>
                         <div className="flex items-center gap-3 ml-4 flex-shrink-0">
+                          <DueDateBadge dueDate={task.due_date} daysOverdue={task.days_overdue} />
                           <Badge variant={priorityBadge[task.priority] || 'gray'}>{task.priority}</Badge>
-                          <Badge variant={statusBadge[task.status] || 'gray'}>{task.status.replace('_', ' ')}</Badge>
+                          <StatusBadge status={task.status} statuses={workflow?.statuses} />
                           {task.trade && <span className="text-xs text-gray-500">{task.trade}</span>}
                         </div>
                       </div>
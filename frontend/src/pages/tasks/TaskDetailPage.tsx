@@ -1,13 +1,18 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
-import { useTask, useUpdateTask } from '../../hooks/useTasks';
-import { useComments, useCreateComment } from '../../hooks/useComments';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTask, useTaskHistory, useUpdateTask } from '../../hooks/useTasks';
+import { useComments } from '../../hooks/useComments';
 import { useProducts, useTaskProducts, useAddProductToTask, useRemoveProductFromTask } from '../../hooks/useProducts';
 import { useCustomFieldDefinitions } from '../../hooks/useCustomFields';
 import { useUsers } from '../../hooks/useUsers';
+import { useProject, useProjectMembers } from '../../hooks/useProjects';
+import { useWorkflow, statusColorMap } from '../../hooks/useWorkflow';
+import { useAuthStore } from '../../stores/authStore';
 import { uploadApi } from '../../services/upload.api';
 import Badge from '../../components/ui/Badge';
+import StatusBadge from '../../components/ui/StatusBadge';
+import DueDateBadge, { dueDateLabel } from '../../components/ui/DueDateBadge';
 import Button from '../../components/ui/Button';
 import Card, { CardBody, CardHeader } from '../../components/ui/Card';
 import Modal from '../../components/ui/Modal';
@@ -18,40 +23,58 @@ import PhotoUploader from '../../components/uploads/PhotoUploader';
 import PhotoGallery from '../../components/photos/PhotoGallery';
 import PdfAnnotationViewer from '../../components/blueprints/PdfAnnotationViewer';
 import CustomFieldsRenderer from '../../components/common/CustomFieldsRenderer';
+import TaskTimeline from '../../components/tasks/TaskTimeline';
+import TaskRelationsPanel from '../../components/tasks/TaskRelationsPanel';
+import TaskChecklistPanel from '../../components/tasks/TaskChecklistPanel';
+import TaskCopyModal from '../../components/tasks/TaskCopyModal';
+import CommentComposer from '../../components/comments/CommentComposer';
 import type { Annotation, Marker } from '../../components/blueprints/PdfAnnotationViewer';
+import CalibrationModal from '../../components/blueprints/CalibrationModal';
+import {
+  MEASUREMENT_TYPE_LABELS,
+  formatMeasurement,
+  calibrationLabel,
+} from '../../components/blueprints/measurement';
+import type {
+  MeasureTool,
+  MeasurementType,
+  Point,
+  ScaleCalibration,
+  TaskMeasurement,
+} from '../../components/blueprints/measurement';
+import { useBlueprintRevisions, useReviewAnnotations, useBlueprintPreviews, previewPages } from '../../hooks/useBlueprintRevisions';
+import { groupBlueprints, sheetLabel } from '../../hooks/useDrawingSets';
+import { ProjectRole } from '../../types';
+import type { UserRole, WorkflowTransition } from '../../types';
 import { format } from 'date-fns';
 
-const VALID_TRANSITIONS: Record<string, string[]> = {
-  open: ['in_progress'],
-  in_progress: ['completed', 'open'],
-  completed: ['verified', 'in_progress'],
-  verified: [],
-};
-
-const statusBadge: Record<string, 'red' | 'yellow' | 'green' | 'blue'> = {
-  open: 'red',
-  in_progress: 'yellow',
-  completed: 'green',
-  verified: 'blue',
-};
-
 export default function TaskDetailPage() {
   const { projectId, taskId } = useParams<{ projectId: string; taskId: string }>();
   const navigate = useNavigate();
-  const { data: task, isLoading } = useTask(projectId!, taskId!);
+  const { data: task, isLoading, error: taskError } = useTask(projectId!, taskId!);
   const updateTask = useUpdateTask(projectId!);
   const { data: comments = [], isLoading: commentsLoading } = useComments(projectId!, taskId!);
-  const createComment = useCreateComment(projectId!, taskId!);
-  const [commentText, setCommentText] = useState('');
+  const { data: historyData, isLoading: historyLoading } = useTaskHistory(projectId!, taskId!);
+  const { data: cfDefinitions = [] } = useCustomFieldDefinitions('task');
   const [drawMode, setDrawMode] = useState(false);
   const [selectedBlueprintId, setSelectedBlueprintId] = useState<string>('');
   const [showProductPicker, setShowProductPicker] = useState(false);
   const [productSearch, setProductSearch] = useState('');
   const [removeProductTarget, setRemoveProductTarget] = useState<{ taskId: string; productId: string; productName: string } | null>(null);
   const [editing, setEditing] = useState(false);
-  const [editForm, setEditForm] = useState({ title: '', description: '', priority: '', trade: '' });
+  const [editForm, setEditForm] = useState({ title: '', description: '', priority: '', trade: '', dueDate: '' });
   const [markerPlaceMode, setMarkerPlaceMode] = useState(false);
   const [deleteMarkerTarget, setDeleteMarkerTarget] = useState<string | null>(null);
+  const [measureTool, setMeasureTool] = useState<MeasureTool | null>(null);
+  const [measureError, setMeasureError] = useState<string | null>(null);
+  const [viewerPage, setViewerPage] = useState(1);
+  const [calibrating, setCalibrating] = useState<{ page: number; line: { x1: number; y1: number; x2: number; y2: number } | null } | null>(null);
+  const [commentTransition, setCommentTransition] = useState<WorkflowTransition | null>(null);
+  const [statusComment, setStatusComment] = useState('');
+  const [copyMode, setCopyMode] = useState<'duplicate' | 'move' | null>(null);
+  const { data: workflow } = useWorkflow();
+  const user = useAuthStore((s) => s.user);
+  const queryClient = useQueryClient();
 
   // Task products
   const { data: taskProducts = [], isLoading: taskProductsLoading } = useTaskProducts(projectId!, taskId!);
@@ -60,7 +83,15 @@ export default function TaskDetailPage() {
   const { data: allProductsData } = useProducts({ search: productSearch || undefined, limit: 50 });
   const { data: usersData } = useUsers({ limit: 200 });
   const users = usersData?.data?.users || [];
-  const userOptions = users.map((u: any) => ({ value: u.id, label: `${u.first_name} ${u.last_name}` }));
+  // Only project members can be assigned
+  const { data: members = [] } = useProjectMembers(projectId!);
+  // Org admins come back as project managers, who may moderate comments and drop required checklist items
+  const { data: project } = useProject(projectId!);
+  const isProjectManager = project?.member_role === ProjectRole.MANAGER;
+  const canWrite = !!project && project.member_role !== ProjectRole.VIEWER;
+  const userOptions = members
+    .filter((m) => m.is_active)
+    .map((m) => ({ value: m.user_id, label: `${m.first_name} ${m.last_name}` }));
 
   // Fetch blueprints for the project
   const { data: blueprints = [] } = useQuery({
@@ -68,8 +99,24 @@ export default function TaskDetailPage() {
     queryFn: () => uploadApi.listBlueprints(projectId!),
     enabled: !!projectId,
   });
+  const { data: revisions = [] } = useBlueprintRevisions(projectId!, task?.blueprint_id);
+  const reviewAnnotations = useReviewAnnotations(projectId!, task?.blueprint_id ?? '');
+  // Page images of the sheet shown below, displayed while its PDF loads
+  const { data: previews } = useBlueprintPreviews(
+    projectId!,
+    task?.blueprint_id || selectedBlueprintId,
+    drawMode || markerPlaceMode || measureTool ? null : task?.annotation_revision_id,
+  );
+
+  // Links to a task that moved to another project follow it there
+  const movedTo = (taskError as any)?.response?.data?.error?.code === 'TASK_MOVED'
+    ? (taskError as any).response.data.error.details as { projectId: string; taskId: string }
+    : null;
+  useEffect(() => {
+    if (movedTo) navigate(`/projects/${movedTo.projectId}/tasks/${movedTo.taskId}`, { replace: true });
+  }, [movedTo?.projectId, movedTo?.taskId]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  if (isLoading) {
+  if (isLoading || movedTo) {
     return <div className="flex justify-center py-12"><Spinner /></div>;
   }
 
@@ -77,11 +124,26 @@ export default function TaskDetailPage() {
     return <div className="text-center py-12 text-gray-500">Task not found</div>;
   }
 
-  const validTransitions = VALID_TRANSITIONS[task.status] || [];
+  // Transitions out of the current status that the user's role may perform
+  const validTransitions = (workflow?.transitions || []).filter((t) =>
+    t.from === task.status && (t.allowedRoles.length === 0 || (!!user && t.allowedRoles.includes(user.role as UserRole))));
+  const statusLabel = (key: string) => workflow?.statuses.find((s) => s.key === key)?.label ?? key.replace(/_/g, ' ');
 
   // Determine which blueprint to show
   const activeBlueprintId = task.blueprint_id || selectedBlueprintId;
   const activeBlueprint = blueprints.find((bp: any) => bp.id === activeBlueprintId);
+  // Sheets split from drawing sets are picked from their discipline folders
+  const blueprintGroups = groupBlueprints<any>(blueprints);
+
+  // An annotation awaiting review after a revision change is shown on the revision it was drawn on,
+  // unless it is being redrawn, which puts it on the current revision
+  const hasAnnotation = task.annotation_x != null || (Array.isArray(task.annotation_markers) && task.annotation_markers.length > 0);
+  const currentRevision = revisions.find((r) => r.is_current);
+  const pinnedRevision = revisions.find((r) => r.id === task.annotation_revision_id);
+  const showPinned = !!pinnedRevision && !drawMode && !markerPlaceMode && !measureTool;
+  const recordedRevision = hasAnnotation
+    ? revisions.find((r) => r.id === (task.annotation_recorded_revision_id ?? task.annotation_revision_id ?? currentRevision?.id))
+    : undefined;
 
   // Build annotation for this task if it has one
   const taskAnnotation: Annotation | null = (task.annotation_x != null && task.annotation_y != null &&
@@ -98,15 +160,20 @@ export default function TaskDetailPage() {
       }
     : null;
 
-  async function handleStatusChange(newStatus: string) {
-    await updateTask.mutateAsync({ taskId: taskId!, data: { status: newStatus } });
-  }
-
-  async function handleCommentSubmit(e: React.FormEvent) {
-    e.preventDefault();
-    if (!commentText.trim()) return;
-    await createComment.mutateAsync(commentText);
-    setCommentText('');
+  async function handleStatusChange(transition: WorkflowTransition, comment?: string) {
+    if (transition.requiresComment && !comment) {
+      setCommentTransition(transition);
+      return;
+    }
+    await updateTask.mutateAsync({
+      taskId: taskId!,
+      data: { status: transition.to, ...(comment ? { statusComment: comment } : {}) },
+    });
+    if (comment) {
+      queryClient.invalidateQueries({ queryKey: ['comments', projectId, taskId] });
+    }
+    setCommentTransition(null);
+    setStatusComment('');
   }
 
   async function handleBlueprintSelect(blueprintId: string) {
@@ -150,6 +217,7 @@ export default function TaskDetailPage() {
       description: task.description || '',
       priority: task.priority,
       trade: task.trade || '',
+      dueDate: task.due_date ? task.due_date.slice(0, 10) : '',
     });
     setEditing(true);
   }
@@ -162,6 +230,7 @@ export default function TaskDetailPage() {
         description: editForm.description || null,
         priority: editForm.priority,
         trade: editForm.trade || null,
+        dueDate: editForm.dueDate || null,
       },
     });
     setEditing(false);
@@ -202,6 +271,43 @@ export default function TaskDetailPage() {
     setDeleteMarkerTarget(null);
   }
 
+  // Measurements are valued on the server from the calibration of their page
+  const measurements: TaskMeasurement[] = task.measurements || [];
+  const calibrations: ScaleCalibration[] = activeBlueprint?.scale_calibrations || [];
+  const pageCalibration = calibrations.find((c) => c.page === viewerPage);
+
+  async function saveMeasurements(updated: TaskMeasurement[] | Omit<TaskMeasurement, 'value'>[]) {
+    setMeasureError(null);
+    try {
+      await updateTask.mutateAsync({
+        taskId: taskId!,
+        data: { measurements: updated.length > 0 ? updated : null },
+      });
+    } catch (err: any) {
+      const details = err?.response?.data?.error?.details;
+      setMeasureError(
+        (details && Object.values(details)[0] as string) || err?.response?.data?.error?.message || 'Failed to save the measurement',
+      );
+    }
+  }
+
+  async function handleMeasure({ tool, page, points }: { tool: MeasureTool; page: number; points: Point[] }) {
+    setMeasureTool(null);
+    if (tool === 'calibrate') {
+      setCalibrating({ page, line: { x1: points[0].x, y1: points[0].y, x2: points[1].x, y2: points[1].y } });
+      return;
+    }
+    await saveMeasurements([...measurements, { id: crypto.randomUUID(), type: tool, page, points }]);
+  }
+
+  async function handleMeasurementLabel(id: string, label: string) {
+    const current = measurements.find((m) => m.id === id);
+    if (!current || (current.label ?? '') === label.trim()) return;
+    await saveMeasurements(measurements.map((m) => (m.id === id ? { ...m, label: label.trim() || undefined } : m)));
+  }
+
+  const isPicking = drawMode || markerPlaceMode || !!measureTool;
+
   return (
     <div className="max-w-3xl mx-auto">
       {/* Back nav */}
@@ -228,9 +334,14 @@ export default function TaskDetailPage() {
               {!editing && (
                 <Button variant="secondary" size="sm" onClick={openEdit}>Edit</Button>
               )}
-              <Badge variant={statusBadge[task.status]} size="md">
-                {task.status.replace('_', ' ')}
-              </Badge>
+              {canWrite && (
+                <Button variant="secondary" size="sm" onClick={() => setCopyMode('duplicate')}>Duplicate</Button>
+              )}
+              {isProjectManager && (
+                <Button variant="secondary" size="sm" onClick={() => setCopyMode('move')}>Move</Button>
+              )}
+              {task.open_blocker_count > 0 && <Badge variant="purple" size="md">Blocked</Badge>}
+              <StatusBadge status={task.status} statuses={workflow?.statuses} size="md" />
             </div>
           </div>
         </CardHeader>
@@ -272,6 +383,12 @@ export default function TaskDetailPage() {
                     onChange={(e) => setEditForm((f) => ({ ...f, trade: e.target.value }))}
                     placeholder="e.g. Electrical, Plumbing..."
                   />
+                  <Input
+                    label="Due Date"
+                    type="date"
+                    value={editForm.dueDate}
+                    onChange={(e) => setEditForm((f) => ({ ...f, dueDate: e.target.value }))}
+                  />
                 </div>
                 <div className="flex justify-end gap-2 pt-2 border-t border-gray-200">
                   <Button variant="secondary" size="sm" onClick={() => setEditing(false)}>Cancel</Button>
@@ -313,6 +430,13 @@ export default function TaskDetailPage() {
                       <span className="text-gray-900">{task.creator_first_name} {task.creator_last_name}</span>
                     </div>
                   )}
+                  {task.due_date && (
+                    <div>
+                      <span className="text-gray-500">Due:</span>{' '}
+                      <span className="text-gray-900">{dueDateLabel(task.due_date)}</span>
+                      {task.days_overdue ? <>{' '}<DueDateBadge dueDate={task.due_date} daysOverdue={task.days_overdue} /></> : null}
+                    </div>
+                  )}
                   <div>
                     <span className="text-gray-500">Created:</span>{' '}
                     <span className="text-gray-900">{format(new Date(task.created_at), 'MMM d, yyyy')}</span>
@@ -347,19 +471,31 @@ export default function TaskDetailPage() {
             {validTransitions.length > 0 && (
               <div className="flex gap-2 pt-2 border-t border-gray-200">
                 <span className="text-sm text-gray-500 self-center mr-2">Move to:</span>
-                {validTransitions.map((status) => (
-                  <Button
-                    key={status}
-                    variant="secondary"
-                    size="sm"
-                    loading={updateTask.isPending}
-                    onClick={() => handleStatusChange(status)}
-                  >
-                    {status.replace('_', ' ')}
-                  </Button>
-                ))}
+                {validTransitions.map((transition) => {
+                  const needsPhoto = transition.requiresPhoto && !task.photo_count;
+                  const category = workflow?.statuses.find((s) => s.key === transition.to)?.category;
+                  const needsChecklist = task.checklist_open_required_count > 0
+                    && (category === 'completed' || category === 'verified');
+                  return (
+                    <Button
+                      key={transition.to}
+                      variant="secondary"
+                      size="sm"
+                      loading={updateTask.isPending}
+                      disabled={needsPhoto || needsChecklist}
+                      title={needsPhoto ? 'Add a photo before this status change'
+                        : needsChecklist ? 'Tick the required checklist items first' : undefined}
+                      onClick={() => handleStatusChange(transition)}
+                    >
+                      {statusLabel(transition.to)}
+                    </Button>
+                  );
+                })}
               </div>
             )}
+            {updateTask.isError && (
+              <p className="text-sm text-red-600">{(updateTask.error as Error).message}</p>
+            )}
           </div>
         </CardBody>
       </Card>
@@ -371,13 +507,29 @@ export default function TaskDetailPage() {
         customFields={task.custom_fields || {}}
       />
 
+      {/* Checklist */}
+      <TaskChecklistPanel
+        projectId={projectId!}
+        taskId={taskId!}
+        canEdit={canWrite}
+        canRemoveRequired={isProjectManager}
+      />
+
+      {/* Related Tasks */}
+      <TaskRelationsPanel
+        projectId={projectId!}
+        taskId={taskId!}
+        statuses={workflow?.statuses}
+        canEdit={canWrite}
+      />
+
       {/* Blueprint Annotation */}
       <Card className="mb-6">
         <CardHeader>
           <div className="flex items-center justify-between">
             <h2 className="font-semibold text-gray-900">Blueprint Annotation</h2>
             <div className="flex gap-2">
-              {activeBlueprint && !drawMode && !markerPlaceMode && (
+              {activeBlueprint && !isPicking && (
                 <>
                   <Button
                     variant="secondary"
@@ -393,8 +545,37 @@ export default function TaskDetailPage() {
                   >
                     Add Marker
                   </Button>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setMeasureTool(e.target.value as MeasurementType)}
+                    className="text-sm border border-gray-300 rounded-lg bg-white px-2 py-1"
+                    aria-label="Measure"
+                  >
+                    <option value="">Measure...</option>
+                    {(Object.keys(MEASUREMENT_TYPE_LABELS) as MeasurementType[]).map((type) => (
+                      <option key={type} value={type}>{MEASUREMENT_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  {isProjectManager && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setCalibrating({ page: viewerPage, line: null })}
+                    >
+                      Calibrate
+                    </Button>
+                  )}
                 </>
               )}
+              {activeBlueprint && measureTool && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setMeasureTool(null)}
+                >
+                  Cancel
+                </Button>
+              )}
               {activeBlueprint && drawMode && (
                 <Button
                   variant="secondary"
@@ -413,7 +594,7 @@ export default function TaskDetailPage() {
                   Cancel
                 </Button>
               )}
-              {taskAnnotation && !drawMode && !markerPlaceMode && (
+              {taskAnnotation && !isPicking && (
                 <Button
                   variant="secondary"
                   size="sm"
@@ -433,7 +614,13 @@ export default function TaskDetailPage() {
             <div className="space-y-2">
               <p className="text-sm text-gray-500">Select a blueprint to annotate:</p>
               <Select
-                options={blueprints.map((bp: any) => ({ value: bp.id, label: bp.name }))}
+                options={blueprintGroups
+                  .filter((g) => !g.drawingSetId)
+                  .flatMap((g) => g.blueprints.map((bp: any) => ({ value: bp.id, label: bp.name })))}
+                groups={blueprintGroups.flatMap((g) => g.folders.map((folder) => ({
+                  label: `${g.name} — ${folder.label}`,
+                  options: folder.sheets.map((bp: any) => ({ value: bp.id, label: sheetLabel(bp) })),
+                })))}
                 value=""
                 onChange={(e) => handleBlueprintSelect(e.target.value)}
                 placeholder="Choose blueprint..."
@@ -443,7 +630,18 @@ export default function TaskDetailPage() {
             <div>
               <div className="flex items-center gap-2 mb-2">
                 <span className="text-sm text-gray-500">Blueprint:</span>
-                <span className="text-sm font-medium text-gray-900">{activeBlueprint.name}</span>
+                <span className="text-sm font-medium text-gray-900">{sheetLabel(activeBlueprint)}</span>
+                {currentRevision && (
+                  <span className="text-xs bg-gray-100 text-gray-600 px-1.5 rounded">Rev {currentRevision.label}</span>
+                )}
+                {recordedRevision && recordedRevision.id !== currentRevision?.id && (
+                  <span className="text-xs text-gray-500">Recorded on revision {recordedRevision.label}</span>
+                )}
+                <span className="text-xs text-gray-500">
+                  {pageCalibration
+                    ? `Page ${viewerPage} calibrated with a ${calibrationLabel(pageCalibration)}`
+                    : `Page ${viewerPage} not calibrated`}
+                </span>
                 {task.blueprint_id && (
                   <Button
                     variant="ghost"
@@ -458,6 +656,8 @@ export default function TaskDetailPage() {
                           annotationWidth: null,
                           annotationHeight: null,
                           annotationPage: null,
+                          // Measurements are valued with the scale of this blueprint
+                          measurements: null,
                         },
                       });
                       setSelectedBlueprintId('');
@@ -467,8 +667,26 @@ export default function TaskDetailPage() {
                   </Button>
                 )}
               </div>
+              {pinnedRevision && (
+                <div className="mb-2 p-2 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between gap-3">
+                  <p className="text-sm text-amber-800">
+                    The pages changed in revision {currentRevision?.label}, so this annotation is still shown on
+                    revision {pinnedRevision.label}. Redraw it, or keep it as it is on the current revision.
+                  </p>
+                  {canWrite && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => reviewAnnotations.mutate({ taskIds: [task.id], action: 'keep' })}
+                      loading={reviewAnnotations.isPending}
+                    >
+                      Keep
+                    </Button>
+                  )}
+                </div>
+              )}
               <PdfAnnotationViewer
-                pdfUrl={activeBlueprint.download_url}
+                pdfUrl={showPinned ? pinnedRevision.download_url : activeBlueprint.download_url}
                 annotations={taskAnnotation ? [taskAnnotation] : []}
                 drawMode={drawMode}
                 onAnnotationDraw={handleAnnotationDraw}
@@ -479,7 +697,63 @@ export default function TaskDetailPage() {
                 onMarkerMove={handleMarkerMove}
                 onMarkerDelete={(id) => setDeleteMarkerTarget(id)}
                 taskNumber={task.task_number}
+                statusColors={statusColorMap(workflow?.statuses)}
+                pagePreviews={previewPages(previews)}
+                measurements={measurements.map((m) => ({
+                  ...m,
+                  label: m.label ? `${m.label} ${formatMeasurement(m)}` : formatMeasurement(m),
+                }))}
+                measureTool={measureTool}
+                onMeasure={handleMeasure}
+                calibrations={calibrations}
+                onPageChange={setViewerPage}
               />
+              {measureError && <p className="mt-2 text-sm text-red-600">{measureError}</p>}
+              {measurements.length > 0 && (
+                <div className="mt-3">
+                  <h3 className="text-sm font-medium text-gray-700 mb-1">Measurements</h3>
+                  <ul className="divide-y divide-gray-100">
+                    {measurements.map((m) => (
+                      <li key={m.id} className="flex items-center gap-3 py-1.5 text-sm">
+                        <span className="w-16 text-gray-500">{MEASUREMENT_TYPE_LABELS[m.type]}</span>
+                        <span className="w-14 text-gray-500">Page {m.page}</span>
+                        <input
+                          key={m.label ?? ''}
+                          defaultValue={m.label ?? ''}
+                          onBlur={(e) => handleMeasurementLabel(m.id, e.target.value)}
+                          disabled={!canWrite}
+                          maxLength={100}
+                          placeholder="Label"
+                          className="flex-1 min-w-0 border border-transparent hover:border-gray-300 focus:border-primary-500 rounded px-2 py-0.5 focus:outline-none"
+                          aria-label="Measurement label"
+                        />
+                        <span className="font-medium text-gray-900">{formatMeasurement(m)}</span>
+                        {canWrite && (
+                          <button
+                            type="button"
+                            onClick={() => saveMeasurements(measurements.filter((other) => other.id !== m.id))}
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label="Remove measurement"
+                          >
+                            &times;
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {calibrating && (
+                <CalibrationModal
+                  projectId={projectId!}
+                  blueprintId={activeBlueprint.id}
+                  page={calibrating.page}
+                  line={calibrating.line}
+                  calibration={calibrations.find((c) => c.page === calibrating.page)}
+                  onDrawLine={() => { setCalibrating(null); setMeasureTool('calibrate'); }}
+                  onClose={() => setCalibrating(null)}
+                />
+              )}
             </div>
           ) : (
             <p className="text-sm text-gray-500">Blueprint not found.</p>
@@ -567,6 +841,8 @@ export default function TaskDetailPage() {
       </Card>
 
       {/* Product Picker Modal */}
+      <TaskCopyModal mode={copyMode} projectId={projectId!} taskId={task.id} onClose={() => setCopyMode(null)} />
+
       <Modal isOpen={showProductPicker} onClose={() => setShowProductPicker(false)} title="Add Product to Task" size="md">
         <div className="mb-4">
           <Input
@@ -660,53 +936,61 @@ export default function TaskDetailPage() {
         </div>
       </Modal>
 
-      {/* Comments */}
+      {/* Status Change Comment Modal */}
+      <Modal
+        isOpen={!!commentTransition}
+        onClose={() => { setCommentTransition(null); setStatusComment(''); }}
+        title={`Move to ${commentTransition ? statusLabel(commentTransition.to) : ''}`}
+        size="sm"
+      >
+        <p className="text-sm text-gray-600 mb-2">A comment is required for this status change.</p>
+        <textarea
+          value={statusComment}
+          onChange={(e) => setStatusComment(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none resize-y mb-4"
+          placeholder="Explain the status change..."
+        />
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={() => { setCommentTransition(null); setStatusComment(''); }}>Cancel</Button>
+          <Button
+            loading={updateTask.isPending}
+            disabled={!statusComment.trim()}
+            onClick={() => commentTransition && handleStatusChange(commentTransition, statusComment.trim())}
+          >
+            Move
+          </Button>
+        </div>
+      </Modal>
+
+      {/* Activity: comments interleaved with field-level history */}
       <Card>
         <CardHeader>
-          <h2 className="font-semibold text-gray-900">Comments ({Array.isArray(comments) ? comments.length : 0})</h2>
+          <h2 className="font-semibold text-gray-900">Activity ({comments.filter((c) => !c.deleted_at).length} comments)</h2>
         </CardHeader>
         <CardBody>
-          {commentsLoading ? (
+          {commentsLoading || historyLoading ? (
             <div className="flex justify-center py-4"><Spinner size="sm" /></div>
-          ) : Array.isArray(comments) && comments.length > 0 ? (
-            <div className="space-y-4 mb-4">
-              {comments.map((comment: any) => (
-                <div key={comment.id} className="flex gap-3">
-                  <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600 shrink-0">
-                    {comment.user_first_name?.[0] || comment.external_email?.[0] || '?'}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-baseline gap-2">
-                      <span className="text-sm font-medium text-gray-900">
-                        {comment.user_first_name
-                          ? `${comment.user_first_name} ${comment.user_last_name}`
-                          : comment.external_email || 'Unknown'}
-                      </span>
-                      <span className="text-xs text-gray-400">
-                        {format(new Date(comment.created_at), 'MMM d, h:mm a')}
-                      </span>
-                    </div>
-                    <p className="text-sm text-gray-700 mt-1">{comment.comment_text}</p>
-                  </div>
-                </div>
-              ))}
-            </div>
           ) : (
-            <p className="text-sm text-gray-500 mb-4">No comments yet</p>
+            <TaskTimeline
+              projectId={projectId!}
+              taskId={taskId!}
+              history={historyData?.history || []}
+              comments={comments}
+              canModerate={isProjectManager}
+              metrics={historyData?.metrics}
+              statuses={workflow?.statuses}
+              userNames={Object.fromEntries([
+                ...members.map((m) => [m.user_id, `${m.first_name} ${m.last_name}`]),
+                ...users.map((u: any) => [u.id, `${u.first_name} ${u.last_name}`]),
+              ])}
+              blueprintNames={Object.fromEntries(blueprints.map((bp: any) => [bp.id, sheetLabel(bp)]))}
+              customFieldLabels={Object.fromEntries(cfDefinitions.map((def: any) => [def.fieldKey, def.label]))}
+            />
           )}
 
           {/* Add comment form */}
-          <form onSubmit={handleCommentSubmit} className="flex gap-2">
-            <input
-              value={commentText}
-              onChange={(e) => setCommentText(e.target.value)}
-              placeholder="Add a comment..."
-              className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
-            />
-            <Button type="submit" size="sm" loading={createComment.isPending} disabled={!commentText.trim()}>
-              Send
-            </Button>
-          </form>
+          <CommentComposer projectId={projectId!} taskId={taskId!} />
         </CardBody>
       </Card>
     </div>
@@ -30,7 +30,8 @@ api.interceptors.response.use(
       if (!window.location.pathname.startsWith('/login') &&
           !window.location.pathname.startsWith('/register') &&
           !window.location.pathname.startsWith('/forgot-password') &&
-          !window.location.pathname.startsWith('/reset-password')) {
+          !window.location.pathname.startsWith('/reset-password') &&
+          !window.location.pathname.startsWith('/portal/')) {
         window.location.href = '/login';
       }
     }
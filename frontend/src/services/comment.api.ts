@@ -1,13 +1,85 @@
 import api from './api';
 
+export interface CommentAttachment {
+  id: string;
+  comment_id: string | null;
+  file_name: string;
+  mime_type: string;
+  file_size_bytes: number;
+  download_url: string;
+  thumbnail_download_url: string | null;
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  user_id: string | null;
+  external_email: string | null;
+  /** Empty once the comment is deleted */
+  comment_text: string;
+  parent_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+  user_first_name?: string;
+  user_last_name?: string;
+  attachments: CommentAttachment[];
+}
+
+export interface CommentEdit {
+  id: string;
+  previous_text: string;
+  edited_at: string;
+  editor_first_name: string | null;
+  editor_last_name: string | null;
+}
+
+export interface CreateCommentData {
+  commentText: string;
+  /** Top-level comment this is a reply to */
+  parentId?: string;
+  attachmentIds?: string[];
+}
+
 export const commentApi = {
-  async list(projectId: string, taskId: string) {
+  async list(projectId: string, taskId: string): Promise<TaskComment[]> {
     const res = await api.get(`/projects/${projectId}/tasks/${taskId}/comments`);
     return res.data.data.comments;
   },
 
-  async create(projectId: string, taskId: string, commentText: string) {
-    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/comments`, { commentText });
+  async create(projectId: string, taskId: string, data: CreateCommentData, idempotencyKey?: string) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/comments`, data, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
     return res.data.data.comment;
   },
+
+  async update(projectId: string, taskId: string, commentId: string, commentText: string) {
+    const res = await api.patch(`/projects/${projectId}/tasks/${taskId}/comments/${commentId}`, { commentText });
+    return res.data.data.comment;
+  },
+
+  async delete(projectId: string, taskId: string, commentId: string) {
+    const res = await api.delete(`/projects/${projectId}/tasks/${taskId}/comments/${commentId}`);
+    return res.data;
+  },
+
+  async listEdits(projectId: string, taskId: string, commentId: string): Promise<CommentEdit[]> {
+    const res = await api.get(`/projects/${projectId}/tasks/${taskId}/comments/${commentId}/edits`);
+    return res.data.data.edits;
+  },
+
+  async requestAttachmentUpload(projectId: string, taskId: string, data: {
+    fileName: string;
+    fileSize: number;
+    mimeType: string;
+  }) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/comments/attachments/upload-url`, data);
+    return res.data.data;
+  },
+
+  async confirmAttachment(projectId: string, taskId: string, attachmentId: string) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/comments/attachments/${attachmentId}/confirm`);
+    return res.data.data.attachment;
+  },
 };
@@ -0,0 +1,130 @@
+import api from './api';
+import axios from 'axios';
+import type { WorkflowStatus } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api/v1';
+
+export interface PortalLink {
+  id: string;
+  project_id: string;
+  contractor_email: string;
+  expires_at: string;
+  created_by: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+// Portal responses are the raw rows, minus the reply token and custom fields
+export interface PortalTask {
+  id: string;
+  task_number: number;
+  title: string;
+  description: string | null;
+  status: string;
+  trade: string | null;
+  annotation_x: number | null;
+  annotation_y: number | null;
+  annotation_width: number | null;
+  annotation_height: number | null;
+  annotation_page: number | null;
+  annotation_markers: Array<{ id: string; x: number; y: number; page: number }> | null;
+}
+
+export interface PortalTaskSummary extends PortalTask {
+  photo_count: number;
+  comment_count: number;
+}
+
+export interface PortalPhoto {
+  id: string;
+  caption: string | null;
+  download_url: string;
+  thumbnail_download_url: string | null;
+}
+
+export interface PortalComment {
+  id: string;
+  comment_text: string;
+  external_email: string | null;
+  user_first_name: string | null;
+  user_last_name: string | null;
+  created_at: string;
+}
+
+export interface PortalOverview {
+  project: { id: string; name: string };
+  contractorEmail: string;
+  expiresAt: string;
+  statuses: WorkflowStatus[];
+  tasks: PortalTaskSummary[];
+}
+
+export interface PortalTransition {
+  to: string;
+  label: string;
+  requiresComment: boolean;
+  requiresPhoto: boolean;
+}
+
+export interface PortalTaskDetail {
+  task: PortalTask;
+  statuses: WorkflowStatus[];
+  transitions: PortalTransition[];
+  photos: PortalPhoto[];
+  comments: PortalComment[];
+  blueprint: { id: string; name: string; download_url: string } | null;
+}
+
+export const contractorPortalApi = {
+  async listLinks(projectId: string): Promise<PortalLink[]> {
+    const res = await api.get(`/projects/${projectId}/portal-links`);
+    return res.data.data.links;
+  },
+
+  async createLink(projectId: string, email: string): Promise<{ link: PortalLink; portalUrl: string }> {
+    const res = await api.post(`/projects/${projectId}/portal-links`, { email });
+    return res.data.data;
+  },
+
+  async revokeLink(projectId: string, linkId: string): Promise<PortalLink> {
+    const res = await api.post(`/projects/${projectId}/portal-links/${linkId}/revoke`);
+    return res.data.data.link;
+  },
+
+  // Public endpoints (authorised by the magic-link token)
+  async getOverview(token: string): Promise<PortalOverview> {
+    const res = await axios.get(`${API_BASE_URL}/public/portal/${token}`);
+    return res.data.data;
+  },
+
+  async getTask(token: string, taskId: string): Promise<PortalTaskDetail> {
+    const res = await axios.get(`${API_BASE_URL}/public/portal/${token}/tasks/${taskId}`);
+    return res.data.data;
+  },
+
+  async addComment(token: string, taskId: string, commentText: string) {
+    const res = await axios.post(`${API_BASE_URL}/public/portal/${token}/tasks/${taskId}/comments`, { commentText });
+    return res.data.data.comment;
+  },
+
+  async requestPhotoUpload(token: string, taskId: string, data: {
+    fileName: string;
+    fileSize: number;
+    mimeType: string;
+  }) {
+    const res = await axios.post(`${API_BASE_URL}/public/portal/${token}/tasks/${taskId}/photos/upload-url`, data);
+    return res.data.data;
+  },
+
+  async confirmPhoto(token: string, taskId: string, photoId: string) {
+    const res = await axios.post(`${API_BASE_URL}/public/portal/${token}/tasks/${taskId}/photos/${photoId}/confirm`);
+    return res.data.data;
+  },
+
+  async updateStatus(token: string, taskId: string, status: string, comment?: string) {
+    const res = await axios.patch(`${API_BASE_URL}/public/portal/${token}/tasks/${taskId}/status`, { status, comment });
+    return res.data.data.task;
+  },
+};
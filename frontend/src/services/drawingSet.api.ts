@@ -0,0 +1,92 @@
+import api from './api';
+
+/** Discipline folders of a drawing set, in the order they are listed. */
+export const DISCIPLINES = [
+  'general',
+  'civil',
+  'architectural',
+  'structural',
+  'hvac',
+  'plumbing',
+  'electrical',
+  'fire_protection',
+] as const;
+
+export type Discipline = typeof DISCIPLINES[number];
+
+/** uploading → review once analysed → split once its sheets are created */
+export type DrawingSetStatus = 'uploading' | 'review' | 'split';
+
+/** A sheet proposed from a page's title block, reviewed by the PM before splitting. */
+export interface ProposedSheet {
+  page: number;
+  sheetNumber: string | null;
+  title: string;
+  discipline: Discipline;
+}
+
+export interface DrawingSet {
+  id: string;
+  project_id: string;
+  name: string;
+  status: DrawingSetStatus;
+  file_size_bytes: number | null;
+  page_count: number | null;
+  proposed_sheets: ProposedSheet[] | null;
+  created_at: string;
+  split_at: string | null;
+  sheet_count?: number;
+}
+
+/** A blueprint split off a drawing set. */
+export interface DrawingSetSheet {
+  id: string;
+  name: string;
+  sheet_number: string | null;
+  discipline: Discipline | null;
+  set_page: number | null;
+}
+
+export interface SheetUpdate {
+  blueprintId: string;
+  sheetNumber?: string | null;
+  title?: string;
+  discipline?: Discipline;
+}
+
+export const drawingSetApi = {
+  async list(projectId: string) {
+    const res = await api.get(`/projects/${projectId}/drawing-sets`);
+    return res.data.data.drawingSets as DrawingSet[];
+  },
+
+  async get(projectId: string, setId: string) {
+    const res = await api.get(`/projects/${projectId}/drawing-sets/${setId}`);
+    return res.data.data as { drawingSet: DrawingSet; sheets: DrawingSetSheet[] };
+  },
+
+  async requestUpload(projectId: string, data: { fileName: string; fileSize: number; mimeType: string; name: string }) {
+    const res = await api.post(`/projects/${projectId}/drawing-sets/upload-url`, data);
+    return res.data.data as { uploadUrl: string; drawingSetId: string; key: string; expiresAt: string };
+  },
+
+  async analyse(projectId: string, setId: string) {
+    const res = await api.post(`/projects/${projectId}/drawing-sets/${setId}/analyse`);
+    return res.data.data.drawingSet as DrawingSet;
+  },
+
+  async split(projectId: string, setId: string, sheets: ProposedSheet[]) {
+    const res = await api.post(`/projects/${projectId}/drawing-sets/${setId}/split`, { sheets });
+    return res.data.data as { drawingSet: DrawingSet; sheets: DrawingSetSheet[] };
+  },
+
+  async update(projectId: string, setId: string, data: { name?: string; sheets?: SheetUpdate[] }) {
+    const res = await api.patch(`/projects/${projectId}/drawing-sets/${setId}`, data);
+    return res.data.data as { drawingSet: DrawingSet; sheets: DrawingSetSheet[] };
+  },
+
+  async remove(projectId: string, setId: string) {
+    const res = await api.delete(`/projects/${projectId}/drawing-sets/${setId}`);
+    return res.data;
+  },
+};
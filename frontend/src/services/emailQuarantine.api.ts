@@ -0,0 +1,18 @@
+import api from './api';
+
+export const emailQuarantineApi = {
+  async list(projectId: string) {
+    const res = await api.get(`/projects/${projectId}/email-quarantine`);
+    return res.data.data.emails;
+  },
+
+  async approve(projectId: string, entryId: string) {
+    const res = await api.post(`/projects/${projectId}/email-quarantine/${entryId}/approve`);
+    return res.data.data;
+  },
+
+  async reject(projectId: string, entryId: string) {
+    const res = await api.post(`/projects/${projectId}/email-quarantine/${entryId}/reject`);
+    return res.data.data;
+  },
+};
@@ -0,0 +1,46 @@
+import api from './api';
+
+export interface MentionableUser {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+export interface Mention {
+  id: string;
+  project_id: string;
+  project_name: string;
+  task_id: string | null;
+  task_number: number | null;
+  task_title: string | null;
+  comment_id: string | null;
+  note_id: string | null;
+  /** The comment or note text, mention tokens included */
+  text: string;
+  author_first_name: string | null;
+  author_last_name: string | null;
+  created_at: string;
+}
+
+export interface MentionPage {
+  mentions: Mention[];
+  total: number;
+  totalPages: number;
+}
+
+export const mentionApi = {
+  async listMentionable(projectId: string): Promise<MentionableUser[]> {
+    const res = await api.get(`/projects/${projectId}/members/mentionable`);
+    return res.data.data.users;
+  },
+
+  async list(params: { page: number; limit: number }): Promise<MentionPage> {
+    const res = await api.get('/users/me/mentions', { params });
+    return {
+      mentions: res.data.data.mentions,
+      total: res.data.meta.pagination.total,
+      totalPages: res.data.meta.pagination.totalPages,
+    };
+  },
+};
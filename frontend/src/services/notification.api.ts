@@ -0,0 +1,83 @@
+import api from './api';
+
+export type NotificationType =
+  | 'task_assigned'
+  | 'task_status_changed'
+  | 'task_completed'
+  | 'task_comment'
+  | 'mention'
+  | 'task_unblocked'
+  | 'protocol_signed'
+  | 'backup_failed';
+
+/** in_app: bell only; email: bell plus an immediate email; digest: bell plus the digest email */
+export type NotificationChannel = 'in_app' | 'email' | 'digest';
+
+export type NotificationPreferences = Record<NotificationType, NotificationChannel>;
+
+export interface DigestSettings {
+  frequency: 'off' | 'daily' | 'weekly';
+  /** Local hour (0-23) in the chosen timezone */
+  sendHour: number;
+  /** ISO day of week for weekly digests, 1 = Monday */
+  weekday: number;
+  timezone: string;
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  actor_id: string | null;
+  actor_first_name: string | null;
+  actor_last_name: string | null;
+  project_id: string | null;
+  project_name: string | null;
+  task_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export const notificationApi = {
+  async list(params?: { unreadOnly?: boolean; limit?: number }) {
+    const res = await api.get('/notifications', { params });
+    return res.data.data as { notifications: Notification[]; unreadCount: number };
+  },
+
+  async unreadCount(): Promise<number> {
+    const res = await api.get('/notifications/unread-count');
+    return res.data.data.unreadCount;
+  },
+
+  async markRead(notificationId: string): Promise<Notification> {
+    const res = await api.post(`/notifications/${notificationId}/read`);
+    return res.data.data.notification;
+  },
+
+  async markAllRead(): Promise<number> {
+    const res = await api.post('/notifications/read-all');
+    return res.data.data.updated;
+  },
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    const res = await api.get('/notifications/preferences');
+    return res.data.data.preferences;
+  },
+
+  async updatePreferences(preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const res = await api.put('/notifications/preferences', { preferences });
+    return res.data.data.preferences;
+  },
+
+  async getDigestSettings(): Promise<DigestSettings> {
+    const res = await api.get('/notifications/digest');
+    return res.data.data.digest;
+  },
+
+  async updateDigestSettings(settings: DigestSettings): Promise<DigestSettings> {
+    const res = await api.put('/notifications/digest', settings);
+    return res.data.data.digest;
+  },
+};
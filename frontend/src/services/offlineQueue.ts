@@ -0,0 +1,284 @@
+import axios from 'axios';
+import { taskApi } from './task.api';
+import { commentApi } from './comment.api';
+import { uploadApi } from './upload.api';
+
+// IndexedDB-backed outbox for writes made while the device has no connection.
+// Entries are replayed strictly in insertion order once connectivity returns;
+// every request carries an Idempotency-Key so a replay can never create duplicates.
+
+const DB_NAME = 'taskproof-offline';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+export type OutboxAction =
+  | { type: 'createTask'; projectId: string; data: Parameters<typeof taskApi.create>[1] }
+  | { type: 'updateTask'; projectId: string; taskId: string; data: Record<string, unknown> }
+  | {
+    type: 'createComment';
+    projectId: string;
+    taskId: string;
+    commentText: string;
+    parentId?: string;
+    attachmentIds?: string[];
+  }
+  | {
+    type: 'uploadPhoto';
+    projectId: string;
+    taskId: string;
+    file: Blob;
+    fileName: string;
+    mimeType: string;
+    // Progress through the presigned-upload + confirm two-step, persisted so a
+    // retry resumes where it stopped instead of starting over
+    photoId?: string;
+    uploadUrl?: string;
+    uploaded?: boolean;
+  };
+
+export type OutboxEntry = OutboxAction & {
+  id?: number;
+  idempotencyKey: string;
+  status: 'pending' | 'failed';
+  error?: string;
+  conflict?: boolean;
+  label: string;
+  createdAt: string;
+};
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<Listener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let processing: Promise<number> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function listEntries(): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+async function deleteEntry(id: number): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+async function notify(): Promise<void> {
+  const entries = await listEntries();
+  listeners.forEach((listener) => listener(entries));
+}
+
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  listEntries().then(listener).catch(() => undefined);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function describe(action: OutboxAction): string {
+  switch (action.type) {
+    case 'createTask':
+      return `New task "${action.data.title}"`;
+    case 'updateTask':
+      return action.data.status ? `Status change to ${String(action.data.status).replace('_', ' ')}` : 'Task update';
+    case 'createComment':
+      return action.parentId ? 'Reply' : 'Comment';
+    case 'uploadPhoto':
+      return `Photo ${action.fileName}`;
+  }
+}
+
+export async function enqueue(action: OutboxAction, idempotencyKey = crypto.randomUUID()): Promise<void> {
+  await putEntry({
+    ...action,
+    idempotencyKey,
+    status: 'pending',
+    label: describe(action),
+    createdAt: new Date().toISOString(),
+  });
+  await notify();
+}
+
+/** True when a request never reached the server (as opposed to being rejected by it). */
+export function isNetworkError(err: unknown): boolean {
+  if (axios.isAxiosError(err)) return !err.response;
+  return err instanceof TypeError;
+}
+
+// An earlier attempt with the same key is still running server-side; try again on the next pass
+function isInProgress(err: unknown): boolean {
+  return axios.isAxiosError(err) && err.response?.data?.error?.code === 'IDEMPOTENCY_IN_PROGRESS';
+}
+
+/**
+ * Run a write immediately when online, or park it in the outbox when offline
+ * or when the request fails at the network level. Resolves to null when queued.
+ */
+export async function runOrQueue<T>(
+  action: OutboxAction,
+  run: (idempotencyKey: string) => Promise<T>,
+): Promise<T | null> {
+  const idempotencyKey = crypto.randomUUID();
+  if (!navigator.onLine) {
+    await enqueue(action, idempotencyKey);
+    return null;
+  }
+  try {
+    return await run(idempotencyKey);
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    await enqueue(action, idempotencyKey);
+    return null;
+  }
+}
+
+async function putToStorage(uploadUrl: string, file: Blob, mimeType: string): Promise<void> {
+  const res = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { 'Content-Type': mimeType, 'x-ms-blob-type': 'BlockBlob' },
+    body: file,
+  });
+  if (!res.ok) {
+    throw Object.assign(new Error(`Upload failed with status ${res.status}`), { response: res });
+  }
+}
+
+async function replay(entry: OutboxEntry): Promise<void> {
+  const key = entry.idempotencyKey;
+  switch (entry.type) {
+    case 'createTask':
+      await taskApi.create(entry.projectId, entry.data, key);
+      return;
+    case 'updateTask':
+      await taskApi.update(entry.projectId, entry.taskId, entry.data);
+      return;
+    case 'createComment':
+      await commentApi.create(entry.projectId, entry.taskId, {
+        commentText: entry.commentText,
+        parentId: entry.parentId,
+        attachmentIds: entry.attachmentIds,
+      }, key);
+      return;
+    case 'uploadPhoto': {
+      if (!entry.photoId || !entry.uploadUrl) {
+        const result = await uploadApi.requestPhotoUpload(entry.projectId, entry.taskId, {
+          fileName: entry.fileName,
+          fileSize: entry.file.size,
+          mimeType: entry.mimeType,
+        }, `${key}:upload-url`);
+        entry.photoId = result.photoId;
+        entry.uploadUrl = result.uploadUrl;
+        await putEntry(entry);
+      }
+      if (!entry.uploaded) {
+        await putToStorage(entry.uploadUrl!, entry.file, entry.mimeType);
+        entry.uploaded = true;
+        await putEntry(entry);
+      }
+      await uploadApi.confirmPhoto(entry.projectId, entry.taskId, entry.photoId!, `${key}:confirm`);
+      return;
+    }
+  }
+}
+
+function errorMessage(err: unknown): { message: string; conflict: boolean } {
+  if (axios.isAxiosError(err) && err.response?.data?.error?.code === 'CONFLICT') {
+    return { message: 'The task was changed by someone else while you were offline', conflict: true };
+  }
+  return { message: (err as Error)?.message || 'Sync failed', conflict: false };
+}
+
+async function drain(): Promise<number> {
+  let synced = 0;
+  for (const entry of await listEntries()) {
+    if (entry.status !== 'pending') continue;
+    if (!navigator.onLine) break;
+    try {
+      await replay(entry);
+      await deleteEntry(entry.id!);
+      synced++;
+    } catch (err) {
+      // Still no connection: stop and keep the remaining order intact
+      if (isNetworkError(err) || isInProgress(err)) break;
+      const { message, conflict } = errorMessage(err);
+      await putEntry({ ...entry, status: 'failed', error: message, conflict });
+    }
+    await notify();
+  }
+  await notify();
+  return synced;
+}
+
+/** Replay pending entries in order. Concurrent calls share the same run. Resolves to the number synced. */
+export function processOutbox(): Promise<number> {
+  if (!processing) {
+    processing = drain().finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+/**
+ * Put a failed entry back in the queue. A fresh idempotency key is used because
+ * the server stored the failed response under the old one. Conflicted updates
+ * are retried without the staleness check, i.e. they overwrite the server copy.
+ */
+export async function retryEntry(id: number): Promise<void> {
+  const entries = await listEntries();
+  const entry = entries.find((e) => e.id === id);
+  if (!entry) return;
+
+  const next: OutboxEntry = { ...entry, status: 'pending', error: undefined, idempotencyKey: crypto.randomUUID() };
+  if (next.type === 'updateTask' && entry.conflict) {
+    const { expectedUpdatedAt: _ignored, ...data } = next.data;
+    next.data = data;
+  }
+  if (next.type === 'uploadPhoto' && !next.uploaded) {
+    // The presigned URL may have expired; request a new one
+    next.photoId = undefined;
+    next.uploadUrl = undefined;
+  }
+  next.conflict = false;
+  await putEntry(next);
+  await notify();
+}
+
+export async function discardEntry(id: number): Promise<void> {
+  await deleteEntry(id);
+  await notify();
+}
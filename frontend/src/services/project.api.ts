@@ -1,4 +1,5 @@
 import api from './api';
+import type { ProjectMember, ProjectRole } from '../types';
 
 export const projectApi = {
   async list(params?: { status?: string; page?: number; limit?: number }) {
@@ -35,4 +36,29 @@ export const projectApi = {
     const res = await api.post(`/projects/${projectId}/confirm-image`);
     return res.data.data;
   },
+
+  async listMembers(projectId: string): Promise<ProjectMember[]> {
+    const res = await api.get(`/projects/${projectId}/members`);
+    return res.data.data.members;
+  },
+
+  async listMemberCandidates(projectId: string): Promise<Array<{ id: string; email: string; first_name: string; last_name: string }>> {
+    const res = await api.get(`/projects/${projectId}/members/candidates`);
+    return res.data.data.users;
+  },
+
+  async addMember(projectId: string, data: { userId: string; role: ProjectRole }) {
+    const res = await api.post(`/projects/${projectId}/members`, data);
+    return res.data.data.member;
+  },
+
+  async updateMember(projectId: string, userId: string, role: ProjectRole) {
+    const res = await api.patch(`/projects/${projectId}/members/${userId}`, { role });
+    return res.data.data.member;
+  },
+
+  async removeMember(projectId: string, userId: string) {
+    const res = await api.delete(`/projects/${projectId}/members/${userId}`);
+    return res.data;
+  },
 };
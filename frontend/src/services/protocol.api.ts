@@ -1,16 +1,15 @@
 import api from './api';
+import type { TaskFilterValues } from './task.api';
 
-export interface ProtocolFilters {
-  status?: string;
-  trade?: string;
-  priority?: string;
-  dateFrom?: string;
-  dateTo?: string;
-}
+export type ProtocolFilters = TaskFilterValues;
 
 export interface GenerateProtocolData {
   name: string;
+  /** Saved view whose tasks the protocol covers; filters refine it */
+  viewId?: string;
   filters?: ProtocolFilters;
+  /** Add each task's comment threads to the PDF */
+  includeComments?: boolean;
 }
 
 export interface Protocol {
@@ -0,0 +1,44 @@
+import api from './api';
+import type { PinnedView, SavedView } from '../types';
+import type { TaskFilterValues } from './task.api';
+
+export const savedViewApi = {
+  async list(projectId: string): Promise<SavedView[]> {
+    const res = await api.get(`/projects/${projectId}/views`);
+    return res.data.data.views;
+  },
+
+  async create(projectId: string, data: { name: string; filters: TaskFilterValues; isShared?: boolean }): Promise<SavedView> {
+    const res = await api.post(`/projects/${projectId}/views`, data);
+    return res.data.data.view;
+  },
+
+  async update(
+    projectId: string,
+    viewId: string,
+    data: { name?: string; filters?: TaskFilterValues; isShared?: boolean },
+  ): Promise<SavedView> {
+    const res = await api.patch(`/projects/${projectId}/views/${viewId}`, data);
+    return res.data.data.view;
+  },
+
+  async remove(projectId: string, viewId: string) {
+    const res = await api.delete(`/projects/${projectId}/views/${viewId}`);
+    return res.data;
+  },
+
+  async pin(projectId: string, viewId: string) {
+    const res = await api.put(`/projects/${projectId}/views/${viewId}/pin`);
+    return res.data;
+  },
+
+  async unpin(projectId: string, viewId: string) {
+    const res = await api.delete(`/projects/${projectId}/views/${viewId}/pin`);
+    return res.data;
+  },
+
+  async listPinned(): Promise<PinnedView[]> {
+    const res = await api.get('/users/me/views/pinned');
+    return res.data.data.views;
+  },
+};
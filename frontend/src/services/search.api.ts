@@ -0,0 +1,28 @@
+import api from './api';
+
+export type SearchResultType = 'task' | 'note' | 'comment' | 'product' | 'blueprint';
+
+/** Matched words in snippets are wrapped in these markers rather than HTML. */
+export const HIGHLIGHT_START = '[[';
+export const HIGHLIGHT_END = ']]';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  project_id: string | null;
+  project_name: string | null;
+  task_id: string | null;
+  task_number: number | null;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
+export const searchApi = {
+  async search(q: string, params?: { types?: SearchResultType[]; limit?: number }) {
+    const res = await api.get('/search', {
+      params: { q, types: params?.types?.join(','), limit: params?.limit },
+    });
+    return res.data.data.results as SearchResult[];
+  },
+};
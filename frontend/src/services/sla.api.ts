@@ -0,0 +1,31 @@
+import api from './api';
+import type { SlaRule } from '../types';
+
+export interface SlaRuleInput {
+  projectId?: string | null;
+  priority?: string | null;
+  trade?: string | null;
+  dueInDays: number;
+}
+
+export const slaApi = {
+  async list(): Promise<SlaRule[]> {
+    const res = await api.get('/admin/sla-rules');
+    return res.data.data.rules;
+  },
+
+  async create(data: SlaRuleInput): Promise<SlaRule> {
+    const res = await api.post('/admin/sla-rules', data);
+    return res.data.data.rule;
+  },
+
+  async update(id: string, data: Partial<SlaRuleInput>): Promise<SlaRule> {
+    const res = await api.patch(`/admin/sla-rules/${id}`, data);
+    return res.data.data.rule;
+  },
+
+  async remove(id: string) {
+    const res = await api.delete(`/admin/sla-rules/${id}`);
+    return res.data;
+  },
+};
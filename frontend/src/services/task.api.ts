@@ -1,22 +1,162 @@
 import api from './api';
+import type { BulkTaskResponse, TaskHistoryEntry, TaskStatusMetrics } from '../types';
 
-export interface TaskFilters {
-  status?: string;
-  priority?: string;
-  trade?: string;
+export type CustomFieldOperator = 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'empty' | 'not_empty';
+
+export interface CustomFieldPredicate {
+  key: string;
+  op: CustomFieldOperator;
+  value?: string;
+}
+
+/** Filters as stored in saved views. A task matches a list filter if it matches any entry. */
+export interface TaskFilterValues {
+  status?: string[];
+  priority?: string[];
+  trade?: string[];
+  /** User ids, or "me" */
+  assignee?: string[];
   assignedToMe?: boolean;
+  contractorEmail?: string;
+  blueprintId?: string[];
+  hasPhotos?: boolean;
+  createdFrom?: string;
+  createdTo?: string;
+  completedFrom?: string;
+  completedTo?: string;
+  verifiedFrom?: string;
+  verifiedTo?: string;
+  customFields?: CustomFieldPredicate[];
   search?: string;
-  sortBy?: 'number' | 'date' | 'user';
+  overdue?: boolean;
+  /** Has blockers that are not completed yet */
+  blocked?: boolean;
+}
+
+export interface TaskFilters extends TaskFilterValues {
+  /** Start from a saved view; the other filters override its values */
+  viewId?: string;
+  sortBy?: 'number' | 'date' | 'user' | 'due';
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+const LIST_FILTERS = ['status', 'priority', 'trade', 'assignee', 'blueprintId'] as const;
+const TEXT_FILTERS = [
+  'contractorEmail', 'createdFrom', 'createdTo', 'completedFrom', 'completedTo', 'verifiedFrom', 'verifiedTo', 'search',
+] as const;
+
+/** Conditions still being filled in are left out of requests. */
+export function isCompletePredicate(predicate: CustomFieldPredicate): boolean {
+  return predicate.op === 'empty' || predicate.op === 'not_empty' || !!predicate.value;
+}
+
+/**
+ * Query string form understood by the task list and export endpoints. The
+ * project page keeps its filters in the URL the same way, including the
+ * conditions still being edited.
+ */
+export function taskFiltersToParams(
+  filters: TaskFilters = {},
+  options: { keepIncomplete?: boolean } = {},
+): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of LIST_FILTERS) {
+    if (filters[key]?.length) params.set(key, filters[key]!.join(','));
+  }
+  for (const key of TEXT_FILTERS) {
+    if (filters[key]) params.set(key, filters[key]!);
+  }
+  if (filters.hasPhotos !== undefined) params.set('hasPhotos', String(filters.hasPhotos));
+  if (filters.assignedToMe) params.set('assignedToMe', 'true');
+  if (filters.overdue) params.set('overdue', 'true');
+  if (filters.blocked) params.set('blocked', 'true');
+  for (const predicate of filters.customFields || []) {
+    if (!options.keepIncomplete && !isCompletePredicate(predicate)) continue;
+    params.append(`cf.${predicate.key}`, `${predicate.op}:${predicate.value ?? ''}`);
+  }
+  if (filters.viewId) params.set('viewId', filters.viewId);
+  if (filters.sortBy) params.set('sortBy', filters.sortBy);
+  if (filters.sortOrder) params.set('sortOrder', filters.sortOrder);
+  if (filters.page) params.set('page', String(filters.page));
+  if (filters.limit) params.set('limit', String(filters.limit));
+  return params;
+}
+
+export function taskFiltersFromParams(params: URLSearchParams): TaskFilterValues {
+  const filters: TaskFilterValues = {};
+  for (const key of LIST_FILTERS) {
+    const value = params.get(key);
+    if (value) filters[key] = value.split(',').filter(Boolean);
+  }
+  for (const key of TEXT_FILTERS) {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  }
+  if (params.has('hasPhotos')) filters.hasPhotos = params.get('hasPhotos') === 'true';
+  if (params.get('assignedToMe') === 'true') filters.assignedToMe = true;
+  if (params.get('overdue') === 'true') filters.overdue = true;
+  if (params.get('blocked') === 'true') filters.blocked = true;
+  const customFields: CustomFieldPredicate[] = [];
+  params.forEach((value, name) => {
+    if (!name.startsWith('cf.')) return;
+    // A bare value means eq, as on the server
+    const separator = value.indexOf(':');
+    const operand = separator > 0 ? value.slice(separator + 1) : value;
+    customFields.push({
+      key: name.slice(3),
+      op: (separator > 0 ? value.slice(0, separator) : 'eq') as CustomFieldOperator,
+      ...(operand !== '' ? { value: operand } : {}),
+    });
+  });
+  if (customFields.length > 0) filters.customFields = customFields;
+  return filters;
+}
+
+/** The filters without conditions still being filled in, e.g. for saving as a view. */
+export function completeTaskFilters(filters: TaskFilterValues): TaskFilterValues {
+  const complete = { ...filters };
+  const customFields = (filters.customFields || []).filter(isCompletePredicate);
+  if (customFields.length > 0) complete.customFields = customFields;
+  else delete complete.customFields;
+  return complete;
+}
+
+/** Saved views may hold single values where the UI works with lists. */
+export function normalizeTaskFilters(filters: Record<string, unknown>): TaskFilterValues {
+  const normalized = { ...filters } as Record<string, unknown>;
+  for (const key of LIST_FILTERS) {
+    const value = normalized[key];
+    if (value !== undefined && !Array.isArray(value)) normalized[key] = [value];
+  }
+  for (const predicate of (normalized.customFields as CustomFieldPredicate[] | undefined) || []) {
+    if (predicate.value !== undefined) predicate.value = String(predicate.value);
+  }
+  return normalized as TaskFilterValues;
+}
+
+export interface BulkTaskChanges {
+  status?: string;
+  statusComment?: string;
+  priority?: string;
+  trade?: string | null;
+  blueprintId?: string | null;
+  assignedToUser?: string | null;
+  assignedToContractorEmail?: string | null;
+  customFields?: Record<string, unknown>;
+}
+
+export interface BulkTaskRequest {
+  taskIds?: string[];
+  filter?: TaskFilterValues;
+  action: 'update' | 'delete';
+  changes?: BulkTaskChanges;
+}
+
 export const taskApi = {
   async list(projectId: string, filters?: TaskFilters) {
-    const params: Record<string, unknown> = { ...filters };
-    if (filters?.assignedToMe) params.assignedToMe = 'true';
-    const res = await api.get(`/projects/${projectId}/tasks`, { params });
+    const res = await api.get(`/projects/${projectId}/tasks`, { params: taskFiltersToParams(filters) });
     return res.data;
   },
 
@@ -35,8 +175,13 @@ export const taskApi = {
     blueprintId?: string;
     locationX?: number;
     locationY?: number;
-  }) {
-    const res = await api.post(`/projects/${projectId}/tasks`, data);
+    customFields?: Record<string, unknown>;
+    dueDate?: string;
+    templateId?: string;
+  }, idempotencyKey?: string) {
+    const res = await api.post(`/projects/${projectId}/tasks`, data, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
     return res.data.data.task;
   },
 
@@ -45,13 +190,68 @@ export const taskApi = {
     return res.data.data.task;
   },
 
+  /** Copy the task into this project, or into another one when targetProjectId is given. */
+  async duplicate(projectId: string, taskId: string, targetProjectId?: string) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/duplicate`, { projectId: targetProjectId });
+    return res.data.data.task;
+  },
+
+  async move(projectId: string, taskId: string, targetProjectId: string) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/move`, { projectId: targetProjectId });
+    return res.data.data.task;
+  },
+
   async remove(projectId: string, taskId: string) {
     const res = await api.delete(`/projects/${projectId}/tasks/${taskId}`);
     return res.data;
   },
 
+  async bulk(projectId: string, data: BulkTaskRequest): Promise<BulkTaskResponse> {
+    const res = await api.post(`/projects/${projectId}/tasks/bulk`, data);
+    return res.data.data;
+  },
+
+  async downloadTemplate(projectId: string) {
+    const res = await api.get(`/projects/${projectId}/tasks/template`, { responseType: 'blob' });
+    triggerDownload(res.data, 'task-template.xlsx');
+  },
+
+  async exportTasks(projectId: string, filters?: TaskFilters) {
+    const res = await api.get(`/projects/${projectId}/tasks/export`, {
+      params: taskFiltersToParams(filters),
+      responseType: 'blob',
+    });
+    triggerDownload(res.data, 'tasks-export.xlsx');
+  },
+
+  async importTasks(projectId: string, file: File, mode: 'create' | 'update'): Promise<{ created: number; updated: number }> {
+    const formData = new FormData();
+    formData.append('mode', mode);
+    formData.append('file', file);
+    const res = await api.post(`/projects/${projectId}/tasks/import`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return res.data.data;
+  },
+
+  async history(projectId: string, taskId: string): Promise<{ history: TaskHistoryEntry[]; metrics: TaskStatusMetrics }> {
+    const res = await api.get(`/projects/${projectId}/tasks/${taskId}/history`);
+    return res.data.data;
+  },
+
   async listByBlueprint(projectId: string, blueprintId: string) {
     const res = await api.get(`/projects/${projectId}/tasks/by-blueprint/${blueprintId}`);
     return res.data.data.tasks;
   },
 };
+
+function triggerDownload(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,42 @@
+import api from './api';
+import type { TaskRecurrence } from '../types';
+
+export interface TaskRecurrenceInput {
+  templateId: string;
+  rule: string;
+  startsOn: string;
+  assignedToUser?: string | null;
+  skipIfOpen?: boolean;
+}
+
+export const taskRecurrenceApi = {
+  async list(projectId: string): Promise<TaskRecurrence[]> {
+    const res = await api.get(`/projects/${projectId}/recurrences`);
+    return res.data.data.recurrences;
+  },
+
+  /** The next dates of a rule, before it is saved. */
+  async preview(projectId: string, data: { rule: string; startsOn: string }): Promise<string[]> {
+    const res = await api.post(`/projects/${projectId}/recurrences/preview`, data);
+    return res.data.data.occurrences;
+  },
+
+  async create(projectId: string, data: TaskRecurrenceInput): Promise<TaskRecurrence> {
+    const res = await api.post(`/projects/${projectId}/recurrences`, data);
+    return res.data.data.recurrence;
+  },
+
+  async update(
+    projectId: string,
+    id: string,
+    data: Partial<TaskRecurrenceInput> & { isActive?: boolean },
+  ): Promise<TaskRecurrence> {
+    const res = await api.patch(`/projects/${projectId}/recurrences/${id}`, data);
+    return res.data.data.recurrence;
+  },
+
+  async remove(projectId: string, id: string) {
+    const res = await api.delete(`/projects/${projectId}/recurrences/${id}`);
+    return res.data;
+  },
+};
@@ -0,0 +1,35 @@
+import api from './api';
+
+/** How a task relates to another, named from the task's own point of view. */
+export type TaskRelationType = 'blocks' | 'blocked_by' | 'duplicates' | 'duplicated_by' | 'relates_to';
+
+/** The types a relation can be added as; duplicated_by is only ever shown. */
+export type NewTaskRelationType = 'blocks' | 'blocked_by' | 'duplicates' | 'relates_to';
+
+export interface TaskRelation {
+  id: string;
+  type: TaskRelationType;
+  related_task_id: string;
+  related_task_number: number;
+  related_title: string;
+  related_status: string;
+  related_status_category: string;
+  created_at: string;
+}
+
+export const taskRelationApi = {
+  async list(projectId: string, taskId: string) {
+    const res = await api.get(`/projects/${projectId}/tasks/${taskId}/relations`);
+    return res.data.data.relations as TaskRelation[];
+  },
+
+  async create(projectId: string, taskId: string, data: { type: NewTaskRelationType; taskId: string }) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/relations`, data);
+    return res.data.data.relation;
+  },
+
+  async remove(projectId: string, taskId: string, relationId: string) {
+    const res = await api.delete(`/projects/${projectId}/tasks/${taskId}/relations/${relationId}`);
+    return res.data;
+  },
+};
@@ -0,0 +1,59 @@
+import api from './api';
+import type { ChecklistItem, TaskPriority, TaskTemplate, TemplateChecklistItem } from '../types';
+
+export interface TaskTemplateInput {
+  name: string;
+  title: string;
+  description?: string | null;
+  trade?: string | null;
+  priority?: TaskPriority;
+  customFields?: Record<string, unknown>;
+  checklistItems?: TemplateChecklistItem[];
+  productIds?: string[];
+}
+
+export const taskTemplateApi = {
+  /** Templates to pick from when creating a task; open to every user. */
+  async list(params?: { trade?: string }): Promise<TaskTemplate[]> {
+    const res = await api.get('/task-templates', { params });
+    return res.data.data.templates;
+  },
+
+  async create(data: TaskTemplateInput): Promise<TaskTemplate> {
+    const res = await api.post('/admin/task-templates', data);
+    return res.data.data.template;
+  },
+
+  async update(id: string, data: Partial<TaskTemplateInput>): Promise<TaskTemplate> {
+    const res = await api.patch(`/admin/task-templates/${id}`, data);
+    return res.data.data.template;
+  },
+
+  async remove(id: string) {
+    const res = await api.delete(`/admin/task-templates/${id}`);
+    return res.data;
+  },
+};
+
+export const taskChecklistApi = {
+  async list(projectId: string, taskId: string): Promise<ChecklistItem[]> {
+    const res = await api.get(`/projects/${projectId}/tasks/${taskId}/checklist`);
+    return res.data.data.items;
+  },
+
+  /** One ad-hoc item, or every item of a template. */
+  async add(projectId: string, taskId: string, data: { templateId: string } | TemplateChecklistItem) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/checklist`, data);
+    return res.data.data.items as ChecklistItem[];
+  },
+
+  async setChecked(projectId: string, taskId: string, itemId: string, checked: boolean) {
+    const res = await api.patch(`/projects/${projectId}/tasks/${taskId}/checklist/${itemId}`, { checked });
+    return res.data.data.item as ChecklistItem;
+  },
+
+  async remove(projectId: string, taskId: string, itemId: string) {
+    const res = await api.delete(`/projects/${projectId}/tasks/${taskId}/checklist/${itemId}`);
+    return res.data;
+  },
+};
@@ -5,14 +5,67 @@ export const uploadApi = {
     fileName: string;
     fileSize: number;
     mimeType: string;
-    name: string;
+    name?: string;
+    // Upload a new revision of this blueprint instead of a new blueprint
+    blueprintId?: string;
+    label?: string;
   }) {
     const res = await api.post(`/projects/${projectId}/blueprints/upload-url`, data);
     return res.data.data;
   },
 
-  async confirmBlueprint(projectId: string, blueprintId: string) {
-    const res = await api.post(`/projects/${projectId}/blueprints/${blueprintId}/confirm`);
+  async confirmBlueprint(projectId: string, blueprintId: string, revisionId?: string) {
+    const res = await api.post(
+      `/projects/${projectId}/blueprints/${blueprintId}/confirm`,
+      revisionId ? { revisionId } : undefined,
+    );
+    return res.data.data;
+  },
+
+  async listBlueprintRevisions(projectId: string, blueprintId: string) {
+    const res = await api.get(`/projects/${projectId}/blueprints/${blueprintId}/revisions`);
+    return res.data.data.revisions;
+  },
+
+  async makeRevisionCurrent(projectId: string, blueprintId: string, revisionId: string) {
+    const res = await api.post(`/projects/${projectId}/blueprints/${blueprintId}/revisions/${revisionId}/make-current`);
+    return res.data.data;
+  },
+
+  async compareRevisions(projectId: string, blueprintId: string, data: { fromRevisionId: string; toRevisionId: string }) {
+    const res = await api.post(`/projects/${projectId}/blueprints/${blueprintId}/compare`, data);
+    return res.data.data.comparison;
+  },
+
+  async getBlueprintPreviews(projectId: string, blueprintId: string, revisionId?: string) {
+    const res = await api.get(`/projects/${projectId}/blueprints/${blueprintId}/previews`, { params: { revisionId } });
+    return res.data.data;
+  },
+
+  async renderBlueprintPreviews(projectId: string, blueprintId: string, revisionId?: string) {
+    const res = await api.post(`/projects/${projectId}/blueprints/${blueprintId}/previews`, { revisionId });
+    return res.data.data;
+  },
+
+  async reviewAnnotations(projectId: string, blueprintId: string, data: { taskIds: string[]; action: 'keep' | 'clear' }) {
+    const res = await api.post(`/projects/${projectId}/blueprints/${blueprintId}/review`, data);
+    return res.data.data;
+  },
+
+  async calibrateBlueprintPage(
+    projectId: string,
+    blueprintId: string,
+    page: number,
+    data:
+      | { method: 'line'; line: { x1: number; y1: number; x2: number; y2: number }; length: number }
+      | { method: 'scale'; ratio: number; paperSize: string },
+  ) {
+    const res = await api.put(`/projects/${projectId}/blueprints/${blueprintId}/calibrations/${page}`, data);
+    return res.data.data;
+  },
+
+  async removeBlueprintCalibration(projectId: string, blueprintId: string, page: number) {
+    const res = await api.delete(`/projects/${projectId}/blueprints/${blueprintId}/calibrations/${page}`);
     return res.data.data;
   },
 
@@ -31,13 +84,17 @@ export const uploadApi = {
     fileSize: number;
     mimeType: string;
     caption?: string;
-  }) {
-    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/photos/upload-url`, data);
+  }, idempotencyKey?: string) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/photos/upload-url`, data, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
     return res.data.data;
   },
 
-  async confirmPhoto(projectId: string, taskId: string, photoId: string) {
-    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/photos/${photoId}/confirm`);
+  async confirmPhoto(projectId: string, taskId: string, photoId: string, idempotencyKey?: string) {
+    const res = await api.post(`/projects/${projectId}/tasks/${taskId}/photos/${photoId}/confirm`, undefined, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
     return res.data.data;
   },
 
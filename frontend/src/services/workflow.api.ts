@@ -0,0 +1,26 @@
+import api from './api';
+import type { Workflow, WorkflowStatus, WorkflowTransition } from '../types';
+
+export const workflowApi = {
+  // Public endpoint — statuses and transitions for rendering tasks
+  async get(): Promise<Workflow> {
+    const res = await api.get('/workflow');
+    return res.data.data.workflow;
+  },
+
+  // Admin endpoints
+  async adminGet(): Promise<{ workflow: Workflow; taskCounts: Record<string, number> }> {
+    const res = await api.get('/admin/workflow');
+    return res.data.data;
+  },
+
+  async update(data: { statuses: WorkflowStatus[]; transitions: WorkflowTransition[] }): Promise<Workflow> {
+    const res = await api.put('/admin/workflow', data);
+    return res.data.data.workflow;
+  },
+
+  async reset(): Promise<Workflow> {
+    const res = await api.delete('/admin/workflow');
+    return res.data.data.workflow;
+  },
+};
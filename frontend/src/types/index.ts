@@ -7,6 +7,13 @@ export const UserRole = {
 } as const;
 export type UserRole = (typeof UserRole)[keyof typeof UserRole];
 
+export const ProjectRole = {
+  MANAGER: 'manager',
+  MEMBER: 'member',
+  VIEWER: 'viewer',
+} as const;
+export type ProjectRole = (typeof ProjectRole)[keyof typeof ProjectRole];
+
 export const TaskStatus = {
   OPEN: 'open',
   IN_PROGRESS: 'in_progress',
@@ -15,6 +22,9 @@ export const TaskStatus = {
 } as const;
 export type TaskStatus = (typeof TaskStatus)[keyof typeof TaskStatus];
 
+// Built-in statuses double as the categories custom workflow statuses map onto
+export type StatusCategory = TaskStatus;
+
 export const TaskPriority = {
   LOW: 'low',
   NORMAL: 'normal',
@@ -97,7 +107,7 @@ export interface Task {
   blueprintId: string | null;
   title: string;
   description: string | null;
-  status: TaskStatus;
+  status: string; // workflow status key
   priority: TaskPriority;
   trade: string | null;
   locationX: number | null;
@@ -118,6 +128,12 @@ export interface Task {
   annotationHeight: number | null;
   annotationPage: number | null;
   customFields?: Record<string, unknown>;
+  dueDate: string | null;
+  daysOverdue: number | null;
+  openBlockerCount: number;
+  checklistItemCount: number;
+  checklistCheckedCount: number;
+  checklistOpenRequiredCount: number;
 }
 
 export interface Blueprint {
@@ -155,6 +171,29 @@ export interface TaskComment {
   createdAt: string;
 }
 
+// Field-level change on a task, as returned by the history endpoint
+export interface TaskHistoryEntry {
+  id: string;
+  task_id: string;
+  field: string; // column name, 'custom_fields.<key>', or 'created' / 'photo' / 'product'
+  old_value: unknown;
+  new_value: unknown;
+  changed_by: string | null;
+  external_email: string | null;
+  via: 'portal' | 'email' | null;
+  created_at: string;
+  user_first_name?: string;
+  user_last_name?: string;
+}
+
+export interface TaskStatusMetrics {
+  timeInStatus: Record<string, number>; // seconds
+  startedAt: string | null;
+  completedAt: string | null;
+  cycleTimeSeconds: number | null;
+  leadTimeSeconds: number | null;
+}
+
 export interface Protocol {
   id: string;
   projectId: string;
@@ -240,6 +279,146 @@ export interface CustomFieldDefinition {
   updatedAt: string;
 }
 
+// Workflow types
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  color: string; // hex, e.g. #22c55e
+  category: StatusCategory;
+  isInitial: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  allowedRoles: UserRole[]; // empty = any role
+  requiresComment: boolean;
+  requiresPhoto: boolean;
+  allowExternal: boolean;
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  isDefault: boolean;
+}
+
+export interface BulkTaskResult {
+  taskId: string;
+  taskNumber: number | null;
+  success: boolean;
+  error?: { code: string; message: string };
+}
+
+export interface BulkTaskResponse {
+  results: BulkTaskResult[];
+  summary: { total: number; succeeded: number; failed: number };
+}
+
+// SLA rule as returned by the admin endpoint; null project/priority/trade match any
+export interface SlaRule {
+  id: string;
+  project_id: string | null;
+  project_name: string | null;
+  priority: TaskPriority | null;
+  trade: string | null;
+  due_in_days: number;
+  created_at: string;
+}
+
+export interface TemplateChecklistItem {
+  text: string;
+  isRequired: boolean;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  trade: string | null;
+  priority: TaskPriority;
+  custom_fields: Record<string, unknown>;
+  checklist_items: TemplateChecklistItem[];
+  products: { id: string; name: string }[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  task_id: string;
+  template_id: string | null;
+  text: string;
+  is_required: boolean;
+  position: number;
+  checked_by: string | null;
+  checked_by_first_name: string | null;
+  checked_by_last_name: string | null;
+  checked_at: string | null;
+  created_at: string;
+}
+
+export interface TaskRecurrence {
+  id: string;
+  project_id: string;
+  template_id: string;
+  template_name: string;
+  template_title: string;
+  template_trade: string | null;
+  /** RRULE such as FREQ=WEEKLY;BYDAY=MO */
+  rule: string;
+  starts_on: string;
+  next_occurrence_on: string | null;
+  upcoming_occurrences: string[];
+  assigned_to_user: string | null;
+  assignee_first_name: string | null;
+  assignee_last_name: string | null;
+  skip_if_open: boolean;
+  is_active: boolean;
+  occurrence_count: number;
+  last_task_id: string | null;
+  last_task_number: number | null;
+  last_task_status: string | null;
+  last_skipped_on: string | null;
+  created_at: string;
+}
+
+export interface ProjectMember {
+  id: string;
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  email: string;
+  first_name: string;
+  last_name: string;
+  user_role: UserRole;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface SavedView {
+  id: string;
+  project_id: string;
+  user_id: string;
+  name: string;
+  /** Same shape as TaskFilterValues; single values may appear where lists are expected */
+  filters: Record<string, unknown>;
+  is_shared: boolean;
+  is_pinned: boolean;
+  owner_first_name: string;
+  owner_last_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PinnedView {
+  id: string;
+  name: string;
+  project_id: string;
+  project_name: string;
+}
+
 // Bug Report types
 export const BugReportStatus = {
   OPEN: 'open',
@@ -39,7 +39,8 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
         runtimeCaching: [
           {
-            urlPattern: /^https:\/\/.*\/api\/v1\/.*/i,
+            // The event stream never completes, so it must bypass the cache
+            urlPattern: /^https:\/\/.*\/api\/v1\/(?!events).*/i,
             handler: 'NetworkFirst',
             options: {
               cacheName: 'api-cache',